@@ -13,15 +13,43 @@ import type {
   FilterApi,
   FunctionReference,
 } from "convex/server";
+import type * as accounts from "../accounts.js";
 import type * as ai from "../ai.js";
+import type * as analytics from "../analytics.js";
+import type * as assessments from "../assessments.js";
 import type * as aiHelpers from "../aiHelpers.js";
+import type * as chatActions from "../chatActions.js";
+import type * as checkIns from "../checkIns.js";
 import type * as conversations from "../conversations.js";
+import type * as crisis from "../crisis.js";
+import type * as dataExport from "../dataExport.js";
 import type * as emergencyContacts from "../emergencyContacts.js";
+import type * as encryption from "../encryption.js";
+import type * as exerciseCatalog from "../exerciseCatalog.js";
+import type * as exerciseDefinitions from "../exerciseDefinitions.js";
 import type * as exercises from "../exercises.js";
+import type * as hotlines from "../hotlines.js";
+import type * as identityRevoker from "../identityRevoker.js";
 import type * as init from "../init.js";
+import type * as journal from "../journal.js";
+import type * as llm from "../llm.js";
+import type * as memory from "../memory.js";
 import type * as messages from "../messages.js";
+import type * as moodFactors from "../moodFactors.js";
 import type * as moods from "../moods.js";
+import type * as notifier from "../notifier.js";
+import type * as questionnaires from "../questionnaires.js";
+import type * as quickReplies from "../quickReplies.js";
+import type * as recommendations from "../recommendations.js";
+import type * as reminders from "../reminders.js";
+import type * as reports from "../reports.js";
 import type * as resources from "../resources.js";
+import type * as search from "../search.js";
+import type * as searchText from "../searchText.js";
+import type * as sharing from "../sharing.js";
+import type * as streaks from "../streaks.js";
+import type * as sync from "../sync.js";
+import type * as timezones from "../timezones.js";
 import type * as users from "../users.js";
 
 /**
@@ -33,15 +61,43 @@ import type * as users from "../users.js";
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  accounts: typeof accounts;
   ai: typeof ai;
+  analytics: typeof analytics;
+  assessments: typeof assessments;
   aiHelpers: typeof aiHelpers;
+  chatActions: typeof chatActions;
+  checkIns: typeof checkIns;
   conversations: typeof conversations;
+  crisis: typeof crisis;
+  dataExport: typeof dataExport;
   emergencyContacts: typeof emergencyContacts;
+  encryption: typeof encryption;
+  exerciseCatalog: typeof exerciseCatalog;
+  exerciseDefinitions: typeof exerciseDefinitions;
   exercises: typeof exercises;
+  hotlines: typeof hotlines;
+  identityRevoker: typeof identityRevoker;
   init: typeof init;
+  journal: typeof journal;
+  llm: typeof llm;
+  memory: typeof memory;
   messages: typeof messages;
+  moodFactors: typeof moodFactors;
   moods: typeof moods;
+  notifier: typeof notifier;
+  questionnaires: typeof questionnaires;
+  quickReplies: typeof quickReplies;
+  recommendations: typeof recommendations;
+  reminders: typeof reminders;
+  reports: typeof reports;
   resources: typeof resources;
+  search: typeof search;
+  searchText: typeof searchText;
+  sharing: typeof sharing;
+  streaks: typeof streaks;
+  sync: typeof sync;
+  timezones: typeof timezones;
   users: typeof users;
 }>;
 export declare const api: FilterApi<
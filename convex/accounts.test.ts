@@ -0,0 +1,297 @@
+// @vitest-environment edge-runtime
+/// <reference types="vite/client" />
+/**
+ * Integration Tests for account deletion
+ * Seeds every user-owned table, deletes one account and checks nothing referencing it remains
+ */
+
+import { convexTest } from 'convex-test';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { api } from './_generated/api';
+import { Id } from './_generated/dataModel';
+import { hashSubject, PURGE_BATCH_SIZE } from './accounts';
+import { getIdentityRevoker, maskClerkId } from './identityRevoker';
+import schema from './schema';
+
+const modules = import.meta.glob('./**/*.ts');
+
+type TestConvex = ReturnType<typeof convexTest>;
+
+// One row in every table keyed on the user, plus enough messages to need several batches
+async function seedUser(t: TestConvex, clerkId: string, messageCount: number) {
+  return await t.run(async (ctx) => {
+    const now = Date.now();
+    const userId = await ctx.db.insert('users', { clerkId, name: 'Omar', email: `${clerkId}@example.com` });
+    const conversationId = await ctx.db.insert('conversations', { userId, isActive: true, messageCount });
+
+    for (let i = 0; i < messageCount; i++) {
+      await ctx.db.insert('messages', {
+        conversationId,
+        userId,
+        role: i % 2 ? 'assistant' : 'user',
+        content: `message ${i}`,
+        timestamp: now + i,
+        reactions: i === 1 ? [{ userId, type: 'helpful', timestamp: now }] : undefined,
+      });
+    }
+
+    await ctx.db.insert('moods', { userId, rating: 3, timestamp: now });
+    await ctx.db.insert('moodFactors', {
+      userId,
+      key: 'custom-family',
+      label: { en: 'Family' },
+      emoji: '👪',
+      category: 'social',
+      isBuiltIn: false,
+      createdAt: now,
+    });
+    await ctx.db.insert('streaks', {
+      userId,
+      type: 'mood',
+      currentStreak: 1,
+      longestStreak: 1,
+      lastEntryDate: '2025-01-01',
+      streakStartDate: '2025-01-01',
+      totalEntries: 1,
+    });
+    await ctx.db.insert('streakHistory', {
+      userId,
+      type: 'mood',
+      length: 3,
+      startDate: '2024-12-01',
+      endDate: '2024-12-03',
+    });
+    await ctx.db.insert('assessments', {
+      userId,
+      questionnaireId: 'gad7',
+      answers: [1, 1, 1, 1, 0, 0, 0],
+      totalScore: 4,
+      severity: 'minimal',
+      riskItems: [],
+      completedAt: now,
+    });
+    await ctx.db.insert('exercises', { userId, type: 'breathing', completedAt: now, conversationId, data: {} });
+    const entryId = await ctx.db.insert('journalEntries', {
+      userId,
+      content: 'Dear diary',
+      tags: [],
+      searchText: 'dear diary',
+      createdAt: now,
+      updatedAt: now,
+    });
+    await ctx.db.insert('journalReflections', { userId, entryId, content: 'Reflection', language: 'en', createdAt: now });
+    const contactId = await ctx.db.insert('emergencyContacts', {
+      userId,
+      name: 'Sara',
+      phone: '+966500000000',
+      relationship: 'Sister',
+      isPrimary: true,
+    });
+    await ctx.db.insert('crisisEvents', {
+      userId,
+      conversationId,
+      severity: 'critical',
+      indicators: ['self-harm'],
+      status: 'notified',
+      contactId,
+      detectedAt: now,
+    });
+    const grantId = await ctx.db.insert('shareGrants', {
+      userId,
+      tokenHash: 'hash',
+      scopes: ['moods'],
+      createdAt: now,
+      expiresAt: now + 1000,
+    });
+    await ctx.db.insert('shareAccessLog', { grantId, userId, scope: 'moods', accessedAt: now });
+    await ctx.db.insert('userSummaries', {
+      userId,
+      summary: 'summary',
+      keyThemes: [],
+      emotionalPatterns: [],
+      preferredApproaches: [],
+      triggerWords: [],
+      progress: { commonChallenges: [], successfulStrategies: [], areas_of_growth: [] },
+      conversationCount: 1,
+      lastUpdated: now,
+      version: 1,
+    });
+    await ctx.db.insert('conversationSummaries', {
+      conversationId,
+      userId,
+      summary: 'summary',
+      keyTopics: [],
+      moodProgression: 'stable',
+      therapeuticInsights: [],
+      suggestedNextSteps: [],
+      sentimentAnalysis: { overallSentiment: 'neutral', emotionalRange: [], crisisIndicators: [] },
+      generatedAt: now,
+    });
+
+    const storageId = await ctx.storage.store(new Blob(['{}'], { type: 'application/json' }));
+    await ctx.db.insert('dataExports', {
+      userId,
+      status: 'ready',
+      formatVersion: 1,
+      files: [{ name: 'nafsy-export.json', contentType: 'application/json', storageId, size: 2 }],
+      requestedAt: now,
+    });
+
+    return { userId, storageId };
+  });
+}
+
+// Every document, in every table, that mentions the given ID anywhere
+async function findReferences(t: TestConvex, id: string) {
+  return await t.run(async (ctx) => {
+    const found: string[] = [];
+    for (const table of Object.keys(schema.tables)) {
+      const docs = await ctx.db.query(table as keyof typeof schema.tables).collect();
+      for (const doc of docs) {
+        if (JSON.stringify(doc).includes(id)) {
+          found.push(`${table}:${doc._id}`);
+        }
+      }
+    }
+    return found;
+  });
+}
+
+describe('Account Deletion', () => {
+  let t: TestConvex;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    t = convexTest(schema, modules);
+  });
+
+  it('should leave nothing referencing the deleted user', async () => {
+    const { userId, storageId } = await seedUser(t, 'clerk_deleted', PURGE_BATCH_SIZE * 2 + 5);
+    expect((await findReferences(t, userId)).length).toBeGreaterThan(0);
+
+    await t.action(api.accounts.deleteAccount, { userId });
+
+    expect(await findReferences(t, userId)).toEqual([]);
+    expect(await t.run(ctx => ctx.storage.get(storageId))).toBeNull();
+  });
+
+  it('should purge messages in batches and report counts per table', async () => {
+    const { userId } = await seedUser(t, 'clerk_deleted', PURGE_BATCH_SIZE * 2 + 5);
+
+    const result = await t.action(api.accounts.deleteAccount, { userId });
+
+    expect(result.deletedCounts).toEqual({
+      messages: PURGE_BATCH_SIZE * 2 + 5,
+      conversationSummaries: 1,
+      exercises: 1,
+      journalReflections: 1,
+      journalEntries: 1,
+      moods: 1,
+      moodFactors: 1,
+      streaks: 1,
+      streakHistory: 1,
+      assessments: 1,
+      userSummaries: 1,
+      crisisEvents: 1,
+      emergencyContacts: 1,
+      dataExports: 1,
+      shareAccessLog: 1,
+      shareGrants: 1,
+      conversations: 1,
+      users: 1,
+    });
+    // Only the log revoker is configured here
+    expect(result.identityRevoked).toBe(false);
+  });
+
+  it('should record the identity as revoked once a real revoker succeeds', async () => {
+    vi.stubEnv('IDENTITY_REVOKER', 'webhook');
+    vi.stubEnv('IDENTITY_REVOKER_WEBHOOK_URL', 'https://hooks.example.com/identity');
+    global.fetch = vi.fn().mockResolvedValue({ ok: true, statusText: 'OK' });
+    const { userId } = await seedUser(t, 'clerk_deleted', 1);
+
+    const result = await t.action(api.accounts.deleteAccount, { userId });
+
+    vi.unstubAllEnvs();
+    expect(result.identityRevoked).toBe(true);
+    const tombstone = await t.run(ctx => ctx.db.get(result.deletionId as Id<'accountDeletions'>));
+    expect(tombstone?.identityRevoked).toBe(true);
+  });
+
+  it('should keep other users\' data intact', async () => {
+    const { userId } = await seedUser(t, 'clerk_deleted', 3);
+    const other = await seedUser(t, 'clerk_other', 3);
+    const before = await findReferences(t, other.userId);
+
+    await t.action(api.accounts.deleteAccount, { userId });
+
+    expect(await findReferences(t, other.userId)).toEqual(before);
+    expect(await t.run(async ctx => (await ctx.storage.get(other.storageId)) !== null)).toBe(true);
+  });
+
+  it('should record a tombstone without personal data', async () => {
+    const { userId } = await seedUser(t, 'clerk_deleted', 1);
+
+    const { deletionId } = await t.action(api.accounts.deleteAccount, { userId });
+
+    const tombstone = await t.run(ctx => ctx.db.get(deletionId as Id<'accountDeletions'>));
+    expect(tombstone?.status).toBe('completed');
+    expect(tombstone?.subjectHash).toBe(await hashSubject('clerk_deleted'));
+    expect(JSON.stringify(tombstone)).not.toContain('clerk_deleted');
+    expect(JSON.stringify(tombstone)).not.toContain('Omar');
+  });
+
+  it('should still purge when identity revocation fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubEnv('IDENTITY_REVOKER', 'webhook');
+    const { userId } = await seedUser(t, 'clerk_deleted', 1);
+
+    const result = await t.action(api.accounts.deleteAccount, { userId });
+
+    vi.unstubAllEnvs();
+    expect(result.identityRevoked).toBe(false);
+    expect(await findReferences(t, userId)).toEqual([]);
+  });
+
+  it('should reject unknown users', async () => {
+    const { userId } = await seedUser(t, 'clerk_deleted', 1);
+    await t.action(api.accounts.deleteAccount, { userId });
+
+    await expect(t.action(api.accounts.deleteAccount, { userId })).rejects.toThrow('User not found');
+  });
+
+  describe('Identity revoker', () => {
+    it('should default to logging only', () => {
+      expect(getIdentityRevoker({}).name).toBe('log');
+      expect(getIdentityRevoker({}).revokes).toBe(false);
+      expect(() => getIdentityRevoker({ IDENTITY_REVOKER: 'ldap' })).toThrow('Unknown identity revoker: ldap');
+    });
+
+    it('should delete the Clerk user through the configured webhook', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({ ok: true });
+      vi.stubGlobal('fetch', fetchMock);
+
+      await getIdentityRevoker({ IDENTITY_REVOKER: 'webhook', IDENTITY_REVOKER_WEBHOOK_URL: 'https://hooks.example.com/clerk' })
+        .revoke('user_123');
+
+      expect(fetchMock).toHaveBeenCalledWith('https://hooks.example.com/clerk', expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ event: 'user.deleted', clerkId: 'user_123' }),
+      }));
+      vi.unstubAllGlobals();
+    });
+
+    it('should treat a Clerk user that is already gone as revoked', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found' }));
+
+      await expect(getIdentityRevoker({ IDENTITY_REVOKER: 'clerk', CLERK_SECRET_KEY: 'sk_test' }).revoke('user_123'))
+        .resolves.toBeUndefined();
+      vi.unstubAllGlobals();
+    });
+
+    it('should mask Clerk IDs', () => {
+      expect(maskClerkId('user_2abcXYZ')).toBe('***cXYZ');
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { action, internalMutation, internalQuery, MutationCtx } from "./_generated/server";
+import { getIdentityRevoker } from "./identityRevoker";
+
+// Account deletion (GDPR / Saudi PDPL right to erasure).
+//
+// deleteAccount removes every row that belongs to a user, in batches so long
+// message histories never exceed a single mutation's limits, then deletes the
+// user document itself and revokes their Clerk identity. What remains is an
+// accountDeletions tombstone holding only a hash of the Clerk ID and the
+// number of rows removed per table.
+
+// Rows removed per purge mutation
+export const PURGE_BATCH_SIZE = 200;
+
+// Dependent rows go before the conversations they point at
+export const PURGE_ORDER = [
+  "messages",
+  "conversationSummaries",
+  "exercises",
+  "journalReflections",
+  "journalEntries",
+  "moods",
+  "moodFactors",
+  "streaks",
+  "streakHistory",
+  "assessments",
+  "userSummaries",
+  "crisisEvents",
+  "emergencyContacts",
+  "dataExports",
+  "shareAccessLog",
+  "shareGrants",
+  "conversations",
+] as const;
+
+export type PurgeTable = (typeof PURGE_ORDER)[number];
+
+// Next batch of a user's rows in one table
+async function takeBatch(ctx: MutationCtx, table: PurgeTable, userId: Id<"users">) {
+  switch (table) {
+    case "messages":
+      return await ctx.db.query("messages").withIndex("by_user", (q) => q.eq("userId", userId)).take(PURGE_BATCH_SIZE);
+    case "conversationSummaries":
+      return await ctx.db.query("conversationSummaries").withIndex("by_user", (q) => q.eq("userId", userId)).take(PURGE_BATCH_SIZE);
+    case "exercises":
+      return await ctx.db.query("exercises").withIndex("by_user", (q) => q.eq("userId", userId)).take(PURGE_BATCH_SIZE);
+    case "journalReflections":
+      return await ctx.db.query("journalReflections").withIndex("by_user", (q) => q.eq("userId", userId)).take(PURGE_BATCH_SIZE);
+    case "journalEntries":
+      return await ctx.db.query("journalEntries").withIndex("by_user", (q) => q.eq("userId", userId)).take(PURGE_BATCH_SIZE);
+    case "moods":
+      return await ctx.db.query("moods").withIndex("by_user", (q) => q.eq("userId", userId)).take(PURGE_BATCH_SIZE);
+    case "moodFactors":
+      return await ctx.db.query("moodFactors").withIndex("by_user", (q) => q.eq("userId", userId)).take(PURGE_BATCH_SIZE);
+    case "streaks":
+      return await ctx.db.query("streaks").withIndex("by_user_type", (q) => q.eq("userId", userId)).take(PURGE_BATCH_SIZE);
+    case "streakHistory":
+      return await ctx.db.query("streakHistory").withIndex("by_user_type", (q) => q.eq("userId", userId)).take(PURGE_BATCH_SIZE);
+    case "assessments":
+      return await ctx.db.query("assessments").withIndex("by_user", (q) => q.eq("userId", userId)).take(PURGE_BATCH_SIZE);
+    case "userSummaries":
+      return await ctx.db.query("userSummaries").withIndex("by_user", (q) => q.eq("userId", userId)).take(PURGE_BATCH_SIZE);
+    case "crisisEvents":
+      return await ctx.db.query("crisisEvents").withIndex("by_user", (q) => q.eq("userId", userId)).take(PURGE_BATCH_SIZE);
+    case "emergencyContacts":
+      return await ctx.db.query("emergencyContacts").withIndex("by_user", (q) => q.eq("userId", userId)).take(PURGE_BATCH_SIZE);
+    case "dataExports":
+      return await ctx.db.query("dataExports").withIndex("by_user", (q) => q.eq("userId", userId)).take(PURGE_BATCH_SIZE);
+    case "shareAccessLog":
+      return await ctx.db.query("shareAccessLog").withIndex("by_user", (q) => q.eq("userId", userId)).take(PURGE_BATCH_SIZE);
+    case "shareGrants":
+      return await ctx.db.query("shareGrants").withIndex("by_user", (q) => q.eq("userId", userId)).take(PURGE_BATCH_SIZE);
+    case "conversations":
+      return await ctx.db.query("conversations").withIndex("by_user", (q) => q.eq("userId", userId)).take(PURGE_BATCH_SIZE);
+  }
+}
+
+// SHA-256 of the Clerk ID, so a tombstone can be matched without storing it
+export async function hashSubject(clerkId: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(clerkId));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Permanently delete a user's account and everything stored about them
+export const deleteAccount = action({
+  args: { userId: v.id("users") },
+  returns: v.object({
+    deletionId: v.id("accountDeletions"),
+    deletedCounts: v.record(v.string(), v.number()),
+    identityRevoked: v.boolean(),
+  }),
+  handler: async (ctx, args): Promise<{
+    deletionId: Id<"accountDeletions">;
+    deletedCounts: Record<string, number>;
+    identityRevoked: boolean;
+  }> => {
+    const user = await ctx.runQuery(internal.accounts.getUserForDeletion, { userId: args.userId });
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const deletionId = await ctx.runMutation(internal.accounts.startDeletion, {
+      subjectHash: await hashSubject(user.clerkId),
+    });
+
+    const deletedCounts: Record<string, number> = {};
+    let done = false;
+    while (!done) {
+      const batch: { table: string; deleted: number; done: boolean } =
+        await ctx.runMutation(internal.accounts.purgeUserBatch, { userId: args.userId });
+      deletedCounts[batch.table] = (deletedCounts[batch.table] ?? 0) + batch.deleted;
+      done = batch.done;
+    }
+
+    // Data is already gone at this point; a failed revocation is recorded on
+    // the tombstone rather than undoing the purge. The log-only revoker leaves
+    // the identity in place, so it never counts as revoked.
+    let identityRevoked = false;
+    try {
+      const revoker = getIdentityRevoker();
+      await revoker.revoke(user.clerkId);
+      identityRevoked = revoker.revokes;
+    } catch (error) {
+      console.error("Identity revocation error:", error);
+    }
+
+    await ctx.runMutation(internal.accounts.completeDeletion, {
+      deletionId,
+      deletedCounts,
+      identityRevoked,
+    });
+
+    return { deletionId, deletedCounts, identityRevoked };
+  },
+});
+
+export const getUserForDeletion = internalQuery({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    const user = await ctx.db.get(args.userId);
+    return user ? { clerkId: user.clerkId } : null;
+  },
+});
+
+export const startDeletion = internalMutation({
+  args: { subjectHash: v.string() },
+  returns: v.id("accountDeletions"),
+  handler: async (ctx, args) => {
+    return await ctx.db.insert("accountDeletions", {
+      subjectHash: args.subjectHash,
+      status: "in_progress",
+      requestedAt: Date.now(),
+    });
+  },
+});
+
+// Delete the next batch of the user's rows. The user document goes last, once
+// nothing else references it.
+export const purgeUserBatch = internalMutation({
+  args: { userId: v.id("users") },
+  returns: v.object({
+    table: v.string(),
+    deleted: v.number(),
+    done: v.boolean(),
+  }),
+  handler: async (ctx, args) => {
+    for (const table of PURGE_ORDER) {
+      const rows = await takeBatch(ctx, table, args.userId);
+      if (rows.length === 0) continue;
+
+      for (const row of rows) {
+        if (table === "dataExports" && "files" in row) {
+          for (const file of row.files ?? []) {
+            await ctx.storage.delete(file.storageId);
+          }
+        }
+        await ctx.db.delete(row._id);
+      }
+      return { table, deleted: rows.length, done: false };
+    }
+
+    const user = await ctx.db.get(args.userId);
+    if (user) {
+      await ctx.db.delete(args.userId);
+    }
+    return { table: "users", deleted: user ? 1 : 0, done: true };
+  },
+});
+
+export const completeDeletion = internalMutation({
+  args: {
+    deletionId: v.id("accountDeletions"),
+    deletedCounts: v.record(v.string(), v.number()),
+    identityRevoked: v.boolean(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.deletionId, {
+      status: "completed",
+      deletedCounts: args.deletedCounts,
+      identityRevoked: args.identityRevoked,
+      completedAt: Date.now(),
+    });
+    return null;
+  },
+});
@@ -1,9 +1,74 @@
 import { v } from "convex/values";
 import { api } from "./_generated/api";
-import { action, mutation, query } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { action, ActionCtx, mutation, query } from "./_generated/server";
 import { analyzeSentiment, detectMessageLanguage, smartChunkResponse } from "./aiHelpers";
+import { CheckInSummary, formatCheckInsForPrompt } from "./checkIns";
+import { classifyConversation, CONVERSATION_WINDOW } from "./crisisClassifier";
+import { BUILT_IN_EXERCISE_DEFINITIONS } from "./exerciseCatalog";
+import { EXERCISE_SCHEMA_VERSION, ExerciseDefinition } from "./exerciseDefinitions";
+import { chatActionTools, toChatActions } from "./chatActions";
+import { internationalHotlines } from "./hotlines";
+import { getLLMProvider, LLMCompletionRequest, LLMProvider, LLMStreamOptions, LLMToolCall } from "./llm";
+import { formatMemoriesForPrompt, RecalledMemory } from "./memory";
+import { MoodFactor } from "./moodFactors";
+import { defaultReason, ExerciseRecommendation } from "./recommendations";
+
+// How many past sessions/messages are recalled into the system prompt
+const MEMORY_RECALL_LIMIT = 3;
+
+// How often streamed tokens are flushed into the draft message
+const STREAM_FLUSH_INTERVAL_MS = 150;
+
+// Stream a completion into a draft message, patching it as tokens arrive.
+// Stops early (keeping the partial text) if the draft is cancelled.
+async function streamIntoDraft(
+  ctx: ActionCtx,
+  llm: LLMProvider,
+  request: LLMCompletionRequest,
+  messageId: Id<"messages">,
+  toolOptions: Pick<LLMStreamOptions, "tools" | "onToolCall"> = {},
+): Promise<string> {
+  const controller = new AbortController();
+  let content = "";
+  let flushedContent = "";
+  let lastFlushAt = 0;
+
+  const flush = async () => {
+    if (content === flushedContent) return;
+    flushedContent = content;
+    const stillStreaming = await ctx.runMutation(api.messages.updateDraftMessage, { messageId, content });
+    if (!stillStreaming) {
+      controller.abort();
+    }
+  };
+
+  try {
+    await llm.stream(request, {
+      ...toolOptions,
+      signal: controller.signal,
+      onToken: async (delta) => {
+        content += delta;
+        if (Date.now() - lastFlushAt >= STREAM_FLUSH_INTERVAL_MS) {
+          lastFlushAt = Date.now();
+          await flush();
+        }
+      },
+    });
+  } catch (error) {
+    // Aborting after a cancel is expected; anything else is a real failure
+    if (!controller.signal.aborted) {
+      throw error;
+    }
+  }
 
-// OpenAI integration for generating AI responses
+  if (!controller.signal.aborted) {
+    await flush();
+  }
+  return content;
+}
+
+// Generate AI responses through the configured LLM provider
 export const generateResponse = action({
   args: {
     messages: v.array(v.object({
@@ -26,6 +91,11 @@ export const generateResponse = action({
       })),
     })),
     language: v.string(),
+    // The conversation being answered; excluded from semantic memory recall
+    conversationId: v.optional(v.id("conversations")),
+    // When set, the response is streamed into this draft message as it is
+    // generated, and the assistant may offer in-chat actions (see chatActions.ts)
+    draftMessageId: v.optional(v.id("messages")),
   },
   returns: v.object({
     content: v.string(),
@@ -33,13 +103,15 @@ export const generateResponse = action({
       score: v.number(),
       label: v.string(),
     }),
+    actions: v.optional(v.array(v.object({
+      type: v.union(v.literal("start-exercise"), v.literal("log-mood"), v.literal("open-thought-record")),
+      exerciseId: v.optional(v.string()),
+      thoughtText: v.optional(v.string()),
+    }))),
   }),
   handler: async (ctx, args) => {
-    // Get OpenAI API key from environment
-    const openaiApiKey = process.env.OPENAI_API_KEY;
-    if (!openaiApiKey) {
-      throw new Error("OpenAI API key not configured");
-    }
+    // Resolve the configured LLM provider
+    const llm = getLLMProvider();
 
     // Detect language from user's recent message to ensure response matching
     const lastUserMessage = args.messages.filter(msg => msg.role === 'user').pop();
@@ -103,60 +175,76 @@ Remember: You are a supportive coach, not a licensed therapist.`;
       
       if (moodInsights) {
         contextualInfo += args.language === "ar"
-          ? `\n\nرؤى المزاج:\n- المزاج الحالي: ${moodInsights.currentMood}/10\n- متوسط المزاج: ${moodInsights.averageRating.toFixed(1)}/10\n- التقلب: ${moodInsights.volatility > 2 ? 'عالي' : moodInsights.volatility > 1 ? 'متوسط' : 'منخفض'}\n- أفضل وقت في اليوم: ${moodInsights.bestTimeOfDay || 'غير محدد'}\n- العوامل الإيجابية: ${moodInsights.positiveMoodFactors.join(", ") || 'لا يوجد'}\n- العوامل السلبية: ${moodInsights.negativeMoodFactors.join(", ") || 'لا يوجد'}`
-          : `\n\nMood Insights:\n- Current mood: ${moodInsights.currentMood}/10\n- Average mood: ${moodInsights.averageRating.toFixed(1)}/10\n- Volatility: ${moodInsights.volatility > 2 ? 'High' : moodInsights.volatility > 1 ? 'Moderate' : 'Low'}\n- Best time of day: ${moodInsights.bestTimeOfDay || 'Not determined'}\n- Positive factors: ${moodInsights.positiveMoodFactors.join(", ") || 'None'}\n- Negative factors: ${moodInsights.negativeMoodFactors.join(", ") || 'None'}`;
+          ? `\n\nرؤى المزاج:\n- المزاج الحالي: ${moodInsights.currentMood}/10\n- متوسط المزاج: ${moodInsights.averageRating.toFixed(1)}/10\n- التقلب: ${moodInsights.volatility > 2 ? 'عالي' : moodInsights.volatility > 1 ? 'متوسط' : 'منخفض'}\n- أفضل وقت في اليوم: ${moodInsights.bestTimeOfDay || 'غير محدد'}\n- العوامل الإيجابية: ${moodInsights.positiveMoodFactors.map((f: MoodFactor) => f.label.ar).join(", ") || 'لا يوجد'}\n- العوامل السلبية: ${moodInsights.negativeMoodFactors.map((f: MoodFactor) => f.label.ar).join(", ") || 'لا يوجد'}`
+          : `\n\nMood Insights:\n- Current mood: ${moodInsights.currentMood}/10\n- Average mood: ${moodInsights.averageRating.toFixed(1)}/10\n- Volatility: ${moodInsights.volatility > 2 ? 'High' : moodInsights.volatility > 1 ? 'Moderate' : 'Low'}\n- Best time of day: ${moodInsights.bestTimeOfDay || 'Not determined'}\n- Positive factors: ${moodInsights.positiveMoodFactors.map((f: MoodFactor) => f.label.en).join(", ") || 'None'}\n- Negative factors: ${moodInsights.negativeMoodFactors.map((f: MoodFactor) => f.label.en).join(", ") || 'None'}`;
+        const checkIns: CheckInSummary = moodInsights.checkIns;
+        contextualInfo += formatCheckInsForPrompt(checkIns, args.language);
+      }
+
+      // Recall the past sessions most relevant to what the user just said
+      if (lastUserMessage) {
+        try {
+          const memories: RecalledMemory[] = await ctx.runAction(api.memory.searchMemories, {
+            userId: args.userInfo.userId,
+            text: lastUserMessage.content,
+            limit: MEMORY_RECALL_LIMIT,
+            excludeConversationId: args.conversationId,
+          });
+          contextualInfo += formatMemoriesForPrompt(memories, args.language);
+        } catch (error) {
+          // Memory is an enhancement; answer without it rather than fail
+          console.error("Memory recall error:", error);
+        }
       }
     }
 
-    try {
-      // Call OpenAI API
-      const response = await fetch("https://api.openai.com/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${openaiApiKey}`,
-        },
-        body: JSON.stringify({
-          // Model Options:
-          // "gpt-4-turbo-preview" - Most capable, slower, expensive
-          // "gpt-4" - Very capable, balanced
-          // "gpt-3.5-turbo" - Fast, cheaper, good quality
-          // "gpt-4o" - Optimized for speed and cost
-          model: "gpt-4o",
-          
-          messages: [
-            { role: "system", content: systemPrompt + contextualInfo },
-            ...conversationHistory,
-          ],
-          
-          // Temperature: 0.0-2.0 (0 = deterministic, 2 = very creative)
-          temperature: 0.8,
-          
-          // Max tokens: Response length limit (1-4000+ depending on model)
-          max_tokens: 300,
-          
-          // Optional: Add other parameters
-          // frequency_penalty: 0.0,    // Reduce repetition (-2.0 to 2.0)
-          // presence_penalty: 0.0,     // Encourage new topics (-2.0 to 2.0)
-          // top_p: 1.0,               // Alternative to temperature (0.0-1.0)
-          presence_penalty: 0.1,
-          frequency_penalty: 0.1,
-        }),
-      });
+    // Actions need a draft to be stored on, so they are only offered when streaming
+    const offerActions = args.draftMessageId !== undefined;
+    const exercises: ExerciseDefinition[] = offerActions
+      ? await ctx.runQuery(api.exerciseDefinitions.listExerciseDefinitions, { schemaVersion: EXERCISE_SCHEMA_VERSION })
+      : [];
+    const actionGuidance = !offerActions ? "" : inputLanguage === "ar"
+      ? "\n\nعندما يمكن أن يساعد تمرين قصير أو تسجيل المزاج أو فحص فكرة سلبية، اعرضه باستخدام الأدوات المتاحة بدلاً من شرحه بالكلمات، واستمر في الرد على المستخدم كالمعتاد. لا تعرض أكثر من إجراءين."
+      : "\n\nWhen a short exercise, a mood check-in or examining a negative thought would help, offer it with the available tools instead of describing it, and still reply to the user as usual. Offer at most two.";
 
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.statusText}`);
+    try {
+      const request: LLMCompletionRequest = {
+        purpose: "chat",
+        tier: "default",
+        messages: [
+          { role: "system", content: systemPrompt + actionGuidance + contextualInfo },
+          ...conversationHistory,
+        ],
+        // Temperature: 0.0-2.0 (0 = deterministic, 2 = very creative)
+        temperature: 0.8,
+        // Max tokens: Response length limit
+        maxTokens: 300,
+        presencePenalty: 0.1,
+        frequencyPenalty: 0.1,
+      };
+      const toolCalls: LLMToolCall[] = [];
+      let aiContent = args.draftMessageId
+        ? await streamIntoDraft(ctx, llm, request, args.draftMessageId, {
+            tools: chatActionTools(exercises),
+            onToolCall: (call) => { toolCalls.push(call); },
+          })
+        : await llm.complete(request);
+      const actions = toChatActions(toolCalls, exercises.map(exercise => exercise.exerciseId));
+
+      // A model may answer with a tool call alone; the cards still need an introduction
+      if (!aiContent.trim() && actions.length > 0) {
+        aiContent = inputLanguage === "ar"
+          ? "إليك شيئاً يمكننا تجربته معاً:"
+          : "Here's something we could try together:";
       }
 
-      const data = await response.json();
-      const aiContent = data.choices[0].message.content;
-
       // Analyze sentiment of AI response
       const sentiment = analyzeSentiment(aiContent);
 
       return {
         content: aiContent,
         sentiment,
+        ...(actions.length > 0 ? { actions } : {}),
       };
     } catch (error) {
       console.error("AI generation error:", error);
@@ -174,50 +262,44 @@ Remember: You are a supportive coach, not a licensed therapist.`;
   },
 });
 
-// Generate exercise suggestions based on user state
+// The top exercise recommendation for the user's current state (see recommendations.ts)
 export const suggestExercise = action({
   args: {
     userId: v.id("users"),
     currentMood: v.number(),
     recentEmotions: v.array(v.string()),
     language: v.string(),
+    utcOffsetMinutes: v.optional(v.number()),
   },
   returns: v.object({
     type: v.string(),
     reason: v.string(),
+    exerciseId: v.string(),
   }),
-  handler: async (ctx, args) => {
-    // Get user's exercise history
-    const exerciseStats = await ctx.runQuery(api.exercises.getMostEffectiveExercises, {
+  handler: async (ctx, args): Promise<{ type: string; reason: string; exerciseId: string }> => {
+    const [top]: ExerciseRecommendation[] = await ctx.runQuery(api.recommendations.getExerciseRecommendations, {
       userId: args.userId,
-      limit: 5,
+      language: args.language,
+      utcOffsetMinutes: args.utcOffsetMinutes,
+      currentMood: args.currentMood,
+      currentFactors: args.recentEmotions,
+      limit: 1,
     });
 
-    // Logic to suggest appropriate exercise
-    let suggestedType = "breathing"; // Default
-    
-    if (args.currentMood <= 3) {
-      // Low mood - suggest grounding or breathing
-      suggestedType = "grounding";
-    } else if (args.recentEmotions.includes("anxious") || args.recentEmotions.includes("قلق")) {
-      suggestedType = "breathing";
-    } else if (args.recentEmotions.includes("negative thoughts") || args.recentEmotions.includes("أفكار سلبية")) {
-      suggestedType = "thoughtChallenge";
-    } else if (args.currentMood >= 7) {
-      // Good mood - suggest gratitude to maintain it
-      suggestedType = "gratitude";
-    }
-
-    // If user has history, prioritize their most effective exercises
-    if (exerciseStats.length > 0 && exerciseStats[0].averageEffectiveness >= 4) {
-      suggestedType = exerciseStats[0].type;
+    // Nothing is published until the catalog is seeded, so offer a built-in breathing exercise
+    if (!top) {
+      const fallback = BUILT_IN_EXERCISE_DEFINITIONS.find(definition => definition.type === "breathing")!;
+      return {
+        type: fallback.type,
+        reason: defaultReason(args.language === "ar" ? "ar" : "en"),
+        exerciseId: fallback.exerciseId,
+      };
     }
 
     return {
-      type: suggestedType,
-      reason: args.language === "ar" 
-        ? "بناءً على حالتك الحالية، أعتقد أن هذا التمرين قد يساعدك"
-        : "Based on your current state, I think this exercise might help you",
+      type: top.type,
+      reason: top.reason,
+      exerciseId: top.exerciseId,
     };
   },
 });
@@ -245,6 +327,8 @@ export const generateFloatingResponse = action({
       })),
     })),
     language: v.string(),
+    // When set, the response is streamed into this draft message as it is generated
+    draftMessageId: v.optional(v.id("messages")),
   },
   returns: v.object({
     content: v.string(),
@@ -255,11 +339,8 @@ export const generateFloatingResponse = action({
     }),
   }),
   handler: async (ctx, args) => {
-    // Get OpenAI API key from environment
-    const openaiApiKey = process.env.OPENAI_API_KEY;
-    if (!openaiApiKey) {
-      throw new Error("OpenAI API key not configured");
-    }
+    // Resolve the configured LLM provider
+    const llm = getLLMProvider();
 
     // Detect language from user's recent message to ensure response matching
     const lastUserMessage = args.messages.filter(msg => msg.role === 'user').pop();
@@ -315,32 +396,22 @@ VERY IMPORTANT: You must respond in English ONLY. Keep it very brief like a text
     }
 
     try {
-      // Call OpenAI API with optimized settings for brief responses
-      const response = await fetch("https://api.openai.com/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${openaiApiKey}`,
-        },
-        body: JSON.stringify({
-          model: "gpt-4o-mini",
-          messages: [
-            { role: "system", content: systemPrompt + contextualInfo },
-            ...conversationHistory,
-          ],
-          temperature: 0.9, // Higher creativity for conversational feel
-          max_tokens: 50,   // Very short responses
-          presence_penalty: 0.2,
-          frequency_penalty: 0.2,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      const aiContent = data.choices[0].message.content.trim();
+      // Brief, conversational settings for floating mode
+      const request: LLMCompletionRequest = {
+        purpose: "floating-chat",
+        tier: "fast",
+        messages: [
+          { role: "system", content: systemPrompt + contextualInfo },
+          ...conversationHistory,
+        ],
+        temperature: 0.9, // Higher creativity for conversational feel
+        maxTokens: 50,    // Very short responses
+        presencePenalty: 0.2,
+        frequencyPenalty: 0.2,
+      };
+      const aiContent = (args.draftMessageId
+        ? await streamIntoDraft(ctx, llm, request, args.draftMessageId)
+        : await llm.complete(request)).trim();
 
       // Smart chunking for floating display
       const chunks = smartChunkResponse(aiContent, 50); // 50 char chunks for floating
@@ -429,11 +500,8 @@ export const generateUserSummary = action({
       userId: args.userId,
     });
 
-    // Get OpenAI API key
-    const openaiApiKey = process.env.OPENAI_API_KEY;
-    if (!openaiApiKey) {
-      throw new Error("OpenAI API key not configured");
-    }
+    // Resolve the configured LLM provider
+    const llm = getLLMProvider();
 
     const systemPrompt = args.language === "ar"
       ? `أنت محلل ذكي للصحة النفسية متخصص في تحليل الأنماط وتطوير الملفات الشخصية للمستخدمين. 
@@ -470,33 +538,21 @@ You must provide JSON containing:
 Focus on long-term patterns and gradual progress.`;
 
     try {
-      const response = await fetch("https://api.openai.com/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${openaiApiKey}`,
-        },
-        body: JSON.stringify({
-          model: "gpt-4o",
-          messages: [
-            { role: "system", content: systemPrompt },
-            { 
-              role: "user", 
-              content: `Current User Profile: ${JSON.stringify(existingUserSummary)}\n\nNew Conversation Summary: ${JSON.stringify(args.newConversationSummary)}`
-            },
-          ],
-          temperature: 0.7,
-          max_tokens: 1000,
-          response_format: { type: "json_object" },
-        }),
+      const completion = await llm.complete({
+        purpose: "user-summary",
+        tier: "default",
+        messages: [
+          { role: "system", content: systemPrompt },
+          {
+            role: "user",
+            content: `Current User Profile: ${JSON.stringify(existingUserSummary)}\n\nNew Conversation Summary: ${JSON.stringify(args.newConversationSummary)}`
+          },
+        ],
+        temperature: 0.7,
+        maxTokens: 1000,
+        jsonMode: true,
       });
-
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      const userProfile = JSON.parse(data.choices[0].message.content);
+      const userProfile = JSON.parse(completion);
 
       // Update conversation count
       const conversationCount = (existingUserSummary?.conversationCount || 0) + 1;
@@ -566,11 +622,8 @@ export const summarizeConversation = action({
       .map((msg: { role: string; content: string }) => `${msg.role}: ${msg.content}`)
       .join("\n");
 
-    // Get OpenAI API key
-    const openaiApiKey = process.env.OPENAI_API_KEY;
-    if (!openaiApiKey) {
-      throw new Error("OpenAI API key not configured");
-    }
+    // Resolve the configured LLM provider
+    const llm = getLLMProvider();
 
     const systemPrompt = args.language === "ar"
       ? `أنت محلل محادثات صحة نفسية متخصص. قم بتحليل المحادثة التالية وقدم:
@@ -591,30 +644,18 @@ export const summarizeConversation = action({
 Provide an empathetic and helpful analysis focusing on strengths and growth.`;
 
     try {
-      const response = await fetch("https://api.openai.com/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${openaiApiKey}`,
-        },
-        body: JSON.stringify({
-          model: "gpt-4o",
-          messages: [
-            { role: "system", content: systemPrompt },
-            { role: "user", content: conversationText },
-          ],
-          temperature: 0.7,
-          max_tokens: 800,
-          response_format: { type: "json_object" },
-        }),
+      const completion = await llm.complete({
+        purpose: "conversation-summary",
+        tier: "default",
+        messages: [
+          { role: "system", content: systemPrompt },
+          { role: "user", content: conversationText },
+        ],
+        temperature: 0.7,
+        maxTokens: 800,
+        jsonMode: true,
       });
-
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      const analysis = JSON.parse(data.choices[0].message.content);
+      const analysis = JSON.parse(completion);
 
       const conversationSummary = {
         summary: analysis.summary || "",
@@ -728,7 +769,7 @@ export const saveConversationSummary = mutation({
       crisisIndicators: v.array(v.string()),
     }),
   },
-  handler: async (ctx, args) => {
+  handler: async (ctx, args): Promise<Id<"conversationSummaries">> => {
     // Get conversation to get userId
     const conversation = await ctx.db.get(args.conversationId);
     if (!conversation) {
@@ -752,10 +793,12 @@ export const saveConversationSummary = mutation({
         sentimentAnalysis: args.sentimentAnalysis,
         generatedAt: Date.now(),
       });
+      // Re-embed so semantic memory reflects the updated summary
+      await ctx.scheduler.runAfter(0, api.memory.embedConversationSummary, { summaryId: existingSummary._id });
       return existingSummary._id;
     } else {
       // Create new summary
-      return await ctx.db.insert("conversationSummaries", {
+      const summaryId = await ctx.db.insert("conversationSummaries", {
         conversationId: args.conversationId,
         userId: conversation.userId,
         summary: args.summary,
@@ -766,6 +809,8 @@ export const saveConversationSummary = mutation({
         sentimentAnalysis: args.sentimentAnalysis,
         generatedAt: Date.now(),
       });
+      await ctx.scheduler.runAfter(0, api.memory.embedConversationSummary, { summaryId });
+      return summaryId;
     }
   },
 });
@@ -845,218 +890,29 @@ export const detectCrisis = action({
     }))),
   }),
   handler: async (ctx, args) => {
-    const openaiApiKey = process.env.OPENAI_API_KEY;
-    if (!openaiApiKey) {
-      throw new Error("OpenAI API key not configured");
-    }
+    // Resolve the configured LLM provider
+    const llm = getLLMProvider();
 
-    // Enhanced crisis detection keywords with severity scoring
-    const crisisKeywords = {
-      en: {
-        critical: [
-          // Direct self-harm and suicide threats
-          'kill myself', 'suicide', 'suicidal', 'end my life', 'want to die',
-          'better off dead', 'no reason to live', 'can\'t go on', 'end it all',
-          'harm myself', 'self harm', 'cutting myself', 'overdose', 'take my life',
-          'not worth living', 'ready to die', 'planning to die', 'goodbye forever',
-          'final message', 'last words', 'won\'t be here tomorrow', 'pills to end it',
-          // Self-harm methods
-          'razor blade', 'jump off', 'hang myself', 'rope around neck', 'gas in car',
-          'sleeping pills', 'bridge jump', 'train tracks', 'gun to head',
-          // Immediate danger phrases
-          'doing it tonight', 'can\'t wait anymore', 'this is it', 'final decision',
-          'made my choice', 'peace at last', 'time to go', 'had enough'
-        ],
-        high: [
-          // Severe hopelessness and despair
-          'hopeless', 'worthless', 'no point', 'give up', 'can\'t take it',
-          'unbearable', 'too much pain', 'nobody cares', 'all alone',
-          'meaningless life', 'waste of space', 'burden to everyone',
-          'failed at everything', 'nothing left', 'empty inside',
-          // Physical crisis symptoms
-          'panic attack', 'can\'t breathe', 'dying', 'heart attack', 'chest pain',
-          'hyperventilating', 'losing consciousness', 'going crazy',
-          'out of control', 'can\'t stop shaking', 'vision blurry',
-          // Severe emotional distress
-          'completely broken', 'destroyed inside', 'can\'t function',
-          'lost my mind', 'going insane', 'mental breakdown',
-          'psychotic episode', 'hearing voices', 'seeing things',
-          // Isolation and abandonment
-          'no one understands', 'completely alone', 'abandoned by all',
-          'no friends left', 'family hates me', 'everyone left me'
-        ],
-        medium: [
-          // Depression and anxiety indicators
-          'depressed', 'anxious', 'scared', 'overwhelmed', 'breaking down',
-          'falling apart', 'can\'t cope', 'losing control', 'desperate',
-          'struggling daily', 'hard to breathe', 'constant worry',
-          'sleepless nights', 'no energy', 'feel numb', 'emotionally drained',
-          // Stress and pressure
-          'under pressure', 'too much stress', 'can\'t handle', 'burning out',
-          'at breaking point', 'need help', 'don\'t know what to do',
-          'losing hope', 'giving up hope', 'things getting worse',
-          // Relationship and social issues
-          'relationship problems', 'family issues', 'work stress',
-          'financial problems', 'health concerns', 'feeling stuck',
-          'no direction', 'lost and confused', 'need support'
-        ]
-      },
-      ar: {
-        critical: [
-          // Direct self-harm and suicide threats
-          'انتحر', 'اقتل نفسي', 'انهي حياتي', 'اموت', 'الموت',
-          'لا أريد العيش', 'لا فائدة من الحياة', 'أؤذي نفسي',
-          'أقتل نفسي', 'أنهي حياتي', 'أريد الموت', 'الحياة لا تستحق',
-          'وداعاً للأبد', 'رسالة أخيرة', 'كلمات أخيرة', 'لن أكون هنا غداً',
-          'حبوب لإنهاء الأمر', 'قررت الانتحار', 'هذا هو الوقت',
-          // Self-harm methods in Arabic
-          'شفرة حلاقة', 'أقفز من', 'أشنق نفسي', 'حبل حول رقبتي',
-          'غاز في السيارة', 'حبوب منومة', 'قفز من الجسر', 'خطوط القطار',
-          'مسدس في رأسي', 'سكين في قلبي',
-          // Immediate danger phrases
-          'سأفعلها الليلة', 'لا أستطيع الانتظار', 'هذا هو الأمر',
-          'قرار نهائي', 'اتخذت قراري', 'السلام أخيراً', 'وقت الذهاب',
-          'لقد سئمت', 'انتهيت من كل شيء'
-        ],
-        high: [
-          // Severe hopelessness and despair
-          'يائس', 'لا أمل', 'لا قيمة', 'لا فائدة', 'لا أستطيع',
-          'لا أتحمل', 'ألم شديد', 'لا أحد يهتم', 'وحيد',
-          'حياة لا معنى لها', 'مضيعة مساحة', 'عبء على الجميع',
-          'فشلت في كل شيء', 'لا شيء متبقي', 'فارغ من الداخل',
-          // Physical crisis symptoms
-          'نوبة هلع', 'لا أستطيع التنفس', 'أموت', 'نوبة قلبية',
-          'ألم في الصدر', 'أتنفس بصعوبة', 'أفقد الوعي', 'أصبح مجنوناً',
-          'خارج السيطرة', 'لا أستطيع التوقف عن الاهتزاز', 'رؤية ضبابية',
-          // Severe emotional distress
-          'منكسر تماماً', 'مدمر من الداخل', 'لا أستطيع العمل',
-          'فقدت عقلي', 'أصبح مجنوناً', 'انهيار عصبي',
-          'نوبة ذهانية', 'أسمع أصواتاً', 'أرى أشياء',
-          // Isolation and abandonment
-          'لا أحد يفهم', 'وحيد تماماً', 'هجرني الجميع',
-          'لا أصدقاء متبقين', 'عائلتي تكرهني', 'الجميع تركني'
-        ],
-        medium: [
-          // Depression and anxiety indicators
-          'مكتئب', 'قلق', 'خائف', 'مرهق', 'انهار',
-          'أتفكك', 'لا أستطيع التأقلم', 'أفقد السيطرة', 'يائس',
-          'أكافح يومياً', 'صعب في التنفس', 'قلق مستمر',
-          'ليالي بلا نوم', 'لا طاقة', 'أشعر بالخدر', 'منهك عاطفياً',
-          // Stress and pressure
-          'تحت ضغط', 'ضغط كبير', 'لا أستطيع التعامل', 'أحترق',
-          'في نقطة الانهيار', 'أحتاج مساعدة', 'لا أعرف ماذا أفعل',
-          'أفقد الأمل', 'أستسلم للأمل', 'الأمور تزداد سوءاً',
-          // Relationship and social issues
-          'مشاكل في العلاقة', 'مشاكل عائلية', 'ضغط العمل',
-          'مشاكل مالية', 'مخاوف صحية', 'أشعر بالعجز',
-          'لا اتجاه', 'ضائع ومرتبك', 'أحتاج دعماً'
-        ]
-      }
-    };
-
-    // Enhanced keyword detection with severity scoring
-    const messageLower = args.message.toLowerCase();
-    const keywords = crisisKeywords[args.language as keyof typeof crisisKeywords] || crisisKeywords.en;
-    
-    // Severity scoring system
-    const severityScores = {
-      critical: 100,
-      high: 50,
-      medium: 10,
-      low: 1
-    };
-    
-    let totalScore = 0;
-    let immediateSeverity: "low" | "medium" | "high" | "critical" = "low";
-    const foundIndicators: string[] = [];
-    
-    // Check for critical keywords (any critical keyword triggers critical severity)
-    for (const keyword of keywords.critical) {
-      if (messageLower.includes(keyword)) {
-        immediateSeverity = "critical";
-        foundIndicators.push(keyword);
-        totalScore += severityScores.critical;
-      }
-    }
-    
-    // Check for high severity keywords
-    for (const keyword of keywords.high) {
-      if (messageLower.includes(keyword)) {
-        foundIndicators.push(keyword);
-        totalScore += severityScores.high;
-      }
-    }
-    
-    // Check for medium severity keywords
-    for (const keyword of keywords.medium) {
-      if (messageLower.includes(keyword)) {
-        foundIndicators.push(keyword);
-        totalScore += severityScores.medium;
-      }
-    }
-    
-    // Calculate final severity based on total score if not already critical
-    if (immediateSeverity !== "critical") {
-      if (totalScore >= 100) {
-        immediateSeverity = "critical";
-      } else if (totalScore >= 50) {
-        immediateSeverity = "high";
-      } else if (totalScore >= 10) {
-        immediateSeverity = "medium";
-      } else {
-        immediateSeverity = "low";
-      }
-    }
-    
-    // Language-specific contextual analysis for severity escalation
-    const contextualFactors = args.language === "ar" ? {
-      // Arabic time references
-      hasTimeReference: /\b(الليلة|اليوم|الآن|قريباً|غداً|هذا الأسبوع|هذه الليلة|الليلة|اليوم|فوراً|حالاً|الآن|سريعاً)\b/i.test(args.message),
-      // Arabic method references
-      hasMethodReference: /\b(حبوب|حبل|شفرة|أقفز|قفز|مسدس|سكين|جسر|قطار|غاز|أشنق|أقتل|أطعن|أرمي)\b/i.test(args.message),
-      // Arabic isolation indicators
-      hasIsolationIndicators: /\b(وحيد|لا أحد|لا يوجد أحد|معزول|مهجور|متروك|وحدي|بمفردي|لا أصدقاء|لا عائلة)\b/i.test(args.message),
-      // Arabic hopelessness indicators
-      hasHopelessnessIndicators: /\b(يائس|لا أمل|لا قيمة|لا معنى|لا فائدة|عديم الفائدة|بلا قيمة|بلا معنى|لا جدوى)\b/i.test(args.message),
-      // Arabic emotional intensity indicators
-      hasEmotionalIntensity: /\b(لا أستطيع|لا أقدر|لن أستطيع|لا أريد|لا أعود|أبداً|دائماً|كل شيء|لا شيء|كل|كله|جميع)\b/i.test(args.message),
-      // Arabic religious/cultural distress indicators
-      hasReligiousCulturalDistress: /\b(الله لا يريدني|لعنة|معاقب|مذنب|حرام|عار|خجل|فضيحة|عيب|حقير|مرفوض)\b/i.test(args.message),
-      // Arabic family/honor related distress
-      hasFamilyHonorDistress: /\b(عار العائلة|خجل الأهل|فضيحة الأسرة|سمعة العائلة|شرف العائلة|خذلت أهلي|أهانت عائلتي)\b/i.test(args.message)
-    } : {
-      // English contextual factors
-      hasTimeReference: /\b(tonight|today|now|soon|tomorrow|this week|right now|immediately|shortly|very soon)\b/i.test(args.message),
-      hasMethodReference: /\b(pills|rope|blade|jump|gun|knife|bridge|train|gas|hang|kill|stab|throw|overdose)\b/i.test(args.message),
-      hasIsolationIndicators: /\b(alone|nobody|no one|isolated|abandoned|lonely|by myself|no friends|no family)\b/i.test(args.message),
-      hasHopelessnessIndicators: /\b(hopeless|worthless|pointless|meaningless|useless|no hope|no point|no meaning|no purpose)\b/i.test(args.message),
-      hasEmotionalIntensity: /\b(can't|couldn't|won't|don't|never|always|everything|nothing|all|every|completely|totally)\b/i.test(args.message),
-      hasReligiousCulturalDistress: /\b(god hates me|cursed|punishment|sinful|shame|disgrace|dishonor|rejected|condemned)\b/i.test(args.message),
-      hasFamilyHonorDistress: /\b(family shame|disappointed family|dishonored family|failed parents|let down family|embarrassed family)\b/i.test(args.message)
-    };
-    
-    // Escalate severity based on contextual factors
-    const contextScore = Object.values(contextualFactors).filter(Boolean).length;
-    if (contextScore >= 3 && immediateSeverity !== "critical") {
-      if (immediateSeverity === "high") {
-        immediateSeverity = "critical";
-      } else if (immediateSeverity === "medium") {
-        immediateSeverity = "high";
-      } else if (immediateSeverity === "low") {
-        immediateSeverity = "medium";
+    // Earlier user messages in this conversation feed risk accumulation
+    let history: string[] = [];
+    if (args.conversationId) {
+      const recentMessages = await ctx.runQuery(api.messages.getRecentMessages, {
+        conversationId: args.conversationId,
+        count: CONVERSATION_WINDOW * 2,
+      });
+      history = recentMessages
+        .filter((msg: { role: string }) => msg.role === "user")
+        .map((msg: { content: string }) => msg.content);
+      // sendMessage stores the message before assessing it
+      if (history[history.length - 1] === args.message) {
+        history.pop();
       }
     }
-    
-    // Add cultural context indicators to found indicators
-    const culturalContext = [];
-    if (args.language === "ar") {
-      if (contextualFactors.hasReligiousCulturalDistress) culturalContext.push("Religious/Cultural Distress");
-      if (contextualFactors.hasFamilyHonorDistress) culturalContext.push("Family/Honor Related Distress");
-    } else {
-      if (contextualFactors.hasReligiousCulturalDistress) culturalContext.push("Religious/Cultural Distress");
-      if (contextualFactors.hasFamilyHonorDistress) culturalContext.push("Family/Honor Related Distress");
-    }
-    foundIndicators.push(...culturalContext);
+
+    // Rule-based classification (normalization, negation/tense, accumulation)
+    const classification = classifyConversation(args.message, history);
+    const immediateSeverity = classification.severity;
+    const foundIndicators = classification.indicators;
 
     // Use AI for more nuanced analysis
     const systemPrompt = args.language === "ar"
@@ -1088,32 +944,20 @@ Assessment criteria:
 - low: General distress without immediate risk`;
 
     try {
-      const response = await fetch("https://api.openai.com/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${openaiApiKey}`,
-        },
-        body: JSON.stringify({
-          model: "gpt-4o-mini",
-          messages: [
-            { role: "system", content: systemPrompt },
-            { role: "user", content: args.message },
-          ],
-          temperature: 0.3, // Lower temperature for more consistent crisis detection
-          max_tokens: 500,
-          response_format: { type: "json_object" },
-        }),
+      const completion = await llm.complete({
+        purpose: "crisis-assessment",
+        tier: "fast",
+        messages: [
+          { role: "system", content: systemPrompt },
+          { role: "user", content: args.message },
+        ],
+        temperature: 0.3, // Lower temperature for more consistent crisis detection
+        maxTokens: 500,
+        jsonMode: true,
       });
+      const analysis = JSON.parse(completion);
 
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      const analysis = JSON.parse(data.choices[0].message.content);
-
-      // Combine keyword detection with AI analysis
+      // Combine rule-based classification with AI analysis
       const finalSeverity = immediateSeverity === "critical" ? "critical" : 
                            (analysis.severity === "critical" ? "critical" : 
                             immediateSeverity === "high" || analysis.severity === "high" ? "high" :
@@ -1124,13 +968,17 @@ Assessment criteria:
       // Get emergency resources based on severity
       let resources: any[] = [];
       if (finalSeverity === "critical" || finalSeverity === "high") {
-        // Fetch emergency resources from the database
-        const emergencyResources = await ctx.runQuery(api.resources.getEmergencyResources, {
+        // Hotlines for the user's country, or international lines when unknown
+        const user = args.userId
+          ? await ctx.runQuery(api.users.getUserById, { userId: args.userId })
+          : null;
+        const directory = await ctx.runQuery(api.hotlines.getRankedHotlines, {
+          country: user?.country,
           language: args.language,
           limit: 5,
         });
         
-        resources = emergencyResources.map(r => ({
+        resources = directory.hotlines.map((r: Doc<"resources">) => ({
           type: r.type,
           title: r.title,
           description: r.description,
@@ -1154,7 +1002,9 @@ Assessment criteria:
     } catch (error) {
       console.error("Crisis detection error:", error);
       
-      // In case of error, use keyword-based detection only
+      // In case of error, use the rule-based classification only. The hotline
+      // lookup may be what failed, so high-risk messages get the bundled
+      // international lines rather than nothing.
       return {
         isCrisis: immediateSeverity !== "low",
         severity: immediateSeverity,
@@ -1162,7 +1012,9 @@ Assessment criteria:
         suggestedActions: args.language === "ar" 
           ? getSuggestedActionsAr(immediateSeverity)
           : getSuggestedActionsEn(immediateSeverity),
-        resources: [],
+        resources: immediateSeverity === "critical" || immediateSeverity === "high"
+          ? internationalHotlines(args.language)
+          : [],
       };
     }
   },
@@ -0,0 +1,196 @@
+// @vitest-environment edge-runtime
+/// <reference types="vite/client" />
+/**
+ * Tests for mood analytics
+ * Tests the effect estimates, the sample-size and significance gates, the
+ * false discovery control and the getMoodAnalytics query
+ */
+
+import { convexTest } from 'convex-test';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { api } from './_generated/api';
+import {
+  compareGroups,
+  controlFalseDiscoveries,
+  Effect,
+  isSignificant,
+  MIN_GROUP_SAMPLE,
+  MoodAnalyticsInsight,
+  pairedLift,
+  tCritical95,
+  timeOfDay,
+  tTestPValue,
+} from './analytics';
+import schema from './schema';
+
+const modules = import.meta.glob('./**/*.ts');
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Seeded random numbers in [0, 1) (mulberry32), so the noise is the same every run
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+describe('Mood Analytics', () => {
+  describe('compareGroups', () => {
+    it('should estimate the difference with a Welch confidence interval', () => {
+      const effect = compareGroups([7, 8, 8, 9, 8], [4, 5, 5, 6, 5])!;
+
+      expect(effect.difference).toBeCloseTo(3);
+      // Both groups have variance 0.5: se = sqrt(0.1 + 0.1), df = 8
+      const margin = tCritical95(8) * Math.sqrt(0.2);
+      expect(effect.confidenceInterval[0]).toBeCloseTo(3 - margin);
+      expect(effect.confidenceInterval[1]).toBeCloseTo(3 + margin);
+      expect(effect.effectSize).toBeCloseTo(3 / Math.sqrt(0.5));
+      expect(effect.sampleSize).toBe(5);
+      expect(effect.comparisonSize).toBe(5);
+      expect(effect.pValue).toBeCloseTo(tTestPValue(3 / Math.sqrt(0.2), 8));
+      expect(isSignificant(effect)).toBe(true);
+    });
+
+    it('should not estimate effects from small or constant groups', () => {
+      expect(compareGroups([9, 9, 8, 9], [3, 4, 5, 4, 3, 4])).toBeNull();
+      expect(compareGroups([5, 5, 5, 5, 5], [5, 5, 5, 5, 5])).toBeNull();
+    });
+
+    it('should not call a noisy difference significant', () => {
+      const effect = compareGroups([2, 9, 4, 8, 6], [3, 7, 5, 9, 4])!;
+
+      expect(effect).not.toBeNull();
+      expect(isSignificant(effect)).toBe(false);
+    });
+  });
+
+  describe('pairedLift', () => {
+    it('should measure mood after minus mood before', () => {
+      const effect = pairedLift([3, 4, 5, 3, 4], [5, 6, 6, 5, 7])!;
+
+      expect(effect.difference).toBeCloseTo(2);
+      expect(effect.comparisonSize).toBeUndefined();
+      expect(isSignificant(effect)).toBe(true);
+    });
+
+    it('should need enough pairs', () => {
+      expect(pairedLift([3, 4], [5, 6])).toBeNull();
+    });
+  });
+
+  describe('helpers', () => {
+    it('should use t critical values that shrink towards 1.96', () => {
+      expect(tCritical95(1)).toBeCloseTo(12.706);
+      expect(tCritical95(10)).toBeCloseTo(2.228);
+      expect(tCritical95(1000)).toBe(1.96);
+    });
+
+    it('should give p-values that match the t critical values', () => {
+      expect(tTestPValue(tCritical95(1), 1)).toBeCloseTo(0.05, 3);
+      expect(tTestPValue(tCritical95(10), 10)).toBeCloseTo(0.05, 3);
+      expect(tTestPValue(-tCritical95(29), 29)).toBeCloseTo(0.05, 3);
+      expect(tTestPValue(0, 5)).toBe(1);
+    });
+
+    it('should keep the effects that survive Benjamini-Hochberg', () => {
+      const withP = (pValue: number) => ({ pValue }) as Effect;
+      const effects = [0.045, 0.001, 0.03, 0.02, 0.6].map(withP);
+
+      // 0.045 > 4/5 * 0.05, but 0.03 <= 3/5 * 0.05 keeps it and everything smaller
+      expect(controlFalseDiscoveries(effects).map(effect => effect.pValue)).toEqual([0.001, 0.03, 0.02]);
+      expect(controlFalseDiscoveries([0.02, 0.03, 0.04, 0.3].map(withP))).toEqual([]);
+      expect(controlFalseDiscoveries([])).toEqual([]);
+    });
+
+    it('should bucket hours into times of day', () => {
+      expect([6, 13, 19, 23, 2].map(timeOfDay)).toEqual(['morning', 'afternoon', 'evening', 'night', 'night']);
+    });
+  });
+
+  describe('getMoodAnalytics', () => {
+    let t: ReturnType<typeof convexTest>;
+
+    beforeEach(() => {
+      t = convexTest(schema, modules);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should surface only factors that pass the thresholds', async () => {
+      const userId = await t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_1' }));
+      const now = Date.now();
+      await t.run(async ctx => {
+        const ratings = [
+          // Exercise days are clearly better
+          ...[8, 9, 8, 7, 9, 8].map(rating => ({ rating, factors: ['exercise'] })),
+          ...[4, 5, 3, 4, 5, 4].map(rating => ({ rating, factors: ['work'] })),
+          // Too few weather entries to say anything
+          ...[10, 10].map(rating => ({ rating, factors: ['weather'] })),
+        ];
+        for (const [i, mood] of ratings.entries()) {
+          await ctx.db.insert('moods', { userId, timestamp: now - i * DAY, ...mood });
+        }
+        for (let i = 0; i < MIN_GROUP_SAMPLE; i++) {
+          await ctx.db.insert('exercises', {
+            userId,
+            type: 'breathing',
+            completedAt: now - i * DAY,
+            data: { outputs: { moodBefore: 4 + (i % 2), moodAfter: 6 + (i % 3) } },
+          });
+        }
+      });
+
+      const result = await t.query(api.analytics.getMoodAnalytics, { userId });
+
+      const byKey = Object.fromEntries(result.insights.map((insight: MoodAnalyticsInsight) => [insight.key, insight]));
+      expect(byKey.exercise).toMatchObject({
+        kind: 'factor',
+        direction: 'positive',
+        label: { en: 'Exercise' },
+        emoji: '🏃',
+        sampleSize: 6,
+      });
+      expect(byKey.work).toMatchObject({ kind: 'factor', direction: 'negative' });
+      expect(byKey.weather).toBeUndefined();
+      expect(byKey.breathing).toMatchObject({ kind: 'exercise', direction: 'positive', sampleSize: 5 });
+      expect(result.sampleSize).toEqual({ moods: 14, exercises: 5 });
+    });
+
+    it('should find nothing in pure noise', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const now = Date.UTC(2026, 2, 10, 12);
+      vi.setSystemTime(now);
+      const next = seededRandom(11);
+      const userId = await t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_1', timezone: 'UTC' }));
+      const factors = ['work', 'sleep', 'exercise', 'family', 'friends', 'weather', 'health', 'food'];
+      // Ratings, factors and times drawn independently; without the correction
+      // Friday, Saturday and family would each pass on their own
+      await t.run(async ctx => {
+        for (let i = 0; i < 90; i++) {
+          await ctx.db.insert('moods', {
+            userId,
+            timestamp: now - i * DAY - Math.floor(next() * 24) * 60 * 60 * 1000,
+            rating: 1 + Math.floor(next() * 10),
+            factors: factors.filter(() => next() < 0.3),
+          });
+        }
+      });
+
+      const result = await t.query(api.analytics.getMoodAnalytics, { userId, days: 120 });
+
+      expect(result.sampleSize.moods).toBe(90);
+      expect(result.insights).toEqual([]);
+    });
+
+    it('should return nothing for a new user', async () => {
+      const userId = await t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_1' }));
+
+      const result = await t.query(api.analytics.getMoodAnalytics, { userId });
+
+      expect(result.insights).toEqual([]);
+    });
+  });
+});
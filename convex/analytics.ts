@@ -0,0 +1,303 @@
+import { v } from "convex/values";
+import { query } from "./_generated/server";
+import { FactorCategory, listMoodFactors, resolveFactors } from "./moodFactors";
+import { isValidTimezone, localTime } from "./timezones";
+
+// Mood analytics: which factors, days, times of day and exercises actually
+// move a user's mood.
+//
+// Each candidate is an effect on the 1-10 mood rating with a 95% confidence
+// interval: the difference in mean mood with vs. without a factor (or on one
+// weekday / time of day vs. the rest), via Welch's t-interval, and for
+// exercises the paired "mood after minus mood before" lift. Only effects with
+// enough samples on both sides, a confidence interval that excludes zero and
+// at least a small standardized effect are surfaced, so a couple of good days
+// never turn into an "insight".
+//
+// A user with a dozen factors gets twenty-odd tests at once, so by chance alone
+// one would usually pass. Candidates therefore also have to survive the
+// Benjamini-Hochberg procedure across all of them, which keeps the expected
+// share of false insights at FALSE_DISCOVERY_RATE.
+
+// Entries needed in each group before an effect is estimated
+export const MIN_GROUP_SAMPLE = 5;
+// Standardized effect (Cohen's d / d_z) below which an effect is too small to mention
+export const MIN_EFFECT_SIZE = 0.2;
+
+// Expected share of surfaced insights that are chance findings
+export const FALSE_DISCOVERY_RATE = 0.05;
+
+const DEFAULT_DAYS = 90;
+const MAX_INSIGHTS = 8;
+
+export const DAYS_OF_WEEK = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"] as const;
+
+export const TIMES_OF_DAY = ["morning", "afternoon", "evening", "night"] as const;
+
+// Two-sided 95% critical values of Student's t for 1-30 degrees of freedom
+const T_CRITICAL_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.160, 2.145, 2.131, 2.120, 2.110, 2.101, 2.093, 2.086,
+  2.080, 2.074, 2.069, 2.064, 2.060, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+export function tCritical95(df: number): number {
+  if (df < 1) return Infinity;
+  if (df <= 30) return T_CRITICAL_95[Math.floor(df) - 1];
+  if (df <= 40) return 2.021;
+  if (df <= 60) return 2.0;
+  if (df <= 120) return 1.98;
+  return 1.96;
+}
+
+export interface Effect {
+  // Mean difference on the mood scale (or mean lift for exercises)
+  difference: number;
+  confidenceInterval: [number, number];
+  effectSize: number;
+  // Two-sided p-value of the t-test behind the interval
+  pValue: number;
+  sampleSize: number;
+  // Size of the comparison group; absent for paired (exercise) effects
+  comparisonSize?: number;
+}
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+const sampleVariance = (values: number[]) => {
+  const m = mean(values);
+  return values.reduce((sum, value) => sum + (value - m) ** 2, 0) / (values.length - 1);
+};
+
+// ln Γ(x) for x > 0 (Lanczos approximation)
+const LANCZOS = [76.18009172947146, -86.50532032941677, 24.01409824083091, -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5];
+function logGamma(x: number): number {
+  let series = 1.000000000190015;
+  LANCZOS.forEach((coefficient, i) => { series += coefficient / (x + i + 1); });
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  return -tmp + Math.log(2.5066282746310005 * series / x);
+}
+
+// Continued fraction for the incomplete beta function (modified Lentz)
+function betaContinuedFraction(a: number, b: number, x: number): number {
+  const TINY = 1e-30;
+  const clamp = (value: number) => (Math.abs(value) < TINY ? TINY : value);
+  let c = 1;
+  let d = 1 / clamp(1 - (a + b) * x / (a + 1));
+  let result = d;
+  for (let m = 1; m <= 200; m++) {
+    let change = 1;
+    for (const numerator of [
+      m * (b - m) * x / ((a + 2 * m - 1) * (a + 2 * m)),
+      -(a + m) * (a + b + m) * x / ((a + 2 * m) * (a + 2 * m + 1)),
+    ]) {
+      d = 1 / clamp(1 + numerator * d);
+      c = clamp(1 + numerator / c);
+      change = d * c;
+      result *= change;
+    }
+    if (Math.abs(change - 1) < 1e-12) break;
+  }
+  return result;
+}
+
+// Regularized incomplete beta function I_x(a, b)
+function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? front * betaContinuedFraction(a, b, x) / a
+    : 1 - front * betaContinuedFraction(b, a, 1 - x) / b;
+}
+
+// Two-sided p-value of Student's t statistic with df degrees of freedom
+export function tTestPValue(t: number, df: number): number {
+  if (!Number.isFinite(t)) return 0;
+  return incompleteBeta(df / (df + t * t), df / 2, 0.5);
+}
+
+// Difference in mean between two independent groups (Welch), or null when a
+// group is too small or neither varies
+export function compareGroups(group: number[], rest: number[]): Effect | null {
+  if (group.length < MIN_GROUP_SAMPLE || rest.length < MIN_GROUP_SAMPLE) return null;
+
+  const varianceA = sampleVariance(group);
+  const varianceB = sampleVariance(rest);
+  const errorA = varianceA / group.length;
+  const errorB = varianceB / rest.length;
+  const standardError = Math.sqrt(errorA + errorB);
+  const pooledSd = Math.sqrt(
+    ((group.length - 1) * varianceA + (rest.length - 1) * varianceB) / (group.length + rest.length - 2)
+  );
+  if (standardError === 0 || pooledSd === 0) return null;
+
+  const df = (errorA + errorB) ** 2 /
+    ((errorA ** 2) / (group.length - 1) + (errorB ** 2) / (rest.length - 1));
+  const difference = mean(group) - mean(rest);
+  const margin = tCritical95(df) * standardError;
+
+  return {
+    difference,
+    confidenceInterval: [difference - margin, difference + margin],
+    effectSize: difference / pooledSd,
+    pValue: tTestPValue(difference / standardError, df),
+    sampleSize: group.length,
+    comparisonSize: rest.length,
+  };
+}
+
+// Mean within-pair change (after - before), or null when there are too few
+// pairs or the change is always the same
+export function pairedLift(before: number[], after: number[]): Effect | null {
+  const changes = before.map((value, i) => after[i] - value);
+  if (changes.length < MIN_GROUP_SAMPLE) return null;
+
+  const sd = Math.sqrt(sampleVariance(changes));
+  if (sd === 0) return null;
+
+  const difference = mean(changes);
+  const standardError = sd / Math.sqrt(changes.length);
+  const margin = tCritical95(changes.length - 1) * standardError;
+
+  return {
+    difference,
+    confidenceInterval: [difference - margin, difference + margin],
+    effectSize: difference / sd,
+    pValue: tTestPValue(difference / standardError, changes.length - 1),
+    sampleSize: changes.length,
+  };
+}
+
+// Whether an effect is worth showing: the interval excludes zero and the
+// standardized effect is at least small
+export function isSignificant(effect: Effect): boolean {
+  const [low, high] = effect.confidenceInterval;
+  return (low > 0 || high < 0) && Math.abs(effect.effectSize) >= MIN_EFFECT_SIZE;
+}
+
+// The effects that survive the Benjamini-Hochberg procedure across all m of
+// them: the k smallest p-values, for the largest k whose k-th smallest is at
+// most k/m of the rate
+export function controlFalseDiscoveries<T extends Effect>(effects: T[], rate: number = FALSE_DISCOVERY_RATE): T[] {
+  const pValues = effects.map(effect => effect.pValue).sort((a, b) => a - b);
+  let threshold = -Infinity;
+  pValues.forEach((pValue, i) => {
+    if (pValue <= ((i + 1) / pValues.length) * rate) threshold = pValue;
+  });
+  return effects.filter(effect => effect.pValue <= threshold);
+}
+
+export function timeOfDay(hour: number): (typeof TIMES_OF_DAY)[number] {
+  if (hour >= 5 && hour < 12) return "morning";
+  if (hour >= 12 && hour < 17) return "afternoon";
+  if (hour >= 17 && hour < 22) return "evening";
+  return "night";
+}
+
+// Local weekday and hour: the user's saved timezone when there is one,
+// otherwise the offset the client sent
+export function userLocalTime(timestamp: number, timezone: string | undefined, utcOffsetMinutes: number | undefined) {
+  if (timezone && isValidTimezone(timezone)) return localTime(timestamp, timezone);
+  const date = new Date(timestamp + (utcOffsetMinutes ?? 0) * 60 * 1000);
+  return { hour: date.getUTCHours(), weekday: date.getUTCDay() };
+}
+
+export interface MoodAnalyticsInsight extends Effect {
+  kind: "factor" | "dayOfWeek" | "timeOfDay" | "exercise";
+  // Factor key, day of week, time of day or exercise type
+  key: string;
+  direction: "positive" | "negative";
+  // Factor metadata, for factor insights
+  label?: { en: string; ar: string };
+  emoji?: string;
+  category?: FactorCategory;
+}
+
+// Significant effects on the user's mood, strongest first
+export const getMoodAnalytics = query({
+  args: {
+    userId: v.id("users"),
+    days: v.optional(v.number()),
+    // The client's offset from UTC (minutes east), for users without a timezone
+    utcOffsetMinutes: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<{
+    insights: MoodAnalyticsInsight[];
+    sampleSize: { moods: number; exercises: number };
+  }> => {
+    const cutoffTime = Date.now() - (args.days ?? DEFAULT_DAYS) * 24 * 60 * 60 * 1000;
+
+    const moods = await ctx.db
+      .query("moods")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .filter((q) => q.gte(q.field("timestamp"), cutoffTime))
+      .collect();
+    const exercises = await ctx.db
+      .query("exercises")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .filter((q) => q.gte(q.field("completedAt"), cutoffTime))
+      .collect();
+
+    const candidates: Omit<MoodAnalyticsInsight, "direction">[] = [];
+
+    // Mood with vs. without each factor
+    const factorKeys = [...new Set(moods.flatMap(mood => mood.factors ?? []))];
+    const factors = resolveFactors(factorKeys, await listMoodFactors(ctx, args.userId));
+    factorKeys.forEach((key, i) => {
+      const effect = compareGroups(
+        moods.filter(mood => mood.factors?.includes(key)).map(mood => mood.rating),
+        moods.filter(mood => !mood.factors?.includes(key)).map(mood => mood.rating)
+      );
+      if (effect) {
+        const { label, emoji, category } = factors[i];
+        candidates.push({ kind: "factor", key, label, emoji, category, ...effect });
+      }
+    });
+
+    // One weekday, or one time of day, vs. all the others
+    const user = await ctx.db.get(args.userId);
+    const local = moods.map(mood => ({ rating: mood.rating, ...userLocalTime(mood.timestamp, user?.timezone, args.utcOffsetMinutes) }));
+    DAYS_OF_WEEK.forEach((day, index) => {
+      const effect = compareGroups(
+        local.filter(mood => mood.weekday === index).map(mood => mood.rating),
+        local.filter(mood => mood.weekday !== index).map(mood => mood.rating)
+      );
+      if (effect) candidates.push({ kind: "dayOfWeek", key: day, ...effect });
+    });
+    TIMES_OF_DAY.forEach(time => {
+      const effect = compareGroups(
+        local.filter(mood => timeOfDay(mood.hour) === time).map(mood => mood.rating),
+        local.filter(mood => timeOfDay(mood.hour) !== time).map(mood => mood.rating)
+      );
+      if (effect) candidates.push({ kind: "timeOfDay", key: time, ...effect });
+    });
+
+    // Mood after minus mood before, per exercise type
+    const rated = exercises.filter(exercise =>
+      exercise.data.outputs?.moodBefore !== undefined && exercise.data.outputs?.moodAfter !== undefined
+    );
+    for (const type of new Set(rated.map(exercise => exercise.type))) {
+      const ofType = rated.filter(exercise => exercise.type === type);
+      const effect = pairedLift(
+        ofType.map(exercise => exercise.data.outputs!.moodBefore!),
+        ofType.map(exercise => exercise.data.outputs!.moodAfter!)
+      );
+      if (effect) candidates.push({ kind: "exercise", key: type, ...effect });
+    }
+
+    const insights = controlFalseDiscoveries(candidates)
+      .filter(isSignificant)
+      .sort((a, b) => Math.abs(b.effectSize) - Math.abs(a.effectSize))
+      .slice(0, MAX_INSIGHTS)
+      .map(effect => ({
+        ...effect,
+        direction: effect.difference > 0 ? "positive" as const : "negative" as const,
+      }));
+
+    return {
+      insights,
+      sampleSize: { moods: moods.length, exercises: rated.length },
+    };
+  },
+});
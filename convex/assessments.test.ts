@@ -0,0 +1,162 @@
+// @vitest-environment edge-runtime
+/// <reference types="vite/client" />
+/**
+ * Tests for PHQ-9 and GAD-7 self-assessments
+ * Tests scoring and severity bands, stored history, retake prompts and routing item 9 to the crisis flow
+ */
+
+import { convexTest } from 'convex-test';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { api } from './_generated/api';
+import { AssessmentSummary } from './assessments';
+import { GAD7, PHQ9, QUESTIONNAIRES, scoreQuestionnaire } from './questionnaires';
+import schema from './schema';
+
+const modules = import.meta.glob('./**/*.ts');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Assessments', () => {
+  describe('scoreQuestionnaire', () => {
+    it('should place PHQ-9 totals in the standard severity bands', () => {
+      expect(scoreQuestionnaire(PHQ9, [0, 0, 0, 0, 0, 0, 0, 0, 0])).toMatchObject({ totalScore: 0, severity: 'minimal' });
+      expect(scoreQuestionnaire(PHQ9, [1, 1, 1, 1, 1, 0, 0, 0, 0])).toMatchObject({ totalScore: 5, severity: 'mild' });
+      expect(scoreQuestionnaire(PHQ9, [2, 2, 2, 2, 2, 2, 2, 1, 0])).toMatchObject({ totalScore: 15, severity: 'moderately-severe' });
+      expect(scoreQuestionnaire(PHQ9, [3, 3, 3, 3, 3, 3, 3, 3, 0])).toMatchObject({ totalScore: 24, severity: 'severe' });
+    });
+
+    it('should place GAD-7 totals in the standard severity bands', () => {
+      expect(scoreQuestionnaire(GAD7, [1, 1, 1, 1, 0, 0, 0])).toMatchObject({ totalScore: 4, severity: 'minimal' });
+      expect(scoreQuestionnaire(GAD7, [2, 2, 2, 2, 2, 0, 0])).toMatchObject({ totalScore: 10, severity: 'moderate' });
+      expect(scoreQuestionnaire(GAD7, [3, 3, 3, 3, 3, 0, 0])).toMatchObject({ totalScore: 15, severity: 'severe' });
+    });
+
+    it('should flag any positive answer to PHQ-9 item 9', () => {
+      expect(scoreQuestionnaire(PHQ9, [0, 0, 0, 0, 0, 0, 0, 0, 1]).riskItems).toEqual(['self-harm']);
+      expect(scoreQuestionnaire(PHQ9, [3, 3, 3, 3, 3, 3, 3, 3, 0]).riskItems).toEqual([]);
+    });
+
+    it('should reject incomplete or out-of-range answers', () => {
+      expect(() => scoreQuestionnaire(GAD7, [0, 0, 0])).toThrow('GAD-7 needs 7 answers, got 3');
+      expect(() => scoreQuestionnaire(GAD7, [0, 0, 0, 4, 0, 0, 0])).toThrow('Answer to GAD-7 item 4 must be one of 0, 1, 2, 3');
+    });
+
+    it('should have every item, option and band in English and Arabic', () => {
+      for (const definition of Object.values(QUESTIONNAIRES)) {
+        const texts = [
+          definition.title,
+          definition.instructions,
+          ...definition.items.map(item => item.text),
+          ...definition.options.map(option => option.label),
+          ...definition.bands.map(band => band.label),
+        ];
+        for (const text of texts) {
+          expect(text.en).toBeTruthy();
+          expect(text.ar).toBeTruthy();
+        }
+      }
+    });
+  });
+
+  describe('submitting', () => {
+    let t: ReturnType<typeof convexTest>;
+
+    beforeEach(() => {
+      t = convexTest(schema, modules);
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(Date.UTC(2025, 2, 1));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should store the answers, score and severity', async () => {
+      const userId = await t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_1' }));
+
+      const result = await t.mutation(api.assessments.submitAssessment, {
+        userId,
+        questionnaireId: 'gad7',
+        answers: [2, 2, 2, 2, 2, 0, 0],
+      });
+
+      expect(result).toMatchObject({ totalScore: 10, maxScore: 21, severity: 'moderate', routeToCrisis: false });
+      expect(result.severityLabel).toEqual({ en: 'Moderate', ar: 'متوسط' });
+      const history = await t.query(api.assessments.getAssessmentHistory, { userId, questionnaireId: 'gad7' });
+      expect(history).toHaveLength(1);
+      expect(history[0]).toMatchObject({ answers: [2, 2, 2, 2, 2, 0, 0], totalScore: 10, riskItems: [] });
+    });
+
+    it('should route a positive item 9 to the crisis flow', async () => {
+      // The critical event schedules its escalation
+      vi.useRealTimers();
+      vi.useFakeTimers();
+      vi.setSystemTime(Date.UTC(2025, 2, 1));
+      const userId = await t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_1' }));
+
+      const mild = await t.mutation(api.assessments.submitAssessment, {
+        userId,
+        questionnaireId: 'phq9',
+        answers: [0, 0, 0, 0, 0, 0, 0, 0, 1],
+      });
+      const frequent = await t.mutation(api.assessments.submitAssessment, {
+        userId,
+        questionnaireId: 'phq9',
+        answers: [0, 0, 0, 0, 0, 0, 0, 0, 3],
+      });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+      expect(mild.routeToCrisis).toBe(true);
+      expect(frequent.routeToCrisis).toBe(true);
+      const events = await t.run(ctx => ctx.db.query('crisisEvents').collect());
+      expect(events.map(event => event.severity)).toEqual(['high', 'critical']);
+      expect(events[0]).toMatchObject({ indicators: ['phq9:self-harm'], status: 'detected' });
+      // No emergency contact has consented, so escalation is suppressed
+      expect(events[1].status).toBe('suppressed');
+    });
+
+    it('should not create a crisis event without a positive risk item', async () => {
+      const userId = await t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_1' }));
+
+      await t.mutation(api.assessments.submitAssessment, {
+        userId,
+        questionnaireId: 'phq9',
+        answers: [3, 3, 3, 3, 3, 3, 3, 3, 0],
+      });
+
+      const events = await t.run(ctx => ctx.db.query('crisisEvents').collect());
+      expect(events).toHaveLength(0);
+    });
+
+    it('should prompt a retake once the repeat interval has passed', async () => {
+      const userId = await t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_1' }));
+
+      let overview = await t.query(api.assessments.getAssessmentOverview, { userId });
+      expect(overview.map((summary: AssessmentSummary) => [summary.id, summary.isDue, summary.latest])).toEqual([
+        ['phq9', true, null],
+        ['gad7', true, null],
+      ]);
+
+      await t.mutation(api.assessments.submitAssessment, { userId, questionnaireId: 'phq9', answers: [2, 2, 2, 2, 2, 0, 0, 0, 0] });
+      vi.setSystemTime(Date.UTC(2025, 2, 1) + 13 * DAY_MS);
+      overview = await t.query(api.assessments.getAssessmentOverview, { userId });
+      expect(overview[0]).toMatchObject({ isDue: false, latest: { totalScore: 10, severity: 'moderate' } });
+
+      vi.setSystemTime(Date.UTC(2025, 2, 1) + 14 * DAY_MS);
+      overview = await t.query(api.assessments.getAssessmentOverview, { userId });
+      expect(overview[0].isDue).toBe(true);
+    });
+
+    it('should return the score trend oldest first', async () => {
+      const userId = await t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_1' }));
+
+      for (const [day, answers] of [[0, [3, 3, 3, 3, 3, 0, 0]], [14, [2, 2, 2, 2, 0, 0, 0]], [28, [1, 1, 0, 0, 0, 0, 0]]] as const) {
+        vi.setSystemTime(Date.UTC(2025, 2, 1) + day * DAY_MS);
+        await t.mutation(api.assessments.submitAssessment, { userId, questionnaireId: 'gad7', answers: [...answers] });
+      }
+
+      const overview = await t.query(api.assessments.getAssessmentOverview, { userId });
+      expect(overview[1].trend.map((point: AssessmentSummary['trend'][number]) => point.totalScore)).toEqual([15, 8, 2]);
+    });
+  });
+});
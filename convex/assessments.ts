@@ -0,0 +1,178 @@
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { mutation, query } from "./_generated/server";
+import { insertCrisisEvent } from "./crisis";
+import {
+  LocalizedText,
+  maxScore,
+  QUESTIONNAIRE_IDS,
+  QUESTIONNAIRES,
+  QuestionnaireDefinition,
+  scoreQuestionnaire,
+  Severity,
+} from "./questionnaires";
+
+// Clinical self-assessments.
+//
+// The client renders questionnaires from the definitions served here, so the
+// wording and scoring only live in convex/questionnaires.ts. Every completed
+// assessment is stored with its answers, total and severity band. A positive
+// risk item (PHQ-9 item 9) is recorded as a crisis event and the client is told
+// to open the crisis flow straight away.
+
+// Assessments shown on the Profile trend chart
+export const TREND_LENGTH = 12;
+
+const questionnaireIdValidator = v.union(v.literal("phq9"), v.literal("gad7"));
+
+export interface AssessmentResult {
+  assessmentId: Id<"assessments">;
+  totalScore: number;
+  maxScore: number;
+  severity: Severity;
+  severityLabel: LocalizedText;
+  routeToCrisis: boolean;
+}
+
+export interface AssessmentSummary {
+  id: QuestionnaireDefinition["id"];
+  name: string;
+  title: LocalizedText;
+  maxScore: number;
+  isDue: boolean;
+  latest: {
+    totalScore: number;
+    severity: Severity;
+    severityLabel: LocalizedText;
+    completedAt: number;
+  } | null;
+  // Oldest first
+  trend: { totalScore: number; completedAt: number }[];
+}
+
+// A questionnaire is due when it has never been taken or its repeat interval has passed
+export function isAssessmentDue(
+  definition: QuestionnaireDefinition,
+  lastCompletedAt: number | null,
+  now: number
+): boolean {
+  return lastCompletedAt === null || now - lastCompletedAt >= definition.repeatEveryDays * 24 * 60 * 60 * 1000;
+}
+
+function severityLabel(definition: QuestionnaireDefinition, severity: Severity): LocalizedText {
+  return definition.bands.find(band => band.severity === severity)!.label;
+}
+
+// Definition for the questionnaire screen
+export const getQuestionnaire = query({
+  args: { questionnaireId: questionnaireIdValidator },
+  handler: async (_ctx, args): Promise<QuestionnaireDefinition> => {
+    return QUESTIONNAIRES[args.questionnaireId];
+  },
+});
+
+export const submitAssessment = mutation({
+  args: {
+    userId: v.id("users"),
+    questionnaireId: questionnaireIdValidator,
+    answers: v.array(v.number()),
+  },
+  handler: async (ctx, args): Promise<AssessmentResult> => {
+    const user = await ctx.db.get(args.userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const definition = QUESTIONNAIRES[args.questionnaireId];
+    const score = scoreQuestionnaire(definition, args.answers);
+    const assessmentId = await ctx.db.insert("assessments", {
+      userId: args.userId,
+      questionnaireId: args.questionnaireId,
+      answers: args.answers,
+      totalScore: score.totalScore,
+      severity: score.severity,
+      riskItems: score.riskItems,
+      completedAt: Date.now(),
+    });
+
+    const routeToCrisis = score.riskItems.length > 0;
+    if (routeToCrisis) {
+      // Thoughts of self-harm on more than half the days are treated like a critical chat message
+      const highestRisk = Math.max(
+        ...score.riskItems.map(itemId => args.answers[definition.items.findIndex(item => item.id === itemId)])
+      );
+      await insertCrisisEvent(ctx, {
+        userId: args.userId,
+        severity: highestRisk >= 2 ? "critical" : "high",
+        indicators: score.riskItems.map(itemId => `${definition.id}:${itemId}`),
+      });
+    }
+
+    return {
+      assessmentId,
+      totalScore: score.totalScore,
+      maxScore: maxScore(definition),
+      severity: score.severity,
+      severityLabel: score.severityLabel,
+      routeToCrisis,
+    };
+  },
+});
+
+// Past results for one questionnaire, newest first
+export const getAssessmentHistory = query({
+  args: {
+    userId: v.id("users"),
+    questionnaireId: questionnaireIdValidator,
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<Doc<"assessments">[]> => {
+    return await ctx.db
+      .query("assessments")
+      .withIndex("by_user_questionnaire", (q) =>
+        q.eq("userId", args.userId).eq("questionnaireId", args.questionnaireId)
+      )
+      .order("desc")
+      .take(args.limit ?? TREND_LENGTH);
+  },
+});
+
+// Latest result, score trend and whether a retake is due, per questionnaire
+export const getAssessmentOverview = query({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args): Promise<AssessmentSummary[]> => {
+    const now = Date.now();
+    return await Promise.all(
+      QUESTIONNAIRE_IDS.map(async (questionnaireId): Promise<AssessmentSummary> => {
+        const definition = QUESTIONNAIRES[questionnaireId];
+        const recent = await ctx.db
+          .query("assessments")
+          .withIndex("by_user_questionnaire", (q) =>
+            q.eq("userId", args.userId).eq("questionnaireId", questionnaireId)
+          )
+          .order("desc")
+          .take(TREND_LENGTH);
+        const latest = recent[0];
+
+        return {
+          id: questionnaireId,
+          name: definition.name,
+          title: definition.title,
+          maxScore: maxScore(definition),
+          isDue: isAssessmentDue(definition, latest?.completedAt ?? null, now),
+          latest: latest
+            ? {
+                totalScore: latest.totalScore,
+                severity: latest.severity,
+                severityLabel: severityLabel(definition, latest.severity),
+                completedAt: latest.completedAt,
+              }
+            : null,
+          trend: recent
+            .map(assessment => ({ totalScore: assessment.totalScore, completedAt: assessment.completedAt }))
+            .reverse(),
+        };
+      })
+    );
+  },
+});
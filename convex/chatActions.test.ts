@@ -0,0 +1,207 @@
+// @vitest-environment edge-runtime
+/// <reference types="vite/client" />
+/**
+ * Tests for in-chat actions
+ * Tests the tools offered for the published exercises, tool call validation,
+ * storing offered actions on the reply and linking exercises started from an
+ * action card back to it
+ */
+
+import { convexTest } from 'convex-test';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { api, internal } from './_generated/api';
+import { Id } from './_generated/dataModel';
+import { chatActionTools, MAX_THOUGHT_LENGTH, toChatActions } from './chatActions';
+import { BUILT_IN_EXERCISE_DEFINITIONS } from './exerciseCatalog';
+import { setMockCompletionHandler } from './llm';
+import schema from './schema';
+
+const modules = import.meta.glob('./**/*.ts');
+
+const exerciseIds = BUILT_IN_EXERCISE_DEFINITIONS.map(definition => definition.exerciseId);
+
+describe('Chat actions', () => {
+  it('should offer the published exercises with their type, duration and difficulty', () => {
+    const [startExercise] = chatActionTools(BUILT_IN_EXERCISE_DEFINITIONS);
+    const exerciseId = (startExercise.parameters as any).properties.exerciseId;
+
+    expect(startExercise.name).toBe('start_exercise');
+    expect(exerciseId.enum).toEqual(exerciseIds);
+    expect(exerciseId.description).toContain('box-breathing: breathing, 5 min, beginner');
+    expect(chatActionTools([]).map(tool => tool.name)).toEqual(['log_mood']);
+  });
+
+  it('should keep valid tool calls and drop unknown, malformed and repeated ones', () => {
+    const actions = toChatActions([
+      { name: 'start_exercise', arguments: { exerciseId: 'box-breathing' } },
+      { name: 'start_exercise', arguments: { exerciseId: 'box-breathing' } },
+      { name: 'start_exercise', arguments: { exerciseId: 'cold-shower' } },
+      { name: 'delete_account', arguments: {} },
+      { name: 'open_thought_record', arguments: { thought: `  ${'I always fail. '.repeat(40)}` } },
+      { name: 'log_mood', arguments: {} },
+    ], exerciseIds);
+
+    expect(actions).toEqual([
+      { type: 'start-exercise', exerciseId: 'box-breathing' },
+      {
+        type: 'open-thought-record',
+        exerciseId: 'thought-record',
+        thoughtText: 'I always fail. '.repeat(40).trim().slice(0, MAX_THOUGHT_LENGTH),
+      },
+    ]);
+  });
+
+  it('should open the thought record when it is started as an exercise', () => {
+    expect(toChatActions([{ name: 'start_exercise', arguments: { exerciseId: 'thought-record' } }], exerciseIds))
+      .toEqual([{ type: 'open-thought-record', exerciseId: 'thought-record' }]);
+  });
+
+  describe('in the chat', () => {
+    let t: ReturnType<typeof convexTest>;
+    let userId: Id<'users'>;
+    let conversationId: Id<'conversations'>;
+
+    const addDraft = () =>
+      t.mutation(api.messages.addMessage, {
+        conversationId,
+        userId,
+        role: 'assistant',
+        content: '',
+        status: 'streaming',
+      });
+
+    const reply = async (draftMessageId: Id<'messages'>) => {
+      const response = await t.action(api.ai.generateResponse, {
+        messages: [{ role: 'user', content: 'I keep thinking I will mess up my exam', timestamp: Date.now() }],
+        language: 'en',
+        draftMessageId,
+      });
+      await t.mutation(api.messages.finalizeDraftMessage, {
+        messageId: draftMessageId,
+        content: response.content,
+        sentiment: response.sentiment,
+        actions: response.actions,
+      });
+      return response;
+    };
+
+    beforeEach(async () => {
+      process.env.LLM_PROVIDER = 'mock';
+      t = convexTest(schema, modules);
+      await t.mutation(internal.exerciseDefinitions.seedExerciseDefinitions, {});
+      userId = await t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_1' }));
+      conversationId = await t.run(ctx => ctx.db.insert('conversations', { userId, isActive: true, messageCount: 0 }));
+    });
+
+    afterEach(() => {
+      setMockCompletionHandler(null);
+    });
+
+    it('should store the actions the assistant offers on its reply', async () => {
+      setMockCompletionHandler(() => ({
+        text: 'That sounds stressful.',
+        toolCalls: [
+          { name: 'open_thought_record', arguments: { thought: 'I will mess up my exam' } },
+          { name: 'start_exercise', arguments: { exerciseId: 'box-breathing' } },
+        ],
+      }));
+      const draftId = await addDraft();
+
+      await reply(draftId);
+
+      const message = await t.run(ctx => ctx.db.get(draftId));
+      expect(message?.content).toBe('That sounds stressful.');
+      expect(message?.actions).toEqual([
+        { type: 'open-thought-record', exerciseId: 'thought-record', thoughtText: 'I will mess up my exam' },
+        { type: 'start-exercise', exerciseId: 'box-breathing' },
+      ]);
+      expect(message?.metadata?.exerciseType).toBe('thoughtChallenge');
+    });
+
+    it('should offer exercises imported after the app shipped', async () => {
+      const [boxBreathing] = BUILT_IN_EXERCISE_DEFINITIONS;
+      await t.mutation(internal.exerciseDefinitions.importExerciseDefinitions, {
+        definitions: [{ ...boxBreathing, exerciseId: 'calm-breathing' }],
+      });
+      setMockCompletionHandler(() => ({
+        text: 'Let us breathe.',
+        toolCalls: [{ name: 'start_exercise', arguments: { exerciseId: 'calm-breathing' } }],
+      }));
+      const draftId = await addDraft();
+
+      await reply(draftId);
+
+      const message = await t.run(ctx => ctx.db.get(draftId));
+      expect(message?.actions).toEqual([{ type: 'start-exercise', exerciseId: 'calm-breathing' }]);
+      expect(message?.metadata?.exerciseType).toBe('breathing');
+    });
+
+    it('should introduce actions offered without any text', async () => {
+      setMockCompletionHandler(() => ({ text: '', toolCalls: [{ name: 'log_mood', arguments: {} }] }));
+      const draftId = await addDraft();
+
+      const response = await reply(draftId);
+
+      expect(response.content).toBe("Here's something we could try together:");
+      expect(response.actions).toEqual([{ type: 'log-mood' }]);
+    });
+
+    it('should leave replies without tool calls unchanged', async () => {
+      const draftId = await addDraft();
+
+      const response = await reply(draftId);
+
+      expect(response.actions).toBeUndefined();
+      expect((await t.run(ctx => ctx.db.get(draftId)))?.actions).toBeUndefined();
+    });
+
+    it('should link an exercise started from a card and mark the card done', async () => {
+      setMockCompletionHandler(() => ({
+        text: 'Let us slow down together.',
+        toolCalls: [
+          { name: 'start_exercise', arguments: { exerciseId: 'box-breathing' } },
+          { name: 'log_mood', arguments: {} },
+        ],
+      }));
+      const draftId = await addDraft();
+      await reply(draftId);
+
+      const exerciseId = await t.mutation(api.exercises.recordExerciseCompletion, {
+        userId,
+        type: 'breathing',
+        conversationId,
+        messageId: draftId,
+        data: { outputs: { effectiveness: 4 } },
+      });
+
+      const exercise = await t.run(ctx => ctx.db.get(exerciseId));
+      expect(exercise?.conversationId).toBe(conversationId);
+      expect(exercise?.messageId).toBe(draftId);
+      const message = await t.run(ctx => ctx.db.get(draftId));
+      expect(message?.actions).toEqual([
+        { type: 'start-exercise', exerciseId: 'box-breathing', completedExerciseId: exerciseId },
+        { type: 'log-mood' },
+      ]);
+    });
+
+    it('should not mark another user\'s cards', async () => {
+      setMockCompletionHandler(() => ({
+        text: 'Let us slow down together.',
+        toolCalls: [{ name: 'start_exercise', arguments: { exerciseId: 'box-breathing' } }],
+      }));
+      const draftId = await addDraft();
+      await reply(draftId);
+      const otherId = await t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_2' }));
+
+      await t.mutation(api.exercises.recordExerciseCompletion, {
+        userId: otherId,
+        type: 'breathing',
+        messageId: draftId,
+        data: { outputs: { effectiveness: 4 } },
+      });
+
+      const message = await t.run(ctx => ctx.db.get(draftId));
+      expect(message?.actions).toEqual([{ type: 'start-exercise', exerciseId: 'box-breathing' }]);
+    });
+  });
+});
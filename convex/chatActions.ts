@@ -0,0 +1,144 @@
+import { Id } from "./_generated/dataModel";
+import { MutationCtx } from "./_generated/server";
+import { ExerciseDefinition, getExerciseType } from "./exerciseDefinitions";
+import { LLMTool, LLMToolCall } from "./llm";
+
+// In-chat actions: the full chat assistant can offer to start an exercise,
+// log a mood or open a thought record by calling a tool instead of describing
+// the activity in prose. Valid calls are stored on the reply (messages.actions)
+// and rendered as cards under it. Exercises started from a card are linked
+// back to the conversation and mark the card as done. The exercises offered
+// are the published exercise definitions.
+
+export const MAX_CHAT_ACTIONS = 2;
+export const MAX_THOUGHT_LENGTH = 300;
+
+export type ChatActionType = "start-exercise" | "log-mood" | "open-thought-record";
+
+export interface ChatAction {
+  type: ChatActionType;
+  exerciseId?: string;
+  // Pre-fills the thought record with the thought the user described
+  thoughtText?: string;
+  // Set once an exercise started from this action is recorded
+  completedExerciseId?: Id<"exercises">;
+}
+
+type ChatExercise = Pick<ExerciseDefinition, "exerciseId" | "type" | "difficulty" | "durationMinutes">;
+
+// The tools offered to the model; start_exercise lists the exercises it may start
+export function chatActionTools(exercises: ChatExercise[]): LLMTool[] {
+  const startExercise: LLMTool = {
+    name: "start_exercise",
+    description: "Offer the user a short guided exercise they can start with one tap.",
+    parameters: {
+      type: "object",
+      properties: {
+        exerciseId: {
+          type: "string",
+          enum: exercises.map(exercise => exercise.exerciseId),
+          description: exercises
+            .map(exercise => `${exercise.exerciseId}: ${exercise.type}, ${exercise.durationMinutes} min, ${exercise.difficulty}`)
+            .join("; "),
+        },
+      },
+      required: ["exerciseId"],
+    },
+  };
+
+  const openThoughtRecord: LLMTool = {
+    name: "open_thought_record",
+    description: "Offer to examine a specific negative thought the user described, using a CBT thought record.",
+    parameters: {
+      type: "object",
+      properties: {
+        thought: {
+          type: "string",
+          description: "The thought in the user's own words, in their language",
+        },
+      },
+      required: ["thought"],
+    },
+  };
+
+  return [
+    ...(exercises.length > 0 ? [startExercise] : []),
+    {
+      name: "log_mood",
+      description: "Invite the user to record how they feel right now in the mood tracker.",
+      parameters: { type: "object", properties: {} },
+    },
+    ...(exercises.some(exercise => exercise.exerciseId === "thought-record") ? [openThoughtRecord] : []),
+  ];
+}
+
+function toChatAction(call: LLMToolCall, exerciseIds: string[]): ChatAction | null {
+  switch (call.name) {
+    case "start_exercise": {
+      const exerciseId = call.arguments.exerciseId;
+      if (typeof exerciseId !== "string" || !exerciseIds.includes(exerciseId)) return null;
+      // The thought record has its own action so it can be pre-filled
+      return exerciseId === "thought-record"
+        ? { type: "open-thought-record", exerciseId }
+        : { type: "start-exercise", exerciseId };
+    }
+    case "log_mood":
+      return { type: "log-mood" };
+    case "open_thought_record": {
+      if (!exerciseIds.includes("thought-record")) return null;
+      const thought = call.arguments.thought;
+      const thoughtText = typeof thought === "string" ? thought.trim().slice(0, MAX_THOUGHT_LENGTH) : "";
+      return {
+        type: "open-thought-record",
+        exerciseId: "thought-record",
+        ...(thoughtText ? { thoughtText } : {}),
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+// Validate the model's tool calls against the exercises it was offered,
+// dropping unknown, malformed and repeated ones
+export function toChatActions(calls: LLMToolCall[], exerciseIds: string[]): ChatAction[] {
+  const actions: ChatAction[] = [];
+  for (const call of calls) {
+    const action = toChatAction(call, exerciseIds);
+    if (!action || actions.length >= MAX_CHAT_ACTIONS) continue;
+    if (actions.some(existing => existing.type === action.type && existing.exerciseId === action.exerciseId)) continue;
+    actions.push(action);
+  }
+  return actions;
+}
+
+// Mark the first open action on a message that starts this type of exercise
+// as done. Ignored if the message is not the user's or has no such action.
+export async function completeChatAction(
+  ctx: MutationCtx,
+  args: {
+    userId: Id<"users">;
+    messageId: Id<"messages">;
+    type: string;
+    exerciseId: Id<"exercises">;
+  },
+) {
+  const message = await ctx.db.get(args.messageId);
+  if (!message || message.userId !== args.userId || !message.actions) return;
+
+  let index = -1;
+  for (const [i, action] of message.actions.entries()) {
+    if (action.completedExerciseId || action.exerciseId === undefined) continue;
+    if (await getExerciseType(ctx, action.exerciseId) === args.type) {
+      index = i;
+      break;
+    }
+  }
+  if (index === -1) return;
+
+  await ctx.db.patch(args.messageId, {
+    actions: message.actions.map((action, i) =>
+      i === index ? { ...action, completedExerciseId: args.exerciseId } : action
+    ),
+  });
+}
@@ -0,0 +1,139 @@
+// @vitest-environment edge-runtime
+/// <reference types="vite/client" />
+/**
+ * Tests for multi-dimensional check-ins
+ * Tests validation, correlations with mood, storage through recordMood and the insights summary
+ */
+
+import { convexTest } from 'convex-test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EMOTION_WHEEL as CLIENT_EMOTION_WHEEL } from '../src/data/emotions';
+import { api } from './_generated/api';
+import {
+  correlation,
+  EMOTION_KEYS,
+  EMOTION_WHEEL,
+  formatCheckInsForPrompt,
+  summarizeCheckIns,
+  validateCheckIn,
+} from './checkIns';
+import schema from './schema';
+
+const modules = import.meta.glob('./**/*.ts');
+
+describe('Check-ins', () => {
+  describe('validateCheckIn', () => {
+    it('should accept in-range values and known emotions', () => {
+      expect(() => validateCheckIn({
+        emotions: ['happy', 'grateful'],
+        energy: 1,
+        anxiety: 5,
+        sleepQuality: 3,
+        sleepHours: 7.5,
+      })).not.toThrow();
+    });
+
+    it('should reject out-of-range scales, hours and unknown emotions', () => {
+      expect(() => validateCheckIn({ energy: 6 })).toThrow('energy must be a whole number from 1 to 5');
+      expect(() => validateCheckIn({ anxiety: 2.5 })).toThrow('anxiety must be a whole number');
+      expect(() => validateCheckIn({ sleepHours: 25 })).toThrow('sleepHours must be between 0 and 24');
+      expect(() => validateCheckIn({ emotions: ['meh'] })).toThrow('Unknown emotion: meh');
+      expect(() => validateCheckIn({ emotions: EMOTION_KEYS.slice(0, 7) })).toThrow('Pick up to 6 emotions');
+    });
+
+    it('should use the same emotion keys as the client wheel', () => {
+      expect(Object.fromEntries(
+        CLIENT_EMOTION_WHEEL.map(core => [core.key, core.feelings.map(feeling => feeling.key)])
+      )).toEqual(EMOTION_WHEEL);
+    });
+  });
+
+  describe('correlation', () => {
+    it('should measure how two series move together', () => {
+      expect(correlation([1, 2, 3, 4], [2, 4, 6, 8])).toBeCloseTo(1);
+      expect(correlation([1, 2, 3, 4], [8, 6, 4, 2])).toBeCloseTo(-1);
+    });
+
+    it('should return null for too few pairs or a flat series', () => {
+      expect(correlation([1, 2], [1, 2])).toBeNull();
+      expect(correlation([3, 3, 3], [1, 2, 3])).toBeNull();
+    });
+  });
+
+  describe('summarizeCheckIns', () => {
+    it('should skip entries without a value for a measure', () => {
+      const summary = summarizeCheckIns([
+        { rating: 8, energy: 5, emotions: ['happy'] },
+        { rating: 6, energy: 4, emotions: ['happy', 'tired'] },
+        { rating: 3, energy: 1 },
+        { rating: 5, sleepHours: 6 },
+      ]);
+
+      expect(summary.averages).toEqual({ energy: 10 / 3, sleepHours: 6 });
+      expect(summary.correlations.energy).toBeGreaterThan(0.9);
+      expect(summary.correlations.sleepHours).toBeUndefined();
+      expect(summary.topEmotions).toEqual([{ emotion: 'happy', count: 2 }, { emotion: 'tired', count: 1 }]);
+    });
+
+    it('should describe notable correlations in the prompt', () => {
+      const prompt = formatCheckInsForPrompt({
+        averages: { energy: 3.2, anxiety: 4 },
+        correlations: { energy: 0.1, anxiety: -0.8 },
+        topEmotions: [{ emotion: 'worried', count: 3 }],
+      }, 'en');
+
+      expect(prompt).toContain('- Energy: 3.2\n');
+      expect(prompt).toContain('- Anxiety: 4.0 (mood drops as it rises)');
+      expect(prompt).toContain('- Frequent emotions: worried');
+      expect(formatCheckInsForPrompt({ averages: {}, correlations: {}, topEmotions: [] }, 'ar')).toBe('');
+    });
+  });
+
+  describe('recordMood', () => {
+    let t: ReturnType<typeof convexTest>;
+
+    beforeEach(() => {
+      t = convexTest(schema, modules);
+    });
+
+    const createUser = () => t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_1' }));
+
+    it('should store the check-in with the mood', async () => {
+      const userId = await createUser();
+
+      const moodId = await t.mutation(api.moods.recordMood, {
+        userId,
+        rating: 7,
+        emotions: ['happy', 'hopeful'],
+        energy: 4,
+        anxiety: 2,
+        sleepQuality: 5,
+        sleepHours: 8,
+      });
+
+      const mood = await t.run(ctx => ctx.db.get(moodId));
+      expect(mood).toMatchObject({ emotions: ['happy', 'hopeful'], energy: 4, anxiety: 2, sleepQuality: 5, sleepHours: 8 });
+    });
+
+    it('should refuse an invalid check-in', async () => {
+      const userId = await createUser();
+
+      await expect(t.mutation(api.moods.recordMood, { userId, rating: 7, energy: 9 }))
+        .rejects.toThrow('energy must be a whole number');
+      expect(await t.run(ctx => ctx.db.query('moods').collect())).toHaveLength(0);
+    });
+
+    it('should summarize check-ins in mood insights', async () => {
+      const userId = await createUser();
+      await t.mutation(api.moods.recordMood, { userId, rating: 8, anxiety: 1, emotions: ['content'] });
+      await t.mutation(api.moods.recordMood, { userId, rating: 5, anxiety: 3 });
+      await t.mutation(api.moods.recordMood, { userId, rating: 2, anxiety: 5, emotions: ['anxious'] });
+
+      const insights = await t.query(api.moods.getMoodInsights, { userId });
+
+      expect(insights?.currentEmotions).toEqual(['anxious']);
+      expect(insights?.checkIns.averages.anxiety).toBe(3);
+      expect(insights?.checkIns.correlations.anxiety).toBeCloseTo(-1);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { v } from "convex/values";
+
+// Multi-dimensional check-ins.
+//
+// Besides the overall 1-10 rating, a mood entry can record named emotions
+// picked from a feelings wheel, energy, anxiety and sleep-quality scales and
+// hours slept. All of these are optional so quick check-ins stay quick. The
+// bilingual labels for the wheel live with the picker in src/data/emotions.ts;
+// the keys here are what moods.emotions stores.
+
+// Core emotions and the more specific feelings under each
+export const EMOTION_WHEEL: Record<string, string[]> = {
+  happy: ["grateful", "proud", "hopeful", "content"],
+  sad: ["lonely", "disappointed", "hurt", "guilty"],
+  angry: ["frustrated", "irritated", "resentful", "jealous"],
+  fearful: ["anxious", "worried", "overwhelmed", "insecure"],
+  surprised: ["confused", "amazed", "excited", "startled"],
+  tired: ["bored", "stressed", "exhausted", "unmotivated"],
+};
+
+export const EMOTION_KEYS = Object.entries(EMOTION_WHEEL).flatMap(([core, feelings]) => [core, ...feelings]);
+
+export const MAX_EMOTIONS = 6;
+
+// Energy, anxiety and sleep quality are rated 1 (low) to 5 (high)
+export const SCALE_MIN = 1;
+export const SCALE_MAX = 5;
+export const MAX_SLEEP_HOURS = 24;
+
+export const CHECK_IN_SCALES = ["energy", "anxiety", "sleepQuality"] as const;
+
+export type CheckInMeasure = (typeof CHECK_IN_SCALES)[number] | "sleepHours";
+
+// Check-in arguments shared by moods.recordMood and the outbox replay
+export const checkInFields = {
+  emotions: v.optional(v.array(v.string())),
+  energy: v.optional(v.number()),
+  anxiety: v.optional(v.number()),
+  sleepQuality: v.optional(v.number()),
+  sleepHours: v.optional(v.number()),
+};
+
+export interface CheckIn {
+  emotions?: string[];
+  energy?: number;
+  anxiety?: number;
+  sleepQuality?: number;
+  sleepHours?: number;
+}
+
+// Throws if any check-in value is out of range or not a known emotion
+export function validateCheckIn(checkIn: CheckIn) {
+  if (checkIn.emotions) {
+    if (checkIn.emotions.length > MAX_EMOTIONS) {
+      throw new Error(`Pick up to ${MAX_EMOTIONS} emotions`);
+    }
+    const unknown = checkIn.emotions.find(emotion => !EMOTION_KEYS.includes(emotion));
+    if (unknown) {
+      throw new Error(`Unknown emotion: ${unknown}`);
+    }
+  }
+
+  for (const scale of CHECK_IN_SCALES) {
+    const value = checkIn[scale];
+    if (value !== undefined && (!Number.isInteger(value) || value < SCALE_MIN || value > SCALE_MAX)) {
+      throw new Error(`${scale} must be a whole number from ${SCALE_MIN} to ${SCALE_MAX}`);
+    }
+  }
+
+  if (checkIn.sleepHours !== undefined && (checkIn.sleepHours < 0 || checkIn.sleepHours > MAX_SLEEP_HOURS)) {
+    throw new Error(`sleepHours must be between 0 and ${MAX_SLEEP_HOURS}`);
+  }
+}
+
+// Pearson correlation of two equally long series, or null when there are too
+// few pairs or one series never changes
+export function correlation(xs: number[], ys: number[]): number | null {
+  const n = xs.length;
+  if (n < 3 || ys.length !== n) return null;
+
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    varianceX += (xs[i] - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  }
+
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+interface RatedCheckIn extends CheckIn {
+  rating: number;
+}
+
+export interface CheckInSummary {
+  averages: Partial<Record<CheckInMeasure, number>>;
+  // Correlation of each measure with the mood rating (-1 to 1)
+  correlations: Partial<Record<CheckInMeasure, number>>;
+  topEmotions: { emotion: string; count: number }[];
+}
+
+// Averages, correlations with mood and the most frequent emotions across a
+// set of entries. Entries without a value for a measure are skipped for it.
+export function summarizeCheckIns(entries: RatedCheckIn[]): CheckInSummary {
+  const averages: CheckInSummary["averages"] = {};
+  const correlations: CheckInSummary["correlations"] = {};
+
+  for (const measure of [...CHECK_IN_SCALES, "sleepHours"] as CheckInMeasure[]) {
+    const rated = entries.filter(entry => entry[measure] !== undefined);
+    if (rated.length === 0) continue;
+
+    const values = rated.map(entry => entry[measure]!);
+    averages[measure] = values.reduce((a, b) => a + b, 0) / values.length;
+
+    const r = correlation(values, rated.map(entry => entry.rating));
+    if (r !== null) correlations[measure] = r;
+  }
+
+  const emotionCounts = new Map<string, number>();
+  for (const entry of entries) {
+    for (const emotion of entry.emotions ?? []) {
+      emotionCounts.set(emotion, (emotionCounts.get(emotion) ?? 0) + 1);
+    }
+  }
+  const topEmotions = [...emotionCounts.entries()]
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, 5)
+    .map(([emotion, count]) => ({ emotion, count }));
+
+  return { averages, correlations, topEmotions };
+}
+
+// Weaker correlations than this are left out of the prompt
+const NOTABLE_CORRELATION = 0.3;
+
+const MEASURE_NAMES: Record<CheckInMeasure, { en: string; ar: string }> = {
+  energy: { en: "Energy", ar: "الطاقة" },
+  anxiety: { en: "Anxiety", ar: "القلق" },
+  sleepQuality: { en: "Sleep quality", ar: "جودة النوم" },
+  sleepHours: { en: "Hours slept", ar: "ساعات النوم" },
+};
+
+// Check-in context for the chat system prompt; empty when nothing was recorded
+export function formatCheckInsForPrompt(summary: CheckInSummary, language: string): string {
+  const isArabic = language === "ar";
+  const lines = (Object.keys(summary.averages) as CheckInMeasure[]).map(measure => {
+    const name = MEASURE_NAMES[measure][isArabic ? "ar" : "en"];
+    const average = summary.averages[measure]!.toFixed(1);
+    const r = summary.correlations[measure];
+    if (r === undefined || Math.abs(r) < NOTABLE_CORRELATION) return `- ${name}: ${average}`;
+    const link = isArabic
+      ? (r > 0 ? "يرتفع المزاج معه" : "ينخفض المزاج عندما يرتفع")
+      : (r > 0 ? "mood rises with it" : "mood drops as it rises");
+    return `- ${name}: ${average} (${link})`;
+  });
+
+  if (summary.topEmotions.length > 0) {
+    const emotions = summary.topEmotions.map(({ emotion }) => emotion).join(", ");
+    lines.push(isArabic ? `- المشاعر المتكررة: ${emotions}` : `- Frequent emotions: ${emotions}`);
+  }
+
+  if (lines.length === 0) return "";
+  return isArabic
+    ? `\n\nتسجيلات الحالة (الطاقة والقلق وجودة النوم من 1 إلى 5):\n${lines.join("\n")}`
+    : `\n\nCheck-ins (energy, anxiety and sleep quality from 1 to 5):\n${lines.join("\n")}`;
+}
@@ -0,0 +1,248 @@
+// @vitest-environment edge-runtime
+/// <reference types="vite/client" />
+/**
+ * Unit Tests for the crisis escalation workflow
+ * Tests the escalation policy (consent, channels, cool-down), claiming the
+ * notification, the contact payload and the notifiers
+ */
+
+import { convexTest } from 'convex-test';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { internal } from './_generated/api';
+import { ESCALATION_COOLDOWN_MS, evaluateEscalation } from './crisis';
+import { buildCrisisNotifications, getNotifier, maskRecipient } from './notifier';
+import schema from './schema';
+
+const modules = import.meta.glob('./**/*.ts');
+
+const now = Date.UTC(2025, 0, 15, 12);
+
+const consentedContact = {
+  email: 'sara@example.com',
+  escalationPolicy: {
+    notifyOnCrisis: true,
+    channels: ['sms' as const, 'email' as const],
+    consentedAt: now - 1000,
+  },
+};
+
+describe('Crisis Escalation', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('evaluateEscalation', () => {
+    it('should notify a consented primary contact on a critical event', () => {
+      const decision = evaluateEscalation({
+        severity: 'critical',
+        contact: consentedContact,
+        lastNotifiedAt: null,
+        now,
+      });
+
+      expect(decision).toEqual({ escalate: true, channels: ['sms', 'email'] });
+    });
+
+    it('should only escalate critical events', () => {
+      const decision = evaluateEscalation({
+        severity: 'high',
+        contact: consentedContact,
+        lastNotifiedAt: null,
+        now,
+      });
+
+      expect(decision).toEqual({ escalate: false, reason: 'not-critical' });
+    });
+
+    it('should never notify without a primary contact or consent', () => {
+      expect(evaluateEscalation({ severity: 'critical', contact: null, lastNotifiedAt: null, now }))
+        .toEqual({ escalate: false, reason: 'no-primary-contact' });
+      expect(evaluateEscalation({ severity: 'critical', contact: { email: undefined, escalationPolicy: undefined }, lastNotifiedAt: null, now }))
+        .toEqual({ escalate: false, reason: 'no-consent' });
+      expect(evaluateEscalation({
+        severity: 'critical',
+        contact: { ...consentedContact, escalationPolicy: { ...consentedContact.escalationPolicy, notifyOnCrisis: false } },
+        lastNotifiedAt: null,
+        now,
+      })).toEqual({ escalate: false, reason: 'no-consent' });
+    });
+
+    it('should drop email when the contact has no address', () => {
+      const withoutEmail = { ...consentedContact, email: undefined };
+      expect(evaluateEscalation({ severity: 'critical', contact: withoutEmail, lastNotifiedAt: null, now }))
+        .toEqual({ escalate: true, channels: ['sms'] });
+
+      const emailOnly = {
+        email: undefined,
+        escalationPolicy: { ...consentedContact.escalationPolicy, channels: ['email' as const] },
+      };
+      expect(evaluateEscalation({ severity: 'critical', contact: emailOnly, lastNotifiedAt: null, now }))
+        .toEqual({ escalate: false, reason: 'no-channel' });
+    });
+
+    it('should respect the cool-down between notifications', () => {
+      expect(evaluateEscalation({
+        severity: 'critical',
+        contact: consentedContact,
+        lastNotifiedAt: now - ESCALATION_COOLDOWN_MS + 60_000,
+        now,
+      })).toEqual({ escalate: false, reason: 'cooldown' });
+
+      expect(evaluateEscalation({
+        severity: 'critical',
+        contact: consentedContact,
+        lastNotifiedAt: now - ESCALATION_COOLDOWN_MS,
+        now,
+      }).escalate).toBe(true);
+    });
+  });
+
+  describe('escalateCrisisEvent', () => {
+    const insertConsentedContact = async (t: ReturnType<typeof convexTest>) => {
+      const userId = await t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_1', name: 'Omar' }));
+      await t.run(ctx => ctx.db.insert('emergencyContacts', {
+        userId,
+        name: 'Sara',
+        phone: '+966500000000',
+        relationship: 'sister',
+        isPrimary: true,
+        escalationPolicy: { notifyOnCrisis: true, channels: ['sms'], consentedAt: Date.now() },
+      }));
+      return userId;
+    };
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('should notify the contact once for concurrent critical events', async () => {
+      const t = convexTest(schema, modules);
+      vi.stubEnv('NOTIFIER', 'webhook');
+      vi.stubEnv('NOTIFIER_WEBHOOK_URL', 'https://hooks.example.com/nafsy');
+      const fetchMock = vi.fn().mockResolvedValue({ ok: true, statusText: 'OK' });
+      global.fetch = fetchMock;
+      const userId = await insertConsentedContact(t);
+      const [first, second] = await t.run(ctx => Promise.all([0, 1].map(() => ctx.db.insert('crisisEvents', {
+        userId,
+        severity: 'critical' as const,
+        indicators: ['kill myself'],
+        status: 'detected' as const,
+        detectedAt: Date.now(),
+      }))));
+
+      await Promise.all([
+        t.action(internal.crisis.escalateCrisisEvent, { eventId: first }),
+        t.action(internal.crisis.escalateCrisisEvent, { eventId: second }),
+      ]);
+
+      const events = await t.run(ctx => Promise.all([ctx.db.get(first), ctx.db.get(second)]));
+      expect(events.map(event => event?.status).sort()).toEqual(['notified', 'suppressed']);
+      expect(events.find(event => event?.status === 'suppressed')?.reason).toBe('cooldown');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not report the contact as notified when no notifier is configured', async () => {
+      const t = convexTest(schema, modules);
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const userId = await insertConsentedContact(t);
+      const eventId = await t.run(ctx => ctx.db.insert('crisisEvents', {
+        userId,
+        severity: 'critical' as const,
+        indicators: ['kill myself'],
+        status: 'detected' as const,
+        detectedAt: Date.now(),
+      }));
+
+      await t.action(internal.crisis.escalateCrisisEvent, { eventId });
+
+      const event = await t.run(ctx => ctx.db.get(eventId));
+      expect(event?.status).toBe('not-configured');
+      expect(event?.reason).toBe('No notifier configured for this deployment');
+      expect(event?.notifiedAt).toBeUndefined();
+    });
+  });
+
+  describe('buildCrisisNotifications', () => {
+    const input = {
+      userName: 'Omar',
+      contactName: 'Sara',
+      phone: '+966500000000',
+      email: 'sara@example.com',
+      channels: ['sms' as const, 'email' as const],
+      language: 'en',
+    };
+
+    it('should address one message per channel', () => {
+      const notifications = buildCrisisNotifications(input);
+
+      expect(notifications.map(n => [n.channel, n.to])).toEqual([
+        ['sms', '+966500000000'],
+        ['email', 'sara@example.com'],
+      ]);
+      expect(notifications[0].subject).toBeUndefined();
+      expect(notifications[1].subject).toBe('Omar may need your support');
+      expect(notifications[0].body).toContain('Hi Sara, Omar chose you');
+    });
+
+    it('should write to the contact in the user\'s language', () => {
+      const [sms] = buildCrisisNotifications({ ...input, channels: ['sms'], language: 'ar' });
+
+      expect(sms.body).toContain('مرحباً Sara');
+    });
+
+    it('should skip email when there is no address', () => {
+      const notifications = buildCrisisNotifications({ ...input, email: undefined });
+
+      expect(notifications.map(n => n.channel)).toEqual(['sms']);
+    });
+  });
+
+  describe('Notifiers', () => {
+    it('should default to the log-only notifier', async () => {
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+      global.fetch = vi.fn();
+
+      const notifier = getNotifier({});
+      await notifier.send({ channel: 'sms', to: '+966500000000', body: 'Hi Sara, Omar chose you' });
+
+      expect(notifier.name).toBe('log');
+      expect(notifier.delivers).toBe(false);
+      expect(global.fetch).not.toHaveBeenCalled();
+      expect(JSON.stringify(log.mock.calls)).not.toContain('+966500000000');
+      expect(JSON.stringify(log.mock.calls)).not.toContain('Omar');
+    });
+
+    it('should mask phone numbers and email addresses', () => {
+      expect(maskRecipient('+966500001234')).toBe('***1234');
+      expect(maskRecipient('sara@example.com')).toBe('s***@example.com');
+    });
+
+    it('should post notifications to the configured webhook', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({ ok: true, statusText: 'OK' });
+      global.fetch = fetchMock;
+
+      const notifier = getNotifier({
+        NOTIFIER: 'webhook',
+        NOTIFIER_WEBHOOK_URL: 'https://hooks.example.com/nafsy',
+        NOTIFIER_WEBHOOK_TOKEN: 'secret',
+      });
+      await notifier.send({ channel: 'email', to: 'sara@example.com', subject: 'Hi', body: 'Please check in' });
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://hooks.example.com/nafsy');
+      expect(init.headers.Authorization).toBe('Bearer secret');
+      expect(JSON.parse(init.body)).toEqual({ channel: 'email', to: 'sara@example.com', subject: 'Hi', body: 'Please check in' });
+    });
+
+    it('should surface webhook failures and missing config', async () => {
+      global.fetch = vi.fn().mockResolvedValue({ ok: false, statusText: 'Bad Gateway' });
+
+      expect(() => getNotifier({ NOTIFIER: 'webhook' })).toThrow('Notifier webhook URL not configured');
+      expect(() => getNotifier({ NOTIFIER: 'pager' })).toThrow('Unknown notifier: pager');
+
+      const notifier = getNotifier({ NOTIFIER: 'webhook', NOTIFIER_WEBHOOK_URL: 'https://hooks.example.com/nafsy' });
+      await expect(notifier.send({ channel: 'sms', to: '+966500000000', body: 'x' }))
+        .rejects.toThrow('Notifier webhook error: Bad Gateway');
+    });
+  });
+});
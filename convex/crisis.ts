@@ -0,0 +1,242 @@
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { internalAction, internalMutation, MutationCtx, query } from "./_generated/server";
+import { buildCrisisNotifications, getNotifier, NotificationChannel } from "./notifier";
+
+// Crisis escalation workflow.
+//
+// sendMessage records every high/critical detection as a crisisEvent, as does
+// submitAssessment when PHQ-9 item 9 is positive. Critical events schedule
+// escalateCrisisEvent, which notifies the user's primary emergency contact
+// through the configured notifier, but only when the user has consented for
+// that contact and no one was notified during the cool-down. The event is
+// claimed ("notifying") before anything is sent.
+
+// Don't notify the contact again for further critical messages within this window
+export const ESCALATION_COOLDOWN_MS = 12 * 60 * 60 * 1000;
+
+export type EscalationSkipReason =
+  | "not-critical"
+  | "no-primary-contact"
+  | "no-consent"
+  | "no-channel"
+  | "cooldown";
+
+export type EscalationDecision =
+  | { escalate: true; channels: NotificationChannel[] }
+  | { escalate: false; reason: EscalationSkipReason };
+
+const channelValidator = v.union(v.literal("sms"), v.literal("email"));
+
+// Decide whether (and how) a crisis event should reach the emergency contact
+export function evaluateEscalation(input: {
+  severity: Doc<"crisisEvents">["severity"];
+  contact: Pick<Doc<"emergencyContacts">, "email" | "escalationPolicy"> | null;
+  lastNotifiedAt: number | null;
+  now: number;
+}): EscalationDecision {
+  if (input.severity !== "critical") {
+    return { escalate: false, reason: "not-critical" };
+  }
+  if (!input.contact) {
+    return { escalate: false, reason: "no-primary-contact" };
+  }
+
+  const policy = input.contact.escalationPolicy;
+  if (!policy || !policy.notifyOnCrisis) {
+    return { escalate: false, reason: "no-consent" };
+  }
+
+  // Email can only be used when the contact has an address on file
+  const channels = policy.channels.filter(channel => channel === "sms" || !!input.contact!.email);
+  if (channels.length === 0) {
+    return { escalate: false, reason: "no-channel" };
+  }
+
+  if (input.lastNotifiedAt !== null && input.now - input.lastNotifiedAt < ESCALATION_COOLDOWN_MS) {
+    return { escalate: false, reason: "cooldown" };
+  }
+
+  return { escalate: true, channels };
+}
+
+// Store a crisis event, scheduling escalation for critical ones
+export async function insertCrisisEvent(
+  ctx: MutationCtx,
+  args: {
+    userId: Id<"users">;
+    conversationId?: Id<"conversations">;
+    severity: Doc<"crisisEvents">["severity"];
+    indicators: string[];
+  }
+): Promise<Id<"crisisEvents">> {
+  const eventId = await ctx.db.insert("crisisEvents", {
+    userId: args.userId,
+    conversationId: args.conversationId,
+    severity: args.severity,
+    indicators: args.indicators,
+    status: "detected",
+    detectedAt: Date.now(),
+  });
+
+  if (args.severity === "critical") {
+    await ctx.scheduler.runAfter(0, internal.crisis.escalateCrisisEvent, { eventId });
+  }
+
+  return eventId;
+}
+
+// Record a crisis detection (called from messages.sendMessage)
+export const recordCrisisEvent = internalMutation({
+  args: {
+    userId: v.id("users"),
+    conversationId: v.optional(v.id("conversations")),
+    severity: v.union(v.literal("high"), v.literal("critical")),
+    indicators: v.array(v.string()),
+  },
+  returns: v.id("crisisEvents"),
+  handler: async (ctx, args): Promise<Id<"crisisEvents">> => {
+    return await insertCrisisEvent(ctx, args);
+  },
+});
+
+// Claim the notification for an event: re-check the cool-down and mark the
+// event "notifying" in one transaction, so concurrent critical events can't
+// both reach the contact. Events that shouldn't escalate are suppressed here.
+export const claimEscalation = internalMutation({
+  args: { eventId: v.id("crisisEvents") },
+  handler: async (ctx, args) => {
+    const event = await ctx.db.get(args.eventId);
+    if (!event || event.status !== "detected") return null;
+
+    const user = await ctx.db.get(event.userId);
+    const contact = await ctx.db
+      .query("emergencyContacts")
+      .withIndex("by_user", (q) => q.eq("userId", event.userId))
+      .filter((q) => q.eq(q.field("isPrimary"), true))
+      .first();
+    // A claim still being sent counts as a notification for the cool-down
+    const lastNotified = await ctx.db
+      .query("crisisEvents")
+      .withIndex("by_user_time", (q) => q.eq("userId", event.userId))
+      .order("desc")
+      .filter((q) => q.or(q.eq(q.field("status"), "notified"), q.eq(q.field("status"), "notifying")))
+      .first();
+
+    const now = Date.now();
+    const decision = evaluateEscalation({
+      severity: event.severity,
+      contact,
+      lastNotifiedAt: lastNotified?.notifiedAt ?? null,
+      now,
+    });
+
+    if (!decision.escalate || !contact) {
+      await ctx.db.patch(args.eventId, {
+        status: "suppressed",
+        contactId: contact?._id,
+        reason: decision.escalate ? undefined : decision.reason,
+      });
+      return null;
+    }
+
+    await ctx.db.patch(args.eventId, {
+      status: "notifying",
+      contactId: contact._id,
+      channels: decision.channels,
+      notifiedAt: now,
+    });
+    return { user, contact, channels: decision.channels };
+  },
+});
+
+// Apply the user's escalation policy and notify the primary contact
+export const escalateCrisisEvent = internalAction({
+  args: { eventId: v.id("crisisEvents") },
+  returns: v.null(),
+  handler: async (ctx, args): Promise<null> => {
+    const claim = await ctx.runMutation(internal.crisis.claimEscalation, { eventId: args.eventId });
+    if (!claim) return null;
+
+    const { user, contact, channels } = claim;
+    const notifications = buildCrisisNotifications({
+      userName: user?.displayName || user?.name || "Someone",
+      contactName: contact.name,
+      phone: contact.phone,
+      email: contact.email,
+      channels,
+      language: user?.language || "en",
+    });
+
+    try {
+      const notifier = getNotifier();
+      for (const notification of notifications) {
+        await notifier.send(notification);
+      }
+      // Without a delivering notifier nobody was contacted, so never report "notified"
+      await ctx.runMutation(internal.crisis.completeEscalation, {
+        eventId: args.eventId,
+        status: notifier.delivers ? "notified" : "not-configured",
+        contactId: contact._id,
+        channels,
+        reason: notifier.delivers ? undefined : "No notifier configured for this deployment",
+      });
+    } catch (error) {
+      console.error("Crisis escalation error:", error);
+      // Failing releases the claim, so the next critical event can try again
+      await ctx.runMutation(internal.crisis.completeEscalation, {
+        eventId: args.eventId,
+        status: "failed",
+        contactId: contact._id,
+        channels,
+        reason: error instanceof Error ? error.message : "Unknown notifier error",
+      });
+    }
+    return null;
+  },
+});
+
+export const completeEscalation = internalMutation({
+  args: {
+    eventId: v.id("crisisEvents"),
+    status: v.union(v.literal("notified"), v.literal("not-configured"), v.literal("failed")),
+    contactId: v.optional(v.id("emergencyContacts")),
+    channels: v.optional(v.array(channelValidator)),
+    reason: v.optional(v.string()),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.eventId, {
+      status: args.status,
+      contactId: args.contactId,
+      channels: args.channels,
+      reason: args.reason,
+      notifiedAt: args.status === "notified" ? Date.now() : undefined,
+    });
+    return null;
+  },
+});
+
+// Latest crisis event for the in-app crisis screen, with the notified contact's name
+export const getLatestCrisisEvent = query({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    const event = await ctx.db
+      .query("crisisEvents")
+      .withIndex("by_user_time", (q) => q.eq("userId", args.userId))
+      .order("desc")
+      .first();
+    if (!event) return null;
+
+    const contact = event.contactId ? await ctx.db.get(event.contactId) : null;
+    return {
+      _id: event._id,
+      severity: event.severity,
+      status: event.status,
+      detectedAt: event.detectedAt,
+      notifiedAt: event.notifiedAt,
+      contactName: contact?.name,
+    };
+  },
+});
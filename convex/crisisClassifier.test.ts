@@ -0,0 +1,300 @@
+/**
+ * Unit Tests for the multi-stage crisis classifier
+ * Tests normalization, negation/tense handling, conversation accumulation and
+ * a labelled bilingual regression corpus with locked precision/recall
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  classifyConversation,
+  classifyMessage,
+  CrisisSeverity,
+  normalizeArabic,
+  normalizeText,
+} from './crisisClassifier';
+
+type Label = CrisisSeverity;
+
+// Labelled by expected clinical severity, not by what the classifier returns
+const englishCorpus: [string, Label][] = [
+  ['I want to kill myself tonight', 'critical'],
+  ['I am planning to end my life', 'critical'],
+  ['I have pills ready to overdose', 'critical'],
+  ['This is my final message, goodbye forever', 'critical'],
+  ['I keep thinking I would be better off dead', 'critical'],
+  ['I dont want to live anymore', 'critical'],
+  ['I have been cutting myself again', 'critical'],
+  ['I feel suicidal', 'critical'],
+  ['I will jump off the bridge', 'critical'],
+  ['The rope is ready for tonight', 'critical'],
+  ['I am going to end it today', 'critical'],
+  ['I have never felt so suicidal', 'critical'],
+  ["I never thought I'd want to die but here I am", 'critical'],
+  ["It's not that I'm not suicidal", 'critical'],
+  ["I am not sure I don't want to die", 'critical'],
+  ['Nobody would miss me if I killed myself', 'critical'],
+  ['This is happening today', 'high'],
+  ['I feel hopeless and worthless', 'high'],
+  ['I cant take it anymore', 'high'],
+  ['Nobody cares about me, I am all alone', 'high'],
+  ['I am having a panic attack and cant breathe', 'high'],
+  ['I feel like I am losing my mind', 'high'],
+  ['I tried to kill myself years ago', 'high'],
+  ['I feel like a burden to everyone', 'high'],
+  ['I feel empty inside and I failed at everything', 'high'],
+  ['I feel depressed and overwhelmed', 'medium'],
+  ['I am anxious about my exams', 'medium'],
+  ['I am struggling and need help', 'medium'],
+  ['Everything is falling apart at work', 'medium'],
+  ['I brought shame on my family', 'medium'],
+  // Known gaps: implicit hopelessness without lexicon phrases, and "now" overriding a past reference
+  ["I'm so tired of everything, what's the point", 'high'],
+  ['Nothing matters anymore and I sleep all day', 'high'],
+  ['I had a panic attack last year but I am fine now', 'medium'],
+  ["I'm not suicidal, just tired", 'low'],
+  ['I would never hurt myself', 'low'],
+  ["I don't want to kill myself, I want to feel better", 'low'],
+  ['We watched a documentary about suicide prevention', 'low'],
+  ['I could die of embarrassment', 'low'],
+  ['This homework is killing me', 'low'],
+  ['I had a great day at work', 'low'],
+  ['What should I have for dinner?', 'low'],
+  ['I feel a bit sad today', 'low'],
+  ['The weather is nice today', 'low'],
+  ['I am not depressed anymore, therapy helped', 'low'],
+  ['My phone died today', 'low'],
+  ['I am dying to see the new movie', 'low'],
+  ['I finished reading a book about hope', 'low'],
+];
+
+const arabicCorpus: [string, Label][] = [
+  ['أريد أن اقتل نفسي الليلة', 'critical'],
+  ['أنوي إنهاء حياتي', 'critical'],
+  ['لدي حبوب جاهزة للانتحار', 'critical'],
+  ['هذه رسالتي الأخيرة وداعاً للأبد', 'critical'],
+  ['سأنتحر', 'critical'],
+  ['أفكر في الانتحار كل يوم', 'critical'],
+  ['ما زلت أفكر في الانتحار', 'critical'],
+  ['ما أبي أعيش', 'critical'],
+  ['أبغى أموت', 'critical'],
+  ['أؤذي نفسي عندما أغضب', 'critical'],
+  ['مستعد للموت', 'critical'],
+  ['أشعر باليأس التام والوحدة', 'high'],
+  ['أعاني من نوبة هلع شديدة', 'high'],
+  ['أشعر بأنني لا قيمة لي ولا أحد يهتم بي', 'high'],
+  ['أنا منكسر تماماً من الداخل', 'high'],
+  ['أفقد عقلي وأصبح مجنوناً', 'high'],
+  ['فكرت بالانتحار قبل سنوات', 'high'],
+  ['لا أتحمل هذه الحياة', 'high'],
+  ['فقدت الأمل في كل شيء', 'high'],
+  ['أنا مكتئب ومرهق', 'medium'],
+  ['أشعر بالقلق من الامتحانات', 'medium'],
+  ['أحتاج مساعدة', 'medium'],
+  ['أصبحت عار العائلة', 'medium'],
+  ['أشعر أن الله لا يريدني', 'medium'],
+  // Known gap: dialectal hopelessness outside the lexicon
+  ['ما في فايدة من شي', 'high'],
+  ['لن أنتحر أبداً', 'low'],
+  ['لا أفكر في الانتحار', 'low'],
+  ['أنا لست مكتئباً', 'low'],
+  ['بموت من الضحك', 'low'],
+  ['أموت فيك يا حبيبي', 'low'],
+  ['السياسة مملة', 'low'],
+  ['ياسر صديقي المفضل', 'low'],
+  ['رحت السوق اليوم', 'low'],
+  ['كيف حالك اليوم؟', 'low'],
+  ['أحب قضاء الوقت مع عائلتي', 'low'],
+  ['الطقس جميل اليوم', 'low'],
+];
+
+const URGENT: CrisisSeverity[] = ['high', 'critical'];
+
+// Precision/recall of a binary decision derived from the severity labels
+function evaluate(corpus: [string, Label][], positive: (severity: CrisisSeverity) => boolean) {
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+  for (const [message, label] of corpus) {
+    const predicted = positive(classifyMessage(message).severity);
+    const actual = positive(label);
+    if (predicted && actual) truePositives++;
+    if (predicted && !actual) falsePositives++;
+    if (!predicted && actual) falseNegatives++;
+  }
+  return {
+    precision: truePositives / (truePositives + falsePositives),
+    recall: truePositives / (truePositives + falseNegatives),
+  };
+}
+
+function exactAccuracy(corpus: [string, Label][]) {
+  const correct = corpus.filter(([message, label]) => classifyMessage(message).severity === label).length;
+  return correct / corpus.length;
+}
+
+describe('Crisis Classifier', () => {
+  describe('Normalization', () => {
+    it('should fold Arabic letter variants and strip diacritics', () => {
+      expect(normalizeArabic('أَنْتَحِرُ')).toBe('انتحر');
+      expect(normalizeArabic('إنهاء حياتي')).toBe('انهاء حياتي');
+      expect(normalizeArabic('مستشفى')).toBe('مستشفي');
+      expect(normalizeArabic('الحياة')).toBe('الحياه');
+      expect(normalizeArabic('مكتئب')).toBe('مكتيب');
+      expect(normalizeArabic('أؤذي')).toBe('اوذي');
+    });
+
+    it('should strip tatweel', () => {
+      expect(normalizeArabic('انتـــحار')).toBe('انتحار');
+    });
+
+    it('should expand informal English contractions', () => {
+      expect(normalizeText('I CANT go on')).toBe("i can't go on");
+      expect(normalizeText('I don’t know')).toBe("i don't know");
+    });
+  });
+
+  describe('Arabic morphology', () => {
+    it('should match clitic and tense variants of the same root', () => {
+      for (const message of ['انتحر', 'سأنتحر', 'الانتحار', 'بالانتحار', 'هنتحر', 'انتحاري']) {
+        expect(classifyMessage(message).severity).toBe('critical');
+      }
+    });
+
+    it('should not match the root inside unrelated words', () => {
+      expect(classifyMessage('السياسة').severity).toBe('low');
+      expect(classifyMessage('ياسر').severity).toBe('low');
+    });
+  });
+
+  describe('Negation and tense', () => {
+    it('should drop negated signals', () => {
+      const result = classifyMessage("I'm not suicidal");
+      expect(result.severity).toBe('low');
+      expect(result.signals[0].negated).toBe(true);
+    });
+
+    it('should keep signals outside the negated clause', () => {
+      expect(classifyMessage("I'm not okay, I want to kill myself").severity).toBe('critical');
+    });
+
+    it('should not treat negations inside another phrase as negating the next one', () => {
+      expect(classifyMessage('لا قيمة لي ولا أحد يهتم بي').indicators).toEqual(['لا قيمة لي', 'لا أحد يهتم']);
+    });
+
+    it('should read "ما زلت" as "still" rather than a negation', () => {
+      expect(classifyMessage('ما زلت أفكر في الانتحار').severity).toBe('critical');
+    });
+
+    it('should only let a negator negate the signal it directly scopes', () => {
+      expect(classifyMessage("I don't want to kill myself").severity).toBe('low');
+      expect(classifyMessage('I never thought of hurting myself').severity).toBe('low');
+      expect(classifyMessage("I never thought I'd want to die but here I am").severity).toBe('critical');
+    });
+
+    it('should read intensifiers and double negation as affirming', () => {
+      expect(classifyMessage('I have never felt so suicidal').signals[0].negated).toBe(false);
+      expect(classifyMessage("It's not that I'm not suicidal").severity).toBe('critical');
+      expect(classifyMessage("I am not sure I don't want to die").severity).toBe('critical');
+    });
+
+    it('should match every tense of a self-harm verb', () => {
+      for (const message of [
+        'Nobody would miss me if I killed myself',
+        'I cut myself again last night',
+        'I wanted to die all week',
+        'I overdosed on my pills',
+      ]) {
+        expect(classifyMessage(message).severity).toBe('critical');
+      }
+    });
+
+    it('should downgrade signals placed in the remote past', () => {
+      const result = classifyMessage('I tried to kill myself years ago');
+      expect(result.severity).toBe('high');
+      expect(result.indicators).toContain('kill myself (past)');
+    });
+
+    it('should keep past references current when the present is mentioned', () => {
+      expect(classifyMessage('I used to be happy, now I want to die').severity).toBe('critical');
+      expect(classifyMessage('I used to be happy now I want to die').severity).toBe('critical');
+    });
+  });
+
+  describe('Message scoring', () => {
+    it('should raise several medium signals to high', () => {
+      expect(classifyMessage('I feel depressed and anxious and overwhelmed and scared').severity).toBe('high');
+    });
+
+    it('should escalate high distress with a method reference to critical', () => {
+      const result = classifyMessage('I feel hopeless and I have the pills');
+      expect(result.severity).toBe('critical');
+      expect(result.indicators).toContain('Method reference');
+    });
+
+    it('should report cultural distress labels', () => {
+      expect(classifyMessage('فضيحة الأسرة كلها بسببي').indicators).toContain('Religious/Cultural Distress');
+    });
+  });
+
+  describe('Conversation accumulation', () => {
+    it('should keep risk elevated right after a critical disclosure', () => {
+      const result = classifyConversation('whatever', ['I want to kill myself']);
+      expect(result.messageSeverity).toBe('low');
+      expect(result.severity).toBe('high');
+      expect(result.indicators).toContain('Sustained distress across conversation');
+    });
+
+    it('should escalate sustained medium distress', () => {
+      const history = ['I feel depressed', 'I am so overwhelmed', 'I feel anxious all the time', 'I need help'];
+      const result = classifyConversation('I am struggling', history);
+      expect(result.messageSeverity).toBe('medium');
+      expect(result.severity).toBe('high');
+    });
+
+    it('should never reach critical from history alone', () => {
+      const history = Array(10).fill('I want to kill myself');
+      expect(classifyConversation('thanks for listening', history).severity).toBe('high');
+    });
+
+    it('should let old messages decay out of the window', () => {
+      const history = ['I want to kill myself', ...Array(10).fill('I had a normal day')];
+      expect(classifyConversation('How are you?', history).severity).toBe('low');
+    });
+  });
+
+  describe('Regression corpus', () => {
+    it.each([
+      ['English', englishCorpus],
+      ['Arabic', arabicCorpus],
+    ] as const)('%s: never misses a critical message', (_language, corpus) => {
+      const { recall } = evaluate(corpus, severity => severity === 'critical');
+      expect(recall).toBe(1);
+    });
+
+    // Current numbers: English 25/27 urgent recalled, 45/47 exact; Arabic 19/20 and 35/36.
+    // Raise these when the known gaps above are fixed; never lower them.
+    it('English: locks in precision/recall for urgent (high or critical) messages', () => {
+      const { precision, recall } = evaluate(englishCorpus, severity => URGENT.includes(severity));
+      expect(precision).toBeGreaterThanOrEqual(1);
+      expect(recall).toBeGreaterThanOrEqual(0.9);
+      expect(exactAccuracy(englishCorpus)).toBeGreaterThanOrEqual(0.95);
+    });
+
+    it('Arabic: locks in precision/recall for urgent (high or critical) messages', () => {
+      const { precision, recall } = evaluate(arabicCorpus, severity => URGENT.includes(severity));
+      expect(precision).toBeGreaterThanOrEqual(1);
+      expect(recall).toBeGreaterThanOrEqual(0.95);
+      expect(exactAccuracy(arabicCorpus)).toBeGreaterThanOrEqual(0.97);
+    });
+
+    it.each([
+      ['English', englishCorpus],
+      ['Arabic', arabicCorpus],
+    ] as const)('%s: flags no benign message as urgent', (_language, corpus) => {
+      const falseAlarms = corpus
+        .filter(([message, label]) => label === 'low' && URGENT.includes(classifyMessage(message).severity))
+        .map(([message]) => message);
+      expect(falseAlarms).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,478 @@
+// Multi-stage crisis classifier used by ai.detectCrisis.
+//
+// 1. Normalization: Unicode/Arabic folding (alef, ya, ta-marbuta, hamza
+//    carriers), diacritic and tatweel stripping, informal English contractions.
+// 2. Clause-level lexicon matching with word boundaries and Arabic clitics,
+//    so "الانتحار", "سأنتحر" and "انتحر" all hit the same entry.
+// 3. Negation scoped to the word it governs ("I'm not suicidal", "لن أنتحر",
+//    but not "never felt so suicidal" or "not that I'm not") and remote-past
+//    ("years ago", "زمان") handling per clause.
+// 4. Message scoring with contextual escalation (method references).
+// 5. Conversation-level accumulation over the user's last N messages, so
+//    sustained distress is not reset by a single calmer message.
+//
+// Everything here is pure and synchronous; the regression corpus in
+// crisisClassifier.test.ts locks in its precision and recall.
+
+export type CrisisSeverity = "low" | "medium" | "high" | "critical";
+
+type SignalSeverity = Exclude<CrisisSeverity, "low">;
+
+export interface CrisisSignal {
+  indicator: string;
+  severity: SignalSeverity;
+  // Dropped: the clause negates it ("I would never hurt myself")
+  negated: boolean;
+  // Downgraded one level: the clause places it in the remote past
+  past: boolean;
+}
+
+export interface MessageClassification {
+  severity: CrisisSeverity;
+  score: number;
+  indicators: string[];
+  signals: CrisisSignal[];
+}
+
+export interface ConversationClassification extends MessageClassification {
+  // Severity of the current message on its own
+  messageSeverity: CrisisSeverity;
+  // Current message score plus the decayed scores of earlier messages
+  conversationScore: number;
+}
+
+// How many earlier user messages contribute to conversation-level risk
+export const CONVERSATION_WINDOW = 10;
+// Weight of a message one step back; older messages decay geometrically
+export const CONVERSATION_DECAY = 0.75;
+
+const SEVERITY_SCORES: Record<SignalSeverity, number> = {
+  critical: 100,
+  high: 50,
+  medium: 10,
+};
+
+const SEVERITY_ORDER: CrisisSeverity[] = ["low", "medium", "high", "critical"];
+
+// Several concerning statements together count as high
+const HIGH_SCORE_THRESHOLD = 30;
+
+const maxSeverity = (a: CrisisSeverity, b: CrisisSeverity): CrisisSeverity =>
+  SEVERITY_ORDER.indexOf(a) >= SEVERITY_ORDER.indexOf(b) ? a : b;
+
+const downgrade = (severity: SignalSeverity): CrisisSeverity =>
+  SEVERITY_ORDER[SEVERITY_ORDER.indexOf(severity) - 1];
+
+// ---------------------------------------------------------------------------
+// Stage 1: normalization
+// ---------------------------------------------------------------------------
+
+const ARABIC_DIACRITICS = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED]/g;
+const TATWEEL = /\u0640/g;
+
+// Fold the spelling variants Arabic users mix freely so one pattern covers them
+export function normalizeArabic(text: string): string {
+  return text
+    .replace(ARABIC_DIACRITICS, "")
+    .replace(TATWEEL, "")
+    .replace(/[أإآٱ]/g, "ا")
+    .replace(/ى/g, "ي")
+    .replace(/ة/g, "ه")
+    .replace(/ؤ/g, "و")
+    .replace(/ئ/g, "ي");
+}
+
+const INFORMAL_CONTRACTIONS: [RegExp, string][] = [
+  [/\bcant\b/g, "can't"],
+  [/\bdont\b/g, "don't"],
+  [/\bwont\b/g, "won't"],
+  [/\bdoesnt\b/g, "doesn't"],
+  [/\bdidnt\b/g, "didn't"],
+  [/\bisnt\b/g, "isn't"],
+  [/\bwouldnt\b/g, "wouldn't"],
+  [/\bim\b/g, "i'm"],
+  [/\bive\b/g, "i've"],
+  [/\bcannot\b/g, "can't"],
+];
+
+export function normalizeText(text: string): string {
+  let normalized = normalizeArabic(text.normalize("NFKC").toLowerCase())
+    .replace(/[’‘`´]/g, "'");
+  for (const [pattern, replacement] of INFORMAL_CONTRACTIONS) {
+    normalized = normalized.replace(pattern, replacement);
+  }
+  return normalized.replace(/\s+/g, " ").trim();
+}
+
+// ---------------------------------------------------------------------------
+// Stage 2: lexicon (patterns are written against normalized text)
+// ---------------------------------------------------------------------------
+
+interface LexiconEntry {
+  indicator: string;
+  severity: SignalSeverity;
+  pattern: RegExp;
+  // Idiomatic or informational uses that carry no risk ("die of laughter")
+  unless?: RegExp;
+  // Extra labels reported alongside the indicator
+  tags?: string[];
+}
+
+const en = (source: string) => new RegExp(`\\b(?:${source})\\b`, "gu");
+
+// Optional conjunction, preposition, article and verb-prefix clitics
+const AR_PROCLITICS = "(?:[وف]?(?:بال|لل|كال|ال|[بلكسحه])?)";
+const ar = (source: string, { wholeWord = false } = {}) =>
+  new RegExp(`(?<![\\p{L}])${AR_PROCLITICS}(?:${source})${wholeWord ? "(?![\\p{L}])" : ""}`, "gu");
+
+const CULTURAL = "Religious/Cultural Distress";
+const FAMILY_HONOR = "Family/Honor Related Distress";
+
+const LEXICON: LexiconEntry[] = [
+  // English - critical
+  { indicator: "kill myself", severity: "critical", pattern: en("kill(?:ed|ing|s)? myself") },
+  { indicator: "end my life", severity: "critical", pattern: en("(?:end(?:ed|ing|s)?|take[ns]?|taking|took) my (?:own )?life") },
+  {
+    indicator: "suicide",
+    severity: "critical",
+    pattern: en("suicid(?:e|al)"),
+    unless: /\bsuicide (?:prevention|awareness|hotline|helpline|squad)\b|\b(?:movie|film|book|article|documentary|show|series|song|podcast|lecture|class|essay|news)\b.{0,40}\bsuicid/u,
+  },
+  {
+    indicator: "want to die",
+    severity: "critical",
+    pattern: en("(?:want(?:ed|s)?|wanna|ready|planning) (?:to )?die|wish i (?:was|were) dead|better off dead"),
+    unless: /\bdie (?:of|from) (?:embarrassment|laughter|laughing|boredom|cringe)\b/u,
+  },
+  {
+    indicator: "don't want to live",
+    severity: "critical",
+    pattern: en("(?:don't|do not|never) want to (?:live|be alive|exist|wake up)|no reason to live|not worth living|end it all"),
+  },
+  { indicator: "harm myself", severity: "critical", pattern: en("(?:hurt|harm|cut)(?:ting|ing|ed|s)? myself|self[ -]?harm(?:ed|ing)?") },
+  { indicator: "overdose", severity: "critical", pattern: en("overdos(?:e[ds]?|ing)") },
+  {
+    indicator: "final goodbye",
+    severity: "critical",
+    pattern: en("goodbye forever|final message|last words|won't be (?:here|around) (?:tomorrow|much longer|anymore)"),
+  },
+  {
+    indicator: "suicide method",
+    severity: "critical",
+    pattern: en("(?:hang(?:ed|ing|s)?|hung) myself|jump(?:ed|ing|s)? (?:off|from) (?:the |a )?(?:bridge|building|roof|cliff)|gun to my head|rope around my neck|slit my wrists?|pills to end it"),
+  },
+  {
+    indicator: "means at hand",
+    severity: "critical",
+    pattern: en("(?:pills|rope|razor|blades?|knife|gun)\\b[^.]{0,30}\\b(?:ready|in my hand|sharp enough|loaded)"),
+  },
+  {
+    indicator: "imminent plan",
+    severity: "critical",
+    pattern: en(
+      "(?:planning|plan|ready|decided) to do it" +
+      "|(?:end (?:this|it)|be gone)\\b.{0,20}\\b(?:tonight|today|right now|soon|tomorrow)" +
+      "|(?:tonight|today|right now|very soon|tomorrow)\\b.{0,20}\\b(?:i will|i'll|i'm going to|i am going to) (?:end (?:this|it)|be gone)"
+    ),
+  },
+  {
+    // Only a timing, so one step below a stated plan
+    indicator: "imminent timing",
+    severity: "high",
+    pattern: en("(?:this|it)(?: is|'s| will be) (?:happening|going to happen|gonna happen) (?:tonight|today|right now|tomorrow)"),
+  },
+
+  // English - high
+  { indicator: "hopeless", severity: "high", pattern: en("hopeless(?:ness)?|no (?:point|hope) (?:in )?(?:living|anything|anymore)|lost all hope") },
+  { indicator: "worthless", severity: "high", pattern: en("worthless|waste of space|burden to (?:everyone|my family|others)") },
+  { indicator: "give up", severity: "high", pattern: en("(?:want to|going to|ready to) give up|giving up on (?:life|everything)") },
+  { indicator: "can't go on", severity: "high", pattern: en("can't go on|can't take (?:it|this)|can't bear (?:it|this)|unbearable") },
+  {
+    indicator: "nobody cares",
+    severity: "high",
+    pattern: en("(?:nobody|no one) (?:cares|understands|loves me|would (?:care|notice|miss me))|(?:all|completely) alone|everyone (?:left|hates) me|family hates me"),
+  },
+  { indicator: "panic attack", severity: "high", pattern: en("panic attacks?|can't breathe") },
+  {
+    indicator: "losing my mind",
+    severity: "high",
+    pattern: en("losing my mind|going (?:crazy|insane)|mental breakdown|hearing voices|seeing things"),
+  },
+  {
+    indicator: "broken inside",
+    severity: "high",
+    pattern: en("(?:broken|destroyed|empty|dead) inside|failed at everything|nothing left"),
+  },
+
+  // English - medium
+  { indicator: "depressed", severity: "medium", pattern: en("depress(?:ed|ion|ing)") },
+  { indicator: "anxiety", severity: "medium", pattern: en("anxious|anxiety|panick(?:ing|ed)|scared|terrified") },
+  { indicator: "overwhelmed", severity: "medium", pattern: en("overwhelmed|burn(?:ed|t|ing) out|exhausted all the time|no energy") },
+  {
+    indicator: "can't cope",
+    severity: "medium",
+    pattern: en("can't cope|breaking down|falling apart|losing control|desperate|numb|don't know what to do"),
+  },
+  { indicator: "need help", severity: "medium", pattern: en("need (?:help|support)|struggling") },
+  { indicator: "sleepless", severity: "medium", pattern: en("sleepless|can't sleep") },
+  {
+    indicator: CULTURAL,
+    severity: "medium",
+    pattern: en("god hates me|cursed|being punished|sinful|shame(?:ful)?|disgrace|dishonou?r(?:ed)?|condemned"),
+  },
+  {
+    indicator: FAMILY_HONOR,
+    severity: "medium",
+    pattern: en("family shame|(?:disappointed|dishonou?red|embarrassed) (?:my )?family|failed my parents|let (?:my )?family down"),
+    tags: [CULTURAL],
+  },
+
+  // Arabic - critical
+  { indicator: "انتحار", severity: "critical", pattern: ar("ا?نتح(?:ا)?ر") },
+  { indicator: "أقتل نفسي", severity: "critical", pattern: ar("[اني]?قتل (?:نفسي|روحي)") },
+  { indicator: "أنهي حياتي", severity: "critical", pattern: ar("ا?نه(?:ي|اء) (?:حياتي|عمري)") },
+  {
+    indicator: "أريد الموت",
+    severity: "critical",
+    pattern: ar("(?:اريد|ابي|ابغي|ابغا|بدي|نفسي|ودي|اتمني) (?:ان )?(?:اموت|الموت)|(?:مستعد|جاهز) للموت"),
+    unless: /اموت (?:من (?:الضحك|الجوع|البرد|الملل|الحر)|في[كه]|عليه)/u,
+  },
+  {
+    indicator: "لا أريد العيش",
+    severity: "critical",
+    pattern: ar("(?:لا|ما) ?(?:اريد|ابي|ابغي|بدي) (?:ان )?(?:اعيش|العيش|الحياه)|الحياه لا تستحق|لا فايده من (?:الحياه|العيش)"),
+  },
+  { indicator: "أؤذي نفسي", severity: "critical", pattern: ar("(?:ا?وذي|اذي|ايذاء|ا?جرح|اقطع) (?:نفسي|حالي|النفس)") },
+  {
+    indicator: "وداع أخير",
+    severity: "critical",
+    pattern: ar("وداعا للابد|رسالتي الاخيره|رساله اخيره|كلماتي الاخيره|لن اكون (?:هنا|موجود)"),
+  },
+  {
+    indicator: "وسيلة انتحار",
+    severity: "critical",
+    pattern: ar("[اني]?شنق (?:نفسي|حالي)|[اني]?قفز من (?:الجسر|السطح|المبني|فوق)|جرعه زايده"),
+  },
+  {
+    indicator: "وسيلة جاهزة",
+    severity: "critical",
+    pattern: ar("(?:حبوب|حبل|شفره|سكين|مسدس)[^.،]{0,30}(?:جاهز|في يدي|بيدي)"),
+  },
+  {
+    indicator: "خطة وشيكة",
+    severity: "critical",
+    pattern: ar("(?:افعلها|اعملها|اسويها) (?:الليله|اليوم|الان|بكره|غدا)"),
+  },
+
+  // Arabic - high
+  { indicator: "يأس", severity: "high", pattern: ar("يا(?:ي)?س(?:ه|ين|ون)?", { wholeWord: true }) },
+  { indicator: "لا أمل", severity: "high", pattern: ar("لا امل|فقدت الامل") },
+  { indicator: "لا قيمة لي", severity: "high", pattern: ar("لا قيمه لي|بلا قيمه|عديم القيمه|عب[ءي] علي") },
+  {
+    indicator: "لا أحد يهتم",
+    severity: "high",
+    pattern: ar("(?:لا احد|محد) (?:يهتم|يحبني|يفهمني|يسال)|وحيد تماما|الجميع تركني|هجرني الجميع|عايلتي تكرهني"),
+  },
+  { indicator: "لا أتحمل", severity: "high", pattern: ar("(?:لا|ما) (?:اتحمل|اطيق|اقدر اتحمل)|تعبت من (?:الحياه|كل شي)") },
+  { indicator: "نوبة هلع", severity: "high", pattern: ar("نوب(?:ه|ات) (?:هلع|ذعر)|(?:لا استطيع|ما اقدر) ا?لتنفس|ما اقدر اتنفس") },
+  {
+    indicator: "أفقد عقلي",
+    severity: "high",
+    pattern: ar("ا?فقد(?:ت)? عقلي|(?:اصبح|صرت|بصير) مجنون|انهيار عصبي|اسمع اصوات"),
+  },
+  {
+    indicator: "منكسر من الداخل",
+    severity: "high",
+    pattern: ar("منكسر|محطم|مدمر من الداخل|فارغ من الداخل|فشلت في كل شي"),
+  },
+
+  // Arabic - medium
+  { indicator: "اكتئاب", severity: "medium", pattern: ar("مكتيب|اكتياب") },
+  { indicator: "قلق", severity: "medium", pattern: ar("قلق(?:ان)?|خايف|متوتر", { wholeWord: true }) },
+  { indicator: "مرهق", severity: "medium", pattern: ar("مرهق|منهك|مضغوط|تحت ضغط|ضغط كبير") },
+  {
+    indicator: "لا أستطيع التأقلم",
+    severity: "medium",
+    pattern: ar("(?:لا استطيع|ما اقدر) التاقلم|ا?فقد السيطره|منهار|لا اعرف ماذا افعل|ما ادري وش اسوي"),
+  },
+  { indicator: "أحتاج مساعدة", severity: "medium", pattern: ar("احتاج (?:مساعده|دعم)") },
+  { indicator: "أرق", severity: "medium", pattern: ar("ليالي بلا نوم|ما اقدر انام|لا استطيع النوم") },
+  {
+    indicator: CULTURAL,
+    severity: "medium",
+    pattern: ar("الله (?:لا يريدني|يكرهني)|ملعون|لعنه|معاقب|مذنب|عار(?![\\p{L}])|فضيحه"),
+  },
+  {
+    indicator: FAMILY_HONOR,
+    severity: "medium",
+    pattern: ar("(?:عار|فضيحه|سمعه|شرف) (?:العايله|الاسره|اهلي|عايلتي)|خجل الاهل|خذلت اهلي|اهانت عايلتي"),
+    tags: [CULTURAL],
+  },
+];
+
+// ---------------------------------------------------------------------------
+// Stage 3: negation and tense
+// ---------------------------------------------------------------------------
+
+// Clauses are scoped at punctuation and at contrastive conjunctions
+const CLAUSE_BOUNDARY = /[.!?؟،,;؛\n]+|\s(?:but|however|although|though|لكن|ولكن)\s/u;
+
+const NEGATORS = new Set([
+  "not", "never", "don't", "doesn't", "didn't", "won't", "wouldn't", "isn't", "aren't", "wasn't", "ain't", "nor",
+  "لا", "لن", "لم", "ما", "مش", "مو", "مب", "ليس", "لست", "لسنا", "ماني", "مانيش",
+]);
+// "ما زلت" means "still", not "not"
+const STILL_AFTER_MA = new Set(["زلت", "زال", "زالت", "زلنا"]);
+// Auxiliaries and light verbs a negator reaches across ("don't want to die",
+// "never thought of killing myself"); any other word ends its scope
+const SCOPE_TRANSPARENT = new Set([
+  "really", "even", "ever", "actually", "would", "will", "could", "want", "to", "going", "gonna",
+  "be", "been", "feel", "feeling", "felt", "think", "thinking", "thought", "of", "about", "try", "trying",
+  "اريد", "ابي", "ان", "افكر", "في", "ابدا", "اصلا",
+]);
+// Degree words turn the negator into emphasis ("never felt so suicidal")
+const INTENSIFIERS = new Set(["so", "this", "more", "such", "as", "كذا", "بهذا", "هكذا"]);
+// Words that let an earlier negator negate a negated complement ("it's not
+// that i'm not", "not sure i don't")
+const DOUBLE_NEGATION_LINKS = new Set(["that", "sure", "like", "saying", "mean", "انه", "اني", "متاكد"]);
+// How many transparent words a negator can reach across
+const NEGATION_WINDOW = 3;
+
+const REMOTE_PAST = new RegExp(
+  "\\b(?:used to|years ago|months ago|long time ago|last year|in the past|back then|as a (?:teen|teenager|kid|child)" +
+  "|when i was (?:younger|a (?:teen|teenager|kid|child)|in (?:school|high school|college)))\\b" +
+  "|(?<![\\p{L}])(?:زمان|سابقا|في الماضي|قبل (?:سنه|سنوات|سنين|شهور|اشهر)|في صغري|(?:لما|عندما) كنت صغير|ايام المراهقه)",
+  "u"
+);
+// Present-time markers keep a signal current even next to a past reference
+const PRESENT = /\b(?:now|these days|lately|again|still)\b|(?<![\p{L}])(?:الان|هالايام|هذه الايام|مره ثانيه|من جديد|ما زلت|مازلت|لا زلت)/u;
+
+interface ClauseMatch {
+  entry: LexiconEntry;
+  index: number;
+  length: number;
+}
+
+const isNegator = (words: string[], i: number): boolean =>
+  NEGATORS.has(words[i]) && !(words[i] === "ما" && STILL_AFTER_MA.has(words[i + 1] ?? ""));
+
+function isNegated(clause: string, match: ClauseMatch, matches: ClauseMatch[]): boolean {
+  // Negators that belong to another matched phrase ("لا قيمة لي ولا أحد يهتم") don't count
+  let prefix = clause.slice(0, match.index);
+  for (const other of matches) {
+    if (other !== match && other.index < match.index) {
+      const end = Math.min(other.index + other.length, prefix.length);
+      prefix = prefix.slice(0, other.index) + " ".repeat(Math.max(end - other.index, 0)) + prefix.slice(end);
+    }
+  }
+
+  // Walk back from the signal to the negator that directly scopes it
+  const words = prefix.match(/[\p{L}\p{N}']+/gu) ?? [];
+  let negator = words.length - 1;
+  for (let crossed = 0; negator >= 0 && !isNegator(words, negator); crossed++, negator--) {
+    if (crossed === NEGATION_WINDOW || INTENSIFIERS.has(words[negator]) || !SCOPE_TRANSPARENT.has(words[negator])) {
+      return false;
+    }
+  }
+  if (negator < 0) return false;
+
+  // A negator over the negated complement cancels it
+  for (let i = negator - 1; i >= Math.max(negator - NEGATION_WINDOW - 1, 0); i--) {
+    if (isNegator(words, i)) return !words.slice(i + 1, negator).some(word => DOUBLE_NEGATION_LINKS.has(word));
+  }
+  return true;
+}
+
+function classifyClause(clause: string): CrisisSignal[] {
+  const matches: ClauseMatch[] = [];
+  for (const entry of LEXICON) {
+    if (entry.unless?.test(clause)) continue;
+    for (const found of clause.matchAll(entry.pattern)) {
+      matches.push({ entry, index: found.index ?? 0, length: found[0].length });
+    }
+  }
+
+  const past = REMOTE_PAST.test(clause) && !PRESENT.test(clause);
+  return matches.map(match => ({
+    indicator: match.entry.indicator,
+    severity: match.entry.severity,
+    negated: isNegated(clause, match, matches),
+    past,
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// Stage 4: message scoring
+// ---------------------------------------------------------------------------
+
+const METHOD_REFERENCE = /\b(?:pills|rope|blades?|razor|gun|knife|bridge|noose)\b|(?<![\p{L}])[وفب]?(?:ال)?(?:حبوب|حبل|شفره|مسدس|سكين|جسر|سم)(?![\p{L}])/u;
+
+export function classifyMessage(message: string): MessageClassification {
+  const normalized = normalizeText(message);
+  const signals = normalized
+    .split(CLAUSE_BOUNDARY)
+    .filter(clause => clause.trim().length > 0)
+    .flatMap(clause => classifyClause(clause.trim()));
+
+  let severity: CrisisSeverity = "low";
+  let score = 0;
+  const indicators = new Set<string>();
+
+  for (const signal of signals) {
+    if (signal.negated) continue;
+    const effective = signal.past ? downgrade(signal.severity) : signal.severity;
+    if (effective === "low") continue;
+
+    severity = maxSeverity(severity, effective);
+    score += SEVERITY_SCORES[effective];
+    indicators.add(signal.past ? `${signal.indicator} (past)` : signal.indicator);
+    const entry = LEXICON.find(item => item.indicator === signal.indicator && item.severity === signal.severity);
+    entry?.tags?.forEach(tag => indicators.add(tag));
+  }
+
+  if (severity === "medium" && score >= HIGH_SCORE_THRESHOLD) {
+    severity = "high";
+  }
+  // Severe distress plus a concrete means is treated as imminent risk
+  if (severity === "high" && METHOD_REFERENCE.test(normalized)) {
+    severity = "critical";
+    indicators.add("Method reference");
+  }
+
+  return { severity, score, indicators: [...indicators], signals };
+}
+
+// ---------------------------------------------------------------------------
+// Stage 5: conversation-level accumulation
+// ---------------------------------------------------------------------------
+
+// `history` holds the user's earlier messages in this conversation, oldest first
+export function classifyConversation(message: string, history: string[] = []): ConversationClassification {
+  const current = classifyMessage(message);
+  const recent = history.slice(-CONVERSATION_WINDOW);
+
+  let conversationScore = current.score;
+  recent.forEach((earlier, index) => {
+    const stepsBack = recent.length - index;
+    conversationScore += classifyMessage(earlier).score * Math.pow(CONVERSATION_DECAY, stepsBack);
+  });
+
+  // Accumulated risk can raise the level to high; critical always needs the
+  // current message itself to be critical
+  const accumulated: CrisisSeverity =
+    conversationScore >= HIGH_SCORE_THRESHOLD ? "high" :
+    conversationScore >= SEVERITY_SCORES.medium ? "medium" : "low";
+  const severity = maxSeverity(current.severity, accumulated);
+
+  const indicators = severity !== current.severity
+    ? [...current.indicators, "Sustained distress across conversation"]
+    : current.indicators;
+
+  return {
+    ...current,
+    severity,
+    indicators,
+    messageSeverity: current.severity,
+    conversationScore,
+  };
+}
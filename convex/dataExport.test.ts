@@ -0,0 +1,119 @@
+/**
+ * Unit Tests for the user data export
+ * Tests archive assembly, CSV formatting and the files produced for one export
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildExportArchive,
+  buildExportFiles,
+  EXPORT_FORMAT_VERSION,
+  exercisesToCsv,
+  moodsToCsv,
+  toCsv,
+  UserDataExport,
+} from './dataExport';
+
+const exportedAt = Date.UTC(2025, 2, 1, 9, 30);
+
+const data = {
+  user: { _id: 'user1', clerkId: 'clerk_1', name: 'Omar', language: 'ar' },
+  conversations: [
+    { _id: 'conv1', userId: 'user1', title: 'First chat', isActive: false, messageCount: 2 },
+    { _id: 'conv2', userId: 'user1', title: 'Second chat', isActive: true, messageCount: 1 },
+  ],
+  moods: [
+    { _id: 'mood2', userId: 'user1', rating: 4, timestamp: Date.UTC(2025, 1, 2), emoji: '🙂', factors: ['sleep', 'work'] },
+    { _id: 'mood1', userId: 'user1', rating: 2, timestamp: Date.UTC(2025, 1, 1), note: 'Tired, "long" day' },
+  ],
+  moodFactors: [],
+  exercises: [
+    {
+      _id: 'ex1',
+      userId: 'user1',
+      type: 'breathing',
+      completedAt: Date.UTC(2025, 1, 3),
+      duration: 300,
+      data: { effectiveness: 4, outputs: { moodBefore: 2, moodAfter: 4, completionNotes: 'Calmer' } },
+    },
+  ],
+  journalEntries: [],
+  journalReflections: [],
+  streaks: [],
+  streakHistory: [],
+  assessments: [],
+  userSummaries: [],
+  conversationSummaries: [],
+  emergencyContacts: [{ _id: 'c1', userId: 'user1', name: 'Sara', phone: '+966500000000', relationship: 'Sister', isPrimary: true }],
+  crisisEvents: [],
+  shareGrants: [],
+  shareAccessLog: [],
+} as unknown as UserDataExport;
+
+const messages = [
+  { _id: 'm2', conversationId: 'conv1', userId: 'user1', role: 'assistant', content: 'How are you?', timestamp: 2 },
+  { _id: 'm1', conversationId: 'conv1', userId: 'user1', role: 'user', content: 'Hello', timestamp: 1 },
+  { _id: 'm3', conversationId: 'conv2', userId: 'user1', role: 'user', content: 'Back again', timestamp: 3 },
+] as any[];
+
+describe('Data Export', () => {
+  describe('buildExportArchive', () => {
+    it('should stamp the format version and export time', () => {
+      const archive = buildExportArchive(data, messages, exportedAt);
+
+      expect(archive.formatVersion).toBe(EXPORT_FORMAT_VERSION);
+      expect(archive.exportedAt).toBe('2025-03-01T09:30:00.000Z');
+      expect(archive.user.name).toBe('Omar');
+      expect(archive.emergencyContacts).toHaveLength(1);
+    });
+
+    it('should nest messages in order under their conversation', () => {
+      const archive = buildExportArchive(data, messages, exportedAt);
+
+      expect(archive.conversations[0].messages.map(m => m.content)).toEqual(['Hello', 'How are you?']);
+      expect(archive.conversations[1].messages.map(m => m.content)).toEqual(['Back again']);
+    });
+  });
+
+  describe('CSV', () => {
+    it('should quote cells containing commas, quotes or line breaks', () => {
+      expect(toCsv(['a', 'b'], [['plain', 'with, comma'], ['say "hi"', 'two\nlines']]))
+        .toBe('a,b\r\nplain,"with, comma"\r\n"say ""hi""","two\nlines"\r\n');
+    });
+
+    it('should neutralise spreadsheet formulas but keep numbers', () => {
+      expect(toCsv(['note', 'value'], [['=HYPERLINK("x")', -3]]))
+        .toBe('note,value\r\n"\'=HYPERLINK(""x"")",-3\r\n');
+    });
+
+    it('should list moods oldest first with readable columns', () => {
+      const csv = moodsToCsv(data.moods);
+
+      expect(csv.split('\r\n')).toEqual([
+        'date,rating,emoji,factors,note',
+        '2025-02-01T00:00:00.000Z,2,,,"Tired, ""long"" day"',
+        '2025-02-02T00:00:00.000Z,4,🙂,sleep; work,',
+        '',
+      ]);
+    });
+
+    it('should flatten exercise outcomes', () => {
+      const csv = exercisesToCsv(data.exercises);
+
+      expect(csv.split('\r\n')[1]).toBe('2025-02-03T00:00:00.000Z,breathing,300,4,2,4,Calmer');
+    });
+  });
+
+  describe('buildExportFiles', () => {
+    it('should produce a JSON archive and two CSV files named by date', () => {
+      const files = buildExportFiles(buildExportArchive(data, messages, exportedAt));
+
+      expect(files.map(f => [f.name, f.contentType])).toEqual([
+        ['nafsy-export-2025-03-01.json', 'application/json'],
+        ['nafsy-moods-2025-03-01.csv', 'text/csv'],
+        ['nafsy-exercises-2025-03-01.csv', 'text/csv'],
+      ]);
+      expect(JSON.parse(files[0].content).formatVersion).toBe(EXPORT_FORMAT_VERSION);
+    });
+  });
+});
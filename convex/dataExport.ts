@@ -0,0 +1,398 @@
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { action, internalMutation, internalQuery, query } from "./_generated/server";
+
+// Full data export (GDPR / Saudi PDPL right of access).
+//
+// exportUserData gathers every row Nafsy stores about a user into a versioned
+// JSON archive, plus CSV files for moods and exercises that open in any
+// spreadsheet app. The files are written to Convex file storage and listed by
+// getLatestDataExport with download URLs. Only the latest export is
+// kept; requesting a new one deletes the previous files.
+
+// Bump when the archive layout changes so importers can tell versions apart
+export const EXPORT_FORMAT_VERSION = 1;
+
+// Messages are read page by page so long histories stay within query limits
+const MESSAGE_PAGE_SIZE = 500;
+
+type MessageExport = Omit<Doc<"messages">, "embedding" | "searchText" | "quickReplies">;
+type MoodExport = Omit<Doc<"moods">, "searchText">;
+type SummaryExport = Omit<Doc<"conversationSummaries">, "embedding">;
+type JournalEntryExport = Omit<Doc<"journalEntries">, "searchText">;
+
+export interface UserDataExport {
+  user: Doc<"users">;
+  conversations: Doc<"conversations">[];
+  moods: MoodExport[];
+  moodFactors: Doc<"moodFactors">[];
+  exercises: Doc<"exercises">[];
+  journalEntries: JournalEntryExport[];
+  journalReflections: Doc<"journalReflections">[];
+  streaks: Doc<"streaks">[];
+  streakHistory: Doc<"streakHistory">[];
+  assessments: Doc<"assessments">[];
+  userSummaries: Doc<"userSummaries">[];
+  conversationSummaries: SummaryExport[];
+  emergencyContacts: Doc<"emergencyContacts">[];
+  crisisEvents: Doc<"crisisEvents">[];
+  shareGrants: Omit<Doc<"shareGrants">, "tokenHash">[];
+  shareAccessLog: Doc<"shareAccessLog">[];
+}
+
+export interface ExportArchive extends Omit<UserDataExport, "conversations"> {
+  formatVersion: number;
+  exportedAt: string;
+  conversations: (Doc<"conversations"> & { messages: MessageExport[] })[];
+}
+
+export interface ExportFile {
+  name: string;
+  contentType: string;
+  content: string;
+}
+
+// Nest messages under their conversation and stamp the format version
+export function buildExportArchive(
+  data: UserDataExport,
+  messages: MessageExport[],
+  exportedAt: number
+): ExportArchive {
+  const byConversation = new Map<string, MessageExport[]>();
+  for (const message of messages) {
+    const list = byConversation.get(message.conversationId) ?? [];
+    list.push(message);
+    byConversation.set(message.conversationId, list);
+  }
+
+  return {
+    formatVersion: EXPORT_FORMAT_VERSION,
+    exportedAt: new Date(exportedAt).toISOString(),
+    ...data,
+    conversations: data.conversations.map(conversation => ({
+      ...conversation,
+      messages: (byConversation.get(conversation._id) ?? []).sort((a, b) => a.timestamp - b.timestamp),
+    })),
+  };
+}
+
+// Quote a CSV cell, and defuse values a spreadsheet would run as a formula
+function csvCell(value: string | number | undefined | null): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "number") return String(value);
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(header: string[], rows: (string | number | undefined | null)[][]): string {
+  return [header, ...rows].map(row => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+export function moodsToCsv(moods: MoodExport[]): string {
+  return toCsv(
+    ["date", "rating", "emoji", "factors", "note"],
+    [...moods]
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .map(mood => [
+        new Date(mood.timestamp).toISOString(),
+        mood.rating,
+        mood.emoji,
+        mood.factors?.join("; "),
+        mood.note,
+      ])
+  );
+}
+
+export function exercisesToCsv(exercises: Doc<"exercises">[]): string {
+  return toCsv(
+    ["date", "type", "duration", "effectiveness", "moodBefore", "moodAfter", "notes"],
+    [...exercises]
+      .sort((a, b) => a.completedAt - b.completedAt)
+      .map(exercise => [
+        new Date(exercise.completedAt).toISOString(),
+        exercise.type,
+        exercise.duration,
+        exercise.data.effectiveness ?? exercise.data.outputs?.effectiveness,
+        exercise.data.outputs?.moodBefore,
+        exercise.data.outputs?.moodAfter,
+        exercise.data.outputs?.completionNotes,
+      ])
+  );
+}
+
+// The files that make up one export
+export function buildExportFiles(archive: ExportArchive): ExportFile[] {
+  const date = archive.exportedAt.slice(0, 10);
+  return [
+    {
+      name: `nafsy-export-${date}.json`,
+      contentType: "application/json",
+      content: JSON.stringify(archive, null, 2),
+    },
+    {
+      name: `nafsy-moods-${date}.csv`,
+      contentType: "text/csv",
+      content: moodsToCsv(archive.moods),
+    },
+    {
+      name: `nafsy-exercises-${date}.csv`,
+      contentType: "text/csv",
+      content: exercisesToCsv(archive.exercises),
+    },
+  ];
+}
+
+// Assemble and store a full export of the user's data
+export const exportUserData = action({
+  args: { userId: v.id("users") },
+  returns: v.id("dataExports"),
+  handler: async (ctx, args): Promise<Id<"dataExports">> => {
+    const exportId = await ctx.runMutation(internal.dataExport.createExport, { userId: args.userId });
+
+    try {
+      const data = await ctx.runQuery(internal.dataExport.collectUserData, { userId: args.userId });
+      if (!data) {
+        throw new Error("User not found");
+      }
+
+      const messages: MessageExport[] = [];
+      for (const conversation of data.conversations) {
+        let cursor: string | null = null;
+        let isDone = false;
+        while (!isDone) {
+          const page: { page: MessageExport[]; isDone: boolean; continueCursor: string } =
+            await ctx.runQuery(internal.dataExport.getMessagesPage, {
+              conversationId: conversation._id,
+              cursor,
+            });
+          messages.push(...page.page);
+          cursor = page.continueCursor;
+          isDone = page.isDone;
+        }
+      }
+
+      const archive = buildExportArchive(data, messages, Date.now());
+      const files = [];
+      for (const file of buildExportFiles(archive)) {
+        const blob = new Blob([file.content], { type: file.contentType });
+        const storageId = await ctx.storage.store(blob);
+        files.push({ name: file.name, contentType: file.contentType, storageId, size: blob.size });
+      }
+
+      await ctx.runMutation(internal.dataExport.completeExport, { exportId, files });
+    } catch (error) {
+      console.error("Data export error:", error);
+      await ctx.runMutation(internal.dataExport.failExport, {
+        exportId,
+        error: error instanceof Error ? error.message : "Unknown export error",
+      });
+    }
+
+    return exportId;
+  },
+});
+
+export const createExport = internalMutation({
+  args: { userId: v.id("users") },
+  returns: v.id("dataExports"),
+  handler: async (ctx, args) => {
+    return await ctx.db.insert("dataExports", {
+      userId: args.userId,
+      status: "pending",
+      formatVersion: EXPORT_FORMAT_VERSION,
+      requestedAt: Date.now(),
+    });
+  },
+});
+
+// Everything except messages, which are paged separately
+export const collectUserData = internalQuery({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args): Promise<UserDataExport | null> => {
+    const user = await ctx.db.get(args.userId);
+    if (!user) return null;
+
+    const conversations = await ctx.db
+      .query("conversations")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .collect();
+    const moods = await ctx.db
+      .query("moods")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .collect();
+    const moodFactors = await ctx.db
+      .query("moodFactors")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .collect();
+    const exercises = await ctx.db
+      .query("exercises")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .collect();
+    const journalEntries = await ctx.db
+      .query("journalEntries")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .collect();
+    const journalReflections = await ctx.db
+      .query("journalReflections")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .collect();
+    const streaks = await ctx.db
+      .query("streaks")
+      .withIndex("by_user_type", (q) => q.eq("userId", args.userId))
+      .collect();
+    const streakHistory = await ctx.db
+      .query("streakHistory")
+      .withIndex("by_user_type", (q) => q.eq("userId", args.userId))
+      .collect();
+    const assessments = await ctx.db
+      .query("assessments")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .collect();
+    const userSummaries = await ctx.db
+      .query("userSummaries")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .collect();
+    const conversationSummaries = await ctx.db
+      .query("conversationSummaries")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .collect();
+    const emergencyContacts = await ctx.db
+      .query("emergencyContacts")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .collect();
+    const crisisEvents = await ctx.db
+      .query("crisisEvents")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .collect();
+    const shareGrants = await ctx.db
+      .query("shareGrants")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .collect();
+    const shareAccessLog = await ctx.db
+      .query("shareAccessLog")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .collect();
+
+    return {
+      user,
+      conversations,
+      moods: moods.map(({ searchText: _searchText, ...mood }) => mood),
+      moodFactors,
+      exercises,
+      journalEntries: journalEntries.map(({ searchText: _searchText, ...entry }) => entry),
+      journalReflections,
+      streaks,
+      streakHistory,
+      assessments,
+      userSummaries,
+      conversationSummaries: conversationSummaries.map(({ embedding: _embedding, ...summary }) => summary),
+      emergencyContacts,
+      crisisEvents,
+      shareGrants: shareGrants.map(({ tokenHash: _tokenHash, ...grant }) => grant),
+      shareAccessLog,
+    };
+  },
+});
+
+export const getMessagesPage = internalQuery({
+  args: {
+    conversationId: v.id("conversations"),
+    cursor: v.union(v.string(), v.null()),
+  },
+  handler: async (ctx, args) => {
+    const result = await ctx.db
+      .query("messages")
+      .withIndex("by_conversation", (q) => q.eq("conversationId", args.conversationId))
+      .paginate({ numItems: MESSAGE_PAGE_SIZE, cursor: args.cursor });
+
+    return {
+      page: result.page.map(({ embedding: _embedding, searchText: _searchText, quickReplies: _quickReplies, ...message }) => message),
+      isDone: result.isDone,
+      continueCursor: result.continueCursor,
+    };
+  },
+});
+
+export const completeExport = internalMutation({
+  args: {
+    exportId: v.id("dataExports"),
+    files: v.array(v.object({
+      name: v.string(),
+      contentType: v.string(),
+      storageId: v.id("_storage"),
+      size: v.number(),
+    })),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const current = await ctx.db.get(args.exportId);
+    if (!current) return null;
+
+    await ctx.db.patch(args.exportId, {
+      status: "ready",
+      files: args.files,
+      completedAt: Date.now(),
+    });
+
+    // Keep only the newest archive around
+    const previous = await ctx.db
+      .query("dataExports")
+      .withIndex("by_user", (q) => q.eq("userId", current.userId))
+      .collect();
+    for (const old of previous) {
+      if (old._id === args.exportId) continue;
+      for (const file of old.files ?? []) {
+        await ctx.storage.delete(file.storageId);
+      }
+      await ctx.db.delete(old._id);
+    }
+    return null;
+  },
+});
+
+export const failExport = internalMutation({
+  args: {
+    exportId: v.id("dataExports"),
+    error: v.string(),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.exportId, {
+      status: "failed",
+      error: args.error,
+      completedAt: Date.now(),
+    });
+    return null;
+  },
+});
+
+// The user's latest export, with download URLs for ready files
+export const getLatestDataExport = query({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    const latest = await ctx.db
+      .query("dataExports")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .order("desc")
+      .first();
+    if (!latest) return null;
+
+    const files = await Promise.all((latest.files ?? []).map(async file => ({
+      name: file.name,
+      contentType: file.contentType,
+      size: file.size,
+      url: await ctx.storage.getUrl(file.storageId),
+    })));
+
+    return {
+      _id: latest._id,
+      status: latest.status,
+      formatVersion: latest.formatVersion,
+      requestedAt: latest.requestedAt,
+      completedAt: latest.completedAt,
+      error: latest.error,
+      files,
+    };
+  },
+});
@@ -9,6 +9,7 @@ export const addEmergencyContact = mutation({
     phone: v.string(),
     relationship: v.string(),
     isPrimary: v.boolean(),
+    email: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     // If this is set as primary, remove primary flag from others
@@ -31,6 +32,7 @@ export const addEmergencyContact = mutation({
       phone: args.phone,
       relationship: args.relationship,
       isPrimary: args.isPrimary,
+      email: args.email,
     });
 
     return contactId;
@@ -56,6 +58,7 @@ export const updateEmergencyContact = mutation({
     phone: v.optional(v.string()),
     relationship: v.optional(v.string()),
     isPrimary: v.optional(v.boolean()),
+    email: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const contact = await ctx.db.get(args.contactId);
@@ -82,6 +85,35 @@ export const updateEmergencyContact = mutation({
       phone: args.phone,
       relationship: args.relationship,
       isPrimary: args.isPrimary,
+      email: args.email,
+    });
+  },
+});
+
+// Record whether the user allows this contact to be notified during a crisis
+export const setEscalationConsent = mutation({
+  args: {
+    contactId: v.id("emergencyContacts"),
+    notifyOnCrisis: v.boolean(),
+    channels: v.array(v.union(v.literal("sms"), v.literal("email"))),
+  },
+  handler: async (ctx, args) => {
+    const contact = await ctx.db.get(args.contactId);
+    if (!contact) {
+      throw new Error("Contact not found");
+    }
+    if (args.notifyOnCrisis && args.channels.length === 0) {
+      throw new Error("At least one notification channel is required");
+    }
+    if (args.channels.includes("email") && !contact.email) {
+      throw new Error("Contact has no email address");
+    }
+
+    // Withdrawing consent removes the policy entirely
+    await ctx.db.patch(args.contactId, {
+      escalationPolicy: args.notifyOnCrisis
+        ? { notifyOnCrisis: true, channels: args.channels, consentedAt: Date.now() }
+        : undefined,
     });
   },
 });
@@ -0,0 +1,110 @@
+// @vitest-environment edge-runtime
+/// <reference types="vite/client" />
+/**
+ * Integration Tests for end-to-end encryption
+ * Tests opting in, and that private fields are refused in plaintext once a user has
+ */
+
+import { convexTest } from 'convex-test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { api } from './_generated/api';
+import { privateExerciseText } from './encryption';
+import schema from './schema';
+
+const modules = import.meta.glob('./**/*.ts');
+
+const keyBackup = {
+  kdf: 'scrypt' as const,
+  N: 32768,
+  r: 8,
+  p: 1,
+  salt: '00112233445566778899aabbccddeeff',
+  wrappedKey: 'e2e:v1:abcdef',
+};
+
+const sealed = 'e2e:v1:0123456789abcdef';
+
+describe('Encryption', () => {
+  let t: ReturnType<typeof convexTest>;
+
+  beforeEach(() => {
+    t = convexTest(schema, modules);
+  });
+
+  const createUser = () => t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_1' }));
+
+  describe('enableEncryption', () => {
+    it('should store the wrapped key backup', async () => {
+      const userId = await createUser();
+
+      await t.mutation(api.encryption.enableEncryption, { userId, keyBackup });
+
+      const user = await t.run(ctx => ctx.db.get(userId));
+      expect(user?.encryption?.version).toBe(1);
+      expect(user?.encryption?.keyBackup).toEqual(keyBackup);
+    });
+
+    it('should refuse to replace an existing key or accept a plaintext key', async () => {
+      const userId = await createUser();
+
+      await expect(t.mutation(api.encryption.enableEncryption, {
+        userId,
+        keyBackup: { ...keyBackup, wrappedKey: 'deadbeef' },
+      })).rejects.toThrow('Invalid key backup');
+
+      await t.mutation(api.encryption.enableEncryption, { userId, keyBackup });
+      await expect(t.mutation(api.encryption.enableEncryption, { userId, keyBackup }))
+        .rejects.toThrow('Encryption is already enabled');
+    });
+  });
+
+  describe('Private fields', () => {
+    it('should accept plaintext notes until encryption is enabled', async () => {
+      const userId = await createUser();
+
+      await t.mutation(api.moods.recordMood, { userId, rating: 6, note: 'plain note' });
+    });
+
+    it('should refuse plaintext mood notes once enabled', async () => {
+      const userId = await createUser();
+      await t.mutation(api.encryption.enableEncryption, { userId, keyBackup });
+
+      await expect(t.mutation(api.moods.recordMood, { userId, rating: 6, note: 'plain note' }))
+        .rejects.toThrow('Private fields must be encrypted');
+
+      const moodId = await t.mutation(api.moods.recordMood, { userId, rating: 6, note: sealed });
+      expect((await t.run(ctx => ctx.db.get(moodId)))?.note).toBe(sealed);
+    });
+
+    it('should refuse plaintext exercise writing once enabled', async () => {
+      const userId = await createUser();
+      await t.mutation(api.encryption.enableEncryption, { userId, keyBackup });
+
+      await expect(t.mutation(api.exercises.recordExerciseCompletion, {
+        userId,
+        type: 'cbt',
+        data: { inputs: { thoughtText: sealed, evidenceFor: ['plain'] } },
+      })).rejects.toThrow('Private fields must be encrypted');
+
+      await t.mutation(api.exercises.recordExerciseCompletion, {
+        userId,
+        type: 'cbt',
+        data: { inputs: { thoughtText: sealed }, outputs: { effectiveness: 4, moodBefore: 3 } },
+      });
+    });
+  });
+
+  describe('privateExerciseText', () => {
+    it('should collect free text but not ratings or labels', () => {
+      expect(privateExerciseText({
+        inputs: { senses: { see: ['tree'], hear: ['birds'] } },
+        outputs: { moodBefore: 3, completionNotes: 'done', insights: ['breathe'] },
+      })).toEqual(['tree', 'birds', 'done', 'breathe']);
+
+      expect(privateExerciseText({
+        inputs: { breathingPattern: '4-7-8', guidedSteps: ['inhale'] },
+        effectiveness: 4,
+      })).toEqual([]);
+    });
+  });
+});
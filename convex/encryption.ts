@@ -0,0 +1,112 @@
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { mutation, MutationCtx } from "./_generated/server";
+
+// Opt-in end-to-end encryption of journal-type content.
+//
+// The client holds a random per-user data key in SecureStore and encrypts
+// private fields before they are sent (src/utils/encryption.ts). The server
+// only ever stores the ciphertext, plus a copy of the data key wrapped with a
+// key derived from the user's passphrase so it can be recovered on a new
+// device.
+//
+// Fields the server never sees once encryption is on:
+//   moods.note (left out of search, see searchText.ts)
+//   exercises.data.inputs   thoughtText, evidenceFor, evidenceAgainst,
+//                           reframedThought, gratitudeItems, reflectionNotes,
+//                           senses.*
+//   exercises.data.outputs  completionNotes, insights
+//   journalEntries.title, content (server search and reflections then only
+//                           work on tags, see journal.ts)
+// Fields the server may still read, because AI features depend on them:
+//   messages.content (the chat itself is sent to the model)
+//   mood rating, factors, emoji and check-in (emotions, energy, anxiety,
+//   sleep); exercise type, duration, effectiveness
+//   and mood before/after (insights, streaks, recommendations)
+
+// Encrypted values look like "e2e:v1:<hex>"; see src/utils/encryption.ts
+export const ENCRYPTED_PREFIX = "e2e:";
+
+export function isEncryptedValue(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX);
+}
+
+type ExerciseData = Doc<"exercises">["data"];
+
+// Every free-text value in an exercise record that must be encrypted
+export function privateExerciseText(data: ExerciseData): string[] {
+  const values: string[] = [];
+  const inputs = data.inputs;
+  if (inputs) {
+    if ("thoughtText" in inputs && inputs.thoughtText) values.push(inputs.thoughtText);
+    if ("reframedThought" in inputs && inputs.reframedThought) values.push(inputs.reframedThought);
+    if ("evidenceFor" in inputs) values.push(...(inputs.evidenceFor ?? []));
+    if ("evidenceAgainst" in inputs) values.push(...(inputs.evidenceAgainst ?? []));
+    if ("gratitudeItems" in inputs) values.push(...(inputs.gratitudeItems ?? []));
+    if ("reflectionNotes" in inputs && inputs.reflectionNotes) values.push(inputs.reflectionNotes);
+    if ("senses" in inputs && inputs.senses) {
+      for (const items of Object.values(inputs.senses)) {
+        values.push(...(items ?? []));
+      }
+    }
+  }
+  if (data.outputs?.completionNotes) values.push(data.outputs.completionNotes);
+  values.push(...(data.outputs?.insights ?? []));
+  return values;
+}
+
+// Reject plaintext private fields for users who turned encryption on, so a
+// stale or buggy client can't quietly store them in the clear
+export async function assertPrivateFieldsEncrypted(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  values: (string | undefined)[]
+): Promise<void> {
+  const present = values.filter((value): value is string => !!value);
+  if (present.length === 0 || present.every(isEncryptedValue)) return;
+
+  const user = await ctx.db.get(userId);
+  if (user?.encryption) {
+    throw new Error("Private fields must be encrypted for this account");
+  }
+}
+
+const keyBackupValidator = v.object({
+  kdf: v.literal("scrypt"),
+  N: v.number(),
+  r: v.number(),
+  p: v.number(),
+  salt: v.string(),
+  wrappedKey: v.string(),
+});
+
+// Turn encryption on and store the passphrase-wrapped data key
+export const enableEncryption = mutation({
+  args: {
+    userId: v.id("users"),
+    keyBackup: keyBackupValidator,
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const user = await ctx.db.get(args.userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+    if (user.encryption) {
+      throw new Error("Encryption is already enabled");
+    }
+    if (!isEncryptedValue(args.keyBackup.wrappedKey)) {
+      throw new Error("Invalid key backup");
+    }
+
+    await ctx.db.patch(args.userId, {
+      encryption: {
+        version: 1,
+        keyBackup: args.keyBackup,
+        enabledAt: Date.now(),
+      },
+    });
+    return null;
+  },
+});
+
@@ -0,0 +1,194 @@
+import { ExerciseDefinition, TimedPhase } from "./exerciseDefinitions";
+
+// The built-in exercise catalog. Kept free of server code so the app can
+// bundle it too (see src/hooks/useExerciseDefinitions.ts).
+
+// Bump when the step schema gains something older players can't render
+export const EXERCISE_SCHEMA_VERSION = 1;
+
+const BREATHING_PHASES = (inhale: number, hold: number, exhale: number): TimedPhase[] => [
+  { label: { en: "Inhale", ar: "استنشق" }, seconds: inhale, scale: 1.4, cue: { haptic: "breatheIn" } },
+  { label: { en: "Hold", ar: "احبس النفس" }, seconds: hold, scale: 1.4 },
+  { label: { en: "Exhale", ar: "ازفر" }, seconds: exhale, scale: 1, cue: { haptic: "breatheOut" } },
+];
+
+// The built-in exercises, seeded into exerciseDefinitions and bundled with the
+// app for when the authored catalog hasn't loaded
+export const BUILT_IN_EXERCISE_DEFINITIONS: ExerciseDefinition[] = [
+  {
+    exerciseId: "box-breathing",
+    schemaVersion: 1,
+    type: "breathing",
+    difficulty: "beginner",
+    durationMinutes: 5,
+    icon: "wind",
+    gradient: ["#A3C9E2", "#85C1E9"],
+    title: { en: "Box Breathing", ar: "التنفس الصندوقي" },
+    description: { en: "Calm your mind with rhythmic breathing", ar: "اهدئ عقلك بالتنفس المنتظم" },
+    fit: {
+      helpsWith: ["stress", "anxiety", "work", "anxious", "stressed", "worried", "frustrated"],
+      moods: ["low", "mid"],
+    },
+    steps: [{ id: "breathe", kind: "timed", phases: BREATHING_PHASES(4, 4, 4), cycles: 25 }],
+  },
+  {
+    exerciseId: "478-breathing",
+    schemaVersion: 1,
+    type: "breathing",
+    difficulty: "intermediate",
+    durationMinutes: 3,
+    icon: "leaf",
+    gradient: ["#8BC34A", "#7ED321"],
+    title: { en: "4-7-8 Breathing", ar: "تنفس 4-7-8" },
+    description: { en: "Quick relaxation technique", ar: "تقنية استرخاء سريعة" },
+    fit: {
+      helpsWith: ["sleep", "anxiety", "anxious", "overwhelmed", "exhausted"],
+      moods: ["low", "mid"],
+      times: ["evening", "night"],
+    },
+    steps: [{ id: "breathe", kind: "timed", phases: BREATHING_PHASES(4, 7, 8), cycles: 9 }],
+  },
+  {
+    exerciseId: "54321-grounding",
+    schemaVersion: 1,
+    type: "grounding",
+    difficulty: "beginner",
+    durationMinutes: 7,
+    icon: "hand.raised",
+    gradient: ["#FFAB78", "#F5A623"],
+    title: { en: "5-4-3-2-1 Grounding", ar: "تقنية 5-4-3-2-1" },
+    description: { en: "Connect with your senses", ar: "تواصل مع حواسك" },
+    fit: {
+      helpsWith: ["anxiety", "anxious", "overwhelmed", "fearful", "startled", "confused"],
+      moods: ["low"],
+    },
+    steps: [
+      {
+        id: "see",
+        kind: "list",
+        prompt: { en: "Name 5 things you can see around you", ar: "اذكر 5 أشياء يمكنك رؤيتها حولك" },
+        field: "senses.see",
+        count: 5,
+        icon: "eye",
+      },
+      {
+        id: "feel",
+        kind: "list",
+        prompt: { en: "Name 4 things you can touch or feel", ar: "اذكر 4 أشياء يمكنك لمسها أو الشعور بها" },
+        field: "senses.feel",
+        count: 4,
+        icon: "hand.raised",
+      },
+      {
+        id: "hear",
+        kind: "list",
+        prompt: { en: "Name 3 things you can hear", ar: "اذكر 3 أشياء يمكنك سماعها" },
+        field: "senses.hear",
+        count: 3,
+        icon: "ear",
+      },
+      {
+        id: "smell",
+        kind: "list",
+        prompt: { en: "Name 2 things you can smell", ar: "اذكر شيئين يمكنك شمهما" },
+        field: "senses.smell",
+        count: 2,
+        icon: "nose",
+      },
+      {
+        id: "taste",
+        kind: "list",
+        prompt: { en: "Name 1 thing you can taste", ar: "اذكر شيئاً واحداً يمكنك تذوقه" },
+        field: "senses.taste",
+        count: 1,
+        icon: "mouth",
+      },
+    ],
+  },
+  {
+    exerciseId: "thought-record",
+    schemaVersion: 1,
+    type: "thoughtChallenge",
+    difficulty: "advanced",
+    durationMinutes: 10,
+    icon: "brain",
+    gradient: ["#B19CD9", "#AF7AC5"],
+    title: { en: "Thought Challenge", ar: "تحدي الأفكار" },
+    description: { en: "Examine and reframe negative thoughts", ar: "افحص وأعد صياغة الأفكار السلبية" },
+    fit: {
+      helpsWith: ["work", "relationships", "stress", "guilty", "disappointed", "insecure", "hurt", "worried"],
+      moods: ["low", "mid"],
+      times: ["morning", "afternoon", "evening"],
+    },
+    steps: [
+      {
+        id: "thought",
+        kind: "textInput",
+        prompt: { en: "Identify the negative thought", ar: "حدد الفكرة السلبية" },
+        field: "thoughtText",
+        multiline: true,
+      },
+      { id: "rate", kind: "prompt", text: { en: "Rate your emotions (0-10)", ar: "قيم مشاعرك (0-10)" } },
+      {
+        id: "for",
+        kind: "list",
+        prompt: { en: "List evidence supporting the thought", ar: "اكتب الأدلة التي تدعم الفكرة" },
+        field: "evidenceFor",
+        count: 3,
+      },
+      {
+        id: "against",
+        kind: "list",
+        prompt: { en: "List evidence against the thought", ar: "اكتب الأدلة التي تعارض الفكرة" },
+        field: "evidenceAgainst",
+        count: 3,
+      },
+      {
+        id: "balanced",
+        kind: "textInput",
+        prompt: { en: "Create a balanced thought", ar: "اصنع فكرة متوازنة" },
+        field: "reframedThought",
+        multiline: true,
+      },
+      { id: "rerate", kind: "prompt", text: { en: "Re-rate your emotions", ar: "أعد تقييم مشاعرك" } },
+    ],
+  },
+  {
+    exerciseId: "gratitude-journal",
+    schemaVersion: 1,
+    type: "gratitude",
+    difficulty: "beginner",
+    durationMinutes: 5,
+    icon: "heart.fill",
+    gradient: ["#FFB6C1", "#FF91A4"],
+    title: { en: "Gratitude Journal", ar: "يوميات الامتنان" },
+    description: { en: "Focus on positive moments", ar: "ركز على اللحظات الإيجابية" },
+    fit: {
+      helpsWith: ["relationships", "social", "hobby", "happy", "grateful", "content", "hopeful", "lonely"],
+      moods: ["mid", "high"],
+      times: ["evening", "night"],
+    },
+    steps: [
+      {
+        id: "grateful",
+        kind: "list",
+        prompt: { en: "Think of 3 things you are grateful for today", ar: "فكر في 3 أشياء أنت ممتن لها اليوم" },
+        field: "gratitudeItems",
+        count: 3,
+      },
+      {
+        id: "why",
+        kind: "textInput",
+        prompt: { en: "Write why you are grateful for each", ar: "اكتب لماذا أنت ممتن لكل منها" },
+        field: "reflectionNotes",
+        multiline: true,
+      },
+      {
+        id: "notice",
+        kind: "prompt",
+        text: { en: "Notice how you feel after reflecting", ar: "لاحظ كيف تشعر بعد التأمل" },
+        cue: { haptic: "meditation" },
+      },
+    ],
+  },
+];
@@ -0,0 +1,144 @@
+// @vitest-environment edge-runtime
+/// <reference types="vite/client" />
+/**
+ * Tests for the data-driven exercise catalog
+ * Tests definition validation, the built-in seed, versioned imports and
+ * serving definitions by schema version
+ */
+
+import { convexTest } from 'convex-test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { internal, api } from './_generated/api';
+import { BUILT_IN_EXERCISE_DEFINITIONS } from './exerciseCatalog';
+import {
+  EXERCISE_SCHEMA_VERSION,
+  ExerciseDefinition,
+  validateExerciseDefinition,
+} from './exerciseDefinitions';
+import schema from './schema';
+
+const modules = import.meta.glob('./**/*.ts');
+
+const body: ExerciseDefinition = {
+  exerciseId: 'body-scan',
+  schemaVersion: 1,
+  type: 'mindfulness',
+  difficulty: 'beginner',
+  durationMinutes: 4,
+  icon: 'sparkles',
+  gradient: ['#A3C9E2', '#85C1E9'],
+  title: { en: 'Body Scan', ar: 'مسح الجسم' },
+  description: { en: 'Notice each part of your body', ar: 'لاحظ كل جزء من جسمك' },
+  steps: [
+    { id: 'settle', kind: 'prompt', text: { en: 'Sit comfortably', ar: 'اجلس بشكل مريح' }, cue: { haptic: 'meditation' } },
+    { id: 'notes', kind: 'textInput', prompt: { en: 'What did you notice?', ar: 'ماذا لاحظت؟' }, field: 'reflectionNotes' },
+  ],
+};
+
+describe('Exercise definitions', () => {
+  it('should accept the built-in definitions', () => {
+    for (const definition of [...BUILT_IN_EXERCISE_DEFINITIONS, body]) {
+      expect(() => validateExerciseDefinition(definition)).not.toThrow();
+    }
+  });
+
+  it('should name the exercise and path of the first problem', () => {
+    const withSteps = (steps: unknown[]) => ({ ...body, steps });
+
+    expect(() => validateExerciseDefinition({ ...body, exerciseId: 'Body Scan' }))
+      .toThrow('exerciseId must be lowercase letters, digits and dashes');
+    expect(() => validateExerciseDefinition({ ...body, schemaVersion: EXERCISE_SCHEMA_VERSION + 1 }))
+      .toThrow(`body-scan: schemaVersion must be from 1 to ${EXERCISE_SCHEMA_VERSION}`);
+    expect(() => validateExerciseDefinition({ ...body, title: { en: 'Body Scan' } }))
+      .toThrow('body-scan: title needs English and Arabic text');
+    expect(() => validateExerciseDefinition(withSteps([{ id: 'a', kind: 'video' }])))
+      .toThrow('body-scan: steps[0].kind must be timed, prompt, textInput or list');
+    expect(() => validateExerciseDefinition(withSteps([
+      { id: 'a', kind: 'timed', cycles: 3, phases: [{ label: { en: 'In', ar: 'شهيق' }, seconds: 0, scale: 1.2 }] },
+    ]))).toThrow('body-scan: steps[0].phases[0].seconds must be a whole number from 1 to 60');
+    expect(() => validateExerciseDefinition(withSteps([
+      { id: 'a', kind: 'prompt', text: body.title, cue: { sound: 'https://cdn.example.com/bell.mp3' } },
+    ]))).toThrow('body-scan: steps[0].cue.sound is not supported yet');
+    expect(() => validateExerciseDefinition(withSteps([
+      { id: 'a', kind: 'list', prompt: body.title, count: 3, field: 'thoughtText' },
+    ]))).toThrow('body-scan: steps[0].field must be one of');
+    expect(() => validateExerciseDefinition(withSteps([
+      { id: 'a', kind: 'prompt', text: body.title },
+      { id: 'a', kind: 'prompt', text: body.title },
+    ]))).toThrow('body-scan: step id "a" is used more than once');
+    expect(() => validateExerciseDefinition(withSteps([
+      { id: 'a', kind: 'textInput', prompt: body.title, field: 'thoughtText' },
+      { id: 'b', kind: 'list', prompt: body.title, count: 3, field: 'gratitudeItems' },
+    ]))).toThrow('body-scan: all fields must come from the same group');
+    expect(() => validateExerciseDefinition({ ...body, fit: { helpsWith: ['anxiety'], moods: ['sad'] } }))
+      .toThrow('body-scan: fit.moods must be a list of low, mid, high');
+  });
+
+  describe('in the database', () => {
+    let t: ReturnType<typeof convexTest>;
+
+    beforeEach(() => {
+      t = convexTest(schema, modules);
+    });
+
+    it('should seed once and leave unchanged definitions alone', async () => {
+      const first = await t.mutation(internal.exerciseDefinitions.seedExerciseDefinitions, {});
+      const second = await t.mutation(internal.exerciseDefinitions.seedExerciseDefinitions, {});
+
+      expect(first).toEqual({ inserted: BUILT_IN_EXERCISE_DEFINITIONS.length, updated: 0, unchanged: 0 });
+      expect(second).toEqual({ inserted: 0, updated: 0, unchanged: BUILT_IN_EXERCISE_DEFINITIONS.length });
+    });
+
+    it('should seed the catalog when the database is initialized', async () => {
+      await t.mutation(api.init.initializeDatabase, {});
+
+      const definitions = await t.query(api.exerciseDefinitions.listExerciseDefinitions, { schemaVersion: EXERCISE_SCHEMA_VERSION });
+      expect(definitions.map((definition: { exerciseId: string }) => definition.exerciseId))
+        .toEqual(BUILT_IN_EXERCISE_DEFINITIONS.map(definition => definition.exerciseId));
+    });
+
+    it('should add imported exercises and bump the version of changed ones', async () => {
+      await t.mutation(internal.exerciseDefinitions.seedExerciseDefinitions, {});
+      const [boxBreathing] = BUILT_IN_EXERCISE_DEFINITIONS;
+
+      const result = await t.mutation(internal.exerciseDefinitions.importExerciseDefinitions, {
+        definitions: [body, { ...boxBreathing, durationMinutes: 6 }],
+      });
+      const served = await t.query(api.exerciseDefinitions.listExerciseDefinitions, { schemaVersion: EXERCISE_SCHEMA_VERSION });
+
+      expect(result).toEqual({ inserted: 1, updated: 1, unchanged: 0 });
+      expect(served.map((definition: { exerciseId: string }) => definition.exerciseId))
+        .toEqual([...BUILT_IN_EXERCISE_DEFINITIONS.map(definition => definition.exerciseId), 'body-scan']);
+      expect(served[0]).toMatchObject({ exerciseId: 'box-breathing', version: 2, durationMinutes: 6 });
+      expect(served.at(-1)).toMatchObject({ ...body, version: 1, isPublished: true });
+    });
+
+    it('should import nothing when any definition is invalid', async () => {
+      await expect(t.mutation(internal.exerciseDefinitions.importExerciseDefinitions, {
+        definitions: [body, { ...body, exerciseId: 'broken', steps: [] }],
+      })).rejects.toThrow('broken: steps must have 1 to 20 steps');
+
+      expect(await t.query(api.exerciseDefinitions.listExerciseDefinitions, { schemaVersion: EXERCISE_SCHEMA_VERSION }))
+        .toEqual([]);
+    });
+
+    it('should only serve published definitions the player can render', async () => {
+      await t.mutation(internal.exerciseDefinitions.importExerciseDefinitions, {
+        definitions: [body, { ...body, exerciseId: 'draft-scan', isPublished: false }],
+      });
+      // Written by a newer authoring tool than this test's player
+      await t.run(ctx => ctx.db.insert('exerciseDefinitions', {
+        ...body,
+        exerciseId: 'future-scan',
+        schemaVersion: EXERCISE_SCHEMA_VERSION + 1,
+        version: 1,
+        isPublished: true,
+        updatedAt: Date.now(),
+      }));
+
+      const served = await t.query(api.exerciseDefinitions.listExerciseDefinitions, { schemaVersion: EXERCISE_SCHEMA_VERSION });
+
+      expect(served.map((definition: { exerciseId: string }) => definition.exerciseId)).toEqual(['body-scan']);
+    });
+  });
+});
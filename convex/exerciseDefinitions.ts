@@ -0,0 +1,404 @@
+import { v } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+import { internalMutation, MutationCtx, query, QueryCtx } from "./_generated/server";
+import { TIMES_OF_DAY } from "./analytics";
+import { BUILT_IN_EXERCISE_DEFINITIONS, EXERCISE_SCHEMA_VERSION } from "./exerciseCatalog";
+import { LocalizedText } from "./questionnaires";
+
+// Data-driven exercise catalog.
+//
+// Each exercise is an ExerciseDefinition: its card (title, description, icon,
+// gradient, difficulty, duration), what it suits for the recommender (fit) and
+// a list of steps the player renders in order. Steps are plain JSON described by a versioned schema:
+// - timed: a cycle of phases (e.g. inhale / hold / exhale), each with a length,
+//   the size the breathing circle grows or shrinks to, and an optional cue
+// - prompt: an instruction to read
+// - textInput: one free-text answer
+// - list: a fixed number of short answers
+// Any step can carry a cue: a haptic pattern. Sound cues are rejected until
+// the player can play audio.
+//
+// Answers are saved into exercises.data.inputs through the step's field (see
+// INPUT_FIELDS), so new exercises store data in the shapes that table and
+// encryption already handle. Steps without a field are not saved.
+//
+// Definitions live in the exerciseDefinitions table, which is the catalog the
+// player, the recommender and the chat assistant all read. The player asks for
+// the schema version it understands and only gets definitions it can render,
+// so new exercises ship without an app release.
+//
+// initializeDatabase (init.ts) seeds the built-in catalog (exerciseCatalog.ts); to
+// re-seed it on its own: npx convex run exerciseDefinitions:seedExerciseDefinitions
+// Import authored definitions:
+//   npx convex run exerciseDefinitions:importExerciseDefinitions '{"definitions": [...]}'
+
+// The schema version lives with the built-in catalog so the app can import it
+// without server code
+export { EXERCISE_SCHEMA_VERSION };
+
+export const EXERCISE_TYPES = ["breathing", "grounding", "thoughtChallenge", "gratitude", "mindfulness"] as const;
+export const DIFFICULTIES = ["beginner", "intermediate", "advanced"] as const;
+export const CUE_HAPTICS = ["light", "medium", "heavy", "success", "breatheIn", "breatheOut", "meditation"] as const;
+export const MOOD_BANDS = ["low", "mid", "high"] as const;
+
+export const MAX_STEPS = 20;
+export const MAX_PHASES = 6;
+export const MAX_PHASE_SECONDS = 60;
+export const MAX_CYCLES = 100;
+export const MAX_LIST_ITEMS = 10;
+export const MAX_DURATION_MINUTES = 60;
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 2;
+
+// Where answers are saved in exercises.data.inputs. All fields used by one
+// definition must come from the same group, since inputs hold one shape.
+export const INPUT_FIELDS: Record<string, { group: string; kind: "text" | "list" }> = {
+  thoughtText: { group: "thought", kind: "text" },
+  evidenceFor: { group: "thought", kind: "list" },
+  evidenceAgainst: { group: "thought", kind: "list" },
+  reframedThought: { group: "thought", kind: "text" },
+  gratitudeItems: { group: "gratitude", kind: "list" },
+  reflectionNotes: { group: "gratitude", kind: "text" },
+  "senses.see": { group: "grounding", kind: "list" },
+  "senses.hear": { group: "grounding", kind: "list" },
+  "senses.feel": { group: "grounding", kind: "list" },
+  "senses.smell": { group: "grounding", kind: "list" },
+  "senses.taste": { group: "grounding", kind: "list" },
+};
+
+export type ExerciseType = (typeof EXERCISE_TYPES)[number];
+export type ExerciseDifficulty = (typeof DIFFICULTIES)[number];
+export type MoodBand = (typeof MOOD_BANDS)[number];
+export type TimeOfDay = (typeof TIMES_OF_DAY)[number];
+
+export interface ExerciseCue {
+  haptic?: (typeof CUE_HAPTICS)[number];
+}
+
+export interface TimedPhase {
+  label: LocalizedText;
+  seconds: number;
+  // Breathing circle size at the end of the phase (1 = resting)
+  scale: number;
+  cue?: ExerciseCue;
+}
+
+interface StepBase {
+  // Unique within the definition
+  id: string;
+  cue?: ExerciseCue;
+}
+
+export type ExerciseStep =
+  | (StepBase & { kind: "timed"; title?: LocalizedText; phases: TimedPhase[]; cycles: number })
+  | (StepBase & { kind: "prompt"; text: LocalizedText })
+  | (StepBase & { kind: "textInput"; prompt: LocalizedText; field?: string; multiline?: boolean })
+  | (StepBase & { kind: "list"; prompt: LocalizedText; field?: string; count: number; icon?: string });
+
+// What the recommender matches an exercise against
+export interface ExerciseFit {
+  // Mood factor keys (moodFactors.ts) and emotion keys (checkIns.ts) it helps with
+  helpsWith: string[];
+  moods: MoodBand[];
+  // Omitted when any time of day suits it
+  times?: TimeOfDay[];
+}
+
+export interface ExerciseDefinition {
+  exerciseId: string;
+  schemaVersion: number;
+  type: ExerciseType;
+  difficulty: ExerciseDifficulty;
+  durationMinutes: number;
+  icon: string;
+  gradient: [string, string];
+  title: LocalizedText;
+  description: LocalizedText;
+  fit?: ExerciseFit;
+  steps: ExerciseStep[];
+  // Unpublished definitions are kept but not served
+  isPublished?: boolean;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isWholeNumber = (value: unknown, min: number, max: number): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= min && value <= max;
+
+function checkLocalized(value: unknown, path: string) {
+  if (!isRecord(value) || typeof value.en !== "string" || typeof value.ar !== "string" ||
+    !value.en.trim() || !value.ar.trim()) {
+    throw new Error(`${path} needs English and Arabic text`);
+  }
+}
+
+function checkCue(value: unknown, path: string) {
+  if (value === undefined) return;
+  if (!isRecord(value)) throw new Error(`${path} must be an object`);
+  if (value.haptic !== undefined && !(CUE_HAPTICS as readonly unknown[]).includes(value.haptic)) {
+    throw new Error(`${path}.haptic must be one of ${CUE_HAPTICS.join(", ")}`);
+  }
+  if (value.sound !== undefined) throw new Error(`${path}.sound is not supported yet`);
+}
+
+function checkFit(value: unknown) {
+  if (value === undefined) return;
+  if (!isRecord(value)) throw new Error("fit must be an object");
+  if (!Array.isArray(value.helpsWith) || !value.helpsWith.every(tag => typeof tag === "string" && tag)) {
+    throw new Error("fit.helpsWith must be a list of factor and emotion keys");
+  }
+  if (!Array.isArray(value.moods) || !value.moods.every(mood => (MOOD_BANDS as readonly unknown[]).includes(mood))) {
+    throw new Error(`fit.moods must be a list of ${MOOD_BANDS.join(", ")}`);
+  }
+  if (value.times !== undefined &&
+    (!Array.isArray(value.times) || !value.times.every(time => (TIMES_OF_DAY as readonly unknown[]).includes(time)))) {
+    throw new Error(`fit.times must be a list of ${TIMES_OF_DAY.join(", ")}`);
+  }
+}
+
+function checkField(value: unknown, kind: "text" | "list", path: string) {
+  if (value === undefined) return;
+  const field = typeof value === "string" ? INPUT_FIELDS[value] : undefined;
+  if (!field || field.kind !== kind) {
+    const allowed = Object.keys(INPUT_FIELDS).filter(key => INPUT_FIELDS[key].kind === kind);
+    throw new Error(`${path}.field must be one of ${allowed.join(", ")}`);
+  }
+}
+
+function checkStep(step: unknown, path: string) {
+  if (!isRecord(step)) throw new Error(`${path} must be an object`);
+  if (typeof step.id !== "string" || !step.id.trim()) throw new Error(`${path}.id is required`);
+  checkCue(step.cue, `${path}.cue`);
+
+  switch (step.kind) {
+    case "timed": {
+      if (step.title !== undefined) checkLocalized(step.title, `${path}.title`);
+      if (!Array.isArray(step.phases) || step.phases.length === 0 || step.phases.length > MAX_PHASES) {
+        throw new Error(`${path}.phases must have 1 to ${MAX_PHASES} phases`);
+      }
+      step.phases.forEach((phase: unknown, index) => {
+        const phasePath = `${path}.phases[${index}]`;
+        if (!isRecord(phase)) throw new Error(`${phasePath} must be an object`);
+        checkLocalized(phase.label, `${phasePath}.label`);
+        if (!isWholeNumber(phase.seconds, 1, MAX_PHASE_SECONDS)) {
+          throw new Error(`${phasePath}.seconds must be a whole number from 1 to ${MAX_PHASE_SECONDS}`);
+        }
+        if (typeof phase.scale !== "number" || phase.scale < MIN_SCALE || phase.scale > MAX_SCALE) {
+          throw new Error(`${phasePath}.scale must be between ${MIN_SCALE} and ${MAX_SCALE}`);
+        }
+        checkCue(phase.cue, `${phasePath}.cue`);
+      });
+      if (!isWholeNumber(step.cycles, 1, MAX_CYCLES)) {
+        throw new Error(`${path}.cycles must be a whole number from 1 to ${MAX_CYCLES}`);
+      }
+      return;
+    }
+    case "prompt":
+      checkLocalized(step.text, `${path}.text`);
+      return;
+    case "textInput":
+      checkLocalized(step.prompt, `${path}.prompt`);
+      checkField(step.field, "text", path);
+      return;
+    case "list":
+      checkLocalized(step.prompt, `${path}.prompt`);
+      checkField(step.field, "list", path);
+      if (!isWholeNumber(step.count, 1, MAX_LIST_ITEMS)) {
+        throw new Error(`${path}.count must be a whole number from 1 to ${MAX_LIST_ITEMS}`);
+      }
+      return;
+    default:
+      throw new Error(`${path}.kind must be timed, prompt, textInput or list`);
+  }
+}
+
+function checkDefinition(definition: Record<string, unknown>) {
+  if (!isWholeNumber(definition.schemaVersion, 1, EXERCISE_SCHEMA_VERSION)) {
+    throw new Error(`schemaVersion must be from 1 to ${EXERCISE_SCHEMA_VERSION}`);
+  }
+  if (!(EXERCISE_TYPES as readonly unknown[]).includes(definition.type)) {
+    throw new Error(`type must be one of ${EXERCISE_TYPES.join(", ")}`);
+  }
+  if (!(DIFFICULTIES as readonly unknown[]).includes(definition.difficulty)) {
+    throw new Error(`difficulty must be one of ${DIFFICULTIES.join(", ")}`);
+  }
+  if (!isWholeNumber(definition.durationMinutes, 1, MAX_DURATION_MINUTES)) {
+    throw new Error(`durationMinutes must be a whole number from 1 to ${MAX_DURATION_MINUTES}`);
+  }
+  if (typeof definition.icon !== "string" || !definition.icon) throw new Error("icon is required");
+  const gradient = definition.gradient;
+  if (!Array.isArray(gradient) || gradient.length !== 2 ||
+    !gradient.every(color => typeof color === "string" && /^#[0-9A-Fa-f]{6}$/.test(color))) {
+    throw new Error("gradient must be two #RRGGBB colors");
+  }
+  if (definition.isPublished !== undefined && typeof definition.isPublished !== "boolean") {
+    throw new Error("isPublished must be true or false");
+  }
+  checkLocalized(definition.title, "title");
+  checkLocalized(definition.description, "description");
+  checkFit(definition.fit);
+
+  const steps = definition.steps;
+  if (!Array.isArray(steps) || steps.length === 0 || steps.length > MAX_STEPS) {
+    throw new Error(`steps must have 1 to ${MAX_STEPS} steps`);
+  }
+  steps.forEach((step: unknown, index) => checkStep(step, `steps[${index}]`));
+
+  const typed = steps as ExerciseStep[];
+  const ids = typed.map(step => step.id);
+  const duplicate = ids.find((stepId, index) => ids.indexOf(stepId) !== index);
+  if (duplicate) throw new Error(`step id "${duplicate}" is used more than once`);
+
+  const fields = typed.flatMap(step => ("field" in step && step.field ? [step.field] : []));
+  const repeated = fields.find((field, index) => fields.indexOf(field) !== index);
+  if (repeated) throw new Error(`field "${repeated}" is used by more than one step`);
+  if (new Set(fields.map(field => INPUT_FIELDS[field].group)).size > 1) {
+    throw new Error("all fields must come from the same group (thought, gratitude or grounding)");
+  }
+}
+
+// Throws with the exercise id and the path of the first problem found
+export function validateExerciseDefinition(definition: unknown): asserts definition is ExerciseDefinition {
+  if (!isRecord(definition)) throw new Error("A definition must be an object");
+  const id = definition.exerciseId;
+  if (typeof id !== "string" || !/^[a-z0-9]+(-[a-z0-9]+)*$/.test(id)) {
+    throw new Error("exerciseId must be lowercase letters, digits and dashes");
+  }
+  try {
+    checkDefinition(definition);
+  } catch (error) {
+    throw new Error(`${id}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// JSON with object keys sorted, since stored documents don't keep key order
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(",")}]`;
+  if (isRecord(value)) {
+    return `{${Object.keys(value).sort()
+      .filter(key => value[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonical(value[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// The stored content of a definition, for spotting changes on import
+function content(definition: ExerciseDefinition) {
+  return {
+    exerciseId: definition.exerciseId,
+    schemaVersion: definition.schemaVersion,
+    type: definition.type,
+    difficulty: definition.difficulty,
+    durationMinutes: definition.durationMinutes,
+    icon: definition.icon,
+    gradient: definition.gradient,
+    title: definition.title,
+    description: definition.description,
+    fit: definition.fit,
+    steps: definition.steps,
+    isPublished: definition.isPublished ?? true,
+  };
+}
+
+function toDefinition(doc: Doc<"exerciseDefinitions">): ExerciseDefinition & { version: number } {
+  return {
+    exerciseId: doc.exerciseId,
+    version: doc.version,
+    schemaVersion: doc.schemaVersion,
+    type: doc.type,
+    difficulty: doc.difficulty,
+    durationMinutes: doc.durationMinutes,
+    icon: doc.icon,
+    gradient: [doc.gradient[0], doc.gradient[1]],
+    title: doc.title,
+    description: doc.description,
+    fit: doc.fit,
+    steps: doc.steps,
+    isPublished: doc.isPublished,
+  };
+}
+
+// Validate every definition first so a bad one imports nothing, then insert
+// new ones and bump the version of those whose content changed
+export async function upsertExerciseDefinitions(ctx: MutationCtx, definitions: unknown[]) {
+  definitions.forEach(definition => validateExerciseDefinition(definition));
+  const valid = definitions as ExerciseDefinition[];
+  const ids = valid.map(definition => definition.exerciseId);
+  const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+  if (duplicate) throw new Error(`${duplicate}: defined more than once`);
+
+  let inserted = 0;
+  let updated = 0;
+  let unchanged = 0;
+  for (const definition of valid) {
+    const next = content(definition);
+    const current = await ctx.db
+      .query("exerciseDefinitions")
+      .withIndex("by_exercise_id", (q) => q.eq("exerciseId", definition.exerciseId))
+      .first();
+
+    if (!current) {
+      await ctx.db.insert("exerciseDefinitions", { ...next, version: 1, updatedAt: Date.now() });
+      inserted++;
+    } else if (canonical(content(toDefinition(current))) !== canonical(next)) {
+      await ctx.db.patch(current._id, { ...next, version: current.version + 1, updatedAt: Date.now() });
+      updated++;
+    } else {
+      unchanged++;
+    }
+  }
+  return { inserted, updated, unchanged };
+}
+
+const upsertResultValidator = v.object({ inserted: v.number(), updated: v.number(), unchanged: v.number() });
+
+export const seedExerciseDefinitions = internalMutation({
+  args: {},
+  returns: upsertResultValidator,
+  handler: async (ctx) => {
+    return await upsertExerciseDefinitions(ctx, BUILT_IN_EXERCISE_DEFINITIONS);
+  },
+});
+
+// Definitions arrive as raw JSON and are checked by validateExerciseDefinition
+export const importExerciseDefinitions = internalMutation({
+  args: { definitions: v.array(v.any()) },
+  returns: upsertResultValidator,
+  handler: async (ctx, args) => {
+    return await upsertExerciseDefinitions(ctx, args.definitions);
+  },
+});
+
+// Published definitions a player on the given schema version can render, in
+// the order they were first added
+export async function listPublishedDefinitions(
+  ctx: QueryCtx,
+  schemaVersion: number = EXERCISE_SCHEMA_VERSION,
+): Promise<(ExerciseDefinition & { version: number })[]> {
+  const docs = await ctx.db
+    .query("exerciseDefinitions")
+    .filter((q) => q.and(
+      q.eq(q.field("isPublished"), true),
+      q.lte(q.field("schemaVersion"), schemaVersion),
+    ))
+    .collect();
+  return docs.map(toDefinition);
+}
+
+// The type an exercise is recorded under, if it is in the catalog
+export async function getExerciseType(ctx: QueryCtx, exerciseId: string): Promise<ExerciseType | null> {
+  const doc = await ctx.db
+    .query("exerciseDefinitions")
+    .withIndex("by_exercise_id", (q) => q.eq("exerciseId", exerciseId))
+    .first();
+  return doc?.type ?? null;
+}
+
+export const listExerciseDefinitions = query({
+  args: { schemaVersion: v.number() },
+  handler: async (ctx, args): Promise<(ExerciseDefinition & { version: number })[]> => {
+    return await listPublishedDefinitions(ctx, args.schemaVersion);
+  },
+});
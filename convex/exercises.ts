@@ -1,5 +1,9 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
+import { completeChatAction } from "./chatActions";
+import { assertPrivateFieldsEncrypted, privateExerciseText } from "./encryption";
+import { recordStreakActivity } from "./streaks";
+import { resolveClientTimestamp } from "./sync";
 import { getUserId } from "./users";
 
 // Record exercise completion
@@ -47,15 +51,20 @@ export const recordExercise = mutation({
     }),
   },
   handler: async (ctx, args) => {
+    await assertPrivateFieldsEncrypted(ctx, args.userId, privateExerciseText(args.data));
+
+    const completedAt = Date.now();
     const exerciseId = await ctx.db.insert("exercises", {
       userId: args.userId,
       type: args.type,
-      completedAt: Date.now(),
+      completedAt,
       duration: args.duration,
       conversationId: args.conversationId,
       data: args.data,
     });
 
+    await recordStreakActivity(ctx, args.userId, "exercise", completedAt);
+
     return exerciseId;
   },
 });
@@ -199,8 +208,12 @@ export const recordExerciseCompletion = mutation({
   args: {
     userId: v.id("users"),
     type: v.string(),
+    // Catalog id, used by the recommender (see recommendations.ts)
+    exerciseId: v.optional(v.string()),
     duration: v.optional(v.number()),
     conversationId: v.optional(v.id("conversations")),
+    // Set when started from an assistant action card
+    messageId: v.optional(v.id("messages")),
     data: v.object({
       inputs: v.optional(v.any()),
       outputs: v.optional(v.object({
@@ -211,8 +224,21 @@ export const recordExerciseCompletion = mutation({
         effectiveness: v.optional(v.number()),
       })),
     }),
+    // Set when replayed from the offline outbox
+    clientId: v.optional(v.string()),
+    clientTimestamp: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    if (args.clientId) {
+      const existing = await ctx.db
+        .query("exercises")
+        .withIndex("by_user_client", (q) => q.eq("userId", args.userId).eq("clientId", args.clientId))
+        .first();
+      if (existing) return existing._id;
+    }
+
+    await assertPrivateFieldsEncrypted(ctx, args.userId, privateExerciseText(args.data));
+
     // Extract effectiveness from outputs for backward compatibility
     const effectiveness = args.data.outputs?.effectiveness;
     
@@ -221,15 +247,30 @@ export const recordExerciseCompletion = mutation({
       effectiveness: effectiveness || args.data.outputs?.effectiveness,
     };
     
+    const completedAt = resolveClientTimestamp(args.clientTimestamp, Date.now());
     const exerciseId = await ctx.db.insert("exercises", {
       userId: args.userId,
       type: args.type,
-      completedAt: Date.now(),
+      exerciseId: args.exerciseId,
+      completedAt,
       duration: args.duration,
       conversationId: args.conversationId,
+      messageId: args.messageId,
       data: exerciseData,
+      clientId: args.clientId,
     });
 
+    await recordStreakActivity(ctx, args.userId, "exercise", completedAt);
+
+    if (args.messageId) {
+      await completeChatAction(ctx, {
+        userId: args.userId,
+        messageId: args.messageId,
+        type: args.type,
+        exerciseId,
+      });
+    }
+
     return exerciseId;
   },
 });
@@ -282,13 +323,19 @@ export const recordExerciseByClerkId = mutation({
     if (!userId) {
       throw new Error("User not found");
     }
+    await assertPrivateFieldsEncrypted(ctx, userId, privateExerciseText(args.data));
 
-    return await ctx.db.insert("exercises", {
+    const completedAt = Date.now();
+    const exerciseId = await ctx.db.insert("exercises", {
       userId,
       type: args.type,
-      completedAt: Date.now(),
+      completedAt,
       duration: args.duration,
       data: args.data,
     });
+
+    await recordStreakActivity(ctx, userId, "exercise", completedAt);
+
+    return exerciseId;
   },
 });
\ No newline at end of file
@@ -0,0 +1,118 @@
+/**
+ * Unit Tests for the crisis hotline directory
+ * Tests timezone-based country inference, hotline ranking with international fallback and dataset integrity
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  countryFromTimezone,
+  HOTLINE_COUNTRIES,
+  HOTLINES,
+  INTERNATIONAL,
+  internationalHotlines,
+  rankHotlines,
+} from './hotlines';
+
+// Resources as seeded: one document per dataset entry and language
+const seeded = HOTLINES.flatMap(entry => (['en', 'ar'] as const).map(language => ({
+  title: entry.title[language],
+  type: entry.type,
+  country: entry.country,
+  language,
+  metadata: { externalId: `hotline:${entry.id}:${language}` },
+})));
+
+describe('Hotline Directory', () => {
+  describe('countryFromTimezone', () => {
+    it('should map MENA time zones to their country', () => {
+      expect(countryFromTimezone('Asia/Riyadh')).toBe('SA');
+      expect(countryFromTimezone('Asia/Dubai')).toBe('AE');
+      expect(countryFromTimezone('Africa/Cairo')).toBe('EG');
+      expect(countryFromTimezone('Asia/Beirut')).toBe('LB');
+    });
+
+    it('should tell US and Canadian zones apart', () => {
+      expect(countryFromTimezone('America/New_York')).toBe('US');
+      expect(countryFromTimezone('America/Toronto')).toBe('CA');
+      expect(countryFromTimezone('Australia/Sydney')).toBe('AU');
+      expect(countryFromTimezone('Europe/London')).toBe('GB');
+    });
+
+    it('should return undefined for unknown or shared zones', () => {
+      expect(countryFromTimezone(undefined)).toBeUndefined();
+      expect(countryFromTimezone('Europe/Paris')).toBeUndefined();
+      expect(countryFromTimezone('UTC')).toBeUndefined();
+    });
+  });
+
+  describe('rankHotlines', () => {
+    it('should return local lines, crisis lines before emergency services', () => {
+      const { hotlines, isFallback } = rankHotlines(seeded, { country: 'SA', language: 'en' });
+
+      expect(isFallback).toBe(false);
+      expect(hotlines.map(h => h.metadata.externalId)).toEqual([
+        'hotline:sa-ncmh:en',
+        'hotline:sa-emergency:en',
+      ]);
+    });
+
+    it('should pick each line once in the user\'s language', () => {
+      const { hotlines } = rankHotlines(seeded, { country: 'LB', language: 'ar' });
+
+      expect(hotlines.every(h => h.language === 'ar')).toBe(true);
+      expect(hotlines[0].title).toBe('خط الحياة - إمبريس');
+    });
+
+    it('should fall back to English when a line has no translation', () => {
+      const englishOnly = seeded.filter(h => !(h.metadata.externalId === 'hotline:us-988:ar'));
+      const { hotlines } = rankHotlines(englishOnly, { country: 'US', language: 'ar' });
+
+      expect(hotlines.map(h => h.metadata.externalId)).toEqual([
+        'hotline:us-988:en',
+        'hotline:us-emergency:ar',
+      ]);
+    });
+
+    it('should fall back to international lines for unknown or unlisted countries', () => {
+      for (const country of [undefined, 'FR']) {
+        const { hotlines, isFallback } = rankHotlines(seeded, { country, language: 'en' });
+
+        expect(isFallback).toBe(true);
+        expect(hotlines.length).toBeGreaterThan(0);
+        expect(hotlines.every(h => h.country === INTERNATIONAL)).toBe(true);
+      }
+    });
+  });
+
+  describe('Dataset', () => {
+    it('should list emergency services for every supported country', () => {
+      for (const country of Object.keys(HOTLINE_COUNTRIES)) {
+        const emergency = HOTLINES.find(h => h.country === country && h.type === 'emergency');
+        expect(emergency?.phone, country).toBeTruthy();
+      }
+    });
+
+    it('should only reference supported countries', () => {
+      for (const entry of HOTLINES) {
+        expect(entry.country === INTERNATIONAL || !!HOTLINE_COUNTRIES[entry.country], entry.id).toBe(true);
+      }
+    });
+
+    it('should give every entry a way to reach it and both languages', () => {
+      const ids = new Set<string>();
+      for (const entry of HOTLINES) {
+        expect(entry.phone || entry.url, entry.id).toBeTruthy();
+        expect(entry.title.en && entry.title.ar && entry.description.en && entry.description.ar, entry.id).toBeTruthy();
+        expect(ids.has(entry.id), entry.id).toBe(false);
+        ids.add(entry.id);
+      }
+    });
+
+    it('should offer the international lines in the user\'s language without the directory', () => {
+      const international = HOTLINES.filter(entry => entry.country === INTERNATIONAL);
+
+      expect(internationalHotlines('ar').map(line => line.title)).toEqual(international.map(entry => entry.title.ar));
+      expect(internationalHotlines('fr').map(line => line.title)).toEqual(international.map(entry => entry.title.en));
+    });
+  });
+});
@@ -0,0 +1,451 @@
+import { v } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+import { internalMutation, MutationCtx, query } from "./_generated/server";
+
+// Country-aware crisis hotline directory.
+//
+// Hotlines live in the resources table (type "hotline" for crisis lines,
+// "emergency" for emergency services) with one document per language, keyed by
+// metadata.externalId = "hotline:<id>:<language>". seedHotlines upserts the
+// dataset below; getRankedHotlines returns the lines for the user's country and
+// falls back to international directories when we have nothing local.
+//
+// Numbers change. Re-check every entry against the provider's own site before
+// bumping HOTLINE_DATASET_VERSION.
+
+export const HOTLINE_DATASET_VERSION = "2026-10";
+
+// Pseudo country code for services that work from anywhere
+export const INTERNATIONAL = "INTL";
+
+type Localized = { en: string; ar: string };
+
+export interface HotlineEntry {
+  id: string;
+  country: string; // ISO 3166-1 alpha-2, or INTERNATIONAL
+  type: "hotline" | "emergency";
+  phone?: string;
+  url?: string;
+  title: Localized;
+  description: Localized;
+}
+
+export const HOTLINE_COUNTRIES: Record<string, Localized> = {
+  SA: { en: "Saudi Arabia", ar: "المملكة العربية السعودية" },
+  AE: { en: "United Arab Emirates", ar: "الإمارات العربية المتحدة" },
+  KW: { en: "Kuwait", ar: "الكويت" },
+  QA: { en: "Qatar", ar: "قطر" },
+  BH: { en: "Bahrain", ar: "البحرين" },
+  OM: { en: "Oman", ar: "عُمان" },
+  EG: { en: "Egypt", ar: "مصر" },
+  JO: { en: "Jordan", ar: "الأردن" },
+  LB: { en: "Lebanon", ar: "لبنان" },
+  MA: { en: "Morocco", ar: "المغرب" },
+  TN: { en: "Tunisia", ar: "تونس" },
+  DZ: { en: "Algeria", ar: "الجزائر" },
+  US: { en: "United States", ar: "الولايات المتحدة" },
+  CA: { en: "Canada", ar: "كندا" },
+  GB: { en: "United Kingdom", ar: "المملكة المتحدة" },
+  IE: { en: "Ireland", ar: "أيرلندا" },
+  AU: { en: "Australia", ar: "أستراليا" },
+  NZ: { en: "New Zealand", ar: "نيوزيلندا" },
+};
+
+const emergencyServices = (country: string, phone: string): HotlineEntry => ({
+  id: `${country.toLowerCase()}-emergency`,
+  country,
+  type: "emergency",
+  phone,
+  title: { en: "Emergency Services", ar: "خدمات الطوارئ" },
+  description: {
+    en: "Call if you or someone else is in immediate danger.",
+    ar: "اتصل إذا كنت أنت أو شخص آخر في خطر مباشر.",
+  },
+});
+
+export const HOTLINES: HotlineEntry[] = [
+  // MENA
+  {
+    id: "sa-ncmh",
+    country: "SA",
+    type: "hotline",
+    phone: "920033360",
+    title: { en: "National Center for Mental Health Promotion", ar: "المركز الوطني لتعزيز الصحة النفسية" },
+    description: {
+      en: "Free, confidential psychological support and counselling.",
+      ar: "دعم واستشارات نفسية مجانية وسرية.",
+    },
+  },
+  emergencyServices("SA", "911"),
+  {
+    id: "ae-hope",
+    country: "AE",
+    type: "hotline",
+    phone: "800 4673",
+    title: { en: "Mental Support Line (800 HOPE)", ar: "خط الدعم النفسي (800 HOPE)" },
+    description: {
+      en: "Free psychological support line for residents of the UAE.",
+      ar: "خط دعم نفسي مجاني للمقيمين في الإمارات.",
+    },
+  },
+  emergencyServices("AE", "999"),
+  emergencyServices("KW", "112"),
+  {
+    id: "qa-hmc",
+    country: "QA",
+    type: "hotline",
+    phone: "16000",
+    title: { en: "Mental Health Helpline (Hamad Medical Corporation)", ar: "خط المساعدة للصحة النفسية (مؤسسة حمد الطبية)" },
+    description: {
+      en: "Confidential mental health support from trained professionals.",
+      ar: "دعم سري للصحة النفسية من مختصين مدربين.",
+    },
+  },
+  emergencyServices("QA", "999"),
+  emergencyServices("BH", "999"),
+  emergencyServices("OM", "9999"),
+  {
+    id: "eg-mental-health",
+    country: "EG",
+    type: "hotline",
+    phone: "0800 888 0700",
+    title: { en: "General Secretariat of Mental Health Hotline", ar: "الخط الساخن للأمانة العامة للصحة النفسية" },
+    description: {
+      en: "Free mental health support and referrals.",
+      ar: "دعم مجاني للصحة النفسية وإحالات للعلاج.",
+    },
+  },
+  emergencyServices("EG", "123"),
+  emergencyServices("JO", "911"),
+  {
+    id: "lb-embrace",
+    country: "LB",
+    type: "hotline",
+    phone: "1564",
+    title: { en: "Embrace Lifeline", ar: "خط الحياة - إمبريس" },
+    description: {
+      en: "National emotional support and suicide prevention line.",
+      ar: "الخط الوطني للدعم النفسي والوقاية من الانتحار.",
+    },
+  },
+  emergencyServices("LB", "112"),
+  emergencyServices("MA", "15"),
+  emergencyServices("TN", "190"),
+  emergencyServices("DZ", "14"),
+
+  // English-speaking countries
+  {
+    id: "us-988",
+    country: "US",
+    type: "hotline",
+    phone: "988",
+    url: "https://988lifeline.org",
+    title: { en: "988 Suicide & Crisis Lifeline", ar: "خط 988 للأزمات والوقاية من الانتحار" },
+    description: {
+      en: "Call or text 988, 24/7.",
+      ar: "اتصل أو أرسل رسالة إلى 988 على مدار الساعة.",
+    },
+  },
+  emergencyServices("US", "911"),
+  {
+    id: "ca-988",
+    country: "CA",
+    type: "hotline",
+    phone: "988",
+    url: "https://988.ca",
+    title: { en: "9-8-8 Suicide Crisis Helpline", ar: "خط 9-8-8 لأزمات الانتحار" },
+    description: {
+      en: "Call or text 988, 24/7, in English or French.",
+      ar: "اتصل أو أرسل رسالة إلى 988 على مدار الساعة بالإنجليزية أو الفرنسية.",
+    },
+  },
+  emergencyServices("CA", "911"),
+  {
+    id: "gb-samaritans",
+    country: "GB",
+    type: "hotline",
+    phone: "116 123",
+    url: "https://www.samaritans.org",
+    title: { en: "Samaritans", ar: "ساماريتانز" },
+    description: {
+      en: "Free to call, 24/7, whatever you're going through.",
+      ar: "اتصال مجاني على مدار الساعة مهما كان ما تمر به.",
+    },
+  },
+  emergencyServices("GB", "999"),
+  {
+    id: "ie-samaritans",
+    country: "IE",
+    type: "hotline",
+    phone: "116 123",
+    url: "https://www.samaritans.org",
+    title: { en: "Samaritans Ireland", ar: "ساماريتانز أيرلندا" },
+    description: {
+      en: "Free to call, 24/7, whatever you're going through.",
+      ar: "اتصال مجاني على مدار الساعة مهما كان ما تمر به.",
+    },
+  },
+  emergencyServices("IE", "112"),
+  {
+    id: "au-lifeline",
+    country: "AU",
+    type: "hotline",
+    phone: "13 11 14",
+    url: "https://www.lifeline.org.au",
+    title: { en: "Lifeline Australia", ar: "لايف لاين أستراليا" },
+    description: {
+      en: "24/7 crisis support and suicide prevention.",
+      ar: "دعم في الأزمات ووقاية من الانتحار على مدار الساعة.",
+    },
+  },
+  emergencyServices("AU", "000"),
+  {
+    id: "nz-1737",
+    country: "NZ",
+    type: "hotline",
+    phone: "1737",
+    url: "https://1737.org.nz",
+    title: { en: "Need to talk? 1737", ar: "هل تحتاج إلى التحدث؟ 1737" },
+    description: {
+      en: "Call or text 1737 any time to talk with a trained counsellor.",
+      ar: "اتصل أو أرسل رسالة إلى 1737 في أي وقت للتحدث مع مستشار مدرب.",
+    },
+  },
+  emergencyServices("NZ", "111"),
+
+  // International fallbacks
+  {
+    id: "intl-find-a-helpline",
+    country: INTERNATIONAL,
+    type: "hotline",
+    url: "https://findahelpline.com",
+    title: { en: "Find A Helpline", ar: "ابحث عن خط مساعدة" },
+    description: {
+      en: "Free, confidential helplines in over 130 countries.",
+      ar: "خطوط مساعدة مجانية وسرية في أكثر من 130 دولة.",
+    },
+  },
+  {
+    id: "intl-befrienders",
+    country: INTERNATIONAL,
+    type: "hotline",
+    url: "https://befrienders.org",
+    title: { en: "Befrienders Worldwide", ar: "بيفريندرز العالمية" },
+    description: {
+      en: "Emotional support centres around the world.",
+      ar: "مراكز للدعم العاطفي حول العالم.",
+    },
+  },
+];
+
+// Time zones that identify a single supported country
+const TIMEZONE_COUNTRIES: Record<string, string> = {
+  "Asia/Riyadh": "SA",
+  "Asia/Dubai": "AE",
+  "Asia/Kuwait": "KW",
+  "Asia/Qatar": "QA",
+  "Asia/Bahrain": "BH",
+  "Asia/Muscat": "OM",
+  "Africa/Cairo": "EG",
+  "Asia/Amman": "JO",
+  "Asia/Beirut": "LB",
+  "Africa/Casablanca": "MA",
+  "Africa/Tunis": "TN",
+  "Africa/Algiers": "DZ",
+  "Europe/London": "GB",
+  "Europe/Belfast": "GB",
+  "Europe/Dublin": "IE",
+  "Pacific/Auckland": "NZ",
+  "Pacific/Chatham": "NZ",
+};
+
+const TIMEZONE_PREFIX_COUNTRIES: [prefix: string, country: string][] = [
+  ["Australia/", "AU"],
+  ["Canada/", "CA"],
+  ["US/", "US"],
+];
+
+// IANA America/* zones that belong to Canada; every other listed one is US
+const CANADIAN_ZONES = new Set([
+  "America/Toronto", "America/Vancouver", "America/Edmonton", "America/Winnipeg",
+  "America/Halifax", "America/St_Johns", "America/Regina", "America/Moncton",
+  "America/Whitehorse", "America/Yellowknife", "America/Iqaluit", "America/Montreal",
+]);
+const US_ZONES = new Set([
+  "America/New_York", "America/Chicago", "America/Denver", "America/Los_Angeles",
+  "America/Phoenix", "America/Anchorage", "America/Detroit", "America/Boise",
+  "America/Indiana/Indianapolis", "America/Kentucky/Louisville", "Pacific/Honolulu",
+]);
+
+// Best-effort country for a device time zone; undefined when ambiguous or unsupported
+export function countryFromTimezone(timezone: string | undefined): string | undefined {
+  if (!timezone) return undefined;
+  if (TIMEZONE_COUNTRIES[timezone]) return TIMEZONE_COUNTRIES[timezone];
+  if (CANADIAN_ZONES.has(timezone)) return "CA";
+  if (US_ZONES.has(timezone)) return "US";
+  return TIMEZONE_PREFIX_COUNTRIES.find(([prefix]) => timezone.startsWith(prefix))?.[1];
+}
+
+// The international lines straight from the dataset, for when the directory
+// can't be read
+export function internationalHotlines(language: string) {
+  const lang = language === "ar" ? "ar" : "en";
+  return HOTLINES
+    .filter(entry => entry.country === INTERNATIONAL)
+    .map(entry => ({
+      type: entry.type,
+      title: entry.title[lang],
+      description: entry.description[lang],
+      url: entry.url,
+      phone: entry.phone,
+    }));
+}
+
+type RankableHotline = Pick<Doc<"resources">, "type" | "language" | "country" | "title"> & {
+  _id?: string;
+  metadata?: Doc<"resources">["metadata"];
+};
+
+// The same line in another language shares everything but the language suffix
+function hotlineKey(resource: RankableHotline): string {
+  const externalId = resource.metadata?.externalId;
+  if (externalId?.startsWith("hotline:")) {
+    return externalId.split(":").slice(0, 2).join(":");
+  }
+  return resource._id ?? `${resource.country}:${resource.title}`;
+}
+
+// Pick each line once (in the user's language, else English) and order the
+// local lines crisis-first. International lines are used only when the
+// country has none of its own.
+export function rankHotlines<T extends RankableHotline>(
+  resources: T[],
+  options: { country?: string; language?: string }
+): { hotlines: T[]; isFallback: boolean } {
+  const language = options.language || "en";
+
+  const byKey = new Map<string, T>();
+  for (const resource of resources) {
+    const key = hotlineKey(resource);
+    const current = byKey.get(key);
+    const preferred = !current
+      || (resource.language === language && current.language !== language)
+      || (resource.language === "en" && current.language !== language && current.language !== "en");
+    if (preferred) byKey.set(key, resource);
+  }
+  const unique = [...byKey.values()];
+
+  const local = options.country
+    ? unique.filter(resource => resource.country === options.country)
+    : [];
+  const isFallback = local.length === 0;
+  const selected = isFallback
+    ? unique.filter(resource => resource.country === INTERNATIONAL)
+    : local;
+
+  const typeOrder = (resource: T) => (resource.type === "hotline" ? 0 : 1);
+  const languageOrder = (resource: T) => (resource.language === language ? 0 : 1);
+  const hotlines = [...selected].sort((a, b) =>
+    typeOrder(a) - typeOrder(b)
+    || languageOrder(a) - languageOrder(b)
+    || a.title.localeCompare(b.title)
+  );
+
+  return { hotlines, isFallback };
+}
+
+// Insert or refresh every dataset entry, once per language
+export async function upsertHotlines(ctx: MutationCtx): Promise<{ inserted: number; updated: number }> {
+  const existing = [
+    ...(await ctx.db.query("resources").withIndex("by_type", (q) => q.eq("type", "hotline")).collect()),
+    ...(await ctx.db.query("resources").withIndex("by_type", (q) => q.eq("type", "emergency")).collect()),
+  ];
+  const byExternalId = new Map(
+    existing
+      .filter(resource => resource.metadata?.externalId)
+      .map(resource => [resource.metadata!.externalId!, resource])
+  );
+
+  let inserted = 0;
+  let updated = 0;
+  for (const entry of HOTLINES) {
+    for (const language of ["en", "ar"] as const) {
+      const externalId = `hotline:${entry.id}:${language}`;
+      const document = {
+        title: entry.title[language],
+        description: entry.description[language],
+        type: entry.type,
+        url: entry.url,
+        phone: entry.phone,
+        country: entry.country,
+        language,
+        tags: ["crisis", entry.type],
+        isPublic: true,
+        isEmergency: true,
+        metadata: {
+          source: "hotline-directory",
+          externalId,
+          version: HOTLINE_DATASET_VERSION,
+          lastUpdated: Date.now(),
+        },
+      };
+
+      const current = byExternalId.get(externalId);
+      if (current) {
+        await ctx.db.patch(current._id, document);
+        updated++;
+      } else {
+        await ctx.db.insert("resources", document);
+        inserted++;
+      }
+    }
+  }
+  return { inserted, updated };
+}
+
+// Seed or refresh the directory: npx convex run hotlines:seedHotlines
+export const seedHotlines = internalMutation({
+  args: {},
+  returns: v.object({ inserted: v.number(), updated: v.number() }),
+  handler: async (ctx) => {
+    return await upsertHotlines(ctx);
+  },
+});
+
+// Ranked hotlines for a country, with international fallback
+export const getRankedHotlines = query({
+  args: {
+    country: v.optional(v.string()),
+    language: v.optional(v.string()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const resources = await ctx.db
+      .query("resources")
+      .filter((q) => q.eq(q.field("isEmergency"), true))
+      .filter((q) => q.eq(q.field("isPublic"), true))
+      .collect();
+
+    const country = args.country?.toUpperCase();
+    const { hotlines, isFallback } = rankHotlines(resources, { country, language: args.language });
+    const names = country ? HOTLINE_COUNTRIES[country] : undefined;
+
+    return {
+      country: country ?? null,
+      countryName: names ? names[args.language === "ar" ? "ar" : "en"] : null,
+      isFallback,
+      hotlines: hotlines.slice(0, args.limit ?? 10),
+    };
+  },
+});
+
+// Countries with a local directory, for the region picker
+export const getHotlineCountries = query({
+  args: { language: v.optional(v.string()) },
+  handler: async (_ctx, args) => {
+    const language = args.language === "ar" ? "ar" : "en";
+    return Object.entries(HOTLINE_COUNTRIES)
+      .map(([code, names]) => ({ code, name: names[language] }))
+      .sort((a, b) => a.name.localeCompare(b.name, language));
+  },
+});
@@ -0,0 +1,105 @@
+// Pluggable revocation of the user's sign-in identity, used when an account is
+// deleted (accounts.ts).
+//
+// The revoker is selected from the Convex environment:
+//   IDENTITY_REVOKER = "log" | "webhook" | "clerk"
+// "log" is the default and only records the request in the Convex logs, so
+// local and staging deployments never touch real Clerk users. It doesn't
+// revoke anything, so deletions through it report identityRevoked: false.
+// "webhook" POSTs {clerkId, event} to IDENTITY_REVOKER_WEBHOOK_URL, standing in
+// for whatever backend owns the Clerk account.
+// "clerk" deletes the user directly through the Clerk Backend API with
+// CLERK_SECRET_KEY.
+
+export type IdentityRevokerName = "log" | "webhook" | "clerk";
+
+export interface IdentityRevoker {
+  name: IdentityRevokerName;
+  // Whether revoke() actually removes the sign-in identity
+  revokes: boolean;
+  revoke(clerkId: string): Promise<void>;
+}
+
+type Env = Record<string, string | undefined>;
+
+const CLERK_API_URL = "https://api.clerk.com/v1";
+
+// Resolve the revoker configured for this deployment
+export function getIdentityRevoker(env: Env = process.env): IdentityRevoker {
+  const name = (env.IDENTITY_REVOKER || "log").toLowerCase();
+
+  switch (name) {
+    case "log":
+      return createLogRevoker();
+    case "webhook":
+      return createWebhookRevoker(env);
+    case "clerk":
+      return createClerkRevoker(env);
+    default:
+      throw new Error(`Unknown identity revoker: ${name}`);
+  }
+}
+
+// Keep Clerk IDs out of the logs in full
+export function maskClerkId(clerkId: string): string {
+  return clerkId.length > 4 ? `***${clerkId.slice(-4)}` : "***";
+}
+
+function createLogRevoker(): IdentityRevoker {
+  return {
+    name: "log",
+    revokes: false,
+    async revoke(clerkId) {
+      console.log("Identity revoker (log only): delete user", maskClerkId(clerkId));
+    },
+  };
+}
+
+function createWebhookRevoker(env: Env): IdentityRevoker {
+  const url = env.IDENTITY_REVOKER_WEBHOOK_URL;
+  if (!url) {
+    throw new Error("Identity revoker webhook URL not configured");
+  }
+
+  return {
+    name: "webhook",
+    revokes: true,
+    async revoke(clerkId) {
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (env.IDENTITY_REVOKER_WEBHOOK_TOKEN) {
+        headers.Authorization = `Bearer ${env.IDENTITY_REVOKER_WEBHOOK_TOKEN}`;
+      }
+
+      const response = await fetch(url, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ event: "user.deleted", clerkId }),
+      });
+      if (!response.ok) {
+        throw new Error(`Identity revoker webhook error: ${response.statusText}`);
+      }
+    },
+  };
+}
+
+function createClerkRevoker(env: Env): IdentityRevoker {
+  const secretKey = env.CLERK_SECRET_KEY;
+  if (!secretKey) {
+    throw new Error("Clerk secret key not configured");
+  }
+
+  return {
+    name: "clerk",
+    revokes: true,
+    async revoke(clerkId) {
+      const response = await fetch(`${CLERK_API_URL}/users/${encodeURIComponent(clerkId)}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${secretKey}` },
+      });
+      // Already gone counts as revoked
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`Clerk API error: ${response.statusText}`);
+      }
+    },
+  };
+}
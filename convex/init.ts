@@ -1,4 +1,7 @@
 import { mutation } from "./_generated/server";
+import { BUILT_IN_EXERCISE_DEFINITIONS } from "./exerciseCatalog";
+import { upsertExerciseDefinitions } from "./exerciseDefinitions";
+import { upsertHotlines } from "./hotlines";
 
 // Initialize the database with sample data
 export const initializeDatabase = mutation({
@@ -62,6 +65,12 @@ export const initializeDatabase = mutation({
       await ctx.db.insert("resources", resource);
     }
 
+    // Crisis hotline directory (see hotlines.ts)
+    await upsertHotlines(ctx);
+
+    // Exercise catalog (see exerciseDefinitions.ts)
+    await upsertExerciseDefinitions(ctx, BUILT_IN_EXERCISE_DEFINITIONS);
+
     return { message: "Database initialized with sample data" };
   },
 });
\ No newline at end of file
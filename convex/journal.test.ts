@@ -0,0 +1,183 @@
+// @vitest-environment edge-runtime
+/// <reference types="vite/client" />
+/**
+ * Tests for the journal
+ * Tests tags, daily prompts, full-text search, encrypted entries and AI reflections
+ */
+
+import { convexTest } from 'convex-test';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { api } from './_generated/api';
+import { Doc } from './_generated/dataModel';
+import { buildSearchText, JOURNAL_PROMPTS, MAX_JOURNAL_TAGS, normalizeTags, promptForDate } from './journal';
+import schema from './schema';
+
+const modules = import.meta.glob('./**/*.ts');
+
+// Reflections go through the in-process mock provider
+process.env.LLM_PROVIDER = 'mock';
+
+const now = Date.UTC(2025, 2, 1, 12);
+
+describe('Journal', () => {
+  it('should normalize tags', () => {
+    expect(normalizeTags([' Work ', '#work', 'family', ''])).toEqual(['work', 'family']);
+    expect(() => normalizeTags(Array.from({ length: MAX_JOURNAL_TAGS + 1 }, (_, i) => `tag${i}`)))
+      .toThrow(`An entry can have at most ${MAX_JOURNAL_TAGS} tags`);
+  });
+
+  it('should index plain text but never ciphertext', () => {
+    expect(buildSearchText({ title: 'Monday', content: '# Today\n- **Long** walk', tags: ['health'] }))
+      .toBe('monday health today\nlong walk');
+    expect(buildSearchText({ title: 'e2e:v1:abc', content: 'e2e:v1:def', tags: ['health'] })).toBe('health');
+  });
+
+  it('should rotate through every prompt, one per day', () => {
+    const ids = new Set(JOURNAL_PROMPTS.map((_, day) => promptForDate(new Date(Date.UTC(2025, 0, 1 + day)).toISOString().slice(0, 10)).id));
+
+    expect(ids.size).toBe(JOURNAL_PROMPTS.length);
+    expect(promptForDate('2025-01-01')).toEqual(promptForDate('2025-01-01'));
+  });
+
+  describe('entries', () => {
+    let t: ReturnType<typeof convexTest>;
+
+    beforeEach(() => {
+      t = convexTest(schema, modules);
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(now);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should pick the daily prompt in the user\'s timezone', async () => {
+      // 12:00 UTC on 1 March is already 2 March in Kiritimati (UTC+14)
+      const userId = await t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_1', timezone: 'Pacific/Kiritimati' }));
+
+      const prompt = await t.query(api.journal.getDailyPrompt, { userId });
+
+      expect(prompt.date).toBe('2025-03-02');
+      expect(prompt.id).toBe(promptForDate('2025-03-02').id);
+    });
+
+    it('should save an entry with tags and an attached mood', async () => {
+      const userId = await t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_1' }));
+      const moodId = await t.mutation(api.moods.recordMood, { userId, rating: 7 });
+
+      const entryId = await t.mutation(api.journal.createJournalEntry, {
+        userId,
+        title: '  A good day ',
+        content: 'Went for a **long** walk',
+        tags: ['Health', '#health'],
+        moodId,
+        promptId: 'small-win',
+      });
+
+      const result = await t.query(api.journal.getJournalEntry, { userId, entryId });
+      expect(result?.entry).toMatchObject({ title: 'A good day', tags: ['health'], promptId: 'small-win', createdAt: now });
+      expect(result?.mood?.rating).toBe(7);
+      expect(result?.reflections).toEqual([]);
+    });
+
+    it('should not attach another user\'s mood or edit their entries', async () => {
+      const userId = await t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_1' }));
+      const otherId = await t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_2' }));
+      const otherMood = await t.mutation(api.moods.recordMood, { userId: otherId, rating: 3 });
+      const entryId = await t.mutation(api.journal.createJournalEntry, { userId, content: 'Mine' });
+
+      await expect(t.mutation(api.journal.createJournalEntry, { userId, content: 'Hi', moodId: otherMood }))
+        .rejects.toThrow('Mood entry not found');
+      await expect(t.mutation(api.journal.updateJournalEntry, { userId: otherId, entryId, content: 'Theirs' }))
+        .rejects.toThrow('Journal entry not found');
+      await expect(t.mutation(api.journal.createJournalEntry, { userId, content: '   ' }))
+        .rejects.toThrow('Write something before saving');
+    });
+
+    it('should find entries by words in the title, content and tags', async () => {
+      const userId = await t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_1' }));
+      const otherId = await t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_2' }));
+      const walk = await t.mutation(api.journal.createJournalEntry, { userId, content: 'A long Walk by the sea', tags: ['health'] });
+      const work = await t.mutation(api.journal.createJournalEntry, { userId, title: 'Deadline', content: 'Stressful meeting', tags: ['work'] });
+      await t.mutation(api.journal.createJournalEntry, { userId: otherId, content: 'Walk to school' });
+
+      const byContent = await t.query(api.journal.searchJournalEntries, { userId, query: 'walk' });
+      const byTitle = await t.query(api.journal.searchJournalEntries, { userId, query: 'Deadline' });
+      const byTagFilter = await t.query(api.journal.searchJournalEntries, { userId, query: 'walk', tag: 'work' });
+
+      expect(byContent.map((entry: Doc<'journalEntries'>) => entry._id)).toEqual([walk]);
+      expect(byTitle.map((entry: Doc<'journalEntries'>) => entry._id)).toEqual([work]);
+      expect(byTagFilter).toEqual([]);
+
+      await t.mutation(api.journal.updateJournalEntry, { userId, entryId: walk, content: 'A quiet evening' });
+      expect(await t.query(api.journal.searchJournalEntries, { userId, query: 'walk' })).toEqual([]);
+    });
+
+    it('should list entries by tag and count tags', async () => {
+      const userId = await t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_1' }));
+      await t.mutation(api.journal.createJournalEntry, { userId, content: 'One', tags: ['work', 'sleep'] });
+      vi.setSystemTime(now + 1000);
+      await t.mutation(api.journal.createJournalEntry, { userId, content: 'Two', tags: ['work'] });
+
+      const work = await t.query(api.journal.listJournalEntries, { userId, tag: 'Work' });
+      const tags = await t.query(api.journal.getJournalTags, { userId });
+
+      expect(work.map((entry: Doc<'journalEntries'>) => entry.content)).toEqual(['Two', 'One']);
+      expect(tags).toEqual([{ tag: 'work', count: 2 }, { tag: 'sleep', count: 1 }]);
+    });
+
+    it('should require ciphertext once encryption is on and keep it out of search', async () => {
+      const userId = await t.run(ctx => ctx.db.insert('users', {
+        clerkId: 'clerk_1',
+        encryption: {
+          version: 1,
+          keyBackup: { kdf: 'scrypt', N: 16384, r: 8, p: 1, salt: 'salt', wrappedKey: 'e2e:v1:key' },
+          enabledAt: now,
+        },
+      }));
+
+      await expect(t.mutation(api.journal.createJournalEntry, { userId, content: 'plain text' }))
+        .rejects.toThrow('Private fields must be encrypted for this account');
+
+      const entryId = await t.mutation(api.journal.createJournalEntry, { userId, content: 'e2e:v1:abcd', tags: ['sleep'] });
+      expect(await t.query(api.journal.searchJournalEntries, { userId, query: 'sleep' })).toHaveLength(1);
+      await expect(t.action(api.journal.reflectOnEntry, { userId, entryId, language: 'en' }))
+        .rejects.toThrow("Reflections aren't available for encrypted entries");
+    });
+
+    it('should store a reflection linked to the entry', async () => {
+      const userId = await t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_1' }));
+      const entryId = await t.mutation(api.journal.createJournalEntry, { userId, content: 'Work was busy but I managed.' });
+
+      const result = await t.action(api.journal.reflectOnEntry, { userId, entryId, language: 'en' });
+
+      expect(result.routeToCrisis).toBe(false);
+      const entry = await t.query(api.journal.getJournalEntry, { userId, entryId });
+      expect(entry?.reflections).toHaveLength(1);
+      expect(entry?.reflections[0]).toMatchObject({ _id: result.reflectionId, language: 'en' });
+      expect(entry?.reflections[0].content).toContain('Thank you for writing this down');
+
+      await t.mutation(api.journal.deleteJournalEntry, { userId, entryId });
+      const remaining = await t.run(ctx => ctx.db.query('journalReflections').collect());
+      expect(remaining).toEqual([]);
+    });
+
+    it('should route a crisis entry to the crisis flow instead of reflecting', async () => {
+      // The critical event schedules its escalation
+      vi.useRealTimers();
+      vi.useFakeTimers();
+      vi.setSystemTime(now);
+      const userId = await t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_1' }));
+      const entryId = await t.mutation(api.journal.createJournalEntry, { userId, content: 'I want to kill myself tonight' });
+
+      const result = await t.action(api.journal.reflectOnEntry, { userId, entryId, language: 'en' });
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+      expect(result).toEqual({ reflectionId: null, routeToCrisis: true });
+      const events = await t.run(ctx => ctx.db.query('crisisEvents').collect());
+      expect(events).toHaveLength(1);
+      expect(await t.run(ctx => ctx.db.query('journalReflections').collect())).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,367 @@
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { action, internalMutation, internalQuery, mutation, MutationCtx, query, QueryCtx } from "./_generated/server";
+import { classifyMessage } from "./crisisClassifier";
+import { assertPrivateFieldsEncrypted, isEncryptedValue } from "./encryption";
+import { getLLMProvider } from "./llm";
+import { LocalizedText } from "./questionnaires";
+import { searchTerms, toSearchText } from "./searchText";
+import { daysBetween, localDate } from "./timezones";
+
+// Journaling.
+//
+// Entries are short Markdown documents with tags, an optional linked mood
+// check-in and the daily prompt they answer. Full-text search runs on a
+// folded copy of the title, content and tags (searchText, see searchText.ts).
+// When end-to-end encryption is on, the title and content arrive as
+// ciphertext, so only the tags are searchable on the server and the client
+// searches the rest locally.
+// "Reflect with Nafsy" sends a plaintext entry to the LLM and stores a short
+// reflection linked to it; entries that read as a crisis are routed to the
+// crisis flow instead of being reflected on.
+
+export const MAX_JOURNAL_TAGS = 10;
+
+export const MAX_TAG_LENGTH = 30;
+
+// Entries returned by one search
+export const JOURNAL_SEARCH_LIMIT = 20;
+
+// Rotated one per day, in the user's timezone
+export const JOURNAL_PROMPTS: { id: string; text: LocalizedText }[] = [
+  { id: "grateful-today", text: { en: "What are three things you're grateful for today?", ar: "ما ثلاثة أشياء تشعر بالامتنان لها اليوم؟" } },
+  { id: "on-your-mind", text: { en: "What has been on your mind the most lately?", ar: "ما الذي يشغل تفكيرك أكثر من غيره مؤخراً؟" } },
+  { id: "small-win", text: { en: "Describe a small win from today, however small.", ar: "صف إنجازاً صغيراً حققته اليوم، مهما كان بسيطاً." } },
+  { id: "energy", text: { en: "What gave you energy today, and what drained it?", ar: "ما الذي منحك الطاقة اليوم، وما الذي استنزفها؟" } },
+  { id: "kind-words", text: { en: "What would you say to a friend who felt the way you feel now?", ar: "ماذا ستقول لصديق يشعر بما تشعر به الآن؟" } },
+  { id: "let-go", text: { en: "Is there something you're ready to let go of?", ar: "هل هناك شيء أصبحت مستعداً للتخلي عنه؟" } },
+  { id: "proud-of", text: { en: "What is something about yourself you're proud of?", ar: "ما الشيء الذي تفخر به في نفسك؟" } },
+  { id: "worry", text: { en: "What is worrying you, and what part of it can you control?", ar: "ما الذي يقلقك، وما الجزء الذي يمكنك التحكم فيه منه؟" } },
+  { id: "connection", text: { en: "Who did you feel connected to recently, and why?", ar: "بمن شعرت بالقرب منه مؤخراً، ولماذا؟" } },
+  { id: "tomorrow", text: { en: "What is one thing you'd like tomorrow to include?", ar: "ما الشيء الذي تتمنى أن يتضمنه يوم غد؟" } },
+  { id: "body", text: { en: "How does your body feel right now? What might it need?", ar: "كيف يشعر جسدك الآن؟ وما الذي قد يحتاجه؟" } },
+  { id: "learned", text: { en: "What did today teach you about yourself?", ar: "ماذا علّمك اليوم عن نفسك؟" } },
+  { id: "comfort", text: { en: "What brings you comfort when things feel hard?", ar: "ما الذي يمنحك الراحة حين تصعب الأمور؟" } },
+  { id: "boundary", text: { en: "Was there a moment today you wish you had said no?", ar: "هل مرت بك لحظة اليوم تمنيت لو قلت فيها لا؟" } },
+];
+
+export function promptForDate(date: string): { id: string; text: LocalizedText } {
+  const index = daysBetween("1970-01-01", date) % JOURNAL_PROMPTS.length;
+  return JOURNAL_PROMPTS[index];
+}
+
+// Trimmed, lowercased, without a leading "#", de-duplicated
+export function normalizeTags(tags: string[]): string[] {
+  const normalized = [...new Set(
+    tags.map(tag => tag.trim().replace(/^#+/, "").trim().toLowerCase()).filter(tag => tag.length > 0)
+  )];
+  if (normalized.length > MAX_JOURNAL_TAGS) {
+    throw new Error(`An entry can have at most ${MAX_JOURNAL_TAGS} tags`);
+  }
+  const tooLong = normalized.find(tag => tag.length > MAX_TAG_LENGTH);
+  if (tooLong) {
+    throw new Error(`Tags can be at most ${MAX_TAG_LENGTH} characters`);
+  }
+  return normalized;
+}
+
+// Content without the Markdown markers
+export function plainJournalText(content: string): string {
+  return content.replace(/^\s*(?:#+|-)\s+/gm, "").replace(/[*_]/g, "");
+}
+
+// What the search index sees; ciphertext is left out
+export function buildSearchText(entry: { title?: string; content: string; tags: string[] }): string {
+  const parts = [...entry.tags];
+  if (entry.title && !isEncryptedValue(entry.title)) parts.unshift(entry.title);
+  if (!isEncryptedValue(entry.content)) {
+    parts.push(plainJournalText(entry.content));
+  }
+  return toSearchText(parts.join(" "));
+}
+
+async function requireEntry(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  entryId: Id<"journalEntries">
+): Promise<Doc<"journalEntries">> {
+  const entry = await ctx.db.get(entryId);
+  if (!entry || entry.userId !== userId) {
+    throw new Error("Journal entry not found");
+  }
+  return entry;
+}
+
+async function assertOwnMood(ctx: MutationCtx, userId: Id<"users">, moodId: Id<"moods"> | undefined) {
+  if (!moodId) return;
+  const mood = await ctx.db.get(moodId);
+  if (!mood || mood.userId !== userId) {
+    throw new Error("Mood entry not found");
+  }
+}
+
+// Today's prompt for the user
+export const getDailyPrompt = query({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    const user = await ctx.db.get(args.userId);
+    const date = localDate(Date.now(), user?.timezone);
+    return { ...promptForDate(date), date };
+  },
+});
+
+export const createJournalEntry = mutation({
+  args: {
+    userId: v.id("users"),
+    title: v.optional(v.string()),
+    content: v.string(),
+    tags: v.optional(v.array(v.string())),
+    moodId: v.optional(v.id("moods")),
+    promptId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const title = args.title?.trim() || undefined;
+    if (!args.content.trim()) {
+      throw new Error("Write something before saving");
+    }
+    const tags = normalizeTags(args.tags ?? []);
+    await assertOwnMood(ctx, args.userId, args.moodId);
+    await assertPrivateFieldsEncrypted(ctx, args.userId, [title, args.content]);
+
+    const createdAt = Date.now();
+    return await ctx.db.insert("journalEntries", {
+      userId: args.userId,
+      title,
+      content: args.content,
+      tags,
+      moodId: args.moodId,
+      promptId: args.promptId,
+      searchText: buildSearchText({ title, content: args.content, tags }),
+      createdAt,
+      updatedAt: createdAt,
+    });
+  },
+});
+
+// Only the fields passed are changed; pass an empty title to clear it
+export const updateJournalEntry = mutation({
+  args: {
+    userId: v.id("users"),
+    entryId: v.id("journalEntries"),
+    title: v.optional(v.string()),
+    content: v.optional(v.string()),
+    tags: v.optional(v.array(v.string())),
+    moodId: v.optional(v.id("moods")),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const entry = await requireEntry(ctx, args.userId, args.entryId);
+
+    const title = args.title === undefined ? entry.title : args.title.trim() || undefined;
+    const content = args.content ?? entry.content;
+    if (!content.trim()) {
+      throw new Error("Write something before saving");
+    }
+    const tags = args.tags === undefined ? entry.tags : normalizeTags(args.tags);
+    await assertOwnMood(ctx, args.userId, args.moodId);
+    await assertPrivateFieldsEncrypted(ctx, args.userId, [title, content]);
+
+    await ctx.db.patch(args.entryId, {
+      title,
+      content,
+      tags,
+      moodId: args.moodId ?? entry.moodId,
+      searchText: buildSearchText({ title, content, tags }),
+      updatedAt: Date.now(),
+    });
+    return null;
+  },
+});
+
+// Deletes the entry and its reflections
+export const deleteJournalEntry = mutation({
+  args: {
+    userId: v.id("users"),
+    entryId: v.id("journalEntries"),
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await requireEntry(ctx, args.userId, args.entryId);
+    const reflections = await ctx.db
+      .query("journalReflections")
+      .withIndex("by_entry", (q) => q.eq("entryId", args.entryId))
+      .collect();
+    for (const reflection of reflections) {
+      await ctx.db.delete(reflection._id);
+    }
+    await ctx.db.delete(args.entryId);
+    return null;
+  },
+});
+
+// Newest first, optionally only entries with a tag
+export const listJournalEntries = query({
+  args: {
+    userId: v.id("users"),
+    tag: v.optional(v.string()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const limit = args.limit ?? 50;
+    const tag = args.tag?.trim().toLowerCase();
+    const entries = ctx.db
+      .query("journalEntries")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .order("desc");
+    if (!tag) {
+      return await entries.take(limit);
+    }
+    const tagged: Doc<"journalEntries">[] = [];
+    for await (const entry of entries) {
+      if (entry.tags.includes(tag)) tagged.push(entry);
+      if (tagged.length >= limit) break;
+    }
+    return tagged;
+  },
+});
+
+// An entry with its linked mood and reflections (newest first)
+export const getJournalEntry = query({
+  args: {
+    userId: v.id("users"),
+    entryId: v.id("journalEntries"),
+  },
+  handler: async (ctx, args) => {
+    const entry = await ctx.db.get(args.entryId);
+    if (!entry || entry.userId !== args.userId) return null;
+    const mood = entry.moodId ? await ctx.db.get(entry.moodId) : null;
+    const reflections = await ctx.db
+      .query("journalReflections")
+      .withIndex("by_entry", (q) => q.eq("entryId", args.entryId))
+      .order("desc")
+      .collect();
+    return { entry, mood, reflections };
+  },
+});
+
+// Full-text search over titles, content and tags, best matches first
+export const searchJournalEntries = query({
+  args: {
+    userId: v.id("users"),
+    query: v.string(),
+    tag: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const text = searchTerms(args.query).join(" ");
+    if (!text) return [];
+    const tag = args.tag?.trim().toLowerCase();
+    const results = await ctx.db
+      .query("journalEntries")
+      .withSearchIndex("search_text", (q) => q.search("searchText", text).eq("userId", args.userId))
+      .take(JOURNAL_SEARCH_LIMIT);
+    return tag ? results.filter(entry => entry.tags.includes(tag)) : results;
+  },
+});
+
+// Every distinct tag the user has used, most used first
+export const getJournalTags = query({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    const counts = new Map<string, number>();
+    const entries = await ctx.db
+      .query("journalEntries")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .collect();
+    for (const entry of entries) {
+      for (const tag of entry.tags) {
+        counts.set(tag, (counts.get(tag) ?? 0) + 1);
+      }
+    }
+    return [...counts.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .map(([tag, count]) => ({ tag, count }));
+  },
+});
+
+// ----- Reflect with Nafsy -----
+
+export const getEntryForReflection = internalQuery({
+  args: {
+    userId: v.id("users"),
+    entryId: v.id("journalEntries"),
+  },
+  handler: async (ctx, args) => {
+    return await requireEntry(ctx, args.userId, args.entryId);
+  },
+});
+
+export const saveReflection = internalMutation({
+  args: {
+    userId: v.id("users"),
+    entryId: v.id("journalEntries"),
+    content: v.string(),
+    language: v.string(),
+  },
+  returns: v.id("journalReflections"),
+  handler: async (ctx, args) => {
+    return await ctx.db.insert("journalReflections", { ...args, createdAt: Date.now() });
+  },
+});
+
+export const reflectOnEntry = action({
+  args: {
+    userId: v.id("users"),
+    entryId: v.id("journalEntries"),
+    language: v.string(),
+  },
+  handler: async (ctx, args): Promise<{ reflectionId: Id<"journalReflections"> | null; routeToCrisis: boolean }> => {
+    const entry: Doc<"journalEntries"> = await ctx.runQuery(internal.journal.getEntryForReflection, {
+      userId: args.userId,
+      entryId: args.entryId,
+    });
+    if (isEncryptedValue(entry.content)) {
+      throw new Error("Reflections aren't available for encrypted entries");
+    }
+
+    const text = entry.title ? `${entry.title}\n\n${entry.content}` : entry.content;
+    const classification = classifyMessage(text);
+    if (classification.severity === "high" || classification.severity === "critical") {
+      await ctx.runMutation(internal.crisis.recordCrisisEvent, {
+        userId: args.userId,
+        severity: classification.severity,
+        indicators: classification.indicators,
+      });
+      return { reflectionId: null, routeToCrisis: true };
+    }
+
+    const systemPrompt = args.language === "ar"
+      ? `أنت نفسي، رفيق داعم للصحة النفسية. اقرأ التدوينة التالية من يوميات المستخدم واكتب تأملاً قصيراً (2-4 جمل) بالعربية:
+اعكس ما تسمعه بلطف، وسمِّ المشاعر التي تلاحظها، واختم بسؤال واحد مفتوح يساعد على التعمق. لا تقدم تشخيصاً ولا نصائح طبية.`
+      : `You are Nafsy, a supportive mental health companion. Read the following journal entry and write a short reflection (2-4 sentences):
+gently mirror what you hear, name the feelings you notice, and end with one open question that invites deeper reflection. Do not diagnose or give medical advice.`;
+
+    const llm = getLLMProvider();
+    const reflection = (await llm.complete({
+      purpose: "journal-reflection",
+      tier: "fast",
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: text },
+      ],
+      temperature: 0.7,
+      maxTokens: 250,
+    })).trim();
+    if (!reflection) {
+      throw new Error("Couldn't write a reflection for this entry");
+    }
+
+    const reflectionId: Id<"journalReflections"> = await ctx.runMutation(internal.journal.saveReflection, {
+      userId: args.userId,
+      entryId: args.entryId,
+      content: reflection,
+      language: args.language,
+    });
+    return { reflectionId, routeToCrisis: false };
+  },
+});
@@ -0,0 +1,349 @@
+/**
+ * Unit Tests for the LLM provider layer
+ * Tests provider selection from env config, request shaping per provider and the mock provider
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  defaultMockCompletion,
+  EMBEDDING_DIMENSIONS,
+  getEmbeddingProvider,
+  getLLMProvider,
+  LLMCompletionRequest,
+  LLMTool,
+  LLMToolCall,
+  setMockCompletionHandler,
+} from './llm';
+
+const chatRequest: LLMCompletionRequest = {
+  purpose: 'chat',
+  tier: 'default',
+  messages: [
+    { role: 'system', content: 'You are Nafsy.' },
+    { role: 'user', content: 'I had a long day at work' },
+  ],
+  temperature: 0.8,
+  maxTokens: 300,
+};
+
+function mockFetchResponse(body: unknown) {
+  return vi.fn().mockResolvedValue({
+    ok: true,
+    statusText: 'OK',
+    json: () => Promise.resolve(body),
+  });
+}
+
+// A streaming response that emits each event as a server-sent "data:" line
+function mockStreamResponse(events: unknown[]) {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream({
+    start(controller) {
+      for (const event of events) {
+        controller.enqueue(encoder.encode(`data: ${typeof event === 'string' ? event : JSON.stringify(event)}\n\n`));
+      }
+      controller.close();
+    },
+  });
+  return vi.fn().mockResolvedValue({ ok: true, statusText: 'OK', body });
+}
+
+const moodTool: LLMTool = {
+  name: 'log_mood',
+  description: 'Invite the user to log their mood',
+  parameters: { type: 'object', properties: { rating: { type: 'number' } } },
+};
+
+describe('LLM Provider Layer', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    setMockCompletionHandler(null);
+  });
+
+  afterEach(() => {
+    setMockCompletionHandler(null);
+  });
+
+  describe('getLLMProvider', () => {
+    it('should default to OpenAI when LLM_PROVIDER is unset', () => {
+      const provider = getLLMProvider({ OPENAI_API_KEY: 'sk-test' });
+      expect(provider.name).toBe('openai');
+    });
+
+    it('should throw when the selected provider is missing credentials', () => {
+      expect(() => getLLMProvider({})).toThrow('OpenAI API key not configured');
+      expect(() => getLLMProvider({ LLM_PROVIDER: 'anthropic' })).toThrow('Anthropic API key not configured');
+      expect(() => getLLMProvider({ LLM_PROVIDER: 'azure-openai', AZURE_OPENAI_API_KEY: 'key' })).toThrow();
+    });
+
+    it('should select each provider from env config', () => {
+      expect(getLLMProvider({ LLM_PROVIDER: 'anthropic', ANTHROPIC_API_KEY: 'key' }).name).toBe('anthropic');
+      expect(getLLMProvider({
+        LLM_PROVIDER: 'azure-openai',
+        AZURE_OPENAI_API_KEY: 'key',
+        AZURE_OPENAI_ENDPOINT: 'https://nafsy.openai.azure.com',
+        AZURE_OPENAI_DEPLOYMENT: 'gpt-4o',
+      }).name).toBe('azure-openai');
+      expect(getLLMProvider({ LLM_PROVIDER: 'ollama' }).name).toBe('ollama');
+      expect(getLLMProvider({ LLM_PROVIDER: 'mock' }).name).toBe('mock');
+    });
+
+    it('should reject unknown providers', () => {
+      expect(() => getLLMProvider({ LLM_PROVIDER: 'unknown' })).toThrow('Unknown LLM provider: unknown');
+    });
+  });
+
+  describe('OpenAI-compatible providers', () => {
+    it('should send model tier and JSON mode to OpenAI', async () => {
+      const fetchMock = mockFetchResponse({ choices: [{ message: { content: '{"ok":true}' } }] });
+      global.fetch = fetchMock;
+
+      const provider = getLLMProvider({ OPENAI_API_KEY: 'sk-test', LLM_FAST_MODEL: 'gpt-test-mini' });
+      const result = await provider.complete({ ...chatRequest, tier: 'fast', jsonMode: true });
+
+      expect(result).toBe('{"ok":true}');
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://api.openai.com/v1/chat/completions');
+      const body = JSON.parse(init.body);
+      expect(body.model).toBe('gpt-test-mini');
+      expect(body.max_tokens).toBe(300);
+      expect(body.response_format).toEqual({ type: 'json_object' });
+    });
+
+    it('should route Azure requests through the deployment URL', async () => {
+      const fetchMock = mockFetchResponse({ choices: [{ message: { content: 'Hello' } }] });
+      global.fetch = fetchMock;
+
+      const provider = getLLMProvider({
+        LLM_PROVIDER: 'azure-openai',
+        AZURE_OPENAI_API_KEY: 'key',
+        AZURE_OPENAI_ENDPOINT: 'https://nafsy.openai.azure.com/',
+        AZURE_OPENAI_DEPLOYMENT: 'nafsy-main',
+      });
+      await provider.complete(chatRequest);
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://nafsy.openai.azure.com/openai/deployments/nafsy-main/chat/completions?api-version=2024-06-01');
+      expect(init.headers['api-key']).toBe('key');
+    });
+
+    it('should call a local OpenAI-compatible endpoint for Ollama', async () => {
+      const fetchMock = mockFetchResponse({ choices: [{ message: { content: 'Hello' } }] });
+      global.fetch = fetchMock;
+
+      const provider = getLLMProvider({ LLM_PROVIDER: 'ollama', OLLAMA_BASE_URL: 'http://127.0.0.1:11434/v1' });
+      await provider.complete(chatRequest);
+
+      expect(fetchMock.mock.calls[0][0]).toBe('http://127.0.0.1:11434/v1/chat/completions');
+    });
+
+    it('should surface API errors', async () => {
+      global.fetch = vi.fn().mockResolvedValue({ ok: false, statusText: 'Too Many Requests' });
+
+      const provider = getLLMProvider({ OPENAI_API_KEY: 'sk-test' });
+      await expect(provider.complete(chatRequest)).rejects.toThrow('OpenAI API error: Too Many Requests');
+    });
+  });
+
+  describe('Tool calls', () => {
+    it('should offer tools to OpenAI and assemble streamed tool calls', async () => {
+      const fetchMock = mockStreamResponse([
+        { choices: [{ delta: { content: 'Let us check in.' } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 0, function: { name: 'log_mood', arguments: '{"rat' } }] } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'ing":4}' } }] } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 1, function: { name: 'log_mood', arguments: '{"rating":' } }] } }] },
+        '[DONE]',
+      ]);
+      global.fetch = fetchMock;
+      const calls: LLMToolCall[] = [];
+
+      const provider = getLLMProvider({ OPENAI_API_KEY: 'sk-test' });
+      const text = await provider.stream(chatRequest, {
+        onToken: () => {},
+        tools: [moodTool],
+        onToolCall: (call) => { calls.push(call); },
+      });
+
+      expect(text).toBe('Let us check in.');
+      // The second call was cut off mid-arguments and is dropped
+      expect(calls).toEqual([{ name: 'log_mood', arguments: { rating: 4 } }]);
+      const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(body.tools).toEqual([{ type: 'function', function: moodTool }]);
+    });
+
+    it('should not send tools when none are offered', async () => {
+      const fetchMock = mockStreamResponse(['[DONE]']);
+      global.fetch = fetchMock;
+
+      const provider = getLLMProvider({ OPENAI_API_KEY: 'sk-test' });
+      await provider.stream(chatRequest, { onToken: () => {} });
+
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body).tools).toBeUndefined();
+    });
+
+    it('should assemble Anthropic tool_use blocks', async () => {
+      const fetchMock = mockStreamResponse([
+        { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'How are you?' } },
+        { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'tool_1', name: 'log_mood', input: {} } },
+        { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"rating"' } },
+        { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: ': 6}' } },
+        { type: 'message_stop' },
+      ]);
+      global.fetch = fetchMock;
+      const calls: LLMToolCall[] = [];
+
+      const provider = getLLMProvider({ LLM_PROVIDER: 'anthropic', ANTHROPIC_API_KEY: 'key' });
+      const text = await provider.stream(chatRequest, {
+        onToken: () => {},
+        tools: [moodTool],
+        onToolCall: (call) => { calls.push(call); },
+      });
+
+      expect(text).toBe('How are you?');
+      expect(calls).toEqual([{ name: 'log_mood', arguments: { rating: 6 } }]);
+      const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(body.tools).toEqual([{ name: 'log_mood', description: moodTool.description, input_schema: moodTool.parameters }]);
+    });
+
+    it('should report mock tool calls only for offered tools', async () => {
+      setMockCompletionHandler(() => ({
+        text: 'Shall we check in?',
+        toolCalls: [
+          { name: 'log_mood', arguments: {} },
+          { name: 'delete_account', arguments: {} },
+        ],
+      }));
+      const provider = getLLMProvider({ LLM_PROVIDER: 'mock' });
+      const calls: LLMToolCall[] = [];
+
+      expect(await provider.complete(chatRequest)).toBe('Shall we check in?');
+      await provider.stream(chatRequest, { onToken: () => {}, onToolCall: (call) => { calls.push(call); } });
+      expect(calls).toEqual([]);
+
+      await provider.stream(chatRequest, { onToken: () => {}, tools: [moodTool], onToolCall: (call) => { calls.push(call); } });
+      expect(calls).toEqual([{ name: 'log_mood', arguments: {} }]);
+    });
+  });
+
+  describe('Anthropic provider', () => {
+    it('should move the system prompt out of the message list', async () => {
+      const fetchMock = mockFetchResponse({ content: [{ type: 'text', text: 'Hi there' }] });
+      global.fetch = fetchMock;
+
+      const provider = getLLMProvider({ LLM_PROVIDER: 'anthropic', ANTHROPIC_API_KEY: 'key' });
+      const result = await provider.complete({ ...chatRequest, temperature: 1.5 });
+
+      expect(result).toBe('Hi there');
+      const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(body.system).toBe('You are Nafsy.');
+      expect(body.messages).toEqual([{ role: 'user', content: 'I had a long day at work' }]);
+      expect(body.temperature).toBe(1);
+    });
+  });
+
+  describe('getEmbeddingProvider', () => {
+    it('should follow LLM_PROVIDER but fall back to OpenAI for Anthropic', () => {
+      expect(getEmbeddingProvider({ LLM_PROVIDER: 'mock' }).name).toBe('mock');
+      expect(getEmbeddingProvider({ LLM_PROVIDER: 'anthropic', OPENAI_API_KEY: 'sk-test' }).name).toBe('openai');
+      expect(getEmbeddingProvider({ LLM_PROVIDER: 'anthropic', EMBEDDING_PROVIDER: 'mock' }).name).toBe('mock');
+    });
+
+    it('should require an explicit model for local embeddings', () => {
+      expect(() => getEmbeddingProvider({ LLM_PROVIDER: 'ollama' })).toThrow('Local embedding model not configured');
+    });
+
+    it('should request fixed-size embeddings from OpenAI in input order', async () => {
+      const vector = (value: number) => new Array(EMBEDDING_DIMENSIONS).fill(value);
+      const fetchMock = mockFetchResponse({
+        data: [
+          { index: 1, embedding: vector(2) },
+          { index: 0, embedding: vector(1) },
+        ],
+      });
+      global.fetch = fetchMock;
+
+      const provider = getEmbeddingProvider({ OPENAI_API_KEY: 'sk-test' });
+      const [first, second] = await provider.embed(['first', 'second']);
+
+      expect(first[0]).toBe(1);
+      expect(second[0]).toBe(2);
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://api.openai.com/v1/embeddings');
+      const body = JSON.parse(init.body);
+      expect(body.model).toBe('text-embedding-3-small');
+      expect(body.dimensions).toBe(EMBEDDING_DIMENSIONS);
+    });
+
+    it('should reject embeddings that do not fit the vector index', async () => {
+      global.fetch = mockFetchResponse({ data: [{ index: 0, embedding: [0.1, 0.2] }] });
+
+      const provider = getEmbeddingProvider({ LLM_PROVIDER: 'ollama', EMBEDDING_MODEL: 'nomic-embed-text' });
+      await expect(provider.embed(['hello'])).rejects.toThrow('expected 1536');
+    });
+  });
+
+  describe('Mock provider', () => {
+    it('should return deterministic responses without network access', async () => {
+      global.fetch = vi.fn();
+      const provider = getLLMProvider({ LLM_PROVIDER: 'mock' });
+
+      const first = await provider.complete(chatRequest);
+      const second = await provider.complete(chatRequest);
+
+      expect(first).toBe(second);
+      expect(first).toContain('I had a long day at work');
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should answer in Arabic when the user writes in Arabic', () => {
+      const result = defaultMockCompletion({
+        ...chatRequest,
+        purpose: 'floating-chat',
+        messages: [{ role: 'user', content: 'أشعر بالتعب اليوم' }],
+      });
+
+      expect(result).toBe('أسمعك. أخبرني المزيد؟');
+    });
+
+    it('should return valid JSON for structured purposes', () => {
+      for (const purpose of ['conversation-summary', 'user-summary', 'crisis-assessment'] as const) {
+        const result = defaultMockCompletion({ ...chatRequest, purpose, jsonMode: true });
+        expect(() => JSON.parse(result)).not.toThrow();
+      }
+    });
+
+    it('should use the test handler when one is registered', async () => {
+      setMockCompletionHandler(() => 'custom response');
+      const provider = getLLMProvider({ LLM_PROVIDER: 'mock' });
+
+      expect(await provider.complete(chatRequest)).toBe('custom response');
+    });
+
+    it('should stream the completion token by token', async () => {
+      setMockCompletionHandler(() => 'I hear you. Tell me more.');
+      const provider = getLLMProvider({ LLM_PROVIDER: 'mock' });
+      const tokens: string[] = [];
+
+      const result = await provider.stream(chatRequest, { onToken: (token) => { tokens.push(token); } });
+
+      expect(result).toBe('I hear you. Tell me more.');
+      expect(tokens).toEqual(['I ', 'hear ', 'you. ', 'Tell ', 'me ', 'more.']);
+    });
+
+    it('should stop streaming when aborted and keep the partial text', async () => {
+      setMockCompletionHandler(() => 'I hear you. Tell me more.');
+      const provider = getLLMProvider({ LLM_PROVIDER: 'mock' });
+      const controller = new AbortController();
+
+      const result = await provider.stream(chatRequest, {
+        signal: controller.signal,
+        onToken: (token) => {
+          if (token.startsWith('you')) controller.abort();
+        },
+      });
+
+      expect(result).toBe('I hear you. ');
+    });
+  });
+});
@@ -0,0 +1,664 @@
+// Pluggable LLM provider layer used by every action in ai.ts.
+//
+// The provider is selected from the Convex environment:
+//   LLM_PROVIDER = "openai" | "anthropic" | "azure-openai" | "ollama" | "mock"
+// When LLM_PROVIDER is unset we fall back to OpenAI, which keeps existing
+// deployments (that only set OPENAI_API_KEY) working unchanged.
+//
+// Model names can be overridden with LLM_MODEL (detailed responses, summaries)
+// and LLM_FAST_MODEL (floating chat, crisis assessment).
+
+export type LLMProviderName = "openai" | "anthropic" | "azure-openai" | "ollama" | "mock";
+
+// "default" is the most capable configured model, "fast" the cheaper/quicker one
+export type LLMModelTier = "default" | "fast";
+
+// What the completion is for. Real providers only use it for logging; the mock
+// provider uses it to return a correctly shaped deterministic response.
+export type LLMPurpose =
+  | "chat"
+  | "floating-chat"
+  | "conversation-summary"
+  | "user-summary"
+  | "crisis-assessment"
+  | "journal-reflection"
+  | "quick-replies";
+
+export interface LLMChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  purpose: LLMPurpose;
+  tier: LLMModelTier;
+  messages: LLMChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+  // Ask the model for a single JSON object instead of free text
+  jsonMode?: boolean;
+}
+
+// A function the model may call instead of (or as well as) replying in text.
+// parameters is a JSON schema object.
+export interface LLMTool {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface LLMToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface LLMStreamOptions {
+  // Called with each text delta as it arrives
+  onToken: (delta: string) => void | Promise<void>;
+  // Aborting stops the upstream request; the text received so far is kept
+  signal?: AbortSignal;
+  // Tools the model may call. Each complete call is reported once the stream
+  // ends; calls whose arguments are not valid JSON are dropped.
+  tools?: LLMTool[];
+  onToolCall?: (call: LLMToolCall) => void | Promise<void>;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  complete(request: LLMCompletionRequest): Promise<string>;
+  // Stream the completion token by token; resolves with the full text
+  stream(request: LLMCompletionRequest, options: LLMStreamOptions): Promise<string>;
+}
+
+type Env = Record<string, string | undefined>;
+
+const DEFAULT_MODELS: Record<Exclude<LLMProviderName, "azure-openai" | "mock">, Record<LLMModelTier, string>> = {
+  openai: { default: "gpt-4o", fast: "gpt-4o-mini" },
+  anthropic: { default: "claude-3-5-sonnet-latest", fast: "claude-3-5-haiku-latest" },
+  ollama: { default: "llama3.1", fast: "llama3.1" },
+};
+
+const JSON_ONLY_INSTRUCTION = "\n\nRespond with a single valid JSON object and nothing else.";
+
+// Resolve the provider configured for this deployment
+export function getLLMProvider(env: Env = process.env): LLMProvider {
+  const name = (env.LLM_PROVIDER || "openai").toLowerCase();
+
+  switch (name) {
+    case "openai":
+      return createOpenAIProvider(env);
+    case "anthropic":
+      return createAnthropicProvider(env);
+    case "azure-openai":
+    case "azure":
+      return createAzureOpenAIProvider(env);
+    case "ollama":
+    case "local":
+      return createOllamaProvider(env);
+    case "mock":
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`);
+  }
+}
+
+function resolveModel(env: Env, provider: keyof typeof DEFAULT_MODELS, tier: LLMModelTier): string {
+  const override = tier === "fast" ? env.LLM_FAST_MODEL : env.LLM_MODEL;
+  return override || DEFAULT_MODELS[provider][tier];
+}
+
+// Shared request/response handling for the OpenAI chat completions wire format
+// (used by OpenAI, Azure OpenAI and OpenAI-compatible local servers)
+interface ChatCompletionTarget {
+  label: string;
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+function buildChatCompletionBody(
+  target: ChatCompletionTarget,
+  request: LLMCompletionRequest,
+  stream: boolean,
+  tools?: LLMTool[],
+) {
+  return JSON.stringify({
+    ...target.body,
+    messages: request.messages,
+    temperature: request.temperature,
+    max_tokens: request.maxTokens,
+    presence_penalty: request.presencePenalty,
+    frequency_penalty: request.frequencyPenalty,
+    ...(request.jsonMode ? { response_format: { type: "json_object" } } : {}),
+    ...(tools?.length
+      ? { tools: tools.map(tool => ({ type: "function", function: tool })) }
+      : {}),
+    ...(stream ? { stream: true } : {}),
+  });
+}
+
+// Parse accumulated tool call arguments; a truncated or malformed call is dropped
+function parseToolArguments(json: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(json || "{}");
+    return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+async function reportToolCalls(
+  calls: Iterable<{ name: string; json: string }>,
+  options: LLMStreamOptions,
+) {
+  if (!options.onToolCall) return;
+  for (const call of calls) {
+    const args = call.name ? parseToolArguments(call.json) : null;
+    if (args) {
+      await options.onToolCall({ name: call.name, arguments: args });
+    }
+  }
+}
+
+async function postChatCompletion(target: ChatCompletionTarget, request: LLMCompletionRequest): Promise<string> {
+  const response = await fetch(target.url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...target.headers,
+    },
+    body: buildChatCompletionBody(target, request, false),
+  });
+
+  if (!response.ok) {
+    throw new Error(`${target.label} API error: ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return data.choices[0].message.content;
+}
+
+async function streamChatCompletion(
+  target: ChatCompletionTarget,
+  request: LLMCompletionRequest,
+  options: LLMStreamOptions,
+): Promise<string> {
+  const response = await fetch(target.url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...target.headers,
+    },
+    body: buildChatCompletionBody(target, request, true, options.tools),
+    signal: options.signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(`${target.label} API error: ${response.statusText}`);
+  }
+
+  let text = "";
+  // Tool call names and arguments arrive in fragments, keyed by call index
+  const toolCalls = new Map<number, { name: string; json: string }>();
+  await readServerSentEvents(response, async (data) => {
+    if (data === "[DONE]") return;
+    const choiceDelta = JSON.parse(data).choices?.[0]?.delta;
+    const delta: string | undefined = choiceDelta?.content;
+    if (delta) {
+      text += delta;
+      await options.onToken(delta);
+    }
+    for (const fragment of choiceDelta?.tool_calls ?? []) {
+      const call = toolCalls.get(fragment.index) ?? { name: "", json: "" };
+      call.name += fragment.function?.name ?? "";
+      call.json += fragment.function?.arguments ?? "";
+      toolCalls.set(fragment.index, call);
+    }
+  });
+  await reportToolCalls(toolCalls.values(), options);
+  return text;
+}
+
+// Minimal server-sent events reader: calls onData with the payload of every "data:" line
+async function readServerSentEvents(response: Response, onData: (data: string) => Promise<void>) {
+  if (!response.body) {
+    throw new Error("Streaming response has no body");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (trimmed.startsWith("data:")) {
+        await onData(trimmed.slice(5).trim());
+      }
+    }
+  }
+
+  const rest = buffer.trim();
+  if (rest.startsWith("data:")) {
+    await onData(rest.slice(5).trim());
+  }
+}
+
+function createOpenAIProvider(env: Env): LLMProvider {
+  const apiKey = env.OPENAI_API_KEY;
+  if (!apiKey) {
+    throw new Error("OpenAI API key not configured");
+  }
+  const baseUrl = env.OPENAI_BASE_URL || "https://api.openai.com/v1";
+
+  const target = (request: LLMCompletionRequest): ChatCompletionTarget => ({
+    label: "OpenAI",
+    url: `${baseUrl}/chat/completions`,
+    headers: { Authorization: `Bearer ${apiKey}` },
+    body: { model: resolveModel(env, "openai", request.tier) },
+  });
+
+  return {
+    name: "openai",
+    complete: (request) => postChatCompletion(target(request), request),
+    stream: (request, options) => streamChatCompletion(target(request), request, options),
+  };
+}
+
+function createAzureOpenAIProvider(env: Env): LLMProvider {
+  const apiKey = env.AZURE_OPENAI_API_KEY;
+  const endpoint = env.AZURE_OPENAI_ENDPOINT;
+  const deployment = env.AZURE_OPENAI_DEPLOYMENT;
+  if (!apiKey || !endpoint || !deployment) {
+    throw new Error("Azure OpenAI is not configured (AZURE_OPENAI_API_KEY, AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_DEPLOYMENT)");
+  }
+  const fastDeployment = env.AZURE_OPENAI_FAST_DEPLOYMENT || deployment;
+  const apiVersion = env.AZURE_OPENAI_API_VERSION || "2024-06-01";
+
+  // Azure selects the model through the deployment in the URL
+  const target = (request: LLMCompletionRequest): ChatCompletionTarget => ({
+    label: "Azure OpenAI",
+    url: `${endpoint.replace(/\/$/, "")}/openai/deployments/${request.tier === "fast" ? fastDeployment : deployment}/chat/completions?api-version=${apiVersion}`,
+    headers: { "api-key": apiKey },
+    body: {},
+  });
+
+  return {
+    name: "azure-openai",
+    complete: (request) => postChatCompletion(target(request), request),
+    stream: (request, options) => streamChatCompletion(target(request), request, options),
+  };
+}
+
+function createOllamaProvider(env: Env): LLMProvider {
+  // Any OpenAI-compatible server works here (Ollama, LM Studio, vLLM, ...)
+  const baseUrl = (env.OLLAMA_BASE_URL || "http://localhost:11434/v1").replace(/\/$/, "");
+  const apiKey = env.OLLAMA_API_KEY;
+
+  const target = (request: LLMCompletionRequest): ChatCompletionTarget => ({
+    label: "Local LLM",
+    url: `${baseUrl}/chat/completions`,
+    headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+    body: { model: resolveModel(env, "ollama", request.tier) },
+  });
+
+  return {
+    name: "ollama",
+    complete: (request) => postChatCompletion(target(request), request),
+    stream: (request, options) => streamChatCompletion(target(request), request, options),
+  };
+}
+
+function createAnthropicProvider(env: Env): LLMProvider {
+  const apiKey = env.ANTHROPIC_API_KEY;
+  if (!apiKey) {
+    throw new Error("Anthropic API key not configured");
+  }
+
+  const post = async (request: LLMCompletionRequest, stream: boolean, signal?: AbortSignal, tools?: LLMTool[]) => {
+    // Anthropic takes the system prompt separately and requires alternating
+    // user/assistant turns that start with the user
+    const system = request.messages
+      .filter(msg => msg.role === "system")
+      .map(msg => msg.content)
+      .join("\n\n");
+    const turns: { role: "user" | "assistant"; content: string }[] = [];
+    for (const msg of request.messages) {
+      if (msg.role === "system") continue;
+      const last = turns[turns.length - 1];
+      if (last && last.role === msg.role) {
+        last.content += `\n\n${msg.content}`;
+      } else {
+        turns.push({ role: msg.role, content: msg.content });
+      }
+    }
+    if (turns.length === 0 || turns[0].role !== "user") {
+      turns.unshift({ role: "user", content: "(conversation start)" });
+    }
+
+    const response = await fetch("https://api.anthropic.com/v1/messages", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": apiKey,
+        "anthropic-version": "2023-06-01",
+      },
+      body: JSON.stringify({
+        model: resolveModel(env, "anthropic", request.tier),
+        system: request.jsonMode ? system + JSON_ONLY_INSTRUCTION : system,
+        messages: turns,
+        max_tokens: request.maxTokens ?? 1000,
+        // Anthropic accepts temperatures in 0-1 only
+        temperature: request.temperature !== undefined ? Math.min(1, request.temperature) : undefined,
+        ...(tools?.length
+          ? { tools: tools.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.parameters })) }
+          : {}),
+        ...(stream ? { stream: true } : {}),
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Anthropic API error: ${response.statusText}`);
+    }
+    return response;
+  };
+
+  return {
+    name: "anthropic",
+    complete: async (request) => {
+      const response = await post(request, false);
+      const data = await response.json();
+      return data.content
+        .filter((block: { type: string }) => block.type === "text")
+        .map((block: { text: string }) => block.text)
+        .join("");
+    },
+    stream: async (request, options) => {
+      const response = await post(request, true, options.signal, options.tools);
+      let text = "";
+      // tool_use blocks stream their input as partial JSON, keyed by block index
+      const toolCalls = new Map<number, { name: string; json: string }>();
+      await readServerSentEvents(response, async (data) => {
+        const event = JSON.parse(data);
+        if (event.type === "content_block_start" && event.content_block?.type === "tool_use") {
+          toolCalls.set(event.index, { name: event.content_block.name, json: "" });
+        } else if (event.type === "content_block_delta" && event.delta?.type === "text_delta") {
+          text += event.delta.text;
+          await options.onToken(event.delta.text);
+        } else if (event.type === "content_block_delta" && event.delta?.type === "input_json_delta") {
+          const call = toolCalls.get(event.index);
+          if (call) call.json += event.delta.partial_json;
+        }
+      });
+      await reportToolCalls(toolCalls.values(), options);
+      return text;
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Mock provider: deterministic, in-process, no network. Used by unit tests and
+// by e2e runs (set LLM_PROVIDER=mock in the Convex deployment environment).
+// ---------------------------------------------------------------------------
+
+// A handler may also return tool calls, which the mock reports when streaming
+// with tools
+export type MockCompletion = string | { text: string; toolCalls: LLMToolCall[] };
+export type MockCompletionHandler = (request: LLMCompletionRequest) => MockCompletion | Promise<MockCompletion>;
+
+let mockCompletionHandler: MockCompletionHandler | null = null;
+
+// Override the mock's responses (tests only). Pass null to restore the defaults.
+export function setMockCompletionHandler(handler: MockCompletionHandler | null) {
+  mockCompletionHandler = handler;
+}
+
+function createMockProvider(): LLMProvider {
+  const respond = async (request: LLMCompletionRequest) => {
+    const completion = mockCompletionHandler
+      ? await mockCompletionHandler(request)
+      : defaultMockCompletion(request);
+    return typeof completion === "string" ? { text: completion, toolCalls: [] } : completion;
+  };
+
+  return {
+    name: "mock",
+    complete: async (request) => (await respond(request)).text,
+    stream: async (request, options) => {
+      // Emit the deterministic completion word by word, like a real stream
+      const completion = await respond(request);
+      const tokens = completion.text.match(/\S+\s*/g) ?? [];
+      let text = "";
+      for (const token of tokens) {
+        if (options.signal?.aborted) break;
+        text += token;
+        await options.onToken(token);
+      }
+      if (options.tools?.length && !options.signal?.aborted) {
+        const offered = new Set(options.tools.map(tool => tool.name));
+        for (const call of completion.toolCalls) {
+          if (offered.has(call.name)) await options.onToolCall?.(call);
+        }
+      }
+      return text;
+    },
+  };
+}
+
+const ARABIC_CHARS = /[؀-ۿ]/;
+
+export function defaultMockCompletion(request: LLMCompletionRequest): string {
+  const lastUserMessage = request.messages.filter(msg => msg.role === "user").pop()?.content ?? "";
+  const isArabic = ARABIC_CHARS.test(lastUserMessage);
+
+  switch (request.purpose) {
+    case "chat": {
+      const snippet = lastUserMessage.trim().slice(0, 80);
+      return isArabic
+        ? `أسمعك. قلت: "${snippet}". أخبرني المزيد عن شعورك تجاه ذلك.`
+        : `I hear you. You said: "${snippet}". Tell me more about how that feels.`;
+    }
+    case "floating-chat":
+      return isArabic ? "أسمعك. أخبرني المزيد؟" : "I hear you. Tell me more?";
+    case "conversation-summary":
+      return JSON.stringify({
+        summary: "Mock summary of the conversation.",
+        keyTopics: [],
+        moodProgression: "stable",
+        therapeuticInsights: [],
+        suggestedNextSteps: [],
+        overallSentiment: "neutral",
+        emotionalRange: [],
+        crisisIndicators: [],
+      });
+    case "user-summary":
+      return JSON.stringify({
+        summary: "Mock user profile.",
+        keyThemes: [],
+        emotionalPatterns: [],
+        preferredApproaches: [],
+        triggerWords: [],
+        progress: {
+          commonChallenges: [],
+          successfulStrategies: [],
+          areas_of_growth: [],
+        },
+      });
+    case "crisis-assessment":
+      return JSON.stringify({
+        isCrisis: false,
+        severity: "low",
+        indicators: [],
+        suggestedActions: [],
+      });
+    case "journal-reflection":
+      return isArabic
+        ? "شكراً لأنك كتبت هذا. يبدو أن الكثير يدور في داخلك. ما الذي تحتاجه أكثر الآن؟"
+        : "Thank you for writing this down. It sounds like a lot is on your mind. What do you need most right now?";
+    case "quick-replies":
+      return JSON.stringify({
+        replies: isArabic
+          ? [
+              { text: "أخبرني المزيد", sentiment: "neutral" },
+              { text: "هذا يساعدني", sentiment: "positive" },
+              { text: "ما زلت أشعر بالتعب", sentiment: "supportive" },
+            ]
+          : [
+              { text: "Tell me more", sentiment: "neutral" },
+              { text: "That helps", sentiment: "positive" },
+              { text: "I still feel tired", sentiment: "supportive" },
+            ],
+      });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Embeddings for semantic memory (conversation summaries and salient messages).
+//
+// Selected with EMBEDDING_PROVIDER = "openai" | "azure-openai" | "ollama" | "mock".
+// When unset it follows LLM_PROVIDER, except that Anthropic (which has no
+// embeddings API) falls back to OpenAI. EMBEDDING_MODEL overrides the model.
+// ---------------------------------------------------------------------------
+
+// Must match the dimensions of the vector indexes in schema.ts
+export const EMBEDDING_DIMENSIONS = 1536;
+
+export interface EmbeddingProvider {
+  name: Exclude<LLMProviderName, "anthropic">;
+  // One vector of EMBEDDING_DIMENSIONS per input text, in input order
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export function getEmbeddingProvider(env: Env = process.env): EmbeddingProvider {
+  const llmProvider = (env.LLM_PROVIDER || "openai").toLowerCase();
+  const name = (env.EMBEDDING_PROVIDER || (llmProvider === "anthropic" ? "openai" : llmProvider)).toLowerCase();
+
+  switch (name) {
+    case "openai": {
+      const apiKey = env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error("OpenAI API key not configured");
+      }
+      const baseUrl = env.OPENAI_BASE_URL || "https://api.openai.com/v1";
+      return {
+        name: "openai",
+        embed: (texts) => postEmbeddings("OpenAI", `${baseUrl}/embeddings`, { Authorization: `Bearer ${apiKey}` }, {
+          model: env.EMBEDDING_MODEL || "text-embedding-3-small",
+          input: texts,
+          dimensions: EMBEDDING_DIMENSIONS,
+        }),
+      };
+    }
+    case "azure-openai":
+    case "azure": {
+      const apiKey = env.AZURE_OPENAI_API_KEY;
+      const endpoint = env.AZURE_OPENAI_ENDPOINT;
+      const deployment = env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT;
+      if (!apiKey || !endpoint || !deployment) {
+        throw new Error("Azure OpenAI embeddings are not configured (AZURE_OPENAI_API_KEY, AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_EMBEDDING_DEPLOYMENT)");
+      }
+      const apiVersion = env.AZURE_OPENAI_API_VERSION || "2024-06-01";
+      return {
+        name: "azure-openai",
+        embed: (texts) => postEmbeddings(
+          "Azure OpenAI",
+          `${endpoint.replace(/\/$/, "")}/openai/deployments/${deployment}/embeddings?api-version=${apiVersion}`,
+          { "api-key": apiKey },
+          { input: texts, dimensions: EMBEDDING_DIMENSIONS },
+        ),
+      };
+    }
+    case "ollama":
+    case "local": {
+      // Local models have their own sizes, so the model must be chosen explicitly
+      const model = env.EMBEDDING_MODEL;
+      if (!model) {
+        throw new Error(`Local embedding model not configured (EMBEDDING_MODEL with ${EMBEDDING_DIMENSIONS} dimensions)`);
+      }
+      const baseUrl = (env.OLLAMA_BASE_URL || "http://localhost:11434/v1").replace(/\/$/, "");
+      const apiKey = env.OLLAMA_API_KEY;
+      return {
+        name: "ollama",
+        embed: (texts) => postEmbeddings(
+          "Local LLM",
+          `${baseUrl}/embeddings`,
+          apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+          { model, input: texts },
+        ),
+      };
+    }
+    case "mock":
+      return {
+        name: "mock",
+        embed: async (texts) => texts.map(mockEmbedding),
+      };
+    default:
+      throw new Error(`Unknown embedding provider: ${name}`);
+  }
+}
+
+async function postEmbeddings(
+  label: string,
+  url: string,
+  headers: Record<string, string>,
+  body: Record<string, unknown>,
+): Promise<number[][]> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...headers,
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw new Error(`${label} API error: ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  const vectors: number[][] = [...data.data]
+    .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+    .map((item: { embedding: number[] }) => item.embedding);
+
+  for (const vector of vectors) {
+    if (vector.length !== EMBEDDING_DIMENSIONS) {
+      throw new Error(`${label} returned ${vector.length}-dimensional embeddings, expected ${EMBEDDING_DIMENSIONS}`);
+    }
+  }
+  return vectors;
+}
+
+// Deterministic bag-of-words embedding: each word is hashed into a bucket, so
+// texts sharing words score as similar. Good enough for tests and e2e runs.
+export function mockEmbedding(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+  for (const word of words) {
+    // FNV-1a hash
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < word.length; i++) {
+      hash ^= word.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    vector[(hash >>> 0) % EMBEDDING_DIMENSIONS] += 1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  if (norm === 0) {
+    // Vector search needs a non-zero vector; empty text points somewhere neutral
+    vector[0] = 1;
+    return vector;
+  }
+  return vector.map(value => value / norm);
+}
@@ -0,0 +1,112 @@
+/**
+ * Unit Tests for semantic long-term memory
+ * Tests salience filtering, summary embedding text, prompt formatting and mock embeddings
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Id } from './_generated/dataModel';
+import { EMBEDDING_DIMENSIONS, getEmbeddingProvider, mockEmbedding } from './llm';
+import {
+  formatMemoriesForPrompt,
+  isSalientMessage,
+  RecalledMemory,
+  summaryEmbeddingText,
+} from './memory';
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+const memories: RecalledMemory[] = [
+  {
+    source: 'session',
+    conversationId: 'conv1' as Id<'conversations'>,
+    text: 'Talked about work stress and trouble sleeping before deadlines.',
+    keyTopics: ['work', 'sleep'],
+    timestamp: Date.UTC(2025, 2, 4),
+    score: 0.82,
+  },
+  {
+    source: 'message',
+    conversationId: 'conv2' as Id<'conversations'>,
+    text: 'My manager keeps piling on projects and I feel like I am drowning',
+    keyTopics: [],
+    timestamp: Date.UTC(2025, 2, 10),
+    score: 0.64,
+  },
+];
+
+describe('Semantic Memory', () => {
+  describe('isSalientMessage', () => {
+    it('should skip short acknowledgements', () => {
+      expect(isSalientMessage('ok thanks')).toBe(false);
+      expect(isSalientMessage('شكرا')).toBe(false);
+    });
+
+    it('should keep long messages', () => {
+      expect(isSalientMessage('I keep thinking about the argument with my brother and I cannot focus on anything at work')).toBe(true);
+    });
+
+    it('should keep short messages with emotional content', () => {
+      expect(isSalientMessage('Today was really difficult for me')).toBe(true);
+      expect(isSalientMessage('What time is it right now?')).toBe(false);
+    });
+  });
+
+  describe('summaryEmbeddingText', () => {
+    it('should combine the summary with topics and insights', () => {
+      const text = summaryEmbeddingText({
+        summary: 'Discussed exam anxiety.',
+        keyTopics: ['exams'],
+        therapeuticInsights: ['Breathing helps before tests'],
+      });
+
+      expect(text).toBe('Discussed exam anxiety.\nexams\nBreathing helps before tests');
+    });
+  });
+
+  describe('formatMemoriesForPrompt', () => {
+    it('should return nothing when there are no memories', () => {
+      expect(formatMemoriesForPrompt([], 'en')).toBe('');
+    });
+
+    it('should number memories so the model can cite them', () => {
+      const prompt = formatMemoriesForPrompt(memories, 'en');
+
+      expect(prompt).toContain('Relevant memories from past sessions:');
+      expect(prompt).toContain('[1] Session on 2025-03-04 (work, sleep): Talked about work stress');
+      expect(prompt).toContain('[2] The user said on 2025-03-10: "My manager keeps piling on projects');
+    });
+
+    it('should format memories in Arabic', () => {
+      const prompt = formatMemoriesForPrompt(memories, 'ar');
+
+      expect(prompt).toContain('ذكريات ذات صلة من جلسات سابقة');
+      expect(prompt).toContain('[1] جلسة بتاريخ 2025-03-04');
+    });
+  });
+
+  describe('Mock embeddings', () => {
+    it('should produce deterministic unit vectors of the indexed size', async () => {
+      const provider = getEmbeddingProvider({ LLM_PROVIDER: 'mock' });
+      const [first, second] = await provider.embed(['work stress', 'work stress']);
+
+      expect(first).toHaveLength(EMBEDDING_DIMENSIONS);
+      expect(first).toEqual(second);
+      expect(cosine(first, first)).toBeCloseTo(1);
+    });
+
+    it('should score related texts above unrelated ones', () => {
+      const query = mockEmbedding('I am stressed about work deadlines');
+      const related = mockEmbedding('Talked about work stress and deadlines');
+      const unrelated = mockEmbedding('Enjoyed a picnic with family');
+
+      expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+    });
+
+    it('should embed Arabic text', () => {
+      const query = mockEmbedding('أشعر بضغط في العمل');
+      const related = mockEmbedding('تحدثنا عن ضغط العمل');
+
+      expect(cosine(query, related)).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import { v } from "convex/values";
+import { api, internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { action, internalMutation, internalQuery } from "./_generated/server";
+import { analyzeSentiment } from "./aiHelpers";
+import { getEmbeddingProvider } from "./llm";
+
+// Semantic long-term memory (see docs/Ai-memory-Arc.md).
+//
+// Conversation summaries and salient user messages are embedded in the
+// background after they are written. generateResponse embeds the current user
+// message and recalls the closest past sessions for the system prompt.
+
+// Matches below this cosine similarity are too loose to be worth citing
+const MIN_MEMORY_SCORE = 0.3;
+
+// Messages longer than this are always worth remembering
+const SALIENT_MESSAGE_LENGTH = 80;
+// Messages shorter than this ("ok", "thanks") never are
+const TRIVIAL_MESSAGE_LENGTH = 20;
+
+export interface RecalledMemory {
+  source: "session" | "message";
+  conversationId: Id<"conversations">;
+  text: string;
+  keyTopics: string[];
+  timestamp: number;
+  score: number;
+}
+
+interface MemoryDocuments {
+  summaries: Doc<"conversationSummaries">[];
+  messages: Doc<"messages">[];
+}
+
+const recalledMemoryValidator = v.object({
+  source: v.union(v.literal("session"), v.literal("message")),
+  conversationId: v.id("conversations"),
+  text: v.string(),
+  keyTopics: v.array(v.string()),
+  timestamp: v.number(),
+  score: v.number(),
+});
+
+// Decide whether a user message carries enough substance to embed on its own
+export function isSalientMessage(content: string): boolean {
+  const text = content.trim();
+  if (text.length >= SALIENT_MESSAGE_LENGTH) return true;
+  if (text.length < TRIVIAL_MESSAGE_LENGTH) return false;
+  // Short but emotionally loaded messages are still worth keeping
+  return analyzeSentiment(text).score !== 0;
+}
+
+// Text that represents a conversation summary in the vector index
+export function summaryEmbeddingText(summary: {
+  summary: string;
+  keyTopics: string[];
+  therapeuticInsights: string[];
+}): string {
+  return [summary.summary, ...summary.keyTopics, ...summary.therapeuticInsights].join("\n");
+}
+
+// Render recalled memories as a numbered, citable block for the system prompt
+export function formatMemoriesForPrompt(memories: RecalledMemory[], language: string): string {
+  if (memories.length === 0) return "";
+
+  const lines = memories.map((memory, index) => {
+    const date = new Date(memory.timestamp).toISOString().slice(0, 10);
+    const topics = memory.keyTopics.length > 0 ? ` (${memory.keyTopics.join(", ")})` : "";
+    if (language === "ar") {
+      return memory.source === "session"
+        ? `[${index + 1}] جلسة بتاريخ ${date}${topics}: ${memory.text}`
+        : `[${index + 1}] قال المستخدم بتاريخ ${date}: "${memory.text}"`;
+    }
+    return memory.source === "session"
+      ? `[${index + 1}] Session on ${date}${topics}: ${memory.text}`
+      : `[${index + 1}] The user said on ${date}: "${memory.text}"`;
+  });
+
+  return language === "ar"
+    ? `\n\nذكريات ذات صلة من جلسات سابقة:\n${lines.join("\n")}\nاستخدمها فقط عندما تكون مفيدة، وأشر إليها بشكل طبيعي (مثلاً: "في المرة الماضية تحدثنا عن...").`
+    : `\n\nRelevant memories from past sessions:\n${lines.join("\n")}\nOnly use them when they help, and refer to them naturally (e.g. "Last time we talked about...").`;
+}
+
+// Embed a conversation summary (scheduled whenever a summary is saved)
+export const embedConversationSummary = action({
+  args: { summaryId: v.id("conversationSummaries") },
+  handler: async (ctx, args): Promise<void> => {
+    const summary = await ctx.runQuery(internal.memory.getSummaryById, { summaryId: args.summaryId });
+    if (!summary) return;
+
+    try {
+      const [embedding] = await getEmbeddingProvider().embed([summaryEmbeddingText(summary)]);
+      await ctx.runMutation(internal.memory.setSummaryEmbedding, { summaryId: args.summaryId, embedding });
+    } catch (error) {
+      // Memory is best-effort; the summary itself is already saved
+      console.error("Summary embedding error:", error);
+    }
+  },
+});
+
+// Embed a salient user message (scheduled from messages.addMessage)
+export const embedMessage = action({
+  args: { messageId: v.id("messages") },
+  handler: async (ctx, args): Promise<void> => {
+    const message = await ctx.runQuery(api.messages.getMessageById, { messageId: args.messageId });
+    if (!message) return;
+
+    try {
+      const [embedding] = await getEmbeddingProvider().embed([message.content]);
+      await ctx.runMutation(internal.memory.setMessageEmbedding, { messageId: args.messageId, embedding });
+    } catch (error) {
+      console.error("Message embedding error:", error);
+    }
+  },
+});
+
+// Embed a user's summaries written before semantic memory existed
+export const backfillSummaryEmbeddings = action({
+  args: { userId: v.id("users") },
+  returns: v.object({ embedded: v.number() }),
+  handler: async (ctx, args): Promise<{ embedded: number }> => {
+    const summaries = await ctx.runQuery(internal.memory.getSummariesWithoutEmbedding, { userId: args.userId });
+    if (summaries.length === 0) return { embedded: 0 };
+
+    const embeddings = await getEmbeddingProvider().embed(summaries.map(summaryEmbeddingText));
+    for (let i = 0; i < summaries.length; i++) {
+      await ctx.runMutation(internal.memory.setSummaryEmbedding, {
+        summaryId: summaries[i]._id,
+        embedding: embeddings[i],
+      });
+    }
+    return { embedded: summaries.length };
+  },
+});
+
+// Recall the user's past sessions and messages most relevant to `text`
+export const searchMemories = action({
+  args: {
+    userId: v.id("users"),
+    text: v.string(),
+    limit: v.optional(v.number()),
+    // The conversation in progress is already in the prompt; skip it
+    excludeConversationId: v.optional(v.id("conversations")),
+  },
+  returns: v.array(recalledMemoryValidator),
+  handler: async (ctx, args): Promise<RecalledMemory[]> => {
+    const limit = args.limit ?? 3;
+    const [vector] = await getEmbeddingProvider().embed([args.text]);
+
+    // Over-fetch so filtering out the current conversation still leaves enough
+    const [summaryMatches, messageMatches] = await Promise.all([
+      ctx.vectorSearch("conversationSummaries", "by_embedding", {
+        vector,
+        limit: limit * 2,
+        filter: (q) => q.eq("userId", args.userId),
+      }),
+      ctx.vectorSearch("messages", "by_embedding", {
+        vector,
+        limit: limit * 2,
+        filter: (q) => q.eq("userId", args.userId),
+      }),
+    ]);
+
+    const documents: MemoryDocuments = await ctx.runQuery(internal.memory.getMemoryDocuments, {
+      summaryIds: summaryMatches.filter(match => match._score >= MIN_MEMORY_SCORE).map(match => match._id),
+      messageIds: messageMatches.filter(match => match._score >= MIN_MEMORY_SCORE).map(match => match._id),
+    });
+    const scores = new Map<string, number>(
+      [...summaryMatches, ...messageMatches].map(match => [match._id, match._score])
+    );
+
+    const memories: RecalledMemory[] = [
+      ...documents.summaries.map(summary => ({
+        source: "session" as const,
+        conversationId: summary.conversationId,
+        text: summary.summary,
+        keyTopics: summary.keyTopics,
+        timestamp: summary.generatedAt,
+        score: scores.get(summary._id) ?? 0,
+      })),
+      ...documents.messages.map(message => ({
+        source: "message" as const,
+        conversationId: message.conversationId,
+        text: message.content,
+        keyTopics: [],
+        timestamp: message.timestamp,
+        score: scores.get(message._id) ?? 0,
+      })),
+    ];
+
+    return memories
+      .filter(memory => memory.conversationId !== args.excludeConversationId)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  },
+});
+
+export const getSummaryById = internalQuery({
+  args: { summaryId: v.id("conversationSummaries") },
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.summaryId);
+  },
+});
+
+export const getSummariesWithoutEmbedding = internalQuery({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    const summaries = await ctx.db
+      .query("conversationSummaries")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .collect();
+    return summaries.filter(summary => !summary.embedding);
+  },
+});
+
+// Load the documents behind vector search hits (actions can't read the db)
+export const getMemoryDocuments = internalQuery({
+  args: {
+    summaryIds: v.array(v.id("conversationSummaries")),
+    messageIds: v.array(v.id("messages")),
+  },
+  handler: async (ctx, args): Promise<MemoryDocuments> => {
+    const summaries = await Promise.all(args.summaryIds.map(id => ctx.db.get(id)));
+    const messages = await Promise.all(args.messageIds.map(id => ctx.db.get(id)));
+    return {
+      summaries: summaries.filter((summary): summary is Doc<"conversationSummaries"> => summary !== null),
+      messages: messages.filter((message): message is Doc<"messages"> => message !== null),
+    };
+  },
+});
+
+export const setSummaryEmbedding = internalMutation({
+  args: {
+    summaryId: v.id("conversationSummaries"),
+    embedding: v.array(v.float64()),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.summaryId, { embedding: args.embedding });
+  },
+});
+
+export const setMessageEmbedding = internalMutation({
+  args: {
+    messageId: v.id("messages"),
+    embedding: v.array(v.float64()),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.messageId, { embedding: args.embedding });
+  },
+});
@@ -322,6 +322,74 @@ describe('Messages Convex Functions', () => {
     });
   });
 
+  describe('Streaming drafts', () => {
+    async function createDraft() {
+      const user = await t.query(api.users.getUserByClerkId, { clerkId: 'test-user-123' });
+      const conversation = await t.query(api.conversations.getActiveConversation, {});
+
+      const messageId = await t.mutation(api.messages.addMessage, {
+        conversationId: conversation!._id,
+        userId: user!._id,
+        role: 'assistant',
+        content: '',
+        status: 'streaming',
+      });
+
+      return { messageId, conversationId: conversation!._id };
+    }
+
+    it('should patch draft content while streaming', async () => {
+      const { messageId } = await createDraft();
+
+      const stillStreaming = await t.mutation(api.messages.updateDraftMessage, {
+        messageId,
+        content: 'I hear',
+      });
+
+      expect(stillStreaming).toBe(true);
+      const draft = await t.query(api.messages.getMessageById, { messageId });
+      expect(draft!.content).toBe('I hear');
+      expect(draft!.status).toBe('streaming');
+    });
+
+    it('should mark the draft complete when finalized', async () => {
+      const { messageId } = await createDraft();
+
+      await t.mutation(api.messages.finalizeDraftMessage, {
+        messageId,
+        content: 'I hear you. Tell me more.',
+        sentiment: { score: 0, label: 'neutral' },
+      });
+
+      const message = await t.query(api.messages.getMessageById, { messageId });
+      expect(message!.content).toBe('I hear you. Tell me more.');
+      expect(message!.status).toBe('complete');
+    });
+
+    it('should stop accepting tokens after cancellation and keep the partial text', async () => {
+      const { messageId, conversationId } = await createDraft();
+      await t.mutation(api.messages.updateDraftMessage, { messageId, content: 'I hear' });
+
+      const result = await t.mutation(api.messages.cancelGeneration, { conversationId });
+      expect(result.cancelled).toBe(1);
+
+      const stillStreaming = await t.mutation(api.messages.updateDraftMessage, {
+        messageId,
+        content: 'I hear you',
+      });
+      expect(stillStreaming).toBe(false);
+
+      await t.mutation(api.messages.finalizeDraftMessage, {
+        messageId,
+        content: 'I hear you. Tell me more.',
+      });
+
+      const message = await t.query(api.messages.getMessageById, { messageId });
+      expect(message!.content).toBe('I hear');
+      expect(message!.status).toBe('cancelled');
+    });
+  });
+
   describe('Message queries', () => {
     beforeEach(async () => {
       const user = await t.query(api.users.getUserByClerkId, { clerkId: 'test-user-123' });
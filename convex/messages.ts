@@ -1,7 +1,17 @@
 import { v } from "convex/values";
-import { api } from "./_generated/api";
+import { api, internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
 import { action, mutation, query } from "./_generated/server";
 import { detectMessageLanguage } from "./aiHelpers";
+import { getExerciseType } from "./exerciseDefinitions";
+import { isSalientMessage } from "./memory";
+import { toSearchText } from "./searchText";
+import { recordStreakActivity } from "./streaks";
+
+// Embedding vectors are server-only; keep them out of what clients download
+function withoutEmbedding({ embedding: _embedding, ...message }: Doc<"messages">) {
+  return message;
+}
 
 // Add a message to a conversation
 export const addMessage = mutation({
@@ -10,6 +20,7 @@ export const addMessage = mutation({
     userId: v.id("users"),
     role: v.union(v.literal("user"), v.literal("assistant"), v.literal("system")),
     content: v.string(),
+    status: v.optional(v.union(v.literal("streaming"), v.literal("complete"), v.literal("cancelled"))),
     audioUrl: v.optional(v.string()),
     sentiment: v.optional(v.object({
       score: v.number(),
@@ -21,19 +32,25 @@ export const addMessage = mutation({
       language: v.optional(v.string()),
       chatMode: v.optional(v.string()),
       chunks: v.optional(v.array(v.string())), // For chunked responses
+      crisisSeverity: v.optional(v.string()),
+      crisisIndicators: v.optional(v.array(v.string())),
     })),
   },
-  handler: async (ctx, args) => {
+  handler: async (ctx, args): Promise<Id<"messages">> => {
     // Insert the message
+    const timestamp = Date.now();
     const messageId = await ctx.db.insert("messages", {
       conversationId: args.conversationId,
       userId: args.userId,
       role: args.role,
       content: args.content,
-      timestamp: Date.now(),
+      timestamp,
+      status: args.status,
       audioUrl: args.audioUrl,
       sentiment: args.sentiment,
       metadata: args.metadata,
+      // Drafts become searchable once finalized or cancelled
+      searchText: args.status === "streaming" ? "" : toSearchText(args.content),
     });
 
     // Update conversation's last message time and count
@@ -45,10 +62,109 @@ export const addMessage = mutation({
       });
     }
 
+    // Chatting counts as checking in for the day
+    if (args.role === "user") {
+      await recordStreakActivity(ctx, args.userId, "chat", timestamp);
+    }
+
+    // Remember meaningful user messages for semantic recall in later sessions
+    if (args.role === "user" && isSalientMessage(args.content)) {
+      await ctx.scheduler.runAfter(0, api.memory.embedMessage, { messageId });
+    }
+
     return messageId;
   },
 });
 
+// Replace the content of a streaming draft with the text received so far.
+// Returns false once the draft is no longer streaming (e.g. the user cancelled),
+// which tells the generating action to stop.
+export const updateDraftMessage = mutation({
+  args: {
+    messageId: v.id("messages"),
+    content: v.string(),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const message = await ctx.db.get(args.messageId);
+    if (!message || message.status !== "streaming") {
+      return false;
+    }
+
+    await ctx.db.patch(args.messageId, { content: args.content });
+    return true;
+  },
+});
+
+// Mark a streaming draft as finished with its final content
+export const finalizeDraftMessage = mutation({
+  args: {
+    messageId: v.id("messages"),
+    content: v.string(),
+    sentiment: v.optional(v.object({
+      score: v.number(),
+      label: v.string(),
+    })),
+    chunks: v.optional(v.array(v.string())),
+    // Actions the assistant offered while generating (see chatActions.ts)
+    actions: v.optional(v.array(v.object({
+      type: v.union(v.literal("start-exercise"), v.literal("log-mood"), v.literal("open-thought-record")),
+      exerciseId: v.optional(v.string()),
+      thoughtText: v.optional(v.string()),
+    }))),
+  },
+  handler: async (ctx, args) => {
+    const message = await ctx.db.get(args.messageId);
+    if (!message) {
+      throw new Error("Message not found");
+    }
+
+    // A cancelled draft keeps whatever text had streamed in before the cancel
+    if (message.status === "cancelled") {
+      return;
+    }
+
+    const offeredExercise = args.actions?.find(action => action.exerciseId)?.exerciseId;
+    const exerciseType = offeredExercise ? await getExerciseType(ctx, offeredExercise) : null;
+    await ctx.db.patch(args.messageId, {
+      content: args.content,
+      status: "complete",
+      searchText: toSearchText(args.content),
+      sentiment: args.sentiment,
+      metadata: {
+        ...message.metadata,
+        chunks: args.chunks,
+        ...(exerciseType ? { exerciseType } : {}),
+      },
+      ...(args.actions?.length ? { actions: args.actions } : {}),
+    });
+  },
+});
+
+// Stop any assistant reply that is still being generated in a conversation
+export const cancelGeneration = mutation({
+  args: {
+    conversationId: v.id("conversations"),
+  },
+  handler: async (ctx, args) => {
+    const recentMessages = await ctx.db
+      .query("messages")
+      .withIndex("by_conversation", (q) => q.eq("conversationId", args.conversationId))
+      .order("desc")
+      .take(10);
+
+    let cancelled = 0;
+    for (const message of recentMessages) {
+      if (message.status === "streaming") {
+        await ctx.db.patch(message._id, { status: "cancelled", searchText: toSearchText(message.content) });
+        cancelled++;
+      }
+    }
+
+    return { cancelled };
+  },
+});
+
 // Add reaction to a message (LEVER: Extending existing message functionality)
 export const addReaction = mutation({
   args: {
@@ -138,7 +254,7 @@ export const getConversationMessages = query({
       : null;
 
     return {
-      messages: results.reverse(), // Reverse to show oldest first in UI
+      messages: results.reverse().map(withoutEmbedding), // Reverse to show oldest first in UI
       nextCursor,
       hasMore,
       total: results.length,
@@ -159,41 +275,16 @@ export const getRecentMessages = query({
       .order("desc")
       .take(args.count);
 
-    return messages.reverse();
+    return messages.reverse().map(withoutEmbedding);
   },
 });
 
-// Search messages in a conversation
-export const searchMessages = query({
-  args: {
-    conversationId: v.id("conversations"),
-    searchQuery: v.string(),
-    limit: v.optional(v.number()),
-  },
+// Get a single message by id
+export const getMessageById = query({
+  args: { messageId: v.id("messages") },
   handler: async (ctx, args) => {
-    const limit = Math.min(args.limit || 50, 100);
-    const searchLower = args.searchQuery.toLowerCase();
-    
-    // Get all messages for the conversation
-    const allMessages = await ctx.db
-      .query("messages")
-      .withIndex("by_conversation", (q) => q.eq("conversationId", args.conversationId))
-      .order("desc")
-      .collect();
-    
-    // Filter messages that contain the search query
-    const matchingMessages = allMessages.filter(message => 
-      message.content.toLowerCase().includes(searchLower)
-    );
-    
-    // Return limited results with metadata
-    const results = matchingMessages.slice(0, limit);
-    
-    return {
-      messages: results,
-      totalMatches: matchingMessages.length,
-      searchQuery: args.searchQuery,
-    };
+    const message = await ctx.db.get(args.messageId);
+    return message ? withoutEmbedding(message) : null;
   },
 });
 
@@ -241,6 +332,7 @@ export const sendMessage = action({
       totalTime: 0,
       error: null as string | null,
     };
+    let draftMessageId: Id<"messages"> | null = null;
 
     try {
       // First, add the user's message - with timing
@@ -267,6 +359,16 @@ export const sendMessage = action({
       });
       performanceMetrics.crisisDetectionTime = Date.now() - crisisDetectionStart;
 
+      // Log serious detections; critical ones may notify the emergency contact
+      if (crisisAnalysis.severity === 'critical' || crisisAnalysis.severity === 'high') {
+        await ctx.runMutation(internal.crisis.recordCrisisEvent, {
+          userId: args.userId,
+          conversationId: args.conversationId,
+          severity: crisisAnalysis.severity,
+          indicators: crisisAnalysis.indicators,
+        });
+      }
+
     if (crisisAnalysis.isCrisis) {
       // Build emergency response based on severity
       let emergencyResponse = '';
@@ -340,9 +442,23 @@ export const sendMessage = action({
 
     const user = args.userInfo;
 
+      // Create the assistant reply as a draft right away; the AI action streams
+      // tokens into it so the client can render the partial response live
+      const chatMode = args.chatMode || 'full'; // Default to full mode
+      draftMessageId = await ctx.runMutation(api.messages.addMessage, {
+        conversationId: args.conversationId,
+        userId: args.userId,
+        role: "assistant",
+        content: "",
+        status: "streaming",
+        metadata: {
+          language: detectedLanguage,
+          chatMode,
+        },
+      });
+
       // Route to appropriate AI action based on chat mode - with timing
       const aiResponseStart = Date.now();
-      const chatMode = args.chatMode || 'full'; // Default to full mode
       let aiResponse: any;
 
       if (chatMode === 'floating') {
@@ -351,34 +467,36 @@ export const sendMessage = action({
           messages: formattedMessages,
           userInfo: user,
           language: detectedLanguage,
+          draftMessageId,
         });
       } else {
         // Use full chat AI for detailed responses
         aiResponse = await ctx.runAction(api.ai.generateResponse, {
           messages: formattedMessages,
-          userInfo: user,
+          userInfo: { ...user, userId: args.userId },
           language: detectedLanguage,
+          conversationId: args.conversationId,
+          draftMessageId,
         });
       }
       performanceMetrics.aiResponseTime = Date.now() - aiResponseStart;
 
-      // Add AI response to conversation with chunks if available
-      await ctx.runMutation(api.messages.addMessage, {
-        conversationId: args.conversationId,
-        userId: args.userId,
-        role: "assistant",
+      // Finalize the draft with the full response and chunks if available
+      await ctx.runMutation(api.messages.finalizeDraftMessage, {
+        messageId: draftMessageId,
         content: aiResponse.content,
         sentiment: aiResponse.sentiment,
-        metadata: { 
-          language: detectedLanguage,
-          chatMode,
-          chunks: aiResponse.chunks || undefined, // Store chunks for floating mode
-        },
+        chunks: aiResponse.chunks || undefined, // Store chunks for floating mode
+        actions: aiResponse.actions,
       });
 
     } catch (error) {
       performanceMetrics.error = error instanceof Error ? error.message : 'Unknown error';
       console.error('Error in sendMessage:', error);
+      // Don't leave a draft spinning forever if generation failed
+      if (draftMessageId) {
+        await ctx.runMutation(api.messages.cancelGeneration, { conversationId: args.conversationId });
+      }
       throw error;
     } finally {
       // Performance logging - end timing and log metrics
@@ -413,78 +531,7 @@ export const sendMessage = action({
   },
 });
 
-// Enhanced Crisis Detection System (LEVER: Extending existing safety features)
-
-interface CrisisKeywords {
-  immediate: string[];   // Requires immediate intervention
-  high: string[];       // High risk, needs urgent support
-  moderate: string[];   // Concerning, needs close monitoring
-}
-
-const crisisKeywords: { en: CrisisKeywords; ar: CrisisKeywords } = {
-  en: {
-    immediate: [
-      "suicide", "kill myself", "end my life", "want to die", "better off dead",
-      "going to hurt myself", "planning to", "tonight", "right now"
-    ],
-    high: [
-      "self-harm", "hurt myself", "cut myself", "overdose", "can't go on",
-      "no point", "hopeless", "worthless", "burden", "everyone hates me"
-    ],
-    moderate: [
-      "depressed", "anxious", "panic", "scared", "alone", "sad", "worried",
-      "stressed", "overwhelmed", "can't cope", "struggling"
-    ]
-  },
-  ar: {
-    immediate: [
-      "انتحار", "أقتل نفسي", "أنهي حياتي", "أريد أن أموت", "الأفضل أن أموت",
-      "سأؤذي نفسي", "أخطط", "الليلة", "الآن"
-    ],
-    high: [
-      "أؤذي نفسي", "أجرح نفسي", "أقطع نفسي", "جرعة زائدة", "لا أستطيع المتابعة",
-      "لا معنى", "يائس", "بلا قيمة", "عبء", "الجميع يكرهني"
-    ],
-    moderate: [
-      "مكتئب", "قلق", "خوف", "خائف", "وحيد", "حزين", "قلق",
-      "مضغوط", "مرهق", "لا أستطيع التأقلم", "أكافح"
-    ]
-  }
-};
-
-async function detectCrisisSignals(content: string, language: string): Promise<boolean> {
-  const lowerContent = content.toLowerCase();
-  const keywords = crisisKeywords[language as 'en' | 'ar'] || crisisKeywords.en;
-  
-  // Check for immediate crisis indicators
-  const hasImmediateCrisis = keywords.immediate.some(keyword => 
-    lowerContent.includes(keyword.toLowerCase())
-  );
-  
-  // Check for high-risk indicators
-  const hasHighRisk = keywords.high.some(keyword => 
-    lowerContent.includes(keyword.toLowerCase())
-  );
-  
-  return hasImmediateCrisis || hasHighRisk;
-}
-
-function getCrisisUrgencyLevel(content: string, language: string): 'immediate' | 'high' | 'moderate' {
-  const lowerContent = content.toLowerCase();
-  const keywords = crisisKeywords[language as 'en' | 'ar'] || crisisKeywords.en;
-  
-  // Check in order of severity
-  if (keywords.immediate.some(keyword => lowerContent.includes(keyword.toLowerCase()))) {
-    return 'immediate';
-  }
-  
-  if (keywords.high.some(keyword => lowerContent.includes(keyword.toLowerCase()))) {
-    return 'high';
-  }
-  
-  return 'moderate';
-}
-
+// Localized crisis response templates by urgency level
 function getCrisisResponse(urgencyLevel: 'immediate' | 'high' | 'moderate', language: string): string {
   const responses = {
     en: {
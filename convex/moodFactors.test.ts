@@ -0,0 +1,183 @@
+// @vitest-environment edge-runtime
+/// <reference types="vite/client" />
+/**
+ * Integration Tests for mood factors
+ * Tests custom factors, built-in overrides, archiving, the legacy migration and factor resolution in mood stats
+ */
+
+import { convexTest } from 'convex-test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { api, internal } from './_generated/api';
+import { BUILT_IN_FACTORS, matchBuiltInFactor, MAX_CUSTOM_FACTORS, MoodFactor } from './moodFactors';
+import schema from './schema';
+
+const modules = import.meta.glob('./**/*.ts');
+
+describe('Mood Factors', () => {
+  let t: ReturnType<typeof convexTest>;
+
+  beforeEach(() => {
+    t = convexTest(schema, modules);
+  });
+
+  const createUser = () => t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_1' }));
+
+  describe('getMoodFactors', () => {
+    it('should list the built-in factors for a new user', async () => {
+      const userId = await createUser();
+
+      const factors = await t.query(api.moodFactors.getMoodFactors, { userId });
+
+      expect(factors.map((f: MoodFactor) => f.key)).toEqual(BUILT_IN_FACTORS.map(f => f.key));
+    });
+  });
+
+  describe('createMoodFactor', () => {
+    it('should add a custom factor with a unique key', async () => {
+      const userId = await createUser();
+
+      const first = await t.mutation(api.moodFactors.createMoodFactor, {
+        userId,
+        label: { en: 'Family Time', ar: 'وقت العائلة' },
+        emoji: '👪',
+        category: 'social',
+      });
+      const second = await t.mutation(api.moodFactors.createMoodFactor, {
+        userId,
+        label: { en: 'Family time' },
+        category: 'social',
+      });
+
+      expect(first).toBe('custom-family-time');
+      expect(second).toBe('custom-family-time-2');
+
+      const factors = await t.query(api.moodFactors.getMoodFactors, { userId });
+      expect(factors.find((f: MoodFactor) => f.key === first)).toMatchObject({
+        label: { en: 'Family Time', ar: 'وقت العائلة' },
+        emoji: '👪',
+        category: 'social',
+        isBuiltIn: false,
+      });
+    });
+
+    it('should reject empty labels and too many factors', async () => {
+      const userId = await createUser();
+
+      await expect(t.mutation(api.moodFactors.createMoodFactor, {
+        userId,
+        label: { en: '   ' },
+        category: 'other',
+      })).rejects.toThrow('Factor label is required');
+
+      await t.run(async ctx => {
+        for (let i = 0; i < MAX_CUSTOM_FACTORS; i++) {
+          await ctx.db.insert('moodFactors', {
+            userId,
+            key: `custom-${i}`,
+            label: { en: `Factor ${i}` },
+            emoji: '🏷️',
+            category: 'other',
+            isBuiltIn: false,
+            createdAt: i,
+          });
+        }
+      });
+      await expect(t.mutation(api.moodFactors.createMoodFactor, {
+        userId,
+        label: { en: 'One more' },
+        category: 'other',
+      })).rejects.toThrow(`up to ${MAX_CUSTOM_FACTORS}`);
+    });
+  });
+
+  describe('updateMoodFactor / deleteMoodFactor', () => {
+    it('should override a built-in for this user only', async () => {
+      const userId = await createUser();
+      const otherId = await t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_2' }));
+
+      await t.mutation(api.moodFactors.updateMoodFactor, { userId, key: 'sleep', emoji: '🛌', category: 'mind' });
+
+      const mine = await t.query(api.moodFactors.getMoodFactors, { userId });
+      const theirs = await t.query(api.moodFactors.getMoodFactors, { userId: otherId });
+      expect(mine.find((f: MoodFactor) => f.key === 'sleep')).toMatchObject({ emoji: '🛌', category: 'mind', label: { en: 'Sleep' } });
+      expect(theirs.find((f: MoodFactor) => f.key === 'sleep')).toMatchObject({ emoji: '😴', category: 'body' });
+    });
+
+    it('should hide archived factors but keep them resolvable', async () => {
+      const userId = await createUser();
+      await t.mutation(api.moodFactors.deleteMoodFactor, { userId, key: 'weather' });
+
+      const visible = await t.query(api.moodFactors.getMoodFactors, { userId });
+      const all = await t.query(api.moodFactors.getMoodFactors, { userId, includeArchived: true });
+      expect(visible.map((f: MoodFactor) => f.key)).not.toContain('weather');
+      expect(all.find((f: MoodFactor) => f.key === 'weather')?.archived).toBe(true);
+
+      await t.mutation(api.moodFactors.updateMoodFactor, { userId, key: 'weather', archived: false });
+      const restored = await t.query(api.moodFactors.getMoodFactors, { userId });
+      expect(restored.map((f: MoodFactor) => f.key)).toContain('weather');
+    });
+
+    it('should reject unknown keys', async () => {
+      const userId = await createUser();
+
+      await expect(t.mutation(api.moodFactors.deleteMoodFactor, { userId, key: 'nope' }))
+        .rejects.toThrow('Mood factor not found');
+    });
+  });
+
+  describe('migrateLegacyFactors', () => {
+    it('should match legacy strings to built-in keys', () => {
+      expect(matchBuiltInFactor('Sleep')).toBe('sleep');
+      expect(matchBuiltInFactor(' WORK ')).toBe('work');
+      expect(matchBuiltInFactor('القلق')).toBe('anxiety');
+      expect(matchBuiltInFactor('gardening')).toBeNull();
+    });
+
+    it('should rewrite stored factors and keep unknown ones as archived custom factors', async () => {
+      const userId = await createUser();
+      const [moodA, moodB] = await t.run(async ctx => [
+        await ctx.db.insert('moods', { userId, rating: 6, timestamp: 1, factors: ['Sleep', 'gardening', 'sleep'] }),
+        await ctx.db.insert('moods', { userId, rating: 4, timestamp: 2, factors: ['gardening', 'التوتر'] }),
+      ]);
+
+      await t.mutation(internal.moodFactors.migrateLegacyFactors, {});
+
+      const moods = await t.run(async ctx => [await ctx.db.get(moodA), await ctx.db.get(moodB)]);
+      expect(moods[0]?.factors).toEqual(['sleep', 'custom-gardening']);
+      expect(moods[1]?.factors).toEqual(['custom-gardening', 'stress']);
+
+      const custom = await t.run(ctx => ctx.db.query('moodFactors').collect());
+      expect(custom).toHaveLength(1);
+      expect(custom[0]).toMatchObject({ key: 'custom-gardening', label: { en: 'gardening' }, archived: true });
+    });
+  });
+
+  describe('Mood stats', () => {
+    it('should resolve factor metadata in stats and insights', async () => {
+      const userId = await createUser();
+      const familyKey = await t.mutation(api.moodFactors.createMoodFactor, {
+        userId,
+        label: { en: 'Family', ar: 'العائلة' },
+        emoji: '👪',
+        category: 'social',
+      });
+      await t.mutation(api.moods.recordMood, { userId, rating: 8, factors: [familyKey, 'exercise'] });
+      await t.mutation(api.moods.recordMood, { userId, rating: 8, factors: [familyKey] });
+      await t.mutation(api.moods.recordMood, { userId, rating: 2, factors: ['stress'] });
+
+      const stats = await t.query(api.moods.getMoodStats, { userId });
+      expect(stats.mostCommonFactors[0]).toEqual({
+        factor: familyKey,
+        count: 2,
+        label: { en: 'Family', ar: 'العائلة' },
+        emoji: '👪',
+        category: 'social',
+      });
+
+      const insights = await t.query(api.moods.getMoodInsights, { userId });
+      expect(insights?.positiveMoodFactors.map((f: MoodFactor) => f.label.en)).toContain('Family');
+      expect(insights?.negativeMoodFactors.map((f: MoodFactor) => f.emoji)).toEqual(['😰']);
+      expect(insights?.currentFactors.map((f: MoodFactor) => f.key)).toEqual(['stress']);
+    });
+  });
+});
@@ -0,0 +1,348 @@
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { internalMutation, mutation, MutationCtx, query, QueryCtx } from "./_generated/server";
+
+// Mood factors: the "what's affecting your mood" tags attached to a mood.
+//
+// moods.factors stores factor keys. The built-in set below is shared by every
+// user; a user can hide or relabel a built-in (stored as an override row with
+// the same key) and add custom factors of their own. Factors are archived
+// rather than deleted so past moods still resolve to a label.
+
+export const FACTOR_CATEGORIES = [
+  "body",
+  "mind",
+  "social",
+  "work",
+  "lifestyle",
+  "environment",
+  "other",
+] as const;
+
+export type FactorCategory = (typeof FACTOR_CATEGORIES)[number];
+
+export const factorCategoryValidator = v.union(
+  v.literal("body"),
+  v.literal("mind"),
+  v.literal("social"),
+  v.literal("work"),
+  v.literal("lifestyle"),
+  v.literal("environment"),
+  v.literal("other"),
+);
+
+export interface MoodFactor {
+  key: string;
+  label: { en: string; ar: string };
+  emoji: string;
+  category: FactorCategory;
+  isBuiltIn: boolean;
+  archived: boolean;
+}
+
+// The factors MoodTracker originally shipped with; their keys are what older
+// moods store
+export const BUILT_IN_FACTORS: MoodFactor[] = [
+  { key: "sleep", label: { en: "Sleep", ar: "النوم" }, emoji: "😴", category: "body" },
+  { key: "exercise", label: { en: "Exercise", ar: "التمرين" }, emoji: "🏃", category: "body" },
+  { key: "work", label: { en: "Work", ar: "العمل" }, emoji: "💼", category: "work" },
+  { key: "relationships", label: { en: "Relationships", ar: "العلاقات" }, emoji: "❤️", category: "social" },
+  { key: "health", label: { en: "Health", ar: "الصحة" }, emoji: "🏥", category: "body" },
+  { key: "finance", label: { en: "Finance", ar: "المال" }, emoji: "💰", category: "lifestyle" },
+  { key: "social", label: { en: "Social", ar: "الاجتماعي" }, emoji: "👥", category: "social" },
+  { key: "hobby", label: { en: "Hobbies", ar: "الهوايات" }, emoji: "🎨", category: "lifestyle" },
+  { key: "weather", label: { en: "Weather", ar: "الطقس" }, emoji: "☀️", category: "environment" },
+  { key: "food", label: { en: "Food", ar: "الطعام" }, emoji: "🍽️", category: "body" },
+  { key: "stress", label: { en: "Stress", ar: "التوتر" }, emoji: "😰", category: "mind" },
+  { key: "anxiety", label: { en: "Anxiety", ar: "القلق" }, emoji: "😟", category: "mind" },
+].map(factor => ({ ...factor, category: factor.category as FactorCategory, isBuiltIn: true, archived: false }));
+
+export const MAX_CUSTOM_FACTORS = 50;
+export const MAX_FACTOR_LABEL_LENGTH = 40;
+
+const DEFAULT_CUSTOM_EMOJI = "🏷️";
+
+// Built-in key for a legacy factor string (a key, or an English or Arabic
+// label in any case), or null if it matches none
+export function matchBuiltInFactor(value: string): string | null {
+  const normalized = value.trim().toLowerCase();
+  const match = BUILT_IN_FACTORS.find(factor =>
+    factor.key === normalized ||
+    factor.label.en.toLowerCase() === normalized ||
+    factor.label.ar === value.trim()
+  );
+  return match ? match.key : null;
+}
+
+function toMoodFactor(row: Doc<"moodFactors">): MoodFactor {
+  return {
+    key: row.key,
+    label: { en: row.label.en, ar: row.label.ar ?? row.label.en },
+    emoji: row.emoji,
+    category: row.category,
+    isBuiltIn: row.isBuiltIn,
+    archived: row.archived ?? false,
+  };
+}
+
+// Every factor the user can see: built-ins with their overrides applied, then
+// custom factors oldest first
+export async function listMoodFactors(ctx: QueryCtx, userId: Id<"users">): Promise<MoodFactor[]> {
+  const rows = await ctx.db
+    .query("moodFactors")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+
+  const overrides = new Map(rows.filter(row => row.isBuiltIn).map(row => [row.key, row]));
+  const builtIns = BUILT_IN_FACTORS.map(factor => {
+    const override = overrides.get(factor.key);
+    return override ? toMoodFactor(override) : factor;
+  });
+  const custom = rows.filter(row => !row.isBuiltIn).map(toMoodFactor);
+
+  return [...builtIns, ...custom];
+}
+
+// Metadata for each stored key. Keys that no longer match a factor (or were
+// never migrated) fall back to the raw string as their label.
+export function resolveFactors(keys: string[], factors: MoodFactor[]): MoodFactor[] {
+  const byKey = new Map(factors.map(factor => [factor.key, factor]));
+  return keys.map(key => byKey.get(key) ?? {
+    key,
+    label: { en: key, ar: key },
+    emoji: DEFAULT_CUSTOM_EMOJI,
+    category: "other",
+    isBuiltIn: false,
+    archived: true,
+  });
+}
+
+function validateLabel(label: { en: string; ar?: string }) {
+  const en = label.en.trim();
+  const ar = label.ar?.trim();
+  if (!en) {
+    throw new Error("Factor label is required");
+  }
+  if (en.length > MAX_FACTOR_LABEL_LENGTH || (ar && ar.length > MAX_FACTOR_LABEL_LENGTH)) {
+    throw new Error(`Factor label must be at most ${MAX_FACTOR_LABEL_LENGTH} characters`);
+  }
+  return { en, ar: ar || undefined };
+}
+
+// A readable key for a custom factor that no other factor of the user's uses
+function customFactorKey(label: string, taken: Set<string>): string {
+  const slug = label.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+  const base = `custom-${slug || "factor"}`;
+  let key = base;
+  for (let n = 2; taken.has(key); n++) {
+    key = `${base}-${n}`;
+  }
+  return key;
+}
+
+async function insertCustomFactor(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  fields: { label: { en: string; ar?: string }; emoji?: string; category?: FactorCategory; archived?: boolean }
+): Promise<string> {
+  const rows = await ctx.db
+    .query("moodFactors")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+  const taken = new Set([...BUILT_IN_FACTORS.map(factor => factor.key), ...rows.map(row => row.key)]);
+  const key = customFactorKey(fields.label.en, taken);
+
+  await ctx.db.insert("moodFactors", {
+    userId,
+    key,
+    label: fields.label,
+    emoji: fields.emoji || DEFAULT_CUSTOM_EMOJI,
+    category: fields.category ?? "other",
+    isBuiltIn: false,
+    archived: fields.archived,
+    createdAt: Date.now(),
+  });
+  return key;
+}
+
+// Get the user's factors for the mood tracker and factor manager
+export const getMoodFactors = query({
+  args: {
+    userId: v.id("users"),
+    includeArchived: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args): Promise<MoodFactor[]> => {
+    const factors = await listMoodFactors(ctx, args.userId);
+    return args.includeArchived ? factors : factors.filter(factor => !factor.archived);
+  },
+});
+
+// Add a custom factor; returns its key
+export const createMoodFactor = mutation({
+  args: {
+    userId: v.id("users"),
+    label: v.object({ en: v.string(), ar: v.optional(v.string()) }),
+    emoji: v.optional(v.string()),
+    category: factorCategoryValidator,
+  },
+  handler: async (ctx, args): Promise<string> => {
+    const custom = await ctx.db
+      .query("moodFactors")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .filter((q) => q.eq(q.field("isBuiltIn"), false))
+      .collect();
+    if (custom.length >= MAX_CUSTOM_FACTORS) {
+      throw new Error(`You can add up to ${MAX_CUSTOM_FACTORS} custom factors`);
+    }
+
+    return await insertCustomFactor(ctx, args.userId, {
+      label: validateLabel(args.label),
+      emoji: args.emoji?.trim(),
+      category: args.category,
+    });
+  },
+});
+
+// Relabel, recategorise, hide or restore a factor. Editing a built-in stores
+// an override for this user only.
+export const updateMoodFactor = mutation({
+  args: {
+    userId: v.id("users"),
+    key: v.string(),
+    label: v.optional(v.object({ en: v.string(), ar: v.optional(v.string()) })),
+    emoji: v.optional(v.string()),
+    category: v.optional(factorCategoryValidator),
+    archived: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const label = args.label ? validateLabel(args.label) : undefined;
+    const emoji = args.emoji?.trim() || undefined;
+
+    const existing = await ctx.db
+      .query("moodFactors")
+      .withIndex("by_user_key", (q) => q.eq("userId", args.userId).eq("key", args.key))
+      .first();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        ...(label && { label }),
+        ...(emoji && { emoji }),
+        ...(args.category && { category: args.category }),
+        ...(args.archived !== undefined && { archived: args.archived }),
+      });
+      return;
+    }
+
+    const builtIn = BUILT_IN_FACTORS.find(factor => factor.key === args.key);
+    if (!builtIn) {
+      throw new Error("Mood factor not found");
+    }
+
+    await ctx.db.insert("moodFactors", {
+      userId: args.userId,
+      key: builtIn.key,
+      label: label ?? builtIn.label,
+      emoji: emoji ?? builtIn.emoji,
+      category: args.category ?? builtIn.category,
+      isBuiltIn: true,
+      archived: args.archived,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+// Remove a factor from the tracker. It is archived, not deleted, so moods that
+// used it keep their label; restore it with updateMoodFactor.
+export const deleteMoodFactor = mutation({
+  args: {
+    userId: v.id("users"),
+    key: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("moodFactors")
+      .withIndex("by_user_key", (q) => q.eq("userId", args.userId).eq("key", args.key))
+      .first();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, { archived: true });
+      return;
+    }
+
+    const builtIn = BUILT_IN_FACTORS.find(factor => factor.key === args.key);
+    if (!builtIn) {
+      throw new Error("Mood factor not found");
+    }
+
+    await ctx.db.insert("moodFactors", {
+      userId: args.userId,
+      key: builtIn.key,
+      label: builtIn.label,
+      emoji: builtIn.emoji,
+      category: builtIn.category,
+      isBuiltIn: true,
+      archived: true,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+const MIGRATION_BATCH_SIZE = 200;
+
+// One-off migration of moods saved before factors had keys. Strings that match
+// a built-in factor (by key or label) become its key; anything else becomes an
+// archived custom factor for that user so it still shows up in history.
+// Schedules itself until every mood has been visited:
+//   npx convex run moodFactors:migrateLegacyFactors
+export const migrateLegacyFactors = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  returns: v.object({ migrated: v.number(), isDone: v.boolean() }),
+  handler: async (ctx, args): Promise<{ migrated: number; isDone: boolean }> => {
+    const result = await ctx.db
+      .query("moods")
+      .paginate({ numItems: MIGRATION_BATCH_SIZE, cursor: args.cursor ?? null });
+
+    let migrated = 0;
+    for (const mood of result.page) {
+      if (!mood.factors?.length) continue;
+
+      const userFactors = await ctx.db
+        .query("moodFactors")
+        .withIndex("by_user", (q) => q.eq("userId", mood.userId))
+        .collect();
+      // Stored string -> factor key, for strings that are already keys or
+      // labels of the user's custom factors
+      const known = new Map<string, string>();
+      for (const row of userFactors) {
+        known.set(row.key, row.key);
+        if (!row.isBuiltIn) known.set(row.label.en, row.key);
+      }
+
+      const keys: string[] = [];
+      for (const factor of mood.factors) {
+        let key = known.get(factor) ?? matchBuiltInFactor(factor);
+        if (!key) {
+          const label = factor.trim().slice(0, MAX_FACTOR_LABEL_LENGTH);
+          key = await insertCustomFactor(ctx, mood.userId, { label: { en: label }, archived: true });
+        }
+        // Later moods with the same string reuse the factor created here
+        known.set(factor, key);
+        if (!keys.includes(key)) keys.push(key);
+      }
+
+      if (keys.length !== mood.factors.length || keys.some((key, i) => key !== mood.factors![i])) {
+        await ctx.db.patch(mood._id, { factors: keys });
+        migrated++;
+      }
+    }
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, internal.moodFactors.migrateLegacyFactors, {
+        cursor: result.continueCursor,
+      });
+    }
+
+    return { migrated, isDone: result.isDone };
+  },
+});
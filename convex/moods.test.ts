@@ -7,6 +7,7 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { ConvexTestingHelper } from 'convex/testing';
 import { api } from './_generated/api';
 import { Id } from './_generated/dataModel';
+import { MoodFactor } from './moodFactors';
 import schema from './schema';
 
 describe('Moods Integration Tests', () => {
@@ -404,10 +405,10 @@ describe('Moods Integration Tests', () => {
       expect(insights!.negativeMoodFactors).toBeDefined();
       
       // Exercise should be positive (associated with higher ratings)
-      expect(insights!.positiveMoodFactors).toContain('exercise');
+      expect(insights!.positiveMoodFactors.map((f: MoodFactor) => f.key)).toContain('exercise');
       
       // Stress should be negative (associated with lower ratings)
-      expect(insights!.negativeMoodFactors).toContain('stress');
+      expect(insights!.negativeMoodFactors.map((f: MoodFactor) => f.key)).toContain('stress');
     });
 
     it('should provide recent notes', async () => {
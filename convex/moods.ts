@@ -1,5 +1,12 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
+import { checkInFields, summarizeCheckIns, validateCheckIn } from "./checkIns";
+import { assertPrivateFieldsEncrypted } from "./encryption";
+import { listMoodFactors, resolveFactors } from "./moodFactors";
+import { currentStreak, recordStreakActivity } from "./streaks";
+import { moodSearchText } from "./searchText";
+import { resolveClientTimestamp } from "./sync";
+import { localTime } from "./timezones";
 
 // Record a mood entry
 export const recordMood = mutation({
@@ -9,22 +16,43 @@ export const recordMood = mutation({
     note: v.optional(v.string()),
     factors: v.optional(v.array(v.string())),
     emoji: v.optional(v.string()),
+    ...checkInFields,
+    // Set when replayed from the offline outbox
+    clientId: v.optional(v.string()),
+    clientTimestamp: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
-    const now = Date.now();
-    const today = new Date(now).toISOString().split('T')[0]; // YYYY-MM-DD
-    
+    if (args.clientId) {
+      const existing = await ctx.db
+        .query("moods")
+        .withIndex("by_user_client", (q) => q.eq("userId", args.userId).eq("clientId", args.clientId))
+        .first();
+      if (existing) return existing._id;
+    }
+
+    validateCheckIn(args);
+    await assertPrivateFieldsEncrypted(ctx, args.userId, [args.note]);
+
+    const timestamp = resolveClientTimestamp(args.clientTimestamp, Date.now());
+
     const moodId = await ctx.db.insert("moods", {
       userId: args.userId,
       rating: args.rating,
       note: args.note,
       factors: args.factors,
       emoji: args.emoji,
-      timestamp: now,
+      emotions: args.emotions,
+      energy: args.energy,
+      anxiety: args.anxiety,
+      sleepQuality: args.sleepQuality,
+      sleepHours: args.sleepHours,
+      timestamp,
+      clientId: args.clientId,
+      searchText: moodSearchText(args.note),
     });
 
-    // Update streak
-    await updateStreak(ctx, args.userId, "mood", today);
+    // Update the mood and check-in streaks, counted in the user's local day
+    await recordStreakActivity(ctx, args.userId, "mood", timestamp);
 
     return moodId;
   },
@@ -104,10 +132,20 @@ export const getMoodStats = query({
       });
     });
     
-    const mostCommonFactors = Object.entries(factorCounts)
+    const topFactors = Object.entries(factorCounts)
       .sort(([,a], [,b]) => b - a)
-      .slice(0, 5)
-      .map(([factor, count]) => ({ factor, count }));
+      .slice(0, 5);
+    const factors = resolveFactors(
+      topFactors.map(([factor]) => factor),
+      await listMoodFactors(ctx, args.userId)
+    );
+    const mostCommonFactors = topFactors.map(([factor, count], i) => ({
+      factor,
+      count,
+      label: factors[i].label,
+      emoji: factors[i].emoji,
+      category: factors[i].category,
+    }));
 
     return {
       averageRating,
@@ -130,6 +168,8 @@ export const getLatestMood = query({
   },
 });
 
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
 // Get mood insights for AI context
 export const getMoodInsights = query({
   args: { 
@@ -162,14 +202,14 @@ export const getMoodInsights = query({
     ) / recentMoods.length;
     const volatility = Math.sqrt(variance);
     
-    // Identify patterns
+    // Identify patterns, in the user's local time
+    const user = await ctx.db.get(args.userId);
     const moodsByHour = new Map<number, number[]>();
     const moodsByDay = new Map<string, number[]>();
     
     recentMoods.forEach(mood => {
-      const date = new Date(mood.timestamp);
-      const hour = date.getHours();
-      const day = date.toLocaleDateString('en-US', { weekday: 'long' });
+      const { hour, weekday } = localTime(mood.timestamp, user?.timezone);
+      const day = WEEKDAY_NAMES[weekday];
       
       if (!moodsByHour.has(hour)) moodsByHour.set(hour, []);
       if (!moodsByDay.has(day)) moodsByDay.set(day, []);
@@ -222,16 +262,21 @@ export const getMoodInsights = query({
       }
     });
     
+    const factors = await listMoodFactors(ctx, args.userId);
+
     return {
       currentMood: latestMood.rating,
-      currentFactors: latestMood.factors || [],
+      currentFactors: resolveFactors(latestMood.factors || [], factors),
       averageRating,
       volatility,
       totalEntries: recentMoods.length,
       bestTimeOfDay: bestHour >= 0 ? `${bestHour}:00` : null,
       worstTimeOfDay: worstHour >= 0 ? `${worstHour}:00` : null,
-      positiveMoodFactors,
-      negativeMoodFactors,
+      positiveMoodFactors: resolveFactors(positiveMoodFactors, factors),
+      negativeMoodFactors: resolveFactors(negativeMoodFactors, factors),
+      currentEmotions: latestMood.emotions || [],
+      // Energy, anxiety and sleep alongside mood, and how they move with it
+      checkIns: summarizeCheckIns(recentMoods),
       recentNotes: recentMoods
         .filter(mood => mood.note)
         .slice(0, 3)
@@ -247,85 +292,6 @@ export const getUserStreak = query({
     type: v.union(v.literal("mood"), v.literal("exercise"), v.literal("check-in")),
   },
   handler: async (ctx, args) => {
-    const streak = await ctx.db
-      .query("streaks")
-      .withIndex("by_user_type", (q) => 
-        q.eq("userId", args.userId).eq("type", args.type)
-      )
-      .first();
-
-    return streak || {
-      currentStreak: 0,
-      longestStreak: 0,
-      lastEntryDate: "",
-      streakStartDate: "",
-      totalEntries: 0,
-    };
+    return await currentStreak(ctx, args.userId, args.type);
   },
 });
-
-// Helper function to update streak
-async function updateStreak(
-  ctx: any,
-  userId: any,
-  type: "mood" | "exercise" | "check-in",
-  currentDate: string
-) {
-  const existingStreak = await ctx.db
-    .query("streaks")
-    .withIndex("by_user_type", (q: any) => 
-      q.eq("userId", userId).eq("type", type)
-    )
-    .first();
-
-  if (!existingStreak) {
-    // Create new streak
-    await ctx.db.insert("streaks", {
-      userId,
-      type,
-      currentStreak: 1,
-      longestStreak: 1,
-      lastEntryDate: currentDate,
-      streakStartDate: currentDate,
-      totalEntries: 1,
-    });
-    return;
-  }
-
-  const lastDate = new Date(existingStreak.lastEntryDate);
-  const current = new Date(currentDate);
-  const daysDiff = Math.floor(
-    (current.getTime() - lastDate.getTime()) / (1000 * 60 * 60 * 24)
-  );
-
-  let newCurrentStreak = existingStreak.currentStreak;
-  let newStreakStartDate = existingStreak.streakStartDate;
-
-  if (daysDiff === 0) {
-    // Same day, don't update streak
-    await ctx.db.patch(existingStreak._id, {
-      totalEntries: existingStreak.totalEntries + 1,
-    });
-    return;
-  } else if (daysDiff === 1) {
-    // Consecutive day, increment streak
-    newCurrentStreak = existingStreak.currentStreak + 1;
-  } else {
-    // Streak broken, restart
-    newCurrentStreak = 1;
-    newStreakStartDate = currentDate;
-  }
-
-  const newLongestStreak = Math.max(
-    existingStreak.longestStreak,
-    newCurrentStreak
-  );
-
-  await ctx.db.patch(existingStreak._id, {
-    currentStreak: newCurrentStreak,
-    longestStreak: newLongestStreak,
-    lastEntryDate: currentDate,
-    streakStartDate: newStreakStartDate,
-    totalEntries: existingStreak.totalEntries + 1,
-  });
-}
\ No newline at end of file
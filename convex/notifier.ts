@@ -0,0 +1,130 @@
+// Pluggable outbound notifier used by the crisis escalation workflow (crisis.ts).
+//
+// The notifier is selected from the Convex environment:
+//   NOTIFIER = "log" | "webhook"
+// "log" is the default and only records the channel and masked recipient of
+// each notification in the Convex logs, so local and staging deployments never
+// contact anyone. It doesn't deliver, so escalations sent through it are
+// recorded as "not-configured" rather than "notified".
+// "webhook" POSTs every notification as JSON to NOTIFIER_WEBHOOK_URL, where an
+// SMS/email gateway (Twilio, SendGrid, ...) delivers it.
+
+export type NotificationChannel = "sms" | "email";
+
+export type NotifierName = "log" | "webhook";
+
+export interface OutboundNotification {
+  channel: NotificationChannel;
+  // Phone number for SMS, address for email
+  to: string;
+  subject?: string;
+  body: string;
+}
+
+export interface Notifier {
+  name: NotifierName;
+  // Whether send() actually reaches the recipient
+  delivers: boolean;
+  send(notification: OutboundNotification): Promise<void>;
+}
+
+type Env = Record<string, string | undefined>;
+
+// Resolve the notifier configured for this deployment
+export function getNotifier(env: Env = process.env): Notifier {
+  const name = (env.NOTIFIER || "log").toLowerCase();
+
+  switch (name) {
+    case "log":
+      return createLogNotifier();
+    case "webhook":
+      return createWebhookNotifier(env);
+    default:
+      throw new Error(`Unknown notifier: ${name}`);
+  }
+}
+
+// Hide most of a phone number or email address before it reaches the logs
+export function maskRecipient(to: string): string {
+  const at = to.indexOf("@");
+  if (at > 0) {
+    return `${to.slice(0, 1)}***${to.slice(at)}`;
+  }
+  return to.length > 4 ? `***${to.slice(-4)}` : "***";
+}
+
+export interface CrisisNotificationInput {
+  userName: string;
+  contactName: string;
+  phone: string;
+  email?: string;
+  channels: NotificationChannel[];
+  language: string;
+}
+
+// Build the messages sent to an emergency contact. They deliberately carry no
+// conversation content or crisis indicators, only a request to check in.
+export function buildCrisisNotifications(input: CrisisNotificationInput): OutboundNotification[] {
+  const isArabic = input.language === "ar";
+  const subject = isArabic
+    ? `${input.userName} قد يحتاج إلى دعمك`
+    : `${input.userName} may need your support`;
+  const body = isArabic
+    ? `مرحباً ${input.contactName}، اختارك ${input.userName} كجهة اتصال للطوارئ في تطبيق نفسي. ` +
+      `قد يمر بوقت صعب الآن. يرجى التواصل معه في أقرب وقت. ` +
+      `إذا كنت تعتقد أنه في خطر مباشر، اتصل بخدمات الطوارئ المحلية.`
+    : `Hi ${input.contactName}, ${input.userName} chose you as their emergency contact in Nafsy. ` +
+      `They may be going through a difficult moment right now. Please reach out to them as soon as you can. ` +
+      `If you believe they are in immediate danger, call your local emergency services.`;
+
+  const notifications: OutboundNotification[] = [];
+  for (const channel of input.channels) {
+    if (channel === "sms") {
+      notifications.push({ channel, to: input.phone, body });
+    } else if (input.email) {
+      notifications.push({ channel, to: input.email, subject, body });
+    }
+  }
+  return notifications;
+}
+
+function createLogNotifier(): Notifier {
+  return {
+    name: "log",
+    delivers: false,
+    async send(notification) {
+      // The subject and body name the user and contact, so they stay out of the logs
+      console.log("Notifier (log only):", {
+        channel: notification.channel,
+        to: maskRecipient(notification.to),
+      });
+    },
+  };
+}
+
+function createWebhookNotifier(env: Env): Notifier {
+  const url = env.NOTIFIER_WEBHOOK_URL;
+  if (!url) {
+    throw new Error("Notifier webhook URL not configured");
+  }
+
+  return {
+    name: "webhook",
+    delivers: true,
+    async send(notification) {
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (env.NOTIFIER_WEBHOOK_TOKEN) {
+        headers.Authorization = `Bearer ${env.NOTIFIER_WEBHOOK_TOKEN}`;
+      }
+
+      const response = await fetch(url, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(notification),
+      });
+      if (!response.ok) {
+        throw new Error(`Notifier webhook error: ${response.statusText}`);
+      }
+    },
+  };
+}
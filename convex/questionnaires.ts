@@ -0,0 +1,164 @@
+// Validated self-assessment questionnaires.
+//
+// Each questionnaire is described by a QuestionnaireDefinition: its items and
+// answer options in English and Arabic, the severity bands its total score
+// falls into, any items that must route the user to the crisis flow, and how
+// often to invite the user to retake it. Adding a questionnaire is a matter of
+// adding a definition here.
+
+export interface LocalizedText {
+  en: string;
+  ar: string;
+}
+
+export const QUESTIONNAIRE_IDS = ["phq9", "gad7"] as const;
+
+export type QuestionnaireId = (typeof QUESTIONNAIRE_IDS)[number];
+
+export const SEVERITIES = ["minimal", "mild", "moderate", "moderately-severe", "severe"] as const;
+
+export type Severity = (typeof SEVERITIES)[number];
+
+export interface QuestionnaireDefinition {
+  id: QuestionnaireId;
+  name: string;
+  title: LocalizedText;
+  instructions: LocalizedText;
+  items: { id: string; text: LocalizedText }[];
+  // The same answer scale applies to every item
+  options: { value: number; label: LocalizedText }[];
+  // Inclusive total-score ranges, lowest first
+  bands: { min: number; max: number; severity: Severity; label: LocalizedText }[];
+  // Items whose answer at or above minScore sends the user to the crisis flow
+  riskItems: { itemId: string; minScore: number }[];
+  repeatEveryDays: number;
+}
+
+// "Over the last 2 weeks" scale shared by the PHQ-9 and GAD-7
+const FREQUENCY_OPTIONS = [
+  { value: 0, label: { en: "Not at all", ar: "أبداً" } },
+  { value: 1, label: { en: "Several days", ar: "عدة أيام" } },
+  { value: 2, label: { en: "More than half the days", ar: "أكثر من نصف الأيام" } },
+  { value: 3, label: { en: "Nearly every day", ar: "تقريباً كل يوم" } },
+];
+
+const TWO_WEEK_INSTRUCTIONS = {
+  en: "Over the last 2 weeks, how often have you been bothered by any of the following problems?",
+  ar: "خلال الأسبوعين الماضيين، كم مرة انزعجت من أي من المشكلات التالية؟",
+};
+
+export const PHQ9: QuestionnaireDefinition = {
+  id: "phq9",
+  name: "PHQ-9",
+  title: { en: "Depression check (PHQ-9)", ar: "فحص الاكتئاب (PHQ-9)" },
+  instructions: TWO_WEEK_INSTRUCTIONS,
+  items: [
+    { id: "interest", text: { en: "Little interest or pleasure in doing things", ar: "قلة الاهتمام أو المتعة في القيام بالأشياء" } },
+    { id: "down", text: { en: "Feeling down, depressed, or hopeless", ar: "الشعور بالحزن أو الاكتئاب أو اليأس" } },
+    { id: "sleep", text: { en: "Trouble falling or staying asleep, or sleeping too much", ar: "صعوبة في النوم أو البقاء نائماً، أو النوم أكثر من اللازم" } },
+    { id: "energy", text: { en: "Feeling tired or having little energy", ar: "الشعور بالتعب أو قلة الطاقة" } },
+    { id: "appetite", text: { en: "Poor appetite or overeating", ar: "ضعف الشهية أو الإفراط في الأكل" } },
+    {
+      id: "self-worth",
+      text: {
+        en: "Feeling bad about yourself, or that you are a failure or have let yourself or your family down",
+        ar: "الشعور بعدم الرضا عن نفسك، أو أنك فاشل، أو أنك خذلت نفسك أو عائلتك",
+      },
+    },
+    {
+      id: "concentration",
+      text: {
+        en: "Trouble concentrating on things, such as reading the newspaper or watching television",
+        ar: "صعوبة في التركيز على الأشياء، مثل قراءة الجريدة أو مشاهدة التلفاز",
+      },
+    },
+    {
+      id: "movement",
+      text: {
+        en: "Moving or speaking so slowly that other people could have noticed, or being so fidgety or restless that you have been moving around a lot more than usual",
+        ar: "التحرك أو التحدث ببطء شديد لدرجة أن الآخرين قد لاحظوا ذلك، أو التململ وعدم الاستقرار لدرجة أنك تتحرك أكثر من المعتاد",
+      },
+    },
+    {
+      id: "self-harm",
+      text: {
+        en: "Thoughts that you would be better off dead, or of hurting yourself in some way",
+        ar: "أفكار بأنه من الأفضل لو كنت ميتاً، أو أفكار بإيذاء نفسك بطريقة ما",
+      },
+    },
+  ],
+  options: FREQUENCY_OPTIONS,
+  bands: [
+    { min: 0, max: 4, severity: "minimal", label: { en: "Minimal", ar: "ضئيل" } },
+    { min: 5, max: 9, severity: "mild", label: { en: "Mild", ar: "خفيف" } },
+    { min: 10, max: 14, severity: "moderate", label: { en: "Moderate", ar: "متوسط" } },
+    { min: 15, max: 19, severity: "moderately-severe", label: { en: "Moderately severe", ar: "متوسط الشدة" } },
+    { min: 20, max: 27, severity: "severe", label: { en: "Severe", ar: "شديد" } },
+  ],
+  // Item 9: any thoughts of death or self-harm
+  riskItems: [{ itemId: "self-harm", minScore: 1 }],
+  repeatEveryDays: 14,
+};
+
+export const GAD7: QuestionnaireDefinition = {
+  id: "gad7",
+  name: "GAD-7",
+  title: { en: "Anxiety check (GAD-7)", ar: "فحص القلق (GAD-7)" },
+  instructions: TWO_WEEK_INSTRUCTIONS,
+  items: [
+    { id: "nervous", text: { en: "Feeling nervous, anxious, or on edge", ar: "الشعور بالتوتر أو القلق أو العصبية" } },
+    { id: "control", text: { en: "Not being able to stop or control worrying", ar: "عدم القدرة على إيقاف القلق أو التحكم فيه" } },
+    { id: "worry", text: { en: "Worrying too much about different things", ar: "القلق الزائد حول أمور مختلفة" } },
+    { id: "relaxing", text: { en: "Trouble relaxing", ar: "صعوبة في الاسترخاء" } },
+    { id: "restless", text: { en: "Being so restless that it is hard to sit still", ar: "التململ لدرجة يصعب معها البقاء جالساً بهدوء" } },
+    { id: "irritable", text: { en: "Becoming easily annoyed or irritable", ar: "الانزعاج أو الغضب بسهولة" } },
+    { id: "afraid", text: { en: "Feeling afraid, as if something awful might happen", ar: "الشعور بالخوف كأن شيئاً فظيعاً قد يحدث" } },
+  ],
+  options: FREQUENCY_OPTIONS,
+  bands: [
+    { min: 0, max: 4, severity: "minimal", label: { en: "Minimal", ar: "ضئيل" } },
+    { min: 5, max: 9, severity: "mild", label: { en: "Mild", ar: "خفيف" } },
+    { min: 10, max: 14, severity: "moderate", label: { en: "Moderate", ar: "متوسط" } },
+    { min: 15, max: 21, severity: "severe", label: { en: "Severe", ar: "شديد" } },
+  ],
+  riskItems: [],
+  repeatEveryDays: 14,
+};
+
+export const QUESTIONNAIRES: Record<QuestionnaireId, QuestionnaireDefinition> = {
+  phq9: PHQ9,
+  gad7: GAD7,
+};
+
+export function maxScore(definition: QuestionnaireDefinition): number {
+  return definition.items.length * Math.max(...definition.options.map(option => option.value));
+}
+
+export interface QuestionnaireScore {
+  totalScore: number;
+  severity: Severity;
+  severityLabel: LocalizedText;
+  // Items that call for the crisis flow
+  riskItems: string[];
+}
+
+// Total, severity band and risk items for one set of answers, in item order
+export function scoreQuestionnaire(definition: QuestionnaireDefinition, answers: number[]): QuestionnaireScore {
+  if (answers.length !== definition.items.length) {
+    throw new Error(`${definition.name} needs ${definition.items.length} answers, got ${answers.length}`);
+  }
+  const values = definition.options.map(option => option.value);
+  answers.forEach((answer, i) => {
+    if (!values.includes(answer)) {
+      throw new Error(`Answer to ${definition.name} item ${i + 1} must be one of ${values.join(", ")}`);
+    }
+  });
+
+  const totalScore = answers.reduce((sum, answer) => sum + answer, 0);
+  const band = definition.bands.find(b => totalScore >= b.min && totalScore <= b.max)!;
+  const riskItems = definition.riskItems
+    .filter(risk => answers[definition.items.findIndex(item => item.id === risk.itemId)] >= risk.minScore)
+    .map(risk => risk.itemId);
+
+  return { totalScore, severity: band.severity, severityLabel: band.label, riskItems };
+}
@@ -0,0 +1,134 @@
+// @vitest-environment edge-runtime
+/// <reference types="vite/client" />
+/**
+ * Tests for quick replies
+ * Tests generation, caching, crisis handling and the fallbacks
+ */
+
+import { convexTest } from 'convex-test';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { api } from './_generated/api';
+import { Id } from './_generated/dataModel';
+import {
+  fallbackQuickReplies,
+  MAX_QUICK_REPLY_LENGTH,
+  moodContextForRating,
+  parseQuickReplies,
+  QuickReply,
+} from './quickReplies';
+import schema from './schema';
+
+const modules = import.meta.glob('./**/*.ts');
+
+const now = Date.UTC(2025, 2, 1, 12);
+
+describe('Quick replies', () => {
+  it('should keep valid suggestions and fill the rest from the fallbacks', () => {
+    const fallback = fallbackQuickReplies('en', 'neutral');
+    const completion = JSON.stringify({
+      replies: [
+        { text: '  Sounds helpful ', sentiment: 'positive' },
+        { text: 'sounds helpful', sentiment: 'positive' },
+        { text: 'x'.repeat(MAX_QUICK_REPLY_LENGTH + 1), sentiment: 'neutral' },
+        { text: 'I want to kill myself', sentiment: 'supportive' },
+        { text: 'Maybe later', sentiment: 'grumpy' },
+      ],
+    });
+
+    expect(parseQuickReplies(completion, fallback)).toEqual([
+      { text: 'Sounds helpful', sentiment: 'positive' },
+      { text: 'Maybe later', sentiment: 'neutral' },
+      fallback[0],
+    ]);
+    expect(parseQuickReplies('not json', fallback)).toEqual(fallback);
+  });
+
+  it('should map mood ratings to a mood context', () => {
+    expect([1, 4, 5, 8, 10].map(moodContextForRating)).toEqual(['terrible', 'bad', 'okay', 'good', 'excellent']);
+  });
+
+  describe('generateQuickReplies', () => {
+    let t: ReturnType<typeof convexTest>;
+    let userId: Id<'users'>;
+    let conversationId: Id<'conversations'>;
+
+    const addAssistantMessage = (content: string, extra: { status?: 'streaming'; metadata?: { crisisSeverity?: string } } = {}) =>
+      t.run(ctx => ctx.db.insert('messages', {
+        conversationId,
+        userId,
+        role: 'assistant',
+        content,
+        timestamp: now,
+        ...extra,
+      }));
+
+    beforeEach(async () => {
+      process.env.LLM_PROVIDER = 'mock';
+      t = convexTest(schema, modules);
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(now);
+      userId = await t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_1' }));
+      conversationId = await t.run(ctx => ctx.db.insert('conversations', { userId, isActive: true, messageCount: 0 }));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.unstubAllGlobals();
+    });
+
+    it('should suggest three replies in the conversation language and cache them', async () => {
+      await t.mutation(api.moods.recordMood, { userId, rating: 7 });
+      const messageId = await addAssistantMessage('How did the walk go?');
+
+      const replies = await t.action(api.quickReplies.generateQuickReplies, { userId, messageId, language: 'en' });
+
+      expect(replies).toHaveLength(3);
+      expect(replies[0]).toEqual({ text: 'Tell me more', sentiment: 'neutral', moodContext: 'good' });
+      const message = await t.run(ctx => ctx.db.get(messageId));
+      expect(message?.quickReplies).toEqual(replies);
+
+      // Cached: a failing model is never asked again
+      process.env.LLM_PROVIDER = 'unknown';
+      expect(await t.action(api.quickReplies.generateQuickReplies, { userId, messageId, language: 'en' })).toEqual(replies);
+    });
+
+    it('should suggest Arabic replies for an Arabic conversation', async () => {
+      const messageId = await addAssistantMessage('كيف كان يومك؟');
+
+      const replies = await t.action(api.quickReplies.generateQuickReplies, { userId, messageId, language: 'ar' });
+
+      expect(replies.map((reply: QuickReply) => reply.text)).toEqual(['أخبرني المزيد', 'هذا يساعدني', 'ما زلت أشعر بالتعب']);
+    });
+
+    it('should use the fixed crisis set without asking the model', async () => {
+      process.env.LLM_PROVIDER = 'unknown';
+      const messageId = await addAssistantMessage('You matter. Please reach out to a crisis line.', {
+        metadata: { crisisSeverity: 'critical' },
+      });
+
+      const replies = await t.action(api.quickReplies.generateQuickReplies, { userId, messageId, language: 'en' });
+
+      expect(replies).toEqual(fallbackQuickReplies('en', 'crisis'));
+    });
+
+    it('should fall back to mood-appropriate replies when the model fails', async () => {
+      process.env.LLM_PROVIDER = 'ollama';
+      vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('offline')));
+      await t.mutation(api.moods.recordMood, { userId, rating: 3 });
+      const messageId = await addAssistantMessage('That sounds like a hard week.');
+
+      const replies = await t.action(api.quickReplies.generateQuickReplies, { userId, messageId, language: 'en' });
+
+      expect(replies).toEqual(fallbackQuickReplies('en', 'supportive').map(reply => ({ ...reply, moodContext: 'bad' })));
+    });
+
+    it('should wait for streaming replies and only serve the user\'s own messages', async () => {
+      const streamingId = await addAssistantMessage('', { status: 'streaming' });
+      const otherId = await t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_2' }));
+
+      expect(await t.action(api.quickReplies.generateQuickReplies, { userId, messageId: streamingId, language: 'en' })).toEqual([]);
+      await expect(t.action(api.quickReplies.generateQuickReplies, { userId: otherId, messageId: streamingId, language: 'en' }))
+        .rejects.toThrow('Message not found');
+    });
+  });
+});
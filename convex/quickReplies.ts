@@ -0,0 +1,267 @@
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { Doc } from "./_generated/dataModel";
+import { action, internalMutation, internalQuery } from "./_generated/server";
+import { classifyMessage } from "./crisisClassifier";
+import { getLLMProvider } from "./llm";
+
+// Quick replies: three short suggestions for what the user might say next,
+// shown as chips under the latest assistant message.
+//
+// They are generated from that message, the user's latest mood check-in and
+// their long-term profile (userSummaries), in the language of the
+// conversation, and cached on the message so each reply is only generated
+// once. Crisis replies never go to the model: they get a fixed set that keeps
+// the user talking or points to help. Anything the model suggests that reads
+// as a crisis statement is dropped, and missing or failed suggestions are
+// filled from mood-appropriate fallbacks.
+
+export const QUICK_REPLY_COUNT = 3;
+export const MAX_QUICK_REPLY_LENGTH = 40;
+
+export type QuickReplySentiment = "positive" | "neutral" | "supportive";
+export type MoodContext = "excellent" | "good" | "okay" | "bad" | "terrible";
+
+export interface QuickReply {
+  text: string;
+  sentiment: QuickReplySentiment;
+  moodContext?: MoodContext;
+}
+
+type FallbackSet = "positive" | "neutral" | "supportive" | "crisis";
+
+const FALLBACK_REPLIES: Record<"en" | "ar", Record<FallbackSet, QuickReply[]>> = {
+  en: {
+    positive: [
+      { text: "That sounds good", sentiment: "positive" },
+      { text: "Tell me more", sentiment: "neutral" },
+      { text: "What else can I try?", sentiment: "positive" },
+    ],
+    neutral: [
+      { text: "Tell me more", sentiment: "neutral" },
+      { text: "I'm not sure", sentiment: "neutral" },
+      { text: "Can you give an example?", sentiment: "supportive" },
+    ],
+    supportive: [
+      { text: "It's been hard lately", sentiment: "supportive" },
+      { text: "Can we try an exercise?", sentiment: "supportive" },
+      { text: "I'm not sure", sentiment: "neutral" },
+    ],
+    crisis: [
+      { text: "I need help right now", sentiment: "supportive" },
+      { text: "Can you stay with me?", sentiment: "supportive" },
+      { text: "I'm safe for now", sentiment: "neutral" },
+    ],
+  },
+  ar: {
+    positive: [
+      { text: "هذا يبدو جيداً", sentiment: "positive" },
+      { text: "أخبرني المزيد", sentiment: "neutral" },
+      { text: "ماذا يمكنني أن أجرب أيضاً؟", sentiment: "positive" },
+    ],
+    neutral: [
+      { text: "أخبرني المزيد", sentiment: "neutral" },
+      { text: "لست متأكداً", sentiment: "neutral" },
+      { text: "هل يمكنك إعطائي مثالاً؟", sentiment: "supportive" },
+    ],
+    supportive: [
+      { text: "الأيام الأخيرة كانت صعبة", sentiment: "supportive" },
+      { text: "هل نجرب تمريناً؟", sentiment: "supportive" },
+      { text: "لست متأكداً", sentiment: "neutral" },
+    ],
+    crisis: [
+      { text: "أحتاج المساعدة الآن", sentiment: "supportive" },
+      { text: "هل يمكنك البقاء معي؟", sentiment: "supportive" },
+      { text: "أنا بأمان الآن", sentiment: "neutral" },
+    ],
+  },
+};
+
+const SENTIMENTS: QuickReplySentiment[] = ["positive", "neutral", "supportive"];
+
+// Mood ratings are 1-10
+export function moodContextForRating(rating: number): MoodContext {
+  if (rating <= 2) return "terrible";
+  if (rating <= 4) return "bad";
+  if (rating <= 6) return "okay";
+  if (rating <= 8) return "good";
+  return "excellent";
+}
+
+export function fallbackQuickReplies(language: string, set: FallbackSet): QuickReply[] {
+  return FALLBACK_REPLIES[language === "ar" ? "ar" : "en"][set];
+}
+
+function fallbackSetForMood(moodContext: MoodContext | undefined): FallbackSet {
+  if (moodContext === "bad" || moodContext === "terrible") return "supportive";
+  if (moodContext === "good" || moodContext === "excellent") return "positive";
+  return "neutral";
+}
+
+// Validate the model's JSON and top it up from the fallbacks; never throws
+export function parseQuickReplies(completion: string, fallback: QuickReply[]): QuickReply[] {
+  let candidates: unknown[] = [];
+  try {
+    const parsed = JSON.parse(completion);
+    if (Array.isArray(parsed?.replies)) candidates = parsed.replies;
+  } catch {
+    // Fall through to the fallbacks
+  }
+
+  const replies: QuickReply[] = [];
+  const seen = new Set<string>();
+  const add = (reply: QuickReply) => {
+    const key = reply.text.toLowerCase();
+    if (replies.length < QUICK_REPLY_COUNT && !seen.has(key)) {
+      seen.add(key);
+      replies.push(reply);
+    }
+  };
+
+  for (const candidate of candidates) {
+    if (typeof candidate !== "object" || candidate === null) continue;
+    const { text, sentiment } = candidate as { text?: unknown; sentiment?: unknown };
+    if (typeof text !== "string") continue;
+    const trimmed = text.trim();
+    if (!trimmed || trimmed.length > MAX_QUICK_REPLY_LENGTH) continue;
+    // Never put a crisis statement in the user's mouth
+    if (classifyMessage(trimmed).severity !== "low") continue;
+    add({
+      text: trimmed,
+      sentiment: SENTIMENTS.includes(sentiment as QuickReplySentiment) ? sentiment as QuickReplySentiment : "neutral",
+    });
+  }
+  for (const reply of fallback) add(reply);
+
+  return replies;
+}
+
+export const getQuickReplyContext = internalQuery({
+  args: {
+    userId: v.id("users"),
+    messageId: v.id("messages"),
+  },
+  handler: async (ctx, args) => {
+    const message = await ctx.db.get(args.messageId);
+    if (!message || message.userId !== args.userId || message.role !== "assistant") {
+      throw new Error("Message not found");
+    }
+
+    const latestMood = await ctx.db
+      .query("moods")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .order("desc")
+      .first();
+    const summary = await ctx.db
+      .query("userSummaries")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .first();
+
+    return {
+      message: {
+        content: message.content,
+        status: message.status,
+        metadata: message.metadata,
+        quickReplies: message.quickReplies,
+      },
+      // The note may be encrypted; the rating and emotions never are
+      latestMood: latestMood ? { rating: latestMood.rating, emotions: latestMood.emotions ?? [] } : null,
+      summary: summary
+        ? { keyThemes: summary.keyThemes, preferredApproaches: summary.preferredApproaches }
+        : null,
+    };
+  },
+});
+
+export const saveQuickReplies = internalMutation({
+  args: {
+    messageId: v.id("messages"),
+    replies: v.array(v.object({
+      text: v.string(),
+      sentiment: v.union(v.literal("positive"), v.literal("neutral"), v.literal("supportive")),
+      moodContext: v.optional(v.union(
+        v.literal("excellent"),
+        v.literal("good"),
+        v.literal("okay"),
+        v.literal("bad"),
+        v.literal("terrible")
+      )),
+    })),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.messageId, { quickReplies: args.replies });
+  },
+});
+
+// Suggestions for the user's next message after an assistant reply
+export const generateQuickReplies = action({
+  args: {
+    userId: v.id("users"),
+    messageId: v.id("messages"),
+    language: v.string(),
+  },
+  handler: async (ctx, args): Promise<QuickReply[]> => {
+    const context: {
+      message: Pick<Doc<"messages">, "content" | "status" | "metadata" | "quickReplies">;
+      latestMood: { rating: number; emotions: string[] } | null;
+      summary: { keyThemes: string[]; preferredApproaches: string[] } | null;
+    } = await ctx.runQuery(internal.quickReplies.getQuickReplyContext, {
+      userId: args.userId,
+      messageId: args.messageId,
+    });
+
+    if (context.message.quickReplies) return context.message.quickReplies;
+    // Nothing to suggest until the reply has finished streaming
+    if (context.message.status === "streaming" || !context.message.content.trim()) return [];
+
+    const moodContext = context.latestMood ? moodContextForRating(context.latestMood.rating) : undefined;
+    const severity = context.message.metadata?.crisisSeverity;
+    const isCrisis = context.message.metadata?.isEmergency === true || severity === "high" || severity === "critical";
+
+    let replies: QuickReply[];
+    if (isCrisis) {
+      replies = fallbackQuickReplies(args.language, "crisis");
+    } else {
+      const fallback = fallbackQuickReplies(args.language, fallbackSetForMood(moodContext));
+      const contextLines = [
+        context.latestMood
+          ? `Latest mood: ${context.latestMood.rating}/10${context.latestMood.emotions.length > 0 ? ` (${context.latestMood.emotions.join(", ")})` : ""}`
+          : null,
+        context.summary?.keyThemes.length ? `Recurring themes: ${context.summary.keyThemes.join(", ")}` : null,
+        context.summary?.preferredApproaches.length ? `Prefers: ${context.summary.preferredApproaches.join(", ")}` : null,
+      ].filter((line): line is string => line !== null);
+
+      const systemPrompt = args.language === "ar"
+        ? `أنت تساعد مستخدم تطبيق نفسي على الرد. اقترح ${QUICK_REPLY_COUNT} ردود قصيرة جداً (حتى 6 كلمات) قد يرسلها المستخدم بعد رسالة المساعد التالية، بصيغة المتكلم وباللغة العربية.
+اجعلها متنوعة ومناسبة لمزاجه. أعد JSON فقط بالشكل: {"replies":[{"text":"...","sentiment":"positive|neutral|supportive"}]}`
+        : `You help a user of the Nafsy app reply. Suggest ${QUICK_REPLY_COUNT} very short replies (up to 6 words) the user might send after the following assistant message, written in the first person, in English.
+Keep them varied and suited to their mood. Return only JSON shaped like: {"replies":[{"text":"...","sentiment":"positive|neutral|supportive"}]}`;
+
+      try {
+        const llm = getLLMProvider();
+        const completion = await llm.complete({
+          purpose: "quick-replies",
+          tier: "fast",
+          messages: [
+            { role: "system", content: systemPrompt },
+            { role: "user", content: [`Assistant: ${context.message.content}`, ...contextLines].join("\n") },
+          ],
+          temperature: 0.8,
+          maxTokens: 150,
+          jsonMode: true,
+        });
+        replies = parseQuickReplies(completion, fallback);
+      } catch (error) {
+        console.error("Quick reply generation error:", error);
+        replies = fallback;
+      }
+    }
+
+    const withMood = replies.map(reply => (moodContext ? { ...reply, moodContext } : reply));
+    await ctx.runMutation(internal.quickReplies.saveQuickReplies, {
+      messageId: args.messageId,
+      replies: withMood,
+    });
+    return withMood;
+  },
+});
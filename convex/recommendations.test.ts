@@ -0,0 +1,212 @@
+// @vitest-environment edge-runtime
+/// <reference types="vite/client" />
+/**
+ * Tests for exercise recommendations
+ * Tests completion outcomes, difficulty levels and the ranking of published
+ * exercises: personal effectiveness, recency, current factors and exploration
+ */
+
+import { convexTest } from 'convex-test';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { api, internal } from './_generated/api';
+import { Id } from './_generated/dataModel';
+import { BUILT_IN_EXERCISE_DEFINITIONS } from './exerciseCatalog';
+import { ExerciseRecommendation, completionOutcome, difficultyLevel } from './recommendations';
+import schema from './schema';
+
+const modules = import.meta.glob('./**/*.ts');
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+// 14:00 UTC, an afternoon for a user in UTC
+const NOW = Date.UTC(2026, 2, 10, 14);
+
+describe('Exercise recommendations', () => {
+  it('should combine the rating and the mood lift into one outcome', () => {
+    expect(completionOutcome(5, undefined)).toBe(1);
+    expect(completionOutcome(1, undefined)).toBe(0);
+    expect(completionOutcome(undefined, 3)).toBe(1);
+    expect(completionOutcome(undefined, -3)).toBe(0);
+    expect(completionOutcome(3, 0)).toBe(0.5);
+    expect(completionOutcome(undefined, undefined)).toBeNull();
+  });
+
+  it('should raise the difficulty level with practice', () => {
+    expect(difficultyLevel(0)).toBe('beginner');
+    expect(difficultyLevel(5)).toBe('intermediate');
+    expect(difficultyLevel(20)).toBe('advanced');
+  });
+
+  it('should suggest a built-in breathing exercise before the catalog is seeded', async () => {
+    const t = convexTest(schema, modules);
+    const userId = await t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_1', name: 'Test User' }));
+
+    const suggestion = await t.action(api.ai.suggestExercise, {
+      userId,
+      currentMood: 3,
+      recentEmotions: [],
+      language: 'en',
+    });
+
+    expect(suggestion).toEqual({ type: 'breathing', reason: 'A gentle place to start today', exerciseId: 'box-breathing' });
+  });
+
+  describe('ranking', () => {
+    let t: ReturnType<typeof convexTest>;
+    let userId: Id<'users'>;
+
+    const complete = (exerciseId: string, completedAt: number, effectiveness?: number) => {
+      const type = BUILT_IN_EXERCISE_DEFINITIONS.find(exercise => exercise.exerciseId === exerciseId)!.type;
+      return t.run(ctx => ctx.db.insert('exercises', {
+        userId,
+        type,
+        exerciseId,
+        completedAt,
+        data: { outputs: effectiveness !== undefined ? { effectiveness } : undefined },
+      }));
+    };
+
+    const addMood = (rating: number, timestamp: number, factors?: string[]) =>
+      t.run(ctx => ctx.db.insert('moods', { userId, rating, timestamp, factors }));
+
+    const recommend = (args: { currentMood?: number; currentFactors?: string[]; limit?: number } = {}): Promise<ExerciseRecommendation[]> =>
+      t.query(api.recommendations.getExerciseRecommendations, { userId, language: 'en', ...args });
+
+    beforeEach(async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(NOW);
+      t = convexTest(schema, modules);
+      await t.mutation(internal.exerciseDefinitions.seedExerciseDefinitions, {});
+      userId = await t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_1', timezone: 'UTC' }));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should score every published exercise, best first', async () => {
+      const ranked = await recommend();
+
+      expect(ranked.map(item => item.exerciseId).sort())
+        .toEqual(BUILT_IN_EXERCISE_DEFINITIONS.map(exercise => exercise.exerciseId).sort());
+      expect(ranked.find(item => item.exerciseId === 'box-breathing')!.title.en).toBe('Box Breathing');
+      for (let i = 1; i < ranked.length; i++) {
+        expect(ranked[i - 1].score).toBeGreaterThanOrEqual(ranked[i].score);
+      }
+      expect(await recommend({ limit: 2 })).toHaveLength(2);
+    });
+
+    it('should favour the exercise that lifted the user\'s mood', async () => {
+      for (const daysAgo of [3, 5, 7]) {
+        const completedAt = NOW - daysAgo * DAY;
+        await addMood(3, completedAt - HOUR);
+        await complete('54321-grounding', completedAt, 5);
+        await addMood(7, completedAt + HOUR);
+      }
+      for (const daysAgo of [4, 6]) {
+        const completedAt = NOW - daysAgo * DAY;
+        await addMood(5, completedAt - HOUR);
+        await complete('box-breathing', completedAt, 1);
+        await addMood(4, completedAt + HOUR);
+      }
+
+      const ranked = await recommend();
+      const grounding = ranked.find(item => item.exerciseId === '54321-grounding')!;
+      const breathing = ranked.find(item => item.exerciseId === 'box-breathing')!;
+
+      expect(ranked[0].exerciseId).toBe('54321-grounding');
+      expect(grounding.reason).toBe('This has helped you before');
+      expect(grounding.completions).toBe(3);
+      expect(grounding.components.effectiveness).toBeGreaterThan(0);
+      expect(breathing.components.effectiveness).toBeLessThan(0);
+    });
+
+    it('should hold back an exercise done in the last few hours', async () => {
+      await complete('gratitude-journal', NOW - 2 * DAY, 4);
+      await complete('box-breathing', NOW - HOUR, 4);
+
+      const ranked = await recommend();
+      const recent = ranked.find(item => item.exerciseId === 'box-breathing')!;
+      const earlier = ranked.find(item => item.exerciseId === 'gratitude-journal')!;
+
+      expect(recent.components.recency).toBeLessThan(earlier.components.recency);
+      expect(recent.lastCompletedAt).toBe(NOW - HOUR);
+    });
+
+    it('should match the factors of the current mood and say so', async () => {
+      await addMood(3, NOW - HOUR, ['anxiety']);
+
+      const [top] = await recommend();
+
+      expect(['box-breathing', '54321-grounding']).toContain(top.exerciseId);
+      expect(top.reason).toBe('May help with anxiety');
+    });
+
+    it('should explain in Arabic', async () => {
+      const [top]: ExerciseRecommendation[] = await t.query(api.recommendations.getExerciseRecommendations, {
+        userId,
+        language: 'ar',
+        currentMood: 3,
+        currentFactors: ['anxiety'],
+      });
+
+      expect(top.reason).toBe('قد يساعدك مع القلق');
+    });
+
+    it('should give untried exercises a chance', async () => {
+      for (let i = 1; i <= 4; i++) {
+        await complete('box-breathing', NOW - i * DAY, 3);
+      }
+
+      const ranked = await recommend();
+      const tried = ranked.find(item => item.exerciseId === 'box-breathing')!;
+      const untried = ranked.find(item => item.exerciseId === '54321-grounding')!;
+
+      expect(untried.components.exploration).toBeGreaterThan(tried.components.exploration);
+      expect(untried.reason).toBe('Something new you haven\'t tried yet');
+    });
+
+    it('should rank imported exercises and skip unpublished ones', async () => {
+      const [boxBreathing] = BUILT_IN_EXERCISE_DEFINITIONS;
+      await t.mutation(internal.exerciseDefinitions.importExerciseDefinitions, {
+        definitions: [
+          { ...boxBreathing, exerciseId: 'calm-breathing', title: { en: 'Calm Breathing', ar: 'تنفس هادئ' } },
+          { ...boxBreathing, exerciseId: 'draft-breathing', isPublished: false },
+        ],
+      });
+
+      const ranked = await recommend();
+
+      expect(ranked.find(item => item.exerciseId === 'calm-breathing')).toMatchObject({
+        type: 'breathing',
+        title: { en: 'Calm Breathing', ar: 'تنفس هادئ' },
+      });
+      expect(ranked.some(item => item.exerciseId === 'draft-breathing')).toBe(false);
+    });
+
+    it('should count older completions without a catalog id by type', async () => {
+      await t.run(ctx => ctx.db.insert('exercises', {
+        userId,
+        type: 'gratitude',
+        completedAt: NOW - DAY,
+        data: {},
+      }));
+
+      const ranked = await recommend();
+
+      expect(ranked.find(item => item.exerciseId === 'gratitude-journal')!.completions).toBe(1);
+    });
+
+    it('should suggest the top-ranked exercise', async () => {
+      const suggestion = await t.action(api.ai.suggestExercise, {
+        userId,
+        currentMood: 3,
+        recentEmotions: ['anxiety'],
+        language: 'en',
+      });
+      const [top] = await recommend({ currentMood: 3, currentFactors: ['anxiety'] });
+
+      expect(suggestion).toEqual({ type: top.type, reason: top.reason, exerciseId: top.exerciseId });
+    });
+  });
+});
@@ -0,0 +1,298 @@
+import { v } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+import { query } from "./_generated/server";
+import { timeOfDay, userLocalTime } from "./analytics";
+import {
+  DIFFICULTIES,
+  ExerciseDefinition,
+  ExerciseDifficulty,
+  listPublishedDefinitions,
+  MoodBand,
+  TimeOfDay,
+} from "./exerciseDefinitions";
+import { listMoodFactors } from "./moodFactors";
+import { LocalizedText } from "./questionnaires";
+
+// Exercise recommendations: every published exercise definition is scored for
+// the user and returned best first, each with a one-line reason.
+//
+// The score adds up:
+// - personal effectiveness: the mean outcome of past completions (mood lift
+//   and the user's own 1-5 rating), shrunk towards a neutral prior so one
+//   good session doesn't dominate
+// - exploration: a UCB-style bonus for exercises tried less often than the
+//   rest, so new ones keep getting a chance (bandit exploration)
+// - recency: a penalty for repeating an exercise done in the last day
+// - fit with the time of day, the factors and emotions of the latest mood
+//   and the mood level itself (the definition's fit)
+// - difficulty progression: exercises at the user's level first, harder ones
+//   once they have practiced enough
+//
+// Past completions are matched by exercises.exerciseId; older ones that only
+// recorded a type count for every catalog exercise of that type.
+
+// Neutral outcome assumed for an exercise, and how many completions it is worth
+export const PRIOR_OUTCOME = 0.5;
+export const PRIOR_WEIGHT = 2;
+export const EXPLORATION_WEIGHT = 0.3;
+export const RECENCY_PENALTY = 0.4;
+const RECENCY_HALF_LIFE_HOURS = 12;
+const TIME_OF_DAY_BONUS = 0.1;
+const FACTOR_BONUS = 0.2;
+const MOOD_FIT_BONUS = 0.1;
+// Completions needed to reach each difficulty level
+export const LEVEL_THRESHOLDS: Record<ExerciseDifficulty, number> = {
+  beginner: 0,
+  intermediate: 5,
+  advanced: 15,
+};
+const DIFFICULTY_FIT = { atLevel: 0.1, below: 0, nextLevel: -0.1, beyond: -0.3 };
+
+// History that feeds the score, and how close a mood must be to an exercise
+// to count as "before" or "after" it
+const HISTORY_DAYS = 90;
+const MOOD_PAIR_WINDOW_MS = 3 * 60 * 60 * 1000;
+// Only a recent mood describes how the user feels now
+const CURRENT_MOOD_WINDOW_MS = 12 * 60 * 60 * 1000;
+
+export interface RecommendationComponents {
+  effectiveness: number;
+  exploration: number;
+  recency: number;
+  timeOfDay: number;
+  factors: number;
+  mood: number;
+  difficulty: number;
+}
+
+export interface ExerciseRecommendation {
+  exerciseId: string;
+  type: string;
+  title: LocalizedText;
+  difficulty: ExerciseDifficulty;
+  score: number;
+  reason: string;
+  components: RecommendationComponents;
+  completions: number;
+  lastCompletedAt: number | null;
+}
+
+// Outcome of one completion in 0-1: the rating and the mood lift, averaged
+// when both are known. Null when neither is.
+export function completionOutcome(effectiveness: number | undefined, moodDelta: number | undefined): number | null {
+  const parts: number[] = [];
+  if (effectiveness !== undefined && effectiveness > 0) parts.push((Math.min(5, effectiveness) - 1) / 4);
+  if (moodDelta !== undefined) parts.push(Math.max(0, Math.min(1, 0.5 + moodDelta / 6)));
+  return parts.length > 0 ? parts.reduce((sum, part) => sum + part, 0) / parts.length : null;
+}
+
+// Mood after minus mood before: the exercise's own record if it has one,
+// otherwise the moods logged just before and just after it
+function moodDelta(exercise: Doc<"exercises">, moods: Doc<"moods">[]): number | undefined {
+  const outputs = exercise.data.outputs;
+  if (outputs?.moodBefore !== undefined && outputs?.moodAfter !== undefined) {
+    return outputs.moodAfter - outputs.moodBefore;
+  }
+  const before = moods
+    .filter(mood => mood.timestamp <= exercise.completedAt && mood.timestamp >= exercise.completedAt - MOOD_PAIR_WINDOW_MS)
+    .pop();
+  const after = moods
+    .find(mood => mood.timestamp > exercise.completedAt && mood.timestamp <= exercise.completedAt + MOOD_PAIR_WINDOW_MS);
+  return before && after ? after.rating - before.rating : undefined;
+}
+
+function moodBand(rating: number): MoodBand {
+  if (rating <= 4) return "low";
+  if (rating <= 6) return "mid";
+  return "high";
+}
+
+export function difficultyLevel(completions: number): ExerciseDifficulty {
+  return [...DIFFICULTIES].reverse().find(level => completions >= LEVEL_THRESHOLDS[level]) ?? "beginner";
+}
+
+function difficultyFit(difficulty: ExerciseDifficulty, level: ExerciseDifficulty): number {
+  const gap = DIFFICULTIES.indexOf(difficulty) - DIFFICULTIES.indexOf(level);
+  if (gap === 0) return DIFFICULTY_FIT.atLevel;
+  if (gap < 0) return DIFFICULTY_FIT.below;
+  return gap === 1 ? DIFFICULTY_FIT.nextLevel : DIFFICULTY_FIT.beyond;
+}
+
+interface ScoringContext {
+  now: number;
+  timeOfDay: TimeOfDay;
+  // Rating, factors and emotions of the user's current mood, if recent
+  mood: { rating: number; tags: string[] } | null;
+  completions: { exerciseId?: string; type: string; completedAt: number; outcome: number | null }[];
+}
+
+export function scoreExercise(exercise: ExerciseDefinition, context: ScoringContext): {
+  score: number;
+  components: RecommendationComponents;
+  completions: number;
+  lastCompletedAt: number | null;
+  meanOutcome: number | null;
+  matchedTags: string[];
+} {
+  const own = context.completions.filter(completion =>
+    completion.exerciseId ? completion.exerciseId === exercise.exerciseId : completion.type === exercise.type
+  );
+  const outcomes = own.flatMap(completion => (completion.outcome === null ? [] : [completion.outcome]));
+  const totalOutcomes = context.completions.filter(completion => completion.outcome !== null).length;
+  const lastCompletedAt = own.length > 0 ? Math.max(...own.map(completion => completion.completedAt)) : null;
+
+  const posterior = (outcomes.reduce((sum, outcome) => sum + outcome, 0) + PRIOR_OUTCOME * PRIOR_WEIGHT) /
+    (outcomes.length + PRIOR_WEIGHT);
+  const hoursSince = lastCompletedAt === null ? Infinity : (context.now - lastCompletedAt) / (60 * 60 * 1000);
+  const fit = exercise.fit ?? { helpsWith: [], moods: [] };
+  const matchedTags = context.mood ? fit.helpsWith.filter(tag => context.mood!.tags.includes(tag)) : [];
+
+  const components: RecommendationComponents = {
+    effectiveness: posterior - PRIOR_OUTCOME,
+    exploration: EXPLORATION_WEIGHT * Math.sqrt(Math.log(totalOutcomes + 1) / (outcomes.length + 1)),
+    recency: -RECENCY_PENALTY * Math.pow(0.5, hoursSince / RECENCY_HALF_LIFE_HOURS),
+    timeOfDay: !fit.times || fit.times.includes(context.timeOfDay) ? TIME_OF_DAY_BONUS : 0,
+    factors: FACTOR_BONUS * Math.min(1, matchedTags.length / 2),
+    mood: context.mood && fit.moods.includes(moodBand(context.mood.rating)) ? MOOD_FIT_BONUS : 0,
+    difficulty: difficultyFit(exercise.difficulty, difficultyLevel(context.completions.length)),
+  };
+
+  return {
+    score: Object.values(components).reduce((sum, value) => sum + value, 0),
+    components,
+    completions: own.length,
+    lastCompletedAt,
+    meanOutcome: outcomes.length > 0 ? outcomes.reduce((sum, outcome) => sum + outcome, 0) / outcomes.length : null,
+    matchedTags,
+  };
+}
+
+const TIME_LABELS: Record<TimeOfDay, { en: string; ar: string }> = {
+  morning: { en: "the morning", ar: "الصباح" },
+  afternoon: { en: "the afternoon", ar: "بعد الظهر" },
+  evening: { en: "the evening", ar: "المساء" },
+  night: { en: "the night", ar: "الليل" },
+};
+
+// The reason given when nothing in particular stood out
+export function defaultReason(language: "en" | "ar"): string {
+  return language === "ar" ? "بداية لطيفة لتمرين اليوم" : "A gentle place to start today";
+}
+
+// The strongest reason the exercise scored well, in the user's language
+function explain(
+  scored: ReturnType<typeof scoreExercise>,
+  exercise: ExerciseDefinition,
+  context: ScoringContext,
+  factorLabels: Map<string, { en: string; ar: string }>,
+  language: "en" | "ar",
+): string {
+  const ar = language === "ar";
+  const candidates: { weight: number; text: () => string }[] = [
+    {
+      weight: scored.meanOutcome !== null ? scored.components.effectiveness : 0,
+      text: () => ar ? "ساعدك هذا التمرين في المرات السابقة" : "This has helped you before",
+    },
+    {
+      weight: scored.components.factors,
+      text: () => {
+        const factor = scored.matchedTags.map(tag => factorLabels.get(tag)).find(Boolean);
+        if (factor) return ar ? `قد يساعدك مع ${factor.ar}` : `May help with ${factor.en.toLowerCase()}`;
+        return ar ? "يناسب ما تشعر به الآن" : "Suited to how you're feeling right now";
+      },
+    },
+    {
+      weight: scored.components.mood,
+      text: () => ar ? "يناسب مزاجك الحالي" : "A good match for your current mood",
+    },
+    {
+      weight: exercise.fit?.times ? scored.components.timeOfDay : 0,
+      text: () => ar
+        ? `مناسب في ${TIME_LABELS[context.timeOfDay].ar}`
+        : `A good fit for ${TIME_LABELS[context.timeOfDay].en}`,
+    },
+    {
+      weight: scored.completions === 0 && context.completions.length > 0 ? scored.components.exploration : 0,
+      text: () => ar ? "شيء جديد لم تجربه بعد" : "Something new you haven't tried yet",
+    },
+  ];
+
+  const best = candidates.reduce((top, candidate) => (candidate.weight > top.weight ? candidate : top));
+  if (best.weight > 0) return best.text();
+  return defaultReason(language);
+}
+
+// Every published exercise scored for the user, best first
+export const getExerciseRecommendations = query({
+  args: {
+    userId: v.id("users"),
+    language: v.string(),
+    // The client's offset from UTC (minutes east), for users without a timezone
+    utcOffsetMinutes: v.optional(v.number()),
+    // How the user feels now, when it is not yet saved as a mood
+    currentMood: v.optional(v.number()),
+    currentFactors: v.optional(v.array(v.string())),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<ExerciseRecommendation[]> => {
+    const now = Date.now();
+    const cutoffTime = now - HISTORY_DAYS * 24 * 60 * 60 * 1000;
+
+    const exercises = await ctx.db
+      .query("exercises")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .filter((q) => q.gte(q.field("completedAt"), cutoffTime))
+      .collect();
+    // Ascending by time, for pairing moods with exercises
+    const moods = await ctx.db
+      .query("moods")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .filter((q) => q.gte(q.field("timestamp"), cutoffTime - MOOD_PAIR_WINDOW_MS))
+      .collect();
+    moods.sort((a, b) => a.timestamp - b.timestamp);
+
+    const latestMood = moods.length > 0 && moods[moods.length - 1].timestamp >= now - CURRENT_MOOD_WINDOW_MS
+      ? moods[moods.length - 1]
+      : null;
+    const rating = args.currentMood ?? latestMood?.rating;
+    const tags = args.currentFactors ?? [...(latestMood?.factors ?? []), ...(latestMood?.emotions ?? [])];
+
+    const user = await ctx.db.get(args.userId);
+    const context: ScoringContext = {
+      now,
+      timeOfDay: timeOfDay(userLocalTime(now, user?.timezone, args.utcOffsetMinutes).hour),
+      mood: rating !== undefined ? { rating, tags } : null,
+      completions: exercises.map(exercise => ({
+        exerciseId: exercise.exerciseId,
+        type: exercise.type,
+        completedAt: exercise.completedAt,
+        outcome: completionOutcome(
+          exercise.data.effectiveness ?? exercise.data.outputs?.effectiveness,
+          moodDelta(exercise, moods)
+        ),
+      })),
+    };
+
+    // Emotion keys have no factor label and are explained generically
+    const factorLabels = new Map((await listMoodFactors(ctx, args.userId)).map(factor => [factor.key, factor.label]));
+    const language = args.language === "ar" ? "ar" : "en";
+
+    const definitions = await listPublishedDefinitions(ctx);
+    const ranked = definitions.map(exercise => {
+      const scored = scoreExercise(exercise, context);
+      return {
+        exerciseId: exercise.exerciseId,
+        type: exercise.type,
+        title: exercise.title,
+        difficulty: exercise.difficulty,
+        score: scored.score,
+        reason: explain(scored, exercise, context, factorLabels, language),
+        components: scored.components,
+        completions: scored.completions,
+        lastCompletedAt: scored.lastCompletedAt,
+      };
+    }).sort((a, b) => b.score - a.score);
+
+    return ranked.slice(0, args.limit ?? ranked.length);
+  },
+});
@@ -0,0 +1,96 @@
+// @vitest-environment edge-runtime
+/// <reference types="vite/client" />
+/**
+ * Tests for daily check-in reminders
+ * Tests reading the preferences saved at onboarding or in settings, and "already checked in today" in the user's timezone
+ */
+
+import { convexTest } from 'convex-test';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { api } from './_generated/api';
+import { DEFAULT_REMINDER_TIME, isValidReminderTime } from './reminders';
+import schema from './schema';
+
+const modules = import.meta.glob('./**/*.ts');
+
+describe('Reminders', () => {
+  it('should accept only 24-hour HH:MM times', () => {
+    expect(isValidReminderTime('09:00')).toBe(true);
+    expect(isValidReminderTime('23:59')).toBe(true);
+    expect(isValidReminderTime('24:00')).toBe(false);
+    expect(isValidReminderTime('9:00')).toBe(false);
+  });
+
+  describe('settings', () => {
+    let t: ReturnType<typeof convexTest>;
+
+    beforeEach(() => {
+      t = convexTest(schema, modules);
+      // 22:00 on 4 March in Riyadh
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(Date.UTC(2025, 2, 4, 19));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should use the preferences chosen at onboarding', async () => {
+      const userId = await t.run(ctx => ctx.db.insert('users', {
+        clerkId: 'clerk_1',
+        language: 'ar',
+        timezone: 'Asia/Riyadh',
+        preferences: { notifications: true, reminderTime: '09:00' },
+      }));
+
+      const settings = await t.query(api.reminders.getReminderSettings, { userId });
+
+      expect(settings).toEqual({
+        enabled: true,
+        time: '09:00',
+        timezone: 'Asia/Riyadh',
+        language: 'ar',
+        checkedInToday: false,
+      });
+    });
+
+    it('should default to off at 20:00 in UTC', async () => {
+      const userId = await t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_1' }));
+
+      const settings = await t.query(api.reminders.getReminderSettings, { userId });
+
+      expect(settings).toMatchObject({ enabled: false, time: DEFAULT_REMINDER_TIME, timezone: 'UTC', language: 'en' });
+    });
+
+    it('should save changes without losing other preferences', async () => {
+      const userId = await t.run(ctx => ctx.db.insert('users', {
+        clerkId: 'clerk_1',
+        preferences: { notifications: true, reminderTime: '09:00', voiceEnabled: true },
+      }));
+
+      await t.mutation(api.reminders.updateReminderSettings, { userId, enabled: false });
+      expect(await t.query(api.reminders.getReminderSettings, { userId })).toMatchObject({ enabled: false, time: '09:00' });
+
+      await t.mutation(api.reminders.updateReminderSettings, { userId, enabled: true, time: '22:00' });
+      const user = await t.run(ctx => ctx.db.get(userId));
+      expect(user?.preferences).toMatchObject({ enableNotifications: true, dailyCheckInTime: '22:00', voiceEnabled: true });
+
+      await expect(t.mutation(api.reminders.updateReminderSettings, { userId, enabled: true, time: '8pm' }))
+        .rejects.toThrow('Reminder time must be HH:MM');
+    });
+
+    it('should know the user already checked in on their local day', async () => {
+      const riyadhId = await t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_1', timezone: 'Asia/Riyadh' }));
+      const losAngelesId = await t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_2', timezone: 'America/Los_Angeles' }));
+
+      // 01:00 on 4 March in Riyadh, which is still 3 March in Los Angeles
+      vi.setSystemTime(Date.UTC(2025, 2, 3, 22));
+      await t.mutation(api.moods.recordMood, { userId: riyadhId, rating: 6 });
+      await t.mutation(api.moods.recordMood, { userId: losAngelesId, rating: 6 });
+      vi.setSystemTime(Date.UTC(2025, 2, 4, 19));
+
+      expect(await t.query(api.reminders.getReminderSettings, { userId: riyadhId })).toMatchObject({ checkedInToday: true });
+      expect(await t.query(api.reminders.getReminderSettings, { userId: losAngelesId })).toMatchObject({ checkedInToday: false });
+    });
+  });
+});
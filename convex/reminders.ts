@@ -0,0 +1,85 @@
+import { v } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+import { mutation, query } from "./_generated/server";
+import { localDate, resolveTimezone } from "./timezones";
+
+// Daily check-in reminders.
+//
+// Reminders are local notifications scheduled on the device (see
+// src/hooks/useReminders.ts). The server keeps the preferences and tells the
+// device whether the user has already checked in today, in their own
+// timezone, so today's reminder can be skipped.
+
+export const DEFAULT_REMINDER_TIME = "20:00";
+
+// 24-hour "HH:MM"
+const REMINDER_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export function isValidReminderTime(time: string): boolean {
+  return REMINDER_TIME_PATTERN.test(time);
+}
+
+export interface ReminderSettings {
+  enabled: boolean;
+  time: string;
+  timezone: string;
+  language: "en" | "ar";
+}
+
+// Onboarding saves `notifications` and `reminderTime`; the reminder settings
+// screen saves `enableNotifications` and `dailyCheckInTime`, which win
+export function reminderSettings(user: Doc<"users">): ReminderSettings {
+  const preferences = user.preferences ?? {};
+  const time = preferences.dailyCheckInTime ?? preferences.reminderTime;
+  return {
+    enabled: preferences.enableNotifications ?? preferences.notifications ?? false,
+    time: time && isValidReminderTime(time) ? time : DEFAULT_REMINDER_TIME,
+    timezone: resolveTimezone(user.timezone),
+    language: user.language === "ar" ? "ar" : "en",
+  };
+}
+
+// What the device needs to schedule reminders
+export const getReminderSettings = query({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args): Promise<(ReminderSettings & { checkedInToday: boolean }) | null> => {
+    const user = await ctx.db.get(args.userId);
+    if (!user) return null;
+
+    const settings = reminderSettings(user);
+    const checkIns = await ctx.db
+      .query("streaks")
+      .withIndex("by_user_type", (q) => q.eq("userId", args.userId).eq("type", "check-in"))
+      .first();
+
+    return {
+      ...settings,
+      checkedInToday: checkIns?.lastEntryDate === localDate(Date.now(), settings.timezone),
+    };
+  },
+});
+
+export const updateReminderSettings = mutation({
+  args: {
+    userId: v.id("users"),
+    enabled: v.boolean(),
+    time: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await ctx.db.get(args.userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+    if (args.time !== undefined && !isValidReminderTime(args.time)) {
+      throw new Error(`Reminder time must be HH:MM, got: ${args.time}`);
+    }
+
+    await ctx.db.patch(args.userId, {
+      preferences: {
+        ...user.preferences,
+        enableNotifications: args.enabled,
+        dailyCheckInTime: args.time ?? reminderSettings(user).time,
+      },
+    });
+  },
+});
@@ -0,0 +1,120 @@
+// @vitest-environment edge-runtime
+/// <reference types="vite/client" />
+/**
+ * Tests for the therapist-shareable progress report
+ * Tests the date range, daily mood in the user's timezone, factor and exercise summaries and opt-in conversation summaries
+ */
+
+import { convexTest } from 'convex-test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { api } from './_generated/api';
+import { MAX_REPORT_DAYS } from './reports';
+import schema from './schema';
+
+const modules = import.meta.glob('./**/*.ts');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const from = Date.UTC(2025, 0, 1);
+const to = Date.UTC(2025, 0, 31);
+
+describe('Progress report', () => {
+  let t: ReturnType<typeof convexTest>;
+
+  beforeEach(() => {
+    t = convexTest(schema, modules);
+  });
+
+  it('should average mood per local day within the range', async () => {
+    const userId = await t.run(async ctx => {
+      const userId = await ctx.db.insert('users', { clerkId: 'clerk_1', name: 'Sara', timezone: 'Asia/Riyadh' });
+      // 22:00 UTC on 1 January is 01:00 on 2 January in Riyadh
+      await ctx.db.insert('moods', { userId, rating: 4, timestamp: from + 10 * 60 * 60 * 1000 });
+      await ctx.db.insert('moods', { userId, rating: 8, timestamp: from + 22 * 60 * 60 * 1000 });
+      await ctx.db.insert('moods', { userId, rating: 6, timestamp: from + DAY_MS + 10 * 60 * 60 * 1000 });
+      // Outside the range
+      await ctx.db.insert('moods', { userId, rating: 1, timestamp: to + DAY_MS });
+      return userId;
+    });
+
+    const report = await t.query(api.reports.getProgressReport, { userId, from, to });
+
+    expect(report.userName).toBe('Sara');
+    expect(report.mood.entries).toBe(3);
+    expect(report.mood.average).toBe(6);
+    expect(report.mood.daily).toEqual([
+      { date: '2025-01-01', average: 4, entries: 1 },
+      { date: '2025-01-02', average: 7, entries: 2 },
+    ]);
+  });
+
+  it('should compare mood with and without each factor', async () => {
+    const userId = await t.run(async ctx => {
+      const userId = await ctx.db.insert('users', { clerkId: 'clerk_1' });
+      const ratings = [[8, true], [7, true], [8, true], [9, true], [7, true], [4, false], [5, false], [3, false], [4, false], [5, false]] as const;
+      for (const [i, [rating, slept]] of ratings.entries()) {
+        await ctx.db.insert('moods', { userId, rating, timestamp: from + i * DAY_MS, factors: slept ? ['sleep'] : ['work'] });
+      }
+      return userId;
+    });
+
+    const report = await t.query(api.reports.getProgressReport, { userId, from, to });
+
+    const sleep = report.factors.find((factor: { key: string }) => factor.key === 'sleep');
+    expect(sleep).toMatchObject({ label: { en: 'Sleep', ar: 'النوم' }, entries: 5, significant: true });
+    expect(sleep?.difference).toBeCloseTo(3.6);
+  });
+
+  it('should summarise exercises and assessments', async () => {
+    const userId = await t.run(async ctx => {
+      const userId = await ctx.db.insert('users', { clerkId: 'clerk_1' });
+      await ctx.db.insert('exercises', {
+        userId, type: 'breathing', completedAt: from + DAY_MS, duration: 300,
+        data: { outputs: { moodBefore: 3, moodAfter: 6, effectiveness: 4 } },
+      });
+      await ctx.db.insert('exercises', { userId, type: 'breathing', completedAt: from + 2 * DAY_MS, duration: 300, data: { effectiveness: 2 } });
+      await ctx.db.insert('assessments', {
+        userId, questionnaireId: 'phq9', answers: [1, 1, 1, 1, 1, 1, 1, 0, 0], totalScore: 7,
+        severity: 'mild', riskItems: [], completedAt: from + 3 * DAY_MS,
+      });
+      return userId;
+    });
+
+    const report = await t.query(api.reports.getProgressReport, { userId, from, to });
+
+    expect(report.exercises).toEqual([
+      { type: 'breathing', count: 2, totalDuration: 600, averageEffectiveness: 3, averageMoodChange: 3 },
+    ]);
+    expect(report.assessments).toEqual([
+      { questionnaireId: 'phq9', name: 'PHQ-9', totalScore: 7, maxScore: 27, severityLabel: { en: 'Mild', ar: 'خفيف' }, completedAt: from + 3 * DAY_MS },
+    ]);
+  });
+
+  it('should only include conversation summaries when asked for', async () => {
+    const userId = await t.run(async ctx => {
+      const userId = await ctx.db.insert('users', { clerkId: 'clerk_1' });
+      const conversationId = await ctx.db.insert('conversations', { userId, title: 'Exams', isActive: false, messageCount: 4 });
+      await ctx.db.insert('conversationSummaries', {
+        conversationId, userId, summary: 'Talked about exams', keyTopics: ['study'], moodProgression: 'calmer',
+        therapeuticInsights: [], suggestedNextSteps: [],
+        sentimentAnalysis: { overallSentiment: 'neutral', emotionalRange: [], crisisIndicators: [] },
+        generatedAt: from + DAY_MS,
+      });
+      return userId;
+    });
+
+    const withoutSummaries = await t.query(api.reports.getProgressReport, { userId, from, to });
+    const withSummaries = await t.query(api.reports.getProgressReport, { userId, from, to, includeConversationSummaries: true });
+
+    expect(withoutSummaries.conversationSummaries).toBeNull();
+    expect(withSummaries.conversationSummaries).toMatchObject([{ summary: 'Talked about exams', keyTopics: ['study'] }]);
+  });
+
+  it('should reject reversed or overly long ranges', async () => {
+    const userId = await t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_1' }));
+
+    await expect(t.query(api.reports.getProgressReport, { userId, from: to, to: from }))
+      .rejects.toThrow('Report range must start before it ends');
+    await expect(t.query(api.reports.getProgressReport, { userId, from, to: from + (MAX_REPORT_DAYS + 1) * DAY_MS }))
+      .rejects.toThrow(`Report range cannot exceed ${MAX_REPORT_DAYS} days`);
+  });
+});
@@ -0,0 +1,204 @@
+import { v } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import { query } from "./_generated/server";
+import { compareGroups, isSignificant } from "./analytics";
+import { listMoodFactors, resolveFactors } from "./moodFactors";
+import { LocalizedText, maxScore, QUESTIONNAIRES } from "./questionnaires";
+import { localDate, resolveTimezone } from "./timezones";
+
+// Therapist-shareable progress report.
+//
+// getProgressReport gathers everything the report covers for a date range in
+// one read: daily mood averages in the user's timezone, how each factor relates
+// to mood, exercise usage and effectiveness, assessment scores and, only when
+// the user asks for them, conversation summaries. The client lays this out as
+// bilingual HTML and prints it to PDF (see src/utils/progressReport.ts).
+
+// Longest range a single report may cover
+export const MAX_REPORT_DAYS = 366;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ProgressReport {
+  userName: string | null;
+  language: "en" | "ar";
+  timezone: string;
+  from: number;
+  to: number;
+  generatedAt: number;
+  mood: {
+    entries: number;
+    average: number | null;
+    // One point per local day with entries, oldest first
+    daily: { date: string; average: number; entries: number }[];
+  };
+  // Mean mood with vs. without each factor, strongest first
+  factors: {
+    key: string;
+    label: LocalizedText;
+    emoji: string;
+    entries: number;
+    difference: number;
+    confidenceInterval: [number, number];
+    significant: boolean;
+  }[];
+  exercises: {
+    type: string;
+    count: number;
+    totalDuration: number;
+    averageEffectiveness: number | null;
+    averageMoodChange: number | null;
+  }[];
+  assessments: {
+    questionnaireId: "phq9" | "gad7";
+    name: string;
+    totalScore: number;
+    maxScore: number;
+    severityLabel: LocalizedText;
+    completedAt: number;
+  }[];
+  conversationSummaries: {
+    conversationId: Id<"conversations">;
+    summary: string;
+    keyTopics: string[];
+    generatedAt: number;
+  }[] | null;
+}
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+export const getProgressReport = query({
+  args: {
+    userId: v.id("users"),
+    from: v.number(),
+    to: v.number(),
+    includeConversationSummaries: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args): Promise<ProgressReport> => {
+    if (args.from > args.to) {
+      throw new Error("Report range must start before it ends");
+    }
+    if (args.to - args.from > MAX_REPORT_DAYS * DAY_MS) {
+      throw new Error(`Report range cannot exceed ${MAX_REPORT_DAYS} days`);
+    }
+    const user = await ctx.db.get(args.userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+    const timezone = resolveTimezone(user.timezone);
+
+    const moods = await ctx.db
+      .query("moods")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .filter((q) => q.and(q.gte(q.field("timestamp"), args.from), q.lte(q.field("timestamp"), args.to)))
+      .collect();
+    moods.sort((a, b) => a.timestamp - b.timestamp);
+
+    const byDay = new Map<string, number[]>();
+    for (const mood of moods) {
+      const date = localDate(mood.timestamp, timezone);
+      byDay.set(date, [...(byDay.get(date) ?? []), mood.rating]);
+    }
+
+    const factorKeys = [...new Set(moods.flatMap(mood => mood.factors ?? []))];
+    const factorMeta = resolveFactors(factorKeys, await listMoodFactors(ctx, args.userId));
+    const factors = factorKeys.flatMap((key, i) => {
+      const effect = compareGroups(
+        moods.filter(mood => mood.factors?.includes(key)).map(mood => mood.rating),
+        moods.filter(mood => !mood.factors?.includes(key)).map(mood => mood.rating)
+      );
+      if (!effect) return [];
+      return [{
+        key,
+        label: factorMeta[i].label,
+        emoji: factorMeta[i].emoji,
+        entries: effect.sampleSize,
+        difference: effect.difference,
+        confidenceInterval: effect.confidenceInterval,
+        significant: isSignificant(effect),
+      }];
+    }).sort((a, b) => Math.abs(b.difference) - Math.abs(a.difference));
+
+    const exerciseRows = await ctx.db
+      .query("exercises")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .filter((q) => q.and(q.gte(q.field("completedAt"), args.from), q.lte(q.field("completedAt"), args.to)))
+      .collect();
+    const exercises = [...new Set(exerciseRows.map(exercise => exercise.type))].map(type => {
+      const ofType = exerciseRows.filter(exercise => exercise.type === type);
+      return {
+        type,
+        count: ofType.length,
+        totalDuration: ofType.reduce((sum, exercise) => sum + (exercise.duration ?? 0), 0),
+        averageEffectiveness: average(ofType.flatMap(exercise => {
+          const effectiveness = exercise.data.effectiveness ?? exercise.data.outputs?.effectiveness;
+          return effectiveness === undefined ? [] : [effectiveness];
+        })),
+        averageMoodChange: average(ofType.flatMap(exercise => {
+          const outputs = exercise.data.outputs;
+          return outputs?.moodBefore === undefined || outputs.moodAfter === undefined
+            ? []
+            : [outputs.moodAfter - outputs.moodBefore];
+        })),
+      };
+    }).sort((a, b) => b.count - a.count);
+
+    const assessmentRows = await ctx.db
+      .query("assessments")
+      .withIndex("by_user", (q) =>
+        q.eq("userId", args.userId).gte("completedAt", args.from).lte("completedAt", args.to)
+      )
+      .collect();
+    const assessments = assessmentRows.map(assessment => {
+      const definition = QUESTIONNAIRES[assessment.questionnaireId];
+      return {
+        questionnaireId: assessment.questionnaireId,
+        name: definition.name,
+        totalScore: assessment.totalScore,
+        maxScore: maxScore(definition),
+        severityLabel: definition.bands.find(band => band.severity === assessment.severity)!.label,
+        completedAt: assessment.completedAt,
+      };
+    });
+
+    let conversationSummaries: ProgressReport["conversationSummaries"] = null;
+    if (args.includeConversationSummaries) {
+      const summaries = await ctx.db
+        .query("conversationSummaries")
+        .withIndex("by_user", (q) => q.eq("userId", args.userId))
+        .filter((q) => q.and(q.gte(q.field("generatedAt"), args.from), q.lte(q.field("generatedAt"), args.to)))
+        .collect();
+      conversationSummaries = summaries
+        .sort((a, b) => a.generatedAt - b.generatedAt)
+        .map(summary => ({
+          conversationId: summary.conversationId,
+          summary: summary.summary,
+          keyTopics: summary.keyTopics,
+          generatedAt: summary.generatedAt,
+        }));
+    }
+
+    return {
+      userName: user.displayName ?? user.name ?? null,
+      language: user.language === "ar" ? "ar" : "en",
+      timezone,
+      from: args.from,
+      to: args.to,
+      generatedAt: Date.now(),
+      mood: {
+        entries: moods.length,
+        average: average(moods.map(mood => mood.rating)),
+        daily: [...byDay.entries()].map(([date, ratings]) => ({
+          date,
+          average: average(ratings)!,
+          entries: ratings.length,
+        })),
+      },
+      factors,
+      exercises,
+      assessments,
+      conversationSummaries,
+    };
+  },
+});
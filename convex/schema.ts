@@ -36,6 +36,7 @@ export default defineSchema({
     avatar: v.optional(v.string()),
     language: v.optional(v.string()),
     timezone: v.optional(v.string()),
+    country: v.optional(v.string()), // ISO 3166-1 alpha-2, picks local crisis hotlines
     onboardingCompleted: v.optional(v.boolean()),
     onboardingData: v.optional(v.object({
       primaryGoal: v.optional(v.string()), // What brings them to Nafsy
@@ -51,6 +52,20 @@ export default defineSchema({
       theme: v.optional(v.string()),
       voiceEnabled: v.optional(v.boolean()),
     })),
+    // Set when the user opts in to end-to-end encryption (see encryption.ts)
+    encryption: v.optional(v.object({
+      version: v.number(),
+      // Data key wrapped with a passphrase-derived key, for recovery on a new device
+      keyBackup: v.object({
+        kdf: v.literal("scrypt"),
+        N: v.number(),
+        r: v.number(),
+        p: v.number(),
+        salt: v.string(),
+        wrappedKey: v.string(),
+      }),
+      enabledAt: v.number(),
+    })),
     createdAt: v.optional(v.number()),
     lastActiveAt: v.optional(v.number()),
   }).index("by_clerk_id", ["clerkId"]),
@@ -78,6 +93,8 @@ export default defineSchema({
     role: v.union(v.literal("user"), v.literal("assistant"), v.literal("system")),
     content: v.string(),
     timestamp: v.number(),
+    // Assistant replies are inserted as "streaming" drafts and patched as tokens arrive
+    status: v.optional(v.union(v.literal("streaming"), v.literal("complete"), v.literal("cancelled"))),
     audioUrl: v.optional(v.string()),
     sentiment: v.optional(v.object({
       score: v.number(),
@@ -89,6 +106,8 @@ export default defineSchema({
       language: v.optional(v.string()),
       chatMode: v.optional(v.string()),
       chunks: v.optional(v.array(v.string())), // For chunked responses
+      crisisSeverity: v.optional(v.string()),
+      crisisIndicators: v.optional(v.array(v.string())),
     })),
     reactions: v.optional(v.array(v.object({
       userId: v.id("users"),
@@ -96,7 +115,40 @@ export default defineSchema({
       emoji: v.optional(v.string()),
       timestamp: v.number(),
     }))),
-  }).index("by_conversation", ["conversationId"]),
+    // Semantic memory vector, only set for salient user messages (see memory.ts)
+    embedding: v.optional(v.array(v.float64())),
+    // Folded content for full-text search (see searchText.ts); empty while streaming
+    searchText: v.optional(v.string()),
+    // Suggested next replies for an assistant message, cached on first request (see quickReplies.ts)
+    quickReplies: v.optional(v.array(v.object({
+      text: v.string(),
+      sentiment: v.union(v.literal("positive"), v.literal("neutral"), v.literal("supportive")),
+      moodContext: v.optional(v.union(
+        v.literal("excellent"),
+        v.literal("good"),
+        v.literal("okay"),
+        v.literal("bad"),
+        v.literal("terrible")
+      )),
+    }))),
+    // Actions the assistant offered through tool calls, shown as cards (see chatActions.ts)
+    actions: v.optional(v.array(v.object({
+      type: v.union(v.literal("start-exercise"), v.literal("log-mood"), v.literal("open-thought-record")),
+      exerciseId: v.optional(v.string()),
+      thoughtText: v.optional(v.string()),
+      completedExerciseId: v.optional(v.id("exercises")),
+    }))),
+  }).index("by_conversation", ["conversationId"])
+    .index("by_user", ["userId"])
+    .vectorIndex("by_embedding", {
+      vectorField: "embedding",
+      dimensions: 1536,
+      filterFields: ["userId"],
+    })
+    .searchIndex("search_text", {
+      searchField: "searchText",
+      filterFields: ["userId", "conversationId", "role"],
+    }),
 
   moods: defineTable({
     userId: v.id("users"),
@@ -105,8 +157,47 @@ export default defineSchema({
     factors: v.optional(v.array(v.string())),
     timestamp: v.number(),
     emoji: v.optional(v.string()), // Store the selected emoji
+    // Optional check-in dimensions (see checkIns.ts)
+    emotions: v.optional(v.array(v.string())), // Feelings wheel keys
+    energy: v.optional(v.number()), // 1-5
+    anxiety: v.optional(v.number()), // 1-5
+    sleepQuality: v.optional(v.number()), // 1-5
+    sleepHours: v.optional(v.number()),
+    clientId: v.optional(v.string()), // Idempotency key from the offline outbox
+    // Folded note for full-text search (see searchText.ts); empty for encrypted notes
+    searchText: v.optional(v.string()),
   }).index("by_user", ["userId"])
-    .index("by_timestamp", ["timestamp"]),
+    .index("by_timestamp", ["timestamp"])
+    .index("by_user_client", ["userId", "clientId"])
+    .searchIndex("search_text", {
+      searchField: "searchText",
+      filterFields: ["userId"],
+    }),
+
+  // Custom mood factors, and per-user overrides of the built-in set in
+  // moodFactors.ts (same key, isBuiltIn: true)
+  moodFactors: defineTable({
+    userId: v.id("users"),
+    key: v.string(), // What moods.factors stores
+    label: v.object({
+      en: v.string(),
+      ar: v.optional(v.string()),
+    }),
+    emoji: v.string(),
+    category: v.union(
+      v.literal("body"),
+      v.literal("mind"),
+      v.literal("social"),
+      v.literal("work"),
+      v.literal("lifestyle"),
+      v.literal("environment"),
+      v.literal("other")
+    ),
+    isBuiltIn: v.boolean(),
+    archived: v.optional(v.boolean()),
+    createdAt: v.number(),
+  }).index("by_user", ["userId"])
+    .index("by_user_key", ["userId", "key"]),
   
   // New table for tracking streaks
   streaks: defineTable({
@@ -114,17 +205,50 @@ export default defineSchema({
     type: v.union(v.literal("mood"), v.literal("exercise"), v.literal("check-in")),
     currentStreak: v.number(),
     longestStreak: v.number(),
-    lastEntryDate: v.string(), // YYYY-MM-DD format
+    lastEntryDate: v.string(), // YYYY-MM-DD format, in the user's timezone
     streakStartDate: v.string(), // YYYY-MM-DD format
     totalEntries: v.number(),
+    freezesAvailable: v.optional(v.number()), // Earned streak freezes not yet used
+    freezesUsed: v.optional(v.number()),
+  }).index("by_user_type", ["userId", "type"]),
+
+  // Streaks that have ended, kept for the streak history
+  streakHistory: defineTable({
+    userId: v.id("users"),
+    type: v.union(v.literal("mood"), v.literal("exercise"), v.literal("check-in")),
+    length: v.number(),
+    startDate: v.string(), // YYYY-MM-DD format, in the user's timezone
+    endDate: v.string(),
   }).index("by_user_type", ["userId", "type"]),
 
+  // Completed PHQ-9 / GAD-7 self-assessments (see convex/questionnaires.ts)
+  assessments: defineTable({
+    userId: v.id("users"),
+    questionnaireId: v.union(v.literal("phq9"), v.literal("gad7")),
+    answers: v.array(v.number()), // In item order
+    totalScore: v.number(),
+    severity: v.union(
+      v.literal("minimal"),
+      v.literal("mild"),
+      v.literal("moderate"),
+      v.literal("moderately-severe"),
+      v.literal("severe")
+    ),
+    riskItems: v.array(v.string()), // Items that routed the user to the crisis flow
+    completedAt: v.number(),
+  }).index("by_user", ["userId", "completedAt"])
+    .index("by_user_questionnaire", ["userId", "questionnaireId", "completedAt"]),
+
   exercises: defineTable({
     userId: v.id("users"),
     type: v.string(),
+    // Catalog id (see exerciseDefinitions.ts); missing on older records
+    exerciseId: v.optional(v.string()),
     completedAt: v.number(),
     duration: v.optional(v.number()),
     conversationId: v.optional(v.id("conversations")),
+    // The assistant message whose action card started this exercise
+    messageId: v.optional(v.id("messages")),
     data: v.object({
       inputs: v.optional(v.union(
         v.object({
@@ -162,8 +286,73 @@ export default defineSchema({
       })),
       effectiveness: v.optional(v.number()),
     }),
+    clientId: v.optional(v.string()), // Idempotency key from the offline outbox
   }).index("by_user", ["userId"])
-    .index("by_type", ["type"]),
+    .index("by_type", ["type"])
+    .index("by_user_client", ["userId", "clientId"]),
+
+  // Authored exercise catalog (see convex/exerciseDefinitions.ts)
+  exerciseDefinitions: defineTable({
+    exerciseId: v.string(),
+    version: v.number(), // Bumped whenever an import changes the content
+    schemaVersion: v.number(), // Step schema the definition is written in
+    type: v.union(
+      v.literal("breathing"),
+      v.literal("grounding"),
+      v.literal("thoughtChallenge"),
+      v.literal("gratitude"),
+      v.literal("mindfulness")
+    ),
+    difficulty: v.union(v.literal("beginner"), v.literal("intermediate"), v.literal("advanced")),
+    durationMinutes: v.number(),
+    icon: v.string(),
+    gradient: v.array(v.string()),
+    title: v.object({ en: v.string(), ar: v.string() }),
+    description: v.object({ en: v.string(), ar: v.string() }),
+    // What the recommender matches the exercise against
+    fit: v.optional(v.object({
+      helpsWith: v.array(v.string()),
+      moods: v.array(v.union(v.literal("low"), v.literal("mid"), v.literal("high"))),
+      times: v.optional(v.array(v.union(
+        v.literal("morning"),
+        v.literal("afternoon"),
+        v.literal("evening"),
+        v.literal("night")
+      ))),
+    })),
+    // JSON steps, checked by validateExerciseDefinition
+    steps: v.array(v.any()),
+    isPublished: v.boolean(),
+    updatedAt: v.number(),
+  }).index("by_exercise_id", ["exerciseId"]),
+
+  // Free-form journal (see convex/journal.ts)
+  journalEntries: defineTable({
+    userId: v.id("users"),
+    title: v.optional(v.string()),
+    content: v.string(), // Markdown subset: **bold**, *italic*, "# " headings, "- " lists
+    tags: v.array(v.string()),
+    moodId: v.optional(v.id("moods")),
+    promptId: v.optional(v.string()), // Daily prompt the entry answers
+    // Folded title, plain content and tags; only tags for encrypted entries
+    searchText: v.string(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_user", ["userId", "createdAt"])
+    .searchIndex("search_text", {
+      searchField: "searchText",
+      filterFields: ["userId"],
+    }),
+
+  // AI reflections on journal entries, generated on request
+  journalReflections: defineTable({
+    userId: v.id("users"),
+    entryId: v.id("journalEntries"),
+    content: v.string(),
+    language: v.string(),
+    createdAt: v.number(),
+  }).index("by_entry", ["entryId", "createdAt"])
+    .index("by_user", ["userId"]),
 
   emergencyContacts: defineTable({
     userId: v.id("users"),
@@ -171,8 +360,37 @@ export default defineSchema({
     phone: v.string(),
     relationship: v.string(),
     isPrimary: v.boolean(),
+    email: v.optional(v.string()),
+    // Set only after the user explicitly agrees this contact may be notified
+    escalationPolicy: v.optional(v.object({
+      notifyOnCrisis: v.boolean(),
+      channels: v.array(v.union(v.literal("sms"), v.literal("email"))),
+      consentedAt: v.number(),
+    })),
   }).index("by_user", ["userId"]),
 
+  // Critical/high crisis detections and what the escalation workflow did about them
+  crisisEvents: defineTable({
+    userId: v.id("users"),
+    conversationId: v.optional(v.id("conversations")),
+    severity: v.union(v.literal("high"), v.literal("critical")),
+    indicators: v.array(v.string()),
+    status: v.union(
+      v.literal("detected"),
+      v.literal("notifying"), // Claimed by escalateCrisisEvent, send in progress
+      v.literal("notified"),
+      v.literal("not-configured"), // Only the log notifier ran, nobody was contacted
+      v.literal("suppressed"),
+      v.literal("failed")
+    ),
+    contactId: v.optional(v.id("emergencyContacts")),
+    channels: v.optional(v.array(v.union(v.literal("sms"), v.literal("email")))),
+    reason: v.optional(v.string()), // Why escalation was suppressed or failed
+    detectedAt: v.number(),
+    notifiedAt: v.optional(v.number()),
+  }).index("by_user", ["userId"])
+    .index("by_user_time", ["userId", "detectedAt"]),
+
   // User summaries for adaptive AI learning
   userSummaries: defineTable({
     userId: v.id("users"),
@@ -192,6 +410,69 @@ export default defineSchema({
     version: v.number(),
   }).index("by_user", ["userId"]),
 
+  // Data export archives (GDPR/PDPL); files live in Convex file storage
+  dataExports: defineTable({
+    userId: v.id("users"),
+    status: v.union(v.literal("pending"), v.literal("ready"), v.literal("failed")),
+    formatVersion: v.number(),
+    files: v.optional(v.array(v.object({
+      name: v.string(),
+      contentType: v.string(),
+      storageId: v.id("_storage"),
+      size: v.number(),
+    }))),
+    error: v.optional(v.string()),
+    requestedAt: v.number(),
+    completedAt: v.optional(v.number()),
+  }).index("by_user", ["userId"]),
+
+  // Read-only clinician access to chosen data categories (see sharing.ts).
+  // Only a SHA-256 hash of the link token is stored.
+  shareGrants: defineTable({
+    userId: v.id("users"),
+    tokenHash: v.string(),
+    label: v.optional(v.string()), // e.g. the clinician's name
+    scopes: v.array(v.union(
+      v.literal("moods"),
+      v.literal("exercises"),
+      v.literal("assessments"),
+      v.literal("summaries"),
+      v.literal("messages")
+    )),
+    createdAt: v.number(),
+    expiresAt: v.number(),
+    revokedAt: v.optional(v.number()),
+    lastAccessedAt: v.optional(v.number()),
+  }).index("by_user", ["userId"])
+    .index("by_token_hash", ["tokenHash"]),
+
+  // Every time a clinician opens a shared category
+  shareAccessLog: defineTable({
+    grantId: v.id("shareGrants"),
+    userId: v.id("users"),
+    scope: v.union(
+      v.literal("overview"),
+      v.literal("moods"),
+      v.literal("exercises"),
+      v.literal("assessments"),
+      v.literal("summaries"),
+      v.literal("messages")
+    ),
+    accessedAt: v.number(),
+  }).index("by_user", ["userId", "accessedAt"])
+    .index("by_grant", ["grantId", "accessedAt"]),
+
+  // Audit record of a deleted account. Holds no user data, only a hash of the
+  // Clerk ID so repeated deletion requests can be matched to it.
+  accountDeletions: defineTable({
+    subjectHash: v.string(),
+    status: v.union(v.literal("in_progress"), v.literal("completed")),
+    deletedCounts: v.optional(v.record(v.string(), v.number())),
+    identityRevoked: v.optional(v.boolean()),
+    requestedAt: v.number(),
+    completedAt: v.optional(v.number()),
+  }).index("by_subject", ["subjectHash"]),
+
   // Individual conversation summaries
   conversationSummaries: defineTable({
     conversationId: v.id("conversations"),
@@ -207,6 +488,13 @@ export default defineSchema({
       crisisIndicators: v.array(v.string()),
     }),
     generatedAt: v.number(),
+    // Semantic memory vector of the summary, used to recall relevant past sessions
+    embedding: v.optional(v.array(v.float64())),
   }).index("by_conversation", ["conversationId"])
-    .index("by_user", ["userId"]),
+    .index("by_user", ["userId"])
+    .vectorIndex("by_embedding", {
+      vectorField: "embedding",
+      dimensions: 1536,
+      filterFields: ["userId"],
+    }),
 });
\ No newline at end of file
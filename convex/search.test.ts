@@ -0,0 +1,173 @@
+// @vitest-environment edge-runtime
+/// <reference types="vite/client" />
+/**
+ * Tests for global search
+ * Tests Arabic-normalized matching, snippets, filters, pagination and the backfill
+ */
+
+import { convexTest } from 'convex-test';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { api, internal } from './_generated/api';
+import { Id } from './_generated/dataModel';
+import schema from './schema';
+import { SearchResult } from './search';
+import { buildSnippet, searchTerms, SNIPPET_LENGTH, toSearchText } from './searchText';
+
+const modules = import.meta.glob('./**/*.ts');
+
+const now = Date.UTC(2025, 2, 1, 12);
+const DAY = 24 * 60 * 60 * 1000;
+
+const highlighted = (result: SearchResult) =>
+  result.snippet.highlights.map(([start, end]) => result.snippet.text.slice(start, end));
+
+describe('Search', () => {
+  it('should fold Arabic variants and index words without the article', () => {
+    expect(toSearchText('أشعر بالقلق')).toBe('اشعر بالقلق قلق');
+    expect(toSearchText('Café ٱلمدرسة')).toBe('café المدرسه مدرسه');
+    expect(searchTerms('  القَلَق, Walk! ')).toEqual(['قلق', 'walk']);
+    expect(searchTerms('?!')).toEqual([]);
+  });
+
+  it('should highlight matches in the original text', () => {
+    expect(buildSnippet('Long WALK, then a walk home', ['walk'])).toEqual({
+      text: 'Long WALK, then a walk home',
+      highlights: [[5, 9], [18, 22]],
+    });
+    // Diacritics inside the match stay inside the highlight
+    expect(buildSnippet('كنت مُتْعَباً جداً', ['متعب'])).toEqual({
+      text: 'كنت مُتْعَباً جداً',
+      highlights: [[4, 11]],
+    });
+
+    const long = buildSnippet(`${'a '.repeat(100)}target${' b'.repeat(100)}`, ['target']);
+    expect(long.text.startsWith('…')).toBe(true);
+    expect(long.text.endsWith('…')).toBe(true);
+    expect(long.text.length).toBe(SNIPPET_LENGTH + 2);
+    expect(long.text.slice(...long.highlights[0])).toBe('target');
+  });
+
+  describe('queries', () => {
+    let t: ReturnType<typeof convexTest>;
+    let userId: Id<'users'>;
+
+    const startConversation = (title: string) =>
+      t.run(ctx => ctx.db.insert('conversations', { userId, title, isActive: false, messageCount: 0 }));
+
+    const addMessage = (conversationId: Id<'conversations'>, role: 'user' | 'assistant' | 'system', content: string) =>
+      t.mutation(api.messages.addMessage, { conversationId, userId, role, content });
+
+    beforeEach(async () => {
+      t = convexTest(schema, modules);
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(now);
+      userId = await t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_1' }));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should search every conversation, mood note and journal entry of the user', async () => {
+      const work = await startConversation('Work');
+      const family = await startConversation('Family');
+      await addMessage(work, 'user', 'A walk helps');
+      await addMessage(family, 'assistant', 'How was the walk with your sister?');
+      await addMessage(family, 'system', 'walk');
+      await addMessage(family, 'assistant', 'Nothing to see here');
+      await t.mutation(api.moods.recordMood, { userId, rating: 7, note: 'Evening walk by the sea' });
+      await t.mutation(api.moods.recordMood, { userId, rating: 6 });
+      await t.mutation(api.journal.createJournalEntry, { userId, title: 'Sunday', content: '**Long** walk' });
+
+      const otherId = await t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_2' }));
+      await t.mutation(api.moods.recordMood, { userId: otherId, rating: 5, note: 'walk' });
+
+      const { results, hasMore } = await t.query(api.search.search, { userId, query: 'Walk' });
+
+      expect(hasMore).toBe(false);
+      expect(results.map((result: SearchResult) => result.type).sort()).toEqual(['journal', 'message', 'message', 'mood']);
+      const reply = results.find((result: SearchResult) => result.type === 'message' && result.role === 'assistant');
+      expect(reply).toMatchObject({ conversationId: family, conversationTitle: 'Family' });
+      expect(highlighted(reply!)).toEqual(['walk']);
+      const journal = results.find((result: SearchResult) => result.type === 'journal');
+      expect(journal).toMatchObject({ title: 'Sunday', snippet: { text: 'Long walk' } });
+    });
+
+    it('should match Arabic spelling variants and words with the article', async () => {
+      const conversationId = await startConversation('قلق');
+      await addMessage(conversationId, 'assistant', 'هل ما زلت تشعر بالقلق؟');
+      await t.mutation(api.journal.createJournalEntry, { userId, content: 'القلق أخف اليوم' });
+
+      const { results } = await t.query(api.search.search, { userId, query: 'قَلَق' });
+
+      expect(results).toHaveLength(2);
+      expect(results.map(highlighted)).toEqual(expect.arrayContaining([['قلق'], ['قلق']]));
+      expect((await t.query(api.search.search, { userId, query: 'اخف' })).results).toHaveLength(1);
+    });
+
+    it('should leave encrypted mood notes out of search', async () => {
+      await t.mutation(api.moods.recordMood, { userId, rating: 4, note: 'e2e:v1:abcdef' });
+
+      expect((await t.query(api.search.search, { userId, query: 'e2e' })).results).toEqual([]);
+    });
+
+    it('should filter messages by conversation, role and date', async () => {
+      const first = await startConversation('First');
+      const second = await startConversation('Second');
+      await addMessage(first, 'user', 'sleep was bad');
+      await addMessage(second, 'assistant', 'Let us talk about sleep');
+      vi.setSystemTime(now + 3 * DAY);
+      await addMessage(second, 'user', 'sleep is better');
+      await t.mutation(api.moods.recordMood, { userId, rating: 8, note: 'sleep' });
+
+      const inSecond = await t.query(api.search.search, { userId, query: 'sleep', conversationId: second });
+      const fromUser = await t.query(api.search.search, { userId, query: 'sleep', role: 'user' });
+      const lately = await t.query(api.search.search, { userId, query: 'sleep', from: now + DAY });
+      const moodsOnly = await t.query(api.search.search, { userId, query: 'sleep', types: ['mood'] });
+
+      expect(inSecond.results.map((result: SearchResult) => result.timestamp).sort()).toEqual([now, now + 3 * DAY]);
+      expect(fromUser.results.every((result: SearchResult) => result.type === 'message' && result.role === 'user')).toBe(true);
+      expect(fromUser.results).toHaveLength(2);
+      expect(lately.results.map((result: SearchResult) => result.type).sort()).toEqual(['message', 'mood']);
+      expect(moodsOnly.results.map((result: SearchResult) => result.type)).toEqual(['mood']);
+    });
+
+    it('should grow pages without reordering earlier results', async () => {
+      const conversationId = await startConversation('Notes');
+      for (let i = 0; i < 4; i++) {
+        await addMessage(conversationId, 'assistant', `breathing tip ${i}`);
+        await t.mutation(api.moods.recordMood, { userId, rating: 5, note: `breathing ${i}` });
+      }
+
+      const firstPage = await t.query(api.search.search, { userId, query: 'breathing', limit: 3 });
+      const secondPage = await t.query(api.search.search, { userId, query: 'breathing', limit: 6 });
+      const everything = await t.query(api.search.search, { userId, query: 'breathing', limit: 20 });
+
+      expect(firstPage.hasMore).toBe(true);
+      expect(firstPage.results.map((result: SearchResult) => result.type)).toEqual(['message', 'mood', 'message']);
+      expect(secondPage.results.slice(0, 3)).toEqual(firstPage.results);
+      expect(everything.results).toHaveLength(8);
+      expect(everything.hasMore).toBe(false);
+    });
+
+    it('should backfill searchText for rows written before the index existed', async () => {
+      const conversationId = await startConversation('Old');
+      await t.run(async (ctx) => {
+        await ctx.db.insert('messages', { conversationId, userId, role: 'user', content: 'Old أحلام', timestamp: now });
+        await ctx.db.insert('moods', { userId, rating: 6, note: 'old أحلام', timestamp: now });
+        await ctx.db.insert('moods', { userId, rating: 6, timestamp: now });
+        await ctx.db.insert('journalEntries', {
+          userId, content: 'Old احلام', tags: [], searchText: 'old احلام', createdAt: now, updatedAt: now,
+        });
+      });
+
+      vi.useRealTimers();
+      vi.useFakeTimers();
+      await t.mutation(internal.search.backfillSearchText, {});
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+      const { results } = await t.query(api.search.search, { userId, query: 'الأحلام' });
+      expect(results.map((result: SearchResult) => result.type).sort()).toEqual(['journal', 'message', 'mood']);
+    });
+  });
+});
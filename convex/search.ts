@@ -0,0 +1,226 @@
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { internalMutation, query } from "./_generated/server";
+import { isEncryptedValue } from "./encryption";
+import { buildSearchText, plainJournalText } from "./journal";
+import { buildSnippet, moodSearchText, searchTerms, Snippet, toSearchText } from "./searchText";
+
+// Global search across chat messages, mood notes and journal entries.
+//
+// Each table has a "search_text" index on a folded copy of its text (see
+// searchText.ts), filtered by user. A search takes the best matches from each
+// requested source and interleaves them by rank, so one busy source can't
+// crowd out the others, and returns a snippet of the original text with the
+// ranges to highlight. Role and conversation filters only exist on messages,
+// so setting either searches messages alone.
+//
+// Pages grow rather than advance: a larger limit returns the same results
+// followed by the next ones, so "load more" stays a single reactive query.
+
+export const SEARCH_PAGE_SIZE = 20;
+export const MAX_SEARCH_RESULTS = 200;
+
+const searchResultType = v.union(v.literal("message"), v.literal("mood"), v.literal("journal"));
+
+export type SearchResult =
+  | {
+      type: "message";
+      id: Id<"messages">;
+      conversationId: Id<"conversations">;
+      conversationTitle: string | null;
+      role: "user" | "assistant";
+      timestamp: number;
+      snippet: Snippet;
+    }
+  | {
+      type: "mood";
+      id: Id<"moods">;
+      rating: number;
+      emoji: string | null;
+      timestamp: number;
+      snippet: Snippet;
+    }
+  | {
+      type: "journal";
+      id: Id<"journalEntries">;
+      title: string | null; // May be ciphertext
+      timestamp: number;
+      snippet: Snippet;
+    };
+
+// Round-robin by rank: first hit of every source, then every second hit, ...
+function interleave(sources: SearchResult[][]): SearchResult[] {
+  const merged: SearchResult[] = [];
+  const longest = Math.max(0, ...sources.map(source => source.length));
+  for (let rank = 0; rank < longest; rank++) {
+    for (const source of sources) {
+      if (rank < source.length) merged.push(source[rank]);
+    }
+  }
+  return merged;
+}
+
+export const search = query({
+  args: {
+    userId: v.id("users"),
+    query: v.string(),
+    types: v.optional(v.array(searchResultType)),
+    conversationId: v.optional(v.id("conversations")),
+    role: v.optional(v.union(v.literal("user"), v.literal("assistant"))),
+    from: v.optional(v.number()),
+    to: v.optional(v.number()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<{ results: SearchResult[]; hasMore: boolean }> => {
+    const terms = searchTerms(args.query);
+    if (terms.length === 0) return { results: [], hasMore: false };
+    const text = terms.join(" ");
+
+    const limit = Math.min(Math.max(1, Math.floor(args.limit ?? SEARCH_PAGE_SIZE)), MAX_SEARCH_RESULTS);
+    // One extra per source tells whether there is another page
+    const take = limit + 1;
+    const from = args.from ?? 0;
+    const to = args.to ?? Number.MAX_SAFE_INTEGER;
+    const messagesOnly = args.conversationId !== undefined || args.role !== undefined;
+    const types = messagesOnly ? ["message"] : args.types ?? ["message", "mood", "journal"];
+
+    const sources: SearchResult[][] = [];
+
+    if (types.includes("message")) {
+      const messages = await ctx.db
+        .query("messages")
+        .withSearchIndex("search_text", (q) => {
+          let search = q.search("searchText", text).eq("userId", args.userId);
+          if (args.conversationId) search = search.eq("conversationId", args.conversationId);
+          if (args.role) search = search.eq("role", args.role);
+          return search;
+        })
+        .filter((q) => q.and(
+          q.neq(q.field("role"), "system"),
+          q.gte(q.field("timestamp"), from),
+          q.lte(q.field("timestamp"), to)
+        ))
+        .take(take);
+
+      const titles = new Map<Id<"conversations">, string | null>();
+      for (const conversationId of new Set(messages.map(message => message.conversationId))) {
+        const conversation = await ctx.db.get(conversationId);
+        titles.set(conversationId, conversation?.title ?? null);
+      }
+
+      sources.push(messages.map(message => ({
+        type: "message",
+        id: message._id,
+        conversationId: message.conversationId,
+        conversationTitle: titles.get(message.conversationId) ?? null,
+        role: message.role === "user" ? "user" : "assistant",
+        timestamp: message.timestamp,
+        snippet: buildSnippet(message.content, terms),
+      })));
+    }
+
+    if (types.includes("mood")) {
+      const moods = await ctx.db
+        .query("moods")
+        .withSearchIndex("search_text", (q) => q.search("searchText", text).eq("userId", args.userId))
+        .filter((q) => q.and(q.gte(q.field("timestamp"), from), q.lte(q.field("timestamp"), to)))
+        .take(take);
+
+      sources.push(moods.map(mood => ({
+        type: "mood",
+        id: mood._id,
+        rating: mood.rating,
+        emoji: mood.emoji ?? null,
+        timestamp: mood.timestamp,
+        snippet: buildSnippet(mood.note ?? "", terms),
+      })));
+    }
+
+    if (types.includes("journal")) {
+      const entries = await ctx.db
+        .query("journalEntries")
+        .withSearchIndex("search_text", (q) => q.search("searchText", text).eq("userId", args.userId))
+        .filter((q) => q.and(q.gte(q.field("createdAt"), from), q.lte(q.field("createdAt"), to)))
+        .take(take);
+
+      sources.push(entries.map(entry => ({
+        type: "journal",
+        id: entry._id,
+        title: entry.title ?? null,
+        timestamp: entry.createdAt,
+        // Encrypted entries only match on their tags
+        snippet: buildSnippet(
+          isEncryptedValue(entry.content) ? entry.tags.map(tag => `#${tag}`).join(" ") : plainJournalText(entry.content),
+          terms
+        ),
+      })));
+    }
+
+    const merged = interleave(sources);
+    return { results: merged.slice(0, limit), hasMore: merged.length > limit };
+  },
+});
+
+const BACKFILL_BATCH_SIZE = 100;
+
+const backfillTable = v.union(v.literal("messages"), v.literal("moods"), v.literal("journalEntries"));
+
+// One-off migration: fill in searchText for messages and mood notes written
+// before the search indexes existed, and refold journal entries, which were
+// only lowercased. Works through messages, then moods, then journal entries,
+// scheduling itself until every row has been visited:
+//   npx convex run search:backfillSearchText
+export const backfillSearchText = internalMutation({
+  args: {
+    table: v.optional(backfillTable),
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  returns: v.object({ updated: v.number(), isDone: v.boolean() }),
+  handler: async (ctx, args): Promise<{ updated: number; isDone: boolean }> => {
+    const table = args.table ?? "messages";
+    const options = { numItems: BACKFILL_BATCH_SIZE, cursor: args.cursor ?? null };
+    let page: { updated: number; isDone: boolean; continueCursor: string };
+
+    switch (table) {
+      case "messages": {
+        const result = await ctx.db.query("messages").paginate(options);
+        for (const message of result.page) {
+          // Drafts get their searchText when they finish streaming
+          if (message.status === "streaming") continue;
+          await ctx.db.patch(message._id, { searchText: toSearchText(message.content) });
+        }
+        page = { updated: result.page.length, isDone: result.isDone, continueCursor: result.continueCursor };
+        break;
+      }
+      case "moods": {
+        const result = await ctx.db.query("moods").paginate(options);
+        for (const mood of result.page) {
+          await ctx.db.patch(mood._id, { searchText: moodSearchText(mood.note) });
+        }
+        page = { updated: result.page.length, isDone: result.isDone, continueCursor: result.continueCursor };
+        break;
+      }
+      case "journalEntries": {
+        const result = await ctx.db.query("journalEntries").paginate(options);
+        for (const entry of result.page) {
+          await ctx.db.patch(entry._id, { searchText: buildSearchText(entry) });
+        }
+        page = { updated: result.page.length, isDone: result.isDone, continueCursor: result.continueCursor };
+        break;
+      }
+    }
+
+    const nextTable = table === "messages" ? "moods" : table === "moods" ? "journalEntries" : null;
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.search.backfillSearchText, {
+        table,
+        cursor: page.continueCursor,
+      });
+    } else if (nextTable) {
+      await ctx.scheduler.runAfter(0, internal.search.backfillSearchText, { table: nextTable });
+    }
+
+    return { updated: page.updated, isDone: page.isDone && nextTable === null };
+  },
+});
@@ -0,0 +1,110 @@
+import { normalizeArabic } from "./crisisClassifier";
+import { isEncryptedValue } from "./encryption";
+
+// Text preparation for the full-text search indexes (see search.ts).
+//
+// Stored text and queries are folded the same way: NFKC, lowercase, and the
+// Arabic spelling variants from the crisis classifier (hamza forms, alef
+// maqsura, taa marbuta, diacritics, tatweel). Convex matches whole tokens, so
+// Arabic words that carry the definite article ("القلق") are indexed a second
+// time without it, and queries drop it too; "قلق" then finds both.
+
+export interface Snippet {
+  text: string;
+  // [start, end) offsets into text
+  highlights: [number, number][];
+}
+
+// Characters of context shown before the first match
+const SNIPPET_LEAD = 40;
+export const SNIPPET_LENGTH = 160;
+
+const ARABIC_ARTICLE = /^(?:[وفبك]?ال|لل)(?=[ء-ي]{2,})/;
+
+function foldChar(char: string): string {
+  return normalizeArabic(char.normalize("NFKC").toLowerCase());
+}
+
+// Folded text plus, for every folded character, the offset of the original
+// character it came from
+function foldWithOffsets(text: string): { folded: string; offsets: number[] } {
+  let folded = "";
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const char of text) {
+    const result = foldChar(char);
+    for (let i = 0; i < result.length; i++) offsets.push(offset);
+    folded += result;
+    offset += char.length;
+  }
+  return { folded, offsets };
+}
+
+export function foldSearchText(text: string): string {
+  return foldWithOffsets(text).folded;
+}
+
+export function stripArabicArticle(word: string): string {
+  return word.replace(ARABIC_ARTICLE, "");
+}
+
+// What goes into a searchText field
+export function toSearchText(text: string): string {
+  const folded = foldSearchText(text);
+  const variants = new Set<string>();
+  for (const word of folded.split(/[^\p{L}\p{N}]+/u)) {
+    const stripped = stripArabicArticle(word);
+    if (stripped !== word) variants.add(stripped);
+  }
+  return variants.size > 0 ? `${folded} ${[...variants].join(" ")}` : folded;
+}
+
+// Encrypted notes can't be searched on the server
+export function moodSearchText(note: string | undefined): string {
+  return note && !isEncryptedValue(note) ? toSearchText(note) : "";
+}
+
+// The terms to search for; empty when the query has no letters or digits
+export function searchTerms(query: string): string[] {
+  return foldSearchText(query)
+    .split(/[^\p{L}\p{N}]+/u)
+    .map(stripArabicArticle)
+    .filter(term => term.length > 0);
+}
+
+// A window of the original text around the first match, with every match
+// of every term highlighted
+export function buildSnippet(text: string, terms: string[]): Snippet {
+  const { folded, offsets } = foldWithOffsets(text);
+  const matches: [number, number][] = [];
+  for (const term of terms) {
+    let index = folded.indexOf(term);
+    while (index !== -1) {
+      const end = index + term.length;
+      matches.push([offsets[index], end < offsets.length ? offsets[end] : text.length]);
+      index = folded.indexOf(term, end);
+    }
+  }
+  matches.sort((a, b) => a[0] - b[0]);
+
+  const first = matches[0]?.[0] ?? 0;
+  const start = text.length <= SNIPPET_LENGTH ? 0 : Math.max(0, Math.min(first - SNIPPET_LEAD, text.length - SNIPPET_LENGTH));
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+
+  const highlights: [number, number][] = [];
+  for (const [matchStart, matchEnd] of matches) {
+    if (matchStart < start || matchEnd > end) continue;
+    const previous = highlights[highlights.length - 1];
+    const from = matchStart - start + prefix.length;
+    const to = matchEnd - start + prefix.length;
+    if (previous && from <= previous[1]) {
+      previous[1] = Math.max(previous[1], to);
+    } else {
+      highlights.push([from, to]);
+    }
+  }
+
+  return { text: prefix + text.slice(start, end) + suffix, highlights };
+}
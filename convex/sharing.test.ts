@@ -0,0 +1,143 @@
+// @vitest-environment edge-runtime
+/// <reference types="vite/client" />
+/**
+ * Tests for clinician sharing links
+ * Tests that only a hash of the token is stored, scope and expiry enforcement, revocation and the access log
+ */
+
+import { convexTest } from 'convex-test';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { api } from './_generated/api';
+import { Doc } from './_generated/dataModel';
+import { generateShareToken, grantStatus, hashShareToken, MAX_SHARE_DAYS, SharedProgress } from './sharing';
+import schema from './schema';
+
+const modules = import.meta.glob('./**/*.ts');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = Date.UTC(2025, 2, 1);
+
+describe('Sharing', () => {
+  it('should generate unguessable URL-safe tokens', () => {
+    const token = generateShareToken();
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(generateShareToken()).not.toBe(token);
+  });
+
+  it('should report a grant as revoked, expired or active', () => {
+    expect(grantStatus({ expiresAt: now + 1, revokedAt: undefined }, now)).toBe('active');
+    expect(grantStatus({ expiresAt: now, revokedAt: undefined }, now)).toBe('expired');
+    expect(grantStatus({ expiresAt: now + 1, revokedAt: now - 1 }, now)).toBe('revoked');
+  });
+
+  describe('grants', () => {
+    let t: ReturnType<typeof convexTest>;
+
+    beforeEach(() => {
+      t = convexTest(schema, modules);
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(now);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const seedUser = () => t.run(async ctx => {
+      const userId = await ctx.db.insert('users', { clerkId: 'clerk_1', displayName: 'Sara' });
+      const conversationId = await ctx.db.insert('conversations', { userId, isActive: true, messageCount: 1 });
+      await ctx.db.insert('moods', { userId, rating: 6, note: 'private note', factors: ['sleep'], timestamp: now - DAY_MS });
+      await ctx.db.insert('messages', { conversationId, userId, role: 'user', content: 'Hello', timestamp: now - DAY_MS });
+      return userId;
+    });
+
+    it('should store only a hash of the token', async () => {
+      const userId = await seedUser();
+
+      const { grantId, token, expiresAt } = await t.action(api.sharing.createShareGrant, {
+        userId,
+        scopes: ['moods', 'moods', 'exercises'],
+        expiresInDays: 7,
+        label: '  Dr. Noor  ',
+      });
+
+      const grant = await t.run(ctx => ctx.db.get(grantId));
+      expect(grant).toMatchObject({ tokenHash: await hashShareToken(token), label: 'Dr. Noor', scopes: ['moods', 'exercises'] });
+      expect(JSON.stringify(grant)).not.toContain(token);
+      expect(expiresAt).toBe(now + 7 * DAY_MS);
+    });
+
+    it('should validate the scopes and duration', async () => {
+      const userId = await seedUser();
+
+      await expect(t.action(api.sharing.createShareGrant, { userId, scopes: [], expiresInDays: 7 }))
+        .rejects.toThrow('Choose at least one category to share');
+      await expect(t.action(api.sharing.createShareGrant, { userId, scopes: ['moods'], expiresInDays: MAX_SHARE_DAYS + 1 }))
+        .rejects.toThrow(`Links can last between 1 and ${MAX_SHARE_DAYS} days`);
+    });
+
+    it('should share only the granted categories, without private notes', async () => {
+      const userId = await seedUser();
+      const { token } = await t.action(api.sharing.createShareGrant, { userId, scopes: ['moods'], expiresInDays: 7 });
+
+      const shared: SharedProgress = await t.mutation(api.sharing.openSharedProgress, { token });
+      expect(shared).toMatchObject({ name: 'Sara', scopes: ['moods'] });
+      expect(shared.moods).toHaveLength(1);
+      expect(shared.moods![0]).toMatchObject({ rating: 6, factors: ['sleep'] });
+      expect(shared.moods![0]).not.toHaveProperty('note');
+      expect(shared).not.toHaveProperty('messages');
+
+      await expect(t.mutation(api.sharing.openSharedProgress, { token: generateShareToken() }))
+        .rejects.toThrow('This link is not valid');
+    });
+
+    it('should share messages only when explicitly granted', async () => {
+      const userId = await seedUser();
+      const { token } = await t.action(api.sharing.createShareGrant, { userId, scopes: ['messages'], expiresInDays: 1 });
+
+      const shared: SharedProgress = await t.mutation(api.sharing.openSharedProgress, { token });
+
+      expect(shared.messages).toEqual([{ role: 'user', content: 'Hello', timestamp: now - DAY_MS }]);
+      expect(shared).not.toHaveProperty('moods');
+    });
+
+    it('should stop working once expired or revoked', async () => {
+      const userId = await seedUser();
+      const expiring = await t.action(api.sharing.createShareGrant, { userId, scopes: ['moods'], expiresInDays: 1 });
+      const revoked = await t.action(api.sharing.createShareGrant, { userId, scopes: ['moods'], expiresInDays: 7 });
+
+      await t.mutation(api.sharing.revokeShareGrant, { userId, grantId: revoked.grantId });
+      await expect(t.mutation(api.sharing.openSharedProgress, { token: revoked.token }))
+        .rejects.toThrow('This link has been revoked');
+
+      vi.setSystemTime(now + DAY_MS);
+      await expect(t.mutation(api.sharing.openSharedProgress, { token: expiring.token }))
+        .rejects.toThrow('This link has expired');
+
+      const grants = await t.query(api.sharing.listShareGrants, { userId });
+      expect(grants.map((grant: { status: string }) => grant.status)).toEqual(['revoked', 'expired']);
+    });
+
+    it('should not let another user revoke a link', async () => {
+      const userId = await seedUser();
+      const otherId = await t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_2' }));
+      const { grantId } = await t.action(api.sharing.createShareGrant, { userId, scopes: ['moods'], expiresInDays: 7 });
+
+      await expect(t.mutation(api.sharing.revokeShareGrant, { userId: otherId, grantId })).rejects.toThrow('Share link not found');
+    });
+
+    it('should log each category in the same call that serves it', async () => {
+      const userId = await seedUser();
+      const { grantId, token } = await t.action(api.sharing.createShareGrant, { userId, scopes: ['moods'], expiresInDays: 7 });
+
+      vi.setSystemTime(now + 60 * 1000);
+      await t.mutation(api.sharing.openSharedProgress, { token });
+
+      const log = await t.query(api.sharing.getShareAccessLog, { userId, grantId });
+      expect(log.map((entry: Doc<'shareAccessLog'>) => entry.scope).sort()).toEqual(['moods', 'overview']);
+      const [grant] = await t.query(api.sharing.listShareGrants, { userId });
+      expect(grant).toMatchObject({ accessCount: 2, lastAccessedAt: now + 60 * 1000 });
+    });
+  });
+});
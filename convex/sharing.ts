@@ -0,0 +1,368 @@
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { action, internalMutation, mutation, query, QueryCtx } from "./_generated/server";
+import { LocalizedText, QUESTIONNAIRES } from "./questionnaires";
+
+// Clinician sharing links.
+//
+// A user grants read-only access to chosen data categories for a limited
+// time. The link carries a random token; only its SHA-256 hash is stored, so
+// the database alone can't be used to open a link. The clinician view reads
+// everything through openSharedProgress, which resolves the token to an
+// unexpired, unrevoked grant, returns only the categories it covers and
+// records each one in shareAccessLog (which the user can review) in the same
+// transaction, so shared data can't be read without being logged. Raw chat
+// messages are never shared unless the user explicitly adds them.
+
+export const SHARE_SCOPES = ["moods", "exercises", "assessments", "summaries", "messages"] as const;
+
+export type ShareScope = (typeof SHARE_SCOPES)[number];
+
+export const DEFAULT_SHARE_SCOPES: ShareScope[] = ["moods", "exercises", "assessments"];
+
+export const MAX_SHARE_DAYS = 90;
+
+// Shared categories cover this much history
+export const SHARED_HISTORY_DAYS = 90;
+
+// Most rows returned per shared category
+const SHARED_ROW_LIMIT = 500;
+
+const SHARE_TOKEN_BYTES = 32;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const scopeValidator = v.union(
+  v.literal("moods"),
+  v.literal("exercises"),
+  v.literal("assessments"),
+  v.literal("summaries"),
+  v.literal("messages")
+);
+
+export type GrantStatus = "active" | "expired" | "revoked";
+
+export function grantStatus(grant: Pick<Doc<"shareGrants">, "expiresAt" | "revokedAt">, now: number): GrantStatus {
+  if (grant.revokedAt !== undefined) return "revoked";
+  if (now >= grant.expiresAt) return "expired";
+  return "active";
+}
+
+// 256 random bits, base64url without padding
+export function generateShareToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(SHARE_TOKEN_BYTES));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export async function hashShareToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// The grant behind a token, if it is active
+async function requireGrant(ctx: QueryCtx, token: string): Promise<Doc<"shareGrants">> {
+  const tokenHash = await hashShareToken(token);
+  const grant = await ctx.db
+    .query("shareGrants")
+    .withIndex("by_token_hash", (q) => q.eq("tokenHash", tokenHash))
+    .unique();
+  if (!grant) {
+    throw new Error("This link is not valid");
+  }
+  const status = grantStatus(grant, Date.now());
+  if (status === "revoked") {
+    throw new Error("This link has been revoked");
+  }
+  if (status === "expired") {
+    throw new Error("This link has expired");
+  }
+  return grant;
+}
+
+const sharedSince = () => Date.now() - SHARED_HISTORY_DAYS * DAY_MS;
+
+// ----- The user's side -----
+
+// Create a link; the token is returned once and never stored
+export const createShareGrant = action({
+  args: {
+    userId: v.id("users"),
+    scopes: v.array(scopeValidator),
+    expiresInDays: v.number(),
+    label: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<{ grantId: Id<"shareGrants">; token: string; expiresAt: number }> => {
+    const token = generateShareToken();
+    const { grantId, expiresAt } = await ctx.runMutation(internal.sharing.insertShareGrant, {
+      userId: args.userId,
+      tokenHash: await hashShareToken(token),
+      scopes: args.scopes,
+      expiresInDays: args.expiresInDays,
+      label: args.label,
+    });
+    return { grantId, token, expiresAt };
+  },
+});
+
+export const insertShareGrant = internalMutation({
+  args: {
+    userId: v.id("users"),
+    tokenHash: v.string(),
+    scopes: v.array(scopeValidator),
+    expiresInDays: v.number(),
+    label: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<{ grantId: Id<"shareGrants">; expiresAt: number }> => {
+    const user = await ctx.db.get(args.userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+    if (args.scopes.length === 0) {
+      throw new Error("Choose at least one category to share");
+    }
+    if (!Number.isInteger(args.expiresInDays) || args.expiresInDays < 1 || args.expiresInDays > MAX_SHARE_DAYS) {
+      throw new Error(`Links can last between 1 and ${MAX_SHARE_DAYS} days`);
+    }
+
+    const now = Date.now();
+    const expiresAt = now + args.expiresInDays * DAY_MS;
+    const label = args.label?.trim();
+    const grantId = await ctx.db.insert("shareGrants", {
+      userId: args.userId,
+      tokenHash: args.tokenHash,
+      label: label || undefined,
+      scopes: [...new Set(args.scopes)],
+      createdAt: now,
+      expiresAt,
+    });
+    return { grantId, expiresAt };
+  },
+});
+
+export const revokeShareGrant = mutation({
+  args: {
+    userId: v.id("users"),
+    grantId: v.id("shareGrants"),
+  },
+  handler: async (ctx, args) => {
+    const grant = await ctx.db.get(args.grantId);
+    if (!grant || grant.userId !== args.userId) {
+      throw new Error("Share link not found");
+    }
+    if (grant.revokedAt === undefined) {
+      await ctx.db.patch(args.grantId, { revokedAt: Date.now() });
+    }
+  },
+});
+
+export interface ShareGrantSummary {
+  _id: Id<"shareGrants">;
+  label: string | null;
+  scopes: ShareScope[];
+  status: GrantStatus;
+  createdAt: number;
+  expiresAt: number;
+  lastAccessedAt: number | null;
+  accessCount: number;
+}
+
+// The user's links, newest first
+export const listShareGrants = query({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args): Promise<ShareGrantSummary[]> => {
+    const now = Date.now();
+    const grants = await ctx.db
+      .query("shareGrants")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .order("desc")
+      .collect();
+
+    return await Promise.all(grants.map(async (grant) => {
+      const accesses = await ctx.db
+        .query("shareAccessLog")
+        .withIndex("by_grant", (q) => q.eq("grantId", grant._id))
+        .collect();
+      return {
+        _id: grant._id,
+        label: grant.label ?? null,
+        scopes: grant.scopes,
+        status: grantStatus(grant, now),
+        createdAt: grant.createdAt,
+        expiresAt: grant.expiresAt,
+        lastAccessedAt: grant.lastAccessedAt ?? null,
+        accessCount: accesses.length,
+      };
+    }));
+  },
+});
+
+// What was opened through the user's links, newest first
+export const getShareAccessLog = query({
+  args: {
+    userId: v.id("users"),
+    grantId: v.optional(v.id("shareGrants")),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<Doc<"shareAccessLog">[]> => {
+    const limit = args.limit ?? 50;
+    if (args.grantId) {
+      const grant = await ctx.db.get(args.grantId);
+      if (!grant || grant.userId !== args.userId) return [];
+      return await ctx.db
+        .query("shareAccessLog")
+        .withIndex("by_grant", (q) => q.eq("grantId", args.grantId!))
+        .order("desc")
+        .take(limit);
+    }
+    return await ctx.db
+      .query("shareAccessLog")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .order("desc")
+      .take(limit);
+  },
+});
+
+// ----- The clinician's side: one mutation per visit, keyed by the link token -----
+
+// Ratings and check-in scales; private notes are never shared
+async function sharedMoods(ctx: QueryCtx, userId: Id<"users">) {
+  const moods = await ctx.db
+    .query("moods")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .order("desc")
+    .filter((q) => q.gte(q.field("timestamp"), sharedSince()))
+    .take(SHARED_ROW_LIMIT);
+  return moods.map(mood => ({
+    rating: mood.rating,
+    emoji: mood.emoji ?? null,
+    factors: mood.factors ?? [],
+    emotions: mood.emotions ?? [],
+    energy: mood.energy ?? null,
+    anxiety: mood.anxiety ?? null,
+    sleepQuality: mood.sleepQuality ?? null,
+    sleepHours: mood.sleepHours ?? null,
+    timestamp: mood.timestamp,
+  }));
+}
+
+// Exercise type, timing and results; what the user wrote in them is not shared
+async function sharedExercises(ctx: QueryCtx, userId: Id<"users">) {
+  const exercises = await ctx.db
+    .query("exercises")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .order("desc")
+    .filter((q) => q.gte(q.field("completedAt"), sharedSince()))
+    .take(SHARED_ROW_LIMIT);
+  return exercises.map(exercise => ({
+    type: exercise.type,
+    completedAt: exercise.completedAt,
+    duration: exercise.duration ?? null,
+    effectiveness: exercise.data.effectiveness ?? exercise.data.outputs?.effectiveness ?? null,
+    moodBefore: exercise.data.outputs?.moodBefore ?? null,
+    moodAfter: exercise.data.outputs?.moodAfter ?? null,
+  }));
+}
+
+async function sharedAssessments(ctx: QueryCtx, userId: Id<"users">): Promise<{
+  name: string;
+  totalScore: number;
+  severityLabel: LocalizedText;
+  completedAt: number;
+}[]> {
+  const assessments = await ctx.db
+    .query("assessments")
+    .withIndex("by_user", (q) => q.eq("userId", userId).gte("completedAt", sharedSince()))
+    .order("desc")
+    .take(SHARED_ROW_LIMIT);
+  return assessments.map(assessment => {
+    const definition = QUESTIONNAIRES[assessment.questionnaireId];
+    return {
+      name: definition.name,
+      totalScore: assessment.totalScore,
+      severityLabel: definition.bands.find(band => band.severity === assessment.severity)!.label,
+      completedAt: assessment.completedAt,
+    };
+  });
+}
+
+async function sharedSummaries(ctx: QueryCtx, userId: Id<"users">) {
+  const summaries = await ctx.db
+    .query("conversationSummaries")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .order("desc")
+    .filter((q) => q.gte(q.field("generatedAt"), sharedSince()))
+    .take(SHARED_ROW_LIMIT);
+  return summaries.map(summary => ({
+    summary: summary.summary,
+    keyTopics: summary.keyTopics,
+    moodProgression: summary.moodProgression,
+    generatedAt: summary.generatedAt,
+  }));
+}
+
+// Only when the user explicitly added "messages" to the link
+async function sharedMessages(ctx: QueryCtx, userId: Id<"users">) {
+  const messages = await ctx.db
+    .query("messages")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .order("desc")
+    .filter((q) => q.and(
+      q.gte(q.field("timestamp"), sharedSince()),
+      q.neq(q.field("role"), "system")
+    ))
+    .take(SHARED_ROW_LIMIT);
+  return messages.map(message => ({
+    role: message.role,
+    content: message.content,
+    timestamp: message.timestamp,
+  }));
+}
+
+export interface SharedProgress {
+  name: string | null;
+  label: string | null;
+  scopes: ShareScope[];
+  expiresAt: number;
+  historyDays: number;
+  moods?: Awaited<ReturnType<typeof sharedMoods>>;
+  exercises?: Awaited<ReturnType<typeof sharedExercises>>;
+  assessments?: Awaited<ReturnType<typeof sharedAssessments>>;
+  summaries?: Awaited<ReturnType<typeof sharedSummaries>>;
+  messages?: Awaited<ReturnType<typeof sharedMessages>>;
+}
+
+// Everything the link covers, logging the visit and each category it returns
+export const openSharedProgress = mutation({
+  args: { token: v.string() },
+  handler: async (ctx, args): Promise<SharedProgress> => {
+    const grant = await requireGrant(ctx, args.token);
+    const user = await ctx.db.get(grant.userId);
+    const shared: SharedProgress = {
+      name: user?.displayName ?? user?.name ?? null,
+      label: grant.label ?? null,
+      scopes: grant.scopes,
+      expiresAt: grant.expiresAt,
+      historyDays: SHARED_HISTORY_DAYS,
+    };
+    if (grant.scopes.includes("moods")) shared.moods = await sharedMoods(ctx, grant.userId);
+    if (grant.scopes.includes("exercises")) shared.exercises = await sharedExercises(ctx, grant.userId);
+    if (grant.scopes.includes("assessments")) shared.assessments = await sharedAssessments(ctx, grant.userId);
+    if (grant.scopes.includes("summaries")) shared.summaries = await sharedSummaries(ctx, grant.userId);
+    if (grant.scopes.includes("messages")) shared.messages = await sharedMessages(ctx, grant.userId);
+
+    const now = Date.now();
+    for (const scope of ["overview" as const, ...grant.scopes]) {
+      await ctx.db.insert("shareAccessLog", {
+        grantId: grant._id,
+        userId: grant.userId,
+        scope,
+        accessedAt: now,
+      });
+    }
+    await ctx.db.patch(grant._id, { lastAccessedAt: now });
+    return shared;
+  },
+});
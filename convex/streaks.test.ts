@@ -0,0 +1,325 @@
+// @vitest-environment edge-runtime
+/// <reference types="vite/client" />
+/**
+ * Tests for timezone-aware streaks
+ * Tests local day boundaries, streak freezes, exercise and check-in streaks, the streak history,
+ * the recompute migration and local hours in mood insights
+ */
+
+import { convexTest } from 'convex-test';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { api, internal } from './_generated/api';
+import {
+  advanceStreak,
+  currentStreakOn,
+  MAX_STREAK_FREEZES,
+  MIN_PAST_STREAK,
+  pastStreaks,
+  replayStreak,
+  STREAK_FREEZE_EVERY,
+} from './streaks';
+import schema from './schema';
+import { daysBetween, localDate, localTime } from './timezones';
+
+const modules = import.meta.glob('./**/*.ts');
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Consecutive YYYY-MM-DD dates starting from `start`
+const consecutiveDates = (start: string, count: number) =>
+  Array.from({ length: count }, (_, i) => new Date(Date.parse(start) + i * DAY).toISOString().slice(0, 10));
+
+describe('Streaks', () => {
+  describe('local days', () => {
+    it('should put a Riyadh evening on the Riyadh day (UTC+3)', () => {
+      // 22:30 UTC on 1 March is 01:30 on 2 March in Riyadh
+      const timestamp = Date.UTC(2025, 2, 1, 22, 30);
+
+      expect(localDate(timestamp, 'UTC')).toBe('2025-03-01');
+      expect(localTime(timestamp, 'Asia/Riyadh')).toEqual({ date: '2025-03-02', hour: 1, weekday: 0 });
+    });
+
+    it('should put a Los Angeles evening on the Los Angeles day (UTC-8)', () => {
+      // 03:00 UTC on 15 January is 19:00 on 14 January in Los Angeles
+      const timestamp = Date.UTC(2025, 0, 15, 3);
+
+      expect(localTime(timestamp, 'America/Los_Angeles')).toEqual({ date: '2025-01-14', hour: 19, weekday: 2 });
+    });
+
+    it('should fall back to UTC for a missing or unknown timezone', () => {
+      const timestamp = Date.UTC(2025, 0, 15, 3);
+
+      expect(localDate(timestamp, undefined)).toBe('2025-01-15');
+      expect(localDate(timestamp, 'Mars/Olympus_Mons')).toBe('2025-01-15');
+    });
+
+    it('should count calendar days across DST changes', () => {
+      // Los Angeles springs forward on 9 March 2025 and falls back on 2 November
+      expect(daysBetween('2025-03-08', '2025-03-09')).toBe(1);
+      expect(daysBetween('2025-03-09', '2025-03-10')).toBe(1);
+      expect(daysBetween('2025-11-01', '2025-11-03')).toBe(2);
+
+      // 23:30 local on the evenings around the change land on consecutive days
+      const evenings = [
+        Date.UTC(2025, 2, 9, 7, 30), // 23:30 PST, 8 March
+        Date.UTC(2025, 2, 10, 6, 30), // 23:30 PDT, 9 March
+        Date.UTC(2025, 2, 11, 6, 30), // 23:30 PDT, 10 March
+      ].map(timestamp => localDate(timestamp, 'America/Los_Angeles'));
+      expect(evenings).toEqual(['2025-03-08', '2025-03-09', '2025-03-10']);
+      expect(replayStreak(evenings)!.currentStreak).toBe(3);
+    });
+  });
+
+  describe('advanceStreak', () => {
+    it('should count consecutive days and ignore repeat or earlier days', () => {
+      let state = advanceStreak(null, '2025-01-01');
+      state = advanceStreak(state, '2025-01-02');
+      state = advanceStreak(state, '2025-01-02');
+      state = advanceStreak(state, '2024-12-30');
+
+      expect(state).toMatchObject({
+        currentStreak: 2,
+        longestStreak: 2,
+        lastEntryDate: '2025-01-02',
+        streakStartDate: '2025-01-01',
+        totalEntries: 4,
+      });
+    });
+
+    it('should earn freezes every week, up to the cap', () => {
+      const dates = consecutiveDates('2025-01-01', STREAK_FREEZE_EVERY * (MAX_STREAK_FREEZES + 1));
+
+      expect(replayStreak(dates.slice(0, STREAK_FREEZE_EVERY))!.freezesAvailable).toBe(1);
+      expect(replayStreak(dates)!.freezesAvailable).toBe(MAX_STREAK_FREEZES);
+    });
+
+    it('should spend freezes to bridge missed days', () => {
+      const week = replayStreak(consecutiveDates('2025-01-01', STREAK_FREEZE_EVERY))!;
+
+      // 2025-01-08 missed, covered by the freeze
+      const bridged = advanceStreak(week, '2025-01-09');
+      expect(bridged).toMatchObject({ currentStreak: 8, freezesAvailable: 0, freezesUsed: 1 });
+
+      // Two missed days with no freezes left
+      const broken = advanceStreak(bridged, '2025-01-12');
+      expect(broken).toMatchObject({ currentStreak: 1, longestStreak: 8, streakStartDate: '2025-01-12' });
+    });
+
+    it('should keep runs that ended, oldest first', () => {
+      const dates = [
+        ...consecutiveDates('2025-01-01', 3),
+        ...consecutiveDates('2025-01-10', MIN_PAST_STREAK - 1),
+        ...consecutiveDates('2025-01-20', 2),
+      ];
+
+      expect(pastStreaks(dates)).toEqual([{ length: 3, startDate: '2025-01-01', endDate: '2025-01-03' }]);
+    });
+
+    it('should report a lapsed streak as 0', () => {
+      const week = replayStreak(consecutiveDates('2025-01-01', STREAK_FREEZE_EVERY))!;
+
+      expect(currentStreakOn(week, '2025-01-08')).toBe(7);
+      expect(currentStreakOn(week, '2025-01-09')).toBe(7);
+      expect(currentStreakOn(week, '2025-01-10')).toBe(0);
+    });
+  });
+
+  describe('recording moods', () => {
+    let t: ReturnType<typeof convexTest>;
+
+    beforeEach(() => {
+      t = convexTest(schema, modules);
+      // Replayed client timestamps must be recent, so pin "now" to spring 2025;
+      // the recompute migration runs as scheduled functions
+      vi.useFakeTimers();
+      vi.setSystemTime(Date.UTC(2025, 2, 5));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const createUser = (timezone?: string) =>
+      t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_1', timezone }));
+
+    const getStreak = (type = 'mood') =>
+      t.run(ctx => ctx.db.query('streaks').filter(q => q.eq(q.field('type'), type)).first());
+
+    it('should count a Riyadh user\'s late check-ins on their own days', async () => {
+      const userId = await createUser('Asia/Riyadh');
+
+      // 00:30 and 23:30 Riyadh time on 1 March: the same Riyadh day, but
+      // 28 February 21:30 and 1 March 20:30 in UTC
+      for (const clientTimestamp of [Date.UTC(2025, 1, 28, 21, 30), Date.UTC(2025, 2, 1, 20, 30)]) {
+        await t.mutation(api.moods.recordMood, { userId, rating: 6, clientTimestamp });
+      }
+      // 00:15 Riyadh time on 2 March
+      await t.mutation(api.moods.recordMood, { userId, rating: 7, clientTimestamp: Date.UTC(2025, 2, 1, 21, 15) });
+
+      expect(await getStreak()).toMatchObject({
+        currentStreak: 2,
+        streakStartDate: '2025-03-01',
+        lastEntryDate: '2025-03-02',
+        totalEntries: 3,
+      });
+    });
+
+    it('should count a Los Angeles user\'s evening check-ins on their own days', async () => {
+      const userId = await createUser('America/Los_Angeles');
+
+      // 20:00 Los Angeles time on 2 and 3 March, after midnight UTC
+      for (const clientTimestamp of [Date.UTC(2025, 2, 3, 4), Date.UTC(2025, 2, 4, 4)]) {
+        await t.mutation(api.moods.recordMood, { userId, rating: 6, clientTimestamp });
+      }
+
+      expect(await getStreak()).toMatchObject({
+        currentStreak: 2,
+        streakStartDate: '2025-03-02',
+        lastEntryDate: '2025-03-03',
+      });
+    });
+
+    it('should rebuild streaks in each user\'s timezone', async () => {
+      const riyadhId = await createUser('Asia/Riyadh');
+      const losAngelesId = await t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_2', timezone: 'America/Los_Angeles' }));
+      await t.run(async ctx => {
+        // 01:00 on 1 March and 23:00 on 2 March in Riyadh: consecutive local
+        // days, but 28 February and 2 March in UTC
+        await ctx.db.insert('moods', { userId: riyadhId, rating: 6, timestamp: Date.UTC(2025, 1, 28, 22) });
+        await ctx.db.insert('moods', { userId: riyadhId, rating: 6, timestamp: Date.UTC(2025, 2, 2, 20) });
+        // The streak as it was counted in UTC days
+        await ctx.db.insert('streaks', {
+          userId: riyadhId,
+          type: 'mood',
+          currentStreak: 1,
+          longestStreak: 1,
+          lastEntryDate: '2025-03-02',
+          streakStartDate: '2025-03-02',
+          totalEntries: 2,
+        });
+        await ctx.db.insert('moods', { userId: losAngelesId, rating: 6, timestamp: Date.UTC(2025, 2, 2, 4) });
+      });
+
+      const result = await t.mutation(internal.streaks.recomputeStreaks, {});
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+      expect(result).toEqual({ scheduled: 2, isDone: true });
+      const streaks = await t.run(ctx => ctx.db.query('streaks').filter(q => q.eq(q.field('type'), 'mood')).collect());
+      expect(streaks.find(streak => streak.userId === riyadhId)).toMatchObject({
+        currentStreak: 2,
+        streakStartDate: '2025-03-01',
+        lastEntryDate: '2025-03-02',
+        totalEntries: 2,
+      });
+      expect(streaks.find(streak => streak.userId === losAngelesId)).toMatchObject({
+        currentStreak: 1,
+        lastEntryDate: '2025-03-01',
+      });
+    });
+
+    it('should record exercise streaks from every way of logging an exercise', async () => {
+      const userId = await createUser('UTC');
+      await t.run(ctx => ctx.db.patch(userId, { clerkId: 'clerk_1' }));
+
+      await t.mutation(api.exercises.recordExerciseCompletion, {
+        userId,
+        type: 'breathing',
+        data: {},
+        clientTimestamp: Date.UTC(2025, 2, 4, 12),
+      });
+      await t.mutation(api.exercises.recordExercise, { userId, type: 'grounding', data: {} });
+      await t.mutation(api.exercises.recordExerciseByClerkId, { clerkId: 'clerk_1', type: 'gratitude', data: {} });
+
+      expect(await getStreak('exercise')).toMatchObject({
+        currentStreak: 2,
+        streakStartDate: '2025-03-04',
+        lastEntryDate: '2025-03-05',
+        totalEntries: 3,
+      });
+    });
+
+    it('should count a mood, exercise or chat message as checking in, once a day', async () => {
+      const userId = await createUser('UTC');
+      const conversationId = await t.run(ctx => ctx.db.insert('conversations', { userId, isActive: true, messageCount: 0 }));
+
+      await t.mutation(api.moods.recordMood, { userId, rating: 6, clientTimestamp: Date.UTC(2025, 2, 3, 9) });
+      await t.mutation(api.exercises.recordExerciseCompletion, {
+        userId,
+        type: 'breathing',
+        data: {},
+        clientTimestamp: Date.UTC(2025, 2, 4, 9),
+      });
+      // Only the user's own messages count
+      await t.mutation(api.messages.addMessage, { conversationId, userId, role: 'assistant', content: 'Welcome back' });
+      await t.mutation(api.messages.addMessage, { conversationId, userId, role: 'user', content: 'Hi' });
+      await t.mutation(api.messages.addMessage, { conversationId, userId, role: 'user', content: 'Again' });
+
+      expect(await getStreak('check-in')).toMatchObject({
+        currentStreak: 3,
+        streakStartDate: '2025-03-03',
+        lastEntryDate: '2025-03-05',
+        totalEntries: 3,
+      });
+      expect(await getStreak('mood')).toMatchObject({ currentStreak: 1 });
+    });
+
+    it('should keep a broken streak in the history', async () => {
+      const userId = await createUser('UTC');
+      for (const day of [1, 2, 3, 5]) {
+        await t.mutation(api.moods.recordMood, { userId, rating: 6, clientTimestamp: Date.UTC(2025, 2, day) });
+      }
+
+      const history = await t.query(api.streaks.getStreakHistory, { userId, type: 'mood' });
+      expect(history).toMatchObject([{ type: 'mood', length: 3, startDate: '2025-03-01', endDate: '2025-03-03' }]);
+
+      const streaks = await t.query(api.streaks.getUserStreaks, { userId });
+      expect(streaks.map((streak: { type: string; currentStreak: number }) => [streak.type, streak.currentStreak])).toEqual([
+        ['mood', 1],
+        ['exercise', 0],
+        ['check-in', 1],
+      ]);
+    });
+
+    it('should rebuild exercise and check-in streaks and their history', async () => {
+      const userId = await createUser('UTC');
+      const conversationId = await t.run(ctx => ctx.db.insert('conversations', { userId, isActive: true, messageCount: 0 }));
+      await t.run(async ctx => {
+        for (const day of [1, 2]) {
+          await ctx.db.insert('exercises', { userId, type: 'breathing', completedAt: Date.UTC(2025, 2, day, 9), data: {} });
+        }
+        await ctx.db.insert('moods', { userId, rating: 6, timestamp: Date.UTC(2025, 2, 3, 9) });
+        await ctx.db.insert('messages', { conversationId, userId, role: 'user', content: 'Hi', timestamp: Date.UTC(2025, 2, 5, 9) });
+        await ctx.db.insert('exercises', { userId, type: 'breathing', completedAt: Date.UTC(2025, 2, 5, 10), data: {} });
+      });
+
+      await t.mutation(internal.streaks.recomputeStreaks, {});
+      await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+      expect(await getStreak('exercise')).toMatchObject({ currentStreak: 1, longestStreak: 2, totalEntries: 3 });
+      expect(await getStreak('check-in')).toMatchObject({ currentStreak: 1, longestStreak: 3, totalEntries: 4 });
+      const history = await t.query(api.streaks.getStreakHistory, { userId });
+      expect(history.map((past: { type: string; length: number }) => [past.type, past.length]).sort()).toEqual([
+        ['check-in', 3],
+        ['exercise', 2],
+      ]);
+    });
+
+    it('should report best times of day in the user\'s local time', async () => {
+      const userId = await createUser('Asia/Riyadh');
+      const now = Date.now();
+      await t.run(async ctx => {
+        // A good mood at 21:00 Riyadh time (18:00 UTC) and a low one at 09:00
+        const evening = new Date(now - DAY);
+        evening.setUTCHours(18, 0, 0, 0);
+        await ctx.db.insert('moods', { userId, rating: 9, timestamp: evening.getTime() });
+        await ctx.db.insert('moods', { userId, rating: 3, timestamp: evening.getTime() - 12 * HOUR });
+      });
+
+      const insights = await t.query(api.moods.getMoodInsights, { userId });
+
+      expect(insights?.bestTimeOfDay).toBe('21:00');
+      expect(insights?.worstTimeOfDay).toBe('9:00');
+    });
+  });
+});
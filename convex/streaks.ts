@@ -0,0 +1,406 @@
+import { v } from "convex/values";
+import { api, internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { internalAction, internalMutation, internalQuery, MutationCtx, query, QueryCtx } from "./_generated/server";
+import { daysBetween, localDate } from "./timezones";
+
+// Streaks count consecutive local days (see timezones.ts) with at least one
+// entry. Every STREAK_FREEZE_EVERY days in a row earns a streak freeze, up to
+// MAX_STREAK_FREEZES banked; a freeze covers one missed day, so a user who
+// skips a day now and then keeps their streak.
+//
+// There are three streaks: moods logged, exercises completed, and check-ins,
+// where any mood, exercise or chat message counts as checking in that day.
+// When a streak breaks, the run that ended is kept in streakHistory.
+
+export const STREAK_TYPES = ["mood", "exercise", "check-in"] as const;
+
+export type StreakType = (typeof STREAK_TYPES)[number];
+
+// What the user did; each counts towards its own streak, if it has one, and
+// towards the check-in streak
+export type StreakActivity = "mood" | "exercise" | "chat";
+
+export const STREAK_FREEZE_EVERY = 7;
+export const MAX_STREAK_FREEZES = 2;
+// Ended streaks shorter than this are not kept in the history
+export const MIN_PAST_STREAK = 2;
+
+export interface StreakState {
+  currentStreak: number;
+  longestStreak: number;
+  lastEntryDate: string; // YYYY-MM-DD, local to the user
+  streakStartDate: string;
+  totalEntries: number;
+  freezesAvailable: number;
+  freezesUsed: number;
+}
+
+export interface PastStreak {
+  length: number;
+  startDate: string;
+  endDate: string;
+}
+
+// The streak after one more entry on a local date
+export function advanceStreak(state: StreakState | null, date: string): StreakState {
+  if (!state) {
+    return {
+      currentStreak: 1,
+      longestStreak: 1,
+      lastEntryDate: date,
+      streakStartDate: date,
+      totalEntries: 1,
+      freezesAvailable: 0,
+      freezesUsed: 0,
+    };
+  }
+
+  const daysDiff = daysBetween(state.lastEntryDate, date);
+  if (daysDiff <= 0) {
+    // Same day, or an earlier day synced late from the offline outbox:
+    // don't update streak
+    return { ...state, totalEntries: state.totalEntries + 1 };
+  }
+
+  const missedDays = daysDiff - 1;
+  if (missedDays > state.freezesAvailable) {
+    // Streak broken, restart
+    return {
+      ...state,
+      currentStreak: 1,
+      lastEntryDate: date,
+      streakStartDate: date,
+      totalEntries: state.totalEntries + 1,
+      freezesAvailable: 0,
+    };
+  }
+
+  // Consecutive day, or the gap is covered by freezes
+  const currentStreak = state.currentStreak + 1;
+  const earned = currentStreak % STREAK_FREEZE_EVERY === 0 ? 1 : 0;
+  return {
+    ...state,
+    currentStreak,
+    longestStreak: Math.max(state.longestStreak, currentStreak),
+    lastEntryDate: date,
+    totalEntries: state.totalEntries + 1,
+    freezesAvailable: Math.min(MAX_STREAK_FREEZES, state.freezesAvailable - missedDays + earned),
+    freezesUsed: state.freezesUsed + missedDays,
+  };
+}
+
+// The streak as of a local date: still running if the days missed since the
+// last entry could be covered by freezes, otherwise 0
+export function currentStreakOn(state: StreakState, today: string): number {
+  const missedDays = daysBetween(state.lastEntryDate, today) - 1;
+  return missedDays <= state.freezesAvailable ? state.currentStreak : 0;
+}
+
+// The run that ended when `previous` advanced to `next`, if the streak broke
+export function endedStreak(previous: StreakState | null, next: StreakState): PastStreak | null {
+  if (!previous || next.streakStartDate === previous.streakStartDate) return null;
+  if (previous.currentStreak < MIN_PAST_STREAK) return null;
+  return {
+    length: previous.currentStreak,
+    startDate: previous.streakStartDate,
+    endDate: previous.lastEntryDate,
+  };
+}
+
+// Rebuild a streak from every entry date, oldest first
+export function replayStreak(dates: string[]): StreakState | null {
+  return [...dates].sort().reduce<StreakState | null>(advanceStreak, null);
+}
+
+// Every run that ended while replaying the entry dates, oldest first
+export function pastStreaks(dates: string[]): PastStreak[] {
+  const history: PastStreak[] = [];
+  let state: StreakState | null = null;
+  for (const date of [...dates].sort()) {
+    const next = advanceStreak(state, date);
+    const ended = endedStreak(state, next);
+    if (ended) history.push(ended);
+    state = next;
+  }
+  return history;
+}
+
+function toStreakState(streak: Doc<"streaks">): StreakState {
+  return {
+    currentStreak: streak.currentStreak,
+    longestStreak: streak.longestStreak,
+    lastEntryDate: streak.lastEntryDate,
+    streakStartDate: streak.streakStartDate,
+    totalEntries: streak.totalEntries,
+    freezesAvailable: streak.freezesAvailable ?? 0,
+    freezesUsed: streak.freezesUsed ?? 0,
+  };
+}
+
+async function getStreak(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  type: StreakType
+): Promise<Doc<"streaks"> | null> {
+  return await ctx.db
+    .query("streaks")
+    .withIndex("by_user_type", (q) => q.eq("userId", userId).eq("type", type))
+    .first();
+}
+
+// The stored streak as of the user's local today, with a lapsed streak read
+// as 0 until the next entry
+export async function currentStreak(ctx: QueryCtx, userId: Id<"users">, type: StreakType) {
+  const streak = await getStreak(ctx, userId, type);
+  if (!streak) {
+    return {
+      type,
+      currentStreak: 0,
+      longestStreak: 0,
+      lastEntryDate: "",
+      streakStartDate: "",
+      totalEntries: 0,
+      freezesAvailable: 0,
+      freezesUsed: 0,
+    };
+  }
+
+  const user = await ctx.db.get(userId);
+  const state = toStreakState(streak);
+  return { type, ...state, currentStreak: currentStreakOn(state, localDate(Date.now(), user?.timezone)) };
+}
+
+async function advanceStoredStreak(ctx: MutationCtx, userId: Id<"users">, type: StreakType, date: string) {
+  const existing = await getStreak(ctx, userId, type);
+  const previous = existing ? toStreakState(existing) : null;
+
+  // The check-in streak counts days, not entries, so every chat message on a
+  // day already checked in is a no-op
+  if (type === "check-in" && previous && daysBetween(previous.lastEntryDate, date) <= 0) return;
+
+  const next = advanceStreak(previous, date);
+  if (existing) {
+    await ctx.db.patch(existing._id, next);
+  } else {
+    await ctx.db.insert("streaks", { userId, type, ...next });
+  }
+
+  const ended = endedStreak(previous, next);
+  if (ended) {
+    await ctx.db.insert("streakHistory", { userId, type, ...ended });
+  }
+}
+
+// Count an activity at `timestamp` towards the user's streaks
+export async function recordStreakActivity(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  activity: StreakActivity,
+  timestamp: number
+) {
+  const user = await ctx.db.get(userId);
+  const date = localDate(timestamp, user?.timezone);
+
+  if (activity !== "chat") {
+    await advanceStoredStreak(ctx, userId, activity, date);
+  }
+  await advanceStoredStreak(ctx, userId, "check-in", date);
+}
+
+// All three streaks, for the streak badges and weekly progress
+export const getUserStreaks = query({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    return await Promise.all(STREAK_TYPES.map(type => currentStreak(ctx, args.userId, type)));
+  },
+});
+
+const DEFAULT_HISTORY_LIMIT = 10;
+
+// Streaks that have ended, most recent first
+export const getStreakHistory = query({
+  args: {
+    userId: v.id("users"),
+    type: v.optional(v.union(v.literal("mood"), v.literal("exercise"), v.literal("check-in"))),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<Doc<"streakHistory">[]> => {
+    const history = await ctx.db
+      .query("streakHistory")
+      .withIndex("by_user_type", (q) =>
+        args.type ? q.eq("userId", args.userId).eq("type", args.type) : q.eq("userId", args.userId)
+      )
+      .collect();
+
+    return history
+      .sort((a, b) => b.endDate.localeCompare(a.endDate))
+      .slice(0, args.limit ?? DEFAULT_HISTORY_LIMIT);
+  },
+});
+
+// Replace a user's stored streak and history with ones rebuilt from dates
+async function rebuildStreak(ctx: MutationCtx, userId: Id<"users">, type: StreakType, dates: string[]) {
+  const state = replayStreak(dates);
+  const existing = await getStreak(ctx, userId, type);
+  if (existing && state) {
+    await ctx.db.patch(existing._id, state);
+  } else if (existing) {
+    await ctx.db.delete(existing._id);
+  } else if (state) {
+    await ctx.db.insert("streaks", { userId, type, ...state });
+  }
+
+  const oldHistory = await ctx.db
+    .query("streakHistory")
+    .withIndex("by_user_type", (q) => q.eq("userId", userId).eq("type", type))
+    .collect();
+  for (const past of oldHistory) {
+    await ctx.db.delete(past._id);
+  }
+  for (const past of pastStreaks(dates)) {
+    await ctx.db.insert("streakHistory", { userId, type, ...past });
+  }
+}
+
+const RECOMPUTE_BATCH_SIZE = 20;
+// Rows read per query while collecting a user's activity timestamps
+const TIMESTAMP_PAGE_SIZE = 500;
+
+const activitySourceValidator = v.union(v.literal("moods"), v.literal("exercises"), v.literal("messages"));
+// Each local date with how many entries fell on it
+const dateCountsValidator = v.array(v.object({ date: v.string(), count: v.number() }));
+
+type DateCounts = { date: string; count: number }[];
+
+function countDates(dates: string[]): DateCounts {
+  const counts = new Map<string, number>();
+  for (const date of dates) {
+    counts.set(date, (counts.get(date) ?? 0) + 1);
+  }
+  return [...counts].map(([date, count]) => ({ date, count }));
+}
+
+const expandDates = (counts: DateCounts): string[] =>
+  counts.flatMap(({ date, count }) => Array<string>(count).fill(date));
+
+// One-off migration: rebuild every streak and the streak history from the
+// user's moods, exercises and chat messages, in their own timezone. Mood
+// streaks were previously counted in UTC days, and exercise and check-in
+// streaks were never recorded. Schedules recomputeUserStreaks for each user
+// and itself until every user has been visited:
+//   npx convex run streaks:recomputeStreaks
+export const recomputeStreaks = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  returns: v.object({ scheduled: v.number(), isDone: v.boolean() }),
+  handler: async (ctx, args): Promise<{ scheduled: number; isDone: boolean }> => {
+    const result = await ctx.db
+      .query("users")
+      .paginate({ numItems: RECOMPUTE_BATCH_SIZE, cursor: args.cursor ?? null });
+
+    for (const user of result.page) {
+      await ctx.scheduler.runAfter(0, internal.streaks.recomputeUserStreaks, { userId: user._id });
+    }
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, internal.streaks.recomputeStreaks, {
+        cursor: result.continueCursor,
+      });
+    }
+
+    return { scheduled: result.page.length, isDone: result.isDone };
+  },
+});
+
+// Collect one user's activity a page at a time and rebuild their streaks in
+// a single mutation
+export const recomputeUserStreaks = internalAction({
+  args: { userId: v.id("users") },
+  returns: v.null(),
+  handler: async (ctx, args): Promise<null> => {
+    const user = await ctx.runQuery(api.users.getUserById, { userId: args.userId });
+    if (!user) return null;
+
+    const localDates = async (source: "moods" | "exercises" | "messages"): Promise<string[]> => {
+      const dates: string[] = [];
+      let cursor: string | null = null;
+      let isDone = false;
+      while (!isDone) {
+        const result: { timestamps: number[]; continueCursor: string; isDone: boolean } = await ctx.runQuery(
+          internal.streaks.getActivityTimestamps,
+          { userId: args.userId, source, cursor }
+        );
+        dates.push(...result.timestamps.map(timestamp => localDate(timestamp, user.timezone)));
+        cursor = result.continueCursor;
+        isDone = result.isDone;
+      }
+      return dates;
+    };
+
+    const moodDates = await localDates("moods");
+    const exerciseDates = await localDates("exercises");
+    const messageDates = await localDates("messages");
+    await ctx.runMutation(internal.streaks.rebuildUserStreaks, {
+      userId: args.userId,
+      mood: countDates(moodDates),
+      exercise: countDates(exerciseDates),
+      checkIn: countDates([...new Set([...moodDates, ...exerciseDates, ...messageDates])]),
+    });
+    return null;
+  },
+});
+
+// One page of a user's activity timestamps. Queries read whole documents, so
+// pages stay small (messages carry embeddings) and only the timestamps are
+// passed on.
+export const getActivityTimestamps = internalQuery({
+  args: {
+    userId: v.id("users"),
+    source: activitySourceValidator,
+    cursor: v.union(v.string(), v.null()),
+  },
+  returns: v.object({ timestamps: v.array(v.number()), continueCursor: v.string(), isDone: v.boolean() }),
+  handler: async (ctx, args) => {
+    const page = { numItems: TIMESTAMP_PAGE_SIZE, cursor: args.cursor };
+    if (args.source === "moods") {
+      const result = await ctx.db
+        .query("moods")
+        .withIndex("by_user", (q) => q.eq("userId", args.userId))
+        .paginate(page);
+      return { timestamps: result.page.map(mood => mood.timestamp), continueCursor: result.continueCursor, isDone: result.isDone };
+    }
+    if (args.source === "exercises") {
+      const result = await ctx.db
+        .query("exercises")
+        .withIndex("by_user", (q) => q.eq("userId", args.userId))
+        .paginate(page);
+      return {
+        timestamps: result.page.map(exercise => exercise.completedAt),
+        continueCursor: result.continueCursor,
+        isDone: result.isDone,
+      };
+    }
+    const result = await ctx.db
+      .query("messages")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .filter((q) => q.eq(q.field("role"), "user"))
+      .paginate(page);
+    return { timestamps: result.page.map(message => message.timestamp), continueCursor: result.continueCursor, isDone: result.isDone };
+  },
+});
+
+export const rebuildUserStreaks = internalMutation({
+  args: {
+    userId: v.id("users"),
+    mood: dateCountsValidator,
+    exercise: dateCountsValidator,
+    checkIn: dateCountsValidator,
+  },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    await rebuildStreak(ctx, args.userId, "mood", expandDates(args.mood));
+    await rebuildStreak(ctx, args.userId, "exercise", expandDates(args.exercise));
+    await rebuildStreak(ctx, args.userId, "check-in", expandDates(args.checkIn));
+    return null;
+  },
+});
@@ -0,0 +1,110 @@
+// @vitest-environment edge-runtime
+/// <reference types="vite/client" />
+/**
+ * Integration Tests for offline outbox replay
+ * Tests that replayed moods and exercises are deduplicated by clientId and keep the client's timestamp
+ */
+
+import { convexTest } from 'convex-test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { api } from './_generated/api';
+import schema from './schema';
+import { MAX_CLIENT_TIMESTAMP_AGE_MS, resolveClientTimestamp } from './sync';
+
+const modules = import.meta.glob('./**/*.ts');
+
+const HOUR = 60 * 60 * 1000;
+
+describe('Outbox Replay', () => {
+  let t: ReturnType<typeof convexTest>;
+
+  beforeEach(() => {
+    t = convexTest(schema, modules);
+  });
+
+  const createUser = () => t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_1' }));
+
+  describe('resolveClientTimestamp', () => {
+    const now = Date.UTC(2025, 5, 1);
+
+    it('should keep plausible client timestamps', () => {
+      expect(resolveClientTimestamp(now - 3 * HOUR, now)).toBe(now - 3 * HOUR);
+    });
+
+    it('should fall back to now for missing, future or very old timestamps', () => {
+      expect(resolveClientTimestamp(undefined, now)).toBe(now);
+      expect(resolveClientTimestamp(now + HOUR, now)).toBe(now);
+      expect(resolveClientTimestamp(now - MAX_CLIENT_TIMESTAMP_AGE_MS - 1, now)).toBe(now);
+    });
+  });
+
+  describe('recordMood', () => {
+    it('should store a replayed mood once', async () => {
+      const userId = await createUser();
+      const mood = { userId, rating: 7, clientId: 'entry-1', clientTimestamp: Date.now() - HOUR };
+
+      const first = await t.mutation(api.moods.recordMood, mood);
+      const second = await t.mutation(api.moods.recordMood, mood);
+
+      expect(second).toBe(first);
+      const moods = await t.run(ctx => ctx.db.query('moods').collect());
+      expect(moods).toHaveLength(1);
+      expect(moods[0].timestamp).toBe(mood.clientTimestamp);
+    });
+
+    it('should count a replayed mood towards the streak only once', async () => {
+      const userId = await createUser();
+      const mood = { userId, rating: 7, clientId: 'entry-1' };
+
+      await t.mutation(api.moods.recordMood, mood);
+      await t.mutation(api.moods.recordMood, mood);
+
+      const streak = await t.query(api.moods.getUserStreak, { userId, type: 'mood' });
+      expect(streak.totalEntries).toBe(1);
+    });
+
+    it('should not break a streak when an earlier day syncs late', async () => {
+      const userId = await createUser();
+      const now = Date.now();
+
+      await t.mutation(api.moods.recordMood, { userId, rating: 5, clientTimestamp: now - 24 * HOUR });
+      await t.mutation(api.moods.recordMood, { userId, rating: 6 });
+      await t.mutation(api.moods.recordMood, { userId, rating: 4, clientId: 'late', clientTimestamp: now - 72 * HOUR });
+
+      const streak = await t.query(api.moods.getUserStreak, { userId, type: 'mood' });
+      expect(streak.currentStreak).toBe(2);
+      expect(streak.totalEntries).toBe(3);
+    });
+
+    it('should keep different users\' client IDs apart', async () => {
+      const userId = await createUser();
+      const otherId = await t.run(ctx => ctx.db.insert('users', { clerkId: 'clerk_2' }));
+
+      const mine = await t.mutation(api.moods.recordMood, { userId, rating: 5, clientId: 'same' });
+      const theirs = await t.mutation(api.moods.recordMood, { userId: otherId, rating: 5, clientId: 'same' });
+
+      expect(theirs).not.toBe(mine);
+    });
+  });
+
+  describe('recordExerciseCompletion', () => {
+    it('should store a replayed exercise once with its completion time', async () => {
+      const userId = await createUser();
+      const exercise = {
+        userId,
+        type: 'breathing',
+        data: { outputs: { effectiveness: 4 } },
+        clientId: 'entry-2',
+        clientTimestamp: Date.now() - 2 * HOUR,
+      };
+
+      const first = await t.mutation(api.exercises.recordExerciseCompletion, exercise);
+      const second = await t.mutation(api.exercises.recordExerciseCompletion, exercise);
+
+      expect(second).toBe(first);
+      const exercises = await t.run(ctx => ctx.db.query('exercises').collect());
+      expect(exercises).toHaveLength(1);
+      expect(exercises[0].completedAt).toBe(exercise.clientTimestamp);
+    });
+  });
+});
@@ -0,0 +1,18 @@
+// Replay support for the client's offline outbox (src/utils/outbox.ts).
+//
+// Entries logged offline are queued on the device and sent once Convex
+// reconnects, possibly more than once if the app died before seeing the
+// result. Each carries a clientId (idempotency key) and the time it was
+// logged; mutations that accept them return the existing row for a clientId
+// they have already stored instead of inserting a duplicate.
+
+// Oldest client timestamp accepted; anything older is treated as "now"
+export const MAX_CLIENT_TIMESTAMP_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// When an entry happened: the client's clock, unless it is in the future or
+// implausibly old
+export function resolveClientTimestamp(clientTimestamp: number | undefined, now: number): number {
+  if (clientTimestamp === undefined) return now;
+  if (clientTimestamp > now || clientTimestamp < now - MAX_CLIENT_TIMESTAMP_AGE_MS) return now;
+  return clientTimestamp;
+}
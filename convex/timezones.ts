@@ -0,0 +1,76 @@
+// Local calendar days and hours for a user.
+//
+// Day boundaries (streaks, "best time of day", weekday patterns) follow the
+// user's IANA timezone from users.timezone, not the server's UTC clock, so a
+// check-in at 23:30 in Riyadh counts for that Riyadh day. Users without a
+// valid timezone fall back to UTC.
+
+export const DEFAULT_TIMEZONE = "UTC";
+
+export interface LocalTime {
+  date: string; // YYYY-MM-DD
+  hour: number; // 0-23
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      hourCycle: "h23",
+      weekday: "short",
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    formatterFor(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The user's timezone if it is a real IANA zone, otherwise UTC
+export function resolveTimezone(timezone: string | undefined): string {
+  return timezone && isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE;
+}
+
+export function localTime(timestamp: number, timezone: string | undefined): LocalTime {
+  const parts = Object.fromEntries(
+    formatterFor(resolveTimezone(timezone))
+      .formatToParts(new Date(timestamp))
+      .map(part => [part.type, part.value])
+  );
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    hour: Number(parts.hour),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+export function localDate(timestamp: number, timezone: string | undefined): string {
+  return localTime(timestamp, timezone).date;
+}
+
+// Whole calendar days from one YYYY-MM-DD date to another. Dates are compared
+// as UTC midnights, so DST changes never produce 23- or 25-hour "days".
+export function daysBetween(from: string, to: string): number {
+  const [fromYear, fromMonth, fromDay] = from.split("-").map(Number);
+  const [toYear, toMonth, toDay] = to.split("-").map(Number);
+  return Math.round(
+    (Date.UTC(toYear, toMonth - 1, toDay) - Date.UTC(fromYear, fromMonth - 1, fromDay)) / (24 * 60 * 60 * 1000)
+  );
+}
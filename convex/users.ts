@@ -1,5 +1,7 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
+import { countryFromTimezone, HOTLINE_COUNTRIES } from "./hotlines";
+import { isValidTimezone } from "./timezones";
 
 export const getUserByClerkId = query({
   args: { clerkId: v.string() },
@@ -61,6 +63,7 @@ export const completeOnboarding = mutation({
     userId: v.optional(v.id("users")),
     clerkId: v.optional(v.string()),
     language: v.string(),
+    timezone: v.optional(v.string()),
     displayName: v.optional(v.string()),
     primaryGoal: v.optional(v.string()),
     initialMood: v.optional(v.string()),
@@ -87,6 +90,8 @@ export const completeOnboarding = mutation({
     // Update user with onboarding data
     await ctx.db.patch(uid, {
       language: args.language,
+      timezone: args.timezone,
+      country: countryFromTimezone(args.timezone),
       displayName: args.displayName || undefined,
       preferences: args.preferences,
       onboardingCompleted: true,
@@ -115,6 +120,36 @@ export const completeOnboarding = mutation({
   },
 });
 
+// Let the user correct the country inferred at onboarding
+export const updateUserCountry = mutation({
+  args: {
+    userId: v.id("users"),
+    country: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const country = args.country.toUpperCase();
+    if (!HOTLINE_COUNTRIES[country]) {
+      throw new Error(`Unsupported country: ${args.country}`);
+    }
+    await ctx.db.patch(args.userId, { country });
+  },
+});
+
+// Keep the user's timezone in step with their device, so streaks and
+// insights use their local days after they travel or move
+export const updateUserTimezone = mutation({
+  args: {
+    userId: v.id("users"),
+    timezone: v.string(),
+  },
+  handler: async (ctx, args) => {
+    if (!isValidTimezone(args.timezone)) {
+      throw new Error(`Unknown timezone: ${args.timezone}`);
+    }
+    await ctx.db.patch(args.userId, { timezone: args.timezone });
+  },
+});
+
 // Migration: Consolidate onboarding fields (one-time operation)
 export const migrateOnboardingFields = mutation({
   args: {},
@@ -30,6 +30,7 @@ import { ToggleOption } from "@/components/onboarding/ToggleOption";
 import { BaseButton } from "@/components/forms/BaseButton";
 import { BaseInput } from "@/components/forms/BaseInput";
 import { IconSymbol } from "@/components/core/Icon/IconSymbol";
+import { REMINDER_TIMES } from "@/utils/reminders";
 
 interface OnboardingData {
   displayName: string;
@@ -57,13 +58,6 @@ const MOOD_OPTIONS = [
   { id: "terrible", emoji: "😢", labelKey: "mood.terrible" },
 ] as const;
 
-const REMINDER_TIMES = [
-  { id: "morning", time: "09:00", labelKey: "time.morning" },
-  { id: "afternoon", time: "14:00", labelKey: "time.afternoon" },
-  { id: "evening", time: "20:00", labelKey: "time.evening" },
-  { id: "night", time: "22:00", labelKey: "time.night" },
-] as const;
-
 export default function EnhancedOnboardingScreen() {
   const router = useRouter();
   const { user } = useUser();
@@ -135,6 +129,10 @@ export default function EnhancedOnboardingScreen() {
     onComplete: async (data) => {
       try {
         await completeOnboardingMutation({
+          clerkId: user?.id,
+          language: locale,
+          // The server infers the user's country (for local crisis hotlines) from this
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
           displayName: data.displayName,
           primaryGoal: data.primaryGoal,
           initialMood: data.initialMood,
@@ -274,8 +272,8 @@ export default function EnhancedOnboardingScreen() {
                     key={time.id}
                     time={time.time}
                     label={t(time.labelKey)}
-                    selected={formData.reminderTime === time.time}
-                    onPress={() => updateField("reminderTime", time.time)}
+                    selectedTime={formData.reminderTime}
+                    onSelect={(value) => updateField("reminderTime", value)}
                   />
                 ))}
               </View>
@@ -1,5 +1,7 @@
 import { api } from "@/convex/_generated/api";
 import { useTranslation } from "@/hooks/useLocale";
+import { useOutboxSync } from "@/hooks/useOutbox";
+import { useReminderSync } from "@/hooks/useReminders";
 import { useAuth, useUser } from "@clerk/clerk-expo";
 import { useConvexAuth, useMutation, useQuery } from "convex/react";
 import { Redirect, Tabs } from "expo-router";
@@ -32,6 +34,7 @@ export default function TabsLayout() {
   const { t } = useTranslation();
   const { colors } = useAppTheme();
   const upsertUser = useMutation(api.users.upsertUser);
+  const updateUserTimezone = useMutation(api.users.updateUserTimezone);
 
   // Ref to ensure we only attempt to create the Convex user once
   const hasAttemptedUserCreation = useRef(false);
@@ -67,6 +70,21 @@ export default function TabsLayout() {
     }
   }, [isSignedIn, isAuthenticated, user, userData, upsertUser]);
 
+  // Send moods and exercises logged while offline
+  useOutboxSync(userData?._id);
+
+  // Daily check-in reminders, rescheduled as preferences change
+  useReminderSync(userData?._id);
+
+  // Streaks and insights follow the device's timezone
+  useEffect(() => {
+    if (!userData) return;
+    const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    if (timezone && timezone !== userData.timezone) {
+      updateUserTimezone({ userId: userData._id, timezone }).catch(console.error);
+    }
+  }, [userData, updateUserTimezone]);
+
   // Wait for Convex auth to finish loading before deciding what to do
   if (isConvexLoading) {
     return null; // or a splash / loading indicator
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import { useLocale } from "@/hooks/useLocale";
 import { BaseScreen } from "@/components/layout/BaseScreen";
 import { 
@@ -10,12 +10,16 @@ import {
   RecommendationBanner,
   ExerciseQuickActions
 } from "@/components/exercises";
-import { useExerciseRecommendations } from "@/hooks/useAIActions";
-import { EXERCISES } from "@/data/exercises";
+import { useExerciseDefinitions } from "@/hooks/useExerciseDefinitions";
 import { useUserData } from "@/hooks/useUserData";
 import { useThemedGlass } from "@/hooks/useThemedGlass";
 import { useLoadingScreen } from "@/hooks/useLoadingScreen";
-import { translations } from "@/locales";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { ExerciseRecommendation } from "@/types";
+import { toExerciseCard } from "@/utils/exerciseHelpers";
+import { useQuery } from "convex/react";
+import { useLocalSearchParams, useRouter } from "expo-router";
 
 
 export default function ExercisesScreen() {
@@ -26,80 +30,75 @@ export default function ExercisesScreen() {
   const [favorites, setFavorites] = useState<Set<string>>(new Set());
   const [showQuickActions, setShowQuickActions] = useState(false);
   const [quickActionsExercise, setQuickActionsExercise] = useState<any>(null);
+  const router = useRouter();
+  // Set by an action card in the chat; links the exercise back to the conversation
+  const { start, conversationId, messageId, thought } = useLocalSearchParams<{
+    start?: string;
+    conversationId?: string;
+    messageId?: string;
+    thought?: string;
+  }>();
+  const [launchContext, setLaunchContext] = useState<{
+    conversationId?: Id<"conversations">;
+    messageId?: Id<"messages">;
+    thoughtText?: string;
+  } | null>(null);
   
   // OPTIMIZATION: Consolidated data fetching and theming
-  const { user, isDataLoading, exerciseStats, exerciseHistory, latestMood } = useUserData();
+  const { user, isDataLoading, exerciseStats, exerciseHistory } = useUserData();
   const { colors, standardGradients, cardGlass, dividerGlass } = useThemedGlass();
 
-  // Transform exercise data for ExercisePlayer
-  const transformExerciseForPlayer = (exercise: any) => {
-    if (!exercise) return null;
-    
-    // Helper to get nested value from translations
-    const getNestedValue = (locale: 'en' | 'ar', key: string): any => {
-      const keys = key.split('.');
-      let value: any = translations[locale];
-      
-      for (const k of keys) {
-        if (value && typeof value === 'object' && k in value) {
-          value = value[k];
-        } else {
-          return null;
-        }
-      }
-      return value;
-    };
-    
-    // Get title translations
-    const title = {
-      en: getNestedValue('en', exercise.titleKey) || exercise.titleKey,
-      ar: getNestedValue('ar', exercise.titleKey) || exercise.titleKey,
-    };
-    
-    // Get steps translations (preserve array structure)
-    const steps = exercise.stepsKey ? {
-      en: getNestedValue('en', exercise.stepsKey) || [],
-      ar: getNestedValue('ar', exercise.stepsKey) || [],
-    } : undefined;
-    
-    return {
-      id: exercise.id,
-      title,
-      type: exercise.type,
-      duration: exercise.duration,
-      pattern: exercise.pattern,
-      steps,
-    };
-  };
-  
-  // AI Exercise recommendations
-  const { execute: getRecommendation, data: recommendation } = useExerciseRecommendations();
+  // The authored catalog, or the built-in one until it loads (or when offline)
+  const { definitions, isLoaded } = useExerciseDefinitions();
+  const catalog = useMemo(
+    () => definitions.map(definition => ({ ...toExerciseCard(definition), definition })),
+    [definitions]
+  );
   
-  useEffect(() => {
-    // Get AI recommendation when user and mood data is available
-    if (user?._id && latestMood) {
-      getRecommendation({
-        userId: user._id,
-        currentMood: latestMood.rating,
-        recentEmotions: latestMood.factors || [],
-        language: locale,
-      });
-    }
-  }, [user?._id, latestMood, getRecommendation, locale]);
+  // Every exercise ranked for the user, best first
+  const recommendations: ExerciseRecommendation[] | undefined = useQuery(api.recommendations.getExerciseRecommendations,
+    user?._id ? { userId: user._id, language: locale, utcOffsetMinutes: -new Date().getTimezoneOffset() } : "skip"
+  );
+  const recommendation = recommendations?.[0];
   
   // Memoize filtered exercises to prevent recalculation on every render
   const filteredExercises = useMemo(() => {
     const exercises = selectedCategory === 'all' 
-      ? Object.values(EXERCISES).flat()
-      : EXERCISES[selectedCategory as keyof typeof EXERCISES] || [];
+      ? catalog
+      : catalog.filter(exercise => exercise.type === selectedCategory);
     
     // Filter out any undefined/null exercises
     return exercises.filter(exercise => exercise && exercise.id);
-  }, [selectedCategory]);
+  }, [catalog, selectedCategory]);
   
+  // Open each launch once, after the catalog loads so it plays the authored
+  // definition, and not again when the catalog later updates. The params are
+  // cleared once consumed, so the same action card can launch it again.
+  const launchedRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!start) {
+      launchedRef.current = null;
+      return;
+    }
+    const launchKey = [start, conversationId, messageId, thought].join('|');
+    if (!isLoaded || launchedRef.current === launchKey) return;
+    const exercise = catalog.find(item => item.id === start);
+    if (!exercise) return;
+    launchedRef.current = launchKey;
+    setSelectedExercise(exercise);
+    setLaunchContext({
+      conversationId: conversationId as Id<"conversations"> | undefined,
+      messageId: messageId as Id<"messages"> | undefined,
+      thoughtText: thought,
+    });
+    setShowPlayer(true);
+    router.setParams({ start: undefined, conversationId: undefined, messageId: undefined, thought: undefined });
+  }, [start, conversationId, messageId, thought, isLoaded, catalog, router]);
+
   const handleExerciseComplete = (_effectiveness?: number) => {
     setShowPlayer(false);
     setSelectedExercise(null);
+    setLaunchContext(null);
     
     // Refresh data
     if (user?._id) {
@@ -124,6 +123,7 @@ export default function ExercisesScreen() {
   }, []);
 
   const handleExercisePress = React.useCallback((exercise: any) => {
+    setLaunchContext(null);
     setSelectedExercise(exercise);
     setShowPlayer(true);
   }, []);
@@ -141,6 +141,7 @@ export default function ExercisesScreen() {
       color: "#4CAF50",
       onPress: () => {
         if (quickActionsExercise) {
+          setLaunchContext(null);
           setSelectedExercise(quickActionsExercise);
           setShowPlayer(true);
           setShowQuickActions(false);
@@ -191,13 +192,19 @@ export default function ExercisesScreen() {
     </>
   ), [colors, locale, exerciseStats, dividerGlass, cardGlass, selectedCategory]);
 
+  const handleRecommendationPress = React.useCallback((exerciseId: string) => {
+    const exercise = catalog.find(item => item.id === exerciseId);
+    if (exercise) handleExercisePress(exercise);
+  }, [catalog, handleExercisePress]);
+
   const ListFooterComponent = React.useCallback(() => (
     <RecommendationBanner
-      recommendation={recommendation}
+      recommendations={recommendations}
       standardGradients={standardGradients}
       colors={colors}
+      onSelect={handleRecommendationPress}
     />
-  ), [recommendation, standardGradients, colors]);
+  ), [recommendations, standardGradients, colors, handleRecommendationPress]);
 
   const loadingScreen = useLoadingScreen(isDataLoading);
   if (loadingScreen) return loadingScreen;
@@ -218,12 +225,16 @@ export default function ExercisesScreen() {
       
       {showPlayer && selectedExercise && user?._id ? (
         <ExercisePlayer
-          exercise={transformExerciseForPlayer(selectedExercise)}
+          exercise={selectedExercise.definition}
           userId={user._id}
+          conversationId={launchContext?.conversationId}
+          messageId={launchContext?.messageId}
+          prefill={launchContext?.thoughtText ? { thoughtText: launchContext.thoughtText } : undefined}
           onComplete={handleExerciseComplete}
           onCancel={() => {
             setShowPlayer(false);
             setSelectedExercise(null);
+            setLaunchContext(null);
           }}
         />
       ) : null}
@@ -44,11 +44,13 @@ export default function ChatScreen() {
     messageText,
     setMessageText,
     isTyping,
+    isGenerating,
     quickReplies,
     messages,
     floatingMessages,
     activeConversation,
     handleSendMessage,
+    handleCancelGeneration,
     handleAddReaction,
     loadOlderMessages,
     handleStartNewChat,
@@ -170,11 +172,7 @@ export default function ChatScreen() {
               {/* Quick Reply Suggestions for Traditional Mode */}
               <QuickReplySuggestions
                 suggestions={quickReplies}
-                onSelect={(text) => {
-                  setMessageText(text);
-                  // Auto-send the quick reply
-                  setTimeout(() => handleSendMessage(), 100);
-                }}
+                onSelect={(text) => handleSendMessage(text)}
                 mode="traditional"
                 isVisible={quickReplies.length > 0 && !isTyping}
               />
@@ -187,6 +185,8 @@ export default function ChatScreen() {
                 placeholder={t("chat.placeholder")}
                 theme={theme}
                 activeConversation={activeConversation}
+                isGenerating={isGenerating}
+                onCancelGeneration={handleCancelGeneration}
               />
               </KeyboardAvoidingView>
             </View>
@@ -13,9 +13,13 @@ import {
 } from "@/components/mood";
 import { AnimatedMoodGradient } from "@/components/animations/AnimatedMoodGradient";
 import { IconSymbol } from "@/components/core/Icon/IconSymbol";
-import { useExerciseRecommendations } from "@/hooks/useAIActions";
-import { useLocale } from "@/hooks/useLocale";
+import { useLocale, useTranslation } from "@/hooks/useLocale";
+import { useOutbox } from "@/hooks/useOutbox";
+import { api } from "@/convex/_generated/api";
+import { useQuery } from "convex/react";
 import { getRelativeTime } from "@/utils/date";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import { ExerciseRecommendation } from "@/types";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { ScrollView, StyleSheet, View, TouchableOpacity, Text } from "react-native";
 // OPTIMIZATION: Consolidated imports following LEVER framework
@@ -35,13 +39,20 @@ import Animated, {
 
 export default function MoodScreen() {
   const { locale } = useLocale();
+  const { t } = useTranslation();
   const [showTracker, setShowTracker] = useState(false);
+  // Set by the daily check-in reminder's deep link
+  const { track } = useLocalSearchParams<{ track?: string }>();
   const [showInsights, setShowInsights] = useState(false);
   const [viewMode, setViewMode] = useState<'chart' | 'calendar'>('chart');
   const [currentMonth, setCurrentMonth] = useState(new Date());
   
   // OPTIMIZATION: Consolidated data fetching and theming
   const { user, isDataLoading, moodStats, latestMood, moodHistory } = useUserData();
+  const { pendingMoods, failedEntries, retryFailed, discardFailed } = useOutbox(user?._id);
+  const moodAnalytics = useQuery(api.analytics.getMoodAnalytics,
+    user?._id ? { userId: user._id, utcOffsetMinutes: -new Date().getTimezoneOffset() } : "skip"
+  );
   const { colors } = useThemedGlass();
   
   // Animation values for enhanced interactions
@@ -52,6 +63,10 @@ export default function MoodScreen() {
   const cardAnimation2 = useSharedValue(0);
   const cardAnimations = useMemo(() => [cardAnimation0, cardAnimation1, cardAnimation2], [cardAnimation0, cardAnimation1, cardAnimation2]);
   
+  useEffect(() => {
+    if (track) setShowTracker(true);
+  }, [track]);
+
   // Animate cards on mount
   useEffect(() => {
     if (showInsights) {
@@ -65,8 +80,11 @@ export default function MoodScreen() {
     }
   }, [showInsights, cardAnimations]);
   
-  // AI Exercise recommendations hook
-  const { execute: getExerciseRecommendation, data: exerciseRecommendation } = useExerciseRecommendations();
+  // Top exercise for how the user feels now; refreshes as new moods come in
+  const router = useRouter();
+  const exerciseRecommendations: ExerciseRecommendation[] | undefined = useQuery(api.recommendations.getExerciseRecommendations,
+    user?._id ? { userId: user._id, language: locale, utcOffsetMinutes: -new Date().getTimezoneOffset(), limit: 1 } : "skip"
+  );
 
   // Enhanced button press animations - using useCallback properly for React Compiler
   const handleAddButtonPress = useCallback(() => {
@@ -118,15 +136,6 @@ export default function MoodScreen() {
   
   const handleMoodComplete = () => {
     setShowTracker(false);
-    // Fetch AI exercise recommendation based on new mood
-    if (user?._id && latestMood) {
-      getExerciseRecommendation({
-        userId: user._id,
-        currentMood: latestMood.rating,
-        recentEmotions: latestMood.factors || [],
-        language: locale,
-      });
-    }
   };
   
   // Format last mood entry time using centralized utility
@@ -202,17 +211,36 @@ export default function MoodScreen() {
         {/* Streak Badge */}
         {user?._id ? (
           <View style={styles.streakContainer}>
-            <StreakBadge 
-              userId={user._id} 
-              type="mood" 
-              variant="compact"
-              showAnimation={true}
-            />
+            {(["mood", "exercise", "check-in"] as const).map(type => (
+              <StreakBadge
+                key={type}
+                userId={user._id}
+                type={type}
+                variant="compact"
+                showAnimation={true}
+              />
+            ))}
           </View>
         ) : null}
         
+        {/* Entries the server kept rejecting */}
+        {failedEntries.length > 0 ? (
+          <View style={[styles.outboxFailure, { borderColor: colors.interactive.destructive }]}>
+            <Text style={[styles.outboxFailureText, { color: colors.text.primary }]}>
+              {t('outbox.failed').replace('{count}', String(failedEntries.length))}
+            </Text>
+            <TouchableOpacity onPress={retryFailed} accessibilityRole="button">
+              <Text style={[styles.outboxFailureAction, { color: colors.interactive.primary }]}>{t('outbox.retry')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={discardFailed} accessibilityRole="button">
+              <Text style={[styles.outboxFailureAction, { color: colors.interactive.destructive }]}>{t('outbox.discard')}</Text>
+            </TouchableOpacity>
+          </View>
+        ) : null}
+
         {/* Last Mood Card */}
         <LastMoodCard
+          userId={user?._id}
           latestMood={latestMood}
           locale={locale}
           lastMoodTime={getLastMoodTime()}
@@ -221,8 +249,9 @@ export default function MoodScreen() {
         
         {/* AI Exercise Recommendation */}
         <ExerciseRecommendationCard
-          exerciseRecommendation={exerciseRecommendation}
+          exerciseRecommendation={exerciseRecommendations?.[0]}
           locale={locale}
+          onTryExercise={(exerciseId) => router.push(`/(tabs)/exercises?start=${exerciseId}`)}
         />
         
         {/* View Toggle */}
@@ -273,10 +302,11 @@ export default function MoodScreen() {
           ) : (
             <View style={styles.calendarContainer}>
               <MoodCalendar
-                moodEntries={moodHistory.map(mood => ({
+                moodEntries={[...moodHistory, ...pendingMoods].map(mood => ({
                   date: new Date(mood.timestamp).toISOString().split('T')[0],
                   mood: mood.rating,
-                  emoji: mood.emoji || '😐'
+                  emoji: mood.emoji || '😐',
+                  pending: 'id' in mood,
                 }))}
                 currentMonth={currentMonth}
                 onMonthChange={setCurrentMonth}
@@ -288,6 +318,7 @@ export default function MoodScreen() {
         {/* Insights Section */}
         <InsightsSection
           insightCards={insightCards}
+          moodEffects={moodAnalytics?.insights}
           showInsights={showInsights}
           onToggleInsights={() => setShowInsights(!showInsights)}
           cardAnimatedStyles={cardAnimatedStyles}
@@ -316,9 +347,29 @@ const styles = StyleSheet.create({
     paddingBottom: 10,
   },
   streakContainer: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 8,
     paddingHorizontal: 20,
     paddingVertical: 10,
+  },
+  outboxFailure: {
+    flexDirection: 'row',
     alignItems: 'center',
+    gap: 12,
+    marginHorizontal: 20,
+    marginBottom: 12,
+    padding: 12,
+    borderWidth: 1,
+    borderRadius: 12,
+  },
+  outboxFailureText: {
+    flex: 1,
+    fontSize: 14,
+  },
+  outboxFailureAction: {
+    fontSize: 14,
+    fontWeight: '600',
   },
   viewToggleContainer: {
     flexDirection: 'row',
@@ -1,14 +1,16 @@
 import { FormList, FormSection, FormText } from "@/components/forms";
-import { ProfileAvatar, ProgressOverview } from "@/components/profile";
+import { AssessmentTrendCard, ProfileAvatar, ProgressOverview } from "@/components/profile";
 import { api } from "@/convex/_generated/api";
 import { useLocale, useTranslation } from "@/hooks/useLocale";
 import { useAppTheme } from "@/theme";
 import { useAuthState } from "@/hooks/useAuthState";
-import { useQuery } from "convex/react";
+import { useAction, useQuery } from "convex/react";
 import { useRouter } from "expo-router";
 import { useEffect, useState } from "react";
-import { ActivityIndicator, LogBox, SafeAreaView, ScrollView, StyleSheet, TouchableOpacity, View } from "react-native";
+import { ActivityIndicator, Alert, LogBox, SafeAreaView, ScrollView, StyleSheet, TouchableOpacity, View } from "react-native";
 import { useButtonPressAnimation } from '@/hooks/animations';
+import { getDeviceRegion } from "@/utils/helpers";
+import { clearOutbox } from "@/utils/outbox";
 
 export default function ProfileScreen() {
   const { signOut, clerkUser, convexUser: user, email } = useAuthState();
@@ -17,6 +19,8 @@ export default function ProfileScreen() {
   const { locale } = useLocale();
   const { colors, styles } = useAppTheme();
   const [showFullStats, setShowFullStats] = useState(false);
+  const [isDeletingAccount, setIsDeletingAccount] = useState(false);
+  const deleteAccount = useAction(api.accounts.deleteAccount);
   
   // Button press animation for interactive elements
   const { animatedStyle: sectionHeaderStyle, handlePressIn, handlePressOut } = useButtonPressAnimation();
@@ -39,11 +43,48 @@ export default function ProfileScreen() {
     user?._id ? { userId: user._id } : "skip"
   );
 
+  // PHQ-9 / GAD-7 results and whether a retake is due
+  const assessments = useQuery(api.assessments.getAssessmentOverview,
+    user?._id ? { userId: user._id } : "skip"
+  );
+
+  // Local crisis lines for the user's country (international lines when unknown)
+  const hotlineDirectory = useQuery(api.hotlines.getRankedHotlines,
+    user?._id ? { country: user.country ?? getDeviceRegion(), language: locale, limit: 1 } : "skip"
+  );
+
   const handleSignOut = async () => {
+    // Moods and exercises still queued on this device belong to this account
+    if (user?._id) clearOutbox(user._id);
     await signOut();
     router.replace("/(auth)/welcome");
   };
 
+  const handleDeleteAccount = () => {
+    if (!user?._id || isDeletingAccount) return;
+    Alert.alert(t("accountDeletion.confirmTitle"), t("accountDeletion.confirmMessage"), [
+      { text: t("cancel"), style: "cancel" },
+      {
+        text: t("accountDeletion.confirm"),
+        style: "destructive",
+        onPress: async () => {
+          setIsDeletingAccount(true);
+          try {
+            // Nothing queued may be replayed into the account being deleted
+            clearOutbox(user._id);
+            await deleteAccount({ userId: user._id });
+            await handleSignOut();
+          } catch (error) {
+            console.error("Account deletion failed:", error);
+            Alert.alert(t("accountDeletion.title"), t("accountDeletion.failed"));
+          } finally {
+            setIsDeletingAccount(false);
+          }
+        },
+      },
+    ]);
+  };
+
   const content = {
     profile: t("profile.title"),
     settings: t("profile.settings"),
@@ -136,13 +177,48 @@ export default function ProfileScreen() {
           locale={locale}
         />
 
+        {/* Self-assessment trends */}
+        <AssessmentTrendCard
+          assessments={assessments}
+          locale={locale}
+          onStart={(questionnaireId) => router.push(`/assessment?id=${questionnaireId}`)}
+        />
+
         <FormList navigationTitle={content.profile}>
+          <FormSection>
+            <TouchableOpacity onPress={() => router.push('/journal')}><FormText systemImage="book">{t("journal.title")}</FormText></TouchableOpacity>
+            <TouchableOpacity onPress={() => router.push('/search')}><FormText systemImage="magnifyingglass">{t("search.title")}</FormText></TouchableOpacity>
+          </FormSection>
+
           <FormSection title={content.settings}>
             <TouchableOpacity onPress={() => router.push('/(settings)/preferences' as any)}><FormText systemImage="gearshape">{content.preferences}</FormText></TouchableOpacity>
-            <TouchableOpacity onPress={() => router.push('/(settings)/notifications' as any)}><FormText systemImage="bell">{content.notifications}</FormText></TouchableOpacity>
+            <TouchableOpacity onPress={() => router.push('/reminders')}><FormText systemImage="bell">{content.notifications}</FormText></TouchableOpacity>
             <TouchableOpacity onPress={() => router.push('/(settings)/privacy' as any)}><FormText systemImage="hand.raised">{content.privacy}</FormText></TouchableOpacity>
           </FormSection>
 
+          <FormSection title={t("crisis.contacts.title")}>
+            <TouchableOpacity onPress={() => router.push('/emergency-contacts')}><FormText systemImage="person.2.fill">{t("crisis.contacts.manage")}</FormText></TouchableOpacity>
+            <TouchableOpacity onPress={() => router.push('/crisis')}>
+              <FormText systemImage="phone.fill">
+                {hotlineDirectory?.countryName && !hotlineDirectory.isFallback
+                  ? t("crisis.hotlines.forCountry").replace("{country}", hotlineDirectory.countryName)
+                  : t("crisis.needHelp")}
+              </FormText>
+            </TouchableOpacity>
+          </FormSection>
+
+          <FormSection title={t("dataExport.section")}>
+            <TouchableOpacity onPress={() => router.push('/progress-report')}><FormText systemImage="doc.richtext">{t("progressReport.title")}</FormText></TouchableOpacity>
+            <TouchableOpacity onPress={() => router.push('/sharing')}><FormText systemImage="person.badge.key">{t("sharing.title")}</FormText></TouchableOpacity>
+            <TouchableOpacity onPress={() => router.push('/data-export')}><FormText systemImage="square.and.arrow.up">{t("dataExport.title")}</FormText></TouchableOpacity>
+            <TouchableOpacity onPress={() => router.push('/encryption')}><FormText systemImage="lock">{t("encryption.title")}</FormText></TouchableOpacity>
+            <TouchableOpacity onPress={handleDeleteAccount} disabled={isDeletingAccount}>
+              <FormText systemImage="trash" style={{ color: colors.interactive.destructive }}>
+                {isDeletingAccount ? t("accountDeletion.deleting") : t("accountDeletion.title")}
+              </FormText>
+            </TouchableOpacity>
+          </FormSection>
+
           <FormSection>
             <TouchableOpacity onPress={() => router.push('/(settings)/help' as any)}><FormText systemImage="questionmark.circle">{content.help}</FormText></TouchableOpacity>
             <TouchableOpacity onPress={() => router.push('/(settings)/about' as any)}><FormText systemImage="info.circle">{content.about}</FormText></TouchableOpacity>
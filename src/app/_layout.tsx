@@ -74,6 +74,19 @@ export default function RootLayout() {
                     <Stack.Screen name="index" options={{ headerShown: false }} />
                     <Stack.Screen name="(auth)" options={{ headerShown: false }} />
                     <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+                    <Stack.Screen name="crisis" options={{ presentation: "modal", headerShown: false }} />
+                    <Stack.Screen name="emergency-contacts" />
+                    <Stack.Screen name="data-export" />
+                    <Stack.Screen name="encryption" />
+                    <Stack.Screen name="mood-factors" />
+                    <Stack.Screen name="reminders" />
+                    <Stack.Screen name="assessment" />
+                    <Stack.Screen name="progress-report" />
+                    <Stack.Screen name="sharing" />
+                    <Stack.Screen name="share/[token]" />
+                    <Stack.Screen name="journal" />
+                    <Stack.Screen name="journal-entry" />
+                    <Stack.Screen name="search" />
                     <Stack.Screen name="+not-found" />
                   </Stack>
                 </ClerkLoaded>
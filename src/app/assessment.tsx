@@ -0,0 +1,221 @@
+import { api } from "@/convex/_generated/api";
+import { useAuthState } from "@/hooks/useAuthState";
+import { useTranslation } from "@/hooks/useLocale";
+import { useAppTheme } from "@/theme";
+import { useMutation, useQuery } from "convex/react";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+interface LocalizedText {
+  en: string;
+  ar: string;
+}
+
+interface Questionnaire {
+  name: string;
+  title: LocalizedText;
+  instructions: LocalizedText;
+  items: { id: string; text: LocalizedText }[];
+  options: { value: number; label: LocalizedText }[];
+}
+
+interface AssessmentResult {
+  totalScore: number;
+  maxScore: number;
+  severityLabel: LocalizedText;
+}
+
+export default function AssessmentScreen() {
+  const { t, locale } = useTranslation();
+  const { colors } = useAppTheme();
+  const router = useRouter();
+  const { convexUser: user } = useAuthState();
+  const { id } = useLocalSearchParams<{ id?: string }>();
+  const questionnaireId = id === "gad7" ? "gad7" : "phq9";
+
+  const questionnaire: Questionnaire | undefined = useQuery(api.assessments.getQuestionnaire, { questionnaireId });
+  const submitAssessment = useMutation(api.assessments.submitAssessment);
+  const [answers, setAnswers] = useState<(number | undefined)[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [result, setResult] = useState<AssessmentResult | null>(null);
+
+  const textAlign = locale === "ar" ? "right" : "left";
+  const localized = (text: LocalizedText) => (locale === "ar" ? text.ar : text.en);
+
+  const handleSubmit = async () => {
+    if (!user?._id || !questionnaire) return;
+    const complete = questionnaire.items.map((_, i) => answers[i]);
+    if (complete.some((answer) => answer === undefined)) {
+      Alert.alert(localized(questionnaire.title), t("assessments.answerAll"));
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const submitted = await submitAssessment({
+        userId: user._id,
+        questionnaireId,
+        answers: complete as number[],
+      });
+      // Thoughts of self-harm go straight to crisis support
+      if (submitted.routeToCrisis) {
+        router.replace("/crisis");
+        return;
+      }
+      setResult(submitted);
+    } catch (error) {
+      console.error("Submitting assessment failed:", error);
+      Alert.alert(localized(questionnaire.title), t("assessments.failed"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={[localStyles.container, { backgroundColor: colors.background.primary }]}>
+      <Stack.Screen options={{ title: questionnaire?.name ?? "" }} />
+      {!questionnaire ? (
+        <View style={[localStyles.container, localStyles.centered]}>
+          <ActivityIndicator color={colors.interactive.primary} />
+        </View>
+      ) : result ? (
+        <View style={[localStyles.container, localStyles.centered, localStyles.content]}>
+          <Text style={[localStyles.title, { color: colors.text.primary }]}>
+            {t("assessments.resultTitle")}
+          </Text>
+          <Text style={[localStyles.severity, { color: colors.interactive.primary }]}>
+            {localized(result.severityLabel)}
+          </Text>
+          <Text style={[localStyles.description, { color: colors.text.secondary }]}>
+            {t("assessments.score")
+              .replace("{score}", String(result.totalScore))
+              .replace("{max}", String(result.maxScore))}
+          </Text>
+          <Text style={[localStyles.description, { color: colors.text.tertiary, textAlign: "center" }]}>
+            {t("assessments.disclaimer")}
+          </Text>
+          <TouchableOpacity
+            style={[localStyles.button, { backgroundColor: colors.interactive.primary }]}
+            onPress={() => router.back()}
+          >
+            <Text style={[localStyles.buttonText, { color: colors.text.inverse }]}>{t("assessments.done")}</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={localStyles.content}>
+          <Text style={[localStyles.title, { color: colors.text.primary, textAlign }]}>
+            {localized(questionnaire.title)}
+          </Text>
+          <Text style={[localStyles.description, { color: colors.text.secondary, textAlign }]}>
+            {localized(questionnaire.instructions)}
+          </Text>
+
+          {questionnaire.items.map((item, itemIndex) => (
+            <View key={item.id} style={localStyles.item}>
+              <Text style={[localStyles.itemText, { color: colors.text.primary, textAlign }]}>
+                {`${itemIndex + 1}. ${localized(item.text)}`}
+              </Text>
+              {questionnaire.options.map((option) => {
+                const isSelected = answers[itemIndex] === option.value;
+                return (
+                  <TouchableOpacity
+                    key={option.value}
+                    onPress={() => {
+                      const next = [...answers];
+                      next[itemIndex] = option.value;
+                      setAnswers(next);
+                    }}
+                    style={[
+                      localStyles.option,
+                      {
+                        borderColor: isSelected ? colors.interactive.primary : colors.text.tertiary,
+                        backgroundColor: isSelected ? colors.interactive.primary : "transparent",
+                      },
+                    ]}
+                  >
+                    <Text style={{ color: isSelected ? colors.text.inverse : colors.text.primary, textAlign }}>
+                      {localized(option.label)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          ))}
+
+          <Text style={[localStyles.description, { color: colors.text.tertiary, textAlign }]}>
+            {t("assessments.disclaimer")}
+          </Text>
+          <TouchableOpacity
+            style={[localStyles.button, { backgroundColor: colors.interactive.primary, opacity: isSubmitting ? 0.6 : 1 }]}
+            onPress={handleSubmit}
+            disabled={isSubmitting}
+          >
+            <Text style={[localStyles.buttonText, { color: colors.text.inverse }]}>{t("assessments.submit")}</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const localStyles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 20,
+    gap: 12,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+  },
+  severity: {
+    fontSize: 28,
+    fontWeight: '700',
+  },
+  description: {
+    fontSize: 15,
+    lineHeight: 21,
+  },
+  item: {
+    gap: 8,
+    marginTop: 8,
+  },
+  itemText: {
+    fontSize: 16,
+    fontWeight: '500',
+    lineHeight: 22,
+  },
+  option: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+  },
+  button: {
+    borderRadius: 14,
+    paddingVertical: 14,
+    paddingHorizontal: 24,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
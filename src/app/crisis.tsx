@@ -0,0 +1,271 @@
+import { PrimaryButton, SecondaryButton } from "@/components/forms";
+import { IconSymbol } from "@/components/core/Icon/IconSymbol";
+import { api } from "@/convex/_generated/api";
+import { Doc } from "@/convex/_generated/dataModel";
+import { useAuthState } from "@/hooks/useAuthState";
+import { useTranslation } from "@/hooks/useLocale";
+import { useAppTheme } from "@/theme";
+import { getDeviceRegion } from "@/utils/helpers";
+import { useMutation, useQuery } from "convex/react";
+import { useRouter } from "expo-router";
+import React, { useCallback, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Linking,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+// Only surface the escalation status for a crisis that just happened
+const RECENT_EVENT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export default function CrisisScreen() {
+  const router = useRouter();
+  const { t, locale } = useTranslation();
+  const { colors } = useAppTheme();
+  const { convexUser: user } = useAuthState();
+  const [showRegions, setShowRegions] = useState(false);
+  // Country set at onboarding (or picked below), else the device region
+  const country = user?.country ?? getDeviceRegion();
+
+  const directory = useQuery(api.hotlines.getRankedHotlines, { country, language: locale });
+  const hotlines = directory?.hotlines;
+  const countries = useQuery(api.hotlines.getHotlineCountries, showRegions ? { language: locale } : "skip");
+  const updateCountry = useMutation(api.users.updateUserCountry);
+
+  const latestEvent = useQuery(api.crisis.getLatestCrisisEvent,
+    user?._id ? { userId: user._id } : "skip"
+  );
+  const recentEvent = latestEvent && Date.now() - latestEvent.detectedAt < RECENT_EVENT_WINDOW_MS
+    ? latestEvent
+    : null;
+
+  const handleContact = useCallback(async (hotline: Doc<"resources">) => {
+    try {
+      await Linking.openURL(hotline.phone ? `tel:${hotline.phone.replace(/\s/g, "")}` : hotline.url!);
+    } catch {
+      Alert.alert(t("crisis.callError.title"), t("crisis.callError.message"));
+    }
+  }, [t]);
+
+  const handleSelectCountry = async (code: string) => {
+    setShowRegions(false);
+    if (user?._id) {
+      await updateCountry({ userId: user._id, country: code });
+    }
+  };
+
+  const textAlign = locale === "ar" ? "right" : "left";
+
+  return (
+    <SafeAreaView style={[localStyles.container, { backgroundColor: colors.background.primary }]}>
+      <ScrollView contentContainerStyle={localStyles.content}>
+        <Text style={[localStyles.title, { color: colors.text.primary, textAlign }]}>
+          {t("crisis.modal.title")}
+        </Text>
+        <Text style={[localStyles.subtitle, { color: colors.text.secondary, textAlign }]}>
+          {t("crisis.modal.subtitle")}
+        </Text>
+
+        {recentEvent?.status === "notified" && recentEvent.contactName ? (
+          <View style={[localStyles.banner, { backgroundColor: colors.background.secondary }]}>
+            <IconSymbol name="person.2.fill" size={20} color={colors.interactive.primary} />
+            <Text style={[localStyles.bannerText, { color: colors.text.primary, textAlign }]}>
+              {t("crisis.escalation.notified").replace("{name}", recentEvent.contactName)}
+            </Text>
+          </View>
+        ) : null}
+        {recentEvent?.status === "failed" || recentEvent?.status === "not-configured" ? (
+          <View style={[localStyles.banner, { backgroundColor: colors.background.secondary }]}>
+            <IconSymbol name="person.2.fill" size={20} color={colors.interactive.warning} />
+            <Text style={[localStyles.bannerText, { color: colors.text.primary, textAlign }]}>
+              {t("crisis.escalation.failed")}
+            </Text>
+          </View>
+        ) : null}
+
+        <Text style={[localStyles.sectionTitle, { color: colors.text.primary, textAlign }]}>
+          {t("crisis.hotlines.title")}
+        </Text>
+        {directory ? (
+          <View style={localStyles.regionRow}>
+            <Text style={[localStyles.regionText, { color: colors.text.secondary, textAlign }]}>
+              {directory.isFallback || !directory.countryName
+                ? t("crisis.hotlines.international")
+                : t("crisis.hotlines.forCountry").replace("{country}", directory.countryName)}
+            </Text>
+            {user ? (
+              <TouchableOpacity onPress={() => setShowRegions(!showRegions)}>
+                <Text style={{ color: colors.interactive.primary }}>{t("crisis.hotlines.changeRegion")}</Text>
+              </TouchableOpacity>
+            ) : null}
+          </View>
+        ) : null}
+        {showRegions && countries ? (
+          <View style={localStyles.regions}>
+            {countries.map((option: { code: string; name: string }) => (
+              <TouchableOpacity
+                key={option.code}
+                onPress={() => handleSelectCountry(option.code)}
+                style={[
+                  localStyles.regionChip,
+                  {
+                    borderColor: colors.system.border,
+                    backgroundColor: option.code === directory?.country
+                      ? colors.interactive.primary
+                      : colors.background.secondary,
+                  },
+                ]}
+              >
+                <Text style={{ color: option.code === directory?.country ? colors.text.inverse : colors.text.primary }}>
+                  {option.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        ) : null}
+
+        {hotlines === undefined ? (
+          <ActivityIndicator color={colors.interactive.primary} />
+        ) : hotlines.length === 0 ? (
+          <Text style={[localStyles.subtitle, { color: colors.text.secondary, textAlign }]}>
+            {t("crisis.hotlines.empty")}
+          </Text>
+        ) : (
+          hotlines.map((hotline: Doc<"resources">) => (
+            <TouchableOpacity
+              key={hotline._id}
+              disabled={!hotline.phone && !hotline.url}
+              onPress={() => handleContact(hotline)}
+              style={[
+                localStyles.hotline,
+                { backgroundColor: colors.background.secondary, borderColor: colors.system.border },
+              ]}
+              accessibilityRole="button"
+              accessibilityLabel={`${t("crisis.hotlines.call")} ${hotline.title}`}
+            >
+              <View style={localStyles.hotlineInfo}>
+                <Text style={[localStyles.hotlineTitle, { color: colors.text.primary, textAlign }]}>
+                  {hotline.title}
+                </Text>
+                <Text style={[localStyles.hotlineDescription, { color: colors.text.secondary, textAlign }]}>
+                  {hotline.description}
+                </Text>
+              </View>
+              {hotline.phone ? (
+                <View style={localStyles.callButton}>
+                  <IconSymbol name="phone.fill" size={18} color={colors.interactive.destructive} />
+                  <Text style={[localStyles.phone, { color: colors.interactive.destructive }]}>
+                    {hotline.phone}
+                  </Text>
+                </View>
+              ) : null}
+            </TouchableOpacity>
+          ))
+        )}
+
+        <View style={localStyles.actions}>
+          <SecondaryButton
+            title={t("crisis.contacts.manage")}
+            onPress={() => router.push("/emergency-contacts")}
+            fullWidth
+          />
+          <PrimaryButton title={t("common.close")} onPress={() => router.back()} fullWidth />
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const localStyles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    gap: 12,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+  },
+  subtitle: {
+    fontSize: 16,
+    lineHeight: 22,
+  },
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    padding: 14,
+    borderRadius: 14,
+  },
+  bannerText: {
+    flex: 1,
+    fontSize: 15,
+    lineHeight: 20,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginTop: 8,
+  },
+  regionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  regionText: {
+    flex: 1,
+    fontSize: 14,
+  },
+  regions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  regionChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+  },
+  hotline: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    gap: 12,
+  },
+  hotlineInfo: {
+    flex: 1,
+    gap: 4,
+  },
+  hotlineTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  hotlineDescription: {
+    fontSize: 14,
+    lineHeight: 19,
+  },
+  callButton: {
+    alignItems: 'center',
+    gap: 4,
+  },
+  phone: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  actions: {
+    marginTop: 16,
+    gap: 12,
+  },
+});
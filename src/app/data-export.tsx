@@ -0,0 +1,161 @@
+import { PrimaryButton } from "@/components/forms";
+import { IconSymbol } from "@/components/core/Icon/IconSymbol";
+import { api } from "@/convex/_generated/api";
+import { useAuthState } from "@/hooks/useAuthState";
+import { useTranslation } from "@/hooks/useLocale";
+import { useAppTheme } from "@/theme";
+import { formatDateTime } from "@/utils/helpers";
+import { useAction, useQuery } from "convex/react";
+import { Stack } from "expo-router";
+import React, { useState } from "react";
+import {
+  Alert,
+  Linking,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+interface ExportFileLink {
+  name: string;
+  size: number;
+  url: string | null;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function DataExportScreen() {
+  const { t, locale } = useTranslation();
+  const { colors } = useAppTheme();
+  const { convexUser: user } = useAuthState();
+  const [isExporting, setIsExporting] = useState(false);
+
+  const latestExport = useQuery(api.dataExport.getLatestDataExport,
+    user?._id ? { userId: user._id } : "skip"
+  );
+  const exportUserData = useAction(api.dataExport.exportUserData);
+
+  const textAlign = locale === "ar" ? "right" : "left";
+
+  const handleExport = async () => {
+    if (!user?._id) return;
+    setIsExporting(true);
+    try {
+      await exportUserData({ userId: user._id });
+    } catch (error) {
+      console.error("Data export failed:", error);
+      Alert.alert(t("dataExport.title"), t("dataExport.failed"));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleDownload = async (file: ExportFileLink) => {
+    if (!file.url) return;
+    try {
+      await Linking.openURL(file.url);
+    } catch {
+      Alert.alert(t("dataExport.title"), t("dataExport.downloadError"));
+    }
+  };
+
+  const isPending = isExporting || latestExport?.status === "pending";
+
+  return (
+    <SafeAreaView style={[localStyles.container, { backgroundColor: colors.background.primary }]}>
+      <Stack.Screen options={{ title: t("dataExport.title") }} />
+      <ScrollView contentContainerStyle={localStyles.content}>
+        <Text style={[localStyles.description, { color: colors.text.secondary, textAlign }]}>
+          {t("dataExport.description")}
+        </Text>
+
+        {latestExport?.status === "ready" && latestExport.completedAt ? (
+          <>
+            <Text style={[localStyles.sectionTitle, { color: colors.text.primary, textAlign }]}>
+              {t("dataExport.readyOn").replace("{date}", formatDateTime(latestExport.completedAt, locale))}
+            </Text>
+            {latestExport.files.map((file: ExportFileLink) => (
+              <TouchableOpacity
+                key={file.name}
+                onPress={() => handleDownload(file)}
+                style={[localStyles.file, { backgroundColor: colors.background.secondary, borderColor: colors.system.border }]}
+                accessibilityRole="button"
+              >
+                <IconSymbol name="square.and.arrow.up" size={20} color={colors.interactive.primary} />
+                <View style={localStyles.fileInfo}>
+                  <Text style={[localStyles.fileName, { color: colors.text.primary, textAlign }]}>{file.name}</Text>
+                  <Text style={[localStyles.fileSize, { color: colors.text.secondary, textAlign }]}>
+                    {formatSize(file.size)}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            ))}
+          </>
+        ) : null}
+
+        {latestExport?.status === "failed" ? (
+          <Text style={[localStyles.description, { color: colors.interactive.destructive, textAlign }]}>
+            {t("dataExport.failed")}
+          </Text>
+        ) : null}
+
+        <PrimaryButton
+          title={isPending ? t("dataExport.preparing") : t("dataExport.request")}
+          onPress={handleExport}
+          loading={isPending}
+          disabled={!user || isPending}
+          fullWidth
+          style={localStyles.button}
+        />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const localStyles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    gap: 12,
+  },
+  description: {
+    fontSize: 15,
+    lineHeight: 21,
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    marginTop: 8,
+  },
+  file: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 14,
+    borderRadius: 14,
+    borderWidth: 1,
+    gap: 12,
+  },
+  fileInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  fileName: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  fileSize: {
+    fontSize: 13,
+  },
+  button: {
+    marginTop: 12,
+  },
+});
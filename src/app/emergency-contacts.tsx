@@ -0,0 +1,267 @@
+import { BaseInput, PrimaryButton } from "@/components/forms";
+import { Switch } from "@/components/core";
+import { api } from "@/convex/_generated/api";
+import { Doc } from "@/convex/_generated/dataModel";
+import { useAuthState } from "@/hooks/useAuthState";
+import { useTranslation } from "@/hooks/useLocale";
+import { useAppTheme } from "@/theme";
+import { validateEmail, validatePhone } from "@/utils/helpers";
+import { useMutation, useQuery } from "convex/react";
+import { Stack } from "expo-router";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+type Channel = "sms" | "email";
+
+export default function EmergencyContactsScreen() {
+  const { t, locale } = useTranslation();
+  const { colors } = useAppTheme();
+  const { convexUser: user } = useAuthState();
+
+  const contacts = useQuery(api.emergencyContacts.getUserEmergencyContacts,
+    user?._id ? { userId: user._id } : "skip"
+  );
+  const addContact = useMutation(api.emergencyContacts.addEmergencyContact);
+  const deleteContact = useMutation(api.emergencyContacts.deleteEmergencyContact);
+  const setConsent = useMutation(api.emergencyContacts.setEscalationConsent);
+
+  const [name, setName] = useState("");
+  const [phone, setPhone] = useState("");
+  const [email, setEmail] = useState("");
+  const [relationship, setRelationship] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const canAdd = name.trim().length > 0 && validatePhone(phone) && (!email || validateEmail(email));
+  const textAlign = locale === "ar" ? "right" : "left";
+
+  const handleAdd = async () => {
+    if (!user?._id || !canAdd) return;
+    setIsSaving(true);
+    try {
+      await addContact({
+        userId: user._id,
+        name: name.trim(),
+        phone: phone.trim(),
+        email: email.trim() || undefined,
+        relationship: relationship.trim(),
+        // The first contact becomes the one notified during a crisis
+        isPrimary: !contacts || contacts.length === 0,
+      });
+      setName("");
+      setPhone("");
+      setEmail("");
+      setRelationship("");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateConsent = async (contact: Doc<"emergencyContacts">, notifyOnCrisis: boolean, channels: Channel[]) => {
+    try {
+      await setConsent({
+        contactId: contact._id,
+        notifyOnCrisis: notifyOnCrisis && channels.length > 0,
+        channels,
+      });
+    } catch (error) {
+      Alert.alert(t("crisis.contacts.title"), error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const toggleChannel = (contact: Doc<"emergencyContacts">, channel: Channel, enabled: boolean) => {
+    const current = contact.escalationPolicy?.channels ?? [];
+    const channels = enabled ? [...current, channel] : current.filter(c => c !== channel);
+    updateConsent(contact, true, channels);
+  };
+
+  if (!user || contacts === undefined) {
+    return (
+      <SafeAreaView style={[localStyles.container, localStyles.centered, { backgroundColor: colors.background.primary }]}>
+        <Stack.Screen options={{ title: t("crisis.contacts.title") }} />
+        <ActivityIndicator size="large" color={colors.interactive.primary} />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={[localStyles.container, { backgroundColor: colors.background.primary }]}>
+      <Stack.Screen options={{ title: t("crisis.contacts.title") }} />
+      <ScrollView contentContainerStyle={localStyles.content} keyboardShouldPersistTaps="handled">
+        {contacts.length === 0 ? (
+          <Text style={[localStyles.description, { color: colors.text.secondary, textAlign }]}>
+            {t("crisis.contacts.empty")}
+          </Text>
+        ) : null}
+
+        {contacts.map((contact: Doc<"emergencyContacts">) => {
+          const policy = contact.escalationPolicy;
+          return (
+            <View
+              key={contact._id}
+              style={[localStyles.card, { backgroundColor: colors.background.secondary, borderColor: colors.system.border }]}
+            >
+              <View style={localStyles.cardHeader}>
+                <View style={localStyles.cardInfo}>
+                  <Text style={[localStyles.contactName, { color: colors.text.primary, textAlign }]}>
+                    {contact.name}
+                  </Text>
+                  <Text style={[localStyles.contactDetail, { color: colors.text.secondary, textAlign }]}>
+                    {[contact.relationship, contact.phone, contact.email].filter(Boolean).join(" · ")}
+                  </Text>
+                  {contact.isPrimary ? (
+                    <Text style={[localStyles.primaryBadge, { color: colors.interactive.primary, textAlign }]}>
+                      {t("crisis.contacts.primary")}
+                    </Text>
+                  ) : null}
+                </View>
+                <TouchableOpacity onPress={() => deleteContact({ contactId: contact._id })}>
+                  <Text style={{ color: colors.interactive.destructive }}>{t("crisis.contacts.remove")}</Text>
+                </TouchableOpacity>
+              </View>
+
+              {contact.isPrimary ? (
+                <>
+                  <View style={localStyles.row}>
+                    <Text style={[localStyles.rowLabel, { color: colors.text.primary, textAlign }]}>
+                      {t("crisis.contacts.consentTitle")}
+                    </Text>
+                    <Switch
+                      value={!!policy?.notifyOnCrisis}
+                      onValueChange={(value) => updateConsent(contact, value, value ? ["sms"] : [])}
+                    />
+                  </View>
+                  <Text style={[localStyles.description, { color: colors.text.secondary, textAlign }]}>
+                    {t("crisis.contacts.consentDescription")}
+                  </Text>
+
+                  {policy?.notifyOnCrisis ? (
+                    <>
+                      <View style={localStyles.row}>
+                        <Text style={[localStyles.rowLabel, { color: colors.text.primary, textAlign }]}>
+                          {t("crisis.contacts.sms")}
+                        </Text>
+                        <Switch
+                          value={policy.channels.includes("sms")}
+                          onValueChange={(value) => toggleChannel(contact, "sms", value)}
+                        />
+                      </View>
+                      {contact.email ? (
+                        <View style={localStyles.row}>
+                          <Text style={[localStyles.rowLabel, { color: colors.text.primary, textAlign }]}>
+                            {t("crisis.contacts.emailChannel")}
+                          </Text>
+                          <Switch
+                            value={policy.channels.includes("email")}
+                            onValueChange={(value) => toggleChannel(contact, "email", value)}
+                          />
+                        </View>
+                      ) : null}
+                    </>
+                  ) : null}
+                </>
+              ) : null}
+            </View>
+          );
+        })}
+
+        <Text style={[localStyles.sectionTitle, { color: colors.text.primary, textAlign }]}>
+          {t("crisis.contacts.add")}
+        </Text>
+        <BaseInput label={t("crisis.contacts.name")} value={name} onChangeText={setName} />
+        <BaseInput
+          label={t("crisis.contacts.phone")}
+          value={phone}
+          onChangeText={setPhone}
+          keyboardType="phone-pad"
+        />
+        <BaseInput
+          label={t("crisis.contacts.email")}
+          value={email}
+          onChangeText={setEmail}
+          keyboardType="email-address"
+          autoCapitalize="none"
+        />
+        <BaseInput
+          label={t("crisis.contacts.relationship")}
+          value={relationship}
+          onChangeText={setRelationship}
+        />
+        <PrimaryButton
+          title={t("crisis.contacts.add")}
+          onPress={handleAdd}
+          disabled={!canAdd}
+          loading={isSaving}
+          fullWidth
+        />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const localStyles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 20,
+    gap: 12,
+  },
+  card: {
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    gap: 10,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+  },
+  cardInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  contactName: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  contactDetail: {
+    fontSize: 14,
+  },
+  primaryBadge: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  rowLabel: {
+    flex: 1,
+    fontSize: 16,
+  },
+  description: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginTop: 12,
+  },
+});
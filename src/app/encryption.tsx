@@ -0,0 +1,202 @@
+import { BaseInput, PrimaryButton } from "@/components/forms";
+import { IconSymbol } from "@/components/core/Icon/IconSymbol";
+import { useEncryption } from "@/hooks/useEncryption";
+import { useTranslation } from "@/hooks/useLocale";
+import { useAppTheme } from "@/theme";
+import { formatDateTime } from "@/utils/helpers";
+import { MIN_PASSPHRASE_LENGTH } from "@/utils/encryption";
+import { Stack } from "expo-router";
+import React, { useState } from "react";
+import {
+  Alert,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+
+export default function EncryptionScreen() {
+  const { t, locale } = useTranslation();
+  const { colors } = useAppTheme();
+  const { isEnabled, isLocked, enabledAt, enable, recover } = useEncryption();
+
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const textAlign = locale === "ar" ? "right" : "left";
+  const isLongEnough = passphrase.length >= MIN_PASSPHRASE_LENGTH;
+
+  const handleEnable = async () => {
+    if (!isLongEnough) {
+      setError(t("encryption.tooShort").replace("{count}", String(MIN_PASSPHRASE_LENGTH)));
+      return;
+    }
+    if (passphrase !== confirmation) {
+      setError(t("encryption.mismatch"));
+      return;
+    }
+    setError(null);
+    setIsWorking(true);
+    try {
+      await enable(passphrase);
+      setPassphrase("");
+      setConfirmation("");
+    } catch (err) {
+      console.error("Enabling encryption failed:", err);
+      Alert.alert(t("encryption.title"), t("encryption.failed"));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRecover = async () => {
+    setError(null);
+    setIsWorking(true);
+    try {
+      await recover(passphrase);
+      setPassphrase("");
+    } catch {
+      setError(t("encryption.wrongPassphrase"));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={[localStyles.container, { backgroundColor: colors.background.primary }]}>
+      <Stack.Screen options={{ title: t("encryption.title") }} />
+      <ScrollView contentContainerStyle={localStyles.content} keyboardShouldPersistTaps="handled">
+        <Text style={[localStyles.description, { color: colors.text.secondary, textAlign }]}>
+          {t("encryption.description")}
+        </Text>
+
+        <View style={[localStyles.card, { backgroundColor: colors.background.secondary, borderColor: colors.system.border }]}>
+          <Text style={[localStyles.cardTitle, { color: colors.text.primary, textAlign }]}>
+            {t("encryption.privateTitle")}
+          </Text>
+          <Text style={[localStyles.cardBody, { color: colors.text.secondary, textAlign }]}>
+            {t("encryption.privateFields")}
+          </Text>
+          <Text style={[localStyles.cardTitle, { color: colors.text.primary, textAlign }]}>
+            {t("encryption.readableTitle")}
+          </Text>
+          <Text style={[localStyles.cardBody, { color: colors.text.secondary, textAlign }]}>
+            {t("encryption.readableFields")}
+          </Text>
+          <Text style={[localStyles.cardTitle, { color: colors.text.primary, textAlign }]}>
+            {t("encryption.existingTitle")}
+          </Text>
+          <Text style={[localStyles.cardBody, { color: colors.text.secondary, textAlign }]}>
+            {t("encryption.existingFields")}
+          </Text>
+        </View>
+
+        {isEnabled && !isLocked ? (
+          <View style={localStyles.status}>
+            <IconSymbol name="shield.fill" size={22} color={colors.interactive.primary} />
+            <Text style={[localStyles.statusText, { color: colors.text.primary, textAlign }]}>
+              {enabledAt
+                ? t("encryption.enabledOn").replace("{date}", formatDateTime(enabledAt, locale))
+                : t("encryption.enabled")}
+            </Text>
+          </View>
+        ) : null}
+
+        {isLocked ? (
+          <>
+            <Text style={[localStyles.description, { color: colors.text.primary, textAlign }]}>
+              {t("encryption.recoverDescription")}
+            </Text>
+            <BaseInput
+              label={t("encryption.passphrase")}
+              value={passphrase}
+              onChangeText={setPassphrase}
+              secureTextEntry
+              autoCapitalize="none"
+              error={error}
+            />
+            <PrimaryButton
+              title={t("encryption.recover")}
+              onPress={handleRecover}
+              loading={isWorking}
+              disabled={!passphrase || isWorking}
+              fullWidth
+            />
+          </>
+        ) : null}
+
+        {!isEnabled ? (
+          <>
+            <Text style={[localStyles.description, { color: colors.text.primary, textAlign }]}>
+              {t("encryption.passphraseWarning")}
+            </Text>
+            <BaseInput
+              label={t("encryption.passphrase")}
+              value={passphrase}
+              onChangeText={setPassphrase}
+              secureTextEntry
+              autoCapitalize="none"
+            />
+            <BaseInput
+              label={t("encryption.confirmPassphrase")}
+              value={confirmation}
+              onChangeText={setConfirmation}
+              secureTextEntry
+              autoCapitalize="none"
+              error={error}
+            />
+            <PrimaryButton
+              title={t("encryption.enable")}
+              onPress={handleEnable}
+              loading={isWorking}
+              disabled={!passphrase || !confirmation || isWorking}
+              fullWidth
+            />
+          </>
+        ) : null}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const localStyles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    gap: 12,
+  },
+  description: {
+    fontSize: 15,
+    lineHeight: 21,
+  },
+  card: {
+    padding: 16,
+    borderRadius: 14,
+    borderWidth: 1,
+    gap: 6,
+  },
+  cardTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  cardBody: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 6,
+  },
+  status: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  statusText: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '500',
+  },
+});
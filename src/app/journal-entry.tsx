@@ -0,0 +1,392 @@
+import { Switch } from "@/components/core";
+import { BaseInput, PrimaryButton } from "@/components/forms";
+import { RichText } from "@/components/journal";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { useAuthState } from "@/hooks/useAuthState";
+import { useEncryption } from "@/hooks/useEncryption";
+import { useTranslation } from "@/hooks/useLocale";
+import { useAppTheme } from "@/theme";
+import { formatDateTime } from "@/utils/helpers";
+import { applyFormat, RichTextFormat, TextSelection } from "@/utils/richText";
+import { useAction, useMutation, useQuery } from "convex/react";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import React, { useState } from "react";
+import {
+  Alert,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+interface JournalEntryDetails {
+  entry: {
+    _id: Id<"journalEntries">;
+    title?: string;
+    content: string;
+    tags: string[];
+    createdAt: number;
+  };
+  mood: { rating: number } | null;
+  reflections: { _id: Id<"journalReflections">; content: string; createdAt: number }[];
+}
+
+interface DailyPrompt {
+  id: string;
+  text: { en: string; ar: string };
+}
+
+const FORMATS: { format: RichTextFormat; labelKey: string; label: string }[] = [
+  { format: "bold", labelKey: "journal.bold", label: "B" },
+  { format: "italic", labelKey: "journal.italic", label: "I" },
+  { format: "heading", labelKey: "journal.heading", label: "H" },
+  { format: "bullet", labelKey: "journal.bullet", label: "•" },
+];
+
+// Tags are typed comma separated; the Arabic comma works too
+const parseTags = (text: string) => text.split(/[,،]/).map((tag) => tag.trim()).filter(Boolean);
+
+export default function JournalEntryScreen() {
+  const { id, promptId } = useLocalSearchParams<{ id?: string; promptId?: string }>();
+  const entryId = id as Id<"journalEntries"> | undefined;
+  const { t, locale } = useTranslation();
+  const { colors } = useAppTheme();
+  const router = useRouter();
+  const { convexUser: user } = useAuthState();
+  const { isEnabled: isEncrypted, isLocked, protect, reveal } = useEncryption();
+
+  const details: JournalEntryDetails | null | undefined = useQuery(api.journal.getJournalEntry,
+    user?._id && entryId ? { userId: user._id, entryId } : "skip"
+  );
+  const prompt: DailyPrompt | undefined = useQuery(api.journal.getDailyPrompt,
+    user?._id && promptId ? { userId: user._id } : "skip"
+  );
+  const latestMood: { _id: Id<"moods">; rating: number } | null | undefined = useQuery(api.moods.getLatestMood,
+    user?._id && !entryId ? { userId: user._id } : "skip"
+  );
+  const createEntry = useMutation(api.journal.createJournalEntry);
+  const updateEntry = useMutation(api.journal.updateJournalEntry);
+  const deleteEntry = useMutation(api.journal.deleteJournalEntry);
+  const reflectOnEntry = useAction(api.journal.reflectOnEntry);
+
+  const [isEditing, setIsEditing] = useState(!entryId);
+  const [title, setTitle] = useState("");
+  const [content, setContent] = useState("");
+  const [tagsText, setTagsText] = useState("");
+  const [selection, setSelection] = useState<TextSelection>({ start: 0, end: 0 });
+  const [attachMood, setAttachMood] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isReflecting, setIsReflecting] = useState(false);
+
+  const rtl = locale === "ar";
+  const textAlign = rtl ? "right" : "left";
+  const entry = details?.entry;
+  const entryTitle = entry ? reveal(entry.title) : null;
+  const entryContent = entry ? reveal(entry.content) : null;
+
+  const startEditing = () => {
+    if (!entry || entryContent === null) return;
+    setTitle(entryTitle ?? "");
+    setContent(entryContent);
+    setTagsText(entry.tags.join(", "));
+    setIsEditing(true);
+  };
+
+  const handleFormat = (format: RichTextFormat) => {
+    const result = applyFormat(content, selection, format);
+    setContent(result.text);
+    setSelection(result.selection);
+  };
+
+  const handleSave = async () => {
+    if (!user?._id || !content.trim()) return;
+    setIsSaving(true);
+    try {
+      const fields = {
+        title: title.trim() ? protect(title.trim()) : "",
+        content: protect(content),
+        tags: parseTags(tagsText),
+      };
+      if (entryId) {
+        await updateEntry({ userId: user._id, entryId, ...fields });
+        setIsEditing(false);
+      } else {
+        await createEntry({
+          userId: user._id,
+          ...fields,
+          moodId: attachMood ? latestMood?._id : undefined,
+          promptId: prompt?.id,
+        });
+        router.back();
+      }
+    } catch (error) {
+      console.error("Saving journal entry failed:", error);
+      Alert.alert(t("journal.title"), t("journal.saveFailed"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!user?._id || !entryId) return;
+    Alert.alert(t("journal.delete"), t("journal.deleteConfirm"), [
+      { text: t("cancel"), style: "cancel" },
+      {
+        text: t("delete"),
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await deleteEntry({ userId: user._id, entryId });
+            router.back();
+          } catch (error) {
+            console.error("Deleting journal entry failed:", error);
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleReflect = async () => {
+    if (!user?._id || !entryId) return;
+    setIsReflecting(true);
+    try {
+      const result = await reflectOnEntry({ userId: user._id, entryId, language: locale });
+      if (result.routeToCrisis) {
+        router.push("/crisis");
+      }
+    } catch (error) {
+      console.error("Journal reflection failed:", error);
+      Alert.alert(t("journal.reflect"), t("journal.reflectFailed"));
+    } finally {
+      setIsReflecting(false);
+    }
+  };
+
+  const editor = (
+    <>
+      {prompt && !entryId ? (
+        <Text style={[localStyles.prompt, { color: colors.text.primary, textAlign }]}>{prompt.text[locale]}</Text>
+      ) : null}
+      <BaseInput label={t("journal.entryTitle")} value={title} onChangeText={setTitle} editable={!isLocked} />
+      <View style={[localStyles.toolbar, rtl && localStyles.toolbarRtl]}>
+        {FORMATS.map((item) => (
+          <TouchableOpacity
+            key={item.format}
+            onPress={() => handleFormat(item.format)}
+            accessibilityRole="button"
+            accessibilityLabel={t(item.labelKey)}
+            style={[localStyles.toolbarButton, { borderColor: colors.system.border }]}
+          >
+            <Text
+              style={[
+                localStyles.toolbarLabel,
+                { color: colors.text.primary },
+                item.format === "italic" && localStyles.italic,
+              ]}
+            >
+              {item.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <TextInput
+        value={content}
+        onChangeText={setContent}
+        selection={selection}
+        onSelectionChange={(event) => setSelection(event.nativeEvent.selection)}
+        placeholder={t("journal.contentPlaceholder")}
+        placeholderTextColor={colors.text.tertiary}
+        multiline
+        editable={!isLocked}
+        textAlignVertical="top"
+        style={[
+          localStyles.contentInput,
+          { color: colors.text.primary, borderColor: colors.system.border, textAlign },
+        ]}
+      />
+      <BaseInput
+        label={t("journal.tags")}
+        value={tagsText}
+        onChangeText={setTagsText}
+        placeholder={t("journal.tagsPlaceholder")}
+        autoCapitalize="none"
+      />
+      {!entryId && latestMood ? (
+        <View style={localStyles.row}>
+          <Text style={[localStyles.rowLabel, { color: colors.text.primary, textAlign }]}>
+            {t("journal.attachMood")} ({t("journal.mood").replace("{rating}", String(latestMood.rating))})
+          </Text>
+          <Switch value={attachMood} onValueChange={setAttachMood} />
+        </View>
+      ) : null}
+      {isLocked ? (
+        <Text style={[localStyles.note, { color: colors.text.tertiary, textAlign }]}>{t("journal.locked")}</Text>
+      ) : null}
+      <PrimaryButton
+        title={isSaving ? t("journal.saving") : t("journal.save")}
+        onPress={handleSave}
+        loading={isSaving}
+        disabled={!user || isSaving || isLocked || !content.trim()}
+        fullWidth
+        style={localStyles.button}
+      />
+    </>
+  );
+
+  const viewer = entry ? (
+    <>
+      <Text style={[localStyles.title, { color: colors.text.primary, textAlign }]}>
+        {entryTitle ?? t("journal.untitled")}
+      </Text>
+      <Text style={[localStyles.note, { color: colors.text.tertiary, textAlign }]}>
+        {[
+          formatDateTime(entry.createdAt, locale),
+          ...(details?.mood ? [t("journal.mood").replace("{rating}", String(details.mood.rating))] : []),
+          ...entry.tags.map((tag) => `#${tag}`),
+        ].join(" · ")}
+      </Text>
+      {entryContent === null ? (
+        <Text style={[localStyles.note, { color: colors.text.tertiary, textAlign }]}>{t("journal.locked")}</Text>
+      ) : (
+        <RichText content={entryContent} rtl={rtl} />
+      )}
+
+      <View style={[localStyles.actions, rtl && localStyles.toolbarRtl]}>
+        {entryContent !== null ? (
+          <TouchableOpacity onPress={startEditing} accessibilityRole="button">
+            <Text style={[localStyles.action, { color: colors.interactive.primary }]}>{t("edit")}</Text>
+          </TouchableOpacity>
+        ) : null}
+        <TouchableOpacity onPress={handleDelete} accessibilityRole="button">
+          <Text style={[localStyles.action, { color: colors.interactive.destructive }]}>{t("journal.delete")}</Text>
+        </TouchableOpacity>
+      </View>
+
+      <Text style={[localStyles.sectionTitle, { color: colors.text.primary, textAlign }]}>{t("journal.reflections")}</Text>
+      {details?.reflections.map((reflection) => (
+        <View
+          key={reflection._id}
+          style={[localStyles.card, { backgroundColor: colors.background.secondary, borderColor: colors.system.border }]}
+        >
+          <Text style={[localStyles.reflection, { color: colors.text.primary, textAlign }]}>{reflection.content}</Text>
+          <Text style={[localStyles.note, { color: colors.text.tertiary, textAlign }]}>
+            {formatDateTime(reflection.createdAt, locale)}
+          </Text>
+        </View>
+      ))}
+      {isEncrypted ? (
+        <Text style={[localStyles.note, { color: colors.text.tertiary, textAlign }]}>{t("journal.reflectEncrypted")}</Text>
+      ) : (
+        <PrimaryButton
+          title={isReflecting ? t("journal.reflecting") : t("journal.reflect")}
+          onPress={handleReflect}
+          loading={isReflecting}
+          disabled={isReflecting}
+          fullWidth
+        />
+      )}
+    </>
+  ) : null;
+
+  return (
+    <SafeAreaView style={[localStyles.container, { backgroundColor: colors.background.primary }]}>
+      <Stack.Screen options={{ title: entryId ? t("journal.title") : t("journal.newEntry") }} />
+      <ScrollView contentContainerStyle={localStyles.content} keyboardShouldPersistTaps="handled">
+        {isEditing ? editor : viewer}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const localStyles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    gap: 12,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+  },
+  prompt: {
+    fontSize: 17,
+    fontWeight: '600',
+    lineHeight: 23,
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    marginTop: 12,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  toolbarRtl: {
+    flexDirection: 'row-reverse',
+  },
+  toolbarButton: {
+    width: 40,
+    height: 36,
+    borderWidth: 1,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  toolbarLabel: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  italic: {
+    fontStyle: 'italic',
+  },
+  contentInput: {
+    minHeight: 220,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 16,
+    lineHeight: 24,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  rowLabel: {
+    flex: 1,
+    fontSize: 15,
+  },
+  note: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  card: {
+    padding: 14,
+    borderRadius: 14,
+    borderWidth: 1,
+    gap: 4,
+  },
+  reflection: {
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 20,
+  },
+  action: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  button: {
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,202 @@
+import { BaseInput, PrimaryButton } from "@/components/forms";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { useAuthState } from "@/hooks/useAuthState";
+import { useEncryption } from "@/hooks/useEncryption";
+import { useTranslation } from "@/hooks/useLocale";
+import { useAppTheme } from "@/theme";
+import { formatDate } from "@/utils/helpers";
+import { toPlainText } from "@/utils/richText";
+import { useQuery } from "convex/react";
+import { Stack, useRouter } from "expo-router";
+import React, { useMemo, useState } from "react";
+import {
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+interface JournalEntry {
+  _id: Id<"journalEntries">;
+  title?: string;
+  content: string;
+  tags: string[];
+  createdAt: number;
+}
+
+interface DailyPrompt {
+  id: string;
+  text: { en: string; ar: string };
+}
+
+const PREVIEW_LENGTH = 140;
+
+export default function JournalScreen() {
+  const { t, locale } = useTranslation();
+  const { colors } = useAppTheme();
+  const router = useRouter();
+  const { convexUser: user } = useAuthState();
+  const { isEnabled: isEncrypted, reveal } = useEncryption();
+  const [search, setSearch] = useState("");
+  const [tag, setTag] = useState<string | undefined>();
+
+  const userArgs = user?._id ? { userId: user._id } : "skip";
+  const prompt: DailyPrompt | undefined = useQuery(api.journal.getDailyPrompt, userArgs);
+  const tags: { tag: string; count: number }[] | undefined = useQuery(api.journal.getJournalTags, userArgs);
+  const entries: JournalEntry[] | undefined = useQuery(api.journal.listJournalEntries,
+    user?._id ? { userId: user._id, tag } : "skip"
+  );
+  // Encrypted entries can only be searched here, after decrypting them
+  const searchText = search.trim();
+  const serverResults: JournalEntry[] | undefined = useQuery(api.journal.searchJournalEntries,
+    user?._id && searchText && !isEncrypted ? { userId: user._id, query: searchText, tag } : "skip"
+  );
+
+  const visibleEntries = useMemo(() => {
+    if (!searchText) return entries;
+    if (!isEncrypted) return serverResults;
+    const needle = searchText.toLowerCase();
+    return entries?.filter((entry) =>
+      [reveal(entry.title), reveal(entry.content), ...entry.tags]
+        .some((text) => text?.toLowerCase().includes(needle))
+    );
+  }, [searchText, isEncrypted, entries, serverResults, reveal]);
+
+  const textAlign = locale === "ar" ? "right" : "left";
+
+  const preview = (entry: JournalEntry) => {
+    const content = reveal(entry.content);
+    if (content === null) return t("journal.locked");
+    const text = toPlainText(content).replace(/\n/g, " ");
+    return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text;
+  };
+
+  const tagChip = (key: string, label: string, value: string | undefined) => {
+    const isSelected = tag === value;
+    return (
+      <TouchableOpacity
+        key={key}
+        onPress={() => setTag(value)}
+        accessibilityRole="button"
+        accessibilityState={{ selected: isSelected }}
+        style={[
+          localStyles.chip,
+          {
+            borderColor: colors.interactive.primary,
+            backgroundColor: isSelected ? colors.interactive.primary : "transparent",
+          },
+        ]}
+      >
+        <Text style={{ color: isSelected ? colors.text.inverse : colors.interactive.primary }}>{label}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[localStyles.container, { backgroundColor: colors.background.primary }]}>
+      <Stack.Screen options={{ title: t("journal.title") }} />
+      <ScrollView contentContainerStyle={localStyles.content} keyboardShouldPersistTaps="handled">
+        {prompt ? (
+          <View style={[localStyles.card, { backgroundColor: colors.background.secondary, borderColor: colors.system.border }]}>
+            <Text style={[localStyles.note, { color: colors.text.secondary, textAlign }]}>{t("journal.promptOfDay")}</Text>
+            <Text style={[localStyles.prompt, { color: colors.text.primary, textAlign }]}>{prompt.text[locale]}</Text>
+            <TouchableOpacity onPress={() => router.push(`/journal-entry?promptId=${prompt.id}`)} accessibilityRole="button">
+              <Text style={[localStyles.action, { color: colors.interactive.primary, textAlign }]}>{t("journal.answerPrompt")}</Text>
+            </TouchableOpacity>
+          </View>
+        ) : null}
+
+        <PrimaryButton title={t("journal.newEntry")} onPress={() => router.push("/journal-entry")} fullWidth />
+
+        <BaseInput
+          value={search}
+          onChangeText={setSearch}
+          placeholder={t("journal.searchPlaceholder")}
+          leftIcon="magnifyingglass"
+          autoCorrect={false}
+        />
+
+        {tags && tags.length > 0 ? (
+          <View style={localStyles.chips}>
+            {tagChip("all", t("journal.allTags"), undefined)}
+            {tags.map((item) => tagChip(item.tag, `#${item.tag}`, item.tag))}
+          </View>
+        ) : null}
+
+        {visibleEntries && visibleEntries.length === 0 ? (
+          <Text style={[localStyles.note, { color: colors.text.tertiary, textAlign }]}>
+            {searchText ? t("journal.noResults") : t("journal.empty")}
+          </Text>
+        ) : null}
+        {visibleEntries?.map((entry) => (
+          <TouchableOpacity
+            key={entry._id}
+            onPress={() => router.push(`/journal-entry?id=${entry._id}`)}
+            accessibilityRole="button"
+            style={[localStyles.card, { backgroundColor: colors.background.secondary, borderColor: colors.system.border }]}
+          >
+            <Text style={[localStyles.entryTitle, { color: colors.text.primary, textAlign }]}>
+              {reveal(entry.title) ?? t("journal.untitled")}
+            </Text>
+            <Text style={[localStyles.note, { color: colors.text.tertiary, textAlign }]}>
+              {[formatDate(entry.createdAt, locale), ...entry.tags.map((item) => `#${item}`)].join(" · ")}
+            </Text>
+            <Text style={[localStyles.preview, { color: colors.text.secondary, textAlign }]}>{preview(entry)}</Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const localStyles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    gap: 12,
+  },
+  card: {
+    padding: 14,
+    borderRadius: 14,
+    borderWidth: 1,
+    gap: 4,
+  },
+  prompt: {
+    fontSize: 17,
+    fontWeight: '600',
+    lineHeight: 23,
+  },
+  entryTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  preview: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  note: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  action: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,262 @@
+import { BaseInput, PrimaryButton } from "@/components/forms";
+import { api } from "@/convex/_generated/api";
+import { useAuthState } from "@/hooks/useAuthState";
+import { useTranslation } from "@/hooks/useLocale";
+import { useAppTheme } from "@/theme";
+import { useMutation, useQuery } from "convex/react";
+import { Stack } from "expo-router";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+const CATEGORIES = ["body", "mind", "social", "work", "lifestyle", "environment", "other"] as const;
+
+type Category = (typeof CATEGORIES)[number];
+
+interface MoodFactor {
+  key: string;
+  label: { en: string; ar: string };
+  emoji: string;
+  category: Category;
+  isBuiltIn: boolean;
+  archived: boolean;
+}
+
+export default function MoodFactorsScreen() {
+  const { t, locale } = useTranslation();
+  const { colors } = useAppTheme();
+  const { convexUser: user } = useAuthState();
+
+  const factors: MoodFactor[] | undefined = useQuery(api.moodFactors.getMoodFactors,
+    user?._id ? { userId: user._id, includeArchived: true } : "skip"
+  );
+  const createFactor = useMutation(api.moodFactors.createMoodFactor);
+  const updateFactor = useMutation(api.moodFactors.updateMoodFactor);
+  const deleteFactor = useMutation(api.moodFactors.deleteMoodFactor);
+
+  // Key of the factor loaded into the form, or null when adding a new one
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [labelEn, setLabelEn] = useState("");
+  const [labelAr, setLabelAr] = useState("");
+  const [emoji, setEmoji] = useState("");
+  const [category, setCategory] = useState<Category>("other");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const textAlign = locale === "ar" ? "right" : "left";
+  const labelOf = (factor: MoodFactor) => (locale === "ar" ? factor.label.ar : factor.label.en);
+
+  const resetForm = () => {
+    setEditingKey(null);
+    setLabelEn("");
+    setLabelAr("");
+    setEmoji("");
+    setCategory("other");
+  };
+
+  const startEditing = (factor: MoodFactor) => {
+    setEditingKey(factor.key);
+    setLabelEn(factor.label.en);
+    setLabelAr(factor.label.ar === factor.label.en ? "" : factor.label.ar);
+    setEmoji(factor.emoji);
+    setCategory(factor.category);
+  };
+
+  const handleSave = async () => {
+    if (!user?._id || !labelEn.trim()) return;
+    setIsSaving(true);
+    try {
+      const label = { en: labelEn.trim(), ar: labelAr.trim() || undefined };
+      if (editingKey) {
+        await updateFactor({ userId: user._id, key: editingKey, label, emoji: emoji.trim() || undefined, category });
+      } else {
+        await createFactor({ userId: user._id, label, emoji: emoji.trim() || undefined, category });
+      }
+      resetForm();
+    } catch (error) {
+      Alert.alert(t("moodFactors.title"), error instanceof Error ? error.message : t("moodFactors.failed"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!user || factors === undefined) {
+    return (
+      <SafeAreaView style={[localStyles.container, localStyles.centered, { backgroundColor: colors.background.primary }]}>
+        <Stack.Screen options={{ title: t("moodFactors.title") }} />
+        <ActivityIndicator size="large" color={colors.interactive.primary} />
+      </SafeAreaView>
+    );
+  }
+
+  const active = factors.filter(factor => !factor.archived);
+  const hidden = factors.filter(factor => factor.archived);
+
+  const renderFactor = (factor: MoodFactor) => (
+    <View
+      key={factor.key}
+      style={[localStyles.card, { backgroundColor: colors.background.secondary, borderColor: colors.system.border }]}
+    >
+      <Text style={localStyles.emoji}>{factor.emoji}</Text>
+      <View style={localStyles.cardInfo}>
+        <Text style={[localStyles.factorName, { color: colors.text.primary, textAlign }]}>
+          {labelOf(factor)}
+        </Text>
+        <Text style={[localStyles.factorDetail, { color: colors.text.secondary, textAlign }]}>
+          {[t(`moodFactors.categories.${factor.category}`), factor.isBuiltIn ? t("moodFactors.builtIn") : null]
+            .filter(Boolean)
+            .join(" · ")}
+        </Text>
+      </View>
+      {factor.archived ? (
+        <TouchableOpacity onPress={() => updateFactor({ userId: user._id, key: factor.key, archived: false })}>
+          <Text style={{ color: colors.interactive.primary }}>{t("moodFactors.restore")}</Text>
+        </TouchableOpacity>
+      ) : (
+        <>
+          <TouchableOpacity onPress={() => startEditing(factor)}>
+            <Text style={{ color: colors.interactive.primary }}>{t("moodFactors.edit")}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => deleteFactor({ userId: user._id, key: factor.key })}>
+            <Text style={{ color: colors.interactive.destructive }}>{t("moodFactors.hide")}</Text>
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={[localStyles.container, { backgroundColor: colors.background.primary }]}>
+      <Stack.Screen options={{ title: t("moodFactors.title") }} />
+      <ScrollView contentContainerStyle={localStyles.content} keyboardShouldPersistTaps="handled">
+        <Text style={[localStyles.description, { color: colors.text.secondary, textAlign }]}>
+          {t("moodFactors.description")}
+        </Text>
+
+        {active.map(renderFactor)}
+
+        {hidden.length > 0 ? (
+          <>
+            <Text style={[localStyles.sectionTitle, { color: colors.text.primary, textAlign }]}>
+              {t("moodFactors.hiddenTitle")}
+            </Text>
+            {hidden.map(renderFactor)}
+          </>
+        ) : null}
+
+        <Text style={[localStyles.sectionTitle, { color: colors.text.primary, textAlign }]}>
+          {editingKey ? t("moodFactors.editTitle") : t("moodFactors.addTitle")}
+        </Text>
+        <BaseInput label={t("moodFactors.emoji")} value={emoji} onChangeText={setEmoji} maxLength={4} />
+        <BaseInput label={t("moodFactors.labelEn")} value={labelEn} onChangeText={setLabelEn} maxLength={40} />
+        <BaseInput label={t("moodFactors.labelAr")} value={labelAr} onChangeText={setLabelAr} maxLength={40} />
+
+        <Text style={[localStyles.rowLabel, { color: colors.text.primary, textAlign }]}>
+          {t("moodFactors.category")}
+        </Text>
+        <View style={localStyles.chips}>
+          {CATEGORIES.map(option => (
+            <TouchableOpacity
+              key={option}
+              onPress={() => setCategory(option)}
+              style={[
+                localStyles.chip,
+                {
+                  borderColor: category === option ? colors.interactive.primary : colors.system.border,
+                  backgroundColor: category === option ? colors.interactive.primary : "transparent",
+                },
+              ]}
+            >
+              <Text style={{ color: category === option ? "#FFFFFF" : colors.text.secondary }}>
+                {t(`moodFactors.categories.${option}`)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <PrimaryButton
+          title={editingKey ? t("moodFactors.save") : t("moodFactors.add")}
+          onPress={handleSave}
+          disabled={!labelEn.trim()}
+          loading={isSaving}
+          fullWidth
+        />
+        {editingKey ? (
+          <TouchableOpacity onPress={resetForm} style={localStyles.cancel}>
+            <Text style={{ color: colors.text.secondary }}>{t("cancel")}</Text>
+          </TouchableOpacity>
+        ) : null}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const localStyles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 20,
+    gap: 12,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    gap: 12,
+  },
+  cardInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  emoji: {
+    fontSize: 24,
+  },
+  factorName: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  factorDetail: {
+    fontSize: 14,
+  },
+  rowLabel: {
+    fontSize: 16,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  cancel: {
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  description: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,186 @@
+import { Switch } from "@/components/core";
+import { PrimaryButton } from "@/components/forms";
+import { api } from "@/convex/_generated/api";
+import { useAuthState } from "@/hooks/useAuthState";
+import { useTranslation } from "@/hooks/useLocale";
+import { type Locale } from "@/locales";
+import { useAppTheme } from "@/theme";
+import { buildProgressReportHtml, ProgressReportData } from "@/utils/progressReport";
+import { useConvex } from "convex/react";
+import * as Print from "expo-print";
+import { Stack } from "expo-router";
+import * as Sharing from "expo-sharing";
+import React, { useState } from "react";
+import {
+  Alert,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+const RANGES = [
+  { days: 30, labelKey: "progressReport.range30" },
+  { days: 90, labelKey: "progressReport.range90" },
+  { days: 180, labelKey: "progressReport.range180" },
+];
+
+const LANGUAGES: { locale: Locale; label: string }[] = [
+  { locale: "en", label: "English" },
+  { locale: "ar", label: "العربية" },
+];
+
+export default function ProgressReportScreen() {
+  const { t, locale } = useTranslation();
+  const { colors } = useAppTheme();
+  const { convexUser: user } = useAuthState();
+  const convex = useConvex();
+  const [days, setDays] = useState(RANGES[0].days);
+  const [reportLocale, setReportLocale] = useState<Locale>(locale);
+  const [includeSummaries, setIncludeSummaries] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const textAlign = locale === "ar" ? "right" : "left";
+
+  const handleCreate = async () => {
+    if (!user?._id) return;
+    setIsCreating(true);
+    try {
+      const to = Date.now();
+      const report: ProgressReportData = await convex.query(api.reports.getProgressReport, {
+        userId: user._id,
+        from: to - days * 24 * 60 * 60 * 1000,
+        to,
+        includeConversationSummaries: includeSummaries,
+      });
+      const { uri } = await Print.printToFileAsync({ html: buildProgressReportHtml(report, reportLocale) });
+      await Sharing.shareAsync(uri, {
+        mimeType: "application/pdf",
+        UTI: "com.adobe.pdf",
+        dialogTitle: t("progressReport.title"),
+      });
+    } catch (error) {
+      console.error("Creating progress report failed:", error);
+      Alert.alert(t("progressReport.title"), t("progressReport.failed"));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const chip = (key: string, label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityState={{ selected: isSelected }}
+      style={[
+        localStyles.chip,
+        {
+          borderColor: colors.interactive.primary,
+          backgroundColor: isSelected ? colors.interactive.primary : "transparent",
+        },
+      ]}
+    >
+      <Text style={{ color: isSelected ? colors.text.inverse : colors.interactive.primary }}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={[localStyles.container, { backgroundColor: colors.background.primary }]}>
+      <Stack.Screen options={{ title: t("progressReport.title") }} />
+      <ScrollView contentContainerStyle={localStyles.content}>
+        <Text style={[localStyles.description, { color: colors.text.secondary, textAlign }]}>
+          {t("progressReport.description")}
+        </Text>
+
+        <Text style={[localStyles.sectionTitle, { color: colors.text.primary, textAlign }]}>
+          {t("progressReport.range")}
+        </Text>
+        <View style={localStyles.chips}>
+          {RANGES.map((range) =>
+            chip(String(range.days), t(range.labelKey), days === range.days, () => setDays(range.days))
+          )}
+        </View>
+
+        <Text style={[localStyles.sectionTitle, { color: colors.text.primary, textAlign }]}>
+          {t("progressReport.language")}
+        </Text>
+        <View style={localStyles.chips}>
+          {LANGUAGES.map((language) =>
+            chip(language.locale, language.label, reportLocale === language.locale, () => setReportLocale(language.locale))
+          )}
+        </View>
+
+        <View style={localStyles.row}>
+          <Text style={[localStyles.rowLabel, { color: colors.text.primary, textAlign }]}>
+            {t("progressReport.includeSummaries")}
+          </Text>
+          <Switch value={includeSummaries} onValueChange={setIncludeSummaries} />
+        </View>
+        <Text style={[localStyles.note, { color: colors.text.tertiary, textAlign }]}>
+          {t("progressReport.includeSummariesNote")}
+        </Text>
+
+        <PrimaryButton
+          title={isCreating ? t("progressReport.creating") : t("progressReport.create")}
+          onPress={handleCreate}
+          loading={isCreating}
+          disabled={!user || isCreating}
+          fullWidth
+          style={localStyles.button}
+        />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const localStyles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    gap: 12,
+  },
+  description: {
+    fontSize: 15,
+    lineHeight: 21,
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    marginTop: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    marginTop: 8,
+  },
+  rowLabel: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  note: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  button: {
+    marginTop: 12,
+  },
+});
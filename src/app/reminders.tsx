@@ -0,0 +1,131 @@
+import { Switch } from "@/components/core";
+import { TimeOption } from "@/components/onboarding";
+import { api } from "@/convex/_generated/api";
+import { useAuthState } from "@/hooks/useAuthState";
+import { useTranslation } from "@/hooks/useLocale";
+import { useAppTheme } from "@/theme";
+import { REMINDER_TIMES } from "@/utils/reminders";
+import { useMutation, useQuery } from "convex/react";
+import * as Notifications from "expo-notifications";
+import { Stack } from "expo-router";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+
+export default function RemindersScreen() {
+  const { t, locale } = useTranslation();
+  const { colors } = useAppTheme();
+  const { convexUser: user } = useAuthState();
+  const [permissionDenied, setPermissionDenied] = useState(false);
+
+  const settings = useQuery(api.reminders.getReminderSettings,
+    user?._id ? { userId: user._id } : "skip"
+  );
+  const updateReminderSettings = useMutation(api.reminders.updateReminderSettings);
+
+  const textAlign = locale === "ar" ? "right" : "left";
+
+  const save = async (enabled: boolean, time?: string) => {
+    if (!user?._id) return;
+    if (enabled) {
+      const permission = await Notifications.requestPermissionsAsync();
+      setPermissionDenied(!permission.granted);
+    }
+    try {
+      await updateReminderSettings({ userId: user._id, enabled, time });
+    } catch (error) {
+      console.error("Saving reminder settings failed:", error);
+      Alert.alert(t("reminders.title"), t("reminders.failed"));
+    }
+  };
+
+  return (
+    <SafeAreaView style={[localStyles.container, { backgroundColor: colors.background.primary }]}>
+      <Stack.Screen options={{ title: t("reminders.title") }} />
+      {!settings ? (
+        <View style={[localStyles.container, localStyles.centered]}>
+          <ActivityIndicator color={colors.interactive.primary} />
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={localStyles.content}>
+          <Text style={[localStyles.description, { color: colors.text.secondary, textAlign }]}>
+            {t("reminders.description")}
+          </Text>
+
+          <View style={localStyles.row}>
+            <Text style={[localStyles.rowLabel, { color: colors.text.primary, textAlign }]}>
+              {t("reminders.enable")}
+            </Text>
+            <Switch value={settings.enabled} onValueChange={(value) => save(value)} />
+          </View>
+
+          {permissionDenied ? (
+            <Text style={[localStyles.description, { color: colors.interactive.destructive, textAlign }]}>
+              {t("reminders.permissionDenied")}
+            </Text>
+          ) : null}
+
+          {settings.enabled ? (
+            <>
+              <Text style={[localStyles.rowLabel, { color: colors.text.primary, textAlign }]}>
+                {t("reminders.time")}
+              </Text>
+              <View style={localStyles.timeOptions}>
+                {REMINDER_TIMES.map((option) => (
+                  <TimeOption
+                    key={option.id}
+                    time={option.time}
+                    label={t(option.labelKey)}
+                    selectedTime={settings.time}
+                    onSelect={(time) => save(true, time)}
+                  />
+                ))}
+              </View>
+            </>
+          ) : null}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const localStyles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 20,
+    gap: 12,
+  },
+  description: {
+    fontSize: 15,
+    lineHeight: 21,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  rowLabel: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  timeOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+});
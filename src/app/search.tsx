@@ -0,0 +1,199 @@
+import { SearchSnippet, Snippet } from "@/components/search";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { useAuthState } from "@/hooks/useAuthState";
+import { useEncryption } from "@/hooks/useEncryption";
+import { useHeaderSearch } from "@/hooks/useHeaderSearch";
+import { useTranslation } from "@/hooks/useLocale";
+import { useAppTheme } from "@/theme";
+import { formatDate } from "@/utils/helpers";
+import { useMutation, useQuery } from "convex/react";
+import { Stack, useRouter } from "expo-router";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+type SearchResult =
+  | { type: "message"; id: Id<"messages">; conversationId: Id<"conversations">; conversationTitle: string | null; role: "user" | "assistant"; timestamp: number; snippet: Snippet }
+  | { type: "mood"; id: Id<"moods">; rating: number; emoji: string | null; timestamp: number; snippet: Snippet }
+  | { type: "journal"; id: Id<"journalEntries">; title: string | null; timestamp: number; snippet: Snippet };
+
+type SearchType = SearchResult["type"];
+
+const PAGE_SIZE = 20;
+const TYPE_FILTERS: { key: string; types?: SearchType[] }[] = [
+  { key: "all" },
+  { key: "messages", types: ["message"] },
+  { key: "moods", types: ["mood"] },
+  { key: "journal", types: ["journal"] },
+];
+
+export default function SearchScreen() {
+  const { t, locale } = useTranslation();
+  const { colors } = useAppTheme();
+  const router = useRouter();
+  const { convexUser: user } = useAuthState();
+  const { isEnabled: isEncrypted, reveal } = useEncryption();
+  const switchToConversation = useMutation(api.conversations.switchToConversation);
+  const [filter, setFilter] = useState(TYPE_FILTERS[0]);
+  const [limit, setLimit] = useState(PAGE_SIZE);
+
+  const searchBarOptions = useMemo(() => ({ placeholder: t("search.placeholder") }), [t]);
+  const search = useHeaderSearch(searchBarOptions);
+  const query = search.trim();
+
+  // A new search starts from the first page
+  useEffect(() => {
+    setLimit(PAGE_SIZE);
+  }, [query, filter]);
+
+  const data: { results: SearchResult[]; hasMore: boolean } | undefined = useQuery(api.search.search,
+    user?._id && query ? { userId: user._id, query, types: filter.types, limit } : "skip"
+  );
+
+  const textAlign = locale === "ar" ? "right" : "left";
+
+  const label = (result: SearchResult) => {
+    switch (result.type) {
+      case "message":
+        return `${result.role === "user" ? t("chat.you") : t("chat.assistant")} · ${result.conversationTitle ?? t("chat.search.untitled")}`;
+      case "mood":
+        return `${result.emoji ?? ""} ${t("search.mood").replace("{rating}", String(result.rating))}`.trim();
+      case "journal":
+        return reveal(result.title ?? undefined) ?? t("journal.untitled");
+    }
+  };
+
+  const open = async (result: SearchResult) => {
+    switch (result.type) {
+      case "message":
+        if (user?._id) {
+          await switchToConversation({ userId: user._id, conversationId: result.conversationId });
+        }
+        router.navigate("/(tabs)");
+        break;
+      case "mood":
+        router.navigate("/(tabs)/mood");
+        break;
+      case "journal":
+        router.push(`/journal-entry?id=${result.id}`);
+        break;
+    }
+  };
+
+  return (
+    <SafeAreaView style={[localStyles.container, { backgroundColor: colors.background.primary }]}>
+      <Stack.Screen options={{ title: t("search.title") }} />
+      <ScrollView
+        contentContainerStyle={localStyles.content}
+        contentInsetAdjustmentBehavior="automatic"
+        keyboardShouldPersistTaps="handled"
+      >
+        <View style={localStyles.chips}>
+          {TYPE_FILTERS.map((item) => {
+            const isSelected = filter.key === item.key;
+            return (
+              <TouchableOpacity
+                key={item.key}
+                onPress={() => setFilter(item)}
+                accessibilityRole="button"
+                accessibilityState={{ selected: isSelected }}
+                style={[
+                  localStyles.chip,
+                  {
+                    borderColor: colors.interactive.primary,
+                    backgroundColor: isSelected ? colors.interactive.primary : "transparent",
+                  },
+                ]}
+              >
+                <Text style={{ color: isSelected ? colors.text.inverse : colors.interactive.primary }}>
+                  {t(`search.filters.${item.key}`)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {isEncrypted ? (
+          <Text style={[localStyles.note, { color: colors.text.tertiary, textAlign }]}>{t("search.encryptedNote")}</Text>
+        ) : null}
+
+        {!query ? (
+          <Text style={[localStyles.note, { color: colors.text.tertiary, textAlign }]}>{t("search.hint")}</Text>
+        ) : data && data.results.length === 0 ? (
+          <Text style={[localStyles.note, { color: colors.text.tertiary, textAlign }]}>{t("search.noResults")}</Text>
+        ) : null}
+
+        {query ? data?.results.map((result) => (
+          <TouchableOpacity
+            key={result.id}
+            onPress={() => open(result)}
+            accessibilityRole="button"
+            style={[localStyles.card, { backgroundColor: colors.background.secondary, borderColor: colors.system.border }]}
+          >
+            <Text style={[localStyles.label, { color: colors.text.secondary, textAlign }]} numberOfLines={1}>
+              {label(result)}
+            </Text>
+            <Text style={[localStyles.note, { color: colors.text.tertiary, textAlign }]}>
+              {formatDate(result.timestamp, locale)}
+            </Text>
+            <SearchSnippet snippet={result.snippet} style={{ textAlign }} />
+          </TouchableOpacity>
+        )) : null}
+
+        {query && data?.hasMore ? (
+          <TouchableOpacity onPress={() => setLimit((current) => current + PAGE_SIZE)} accessibilityRole="button">
+            <Text style={[localStyles.action, { color: colors.interactive.primary }]}>{t("search.loadMore")}</Text>
+          </TouchableOpacity>
+        ) : null}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const localStyles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    gap: 12,
+  },
+  card: {
+    padding: 14,
+    borderRadius: 14,
+    borderWidth: 1,
+    gap: 4,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  note: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  action: {
+    fontSize: 15,
+    fontWeight: '600',
+    textAlign: 'center',
+    paddingVertical: 8,
+  },
+});
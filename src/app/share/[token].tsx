@@ -0,0 +1,190 @@
+import { api } from "@/convex/_generated/api";
+import { useTranslation } from "@/hooks/useLocale";
+import { useAppTheme } from "@/theme";
+import { formatDate, formatDateTime } from "@/utils/helpers";
+import { useMutation } from "convex/react";
+import { Stack, useLocalSearchParams } from "expo-router";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+
+type ShareScope = "moods" | "exercises" | "assessments" | "summaries" | "messages";
+
+interface SharedData {
+  name: string | null;
+  scopes: ShareScope[];
+  expiresAt: number;
+  historyDays: number;
+  moods?: { rating: number; factors: string[]; timestamp: number }[];
+  exercises?: { type: string; completedAt: number; duration: number | null }[];
+  assessments?: { name: string; totalScore: number; severityLabel: { en: string; ar: string }; completedAt: number }[];
+  summaries?: { summary: string; keyTopics: string[]; generatedAt: number }[];
+  messages?: { role: string; content: string; timestamp: number }[];
+}
+
+/**
+ * Read-only view a clinician opens from a share link. It does not require an
+ * account; the token in the URL is the only credential.
+ */
+export default function SharedProgressScreen() {
+  const { token } = useLocalSearchParams<{ token: string }>();
+  const { t, locale } = useTranslation();
+  const { colors } = useAppTheme();
+  const openSharedProgress = useMutation(api.sharing.openSharedProgress);
+  const [data, setData] = useState<SharedData | null>(null);
+  const [isUnavailable, setIsUnavailable] = useState(false);
+
+  const textAlign = locale === "ar" ? "right" : "left";
+
+  useEffect(() => {
+    if (!token) return;
+    let isCancelled = false;
+
+    const load = async () => {
+      try {
+        // Opening the link is what logs the visit, so it is a mutation, not a query
+        const shared: SharedData = await openSharedProgress({ token });
+        if (!isCancelled) setData(shared);
+      } catch (error) {
+        console.error("Loading shared progress failed:", error);
+        if (!isCancelled) setIsUnavailable(true);
+      }
+    };
+
+    load();
+    return () => {
+      isCancelled = true;
+    };
+  }, [token, openSharedProgress]);
+
+  const section = (scope: ShareScope, rows: { key: string; title: string; detail: string }[] | undefined) => {
+    if (!rows) return null;
+    return (
+      <View key={scope} style={localStyles.section}>
+        <Text style={[localStyles.sectionTitle, { color: colors.text.primary, textAlign }]}>
+          {t(`sharing.${scope}`)}
+        </Text>
+        {rows.length === 0 ? (
+          <Text style={[localStyles.note, { color: colors.text.tertiary, textAlign }]}>{t("sharing.noData")}</Text>
+        ) : null}
+        {rows.map((row) => (
+          <View
+            key={row.key}
+            style={[localStyles.card, { backgroundColor: colors.background.secondary, borderColor: colors.system.border }]}
+          >
+            <Text style={[localStyles.rowTitle, { color: colors.text.primary, textAlign }]}>{row.title}</Text>
+            <Text style={[localStyles.note, { color: colors.text.secondary, textAlign }]}>{row.detail}</Text>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  const content = () => {
+    if (isUnavailable) {
+      return (
+        <Text style={[localStyles.description, { color: colors.text.secondary, textAlign }]}>
+          {t("sharing.unavailable")}
+        </Text>
+      );
+    }
+    if (!data) {
+      return <ActivityIndicator color={colors.interactive.primary} />;
+    }
+    return (
+      <>
+        <Text style={[localStyles.heading, { color: colors.text.primary, textAlign }]}>
+          {t("sharing.sharedBy").replace("{name}", data.name ?? "—")}
+        </Text>
+        <Text style={[localStyles.note, { color: colors.text.secondary, textAlign }]}>
+          {t("sharing.readOnly").replace("{days}", String(data.historyDays))}
+        </Text>
+        <Text style={[localStyles.note, { color: colors.text.secondary, textAlign }]}>
+          {t("sharing.accessEnds").replace("{date}", formatDate(data.expiresAt, locale))}
+        </Text>
+
+        {section("moods", data.moods?.map((mood, index) => ({
+          key: `${mood.timestamp}-${index}`,
+          title: t("sharing.mood").replace("{rating}", String(mood.rating)),
+          detail: [formatDateTime(mood.timestamp, locale), ...mood.factors].join(" · "),
+        })))}
+        {section("exercises", data.exercises?.map((exercise, index) => ({
+          key: `${exercise.completedAt}-${index}`,
+          title: exercise.type,
+          detail: [
+            formatDateTime(exercise.completedAt, locale),
+            ...(exercise.duration ? [t("sharing.sessions").replace("{minutes}", String(Math.round(exercise.duration / 60)))] : []),
+          ].join(" · "),
+        })))}
+        {section("assessments", data.assessments?.map((assessment, index) => ({
+          key: `${assessment.completedAt}-${index}`,
+          title: `${assessment.name}: ${assessment.totalScore}`,
+          detail: `${assessment.severityLabel[locale]} · ${formatDate(assessment.completedAt, locale)}`,
+        })))}
+        {section("summaries", data.summaries?.map((summary, index) => ({
+          key: `${summary.generatedAt}-${index}`,
+          title: formatDate(summary.generatedAt, locale),
+          detail: [summary.summary, summary.keyTopics.join(", ")].filter(Boolean).join("\n"),
+        })))}
+        {section("messages", data.messages?.map((message, index) => ({
+          key: `${message.timestamp}-${index}`,
+          title: `${message.role === "user" ? t("sharing.you") : t("sharing.assistant")} · ${formatDateTime(message.timestamp, locale)}`,
+          detail: message.content,
+        })))}
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[localStyles.container, { backgroundColor: colors.background.primary }]}>
+      <Stack.Screen options={{ title: t("sharing.viewTitle") }} />
+      <ScrollView contentContainerStyle={localStyles.content}>{content()}</ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const localStyles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    gap: 12,
+  },
+  heading: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  description: {
+    fontSize: 15,
+    lineHeight: 21,
+  },
+  section: {
+    gap: 8,
+    marginTop: 8,
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  card: {
+    padding: 14,
+    borderRadius: 14,
+    borderWidth: 1,
+    gap: 4,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  note: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+});
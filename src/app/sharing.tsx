@@ -0,0 +1,286 @@
+import { Switch } from "@/components/core";
+import { BaseInput, PrimaryButton } from "@/components/forms";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { useAuthState } from "@/hooks/useAuthState";
+import { useTranslation } from "@/hooks/useLocale";
+import { useAppTheme } from "@/theme";
+import { formatDate } from "@/utils/helpers";
+import { useAction, useMutation, useQuery } from "convex/react";
+import * as Linking from "expo-linking";
+import { Stack } from "expo-router";
+import React, { useState } from "react";
+import {
+  Alert,
+  SafeAreaView,
+  ScrollView,
+  Share,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+type ShareScope = "moods" | "exercises" | "assessments" | "summaries" | "messages";
+
+interface ShareGrantSummary {
+  _id: Id<"shareGrants">;
+  label: string | null;
+  scopes: ShareScope[];
+  status: "active" | "expired" | "revoked";
+  expiresAt: number;
+  lastAccessedAt: number | null;
+  accessCount: number;
+}
+
+// Chat messages are listed last and start switched off
+const SCOPES: ShareScope[] = ["moods", "exercises", "assessments", "summaries", "messages"];
+const DEFAULT_SCOPES: ShareScope[] = ["moods", "exercises", "assessments"];
+
+const DURATIONS = [
+  { days: 1, labelKey: "sharing.days1" },
+  { days: 7, labelKey: "sharing.days7" },
+  { days: 30, labelKey: "sharing.days30" },
+];
+
+export default function SharingScreen() {
+  const { t, locale } = useTranslation();
+  const { colors } = useAppTheme();
+  const { convexUser: user } = useAuthState();
+  const [scopes, setScopes] = useState<ShareScope[]>(DEFAULT_SCOPES);
+  const [days, setDays] = useState(DURATIONS[1].days);
+  const [label, setLabel] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const [newLink, setNewLink] = useState<string | null>(null);
+
+  const grants: ShareGrantSummary[] | undefined = useQuery(api.sharing.listShareGrants,
+    user?._id ? { userId: user._id } : "skip"
+  );
+  const createShareGrant = useAction(api.sharing.createShareGrant);
+  const revokeShareGrant = useMutation(api.sharing.revokeShareGrant);
+
+  const textAlign = locale === "ar" ? "right" : "left";
+
+  const toggleScope = (scope: ShareScope, enabled: boolean) => {
+    setScopes(enabled ? [...scopes, scope] : scopes.filter((s) => s !== scope));
+  };
+
+  const shareLink = async (url: string) => {
+    await Share.share({ message: t("sharing.shareMessage").replace("{url}", url) });
+  };
+
+  const handleCreate = async () => {
+    if (!user?._id) return;
+    setIsCreating(true);
+    try {
+      const { token } = await createShareGrant({ userId: user._id, scopes, expiresInDays: days, label });
+      const url = Linking.createURL(`/share/${token}`);
+      setNewLink(url);
+      setLabel("");
+      await shareLink(url);
+    } catch (error) {
+      console.error("Creating share link failed:", error);
+      Alert.alert(t("sharing.title"), t("sharing.failed"));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = (grant: ShareGrantSummary) => {
+    if (!user?._id) return;
+    Alert.alert(t("sharing.title"), t("sharing.revokeConfirm"), [
+      { text: t("cancel"), style: "cancel" },
+      {
+        text: t("sharing.revoke"),
+        style: "destructive",
+        onPress: () => {
+          revokeShareGrant({ userId: user._id, grantId: grant._id }).catch((error) =>
+            console.error("Revoking share link failed:", error)
+          );
+        },
+      },
+    ]);
+  };
+
+  const statusText = (grant: ShareGrantSummary) => {
+    if (grant.status === "revoked") return t("sharing.revoked");
+    if (grant.status === "expired") return t("sharing.expired");
+    return t("sharing.active").replace("{date}", formatDate(grant.expiresAt, locale));
+  };
+
+  return (
+    <SafeAreaView style={[localStyles.container, { backgroundColor: colors.background.primary }]}>
+      <Stack.Screen options={{ title: t("sharing.title") }} />
+      <ScrollView contentContainerStyle={localStyles.content}>
+        <Text style={[localStyles.description, { color: colors.text.secondary, textAlign }]}>
+          {t("sharing.description")}
+        </Text>
+
+        <Text style={[localStyles.sectionTitle, { color: colors.text.primary, textAlign }]}>
+          {t("sharing.whatToShare")}
+        </Text>
+        {SCOPES.map((scope) => (
+          <View key={scope}>
+            <View style={localStyles.row}>
+              <Text style={[localStyles.rowLabel, { color: colors.text.primary, textAlign }]}>
+                {t(`sharing.${scope}`)}
+              </Text>
+              <Switch value={scopes.includes(scope)} onValueChange={(value) => toggleScope(scope, value)} />
+            </View>
+            {scope === "messages" ? (
+              <Text style={[localStyles.note, { color: colors.text.tertiary, textAlign }]}>
+                {t("sharing.messagesWarning")}
+              </Text>
+            ) : null}
+          </View>
+        ))}
+
+        <Text style={[localStyles.sectionTitle, { color: colors.text.primary, textAlign }]}>
+          {t("sharing.duration")}
+        </Text>
+        <View style={localStyles.chips}>
+          {DURATIONS.map((duration) => {
+            const isSelected = days === duration.days;
+            return (
+              <TouchableOpacity
+                key={duration.days}
+                onPress={() => setDays(duration.days)}
+                accessibilityRole="button"
+                accessibilityState={{ selected: isSelected }}
+                style={[
+                  localStyles.chip,
+                  {
+                    borderColor: colors.interactive.primary,
+                    backgroundColor: isSelected ? colors.interactive.primary : "transparent",
+                  },
+                ]}
+              >
+                <Text style={{ color: isSelected ? colors.text.inverse : colors.interactive.primary }}>
+                  {t(duration.labelKey)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <BaseInput label={t("sharing.label")} value={label} onChangeText={setLabel} />
+
+        <PrimaryButton
+          title={isCreating ? t("sharing.creating") : t("sharing.create")}
+          onPress={handleCreate}
+          loading={isCreating}
+          disabled={!user || isCreating || scopes.length === 0}
+          fullWidth
+          style={localStyles.button}
+        />
+
+        {newLink ? (
+          <View style={[localStyles.card, { backgroundColor: colors.background.secondary, borderColor: colors.system.border }]}>
+            <Text style={[localStyles.note, { color: colors.text.secondary, textAlign }]}>{t("sharing.linkReady")}</Text>
+            <Text selectable style={[localStyles.link, { color: colors.text.primary }]}>{newLink}</Text>
+            <TouchableOpacity onPress={() => shareLink(newLink)} accessibilityRole="button">
+              <Text style={[localStyles.action, { color: colors.interactive.primary, textAlign }]}>{t("sharing.share")}</Text>
+            </TouchableOpacity>
+          </View>
+        ) : null}
+
+        <Text style={[localStyles.sectionTitle, { color: colors.text.primary, textAlign }]}>
+          {t("sharing.yourLinks")}
+        </Text>
+        {grants && grants.length === 0 ? (
+          <Text style={[localStyles.note, { color: colors.text.tertiary, textAlign }]}>{t("sharing.empty")}</Text>
+        ) : null}
+        {grants?.map((grant) => (
+          <View
+            key={grant._id}
+            style={[localStyles.card, { backgroundColor: colors.background.secondary, borderColor: colors.system.border }]}
+          >
+            <Text style={[localStyles.rowLabel, { color: colors.text.primary, textAlign }]}>
+              {grant.label ?? t("sharing.unnamed")}
+            </Text>
+            <Text style={[localStyles.note, { color: colors.text.secondary, textAlign }]}>
+              {grant.scopes.map((scope) => t(`sharing.${scope}`)).join(" · ")}
+            </Text>
+            <Text style={[localStyles.note, { color: colors.text.secondary, textAlign }]}>{statusText(grant)}</Text>
+            <Text style={[localStyles.note, { color: colors.text.tertiary, textAlign }]}>
+              {grant.lastAccessedAt
+                ? t("sharing.opened")
+                    .replace("{count}", String(grant.accessCount))
+                    .replace("{date}", formatDate(grant.lastAccessedAt, locale))
+                : t("sharing.neverOpened")}
+            </Text>
+            {grant.status === "active" ? (
+              <TouchableOpacity onPress={() => handleRevoke(grant)} accessibilityRole="button">
+                <Text style={[localStyles.action, { color: colors.interactive.destructive, textAlign }]}>
+                  {t("sharing.revoke")}
+                </Text>
+              </TouchableOpacity>
+            ) : null}
+          </View>
+        ))}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const localStyles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    gap: 12,
+  },
+  description: {
+    fontSize: 15,
+    lineHeight: 21,
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    marginTop: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  rowLabel: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  note: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  card: {
+    padding: 14,
+    borderRadius: 14,
+    borderWidth: 1,
+    gap: 4,
+  },
+  link: {
+    fontSize: 13,
+  },
+  action: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  button: {
+    marginTop: 12,
+  },
+});
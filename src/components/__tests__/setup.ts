@@ -235,6 +235,19 @@ jest.mock('@/hooks/useLocale', () => ({
     t: jest.fn((key: string) => key),
     isRTL: false,
   })),
+  useTranslation: jest.fn(() => ({
+    locale: 'en',
+    t: jest.fn((key: string) => key),
+  })),
+}));
+
+// Mock expo-router navigation
+jest.mock('expo-router', () => ({
+  useRouter: jest.fn(() => ({
+    push: jest.fn(),
+    back: jest.fn(),
+    replace: jest.fn(),
+  })),
 }));
 
 // Mock async storage
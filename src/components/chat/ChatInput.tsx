@@ -1,6 +1,7 @@
 import React from "react";
 import { View, TextInput, TouchableOpacity, StyleSheet, Platform } from "react-native";
 import { IconSymbol } from "@/components/core/Icon/IconSymbol";
+import { useTranslation } from "@/hooks/useLocale";
 
 interface ChatInputProps {
   messageText: string;
@@ -9,6 +10,8 @@ interface ChatInputProps {
   placeholder: string;
   theme: any;
   activeConversation: any;
+  isGenerating?: boolean;
+  onCancelGeneration?: () => void;
 }
 
 export function ChatInput({ 
@@ -17,8 +20,11 @@ export function ChatInput({
   onSendMessage, 
   placeholder, 
   theme,
-  activeConversation 
+  activeConversation,
+  isGenerating = false,
+  onCancelGeneration,
 }: ChatInputProps) {
+  const { t } = useTranslation();
   if (!activeConversation) return null;
 
   return (
@@ -40,16 +46,28 @@ export function ChatInput({
         maxLength={1000}
         textAlignVertical="top"
       />
-      <TouchableOpacity
-        style={[styles.sendButton, { 
-          backgroundColor: messageText.trim() ? theme.colors.interactive.primary : theme.colors.interactive.disabled,
-          opacity: messageText.trim() ? 1 : 0.5
-        }]}
-        onPress={onSendMessage}
-        disabled={!messageText.trim()}
-      >
-        <IconSymbol name="paperplane.fill" size={20} color={theme.colors.text.inverse} />
-      </TouchableOpacity>
+      {isGenerating && onCancelGeneration ? (
+        // While a reply is being generated the send button becomes a stop button
+        <TouchableOpacity
+          style={[styles.sendButton, { backgroundColor: theme.colors.interactive.primary }]}
+          onPress={onCancelGeneration}
+          accessibilityRole="button"
+          accessibilityLabel={t("chat.stopGenerating")}
+        >
+          <IconSymbol name="stop.fill" size={18} color={theme.colors.text.inverse} />
+        </TouchableOpacity>
+      ) : (
+        <TouchableOpacity
+          style={[styles.sendButton, { 
+            backgroundColor: messageText.trim() ? theme.colors.interactive.primary : theme.colors.interactive.disabled,
+            opacity: messageText.trim() ? 1 : 0.5
+          }]}
+          onPress={onSendMessage}
+          disabled={!messageText.trim()}
+        >
+          <IconSymbol name="paperplane.fill" size={20} color={theme.colors.text.inverse} />
+        </TouchableOpacity>
+      )}
     </View>
   );
 }
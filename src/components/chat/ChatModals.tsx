@@ -63,7 +63,12 @@ export function ChatModals({
         onClose={() => setShowSearch(false)}
         conversationId={activeConversation?._id}
         locale={locale}
-        onSelectMessage={(messageId) => {
+        onSelectMessage={(messageId, conversationId) => {
+          // Hits from other conversations open that conversation
+          if (conversationId !== activeConversation?._id) {
+            onSwitchConversation(conversationId);
+            return;
+          }
           // Find the message in the current list and scroll to it
           const messageIndex = messages.findIndex(msg => msg._id === messageId);
           if (messageIndex !== -1 && listRef.current) {
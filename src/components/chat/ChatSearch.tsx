@@ -13,31 +13,67 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { IconSymbol } from '../core/Icon/IconSymbol';
+import { SearchSnippet, Snippet } from '../search';
 import { useTheme } from '@/theme';
 import { useTranslation } from '@/hooks/useLocale';
+import { useAuthState } from '@/hooks/useAuthState';
 import { useQuery } from 'convex/react';
 import { api } from '@/convex/_generated/api';
+import { Id } from '@/convex/_generated/dataModel';
 import { formatMessageTime } from '@/utils/dateHelpers';
 
 interface ChatSearchProps {
   isVisible: boolean;
   onClose: () => void;
   conversationId: string | undefined;
-  onSelectMessage?: (messageId: string) => void;
+  onSelectMessage?: (messageId: string, conversationId: string) => void;
   locale: string;
 }
 
+interface MessageResult {
+  type: 'message';
+  id: Id<'messages'>;
+  conversationId: Id<'conversations'>;
+  conversationTitle: string | null;
+  role: 'user' | 'assistant';
+  timestamp: number;
+  snippet: Snippet;
+}
+
+type Scope = 'conversation' | 'all';
+type RoleFilter = 'user' | 'assistant' | undefined;
+type DateRange = 'any' | 'week' | 'month';
+
+const PAGE_SIZE = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RANGE_DAYS: Record<Exclude<DateRange, 'any'>, number> = { week: 7, month: 30 };
+
 export function ChatSearch({ isVisible, onClose, conversationId, onSelectMessage, locale }: ChatSearchProps) {
   const { theme } = useTheme();
   const { t } = useTranslation();
+  const { convexUser: user } = useAuthState();
   const [searchQuery, setSearchQuery] = useState('');
   const [isSearching, setIsSearching] = useState(false);
+  const [scope, setScope] = useState<Scope>('conversation');
+  const [role, setRole] = useState<RoleFilter>();
+  const [range, setRange] = useState<DateRange>('any');
+  // Fixed when the range is picked so the query arguments stay stable
+  const [from, setFrom] = useState<number | undefined>();
+  const [limit, setLimit] = useState(PAGE_SIZE);
 
-  // Query for search results
-  const searchResults = useQuery(
-    api.messages.searchMessages,
-    searchQuery.trim() && conversationId && isSearching
-      ? { conversationId: conversationId as any, searchQuery: searchQuery.trim() }
+  // Search every conversation unless limited to the open one
+  const searchResults: { results: MessageResult[]; hasMore: boolean } | undefined = useQuery(
+    api.search.search,
+    searchQuery.trim() && user?._id && isSearching && (scope === 'all' || conversationId)
+      ? {
+          userId: user._id,
+          query: searchQuery.trim(),
+          types: ['message'],
+          conversationId: scope === 'conversation' ? conversationId as Id<'conversations'> : undefined,
+          role,
+          from,
+          limit,
+        }
       : 'skip'
   );
 
@@ -45,6 +81,7 @@ export function ChatSearch({ isVisible, onClose, conversationId, onSelectMessage
   const handleSearch = useCallback(() => {
     if (searchQuery.trim()) {
       setIsSearching(true);
+      setLimit(PAGE_SIZE);
     }
   }, [searchQuery]);
 
@@ -54,25 +91,31 @@ export function ChatSearch({ isVisible, onClose, conversationId, onSelectMessage
     setIsSearching(false);
   }, []);
 
-  // Highlight search term in text
-  const highlightText = (text: string, query: string) => {
-    if (!query) return text;
-    
-    const parts = text.split(new RegExp(`(${query})`, 'gi'));
-    return (
-      <Text>
-        {parts.map((part, index) =>
-          part.toLowerCase() === query.toLowerCase() ? (
-            <Text key={index} style={styles.highlight}>
-              {part}
-            </Text>
-          ) : (
-            part
-          )
-        )}
+  const selectRange = useCallback((value: DateRange) => {
+    setRange(value);
+    setFrom(value === 'any' ? undefined : Date.now() - RANGE_DAYS[value] * DAY_MS);
+    setLimit(PAGE_SIZE);
+  }, []);
+
+  const filterChip = (key: string, label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityState={{ selected: isSelected }}
+      style={[
+        styles.chip,
+        {
+          borderColor: theme.colors.interactive.primary,
+          backgroundColor: isSelected ? theme.colors.interactive.primary : 'transparent',
+        },
+      ]}
+    >
+      <Text style={[styles.chipText, { color: isSelected ? theme.colors.text.inverse : theme.colors.interactive.primary }]}>
+        {label}
       </Text>
-    );
-  };
+    </TouchableOpacity>
+  );
 
   return (
     <Modal
@@ -117,20 +160,36 @@ export function ChatSearch({ isVisible, onClose, conversationId, onSelectMessage
             ) : null}
           </View>
 
+          {/* Filters */}
+          <View style={styles.filters}>
+            {filterChip('conversation', t('chat.search.thisConversation'), scope === 'conversation', () => setScope('conversation'))}
+            {filterChip('all', t('chat.search.allConversations'), scope === 'all', () => setScope('all'))}
+          </View>
+          <View style={styles.filters}>
+            {filterChip('everyone', t('chat.search.everyone'), role === undefined, () => setRole(undefined))}
+            {filterChip('user', t('chat.you'), role === 'user', () => setRole('user'))}
+            {filterChip('assistant', t('chat.assistant'), role === 'assistant', () => setRole('assistant'))}
+          </View>
+          <View style={styles.filters}>
+            {filterChip('any', t('chat.search.anyTime'), range === 'any', () => selectRange('any'))}
+            {filterChip('week', t('chat.search.pastWeek'), range === 'week', () => selectRange('week'))}
+            {filterChip('month', t('chat.search.pastMonth'), range === 'month', () => selectRange('month'))}
+          </View>
+
           {/* Results */}
           <View style={styles.resultsContainer}>
             {isSearching && searchResults === undefined ? (
               <View style={styles.loadingContainer}>
                 <ActivityIndicator size="large" color={theme.colors.interactive.primary} />
               </View>
-            ) : searchResults?.messages && searchResults.messages.length > 0 ? (
+            ) : searchResults && searchResults.results.length > 0 ? (
               <>
                 <Text style={[styles.resultCount, { color: theme.colors.text.secondary }]}>
-                  {searchResults.totalMatches} {t('chat.search.results')}
+                  {searchResults.results.length}{searchResults.hasMore ? '+' : ''} {t('chat.search.results')}
                 </Text>
                 <FlatList
-                  data={searchResults.messages}
-                  keyExtractor={(item) => item._id}
+                  data={searchResults.results}
+                  keyExtractor={(item) => item.id}
                   renderItem={({ item }) => (
                     <TouchableOpacity
                       style={[
@@ -141,30 +200,37 @@ export function ChatSearch({ isVisible, onClose, conversationId, onSelectMessage
                         }
                       ]}
                       onPress={() => {
-                        onSelectMessage?.(item._id);
+                        onSelectMessage?.(item.id, item.conversationId);
                         onClose();
                       }}
                     >
                       <View style={styles.resultHeader}>
                         <Text style={[styles.resultRole, { color: theme.colors.text.secondary }]}>
                           {item.role === 'user' ? t('chat.you') : t('chat.assistant')}
+                          {scope === 'all' ? ` · ${item.conversationTitle ?? t('chat.search.untitled')}` : ''}
                         </Text>
                         <Text style={[styles.resultTime, { color: theme.colors.text.secondary }]}>
                           {formatMessageTime(item.timestamp, locale)}
                         </Text>
                       </View>
-                      <Text
-                        style={[styles.resultContent, { color: theme.colors.text.primary }]}
-                        numberOfLines={3}
-                      >
-                        {highlightText(item.content, searchQuery)}
-                      </Text>
+                      <SearchSnippet snippet={item.snippet} style={styles.resultContent} />
                     </TouchableOpacity>
                   )}
+                  ListFooterComponent={searchResults.hasMore ? (
+                    <TouchableOpacity
+                      onPress={() => setLimit(current => current + PAGE_SIZE)}
+                      accessibilityRole="button"
+                      style={styles.loadMore}
+                    >
+                      <Text style={[styles.loadMoreText, { color: theme.colors.interactive.primary }]}>
+                        {t('chat.search.loadMore')}
+                      </Text>
+                    </TouchableOpacity>
+                  ) : null}
                   contentContainerStyle={styles.resultsList}
                 />
               </>
-            ) : isSearching && searchResults?.messages.length === 0 ? (
+            ) : isSearching && searchResults?.results.length === 0 ? (
               <View style={styles.emptyContainer}>
                 <IconSymbol name="magnifyingglass" size={48} color={theme.colors.text.secondary} />
                 <Text style={[styles.emptyText, { color: theme.colors.text.secondary }]}>
@@ -257,8 +323,28 @@ const styles = StyleSheet.create({
     fontSize: 14,
     lineHeight: 20,
   },
-  highlight: {
-    backgroundColor: 'rgba(255, 204, 0, 0.3)',
+  filters: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipText: {
+    fontSize: 13,
+  },
+  loadMore: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  loadMoreText: {
+    fontSize: 15,
     fontWeight: '600',
   },
   emptyContainer: {
@@ -1,6 +1,7 @@
 import { GlassInput } from '@/components/glass';
 import { useTypingDotsAnimation } from '@/hooks/animations';
 import { useChatManager } from '@/hooks/useChatManager';
+import { useTranslation } from '@/hooks/useLocale';
 import { useAppTheme } from '@/theme';
 import { LinearGradient } from 'expo-linear-gradient';
 import React, { useEffect, useState } from 'react';
@@ -23,6 +24,7 @@ import Animated, {
 } from 'react-native-reanimated';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { IconSymbol } from '../core/Icon/IconSymbol';
+import { QuickReplySuggestions } from './QuickReplySuggestions';
 
 const { width } = Dimensions.get('window');
 
@@ -99,14 +101,18 @@ export function FloatingChatMode({
   onSwitchToFullChat,
 }: FloatingChatModeProps) {
   const { colors, isDark } = useAppTheme();
+  const { t } = useTranslation();
   const insets = useSafeAreaInsets();
   const [inputText, setInputText] = useState('');
   
   // Use chat manager for real AI conversations
   const {
     handleSendMessage: sendToAI,
+    handleCancelGeneration,
     isTyping,
+    isGenerating,
     floatingMessages,
+    quickReplies,
   } = useChatManager('floating');
   
   // Animation values for message transitions
@@ -201,6 +207,13 @@ export function FloatingChatMode({
 
             {/* Input area at bottom */}
             <View style={styles.inputArea}>
+              <QuickReplySuggestions
+                suggestions={quickReplies}
+                onSelect={sendToAI}
+                mode="floating"
+                isVisible={quickReplies.length > 0 && !isGenerating}
+              />
+
               <GlassInput
                 variant="input"
                 borderRadius={30}
@@ -224,14 +237,23 @@ export function FloatingChatMode({
                     returnKeyType="send"
                     onSubmitEditing={handleSendMessage}
                   />
-                  {inputText.trim() && (
+                  {isGenerating ? (
+                    <TouchableOpacity
+                      style={styles.sendButton}
+                      onPress={handleCancelGeneration}
+                      accessibilityRole="button"
+                      accessibilityLabel={t('chat.stopGenerating')}
+                    >
+                      <IconSymbol name="stop.fill" size={28} color="#6495ED" />
+                    </TouchableOpacity>
+                  ) : inputText.trim() ? (
                     <TouchableOpacity
                       style={styles.sendButton}
                       onPress={handleSendMessage}
                     >
                       <IconSymbol name="arrow.up.circle.fill" size={32} color="#6495ED" />
                     </TouchableOpacity>
-                  )}
+                  ) : null}
                 </View>
               </GlassInput>
             </View>
@@ -290,6 +312,7 @@ const styles = StyleSheet.create({
   inputArea: {
     paddingHorizontal: 24,
     paddingTop: 20,
+    gap: 12,
   },
   blurContainer: {
     borderRadius: 30,
@@ -7,6 +7,12 @@ import Animated, {
   FadeInDown,
 } from "react-native-reanimated";
 import { colorUtils } from "@/theme/colors";
+import { useRouter } from "expo-router";
+import { useTranslation } from "@/hooks/useLocale";
+import { useExerciseDefinitions } from "@/hooks/useExerciseDefinitions";
+import { ChatMessage } from "@/hooks/useChatManager";
+
+type ChatAction = NonNullable<ChatMessage['actions']>[number];
 
 interface MessageGroupData {
   id: string;
@@ -32,6 +38,38 @@ export const MessageGroup = React.memo<MessageGroupProps>(({
   formatMessageTime, 
   locale 
 }) => {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { definitions } = useExerciseDefinitions();
+
+  const actionLabel = (action: ChatAction) => {
+    switch (action.type) {
+      case 'start-exercise': {
+        const exercise = definitions.find(item => item.exerciseId === action.exerciseId);
+        return t('chat.actions.startExercise').replace('{exercise}', exercise ? exercise.title[locale === 'ar' ? 'ar' : 'en'] : '');
+      }
+      case 'open-thought-record':
+        return t('chat.actions.openThoughtRecord');
+      case 'log-mood':
+        return t('chat.actions.logMood');
+    }
+  };
+
+  // Exercises open pre-filled in the player and are linked back to this message
+  const openAction = (message: any, action: ChatAction) => {
+    if (action.type === 'log-mood') {
+      router.push('/(tabs)/mood?track=1');
+      return;
+    }
+    const params = [
+      `start=${action.exerciseId}`,
+      `conversationId=${message.conversationId}`,
+      `messageId=${message._id}`,
+      ...(action.thoughtText ? [`thought=${encodeURIComponent(action.thoughtText)}`] : []),
+    ];
+    router.push(`/(tabs)/exercises?${params.join('&')}`);
+  };
+
   return (
     <View>
       {/* Date Separator */}
@@ -60,8 +98,60 @@ export const MessageGroup = React.memo<MessageGroupProps>(({
               ]}
             >
               {item.content}
+              {/* Caret while the reply is still streaming in */}
+              {item.status === 'streaming' ? ' ▍' : null}
             </Text>
           
+          {/* Crisis replies link straight to hotlines */}
+          {item.metadata?.isEmergency ? (
+            <TouchableOpacity
+              onPress={() => router.push('/crisis')}
+              style={[styles.crisisButton, { backgroundColor: theme.colors.interactive.destructive }]}
+              accessibilityRole="button"
+            >
+              <Text style={[styles.crisisButtonText, { color: theme.colors.text.inverse }]}>
+                {t('crisis.getHelp')}
+              </Text>
+            </TouchableOpacity>
+          ) : null}
+
+          {/* Actions the assistant offered, once the reply has finished */}
+          {item.actions?.length > 0 && item.status !== 'streaming' ? (
+            <View style={styles.actionsContainer}>
+              {item.actions.map((action: ChatAction, actionIndex: number) => (
+                <TouchableOpacity
+                  key={`${item._id}-action-${actionIndex}`}
+                  onPress={() => openAction(item, action)}
+                  disabled={!!action.completedExerciseId}
+                  accessibilityRole="button"
+                  accessibilityState={{ disabled: !!action.completedExerciseId }}
+                  style={[
+                    styles.actionCard,
+                    {
+                      borderColor: theme.colors.interactive.primary,
+                      opacity: action.completedExerciseId ? 0.6 : 1,
+                    },
+                  ]}
+                >
+                  <Text style={[styles.actionLabel, { color: theme.colors.interactive.primary }]}>
+                    {action.completedExerciseId ? `✓ ${t('chat.actions.completed')}` : actionLabel(action)}
+                  </Text>
+                  {action.thoughtText ? (
+                    <Text
+                      style={[
+                        styles.actionThought,
+                        { color: theme.colors.text.secondary, textAlign: locale === 'ar' ? 'right' : 'left' },
+                      ]}
+                      numberOfLines={2}
+                    >
+                      “{action.thoughtText}”
+                    </Text>
+                  ) : null}
+                </TouchableOpacity>
+              ))}
+            </View>
+          ) : null}
+
           {/* Message reactions */}
           {(item.reactions?.length > 0) ? (
             <View style={styles.reactionsContainer}>
@@ -189,6 +279,36 @@ const styles = StyleSheet.create({
     fontSize: 16,
     lineHeight: 22,
   },
+  crisisButton: {
+    alignSelf: 'flex-start',
+    marginTop: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 14,
+  },
+  crisisButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  actionsContainer: {
+    marginTop: 10,
+    gap: 8,
+  },
+  actionCard: {
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+  },
+  actionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  actionThought: {
+    fontSize: 13,
+    marginTop: 4,
+    fontStyle: 'italic',
+  },
   reactionsContainer: {
     flexDirection: 'row',
     marginTop: 6,
@@ -1,6 +1,7 @@
 import './setup';
 import React from 'react';
 import { render, screen, fireEvent } from '@testing-library/react-native';
+import { useRouter } from 'expo-router';
 import { MessageGroup } from '../MessageGroup';
 
 const mockTheme = {
@@ -119,6 +120,62 @@ describe('MessageGroup', () => {
       
       expect(mockOnMessageLongPress).toHaveBeenCalledWith(mockEvent, 'msg-2');
     });
+
+    it('links emergency replies to the crisis screen', () => {
+      const push = jest.fn();
+      (useRouter as jest.Mock).mockReturnValue({ push });
+      const group = {
+        ...mockGroupData,
+        messages: [{
+          _id: 'msg-3',
+          role: 'assistant',
+          content: 'Your safety is the top priority.',
+          _creationTime: 1634567910000,
+          metadata: { isEmergency: true },
+        }],
+      };
+
+      render(<MessageGroup {...mockProps} group={group} />);
+      fireEvent.press(screen.getByText('crisis.getHelp'));
+
+      expect(push).toHaveBeenCalledWith('/crisis');
+    });
+
+    it('opens offered actions pre-filled and linked to the message', () => {
+      const push = jest.fn();
+      (useRouter as jest.Mock).mockReturnValue({ push });
+      const group = {
+        ...mockGroupData,
+        messages: [{
+          _id: 'msg-4',
+          conversationId: 'conv-1',
+          role: 'assistant',
+          content: 'Let us look at that thought.',
+          _creationTime: 1634567920000,
+          actions: [
+            { type: 'open-thought-record', exerciseId: 'thought-record', thoughtText: 'I will fail & everyone will know' },
+            { type: 'log-mood' },
+            { type: 'start-exercise', exerciseId: 'box-breathing', completedExerciseId: 'ex-1' },
+          ],
+        }],
+      };
+
+      render(<MessageGroup {...mockProps} group={group} />);
+      fireEvent.press(screen.getByText('chat.actions.openThoughtRecord'));
+      fireEvent.press(screen.getByText('chat.actions.logMood'));
+
+      expect(push).toHaveBeenCalledWith(
+        '/(tabs)/exercises?start=thought-record&conversationId=conv-1&messageId=msg-4&thought=I%20will%20fail%20%26%20everyone%20will%20know'
+      );
+      expect(push).toHaveBeenCalledWith('/(tabs)/mood?track=1');
+      expect(screen.getByText('✓ chat.actions.completed')).toBeTruthy();
+    });
+
+    it('does not show the crisis link on regular replies', () => {
+      render(<MessageGroup {...mockProps} />);
+
+      expect(screen.queryByText('crisis.getHelp')).toBeNull();
+    });
   });
 
   describe('Message Styling', () => {
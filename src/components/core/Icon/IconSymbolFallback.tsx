@@ -45,6 +45,9 @@ const iconMapping = {
   "book.fill": { library: "MaterialIcons", name: "menu-book" },
   "bell.fill": { library: "MaterialIcons", name: "notifications" },
   "mic.fill": { library: "MaterialIcons", name: "mic" },
+  "stop.fill": { library: "MaterialIcons", name: "stop" },
+  "phone.fill": { library: "MaterialIcons", name: "phone" },
+  "person.2.fill": { library: "MaterialIcons", name: "people" },
 } as const;
 
 export type IconSymbolName = keyof typeof iconMapping;
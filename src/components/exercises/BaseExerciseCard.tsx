@@ -1,7 +1,7 @@
 import { IconSymbol } from '@/components/core/Icon/IconSymbol';
 import { GlassOverlay } from '@/components/glass';
 import { GLASS_OVERLAY_COLORS } from '@/hooks/glass';
-import { useLocale, useTranslation } from '@/hooks/useLocale';
+import { useLocale } from '@/hooks/useLocale';
 import { useTheme, useAppTheme } from '@/theme';
 import {
   BaseExerciseCardProps,
@@ -49,7 +49,6 @@ export function BaseExerciseCard({
   const { colors } = useTheme();
   const { typography } = useAppTheme();
   const { locale } = useLocale();
-  const { t } = useTranslation();
 
   // Safety check for undefined exercise
   if (!exercise) {
@@ -103,11 +102,11 @@ export function BaseExerciseCard({
       {/* Exercise Info */}
       <View style={styles.content}>
         <Text style={[typography.bodyMedium, styles.title]} numberOfLines={2}>
-          {t(exercise.titleKey)}
+          {exercise.title[locale]}
         </Text>
         
         <Text style={[typography.small, styles.description]} numberOfLines={2}>
-          {t(exercise.descriptionKey)}
+          {exercise.description[locale]}
         </Text>
 
         {/* Duration and Difficulty */}
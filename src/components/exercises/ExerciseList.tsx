@@ -1,11 +1,13 @@
 import React from "react";
 import { GenericList } from "@/components/data-display/GenericList";
+import { ExerciseRecommendation } from "@/types";
 import { SwipeableExerciseCard } from "./SwipeableExerciseCard";
 
 interface ExerciseListProps {
   exercises: any[];
   favorites: Set<string>;
-  recommendation: any;
+  // The top-ranked exercise, marked as recommended
+  recommendation: ExerciseRecommendation | undefined;
   exerciseHistory: any[];
   onExercisePress: (exercise: any) => void;
   onFavoriteToggle: (exerciseId: string) => void;
@@ -51,7 +53,7 @@ export const ExerciseList = React.memo<ExerciseListProps>(({
     }
     
     const exerciseData = getExerciseData(exercise.id);
-    const isRecommended = recommendation?.type === exercise.type;
+    const isRecommended = recommendation?.exerciseId === exercise.id;
     const isFavorited = favorites.has(exercise.id);
     
     return (
@@ -14,114 +14,129 @@ import Animated, {
   useSharedValue,
   useAnimatedStyle,
   withTiming,
-  withRepeat,
-  withSequence,
 } from 'react-native-reanimated';
 import { useFadeAnimation } from '@/hooks/animations';
 import { SafeAreaView , useSafeAreaInsets } from 'react-native-safe-area-context';
 import { IconSymbol } from '@/components/core/Icon/IconSymbol';
 import { useTheme } from '@/theme';
 import { useLocale } from '@/hooks/useLocale';
+import { useEncryption } from '@/hooks/useEncryption';
+import { useOutbox } from '@/hooks/useOutbox';
 import { LinearGradient } from 'expo-linear-gradient';
-import { useMutation } from 'convex/react';
-import { api } from '@/convex/_generated/api';
 import { Id } from '@/convex/_generated/dataModel';
-import { parseDurationToSeconds } from '@/utils/helpers';
+import { ExerciseCue, ExerciseDefinition, ExerciseStep } from '@/types';
+import { announceForAccessibility } from '@/utils/accessibility';
+import { ExerciseAnswers, collectExerciseInputs, initialExerciseAnswers } from '@/utils/exerciseHelpers';
+import { triggerHaptic } from '@/utils/haptics';
 
 const { width: _SCREEN_WIDTH, height: _SCREEN_HEIGHT } = Dimensions.get('window');
 
-// GroundingExercise component moved outside to avoid nested component error
-function GroundingExercise({ 
-  currentStep, 
-  colors, 
-  locale, 
-  isDark, 
-  setExerciseData 
+// Cues play their haptic and are announced to screen readers
+function playCue(cue: ExerciseCue | undefined, announcement?: string) {
+  if (cue?.haptic) triggerHaptic(cue.haptic);
+  if (announcement) announceForAccessibility(announcement);
+}
+
+// A cycle of phases around a breathing circle, repeated step.cycles times
+function TimedStep({
+  step,
+  colors,
+  locale,
 }: {
-  currentStep: number;
+  step: Extract<ExerciseStep, { kind: 'timed' }>;
   colors: any;
-  locale: string;
-  isDark: boolean;
-  setExerciseData: (data: any) => void;
+  locale: 'en' | 'ar';
 }) {
-  const [senses, setSenses] = useState({
-    see: [] as string[],
-    hear: [] as string[],
-    feel: [] as string[],
-    smell: [] as string[],
-    taste: [] as string[],
-  });
-  
-  const senseLabels = {
-    see: { en: 'Things you can see', ar: 'أشياء يمكنك رؤيتها' },
-    hear: { en: 'Things you can hear', ar: 'أشياء يمكنك سماعها' },
-    feel: { en: 'Things you can feel', ar: 'أشياء يمكنك لمسها' },
-    smell: { en: 'Things you can smell', ar: 'أشياء يمكنك شمها' },
-    taste: { en: 'Things you can taste', ar: 'أشياء يمكنك تذوقها' },
-  };
-  
-  const senseIcons = {
-    see: 'eye',
-    hear: 'ear',
-    feel: 'hand.raised',
-    smell: 'nose',
-    taste: 'mouth',
-  };
-  
-  const senseKey = Object.keys(senses)[currentStep] as keyof typeof senses;
-  
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [phaseIndex, setPhaseIndex] = useState(0);
+  const [cycle, setCycle] = useState(0);
+  const scale = useSharedValue(1);
+
   useEffect(() => {
-    setExerciseData({ senses });
-  }, [senses, setExerciseData]);
-  
+    if (!isPlaying) {
+      scale.value = withTiming(1, { duration: 300 });
+      return;
+    }
+    const phase = step.phases[phaseIndex];
+    scale.value = withTiming(phase.scale, { duration: phase.seconds * 1000 });
+    playCue(phase.cue, phase.label[locale]);
+
+    const timer = setTimeout(() => {
+      if (phaseIndex < step.phases.length - 1) {
+        setPhaseIndex(phaseIndex + 1);
+      } else if (cycle < step.cycles - 1) {
+        setPhaseIndex(0);
+        setCycle(cycle + 1);
+      } else {
+        setIsPlaying(false);
+        setPhaseIndex(0);
+        setCycle(0);
+      }
+    }, phase.seconds * 1000);
+    return () => clearTimeout(timer);
+  }, [isPlaying, phaseIndex, cycle, step, locale, scale]);
+
+  const circleStyle = useAnimatedStyle(() => ({
+    transform: [{ scale: scale.value }],
+  }));
+
+  const pattern = step.phases
+    .map(phase => locale === 'ar'
+      ? `${phase.label.ar} لـ ${phase.seconds} ثوان`
+      : `${phase.label.en} for ${phase.seconds}s`)
+    .join(' • ');
+
   return (
-    <View style={styles.groundingContainer}>
-      <View style={styles.senseHeader}>
+    <View style={styles.breathingContainer}>
+      {step.title ? (
+        <Text style={[styles.promptText, { color: colors.text.primary }]}>{step.title[locale]}</Text>
+      ) : null}
+      <Animated.View
+        style={[
+          styles.breathingCircle,
+          {
+            backgroundColor: colors.interactive.primary,
+          },
+          circleStyle,
+        ]}
+      >
+        <Text style={styles.breathingText}>
+          {isPlaying ? step.phases[phaseIndex].label[locale] : (locale === 'ar' ? 'ابدأ' : 'Start')}
+        </Text>
+      </Animated.View>
+      
+      <TouchableOpacity
+        style={[styles.playButton, { backgroundColor: colors.interactive.primary }]}
+        onPress={() => setIsPlaying(!isPlaying)}
+      >
         <IconSymbol
-          name={senseIcons[senseKey]}
-          size={48}
-          color={colors.interactive.primary}
+          name={isPlaying ? 'pause.fill' : 'play.fill'}
+          size={32}
+          color="#FFFFFF"
         />
-        <Text style={[styles.senseTitle, { color: colors.text.primary }]}>
-          {senseLabels[senseKey][locale]}
-        </Text>
-      </View>
+      </TouchableOpacity>
       
-      <ScrollView style={styles.inputsList}>
-        {[...Array(5 - currentStep)].map((_, index) => (
-          <TextInput
-            key={index}
-            style={[styles.senseInput, { 
-              backgroundColor: isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.05)',
-              color: colors.text.primary,
-            }]}
-            placeholder={`${index + 1}...`}
-            placeholderTextColor={colors.text.tertiary}
-            value={senses[senseKey][index] || ''}
-            onChangeText={(text) => {
-              const newSenses = { ...senses };
-              newSenses[senseKey][index] = text;
-              setSenses(newSenses);
-            }}
-            textAlign={locale === 'ar' ? 'right' : 'left'}
-          />
-        ))}
-      </ScrollView>
+      <Text style={[styles.instructionText, { color: colors.text.secondary }]}>
+        {pattern}
+      </Text>
+      {isPlaying ? (
+        <Text style={[styles.cycleText, { color: colors.text.tertiary }]}>
+          {cycle + 1} / {step.cycles}
+        </Text>
+      ) : null}
     </View>
   );
 }
 
 interface ExercisePlayerProps {
-  exercise: {
-    id: string;
-    title: { en: string; ar: string };
-    type: 'breathing' | 'grounding' | 'thoughtChallenge' | 'gratitude' | 'mindfulness';
-    steps?: { en: string[]; ar: string[] };
-    duration?: number; // in seconds
-    pattern?: { inhale: number; hold: number; exhale: number }; // for breathing
-  };
+  exercise: ExerciseDefinition;
   userId: Id<"users">;
   conversationId?: Id<"conversations">;
+  // The assistant message whose action card started the exercise
+  messageId?: Id<"messages">;
+  // Answers to start from, by input field, e.g. the thought to examine in a
+  // thought record
+  prefill?: { thoughtText?: string };
   onComplete: (effectiveness?: number) => void;
   onCancel: () => void;
 }
@@ -130,6 +145,8 @@ export function ExercisePlayer({
   exercise,
   userId,
   conversationId,
+  messageId,
+  prefill,
   onComplete,
   onCancel,
 }: ExercisePlayerProps) {
@@ -138,52 +155,38 @@ export function ExercisePlayer({
   const _insets = useSafeAreaInsets();
   
   const [currentStep, setCurrentStep] = useState(0);
-  const [isPlaying, setIsPlaying] = useState(false);
   const [effectiveness, setEffectiveness] = useState<number | null>(null);
-  const [exerciseData, setExerciseData] = useState<any>({});
+  const [answers, setAnswers] = useState<ExerciseAnswers>(() => initialExerciseAnswers(exercise, prefill));
   
   // Use reusable animation hooks  
   const { fadeIn, animatedStyle: fadeStyle } = useFadeAnimation({ initialOpacity: 0 });
   
-  // Breathing animation - keep custom due to complex sequence requirements
-  const breathingScale = useSharedValue(1);
-  const _progressAnim = useSharedValue(0);
-  
-  const recordExercise = useMutation(api.exercises.recordExerciseCompletion);
+  const { logExercise } = useOutbox(userId);
+  const { isLocked, protectExerciseData } = useEncryption();
 
   // Early return after all hooks are called to avoid hooks rules violation
   if (!exercise) {
     return null;
   }
 
+  const steps = exercise.steps;
+  const step = currentStep >= 0 ? steps[currentStep] : undefined;
+
   useEffect(() => {
     // Fade in animation using hook
     fadeIn();
   }, [fadeIn]);
 
-  // Breathing animation
   useEffect(() => {
-    if (exercise.type === 'breathing' && isPlaying && exercise.pattern) {
-      const { inhale, hold, exhale } = exercise.pattern;
-      
-      breathingScale.value = withRepeat(
-        withSequence(
-          // Inhale
-          withTiming(1.4, { duration: inhale * 1000 }),
-          // Hold
-          withTiming(1.4, { duration: hold * 1000 }),
-          // Exhale
-          withTiming(1, { duration: exhale * 1000 })
-        ),
-        -1
-      );
-    } else {
-      breathingScale.value = withTiming(1, { duration: 300 });
-    }
-  }, [isPlaying, exercise.type, exercise.pattern, breathingScale]);
+    if (step?.cue) playCue(step.cue);
+  }, [step]);
+
+  const setAnswer = (stepId: string, value: string | string[]) => {
+    setAnswers(previous => ({ ...previous, [stepId]: value }));
+  };
 
   const handleNext = () => {
-    if (exercise.steps && currentStep < exercise.steps[locale].length - 1) {
+    if (currentStep < steps.length - 1) {
       setCurrentStep(currentStep + 1);
     } else {
       // Exercise completed
@@ -206,20 +209,23 @@ export function ExercisePlayer({
 
     // Record exercise completion
     try {
-      const parsedDuration = exercise.duration ? parseDurationToSeconds(exercise.duration) : undefined;
-      
-      await recordExercise({
+      // Queued locally and synced in the background, so this works offline
+      logExercise({
         userId,
         type: exercise.type,
+        exerciseId: exercise.exerciseId,
         conversationId,
-        duration: parsedDuration,
-        data: {
-          inputs: exerciseData,
-          outputs: {
-            effectiveness,
-            completionNotes: exerciseData.notes,
-          },
-        },
+        messageId,
+        duration: exercise.durationMinutes * 60,
+        // Without the key on this device only the rating can be saved
+        data: isLocked
+          ? { outputs: { effectiveness } }
+          : protectExerciseData({
+              inputs: collectExerciseInputs(exercise, answers),
+              outputs: {
+                effectiveness,
+              },
+            }),
       });
       
       onComplete(effectiveness);
@@ -229,54 +235,82 @@ export function ExercisePlayer({
     }
   };
 
-  const breathingCircleStyle = useAnimatedStyle(() => {
-    return {
-      transform: [{ scale: breathingScale.value }],
-    };
-  });
-
-  const renderBreathingExercise = () => {
-    const pattern = exercise.pattern || { inhale: 4, hold: 4, exhale: 4 };
-    const phaseText = locale === 'ar' 
-      ? ['استنشق', 'احبس النفس', 'ازفر']
-      : ['Inhale', 'Hold', 'Exhale'];
-    
-    return (
-      <View style={styles.breathingContainer}>
-        <Animated.View
-          style={[
-            styles.breathingCircle,
-            {
-              backgroundColor: colors.interactive.primary,
-            },
-            breathingCircleStyle,
-          ]}
-        >
-          <Text style={styles.breathingText}>
-            {isPlaying ? phaseText[0] : (locale === 'ar' ? 'ابدأ' : 'Start')}
-          </Text>
-        </Animated.View>
-        
-        <TouchableOpacity
-          style={[styles.playButton, { backgroundColor: colors.interactive.primary }]}
-          onPress={() => setIsPlaying(!isPlaying)}
-        >
-          <IconSymbol
-            name={isPlaying ? 'pause.fill' : 'play.fill'}
-            size={32}
-            color="#FFFFFF"
-          />
-        </TouchableOpacity>
-        
-        <Text style={[styles.instructionText, { color: colors.text.secondary }]}>
-          {locale === 'ar' 
-            ? `استنشق لـ ${pattern.inhale} ثوان • احبس لـ ${pattern.hold} ثوان • ازفر لـ ${pattern.exhale} ثوان`
-            : `Inhale for ${pattern.inhale}s • Hold for ${pattern.hold}s • Exhale for ${pattern.exhale}s`}
-        </Text>
-      </View>
-    );
+  const inputStyle = {
+    backgroundColor: isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.05)',
+    color: colors.text.primary,
   };
 
+  const renderStep = (current: ExerciseStep) => {
+    switch (current.kind) {
+      case 'timed':
+        return <TimedStep key={current.id} step={current} colors={colors} locale={locale} />;
+      case 'prompt':
+        return (
+          <View style={styles.defaultContent}>
+            <Text style={[styles.stepText, { color: colors.text.primary }]}>
+              {current.text[locale]}
+            </Text>
+          </View>
+        );
+      case 'textInput': {
+        const value = answers[current.id];
+        return (
+          <View style={styles.inputContainer}>
+            <Text style={[styles.promptText, { color: colors.text.primary }]}>
+              {current.prompt[locale]}
+            </Text>
+            <TextInput
+              style={[styles.textInput, current.multiline && styles.multilineInput, inputStyle]}
+              value={typeof value === 'string' ? value : ''}
+              onChangeText={(text) => setAnswer(current.id, text)}
+              multiline={current.multiline}
+              placeholderTextColor={colors.text.tertiary}
+              textAlign={locale === 'ar' ? 'right' : 'left'}
+            />
+          </View>
+        );
+      }
+      case 'list': {
+        const items = Array.isArray(answers[current.id]) ? answers[current.id] as string[] : [];
+        return (
+          <View style={styles.inputContainer}>
+            <View style={styles.listHeader}>
+              {current.icon ? (
+                <IconSymbol
+                  name={current.icon as any}
+                  size={48}
+                  color={colors.interactive.primary}
+                />
+              ) : null}
+              <Text style={[styles.promptText, { color: colors.text.primary }]}>
+                {current.prompt[locale]}
+              </Text>
+            </View>
+            
+            <ScrollView style={styles.inputsList}>
+              {[...Array(current.count)].map((_, index) => (
+                <TextInput
+                  key={index}
+                  style={[styles.textInput, inputStyle]}
+                  placeholder={`${index + 1}...`}
+                  placeholderTextColor={colors.text.tertiary}
+                  value={items[index] || ''}
+                  onChangeText={(text) => {
+                    const next = [...items];
+                    next[index] = text;
+                    setAnswer(current.id, next);
+                  }}
+                  textAlign={locale === 'ar' ? 'right' : 'left'}
+                />
+              ))}
+            </ScrollView>
+          </View>
+        );
+      }
+      default:
+        return null;
+    }
+  };
 
   const renderRatingScreen = () => {
     return (
@@ -330,33 +364,6 @@ export function ExercisePlayer({
     );
   };
 
-  const renderContent = () => {
-    if (currentStep === -1) {
-      return renderRatingScreen();
-    }
-    
-    switch (exercise.type) {
-      case 'breathing':
-        return renderBreathingExercise();
-      case 'grounding':
-        return <GroundingExercise 
-          currentStep={currentStep}
-          colors={colors}
-          locale={locale}
-          isDark={isDark}
-          setExerciseData={setExerciseData}
-        />;
-      default:
-        return (
-          <View style={styles.defaultContent}>
-            <Text style={[styles.stepText, { color: colors.text.primary }]}>
-              {exercise.steps?.[locale][currentStep] || ''}
-            </Text>
-          </View>
-        );
-    }
-  };
-
 
   return (
     <Animated.View style={[styles.container, fadeStyle]}>
@@ -381,14 +388,14 @@ export function ExercisePlayer({
           </View>
           
           {/* Progress Bar */}
-          {exercise.steps && currentStep >= 0 ? <View style={styles.progressContainer}>
+          {step && steps.length > 1 ? <View style={styles.progressContainer}>
               <View style={[styles.progressBar, { backgroundColor: colors.background.secondary }]}>
                 <View
                   style={[
                     styles.progressFill,
                     {
                       backgroundColor: colors.interactive.primary,
-                      width: `${((currentStep + 1) / exercise.steps[locale].length) * 100}%`,
+                      width: `${((currentStep + 1) / steps.length) * 100}%`,
                     },
                   ]}
                 />
@@ -400,11 +407,11 @@ export function ExercisePlayer({
             style={styles.content}
             behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
           >
-            {renderContent()}
+            {step ? renderStep(step) : renderRatingScreen()}
           </KeyboardAvoidingView>
           
           {/* Navigation */}
-          {currentStep >= 0 && exercise.steps ? <View style={styles.navigation}>
+          {step ? <View style={styles.navigation}>
               <TouchableOpacity
                 style={[styles.navButton, { opacity: currentStep === 0 ? 0.5 : 1 }]}
                 onPress={handlePrevious}
@@ -417,7 +424,7 @@ export function ExercisePlayer({
               </TouchableOpacity>
               
               <Text style={[styles.stepIndicator, { color: colors.text.secondary }]}>
-                {currentStep + 1} / {exercise.steps[locale].length}
+                {currentStep + 1} / {steps.length}
               </Text>
               
               <TouchableOpacity
@@ -425,7 +432,7 @@ export function ExercisePlayer({
                 onPress={handleNext}
               >
                 <Text style={[styles.navButtonText, { color: '#FFFFFF' }]}>
-                  {currentStep === exercise.steps[locale].length - 1
+                  {currentStep === steps.length - 1
                     ? (locale === 'ar' ? 'إنهاء' : 'Finish')
                     : (locale === 'ar' ? 'التالي' : 'Next')}
                 </Text>
@@ -531,28 +538,38 @@ const styles = StyleSheet.create({
     fontSize: 16,
     textAlign: 'center',
   },
-  // Grounding Exercise
-  groundingContainer: {
+  cycleText: {
+    fontSize: 14,
+    marginTop: 8,
+  },
+  // Text and list inputs
+  inputContainer: {
     flex: 1,
   },
-  senseHeader: {
+  listHeader: {
     alignItems: 'center',
     marginBottom: 24,
   },
-  senseTitle: {
+  promptText: {
     fontSize: 20,
     fontWeight: '600',
     marginTop: 12,
+    marginBottom: 16,
+    textAlign: 'center',
   },
   inputsList: {
     flex: 1,
   },
-  senseInput: {
+  textInput: {
     borderRadius: 12,
     padding: 16,
     marginBottom: 12,
     fontSize: 16,
   },
+  multilineInput: {
+    minHeight: 120,
+    textAlignVertical: 'top',
+  },
   // Rating Screen
   ratingContainer: {
     flex: 1,
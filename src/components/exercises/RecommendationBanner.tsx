@@ -1,20 +1,31 @@
 import React from "react";
-import { Text, StyleSheet } from "react-native";
+import { Text, StyleSheet, TouchableOpacity, View } from "react-native";
 import { GlassmorphicCard } from "@/components/data-display/GlassmorphicCard";
 import { IconSymbol } from "@/components/core/Icon/IconSymbol";
+import { useTranslation } from "@/hooks/useLocale";
+import { ExerciseRecommendation } from "@/types";
+
+// Runners-up shown under the top pick
+const ALTERNATIVES = 2;
 
 interface RecommendationBannerProps {
-  recommendation: any;
+  // Ranked best first
+  recommendations: ExerciseRecommendation[] | undefined;
   standardGradients: any;
   colors: any;
+  onSelect: (exerciseId: string) => void;
 }
 
 export const RecommendationBanner = React.memo<RecommendationBannerProps>(({
-  recommendation,
+  recommendations,
   standardGradients,
   colors,
+  onSelect,
 }) => {
-  if (!recommendation) return null;
+  const { t, locale } = useTranslation();
+  if (!recommendations || recommendations.length === 0) return null;
+
+  const [top, ...rest] = recommendations;
 
   return (
     <GlassmorphicCard
@@ -24,10 +35,40 @@ export const RecommendationBanner = React.memo<RecommendationBannerProps>(({
       borderRadius={20}
       elevation={2}
     >
-      <IconSymbol name="sparkles" size={20} color={colors.interactive.primary} />
-      <Text style={[styles.recommendationText, { color: colors.text.primary }]}>
-        {recommendation.reason}
-      </Text>
+      <TouchableOpacity
+        style={styles.topPick}
+        onPress={() => onSelect(top.exerciseId)}
+        accessibilityRole="button"
+      >
+        <IconSymbol name="sparkles" size={20} color={colors.interactive.primary} />
+        <View style={styles.topPickText}>
+          <Text style={[styles.recommendationTitle, { color: colors.text.primary }]}>
+            {t("exercises.recommended")}: {top.title[locale]}
+          </Text>
+          <Text style={[styles.recommendationText, { color: colors.text.secondary }]}>
+            {top.reason}
+          </Text>
+        </View>
+      </TouchableOpacity>
+
+      {rest.length > 0 ? (
+        <View style={styles.alternatives}>
+          <Text style={[styles.alsoTry, { color: colors.text.secondary }]}>{t("exercises.alsoTry")}</Text>
+          {rest.slice(0, ALTERNATIVES).map(recommendation => (
+            <TouchableOpacity
+              key={recommendation.exerciseId}
+              onPress={() => onSelect(recommendation.exerciseId)}
+              accessibilityRole="button"
+              accessibilityHint={recommendation.reason}
+              style={[styles.chip, { borderColor: colors.interactive.primary }]}
+            >
+              <Text style={[styles.chipText, { color: colors.interactive.primary }]}>
+                {recommendation.title[locale]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      ) : null}
     </GlassmorphicCard>
   );
 });
@@ -36,17 +77,45 @@ RecommendationBanner.displayName = 'RecommendationBanner';
 
 const styles = StyleSheet.create({
   recommendationBanner: {
-    flexDirection: 'row',
-    alignItems: 'center',
     marginHorizontal: 20,
     marginVertical: 20,
     padding: 16,
     borderRadius: 16,
+    gap: 12,
   },
-  recommendationText: {
+  topPick: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  topPickText: {
     flex: 1,
-    fontSize: 14,
     marginLeft: 12,
+  },
+  recommendationTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  recommendationText: {
+    fontSize: 14,
     lineHeight: 20,
   },
-});
\ No newline at end of file
+  alternatives: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+  },
+  alsoTry: {
+    fontSize: 13,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipText: {
+    fontSize: 13,
+  },
+});
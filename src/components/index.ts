@@ -25,6 +25,9 @@ export * from './forms';
 // Glass Components
 export * from './glass';
 
+// Journal Components
+export * from './journal';
+
 // Layout Components
 export * from './layout';
 
@@ -38,4 +41,7 @@ export * from './onboarding';
 export * from './profile';
 
 // Runtime Utilities
-export * from './runtime';
\ No newline at end of file
+export * from './runtime';
+
+// Search Components
+export * from './search';
\ No newline at end of file
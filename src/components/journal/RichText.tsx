@@ -0,0 +1,74 @@
+import { useAppTheme } from '@/theme';
+import { parseRichText } from '@/utils/richText';
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+interface RichTextProps {
+  content: string;
+  rtl?: boolean;
+}
+
+/**
+ * Renders a journal entry's Markdown subset (see utils/richText)
+ */
+export function RichText({ content, rtl = false }: RichTextProps) {
+  const { colors } = useAppTheme();
+  const textAlign = rtl ? 'right' : 'left';
+
+  return (
+    <View style={styles.container}>
+      {parseRichText(content).map((block, index) => (
+        <View key={index} style={[styles.block, rtl && styles.blockRtl]}>
+          {block.type === 'bullet' ? <Text style={[styles.body, { color: colors.text.primary }]}>•</Text> : null}
+          <Text
+            style={[
+              block.type === 'heading' ? styles.heading : styles.body,
+              styles.text,
+              { color: colors.text.primary, textAlign },
+            ]}
+          >
+            {block.spans.map((span, spanIndex) => (
+              <Text
+                key={spanIndex}
+                style={[span.bold && styles.bold, span.italic && styles.italic]}
+              >
+                {span.text}
+              </Text>
+            ))}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  block: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  blockRtl: {
+    flexDirection: 'row-reverse',
+  },
+  text: {
+    flex: 1,
+  },
+  body: {
+    fontSize: 16,
+    lineHeight: 24,
+  },
+  heading: {
+    fontSize: 20,
+    lineHeight: 28,
+    fontWeight: '700',
+  },
+  bold: {
+    fontWeight: '700',
+  },
+  italic: {
+    fontStyle: 'italic',
+  },
+});
@@ -0,0 +1 @@
+export { RichText } from './RichText';
@@ -0,0 +1,168 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useTheme } from '@/theme';
+
+export interface CheckInValues {
+  energy?: number;
+  anxiety?: number;
+  sleepQuality?: number;
+  sleepHours?: number;
+}
+
+interface CheckInScalesProps {
+  values: CheckInValues;
+  onChange: (values: CheckInValues) => void;
+  locale: string;
+}
+
+type Scale = 'energy' | 'anxiety' | 'sleepQuality';
+
+const SCALES: { key: Scale; label: { en: string; ar: string }; low: { en: string; ar: string }; high: { en: string; ar: string } }[] = [
+  {
+    key: 'energy',
+    label: { en: 'Energy', ar: 'الطاقة' },
+    low: { en: 'Drained', ar: 'مستنزف' },
+    high: { en: 'Energized', ar: 'نشيط' },
+  },
+  {
+    key: 'anxiety',
+    label: { en: 'Anxiety', ar: 'القلق' },
+    low: { en: 'Calm', ar: 'هادئ' },
+    high: { en: 'Very anxious', ar: 'قلق جداً' },
+  },
+  {
+    key: 'sleepQuality',
+    label: { en: 'Sleep quality', ar: 'جودة النوم' },
+    low: { en: 'Poor', ar: 'سيئة' },
+    high: { en: 'Great', ar: 'ممتازة' },
+  },
+];
+
+const SCALE_STEPS = [1, 2, 3, 4, 5];
+const SLEEP_STEP = 0.5;
+const MAX_SLEEP_HOURS = 24;
+// Where the hours stepper starts when first touched
+const DEFAULT_SLEEP_HOURS = 7;
+
+// Optional 1-5 scales and hours slept; tapping a selected step clears it
+export function CheckInScales({ values, onChange, locale }: CheckInScalesProps) {
+  const { colors, isDark } = useTheme();
+  const text = (value: { en: string; ar: string }) => (locale === 'ar' ? value.ar : value.en);
+
+  const setScale = (scale: Scale, step: number) => {
+    onChange({ ...values, [scale]: values[scale] === step ? undefined : step });
+  };
+
+  const stepSleep = (direction: 1 | -1) => {
+    const current = values.sleepHours ?? DEFAULT_SLEEP_HOURS - direction * SLEEP_STEP;
+    const next = Math.min(MAX_SLEEP_HOURS, Math.max(0, current + direction * SLEEP_STEP));
+    onChange({ ...values, sleepHours: next });
+  };
+
+  const idleColor = isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.05)';
+
+  return (
+    <View style={styles.container}>
+      {SCALES.map(scale => (
+        <View key={scale.key} style={styles.scale}>
+          <Text style={[styles.label, { color: colors.text.primary }]}>{text(scale.label)}</Text>
+          <View style={styles.steps}>
+            {SCALE_STEPS.map(step => {
+              const isSelected = values[scale.key] === step;
+              return (
+                <TouchableOpacity
+                  key={step}
+                  style={[styles.step, { backgroundColor: isSelected ? colors.interactive.primary : idleColor }]}
+                  onPress={() => setScale(scale.key, step)}
+                >
+                  <Text style={[styles.stepText, { color: isSelected ? '#FFFFFF' : colors.text.secondary }]}>
+                    {step}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <View style={styles.ends}>
+            <Text style={[styles.endText, { color: colors.text.tertiary }]}>{text(scale.low)}</Text>
+            <Text style={[styles.endText, { color: colors.text.tertiary }]}>{text(scale.high)}</Text>
+          </View>
+        </View>
+      ))}
+
+      <View style={styles.sleepRow}>
+        <Text style={[styles.label, styles.sleepLabel, { color: colors.text.primary }]}>
+          {locale === 'ar' ? 'ساعات النوم' : 'Hours slept'}
+        </Text>
+        <TouchableOpacity style={[styles.stepper, { backgroundColor: idleColor }]} onPress={() => stepSleep(-1)}>
+          <Text style={[styles.stepperText, { color: colors.text.primary }]}>−</Text>
+        </TouchableOpacity>
+        <Text style={[styles.sleepValue, { color: colors.text.primary }]}>
+          {values.sleepHours === undefined ? '–' : values.sleepHours}
+        </Text>
+        <TouchableOpacity style={[styles.stepper, { backgroundColor: idleColor }]} onPress={() => stepSleep(1)}>
+          <Text style={[styles.stepperText, { color: colors.text.primary }]}>+</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 20,
+  },
+  scale: {
+    gap: 8,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  steps: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  step: {
+    flex: 1,
+    height: 40,
+    borderRadius: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  ends: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  endText: {
+    fontSize: 12,
+  },
+  sleepRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  sleepLabel: {
+    flex: 1,
+  },
+  stepper: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperText: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  sleepValue: {
+    fontSize: 18,
+    fontWeight: '600',
+    minWidth: 36,
+    textAlign: 'center',
+  },
+});
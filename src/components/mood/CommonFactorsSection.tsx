@@ -5,6 +5,8 @@ import { useThemedGlass } from "@/hooks/useThemedGlass";
 interface FactorItem {
   factor: string;
   count: number;
+  label?: { en: string; ar: string };
+  emoji?: string;
 }
 
 interface CommonFactorsSectionProps {
@@ -32,7 +34,8 @@ export function CommonFactorsSection({
             style={[styles.factorItem, cardGlass]}
           >
             <Text style={[styles.factorName, { color: colors.text.primary }]}>
-              {item.factor}
+              {item.emoji ? `${item.emoji} ` : ''}
+              {item.label ? (locale === 'ar' ? item.label.ar : item.label.en) : item.factor}
             </Text>
             <Text style={[styles.factorCount, { color: colors.text.secondary }]}>
               {item.count}x
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useTheme } from '@/theme';
+import { EMOTION_WHEEL, MAX_EMOTIONS } from '@/data/emotions';
+
+interface EmotionPickerProps {
+  selected: string[];
+  onChange: (emotions: string[]) => void;
+  locale: string;
+}
+
+// Feelings wheel: pick a core emotion, then optionally narrow it down
+export function EmotionPicker({ selected, onChange, locale }: EmotionPickerProps) {
+  const { colors, isDark } = useTheme();
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const toggle = (key: string) => {
+    if (selected.includes(key)) {
+      onChange(selected.filter(emotion => emotion !== key));
+    } else if (selected.length < MAX_EMOTIONS) {
+      onChange([...selected, key]);
+    }
+  };
+
+  const chipStyle = (isSelected: boolean, color: string) => ({
+    backgroundColor: isSelected ? color : isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.05)',
+    borderColor: isSelected ? color : 'transparent',
+  });
+
+  const expandedCore = EMOTION_WHEEL.find(core => core.key === expanded);
+
+  return (
+    <View>
+      <View style={styles.grid}>
+        {EMOTION_WHEEL.map(core => {
+          const isSelected = selected.includes(core.key);
+          return (
+            <TouchableOpacity
+              key={core.key}
+              style={[styles.chip, chipStyle(isSelected, core.color)]}
+              onPress={() => {
+                toggle(core.key);
+                setExpanded(core.key);
+              }}
+            >
+              <Text style={styles.emoji}>{core.emoji}</Text>
+              <Text style={[styles.label, { color: isSelected ? '#FFFFFF' : colors.text.secondary }]}>
+                {locale === 'ar' ? core.label.ar : core.label.en}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {expandedCore ? (
+        <View style={[styles.grid, styles.feelings]}>
+          {expandedCore.feelings.map(feeling => {
+            const isSelected = selected.includes(feeling.key);
+            return (
+              <TouchableOpacity
+                key={feeling.key}
+                style={[styles.chip, styles.feelingChip, chipStyle(isSelected, expandedCore.color)]}
+                onPress={() => toggle(feeling.key)}
+              >
+                <Text style={[styles.label, { color: isSelected ? '#FFFFFF' : colors.text.secondary }]}>
+                  {locale === 'ar' ? feeling.label.ar : feeling.label.en}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginHorizontal: -4,
+  },
+  feelings: {
+    marginTop: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    margin: 4,
+    borderWidth: 1,
+  },
+  feelingChip: {
+    paddingVertical: 6,
+  },
+  emoji: {
+    fontSize: 20,
+    marginRight: 6,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
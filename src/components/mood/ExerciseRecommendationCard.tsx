@@ -5,17 +5,12 @@ import Animated from 'react-native-reanimated';
 import { GlassmorphicCard } from "@/components/data-display/GlassmorphicCard";
 import { IconSymbol } from "@/components/core/Icon/IconSymbol";
 import { useThemedGlass } from "@/hooks/useThemedGlass";
-
-interface ExerciseRecommendation {
-  reason: string;
-  exerciseId?: string;
-  // Add other properties as needed
-}
+import { ExerciseRecommendation } from "@/types";
 
 interface ExerciseRecommendationCardProps {
-  exerciseRecommendation: ExerciseRecommendation | null;
+  exerciseRecommendation: ExerciseRecommendation | null | undefined;
   locale: string;
-  onTryExercise?: (exerciseId?: string) => void;
+  onTryExercise: (exerciseId: string) => void;
 }
 
 export function ExerciseRecommendationCard({
@@ -28,12 +23,7 @@ export function ExerciseRecommendationCard({
   if (!exerciseRecommendation) return null;
 
   const handleTryExercise = () => {
-    if (onTryExercise) {
-      onTryExercise(exerciseRecommendation.exerciseId);
-    } else {
-      // TODO: Navigate to exercise
-      console.log('Navigate to recommended exercise');
-    }
+    onTryExercise(exerciseRecommendation.exerciseId);
   };
 
   return (
@@ -16,16 +16,58 @@ interface InsightCard {
   sparkData?: number[];
 }
 
+// A significant effect from analytics.getMoodAnalytics
+interface MoodEffect {
+  kind: 'factor' | 'dayOfWeek' | 'timeOfDay' | 'exercise';
+  key: string;
+  direction: 'positive' | 'negative';
+  difference: number;
+  confidenceInterval: [number, number];
+  sampleSize: number;
+  label?: { en: string; ar: string };
+  emoji?: string;
+}
+
 interface InsightsSectionProps {
   insightCards: InsightCard[];
+  moodEffects?: MoodEffect[];
   showInsights: boolean;
   onToggleInsights: () => void;
   cardAnimatedStyles: any[];
   locale: string;
 }
 
+const EFFECT_LABELS: Record<string, { en: string; ar: string }> = {
+  sunday: { en: 'Sundays', ar: 'أيام الأحد' },
+  monday: { en: 'Mondays', ar: 'أيام الاثنين' },
+  tuesday: { en: 'Tuesdays', ar: 'أيام الثلاثاء' },
+  wednesday: { en: 'Wednesdays', ar: 'أيام الأربعاء' },
+  thursday: { en: 'Thursdays', ar: 'أيام الخميس' },
+  friday: { en: 'Fridays', ar: 'أيام الجمعة' },
+  saturday: { en: 'Saturdays', ar: 'أيام السبت' },
+  morning: { en: 'Mornings', ar: 'الصباح' },
+  afternoon: { en: 'Afternoons', ar: 'بعد الظهر' },
+  evening: { en: 'Evenings', ar: 'المساء' },
+  night: { en: 'Nights', ar: 'الليل' },
+  breathing: { en: 'Breathing exercises', ar: 'تمارين التنفس' },
+  mindfulness: { en: 'Mindfulness', ar: 'اليقظة الذهنية' },
+  grounding: { en: 'Grounding', ar: 'التأريض' },
+  thoughtChallenge: { en: 'Thought challenging', ar: 'تحدي الأفكار' },
+  gratitude: { en: 'Gratitude', ar: 'الامتنان' },
+};
+
+const EFFECT_EMOJIS: Record<MoodEffect['kind'], string> = {
+  factor: '🏷️',
+  dayOfWeek: '📅',
+  timeOfDay: '🕐',
+  exercise: '🧘',
+};
+
+const formatSigned = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)}`;
+
 export function InsightsSection({
   insightCards,
+  moodEffects,
   showInsights,
   onToggleInsights,
   cardAnimatedStyles,
@@ -93,6 +135,42 @@ export function InsightsSection({
           ))}
         </View>
       )}
+
+      {!!showInsights && !!moodEffects?.length && (
+        <View style={styles.effectsList}>
+          <Text style={[styles.effectsTitle, { color: colors.text.primary }]}>
+            {locale === 'ar' ? 'ما الذي يؤثر على مزاجك' : 'What moves your mood'}
+          </Text>
+          {moodEffects.map(effect => {
+            const label = effect.label ?? EFFECT_LABELS[effect.key] ?? { en: effect.key, ar: effect.key };
+            const [low, high] = effect.confidenceInterval;
+            const isExercise = effect.kind === 'exercise';
+            return (
+              <View key={`${effect.kind}-${effect.key}`} style={styles.effectRow}>
+                <Text style={styles.effectEmoji}>{effect.emoji ?? EFFECT_EMOJIS[effect.kind]}</Text>
+                <View style={styles.effectInfo}>
+                  <Text style={[styles.effectLabel, { color: colors.text.primary }]}>
+                    {locale === 'ar' ? label.ar : label.en}
+                  </Text>
+                  <Text style={[styles.effectDetail, { color: colors.text.tertiary }]}>
+                    {locale === 'ar'
+                      ? `${isExercise ? 'بعد التمرين' : 'مقارنة بغيرها'} · ثقة 95%: ${formatSigned(low)} إلى ${formatSigned(high)} · ${effect.sampleSize} إدخالات`
+                      : `${isExercise ? 'after vs. before' : 'vs. other times'} · 95% CI ${formatSigned(low)} to ${formatSigned(high)} · ${effect.sampleSize} entries`}
+                  </Text>
+                </View>
+                <Text
+                  style={[
+                    styles.effectValue,
+                    { color: effect.direction === 'positive' ? '#4ADE80' : '#F87171' },
+                  ]}
+                >
+                  {formatSigned(effect.difference)}
+                </Text>
+              </View>
+            );
+          })}
+        </View>
+      )}
     </View>
   );
 }
@@ -151,4 +229,35 @@ const styles = StyleSheet.create({
     fontSize: 12,
     textAlign: 'center',
   },
+  effectsList: {
+    marginTop: 20,
+    gap: 12,
+  },
+  effectsTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  effectRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  effectEmoji: {
+    fontSize: 22,
+  },
+  effectInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  effectLabel: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  effectDetail: {
+    fontSize: 12,
+  },
+  effectValue: {
+    fontSize: 17,
+    fontWeight: '700',
+  },
 });
\ No newline at end of file
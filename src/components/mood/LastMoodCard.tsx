@@ -3,6 +3,9 @@ import { View, Text, StyleSheet } from "react-native";
 import { GlassmorphicCard } from "@/components/data-display/GlassmorphicCard";
 import { ProgressRing } from "@/components/data-display/ProgressRing";
 import { useThemedGlass } from "@/hooks/useThemedGlass";
+import { useEncryption } from "@/hooks/useEncryption";
+import { useOutbox } from "@/hooks/useOutbox";
+import { Id } from "@/convex/_generated/dataModel";
 
 interface MoodEntry {
   rating: number;
@@ -12,6 +15,7 @@ interface MoodEntry {
 }
 
 interface LastMoodCardProps {
+  userId: Id<"users"> | undefined;
   latestMood: MoodEntry | null;
   locale: string;
   lastMoodTime: string | null;
@@ -19,14 +23,25 @@ interface LastMoodCardProps {
 }
 
 export function LastMoodCard({
+  userId,
   latestMood,
   locale,
   lastMoodTime,
   onPress,
 }: LastMoodCardProps) {
   const { colors, standardGradients, cardGlass } = useThemedGlass();
+  const { reveal } = useEncryption();
+  const { pendingMoods } = useOutbox(userId);
 
-  if (!latestMood) return null;
+  // Entries still in the outbox are always newer than synced ones
+  const pendingMood = pendingMoods[pendingMoods.length - 1];
+  const mood = pendingMood ?? latestMood;
+  if (!mood) return null;
+
+  // Encrypted notes stay hidden until this device holds the key
+  const note = mood.note
+    ? reveal(mood.note) ?? (locale === 'ar' ? '🔒 ملاحظة مشفرة' : '🔒 Encrypted note')
+    : null;
 
   return (
     <GlassmorphicCard
@@ -41,7 +56,9 @@ export function LastMoodCard({
           {locale === 'ar' ? 'آخر تسجيل' : 'Last Check-in'}
         </Text>
         <Text style={[styles.lastMoodTime, { color: colors.text.tertiary }]}>
-          {lastMoodTime}
+          {pendingMood
+            ? (locale === 'ar' ? '⏳ بانتظار المزامنة' : '⏳ Waiting to sync')
+            : lastMoodTime}
         </Text>
       </View>
       
@@ -50,28 +67,28 @@ export function LastMoodCard({
           <ProgressRing
             size={80}
             strokeWidth={4}
-            progress={(latestMood.rating / 10) * 100}
+            progress={(mood.rating / 10) * 100}
             gradientColors={standardGradients.primary}
             backgroundColor={cardGlass.backgroundColor}
           >
             <Text style={styles.lastMoodEmoji}>
-              {latestMood.rating <= 2 ? '😔' :
-               latestMood.rating <= 4 ? '😕' :
-               latestMood.rating <= 6 ? '😐' :
-               latestMood.rating <= 8 ? '🙂' : '😄'}
+              {mood.rating <= 2 ? '😔' :
+               mood.rating <= 4 ? '😕' :
+               mood.rating <= 6 ? '😐' :
+               mood.rating <= 8 ? '🙂' : '😄'}
             </Text>
           </ProgressRing>
         </View>
         <View style={styles.lastMoodDetails}>
           <Text style={[styles.lastMoodRating, { color: colors.text.primary }]}>
-            {latestMood.rating}/10
+            {mood.rating}/10
           </Text>
-          {!!latestMood.note && (
+          {!!note && (
             <Text 
               style={[styles.lastMoodNote, { color: colors.text.secondary }]}
               numberOfLines={2}
             >
-              &ldquo;{latestMood.note}&rdquo;
+              &ldquo;{note}&rdquo;
             </Text>
           )}
         </View>
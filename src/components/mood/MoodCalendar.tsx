@@ -22,6 +22,8 @@ interface MoodEntry {
   date: string;
   mood: number;
   emoji: string;
+  // Logged offline and still waiting in the outbox
+  pending?: boolean;
 }
 
 interface MoodCalendarProps {
@@ -69,7 +71,9 @@ export function MoodCalendar({
   const moodMap = useMemo(() => {
     const map = new Map<string, MoodEntry>();
     moodEntries.forEach((entry) => {
-      map.set(entry.date, entry);
+      const existing = map.get(entry.date);
+      // A day with anything unsynced shows as pending
+      map.set(entry.date, existing?.pending ? { ...entry, pending: true } : entry);
     });
     return map;
   }, [moodEntries]);
@@ -160,6 +164,16 @@ export function MoodCalendar({
       backgroundColor: colors.interactive.primary,
       bottom: 2,
     },
+    pendingIndicator: {
+      position: "absolute" as const,
+      width: 6,
+      height: 6,
+      borderRadius: 3,
+      borderWidth: 1,
+      borderColor: colors.text.secondary,
+      top: 2,
+      right: 2,
+    },
     selectedRing: {
       position: "absolute" as const,
       inset: -2,
@@ -347,6 +361,7 @@ function DayCell({ day, moodEntry, isSelected, isToday, onPress, colors, styles
           </Text>
         ) : null}
         
+        {moodEntry?.pending ? <View style={styles.pendingIndicator} /> : null}
         {isToday ? <View style={styles.todayIndicator} /> : null}
         {isSelected ? <View style={styles.selectedRing} /> : null}
       </TouchableOpacity>
@@ -1,10 +1,11 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   Dimensions,
   ScrollView,
+  TouchableOpacity,
 } from 'react-native';
 import Svg, { Path, Circle, Line, Text as SvgText, G } from 'react-native-svg';
 import { useTheme } from '@/theme';
@@ -23,8 +24,32 @@ interface MoodData {
   timestamp: number;
   factors?: string[];
   note?: string;
+  energy?: number;
+  anxiety?: number;
+  sleepQuality?: number;
+  sleepHours?: number;
 }
 
+type SeriesKey = 'rating' | 'energy' | 'anxiety' | 'sleepQuality' | 'sleepHours';
+
+interface Series {
+  key: SeriesKey;
+  label: { en: string; ar: string };
+  min: number;
+  max: number;
+  gridLines: number[];
+  color?: string;
+}
+
+// Mood plus each check-in dimension; only series with data are offered
+const SERIES: Series[] = [
+  { key: 'rating', label: { en: 'Mood', ar: 'المزاج' }, min: 1, max: 10, gridLines: [1, 3, 5, 7, 9] },
+  { key: 'energy', label: { en: 'Energy', ar: 'الطاقة' }, min: 1, max: 5, gridLines: [1, 2, 3, 4, 5], color: '#F5A623' },
+  { key: 'anxiety', label: { en: 'Anxiety', ar: 'القلق' }, min: 1, max: 5, gridLines: [1, 2, 3, 4, 5], color: '#9C7BD1' },
+  { key: 'sleepQuality', label: { en: 'Sleep', ar: 'النوم' }, min: 1, max: 5, gridLines: [1, 2, 3, 4, 5], color: '#5C9DED' },
+  { key: 'sleepHours', label: { en: 'Hours slept', ar: 'ساعات النوم' }, min: 0, max: 12, gridLines: [0, 3, 6, 9, 12], color: '#4DB6AC' },
+];
+
 interface MoodChartProps {
   moodData: MoodData[];
   averageRating?: number;
@@ -34,6 +59,7 @@ interface MoodChartProps {
 export function MoodChart({ moodData, averageRating = 0, trend = 'neutral' }: MoodChartProps) {
   const { colors, isDark } = useTheme();
   const { locale } = useLocale();
+  const [seriesKey, setSeriesKey] = useState<SeriesKey>('rating');
   
   if (moodData.length === 0) {
     return (
@@ -49,20 +75,32 @@ export function MoodChart({ moodData, averageRating = 0, trend = 'neutral' }: Mo
   const chartWidth = CHART_WIDTH - (PADDING * 2);
   const chartHeight = CHART_HEIGHT - (PADDING * 2);
   
-  // Sort data by timestamp
-  const sortedData = [...moodData].sort((a, b) => a.timestamp - b.timestamp);
+  const availableSeries = SERIES.filter(item =>
+    item.key === 'rating' || moodData.some(mood => mood[item.key] !== undefined)
+  );
+  const series = availableSeries.find(item => item.key === seriesKey) ?? SERIES[0];
+
+  // Sort data by timestamp, keeping entries that have a value for this series
+  const sortedData = moodData
+    .filter(mood => mood[series.key] !== undefined)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const values = sortedData.map(mood => mood[series.key]!);
   
   // Calculate points for the line chart
-  const maxRating = 10;
-  const minRating = 1;
+  const maxRating = Math.max(series.max, ...values);
+  const minRating = series.min;
   const xStep = chartWidth / Math.max(sortedData.length - 1, 1);
   
   const points = sortedData.map((mood, index) => ({
     x: PADDING + (index * xStep),
-    y: PADDING + (chartHeight - ((mood.rating - minRating) / (maxRating - minRating)) * chartHeight),
-    rating: mood.rating,
+    y: PADDING + (chartHeight - ((values[index] - minRating) / (maxRating - minRating)) * chartHeight),
+    rating: values[index],
     timestamp: mood.timestamp,
   }));
+
+  const average = series.key === 'rating'
+    ? averageRating
+    : values.reduce((sum, value) => sum + value, 0) / values.length;
   
   // Create SVG path
   const pathData = points.reduce((path, point, index) => {
@@ -80,6 +118,7 @@ export function MoodChart({ moodData, averageRating = 0, trend = 'neutral' }: Mo
 
   // Get trend color using theme colors
   const getTrendColor = () => {
+    if (series.color) return series.color;
     if (trend === 'improving') return colors.mood.great;
     if (trend === 'declining') return colors.mood.terrible;
     return colors.interactive.primary;
@@ -103,23 +142,49 @@ export function MoodChart({ moodData, averageRating = 0, trend = 'neutral' }: Mo
           </Text>
         </View>
         
-        {averageRating > 0 && (
+        {average > 0 && (
           <View style={styles.statsContainer}>
             <Text style={[styles.avgLabel, { color: colors.text.secondary }]}>
               {locale === 'ar' ? 'المتوسط' : 'Average'}
             </Text>
             <Text style={[styles.avgValue, { color: getTrendColor() }]}>
-              {averageRating.toFixed(1)}
+              {average.toFixed(1)}
             </Text>
           </View>
         )}
       </View>
 
+      {availableSeries.length > 1 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.seriesPicker}
+        >
+          {availableSeries.map(item => {
+            const isSelected = item.key === series.key;
+            return (
+              <TouchableOpacity
+                key={item.key}
+                style={[
+                  styles.seriesChip,
+                  { backgroundColor: isSelected ? (item.color ?? colors.interactive.primary) : colors.background.secondary },
+                ]}
+                onPress={() => setSeriesKey(item.key)}
+              >
+                <Text style={[styles.seriesChipText, { color: isSelected ? '#FFFFFF' : colors.text.secondary }]}>
+                  {locale === 'ar' ? item.label.ar : item.label.en}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      )}
+
       <ScrollView horizontal showsHorizontalScrollIndicator={false}>
         <View style={styles.chartContainer}>
           <Svg width={CHART_WIDTH} height={CHART_HEIGHT}>
             {/* Grid lines */}
-            {[1, 3, 5, 7, 9].map(rating => {
+            {series.gridLines.map(rating => {
               const y = PADDING + (chartHeight - ((rating - minRating) / (maxRating - minRating)) * chartHeight);
               return (
                 <G key={rating}>
@@ -193,7 +258,7 @@ export function MoodChart({ moodData, averageRating = 0, trend = 'neutral' }: Mo
       </ScrollView>
 
       {/* Trend indicator */}
-      {trend !== 'neutral' && (
+      {series.key === 'rating' && trend !== 'neutral' && (
         <View style={[styles.trendBadge, { backgroundColor: getTrendColor() + '20' }]}>
           <Text style={[styles.trendText, { color: getTrendColor() }]}>
             {trend === 'improving' 
@@ -239,6 +304,20 @@ const styles = StyleSheet.create({
     fontSize: 24,
     fontWeight: '700',
   },
+  seriesPicker: {
+    paddingHorizontal: 20,
+    gap: 8,
+    marginBottom: 12,
+  },
+  seriesChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  seriesChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
   chartContainer: {
     marginHorizontal: 20,
   },
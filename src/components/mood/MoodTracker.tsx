@@ -11,33 +11,40 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import Slider from '@react-native-community/slider';
-import { useMutation } from 'convex/react';
-import { api } from '@/convex/_generated/api';
+import { useQuery } from 'convex/react';
+import { useRouter } from 'expo-router';
 import { useTheme } from '@/theme';
 import { IconSymbol } from '@/components/core/Icon/IconSymbol';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { api } from '@/convex/_generated/api';
 import { Id } from '@/convex/_generated/dataModel';
 import { useLocale } from '@/hooks/useLocale';
+import { useEncryption } from '@/hooks/useEncryption';
+import { useOutbox } from '@/hooks/useOutbox';
+import { EmotionPicker } from './EmotionPicker';
+import { CheckInScales, CheckInValues } from './CheckInScales';
 
 interface MoodFactor {
-  id: string;
+  key: string;
   emoji: string;
   label: { en: string; ar: string };
 }
 
-const MOOD_FACTORS: MoodFactor[] = [
-  { id: 'sleep', emoji: '😴', label: { en: 'Sleep', ar: 'النوم' } },
-  { id: 'exercise', emoji: '🏃', label: { en: 'Exercise', ar: 'التمرين' } },
-  { id: 'work', emoji: '💼', label: { en: 'Work', ar: 'العمل' } },
-  { id: 'relationships', emoji: '❤️', label: { en: 'Relationships', ar: 'العلاقات' } },
-  { id: 'health', emoji: '🏥', label: { en: 'Health', ar: 'الصحة' } },
-  { id: 'finance', emoji: '💰', label: { en: 'Finance', ar: 'المال' } },
-  { id: 'social', emoji: '👥', label: { en: 'Social', ar: 'الاجتماعي' } },
-  { id: 'hobby', emoji: '🎨', label: { en: 'Hobbies', ar: 'الهوايات' } },
-  { id: 'weather', emoji: '☀️', label: { en: 'Weather', ar: 'الطقس' } },
-  { id: 'food', emoji: '🍽️', label: { en: 'Food', ar: 'الطعام' } },
-  { id: 'stress', emoji: '😰', label: { en: 'Stress', ar: 'التوتر' } },
-  { id: 'anxiety', emoji: '😟', label: { en: 'Anxiety', ar: 'القلق' } },
+// Built-in factors, shown until the user's own list (with custom factors and
+// overrides) has loaded
+const DEFAULT_MOOD_FACTORS: MoodFactor[] = [
+  { key: 'sleep', emoji: '😴', label: { en: 'Sleep', ar: 'النوم' } },
+  { key: 'exercise', emoji: '🏃', label: { en: 'Exercise', ar: 'التمرين' } },
+  { key: 'work', emoji: '💼', label: { en: 'Work', ar: 'العمل' } },
+  { key: 'relationships', emoji: '❤️', label: { en: 'Relationships', ar: 'العلاقات' } },
+  { key: 'health', emoji: '🏥', label: { en: 'Health', ar: 'الصحة' } },
+  { key: 'finance', emoji: '💰', label: { en: 'Finance', ar: 'المال' } },
+  { key: 'social', emoji: '👥', label: { en: 'Social', ar: 'الاجتماعي' } },
+  { key: 'hobby', emoji: '🎨', label: { en: 'Hobbies', ar: 'الهوايات' } },
+  { key: 'weather', emoji: '☀️', label: { en: 'Weather', ar: 'الطقس' } },
+  { key: 'food', emoji: '🍽️', label: { en: 'Food', ar: 'الطعام' } },
+  { key: 'stress', emoji: '😰', label: { en: 'Stress', ar: 'التوتر' } },
+  { key: 'anxiety', emoji: '😟', label: { en: 'Anxiety', ar: 'القلق' } },
 ];
 
 const MOOD_EMOJIS = ['😔', '😕', '😐', '🙂', '😊', '😄', '🤩'];
@@ -51,13 +58,20 @@ export function MoodTracker({ userId, onComplete }: MoodTrackerProps) {
   const { colors, isDark } = useTheme();
   const { locale } = useLocale();
   const insets = useSafeAreaInsets();
+  const router = useRouter();
   
   const [moodRating, setMoodRating] = useState(5);
   const [selectedFactors, setSelectedFactors] = useState<string[]>([]);
+  const [selectedEmotions, setSelectedEmotions] = useState<string[]>([]);
+  const [checkIn, setCheckIn] = useState<CheckInValues>({});
   const [note, setNote] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   
-  const recordMood = useMutation(api.moods.recordMood);
+  const userFactors = useQuery(api.moodFactors.getMoodFactors, { userId });
+  const moodFactors: MoodFactor[] = userFactors ?? DEFAULT_MOOD_FACTORS;
+
+  const { logMood } = useOutbox(userId);
+  const { isEnabled: isEncrypted, isLocked, protect } = useEncryption();
 
   const getMoodEmoji = (rating: number) => {
     const index = Math.floor((rating - 1) / 1.5);
@@ -85,16 +99,22 @@ export function MoodTracker({ userId, onComplete }: MoodTrackerProps) {
     
     setIsSubmitting(true);
     try {
-      await recordMood({
+      // Queued locally and synced in the background, so this works offline
+      logMood({
         userId,
         rating: moodRating,
-        note: note.trim() || undefined,
+        // Notes can't be encrypted until this device has the key
+        note: note.trim() && !isLocked ? protect(note.trim()) : undefined,
         factors: selectedFactors.length > 0 ? selectedFactors : undefined,
+        emotions: selectedEmotions.length > 0 ? selectedEmotions : undefined,
+        ...checkIn,
       });
       
       // Reset form
       setMoodRating(5);
       setSelectedFactors([]);
+      setSelectedEmotions([]);
+      setCheckIn({});
       setNote('');
       
       onComplete?.();
@@ -150,35 +170,58 @@ export function MoodTracker({ userId, onComplete }: MoodTrackerProps) {
           </View>
         </View>
 
-        {/* Mood Factors Section */}
+        {/* Emotions Section */}
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, { color: colors.text.primary }]}>
-            {locale === 'ar' ? 'ما الذي يؤثر على مزاجك؟' : "What's affecting your mood?"}
+            {locale === 'ar' ? 'ما المشاعر التي تمر بها؟' : 'What emotions are you feeling?'}
           </Text>
+          <EmotionPicker selected={selectedEmotions} onChange={setSelectedEmotions} locale={locale} />
+        </View>
+
+        {/* Energy, Anxiety and Sleep Section */}
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: colors.text.primary }]}>
+            {locale === 'ar' ? 'الطاقة والقلق والنوم' : 'Energy, anxiety and sleep'}
+          </Text>
+          <CheckInScales values={checkIn} onChange={setCheckIn} locale={locale} />
+        </View>
+
+        {/* Mood Factors Section */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={[styles.sectionTitle, styles.sectionHeaderTitle, { color: colors.text.primary }]}>
+              {locale === 'ar' ? 'ما الذي يؤثر على مزاجك؟' : "What's affecting your mood?"}
+            </Text>
+            <TouchableOpacity onPress={() => router.push('/mood-factors')}>
+              <Text style={[styles.manageLink, { color: colors.interactive.primary }]}>
+                {locale === 'ar' ? 'تعديل' : 'Edit'}
+              </Text>
+            </TouchableOpacity>
+          </View>
           
           <View style={styles.factorsGrid}>
-            {MOOD_FACTORS.map(factor => (
+            {moodFactors.map(factor => (
               <TouchableOpacity
-                key={factor.id}
+                key={factor.key}
                 style={[
                   styles.factorButton,
                   {
-                    backgroundColor: selectedFactors.includes(factor.id)
+                    backgroundColor: selectedFactors.includes(factor.key)
                       ? colors.interactive.primary
                       : isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.05)',
-                    borderColor: selectedFactors.includes(factor.id)
+                    borderColor: selectedFactors.includes(factor.key)
                       ? colors.interactive.primary
                       : 'transparent',
                   },
                 ]}
-                onPress={() => toggleFactor(factor.id)}
+                onPress={() => toggleFactor(factor.key)}
               >
                 <Text style={styles.factorEmoji}>{factor.emoji}</Text>
                 <Text
                   style={[
                     styles.factorLabel,
                     {
-                      color: selectedFactors.includes(factor.id)
+                      color: selectedFactors.includes(factor.key)
                         ? '#FFFFFF'
                         : colors.text.secondary,
                     },
@@ -210,6 +253,7 @@ export function MoodTracker({ userId, onComplete }: MoodTrackerProps) {
               placeholderTextColor={colors.text.tertiary}
               value={note}
               onChangeText={setNote}
+              editable={!isLocked}
               multiline
               maxLength={500}
               textAlignVertical="top"
@@ -219,6 +263,13 @@ export function MoodTracker({ userId, onComplete }: MoodTrackerProps) {
               {note.length}/500
             </Text>
           </View>
+          {isEncrypted ? (
+            <Text style={[styles.encryptionHint, { color: colors.text.tertiary }]}>
+              {isLocked
+                ? (locale === 'ar' ? '🔒 أدخل عبارة المرور في إعدادات التشفير لإضافة ملاحظات على هذا الجهاز' : '🔒 Enter your passphrase in encryption settings to add notes on this device')
+                : (locale === 'ar' ? '🔒 ملاحظاتك مشفرة من طرف إلى طرف' : '🔒 Your notes are end-to-end encrypted')}
+            </Text>
+          ) : null}
         </View>
 
         {/* Submit Button */}
@@ -263,6 +314,18 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginBottom: 16,
   },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    justifyContent: 'space-between',
+  },
+  sectionHeaderTitle: {
+    flex: 1,
+  },
+  manageLink: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
   moodDisplay: {
     alignItems: 'center',
     marginBottom: 24,
@@ -333,6 +396,10 @@ const styles = StyleSheet.create({
     textAlign: 'right',
     marginTop: 8,
   },
+  encryptionHint: {
+    fontSize: 12,
+    marginTop: 8,
+  },
   submitButton: {
     flexDirection: 'row',
     alignItems: 'center',
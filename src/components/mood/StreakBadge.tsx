@@ -1,6 +1,6 @@
 import { GlassOverlay } from "@/components/glass";
 import { api } from "@/convex/_generated/api";
-import { Id } from "@/convex/_generated/dataModel";
+import { Doc, Id } from "@/convex/_generated/dataModel";
 import { useTranslation } from "@/hooks/useLocale";
 import { useAppTheme } from "@/theme";
 import { useQuery } from "convex/react";
@@ -19,6 +19,23 @@ import Animated, {
     withTiming
 } from "react-native-reanimated";
 
+const STREAK_EMOJIS = {
+  mood: "🔥",
+  exercise: "💪",
+  "check-in": "✅",
+} as const;
+
+// "Mar 1 – Mar 5" for a past streak's YYYY-MM-DD dates
+function formatRange(startDate: string, endDate: string, locale: string) {
+  const format = (date: string) =>
+    new Date(`${date}T00:00:00Z`).toLocaleDateString(locale === "ar" ? "ar-SA" : "en-US", {
+      month: "short",
+      day: "numeric",
+      timeZone: "UTC",
+    });
+  return `${format(startDate)} – ${format(endDate)}`;
+}
+
 interface StreakBadgeProps {
   userId: Id<"users">;
   type?: "mood" | "exercise" | "check-in";
@@ -41,6 +58,10 @@ export function StreakBadge({
   const [shouldAnimate, setShouldAnimate] = useState(false);
 
   const streak = useQuery(api.moods.getUserStreak, { userId, type });
+  const history = useQuery(
+    api.streaks.getStreakHistory,
+    variant === "full" ? { userId, type, limit: 3 } : "skip"
+  );
 
   // Animate when streak increases
   useEffect(() => {
@@ -158,7 +179,7 @@ export function StreakBadge({
         <View style={styles.flameContainer}>
           <Animated.View style={glowAnimatedStyle} />
           <Animated.Text style={[styles.flame, flameAnimatedStyle]}>
-            🔥
+            {STREAK_EMOJIS[type]}
           </Animated.Text>
         </View>
         
@@ -167,10 +188,10 @@ export function StreakBadge({
         ) : (
           <View style={styles.fullVariant}>
             <Text style={styles.streakText}>
-              {streak.currentStreak} {t("common.days", "days")}
+              {streak.currentStreak} {t("streak.days")}
             </Text>
             <Text style={styles.label}>
-              {t(`streak.${type}`, type + " streak")}
+              {t(`streak.${type}`)}
             </Text>
           </View>
         )}
@@ -181,11 +202,26 @@ export function StreakBadge({
       {variant === "full" && (
         <>
           <Text style={styles.subtext}>
-            {t("streak.best", "Best:")} {streak.longestStreak} {t("common.days", "days")}
+            {t("streak.best")} {streak.longestStreak} {t("streak.days")}
           </Text>
           <Text style={styles.subtext}>
-            {t("streak.total", "Total entries:")} {streak.totalEntries}
+            {t("streak.total")} {streak.totalEntries}
           </Text>
+          {streak.freezesAvailable > 0 ? (
+            <Text style={styles.subtext}>
+              🧊 {t("streak.freezes")} {streak.freezesAvailable}
+            </Text>
+          ) : null}
+          {history && history.length > 0 ? (
+            <>
+              <Text style={styles.subtext}>{t("streak.past")}</Text>
+              {history.map((past: Doc<"streakHistory">) => (
+                <Text key={past._id} style={styles.subtext}>
+                  {past.length} {t("streak.days")} · {formatRange(past.startDate, past.endDate, locale)}
+                </Text>
+              ))}
+            </>
+          ) : null}
         </>
       )}
     </View>
@@ -1,5 +1,7 @@
 export { MoodChart } from './MoodChart';
 export { MoodTracker } from './MoodTracker';
+export { EmotionPicker } from './EmotionPicker';
+export { CheckInScales } from './CheckInScales';
 export { MoodScreenHeader } from './MoodScreenHeader';
 export { LastMoodCard } from './LastMoodCard';
 export { ExerciseRecommendationCard } from './ExerciseRecommendationCard';
@@ -0,0 +1,127 @@
+import React from "react";
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { SparkLine } from "@/components/data-display/SparkLine";
+import { useGlassStyle } from "@/hooks/glass/useGlassEffect";
+import { useAppTheme } from "@/theme";
+
+interface AssessmentSummary {
+  id: string;
+  name: string;
+  maxScore: number;
+  isDue: boolean;
+  latest: {
+    totalScore: number;
+    severityLabel: { en: string; ar: string };
+  } | null;
+  trend: { totalScore: number; completedAt: number }[];
+}
+
+interface AssessmentTrendCardProps {
+  assessments?: AssessmentSummary[];
+  locale: string;
+  onStart: (questionnaireId: string) => void;
+}
+
+export function AssessmentTrendCard({
+  assessments,
+  locale,
+  onStart,
+}: AssessmentTrendCardProps) {
+  const { colors } = useAppTheme();
+  const cardGlass = useGlassStyle({ variant: 'light', borderEnabled: false, shadowEnabled: false });
+  const isArabic = locale === 'ar';
+
+  if (!assessments) {
+    return null;
+  }
+
+  return (
+    <View style={[styles.card, cardGlass]}>
+      <Text style={[styles.title, { color: colors.text.primary }]}>
+        {isArabic ? 'التقييمات الذاتية' : 'Self-assessments'}
+      </Text>
+      {assessments.map((assessment) => (
+        <View key={assessment.id} style={styles.row}>
+          <View style={styles.details}>
+            <Text style={[styles.name, { color: colors.text.primary }]}>
+              {assessment.name}
+            </Text>
+            <Text style={[styles.result, { color: colors.text.secondary }]}>
+              {assessment.latest
+                ? `${assessment.latest.totalScore}/${assessment.maxScore} · ${isArabic ? assessment.latest.severityLabel.ar : assessment.latest.severityLabel.en}`
+                : isArabic ? 'لم يُجرَ بعد' : 'Not taken yet'}
+            </Text>
+          </View>
+          <SparkLine
+            data={assessment.trend.map(point => point.totalScore)}
+            width={72}
+            height={28}
+            color={colors.interactive.primary}
+          />
+          <TouchableOpacity
+            onPress={() => onStart(assessment.id)}
+            style={[
+              styles.button,
+              { backgroundColor: assessment.isDue ? colors.interactive.primary : 'transparent', borderColor: colors.interactive.primary },
+            ]}
+          >
+            <Text style={[styles.buttonText, { color: assessment.isDue ? colors.text.inverse : colors.interactive.primary }]}>
+              {assessment.isDue
+                ? isArabic ? 'حان الوقت' : 'Due now'
+                : isArabic ? 'إعادة' : 'Retake'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+      <Text style={[styles.disclaimer, { color: colors.text.tertiary }]}>
+        {isArabic
+          ? 'هذه الاستبيانات للمتابعة الذاتية وليست تشخيصاً.'
+          : 'These questionnaires are for self-tracking, not a diagnosis.'}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    padding: 20,
+    borderRadius: 16,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+  },
+  details: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  result: {
+    fontSize: 14,
+    marginTop: 2,
+  },
+  button: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  buttonText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  disclaimer: {
+    fontSize: 12,
+    marginTop: 8,
+  },
+});
@@ -2,4 +2,5 @@ export { ProfileAvatar } from './ProfileAvatar';
 export { ProgressCard } from './ProgressCard';
 export { ProgressOverview } from './ProgressOverview';
 export { AIInsightsCard } from './AIInsightsCard';
-export { ExerciseBreakdownCard } from './ExerciseBreakdownCard';
\ No newline at end of file
+export { ExerciseBreakdownCard } from './ExerciseBreakdownCard';
+export { AssessmentTrendCard } from './AssessmentTrendCard';
\ No newline at end of file
@@ -27,9 +27,34 @@ interface WeeklyStats {
   streakDays: number;
 }
 
+type StreakType = "mood" | "exercise" | "check-in";
+
+// From api.streaks.getUserStreaks
+interface StreakSummary {
+  type: StreakType;
+  currentStreak: number;
+  longestStreak: number;
+}
+
+// From api.streaks.getStreakHistory
+interface PastStreak {
+  type: StreakType;
+  length: number;
+  startDate: string;
+  endDate: string;
+}
+
+const STREAK_EMOJIS: Record<StreakType, string> = {
+  mood: "🔥",
+  exercise: "💪",
+  "check-in": "✅",
+};
+
 interface WeeklyProgressCardProps {
   stats: WeeklyStats;
   weekStartDate: Date;
+  streaks?: StreakSummary[];
+  pastStreaks?: PastStreak[];
   onViewDetails?: () => void;
   style?: ViewStyle;
 }
@@ -43,6 +68,8 @@ const WEEKLY_GOALS = {
 export function WeeklyProgressCard({
   stats,
   weekStartDate,
+  streaks,
+  pastStreaks,
   onViewDetails,
   style,
 }: WeeklyProgressCardProps) {
@@ -180,6 +207,37 @@ export function WeeklyProgressCard({
     moodEmoji: {
       fontSize: 24,
     },
+    streaksRow: {
+      flexDirection: "row" as const,
+      justifyContent: "space-between" as const,
+      marginTop: spacing.md,
+      paddingTop: spacing.md,
+      borderTopWidth: 1,
+      borderTopColor: colors.system.separator,
+    },
+    streakItem: {
+      flex: 1,
+      alignItems: "center" as const,
+      gap: 2,
+    },
+    streakCount: {
+      ...typography.bodyMedium,
+      color: colors.text.primary,
+      fontWeight: "700" as const,
+    } as TextStyle,
+    streakLabel: {
+      ...typography.caption,
+      color: colors.text.secondary,
+      textAlign: "center" as const,
+    } as TextStyle,
+    pastStreaks: {
+      marginTop: spacing.sm,
+      gap: 2,
+    },
+    pastStreakText: {
+      ...typography.caption,
+      color: colors.text.tertiary,
+    } as TextStyle,
     viewDetailsButton: {
       marginTop: spacing.md,
       paddingVertical: spacing.sm,
@@ -310,6 +368,30 @@ export function WeeklyProgressCard({
         </View>
       )}
 
+      {streaks && streaks.length > 0 && (
+        <View style={styles.streaksRow}>
+          {streaks.map(streak => (
+            <View key={streak.type} style={styles.streakItem}>
+              <Text style={styles.streakCount}>
+                {STREAK_EMOJIS[streak.type]} {streak.currentStreak}
+              </Text>
+              <Text style={styles.streakLabel}>{t(`streak.${streak.type}`)}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {pastStreaks && pastStreaks.length > 0 ? (
+        <View style={styles.pastStreaks}>
+          <Text style={styles.weekLabel}>{t("streak.past")}</Text>
+          {pastStreaks.map(past => (
+            <Text key={`${past.type}-${past.endDate}`} style={styles.pastStreakText}>
+              {STREAK_EMOJIS[past.type]} {past.length} {t("streak.days")} · {past.startDate} – {past.endDate}
+            </Text>
+          ))}
+        </View>
+      ) : null}
+
       {onViewDetails && (
         <TouchableOpacity
           style={styles.viewDetailsButton}
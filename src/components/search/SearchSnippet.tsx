@@ -0,0 +1,51 @@
+import { useAppTheme } from '@/theme';
+import React from 'react';
+import { StyleProp, StyleSheet, Text, TextStyle } from 'react-native';
+
+export interface Snippet {
+  text: string;
+  highlights: [number, number][];
+}
+
+interface SearchSnippetProps {
+  snippet: Snippet;
+  style?: StyleProp<TextStyle>;
+  numberOfLines?: number;
+}
+
+/**
+ * Renders a search snippet with its matches highlighted (see convex/searchText.ts)
+ */
+export function SearchSnippet({ snippet, style, numberOfLines = 3 }: SearchSnippetProps) {
+  const { colors } = useAppTheme();
+  const parts: React.ReactNode[] = [];
+  let offset = 0;
+
+  snippet.highlights.forEach(([start, end], index) => {
+    if (start > offset) parts.push(snippet.text.slice(offset, start));
+    parts.push(
+      <Text key={index} style={[styles.highlight, { color: colors.text.primary }]}>
+        {snippet.text.slice(start, end)}
+      </Text>
+    );
+    offset = end;
+  });
+  if (offset < snippet.text.length) parts.push(snippet.text.slice(offset));
+
+  return (
+    <Text style={[styles.text, { color: colors.text.primary }, style]} numberOfLines={numberOfLines}>
+      {parts}
+    </Text>
+  );
+}
+
+const styles = StyleSheet.create({
+  text: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  highlight: {
+    backgroundColor: 'rgba(255, 204, 0, 0.3)',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,2 @@
+export { SearchSnippet } from './SearchSnippet';
+export type { Snippet } from './SearchSnippet';
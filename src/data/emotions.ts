@@ -0,0 +1,101 @@
+// Feelings wheel for mood check-ins. Keys match EMOTION_WHEEL in
+// convex/checkIns.ts, which validates what gets stored.
+
+export interface Emotion {
+  key: string;
+  label: { en: string; ar: string };
+}
+
+export interface CoreEmotion extends Emotion {
+  emoji: string;
+  color: string;
+  feelings: Emotion[];
+}
+
+export const EMOTION_WHEEL: CoreEmotion[] = [
+  {
+    key: 'happy',
+    emoji: '😊',
+    color: '#F5C542',
+    label: { en: 'Happy', ar: 'سعيد' },
+    feelings: [
+      { key: 'grateful', label: { en: 'Grateful', ar: 'ممتن' } },
+      { key: 'proud', label: { en: 'Proud', ar: 'فخور' } },
+      { key: 'hopeful', label: { en: 'Hopeful', ar: 'متفائل' } },
+      { key: 'content', label: { en: 'Content', ar: 'راضٍ' } },
+    ],
+  },
+  {
+    key: 'sad',
+    emoji: '😢',
+    color: '#6B8DD6',
+    label: { en: 'Sad', ar: 'حزين' },
+    feelings: [
+      { key: 'lonely', label: { en: 'Lonely', ar: 'وحيد' } },
+      { key: 'disappointed', label: { en: 'Disappointed', ar: 'محبط' } },
+      { key: 'hurt', label: { en: 'Hurt', ar: 'مجروح' } },
+      { key: 'guilty', label: { en: 'Guilty', ar: 'مذنب' } },
+    ],
+  },
+  {
+    key: 'angry',
+    emoji: '😠',
+    color: '#E57373',
+    label: { en: 'Angry', ar: 'غاضب' },
+    feelings: [
+      { key: 'frustrated', label: { en: 'Frustrated', ar: 'منزعج' } },
+      { key: 'irritated', label: { en: 'Irritated', ar: 'متضايق' } },
+      { key: 'resentful', label: { en: 'Resentful', ar: 'مستاء' } },
+      { key: 'jealous', label: { en: 'Jealous', ar: 'غيور' } },
+    ],
+  },
+  {
+    key: 'fearful',
+    emoji: '😨',
+    color: '#9C7BD1',
+    label: { en: 'Fearful', ar: 'خائف' },
+    feelings: [
+      { key: 'anxious', label: { en: 'Anxious', ar: 'قلق' } },
+      { key: 'worried', label: { en: 'Worried', ar: 'مهموم' } },
+      { key: 'overwhelmed', label: { en: 'Overwhelmed', ar: 'مثقل' } },
+      { key: 'insecure', label: { en: 'Insecure', ar: 'غير واثق' } },
+    ],
+  },
+  {
+    key: 'surprised',
+    emoji: '😮',
+    color: '#4DB6AC',
+    label: { en: 'Surprised', ar: 'متفاجئ' },
+    feelings: [
+      { key: 'confused', label: { en: 'Confused', ar: 'مرتبك' } },
+      { key: 'amazed', label: { en: 'Amazed', ar: 'مندهش' } },
+      { key: 'excited', label: { en: 'Excited', ar: 'متحمس' } },
+      { key: 'startled', label: { en: 'Startled', ar: 'مذعور' } },
+    ],
+  },
+  {
+    key: 'tired',
+    emoji: '😩',
+    color: '#A1887F',
+    label: { en: 'Tired', ar: 'متعب' },
+    feelings: [
+      { key: 'bored', label: { en: 'Bored', ar: 'ملول' } },
+      { key: 'stressed', label: { en: 'Stressed', ar: 'متوتر' } },
+      { key: 'exhausted', label: { en: 'Exhausted', ar: 'منهك' } },
+      { key: 'unmotivated', label: { en: 'Unmotivated', ar: 'بلا حافز' } },
+    ],
+  },
+];
+
+// Same cap as the server
+export const MAX_EMOTIONS = 6;
+
+const EMOTIONS_BY_KEY = new Map<string, Emotion>(
+  EMOTION_WHEEL.flatMap(core => [core, ...core.feelings]).map(emotion => [emotion.key, emotion])
+);
+
+export const getEmotionLabel = (key: string, locale: string): string => {
+  const emotion = EMOTIONS_BY_KEY.get(key);
+  if (!emotion) return key;
+  return locale === 'ar' ? emotion.label.ar : emotion.label.en;
+};
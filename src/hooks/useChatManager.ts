@@ -11,6 +11,7 @@ export interface ChatMessage {
   content: string;
   role: 'user' | 'assistant' | 'system';
   timestamp: number;
+  status?: 'streaming' | 'complete' | 'cancelled';
   reactions?: {
     userId: string;
     type: 'helpful' | 'not-helpful' | 'emoji';
@@ -23,13 +24,24 @@ export interface ChatMessage {
     language?: string;
     chatMode?: string;
     chunks?: string[];
+    crisisSeverity?: string;
+    crisisIndicators?: string[];
   };
+  quickReplies?: Omit<QuickReply, 'id'>[];
+  // Offered by the assistant through tool calls (see convex/chatActions.ts)
+  actions?: {
+    type: 'start-exercise' | 'log-mood' | 'open-thought-record';
+    exerciseId?: string;
+    thoughtText?: string;
+    completedExerciseId?: string;
+  }[];
 }
 
 export interface QuickReply {
   id: string;
   text: string;
   sentiment: 'positive' | 'neutral' | 'supportive';
+  moodContext?: 'excellent' | 'good' | 'okay' | 'bad' | 'terrible';
 }
 
 export function useChatManager(chatMode: 'floating' | 'full' = 'full') {
@@ -64,9 +76,12 @@ export function useChatManager(chatMode: 'floating' | 'full' = 'full') {
   const createConversation = useMutation(api.conversations.createConversation);
   const startNewConversation = useMutation(api.conversations.startNewConversation);
   const sendMessage = useAction(api.messages.sendMessage);
+  const cancelGeneration = useMutation(api.messages.cancelGeneration);
   const addReaction = useMutation(api.messages.addReaction);
   const _removeReaction = useMutation(api.messages.removeReaction);
   const switchToConversation = useMutation(api.conversations.switchToConversation);
+  const generateQuickReplies = useAction(api.quickReplies.generateQuickReplies);
+  const quickRepliesFor = useRef<string | null>(null);
   
   // New query for conversation history
   const conversationsWithPreview = useQuery(api.conversations.getUserConversationsWithPreview,
@@ -99,11 +114,21 @@ export function useChatManager(chatMode: 'floating' | 'full' = 'full') {
       // Real-time updates (new messages)
       // OPTIMIZATION: Use memoized Set for O(1) deduplication
       const newMessages = messageData.messages.filter((msg: any) => !existingMessageIds.has(msg._id));
+
+      // Streaming drafts are patched in place, so pick up content changes
+      // for messages we already have
+      const latestById = new Map<string, ChatMessage>(
+        messageData.messages.map((msg: ChatMessage) => [msg._id, msg])
+      );
+      const hasUpdatedMessages = allMessages.some(msg => {
+        const latest = latestById.get(msg._id);
+        return latest !== undefined && latest !== msg;
+      });
       
-      if (newMessages.length > 0) {
+      if (newMessages.length > 0 || hasUpdatedMessages) {
         // Add only truly new messages and update the ID set
         setAllMessages(prev => {
-          const updated = [...prev, ...newMessages];
+          const updated = [...prev.map(msg => latestById.get(msg._id) ?? msg), ...newMessages];
           // Update the ref with new IDs
           newMessages.forEach(msg => messageIds.current.add(msg._id));
           return updated;
@@ -128,7 +153,53 @@ export function useChatManager(chatMode: 'floating' | 'full' = 'full') {
     }
   }, [activeConversation]);
 
-  const messages = allMessages;
+  // Empty drafts are represented by the typing indicator rather than a blank bubble
+  const messages = useMemo(
+    () => allMessages.filter(msg => msg.role !== 'assistant' || msg.status === undefined || msg.content.length > 0),
+    [allMessages]
+  );
+
+  // The assistant reply currently being generated, if any
+  const streamingMessage = useMemo(
+    () => allMessages.find(msg => msg.status === 'streaming'),
+    [allMessages]
+  );
+
+  // Offer quick replies under the latest assistant reply once it has finished
+  // streaming; the server caches them on the message
+  const lastMessage = allMessages[allMessages.length - 1];
+  useEffect(() => {
+    if (!testQuery || !lastMessage || lastMessage.role !== 'assistant' || lastMessage.status === 'streaming') {
+      quickRepliesFor.current = null;
+      setQuickReplies([]);
+      return;
+    }
+    if (quickRepliesFor.current === lastMessage._id) return;
+    const messageId = lastMessage._id;
+    quickRepliesFor.current = messageId;
+
+    const toQuickReplies = (replies: Omit<QuickReply, 'id'>[]) =>
+      replies.map((reply, index) => ({ ...reply, id: `${messageId}-${index}` }));
+
+    if (lastMessage.quickReplies) {
+      setQuickReplies(toQuickReplies(lastMessage.quickReplies));
+      return;
+    }
+    generateQuickReplies({
+      userId: testQuery._id,
+      messageId: messageId as any,
+      language: lastMessage.metadata?.language ?? testQuery.language ?? 'en',
+    })
+      .then((replies: Omit<QuickReply, 'id'>[]) => {
+        // Ignore suggestions for a reply that is no longer the latest
+        if (quickRepliesFor.current === messageId) {
+          setQuickReplies(toQuickReplies(replies));
+        }
+      })
+      .catch((error: unknown) => {
+        console.error('Error generating quick replies:', error);
+      });
+  }, [testQuery, lastMessage, generateQuickReplies]);
 
   // Create conversation if user exists but no conversation
   useEffect(() => {
@@ -206,6 +277,7 @@ export function useChatManager(chatMode: 'floating' | 'full' = 'full') {
     try {
       // Show typing indicator immediately when user sends message
       setIsTyping(true);
+      setQuickReplies([]);
 
       // Detect language from user input - with timing
       const langDetectionStart = performance.now();
@@ -239,8 +311,6 @@ export function useChatManager(chatMode: 'floating' | 'full' = 'full') {
 
       // Hide typing indicator after message is processed
       setIsTyping(false);
-      
-      // QuickReply generation disabled for now
     } catch (error) {
       console.error('Error sending message:', error);
       performanceMetrics.error = error instanceof Error ? error.message : 'Unknown error';
@@ -295,6 +365,17 @@ export function useChatManager(chatMode: 'floating' | 'full' = 'full') {
     }
   }, [messageText, activeConversation, testQuery, allMessages, sendMessage, chatMode, detectLanguage]);
 
+  // Stop the assistant reply that is currently being generated
+  const handleCancelGeneration = useCallback(async () => {
+    if (!activeConversation) return;
+
+    try {
+      await cancelGeneration({ conversationId: activeConversation._id });
+    } catch (error) {
+      console.error('Error cancelling generation:', error);
+    }
+  }, [activeConversation, cancelGeneration]);
+
   // Handle adding reaction to message
   const handleAddReaction = useCallback(async (messageId: string, type: 'helpful' | 'not-helpful' | 'emoji', emoji?: string) => {
     if (!testQuery) return;
@@ -366,19 +447,22 @@ export function useChatManager(chatMode: 'floating' | 'full' = 'full') {
   }, [testQuery, switchToConversation]);
 
   // Convert messages to floating format with chunks support
-  const floatingMessages = (allMessages || []).map((msg: ChatMessage) => ({
+  const floatingMessages = (messages || []).map((msg: ChatMessage) => ({
     id: msg._id,
     content: msg.content,
     role: msg.role as 'user' | 'assistant',
     timestamp: msg.timestamp || Date.now(),
     chunks: msg.metadata?.chunks, // Include chunks for floating display
+    isStreaming: msg.status === 'streaming',
   }));
 
   return {
     // State
     messageText,
     setMessageText,
-    isTyping,
+    // Only show the typing indicator until the first streamed tokens arrive
+    isTyping: isTyping && !streamingMessage?.content,
+    isGenerating: isTyping || !!streamingMessage,
     quickReplies,
     setQuickReplies,
     messages,
@@ -389,6 +473,7 @@ export function useChatManager(chatMode: 'floating' | 'full' = 'full') {
 
     // Actions
     handleSendMessage,
+    handleCancelGeneration,
     handleAddReaction,
     handleMessageLongPress,
     loadOlderMessages,
@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import { useAuthState } from './useAuthState';
+import {
+  createKeyBackup,
+  decodeKey,
+  decryptText,
+  encodeKey,
+  encryptText,
+  generateDataKey,
+  isEncrypted,
+  KeyBackup,
+  mapExerciseText,
+  recoverDataKey,
+} from '@/utils/encryption';
+import { tokenCache } from '../../utils/cache';
+
+// Data keys already read from SecureStore, shared by every hook instance
+const keyCache = new Map<string, Uint8Array>();
+const listeners = new Set<() => void>();
+
+const storageKey = (userId: string) => `nafsy.encryptionKey.${userId}`;
+
+const setCachedKey = async (userId: string, key: Uint8Array) => {
+  await tokenCache.saveToken(storageKey(userId), encodeKey(key));
+  keyCache.set(userId, key);
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * End-to-end encryption state for the signed-in user
+ * Encrypts private fields before they are sent and decrypts them for display
+ */
+export function useEncryption() {
+  const { convexUser: user } = useAuthState();
+  const enableEncryptionMutation = useMutation(api.encryption.enableEncryption);
+  const userId = user?._id as string | undefined;
+  const [key, setKey] = useState<Uint8Array | null>(userId ? keyCache.get(userId) ?? null : null);
+
+  useEffect(() => {
+    if (!userId) return;
+    const sync = () => setKey(keyCache.get(userId) ?? null);
+    listeners.add(sync);
+
+    if (!keyCache.has(userId)) {
+      tokenCache.getToken(storageKey(userId)).then(stored => {
+        if (!stored || keyCache.has(userId)) return;
+        try {
+          keyCache.set(userId, decodeKey(stored));
+          listeners.forEach(listener => listener());
+        } catch (error) {
+          console.error('Stored encryption key is invalid:', error);
+        }
+      });
+    } else {
+      sync();
+    }
+
+    return () => {
+      listeners.delete(sync);
+    };
+  }, [userId]);
+
+  const isEnabled = !!user?.encryption;
+  // Encrypted on the server, but this device doesn't hold the key yet
+  const isLocked = isEnabled && !key;
+
+  // Only text written from now on is encrypted; earlier rows stay as they were
+  // (the encryption screen tells the user so)
+  const enable = useCallback(async (passphrase: string) => {
+    if (!user?._id) throw new Error('Not signed in');
+    const dataKey = generateDataKey();
+    const keyBackup = await createKeyBackup(dataKey, passphrase);
+    // Keep the key locally before the server starts requiring ciphertext
+    await setCachedKey(user._id, dataKey);
+    await enableEncryptionMutation({ userId: user._id, keyBackup });
+  }, [user?._id, enableEncryptionMutation]);
+
+  const recover = useCallback(async (passphrase: string) => {
+    if (!user?._id || !user.encryption) throw new Error('Encryption is not enabled');
+    const dataKey = await recoverDataKey(user.encryption.keyBackup as KeyBackup, passphrase);
+    await setCachedKey(user._id, dataKey);
+  }, [user?._id, user?.encryption]);
+
+  // Private text as it should be sent to the server
+  const protect = useCallback((text: string): string => {
+    if (!isEnabled) return text;
+    if (!key) throw new Error('Encryption key not available on this device');
+    return encryptText(key, text);
+  }, [isEnabled, key]);
+
+  // Readable text for display; null when the value can't be decrypted here
+  const reveal = useCallback((text: string | undefined | null): string | null => {
+    if (!text) return null;
+    if (!isEncrypted(text)) return text;
+    if (!key) return null;
+    try {
+      return decryptText(key, text);
+    } catch {
+      return null;
+    }
+  }, [key]);
+
+  const protectExerciseData = useCallback(<T extends Record<string, any>>(data: T): T =>
+    isEnabled ? mapExerciseText(data, protect) : data,
+  [isEnabled, protect]);
+
+  return {
+    isEnabled,
+    isLocked,
+    enabledAt: user?.encryption?.enabledAt,
+    enable,
+    recover,
+    protect,
+    reveal,
+    protectExerciseData,
+  };
+}
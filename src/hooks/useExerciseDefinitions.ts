@@ -0,0 +1,20 @@
+import { useQuery } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import { BUILT_IN_EXERCISE_DEFINITIONS, EXERCISE_SCHEMA_VERSION } from '@/convex/exerciseCatalog';
+import { ExerciseDefinition } from '@/types';
+
+/**
+ * The published exercise catalog
+ * Falls back to the built-in exercises the server seeds from until it loads (or when offline);
+ * `isLoaded` tells the two apart
+ */
+export function useExerciseDefinitions() {
+  const definitions: ExerciseDefinition[] | undefined = useQuery(api.exerciseDefinitions.listExerciseDefinitions, {
+    schemaVersion: EXERCISE_SCHEMA_VERSION,
+  });
+
+  return {
+    definitions: definitions && definitions.length > 0 ? definitions : BUILT_IN_EXERCISE_DEFINITIONS,
+    isLoaded: definitions !== undefined,
+  };
+}
@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from 'react';
+import { useConvex } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import { Id } from '@/convex/_generated/dataModel';
+import {
+  discardFailedOutboxEntries,
+  enqueueOutboxEntry,
+  ExerciseOutboxArgs,
+  flushOutbox,
+  getOutboxEntries,
+  MoodOutboxArgs,
+  OutboxEntry,
+  retryFailedOutboxEntries,
+  subscribeToOutbox,
+} from '@/utils/outbox';
+
+/**
+ * Offline-first logging for moods and exercises
+ * Entries are queued locally first, so they survive losing connectivity or the app closing
+ * Only the given user's entries are shown and sent; ones the server kept rejecting are
+ * returned as failedEntries until they are retried or discarded
+ */
+export function useOutbox(userId: Id<'users'> | undefined) {
+  const convex = useConvex();
+  const allEntries = useSyncExternalStore(subscribeToOutbox, getOutboxEntries);
+  const userEntries = useMemo(() => allEntries.filter(entry => entry.args.userId === userId), [allEntries, userId]);
+  const entries = useMemo(() => userEntries.filter(entry => !entry.failed), [userEntries]);
+  const failedEntries = useMemo(() => userEntries.filter(entry => entry.failed), [userEntries]);
+
+  const send = useCallback((entry: OutboxEntry) => {
+    const replay = { clientId: entry.id, clientTimestamp: entry.createdAt };
+    return entry.kind === 'mood'
+      ? convex.mutation(api.moods.recordMood, { ...entry.args, ...replay })
+      : convex.mutation(api.exercises.recordExerciseCompletion, { ...entry.args, ...replay });
+  }, [convex]);
+
+  const flush = useCallback(() => (userId ? flushOutbox(send, userId) : Promise.resolve()), [send, userId]);
+
+  const logMood = useCallback((args: MoodOutboxArgs) => {
+    const entry = enqueueOutboxEntry('mood', args);
+    void flushOutbox(send, args.userId);
+    return entry;
+  }, [send]);
+
+  const logExercise = useCallback((args: ExerciseOutboxArgs) => {
+    const entry = enqueueOutboxEntry('exercise', args);
+    void flushOutbox(send, args.userId);
+    return entry;
+  }, [send]);
+
+  const retryFailed = useCallback(() => {
+    if (!userId) return;
+    retryFailedOutboxEntries(userId);
+    void flush();
+  }, [userId, flush]);
+
+  const discardFailed = useCallback(() => {
+    if (userId) discardFailedOutboxEntries(userId);
+  }, [userId]);
+
+  const pendingMoods = useMemo(() =>
+    entries.flatMap(entry => (entry.kind === 'mood' ? [{ ...entry.args, id: entry.id, timestamp: entry.createdAt }] : [])),
+  [entries]);
+
+  const pendingExercises = useMemo(() =>
+    entries.flatMap(entry => (entry.kind === 'exercise' ? [{ ...entry.args, id: entry.id, completedAt: entry.createdAt }] : [])),
+  [entries]);
+
+  return {
+    pendingMoods,
+    pendingExercises,
+    failedEntries,
+    logMood,
+    logExercise,
+    retryFailed,
+    discardFailed,
+    flush,
+  };
+}
+
+/**
+ * Replays the signed-in user's outbox on launch and every time Convex reconnects
+ * Mount once, inside the Convex provider
+ */
+export function useOutboxSync(userId: Id<'users'> | undefined) {
+  const convex = useConvex();
+  const { flush } = useOutbox(userId);
+
+  useEffect(() => {
+    if (!userId) return;
+    void flush();
+
+    let wasConnected = convex.connectionState().isWebSocketConnected;
+    return convex.subscribeToConnectionState(state => {
+      if (state.isWebSocketConnected && !wasConnected) {
+        void flush();
+      }
+      wasConnected = state.isWebSocketConnected;
+    });
+  }, [convex, flush, userId]);
+}
@@ -0,0 +1,157 @@
+import { useEffect } from 'react';
+import { Platform } from 'react-native';
+import { useQuery } from 'convex/react';
+import { useRouter } from 'expo-router';
+import * as Notifications from 'expo-notifications';
+import { api } from '@/convex/_generated/api';
+import { Id } from '@/convex/_generated/dataModel';
+import { getTranslation, type Locale } from '@/locales';
+import {
+  CHECK_IN_ACTION,
+  CHECK_IN_URL,
+  REMINDER_CATEGORY,
+  REMINDER_KIND,
+  reminderTimestamps,
+  SNOOZE_ACTIONS,
+  SnoozeAction,
+} from '@/utils/reminders';
+
+interface ReminderSettings {
+  enabled: boolean;
+  time: string;
+  timezone: string;
+  language: Locale;
+  checkedInToday: boolean;
+}
+
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: false,
+    shouldSetBadge: false,
+  }),
+});
+
+function reminderContent(language: Locale): Notifications.NotificationContentInput {
+  return {
+    title: getTranslation(language, 'reminders.notificationTitle'),
+    body: getTranslation(language, 'reminders.notificationBody'),
+    categoryIdentifier: REMINDER_CATEGORY,
+    data: { kind: REMINDER_KIND, url: CHECK_IN_URL },
+  };
+}
+
+async function cancelReminders() {
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  await Promise.all(
+    scheduled
+      .filter(request => request.content.data?.kind === REMINDER_KIND)
+      .map(request => Notifications.cancelScheduledNotificationAsync(request.identifier))
+  );
+}
+
+async function scheduleReminders(settings: ReminderSettings) {
+  await cancelReminders();
+  if (!settings.enabled) return;
+
+  const permission = await Notifications.getPermissionsAsync();
+  if (!permission.granted && !(await Notifications.requestPermissionsAsync()).granted) return;
+
+  const t = (key: string) => getTranslation(settings.language, key);
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(REMINDER_CATEGORY, {
+      name: t('reminders.title'),
+      importance: Notifications.AndroidImportance.DEFAULT,
+    });
+  }
+  await Notifications.setNotificationCategoryAsync(REMINDER_CATEGORY, [
+    { identifier: CHECK_IN_ACTION, buttonTitle: t('reminders.checkInNow'), options: { opensAppToForeground: true } },
+    { identifier: 'snooze-15', buttonTitle: t('reminders.snooze15'), options: { opensAppToForeground: false } },
+    { identifier: 'snooze-60', buttonTitle: t('reminders.snooze60'), options: { opensAppToForeground: false } },
+  ]);
+
+  const timestamps = reminderTimestamps({
+    time: settings.time,
+    timezone: settings.timezone,
+    now: Date.now(),
+    checkedInToday: settings.checkedInToday,
+  });
+  for (const date of timestamps) {
+    await Notifications.scheduleNotificationAsync({
+      content: reminderContent(settings.language),
+      trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date, channelId: REMINDER_CATEGORY },
+    });
+  }
+}
+
+// Runs of scheduleReminders are chained so one never cancels reminders another
+// is still scheduling; a run whose settings were superseded while it waited is skipped
+let reminderRun: Promise<void> = Promise.resolve();
+let latestRunId = 0;
+
+function syncReminders(settings: ReminderSettings) {
+  const runId = ++latestRunId;
+  reminderRun = reminderRun
+    .then(() => (runId === latestRunId ? scheduleReminders(settings) : undefined))
+    .catch(error => console.error('Scheduling reminders failed:', error));
+}
+
+/**
+ * Keeps the daily check-in reminders scheduled on this device in step with the user's preferences
+ * Today's reminder is dropped as soon as they check in; snoozing and tapping a reminder are handled here too
+ * Mount once, inside the Convex provider
+ */
+export function useReminderSync(userId: Id<'users'> | undefined) {
+  const router = useRouter();
+  const settings: ReminderSettings | null | undefined = useQuery(
+    api.reminders.getReminderSettings,
+    userId ? { userId } : 'skip'
+  );
+
+  useEffect(() => {
+    if (!settings) return;
+    syncReminders(settings);
+  }, [settings]);
+
+  useEffect(() => {
+    const handleResponse = async (response: Notifications.NotificationResponse) => {
+      const { request } = response.notification;
+      if (request.content.data?.kind !== REMINDER_KIND) return;
+
+      const snoozeMinutes = SNOOZE_ACTIONS[response.actionIdentifier as SnoozeAction];
+      if (snoozeMinutes) {
+        await Notifications.dismissNotificationAsync(request.identifier);
+        await Notifications.scheduleNotificationAsync({
+          content: {
+            title: request.content.title,
+            body: request.content.body,
+            categoryIdentifier: REMINDER_CATEGORY,
+            data: request.content.data,
+          },
+          trigger: { type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL, seconds: snoozeMinutes * 60 },
+        });
+        return;
+      }
+
+      // Tapping the reminder, or "Check in now", opens the mood tracker
+      router.push(CHECK_IN_URL);
+    };
+
+    const onResponse = (response: Notifications.NotificationResponse) => {
+      handleResponse(response).catch(error => console.error('Handling reminder failed:', error));
+    };
+
+    // A reminder tapped while the app was closed
+    Notifications.getLastNotificationResponseAsync()
+      .then(response => {
+        if (!response) return;
+        onResponse(response);
+        return Notifications.clearLastNotificationResponseAsync();
+      })
+      .catch(error => console.error('Reading the last reminder response failed:', error));
+
+    const subscription = Notifications.addNotificationResponseReceivedListener(onResponse);
+    return () => subscription.remove();
+  }, [router]);
+}
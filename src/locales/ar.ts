@@ -137,6 +137,35 @@ export const ar = {
       title: "غير قادر على إجراء المكالمة",
       message: "يرجى الاتصال بالرقم يدوياً أو المحاولة مرة أخرى لاحقاً.",
     },
+    getHelp: "احصل على المساعدة الآن",
+    hotlines: {
+      title: "تحدث مع أحد الآن",
+      empty: "لا توجد خطوط مساعدة مدرجة لمنطقتك بعد. إذا كنت في خطر، اتصل برقم الطوارئ المحلي.",
+      call: "اتصال",
+      forCountry: "خطوط المساعدة في {country}",
+      international: "خطوط مساعدة دولية",
+      changeRegion: "تغيير المنطقة",
+    },
+    escalation: {
+      notified: "أبلغنا {name} بأنك قد تحتاج إلى الدعم.",
+      failed: "لم نتمكن من الوصول إلى جهة اتصال الطوارئ. يرجى الاتصال بها أو بخط المساعدة مباشرة.",
+    },
+    contacts: {
+      title: "جهات اتصال الطوارئ",
+      manage: "إدارة جهات اتصال الطوارئ",
+      empty: "لم تضف جهة اتصال للطوارئ بعد.",
+      add: "إضافة جهة اتصال",
+      name: "الاسم",
+      phone: "رقم الهاتف",
+      email: "البريد الإلكتروني (اختياري)",
+      relationship: "صلة القرابة",
+      primary: "جهة الاتصال الأساسية",
+      consentTitle: "الإبلاغ أثناء الأزمات",
+      consentDescription: "إذا لاحظ نفسي أنك قد تكون في خطر مباشر، يمكنه إرسال رسالة قصيرة لهذا الشخص يطلب منه الاطمئنان عليك. لا تتم مشاركة محادثاتك أبداً.",
+      sms: "رسالة نصية",
+      emailChannel: "البريد الإلكتروني",
+      remove: "حذف",
+    },
   },
   
   // Common actions (for global access)
@@ -159,6 +188,7 @@ export const ar = {
     error: "خطأ في الرسالة",
     sendError: "فشل في إرسال الرسالة. يرجى المحاولة مرة أخرى.",
     floatingModeHint: "انقر مرتين للعودة إلى الوضع العائم",
+    stopGenerating: "إيقاف التوليد",
     you: "أنت",
     assistant: "نفسي",
     search: {
@@ -166,6 +196,20 @@ export const ar = {
       placeholder: "ابحث في المحادثة...",
       results: "نتيجة",
       noResults: "لم يتم العثور على رسائل",
+      thisConversation: "هذه المحادثة",
+      allConversations: "كل المحادثات",
+      everyone: "الجميع",
+      anyTime: "أي وقت",
+      pastWeek: "الأسبوع الماضي",
+      pastMonth: "الشهر الماضي",
+      loadMore: "عرض المزيد",
+      untitled: "محادثة بدون عنوان",
+    },
+    actions: {
+      startExercise: "ابدأ {exercise}",
+      openThoughtRecord: "افحص هذه الفكرة",
+      logMood: "سجّل شعورك",
+      completed: "تم",
     },
     newChat: {
       title: "بدء محادثة جديدة؟",
@@ -230,6 +274,25 @@ export const ar = {
     moodHistory: "تاريخ المزاج",
     insights: "الرؤى",
   },
+
+  // Offline outbox
+  outbox: {
+    failed: "تعذر حفظ {count} من الإدخالات.",
+    retry: "إعادة المحاولة",
+    discard: "تجاهل",
+  },
+  
+  // Streaks
+  streak: {
+    mood: "سلسلة المزاج",
+    exercise: "سلسلة التمارين",
+    "check-in": "سلسلة تسجيل الحضور",
+    days: "أيام",
+    best: "الأفضل:",
+    total: "إجمالي الإدخالات:",
+    freezes: "تجميد السلسلة:",
+    past: "السلاسل السابقة",
+  },
   
   // Exercises
   exercises: {
@@ -240,6 +303,17 @@ export const ar = {
     meditation: "التأمل",
     relaxation: "الاسترخاء",
     mindfulness: "اليقظة الذهنية",
+    // Names of exercise types (convex/exerciseDefinitions.ts)
+    types: {
+      breathing: "التنفس",
+      grounding: "التأريض",
+      thoughtChallenge: "تحدي الأفكار",
+      gratitude: "الامتنان",
+      mindfulness: "اليقظة الذهنية",
+    },
+    // Ranked recommendations (convex/recommendations.ts)
+    recommended: "مقترح لك",
+    alsoTry: "جرّب أيضاً",
     // Grounding exercise (5-4-3-2-1 technique)
     grounding: {
       title: "تمرين التأريض",
@@ -249,53 +323,6 @@ export const ar = {
       step4: "اذكر شيئين تشمهما",
       step5: "اذكر شيئاً واحداً تذوقه",
     },
-    // Exercise data
-    data: {
-      // Breathing exercises
-      boxBreathing: {
-        title: "التنفس الصندوقي",
-        description: "اهدئ عقلك بالتنفس المنتظم",
-      },
-      breathing478: {
-        title: "تنفس 4-7-8",
-        description: "تقنية استرخاء سريعة",
-      },
-      // Grounding exercises
-      grounding54321: {
-        title: "تقنية 5-4-3-2-1",
-        description: "تواصل مع حواسك",
-        steps: [
-          "اذكر 5 أشياء يمكنك رؤيتها حولك",
-          "اذكر 4 أشياء يمكنك لمسها أو الشعور بها",
-          "اذكر 3 أشياء يمكنك سماعها",
-          "اذكر شيئين يمكنك شمهما",
-          "اذكر شيئاً واحداً يمكنك تذوقه",
-        ],
-      },
-      // Thought challenge exercises
-      thoughtChallenge: {
-        title: "تحدي الأفكار",
-        description: "افحص وأعد صياغة الأفكار السلبية",
-        steps: [
-          "حدد الفكرة السلبية",
-          "قيم مشاعرك (0-10)",
-          "اكتب الأدلة التي تدعم الفكرة",
-          "اكتب الأدلة التي تعارض الفكرة",
-          "اصنع فكرة متوازنة",
-          "أعد تقييم مشاعرك",
-        ],
-      },
-      // Gratitude exercises
-      gratitudeJournal: {
-        title: "يوميات الامتنان",
-        description: "ركز على اللحظات الإيجابية",
-        steps: [
-          "فكر في 3 أشياء أنت ممتن لها اليوم",
-          "اكتب لماذا أنت ممتن لكل منها",
-          "لاحظ كيف تشعر بعد التأمل",
-        ],
-      },
-    },
   },
   
   // Profile
@@ -313,6 +340,247 @@ export const ar = {
     support: "الدعم",
   },
   
+  // Data export
+  dataExport: {
+    section: "بياناتك",
+    title: "تصدير بياناتي",
+    description: "نزّل نسخة من كل ما يحفظه نفسي عنك: ملفك الشخصي ومحادثاتك ومزاجك وتمارينك وسلاسل الاستمرارية والرؤى وجهات اتصال الطوارئ. ستحصل على أرشيف JSON وجداول بيانات (CSV) لمزاجك وتمارينك.",
+    request: "تجهيز التصدير",
+    preparing: "جارٍ تجهيز بياناتك…",
+    readyOn: "التصدير جاهز · {date}",
+    failed: "تعذر تجهيز التصدير. يرجى المحاولة مرة أخرى.",
+    downloadError: "تعذر فتح التنزيل. يرجى المحاولة مرة أخرى.",
+  },
+
+  // Account deletion
+  accountDeletion: {
+    title: "حذف الحساب",
+    confirmTitle: "هل تريد حذف حسابك؟",
+    confirmMessage: "سيؤدي هذا إلى حذف ملفك الشخصي ومحادثاتك ومزاجك وتمارينك ورؤاك وجهات اتصال الطوارئ نهائياً وتسجيل خروجك. لا يمكن التراجع عن ذلك. صدّر بياناتك أولاً إذا أردت الاحتفاظ بنسخة.",
+    confirm: "حذف نهائي",
+    deleting: "جارٍ حذف حسابك…",
+    failed: "تعذر حذف حسابك. يرجى المحاولة مرة أخرى.",
+  },
+
+  // Daily check-in reminders
+  reminders: {
+    title: "التذكيرات",
+    description: "احصل على تذكير لطيف كل يوم لتسجيل حالتك. إذا سجلت مزاجك أو أديت تمريناً أو تحدثت معنا في ذلك اليوم، فلن نرسله.",
+    enable: "تذكير يومي بتسجيل الحالة",
+    time: "ذكّرني في",
+    permissionDenied: "الإشعارات متوقفة لتطبيق نفسي. فعّلها من إعدادات جهازك لتصلك التذكيرات.",
+    failed: "تعذر حفظ إعدادات التذكير. يرجى المحاولة مرة أخرى.",
+    notificationTitle: "حان وقت تسجيل حالتك",
+    notificationBody: "كيف تشعر اليوم؟ خذ لحظة لتسجيل مزاجك.",
+    checkInNow: "سجّل الآن",
+    snooze15: "ذكّرني بعد ١٥ دقيقة",
+    snooze60: "ذكّرني بعد ساعة",
+  },
+
+  // PHQ-9 / GAD-7 self-assessments
+  assessments: {
+    submit: "اعرض نتيجتي",
+    answerAll: "يرجى الإجابة على جميع الأسئلة.",
+    failed: "تعذر حفظ إجاباتك. يرجى المحاولة مرة أخرى.",
+    resultTitle: "نتيجتك",
+    score: "النتيجة: {score} من {max}",
+    disclaimer: "يساعدك هذا الاستبيان على متابعة مشاعرك، وهو ليس تشخيصاً. إذا أقلقتك نتيجتك، تحدث مع طبيب أو معالج نفسي.",
+    done: "تم",
+  },
+
+  // Therapist-shareable progress report (PDF)
+  progressReport: {
+    title: "تقرير التقدم",
+    preparedFor: "تقرير التقدم لـ {name}",
+    period: "{from} – {to}",
+    generated: "أُنشئ في {date} بواسطة نفسي",
+    disclaimer: "بيانات مُبلّغ عنها ذاتياً. هذا ليس سجلاً طبياً ولا تشخيصاً.",
+    moodTitle: "المزاج",
+    moodAverage: "متوسط المزاج {value} / 10 من {count} تسجيلات",
+    moodEmpty: "لا توجد تسجيلات مزاج في هذه الفترة.",
+    factorsTitle: "ما يرتبط بالمزاج",
+    factorsNote: "الفرق في متوسط المزاج (1–10) عند تسجيل كل عامل، مع فترة ثقة 95٪. تشير * إلى فرق موثوق.",
+    factorsEmpty: "لا توجد تسجيلات كافية مع العوامل للمقارنة.",
+    factor: "العامل",
+    difference: "الفرق",
+    interval: "فترة 95٪",
+    entries: "التسجيلات",
+    exercisesTitle: "التمارين",
+    exercisesEmpty: "لم تُكمل أي تمارين في هذه الفترة.",
+    exercise: "التمرين",
+    sessions: "الجلسات",
+    minutes: "الدقائق",
+    effectiveness: "الفائدة",
+    moodChange: "تغير المزاج",
+    assessmentsTitle: "التقييمات الذاتية",
+    assessmentsEmpty: "لم تُكمل أي استبيانات في هذه الفترة.",
+    date: "التاريخ",
+    questionnaire: "الاستبيان",
+    score: "النتيجة",
+    severity: "الشدة",
+    summariesTitle: "ملخصات المحادثات",
+    summariesEmpty: "لا توجد ملخصات محادثات في هذه الفترة.",
+    description: "أنشئ ملف PDF بتقدمك لمشاركته مع معالجك أو طبيبك. لا تتم مشاركة أي شيء حتى تختار أين ترسله.",
+    range: "الفترة",
+    range30: "آخر 30 يوماً",
+    range90: "آخر 3 أشهر",
+    range180: "آخر 6 أشهر",
+    language: "لغة التقرير",
+    includeSummaries: "تضمين ملخصات المحادثات",
+    includeSummariesNote: "ملخصات محادثاتك مع نفسي. اتركه متوقفاً للحفاظ على خصوصية محادثاتك.",
+    create: "إنشاء ومشاركة PDF",
+    creating: "جاري إنشاء التقرير...",
+    failed: "تعذر إنشاء التقرير. يرجى المحاولة مرة أخرى.",
+  },
+
+  // Clinician sharing links
+  sharing: {
+    title: "المشاركة مع مختص",
+    description: "أنشئ رابطاً خاصاً للقراءة فقط لمعالجك أو طبيبك. أنت تختار ما يمكنه رؤيته ولأي مدة، ويمكنك إلغاؤه في أي وقت.",
+    whatToShare: "ما الذي تريد مشاركته",
+    moods: "تسجيلات المزاج",
+    exercises: "التمارين",
+    assessments: "التقييمات الذاتية",
+    summaries: "ملخصات المحادثات",
+    messages: "رسائل المحادثة",
+    messagesWarning: "محادثاتك الكاملة مع نفسي. لا تضمّنها إلا إذا كنت مرتاحاً لقراءة المختص لها.",
+    duration: "مدة صلاحية الرابط",
+    days1: "يوم واحد",
+    days7: "7 أيام",
+    days30: "30 يوماً",
+    label: "اسم المختص (اختياري)",
+    create: "إنشاء رابط",
+    creating: "جاري إنشاء الرابط...",
+    failed: "تعذر إنشاء الرابط. يرجى المحاولة مرة أخرى.",
+    linkReady: "رابطك جاهز. لن يظهر مرة أخرى، لذا شاركه الآن.",
+    share: "مشاركة الرابط",
+    shareMessage: "هذا رابط للاطلاع فقط على تقدمي في نفسي: {url}",
+    yourLinks: "روابطك",
+    empty: "لم تشارك أي شيء بعد.",
+    unnamed: "رابط مشترك",
+    active: "نشط حتى {date}",
+    expired: "منتهي الصلاحية",
+    revoked: "ملغى",
+    revoke: "إلغاء",
+    revokeConfirm: "إلغاء هذا الرابط؟ سيفقد المختص الوصول فوراً.",
+    opened: "فُتح {count} مرات، آخرها في {date}",
+    neverOpened: "لم يُفتح بعد",
+    viewTitle: "تقدم مشترك",
+    sharedBy: "شاركه {name}",
+    accessEnds: "ينتهي الوصول في {date}",
+    readOnly: "عرض للقراءة فقط لآخر {days} يوماً. لا تتم مشاركة الملاحظات الخاصة أبداً.",
+    unavailable: "هذا الرابط لم يعد متاحاً. اطلب رابطاً جديداً إذا كنت لا تزال بحاجة إلى الوصول.",
+    noData: "لا يوجد شيء مسجل.",
+    mood: "المزاج {rating}/10",
+    sessions: "{minutes} دقيقة",
+    you: "العميل",
+    assistant: "نفسي",
+  },
+
+  // Journal
+  journal: {
+    title: "اليوميات",
+    newEntry: "تدوينة جديدة",
+    promptOfDay: "سؤال اليوم",
+    answerPrompt: "اكتب عن هذا",
+    searchPlaceholder: "ابحث في يومياتك",
+    allTags: "الكل",
+    empty: "يومياتك فارغة. سؤال اليوم بداية جيدة.",
+    noResults: "لا توجد تدوينات تطابق بحثك.",
+    entryTitle: "العنوان (اختياري)",
+    contentPlaceholder: "اكتب بحرية...",
+    tags: "الوسوم",
+    tagsPlaceholder: "عمل، نوم، عائلة",
+    attachMood: "أرفق آخر مزاج سجلته",
+    mood: "المزاج {rating}/10",
+    save: "حفظ",
+    saving: "جارٍ الحفظ...",
+    saveFailed: "تعذر حفظ التدوينة. يرجى المحاولة مرة أخرى.",
+    delete: "حذف التدوينة",
+    deleteConfirm: "هل تريد حذف هذه التدوينة وتأملاتها؟ لا يمكن التراجع عن ذلك.",
+    reflect: "تأمّل مع نفسي",
+    reflecting: "جارٍ التأمل...",
+    reflections: "التأملات",
+    reflectFailed: "تعذر التأمل في هذه التدوينة الآن. يرجى المحاولة مرة أخرى.",
+    reflectEncrypted: "التأملات غير متاحة أثناء تفعيل التشفير التام.",
+    locked: "هذه التدوينة مشفرة. افتح التشفير على هذا الجهاز لقراءتها.",
+    untitled: "تدوينة بلا عنوان",
+    bold: "عريض",
+    italic: "مائل",
+    heading: "عنوان",
+    bullet: "قائمة",
+  },
+
+  // Global search
+  search: {
+    title: "البحث",
+    placeholder: "ابحث في المحادثات والمزاج واليوميات",
+    hint: "ابحث عن أي شيء كتبته في محادثاتك مع نفسي أو في ملاحظات مزاجك أو يومياتك.",
+    noResults: "لا توجد نتائج مطابقة لبحثك.",
+    encryptedNote: "لا يمكن العثور على ملاحظات المزاج واليوميات المشفرة إلا من خلال وسومها.",
+    mood: "المزاج {rating}/10",
+    loadMore: "عرض المزيد",
+    filters: {
+      all: "الكل",
+      messages: "المحادثات",
+      moods: "ملاحظات المزاج",
+      journal: "اليوميات",
+    },
+  },
+
+  // End-to-end encryption
+  encryption: {
+    title: "التشفير من طرف إلى طرف",
+    description: "شفّر كتاباتك الخاصة على هذا الجهاز قبل حفظها، بحيث لا يستطيع قراءتها أحد غيرك. يُحفظ المفتاح في التخزين الآمن لهذا الجهاز مع نسخة احتياطية مقفلة بعبارة مرور لا يعرفها سواك.",
+    privateTitle: "لا يقرؤها أحد غيرك",
+    privateFields: "ملاحظات المزاج، ومدخلات اليوميات، وما تكتبه في التمارين: الأفكار والأدلة وإعادة الصياغة وقوائم الامتنان والتأملات وملاحظات الإكمال.",
+    readableTitle: "يبقى مقروءاً لنفسي",
+    readableFields: "رسائل المحادثة التي يحتاجها الذكاء الاصطناعي للرد عليك، وتقييمات المزاج وتسجيلات الحالة وعوامله ونتائج التمارين المستخدمة في الرؤى وسلاسل الاستمرارية.",
+    existingTitle: "ما كتبته قبل التشفير",
+    existingFields: "لا يُشفَّر إلا ما تكتبه بعد تفعيل التشفير. تبقى الملاحظات ومدخلات اليوميات وإجابات التمارين التي حفظتها من قبل مقروءة لنفسي. احذف ما لا ترغب في بقائه كذلك.",
+    passphrase: "عبارة المرور",
+    confirmPassphrase: "تأكيد عبارة المرور",
+    passphraseWarning: "اختر عبارة مرور تتذكرها. ستحتاجها لقراءة ملاحظاتك على جهاز جديد، ولا يمكننا إعادة تعيينها لك.",
+    tooShort: "استخدم {count} أحرف على الأقل.",
+    mismatch: "عبارتا المرور غير متطابقتين.",
+    enable: "تفعيل التشفير",
+    enabled: "التشفير مفعّل على هذا الجهاز.",
+    enabledOn: "التشفير مفعّل منذ {date}",
+    recoverDescription: "التشفير مفعّل لحسابك. أدخل عبارة المرور لقراءة الملاحظات الخاصة وإضافتها على هذا الجهاز.",
+    recover: "فتح القفل على هذا الجهاز",
+    wrongPassphrase: "عبارة المرور غير صحيحة. يرجى المحاولة مرة أخرى.",
+    failed: "تعذر تفعيل التشفير. يرجى المحاولة مرة أخرى.",
+  },
+  
+  // Mood factors
+  moodFactors: {
+    title: "عوامل المزاج",
+    description: "اختر العوامل التي يمكنك ربطها بمزاجك. العوامل المخفية تبقى على الحالات المزاجية التي سجلتها سابقاً.",
+    hiddenTitle: "مخفية",
+    hide: "إخفاء",
+    restore: "استعادة",
+    edit: "تعديل",
+    builtIn: "افتراضي",
+    addTitle: "أضف عاملاً",
+    editTitle: "تعديل العامل",
+    labelEn: "الاسم (بالإنجليزية)",
+    labelAr: "الاسم (بالعربية، اختياري)",
+    emoji: "الرمز التعبيري",
+    category: "الفئة",
+    add: "إضافة العامل",
+    save: "حفظ التغييرات",
+    failed: "لم نتمكن من حفظ هذا العامل. يرجى المحاولة مرة أخرى.",
+    categories: {
+      body: "الجسد",
+      mind: "العقل",
+      social: "اجتماعي",
+      work: "العمل",
+      lifestyle: "نمط الحياة",
+      environment: "البيئة",
+      other: "أخرى",
+    },
+  },
+  
   // Settings
   settings: {
     language: "اللغة",
@@ -364,6 +632,10 @@ export const ar = {
     lastWeek: "الأسبوع الماضي",
     thisMonth: "هذا الشهر",
     lastMonth: "الشهر الماضي",
+    morning: "الصباح (٩:٠٠)",
+    afternoon: "بعد الظهر (١٤:٠٠)",
+    evening: "المساء (٢٠:٠٠)",
+    night: "الليل (٢٢:٠٠)",
   },
   
   // Accessibility
@@ -137,6 +137,35 @@ export const en = {
       title: "Unable to make call",
       message: "Please dial the number manually or try again later.",
     },
+    getHelp: "Get help now",
+    hotlines: {
+      title: "Talk to someone now",
+      empty: "No hotlines are listed for your region yet. If you are in danger, call your local emergency number.",
+      call: "Call",
+      forCountry: "Hotlines for {country}",
+      international: "International helplines",
+      changeRegion: "Change region",
+    },
+    escalation: {
+      notified: "We let {name} know you may need support.",
+      failed: "We couldn't reach your emergency contact. Please call them or a hotline directly.",
+    },
+    contacts: {
+      title: "Emergency Contacts",
+      manage: "Manage emergency contacts",
+      empty: "You haven't added an emergency contact yet.",
+      add: "Add contact",
+      name: "Name",
+      phone: "Phone number",
+      email: "Email (optional)",
+      relationship: "Relationship",
+      primary: "Primary contact",
+      consentTitle: "Notify during a crisis",
+      consentDescription: "If Nafsy detects you may be in immediate danger, it can send this person a short message asking them to check on you. Your conversations are never shared.",
+      sms: "Text message",
+      emailChannel: "Email",
+      remove: "Remove",
+    },
   },
   
   // Common actions (for global access)
@@ -159,6 +188,7 @@ export const en = {
     error: "Message Error",
     sendError: "Failed to send message. Please try again.",
     floatingModeHint: "Double-tap to return to floating mode",
+    stopGenerating: "Stop generating",
     you: "You",
     assistant: "Nafsy",
     search: {
@@ -166,6 +196,20 @@ export const en = {
       placeholder: "Search in conversation...",
       results: "results found",
       noResults: "No messages found",
+      thisConversation: "This conversation",
+      allConversations: "All conversations",
+      everyone: "Everyone",
+      anyTime: "Any time",
+      pastWeek: "Past week",
+      pastMonth: "Past month",
+      loadMore: "Load more",
+      untitled: "Untitled conversation",
+    },
+    actions: {
+      startExercise: "Start {exercise}",
+      openThoughtRecord: "Examine this thought",
+      logMood: "Log how you feel",
+      completed: "Done",
     },
     newChat: {
       title: "Start New Chat?",
@@ -230,6 +274,25 @@ export const en = {
     moodHistory: "Mood History",
     insights: "Insights",
   },
+
+  // Offline outbox
+  outbox: {
+    failed: "{count} entries couldn't be saved.",
+    retry: "Retry",
+    discard: "Discard",
+  },
+  
+  // Streaks
+  streak: {
+    mood: "Mood streak",
+    exercise: "Exercise streak",
+    "check-in": "Check-in streak",
+    days: "days",
+    best: "Best:",
+    total: "Total entries:",
+    freezes: "Streak freezes:",
+    past: "Past streaks",
+  },
   
   // Exercises
   exercises: {
@@ -240,6 +303,17 @@ export const en = {
     meditation: "Meditation",
     relaxation: "Relaxation",
     mindfulness: "Mindfulness",
+    // Names of exercise types (convex/exerciseDefinitions.ts)
+    types: {
+      breathing: "Breathing",
+      grounding: "Grounding",
+      thoughtChallenge: "Thought challenge",
+      gratitude: "Gratitude",
+      mindfulness: "Mindfulness",
+    },
+    // Ranked recommendations (convex/recommendations.ts)
+    recommended: "Recommended for you",
+    alsoTry: "Also try",
     // Grounding exercise (5-4-3-2-1 technique)
     grounding: {
       title: "Grounding Exercise",
@@ -249,53 +323,6 @@ export const en = {
       step4: "Name 2 things you can smell",
       step5: "Name 1 thing you can taste",
     },
-    // Exercise data
-    data: {
-      // Breathing exercises
-      boxBreathing: {
-        title: "Box Breathing",
-        description: "Calm your mind with rhythmic breathing",
-      },
-      breathing478: {
-        title: "4-7-8 Breathing",
-        description: "Quick relaxation technique",
-      },
-      // Grounding exercises
-      grounding54321: {
-        title: "5-4-3-2-1 Grounding",
-        description: "Connect with your senses",
-        steps: [
-          "Name 5 things you can see around you",
-          "Name 4 things you can touch or feel",
-          "Name 3 things you can hear",
-          "Name 2 things you can smell",
-          "Name 1 thing you can taste",
-        ],
-      },
-      // Thought challenge exercises
-      thoughtChallenge: {
-        title: "Thought Challenge",
-        description: "Examine and reframe negative thoughts",
-        steps: [
-          "Identify the negative thought",
-          "Rate your emotions (0-10)",
-          "List evidence supporting the thought",
-          "List evidence against the thought",
-          "Create a balanced thought",
-          "Re-rate your emotions",
-        ],
-      },
-      // Gratitude exercises
-      gratitudeJournal: {
-        title: "Gratitude Journal",
-        description: "Focus on positive moments",
-        steps: [
-          "Think of 3 things you are grateful for today",
-          "Write why you are grateful for each",
-          "Notice how you feel after reflecting",
-        ],
-      },
-    },
   },
   
   // Profile
@@ -313,6 +340,247 @@ export const en = {
     support: "Support",
   },
   
+  // Data export
+  dataExport: {
+    section: "Your Data",
+    title: "Export My Data",
+    description: "Download a copy of everything Nafsy stores about you: your profile, conversations, moods, exercises, streaks, insights and emergency contacts. You'll get a JSON archive plus spreadsheets (CSV) of your moods and exercises.",
+    request: "Prepare export",
+    preparing: "Preparing your export…",
+    readyOn: "Export ready · {date}",
+    failed: "We couldn't prepare your export. Please try again.",
+    downloadError: "Unable to open the download. Please try again.",
+  },
+
+  // Account deletion
+  accountDeletion: {
+    title: "Delete Account",
+    confirmTitle: "Delete your account?",
+    confirmMessage: "This permanently deletes your profile, conversations, moods, exercises, insights and emergency contacts, and signs you out. It can't be undone. Export your data first if you want to keep a copy.",
+    confirm: "Delete permanently",
+    deleting: "Deleting your account…",
+    failed: "We couldn't delete your account. Please try again.",
+  },
+
+  // Daily check-in reminders
+  reminders: {
+    title: "Reminders",
+    description: "Get a gentle nudge each day to check in. If you've already logged a mood, done an exercise or chatted that day, we'll skip it.",
+    enable: "Daily check-in reminder",
+    time: "Remind me at",
+    permissionDenied: "Notifications are turned off for Nafsy. Turn them on in your device settings to get reminders.",
+    failed: "Couldn't save your reminder settings. Please try again.",
+    notificationTitle: "Time to check in",
+    notificationBody: "How are you feeling today? Take a moment to log your mood.",
+    checkInNow: "Check in now",
+    snooze15: "Remind me in 15 min",
+    snooze60: "Remind me in 1 hour",
+  },
+
+  // PHQ-9 / GAD-7 self-assessments
+  assessments: {
+    submit: "See my result",
+    answerAll: "Please answer every question.",
+    failed: "Couldn't save your answers. Please try again.",
+    resultTitle: "Your result",
+    score: "Score: {score} of {max}",
+    disclaimer: "This questionnaire helps you track how you've been feeling. It isn't a diagnosis; if your result worries you, talk to a doctor or therapist.",
+    done: "Done",
+  },
+
+  // Therapist-shareable progress report (PDF)
+  progressReport: {
+    title: "Progress report",
+    preparedFor: "Progress report for {name}",
+    period: "{from} – {to}",
+    generated: "Generated {date} with Nafsy",
+    disclaimer: "Self-reported data. This is not a clinical record or a diagnosis.",
+    moodTitle: "Mood",
+    moodAverage: "Average mood {value} / 10 across {count} check-ins",
+    moodEmpty: "No mood check-ins in this period.",
+    factorsTitle: "What relates to mood",
+    factorsNote: "Difference in average mood (1–10) when each factor was tagged, with a 95% confidence interval. * marks a reliable difference.",
+    factorsEmpty: "Not enough tagged check-ins to compare factors.",
+    factor: "Factor",
+    difference: "Difference",
+    interval: "95% interval",
+    entries: "Check-ins",
+    exercisesTitle: "Exercises",
+    exercisesEmpty: "No exercises completed in this period.",
+    exercise: "Exercise",
+    sessions: "Sessions",
+    minutes: "Minutes",
+    effectiveness: "Helpfulness",
+    moodChange: "Mood change",
+    assessmentsTitle: "Self-assessments",
+    assessmentsEmpty: "No questionnaires completed in this period.",
+    date: "Date",
+    questionnaire: "Questionnaire",
+    score: "Score",
+    severity: "Severity",
+    summariesTitle: "Conversation summaries",
+    summariesEmpty: "No conversation summaries in this period.",
+    description: "Create a PDF of your progress to share with your therapist or doctor. Nothing is shared until you choose where to send it.",
+    range: "Period",
+    range30: "Last 30 days",
+    range90: "Last 3 months",
+    range180: "Last 6 months",
+    language: "Report language",
+    includeSummaries: "Include conversation summaries",
+    includeSummariesNote: "Summaries of your chats with Nafsy. Leave this off to keep your conversations private.",
+    create: "Create and share PDF",
+    creating: "Creating report...",
+    failed: "Couldn't create the report. Please try again.",
+  },
+
+  // Clinician sharing links
+  sharing: {
+    title: "Share with a clinician",
+    description: "Create a private, read-only link for your therapist or doctor. You choose what they can see and for how long, and you can revoke it at any time.",
+    whatToShare: "What to share",
+    moods: "Mood check-ins",
+    exercises: "Exercises",
+    assessments: "Self-assessments",
+    summaries: "Conversation summaries",
+    messages: "Chat messages",
+    messagesWarning: "Your full conversations with Nafsy. Only include them if you're comfortable with your clinician reading them.",
+    duration: "Link works for",
+    days1: "1 day",
+    days7: "7 days",
+    days30: "30 days",
+    label: "Clinician's name (optional)",
+    create: "Create link",
+    creating: "Creating link...",
+    failed: "Couldn't create the link. Please try again.",
+    linkReady: "Your link is ready. It won't be shown again, so share it now.",
+    share: "Share link",
+    shareMessage: "Here is a read-only link to my progress in Nafsy: {url}",
+    yourLinks: "Your links",
+    empty: "You haven't shared anything yet.",
+    unnamed: "Shared link",
+    active: "Active until {date}",
+    expired: "Expired",
+    revoked: "Revoked",
+    revoke: "Revoke",
+    revokeConfirm: "Revoke this link? Your clinician will lose access straight away.",
+    opened: "Opened {count} times, last on {date}",
+    neverOpened: "Not opened yet",
+    viewTitle: "Shared progress",
+    sharedBy: "Shared by {name}",
+    accessEnds: "Access ends {date}",
+    readOnly: "Read-only view of the last {days} days. Private notes are never shared.",
+    unavailable: "This link is no longer available. Ask for a new one if you still need access.",
+    noData: "Nothing recorded.",
+    mood: "Mood {rating}/10",
+    sessions: "{minutes} min",
+    you: "Client",
+    assistant: "Nafsy",
+  },
+
+  // Journal
+  journal: {
+    title: "Journal",
+    newEntry: "New entry",
+    promptOfDay: "Today's prompt",
+    answerPrompt: "Write about this",
+    searchPlaceholder: "Search your journal",
+    allTags: "All",
+    empty: "Your journal is empty. Today's prompt is a good place to start.",
+    noResults: "No entries match your search.",
+    entryTitle: "Title (optional)",
+    contentPlaceholder: "Write freely...",
+    tags: "Tags",
+    tagsPlaceholder: "work, sleep, family",
+    attachMood: "Attach my latest mood",
+    mood: "Mood {rating}/10",
+    save: "Save",
+    saving: "Saving...",
+    saveFailed: "Couldn't save this entry. Please try again.",
+    delete: "Delete entry",
+    deleteConfirm: "Delete this entry and its reflections? This can't be undone.",
+    reflect: "Reflect with Nafsy",
+    reflecting: "Reflecting...",
+    reflections: "Reflections",
+    reflectFailed: "Couldn't reflect on this entry right now. Please try again.",
+    reflectEncrypted: "Reflections aren't available while end-to-end encryption is on.",
+    locked: "This entry is encrypted. Unlock encryption on this device to read it.",
+    untitled: "Untitled entry",
+    bold: "Bold",
+    italic: "Italic",
+    heading: "Heading",
+    bullet: "List",
+  },
+
+  // Global search
+  search: {
+    title: "Search",
+    placeholder: "Search chats, moods and journal",
+    hint: "Find anything you've written to Nafsy, in your mood notes or in your journal.",
+    noResults: "Nothing matches your search.",
+    encryptedNote: "Encrypted mood notes and journal entries can only be found by their tags.",
+    mood: "Mood {rating}/10",
+    loadMore: "Load more",
+    filters: {
+      all: "All",
+      messages: "Chats",
+      moods: "Mood notes",
+      journal: "Journal",
+    },
+  },
+
+  // End-to-end encryption
+  encryption: {
+    title: "End-to-End Encryption",
+    description: "Encrypt your private writing on this device before it's saved, so only you can read it. A key is kept in this device's secure storage and backed up, locked with a passphrase only you know.",
+    privateTitle: "Only you can read",
+    privateFields: "Mood notes, journal entries, and what you write in exercises: thoughts, evidence, reframes, gratitude lists, reflections and completion notes.",
+    readableTitle: "Still readable by Nafsy",
+    readableFields: "Chat messages, which the AI needs to reply to you, and mood ratings, check-ins, factors and exercise results used for insights and streaks.",
+    existingTitle: "Written before encryption",
+    existingFields: "Only what you write after turning encryption on is encrypted. Notes, journal entries and exercise answers you saved before stay readable by Nafsy. Delete any you don't want kept that way.",
+    passphrase: "Passphrase",
+    confirmPassphrase: "Confirm passphrase",
+    passphraseWarning: "Choose a passphrase you'll remember. You'll need it to read your notes on a new device, and we can't reset it for you.",
+    tooShort: "Use at least {count} characters.",
+    mismatch: "Passphrases don't match.",
+    enable: "Turn on encryption",
+    enabled: "Encryption is on for this device.",
+    enabledOn: "Encryption on since {date}",
+    recoverDescription: "Encryption is on for your account. Enter your passphrase to read and add private notes on this device.",
+    recover: "Unlock on this device",
+    wrongPassphrase: "That passphrase didn't work. Please try again.",
+    failed: "We couldn't turn on encryption. Please try again.",
+  },
+  
+  // Mood factors
+  moodFactors: {
+    title: "Mood Factors",
+    description: "Choose what you can tag a mood with. Hidden factors stay on the moods you've already logged.",
+    hiddenTitle: "Hidden",
+    hide: "Hide",
+    restore: "Restore",
+    edit: "Edit",
+    builtIn: "Built-in",
+    addTitle: "Add a factor",
+    editTitle: "Edit factor",
+    labelEn: "Name (English)",
+    labelAr: "Name (Arabic, optional)",
+    emoji: "Emoji",
+    category: "Category",
+    add: "Add factor",
+    save: "Save changes",
+    failed: "We couldn't save this factor. Please try again.",
+    categories: {
+      body: "Body",
+      mind: "Mind",
+      social: "Social",
+      work: "Work",
+      lifestyle: "Lifestyle",
+      environment: "Environment",
+      other: "Other",
+    },
+  },
+  
   // Settings
   settings: {
     language: "Language",
@@ -364,6 +632,10 @@ export const en = {
     lastWeek: "Last week",
     thisMonth: "This month",
     lastMonth: "Last month",
+    morning: "Morning (9:00)",
+    afternoon: "Afternoon (14:00)",
+    evening: "Evening (20:00)",
+    night: "Night (22:00)",
   },
   
   // Accessibility
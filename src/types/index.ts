@@ -237,6 +237,65 @@ export interface ExerciseSession {
   data?: Record<string, any>;
 }
 
+// One ranked entry from recommendations.getExerciseRecommendations
+export interface ExerciseRecommendation {
+  exerciseId: string;
+  title: { en: string; ar: string };
+  type: string;
+  difficulty: 'beginner' | 'intermediate' | 'advanced';
+  score: number;
+  reason: string;
+  components: {
+    effectiveness: number;
+    exploration: number;
+    recency: number;
+    timeOfDay: number;
+    factors: number;
+    mood: number;
+    difficulty: number;
+  };
+  completions: number;
+  lastCompletedAt: number | null;
+}
+
+// Authored exercises from exerciseDefinitions.listExerciseDefinitions
+// (step schema in convex/exerciseDefinitions.ts)
+export interface ExerciseCue {
+  haptic?: 'light' | 'medium' | 'heavy' | 'success' | 'breatheIn' | 'breatheOut' | 'meditation';
+}
+
+export interface TimedPhase {
+  label: { en: string; ar: string };
+  seconds: number;
+  scale: number;
+  cue?: ExerciseCue;
+}
+
+interface ExerciseStepBase {
+  id: string;
+  cue?: ExerciseCue;
+}
+
+export type ExerciseStep =
+  | (ExerciseStepBase & { kind: 'timed'; title?: { en: string; ar: string }; phases: TimedPhase[]; cycles: number })
+  | (ExerciseStepBase & { kind: 'prompt'; text: { en: string; ar: string } })
+  | (ExerciseStepBase & { kind: 'textInput'; prompt: { en: string; ar: string }; field?: string; multiline?: boolean })
+  | (ExerciseStepBase & { kind: 'list'; prompt: { en: string; ar: string }; field?: string; count: number; icon?: string });
+
+export interface ExerciseDefinition {
+  exerciseId: string;
+  version?: number;
+  schemaVersion: number;
+  type: 'breathing' | 'grounding' | 'thoughtChallenge' | 'gratitude' | 'mindfulness';
+  difficulty: 'beginner' | 'intermediate' | 'advanced';
+  durationMinutes: number;
+  icon: string;
+  gradient: [string, string];
+  title: { en: string; ar: string };
+  description: { en: string; ar: string };
+  steps: ExerciseStep[];
+}
+
 // Resource types
 export interface MentalHealthResource {
   id: string;
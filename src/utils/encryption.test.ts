@@ -0,0 +1,99 @@
+/**
+ * Unit Tests for client-side end-to-end encryption
+ * Tests field encryption round trips, tamper detection, passphrase key backup and exercise field mapping
+ */
+
+import { randomBytes } from 'crypto';
+import {
+  createKeyBackup,
+  decryptText,
+  encryptText,
+  ENCRYPTED_PREFIX,
+  generateDataKey,
+  isEncrypted,
+  mapExerciseText,
+  recoverDataKey,
+} from './encryption';
+
+jest.mock('expo-crypto', () => ({
+  getRandomBytes: (length: number) => new Uint8Array(require('crypto').randomBytes(length)),
+}));
+
+const random = (length: number) => new Uint8Array(randomBytes(length));
+
+// Cheap scrypt settings so the tests stay fast
+const FAST_KDF = { N: 2 ** 4, r: 8, p: 1 };
+
+describe('Encryption Utilities', () => {
+  const key = generateDataKey(random);
+
+  describe('encryptText / decryptText', () => {
+    it('should round-trip Arabic and English text', () => {
+      for (const text of ['Feeling calmer today', 'أشعر بالهدوء اليوم']) {
+        const sealed = encryptText(key, text, random);
+
+        expect(sealed.startsWith(ENCRYPTED_PREFIX)).toBe(true);
+        expect(sealed).not.toContain(text);
+        expect(decryptText(key, sealed)).toBe(text);
+      }
+    });
+
+    it('should use a fresh nonce for every value', () => {
+      expect(encryptText(key, 'same note', random)).not.toBe(encryptText(key, 'same note', random));
+    });
+
+    it('should reject the wrong key and tampered values', () => {
+      const sealed = encryptText(key, 'private', random);
+      const tampered = sealed.slice(0, -2) + (sealed.endsWith('00') ? '11' : '00');
+
+      expect(() => decryptText(generateDataKey(random), sealed)).toThrow();
+      expect(() => decryptText(key, tampered)).toThrow();
+    });
+
+    it('should tell encrypted values from plaintext', () => {
+      expect(isEncrypted(encryptText(key, 'x', random))).toBe(true);
+      expect(isEncrypted('plain note')).toBe(false);
+      expect(isEncrypted(undefined)).toBe(false);
+    });
+  });
+
+  describe('Key backup', () => {
+    it('should recover the data key with the right passphrase', async () => {
+      const backup = await createKeyBackup(key, 'correct horse battery', random, FAST_KDF);
+
+      expect(backup.kdf).toBe('scrypt');
+      expect(backup.N).toBe(FAST_KDF.N);
+      expect(await recoverDataKey(backup, 'correct horse battery')).toEqual(key);
+    });
+
+    it('should refuse a wrong passphrase', async () => {
+      const backup = await createKeyBackup(key, 'correct horse battery', random, FAST_KDF);
+
+      await expect(recoverDataKey(backup, 'wrong horse battery')).rejects.toThrow('Incorrect passphrase');
+    });
+
+    it('should require a minimum passphrase length', async () => {
+      await expect(createKeyBackup(key, 'short', random, FAST_KDF)).rejects.toThrow('Passphrase too short');
+    });
+  });
+
+  describe('mapExerciseText', () => {
+    it('should transform private free text and leave the rest alone', () => {
+      const data = {
+        inputs: { thoughtText: 'I always fail', evidenceFor: ['one time'], emotions: ['sad'] },
+        outputs: { effectiveness: 4, moodBefore: 3, completionNotes: 'Helped' },
+      };
+
+      const mapped = mapExerciseText(data, value => value.toUpperCase());
+
+      expect(mapped.inputs).toEqual({ thoughtText: 'I ALWAYS FAIL', evidenceFor: ['ONE TIME'], emotions: ['sad'] });
+      expect(mapped.outputs).toEqual({ effectiveness: 4, moodBefore: 3, completionNotes: 'HELPED' });
+    });
+
+    it('should transform every grounding sense', () => {
+      const mapped = mapExerciseText({ inputs: { senses: { see: ['tree'], hear: ['birds'] } } }, value => `#${value}`);
+
+      expect(mapped.inputs?.senses).toEqual({ see: ['#tree'], hear: ['#birds'] });
+    });
+  });
+});
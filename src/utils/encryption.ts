@@ -0,0 +1,165 @@
+/**
+ * Client-side end-to-end encryption for journal-type content
+ * XChaCha20-Poly1305 with a per-user data key; the key is backed up wrapped with an scrypt passphrase key.
+ * Which fields are encrypted is documented in convex/encryption.ts.
+ */
+
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { bytesToHex, bytesToUtf8, hexToBytes, utf8ToBytes } from '@noble/ciphers/utils';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import * as Crypto from 'expo-crypto';
+
+// Format of every encrypted value: prefix + hex(nonce || ciphertext)
+export const ENCRYPTED_PREFIX = 'e2e:v1:';
+
+export const KEY_LENGTH = 32;
+const NONCE_LENGTH = 24;
+const SALT_LENGTH = 16;
+
+// scrypt cost for the passphrase key; stored with the backup so it can be raised later
+export const DEFAULT_KDF_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export interface KeyBackup {
+  kdf: 'scrypt';
+  N: number;
+  r: number;
+  p: number;
+  salt: string;
+  wrappedKey: string;
+}
+
+type RandomBytes = (length: number) => Uint8Array;
+
+const defaultRandomBytes: RandomBytes = (length) => Crypto.getRandomBytes(length);
+
+export const isEncrypted = (value: string | undefined | null): boolean =>
+  !!value && value.startsWith(ENCRYPTED_PREFIX);
+
+export const generateDataKey = (randomBytes: RandomBytes = defaultRandomBytes): Uint8Array =>
+  randomBytes(KEY_LENGTH);
+
+export const encodeKey = (key: Uint8Array): string => bytesToHex(key);
+
+export const decodeKey = (encoded: string): Uint8Array => {
+  const key = hexToBytes(encoded);
+  if (key.length !== KEY_LENGTH) {
+    throw new Error('Invalid encryption key');
+  }
+  return key;
+};
+
+const sealBytes = (key: Uint8Array, plaintext: Uint8Array, randomBytes: RandomBytes): string => {
+  const nonce = randomBytes(NONCE_LENGTH);
+  const ciphertext = xchacha20poly1305(key, nonce).encrypt(plaintext);
+  const sealed = new Uint8Array(nonce.length + ciphertext.length);
+  sealed.set(nonce);
+  sealed.set(ciphertext, nonce.length);
+  return ENCRYPTED_PREFIX + bytesToHex(sealed);
+};
+
+const openBytes = (key: Uint8Array, value: string): Uint8Array => {
+  if (!isEncrypted(value)) {
+    throw new Error('Value is not encrypted');
+  }
+  const sealed = hexToBytes(value.slice(ENCRYPTED_PREFIX.length));
+  const nonce = sealed.subarray(0, NONCE_LENGTH);
+  // Throws if the key is wrong or the value was tampered with
+  return xchacha20poly1305(key, nonce).decrypt(sealed.subarray(NONCE_LENGTH));
+};
+
+export const encryptText = (
+  key: Uint8Array,
+  plaintext: string,
+  randomBytes: RandomBytes = defaultRandomBytes
+): string => sealBytes(key, utf8ToBytes(plaintext), randomBytes);
+
+export const decryptText = (key: Uint8Array, value: string): string =>
+  bytesToUtf8(openBytes(key, value));
+
+// Derive the key that wraps the data key from the user's passphrase
+const derivePassphraseKey = async (passphrase: string, backup: Pick<KeyBackup, 'N' | 'r' | 'p' | 'salt'>) =>
+  await scryptAsync(passphrase.normalize('NFKC'), hexToBytes(backup.salt), {
+    N: backup.N,
+    r: backup.r,
+    p: backup.p,
+    dkLen: KEY_LENGTH,
+  });
+
+export const createKeyBackup = async (
+  dataKey: Uint8Array,
+  passphrase: string,
+  randomBytes: RandomBytes = defaultRandomBytes,
+  params = DEFAULT_KDF_PARAMS
+): Promise<KeyBackup> => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error('Passphrase too short');
+  }
+  const salt = bytesToHex(randomBytes(SALT_LENGTH));
+  const wrappingKey = await derivePassphraseKey(passphrase, { ...params, salt });
+  return {
+    kdf: 'scrypt',
+    ...params,
+    salt,
+    wrappedKey: sealBytes(wrappingKey, dataKey, randomBytes),
+  };
+};
+
+// Recover the data key on a new device; throws on a wrong passphrase
+export const recoverDataKey = async (backup: KeyBackup, passphrase: string): Promise<Uint8Array> => {
+  const wrappingKey = await derivePassphraseKey(passphrase, backup);
+  try {
+    return openBytes(wrappingKey, backup.wrappedKey);
+  } catch {
+    throw new Error('Incorrect passphrase');
+  }
+};
+
+interface ExerciseRecordData {
+  inputs?: Record<string, any>;
+  outputs?: Record<string, any>;
+  [key: string]: any;
+}
+
+const PRIVATE_INPUT_FIELDS = [
+  'thoughtText',
+  'reframedThought',
+  'evidenceFor',
+  'evidenceAgainst',
+  'gratitudeItems',
+  'reflectionNotes',
+];
+
+const PRIVATE_OUTPUT_FIELDS = ['completionNotes', 'insights'];
+
+const mapPrivateFields = (
+  record: Record<string, any> | undefined,
+  fields: string[],
+  transform: (value: string) => string
+) => {
+  if (!record) return record;
+  const result = { ...record };
+  for (const field of fields) {
+    const value = result[field];
+    if (typeof value === 'string') {
+      result[field] = transform(value);
+    } else if (Array.isArray(value)) {
+      result[field] = value.map(item => (typeof item === 'string' ? transform(item) : item));
+    }
+  }
+  return result;
+};
+
+// Apply a transform to the private free text of an exercise record
+export const mapExerciseText = <T extends ExerciseRecordData>(data: T, transform: (value: string) => string): T => {
+  const inputs = mapPrivateFields(data.inputs, PRIVATE_INPUT_FIELDS, transform);
+  if (inputs?.senses) {
+    inputs.senses = mapPrivateFields(inputs.senses, Object.keys(inputs.senses), transform);
+  }
+  return {
+    ...data,
+    inputs,
+    outputs: mapPrivateFields(data.outputs, PRIVATE_OUTPUT_FIELDS, transform),
+  };
+};
@@ -0,0 +1,65 @@
+/**
+ * Unit Tests for exercise helpers
+ * Tests card data for authored exercises, pre-filled answers and mapping
+ * answers onto exercise inputs
+ */
+
+import { ExerciseDefinition } from '@/types';
+import {
+  collectExerciseInputs,
+  initialExerciseAnswers,
+  toExerciseCard,
+} from './exerciseHelpers';
+
+const groundingLike: ExerciseDefinition = {
+  exerciseId: 'senses-walk',
+  schemaVersion: 1,
+  type: 'grounding',
+  difficulty: 'beginner',
+  durationMinutes: 6,
+  icon: 'hand.raised',
+  gradient: ['#FFAB78', '#F5A623'],
+  title: { en: 'Senses Walk', ar: 'نزهة الحواس' },
+  description: { en: 'Notice what is around you', ar: 'لاحظ ما حولك' },
+  steps: [
+    { id: 'intro', kind: 'prompt', text: { en: 'Walk slowly', ar: 'امشِ ببطء' } },
+    { id: 'see', kind: 'list', prompt: { en: 'What do you see?', ar: 'ماذا ترى؟' }, field: 'senses.see', count: 3 },
+    { id: 'hear', kind: 'list', prompt: { en: 'What do you hear?', ar: 'ماذا تسمع؟' }, field: 'senses.hear', count: 2 },
+    { id: 'scratch', kind: 'textInput', prompt: { en: 'Anything else?', ar: 'شيء آخر؟' } },
+  ],
+};
+
+describe('exerciseHelpers', () => {
+  it('builds card data for an authored exercise', () => {
+    expect(toExerciseCard(groundingLike)).toEqual({
+      id: 'senses-walk',
+      title: groundingLike.title,
+      description: groundingLike.description,
+      duration: '6 min',
+      type: 'grounding',
+      difficulty: 'beginner',
+      icon: 'hand.raised',
+      gradient: ['#FFAB78', '#F5A623'],
+    });
+  });
+
+  it('pre-fills answers by input field', () => {
+    const thoughtRecord: ExerciseDefinition = {
+      ...groundingLike,
+      steps: [{ id: 'thought', kind: 'textInput', prompt: groundingLike.title, field: 'thoughtText' }],
+    };
+
+    expect(initialExerciseAnswers(thoughtRecord, { thoughtText: 'I always fail' })).toEqual({ thought: 'I always fail' });
+    expect(initialExerciseAnswers(groundingLike, { thoughtText: 'I always fail' })).toEqual({});
+  });
+
+  it('saves answers through their fields and drops empty and unsaved ones', () => {
+    const inputs = collectExerciseInputs(groundingLike, {
+      see: [' tree ', '', 'sky'],
+      hear: ['', ''],
+      scratch: 'not saved',
+    });
+
+    expect(inputs).toEqual({ senses: { see: ['tree', 'sky'] } });
+  });
+});
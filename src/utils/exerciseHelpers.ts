@@ -3,12 +3,14 @@
  * Shared utilities for exercise components following LEVER framework
  */
 
+import { ExerciseDefinition } from '@/types';
+
 export type ExerciseDifficulty = 'beginner' | 'intermediate' | 'advanced';
 
 export interface ExerciseData {
   id: string;
-  titleKey: string;
-  descriptionKey: string;
+  title: { en: string; ar: string };
+  description: { en: string; ar: string };
   duration: string;
   type: 'breathing' | 'grounding' | 'thoughtChallenge' | 'gratitude' | 'mindfulness';
   difficulty: ExerciseDifficulty;
@@ -79,4 +81,60 @@ export interface BaseExerciseCardProps {
   completedCount?: number;
   lastCompleted?: number;
   effectiveness?: number;
-}
\ No newline at end of file
+}
+
+/**
+ * Card data for an authored exercise definition
+ */
+export const toExerciseCard = (definition: ExerciseDefinition): ExerciseData => ({
+  id: definition.exerciseId,
+  title: definition.title,
+  description: definition.description,
+  duration: `${definition.durationMinutes} min`,
+  type: definition.type,
+  difficulty: definition.difficulty,
+  icon: definition.icon,
+  gradient: definition.gradient,
+});
+
+export type ExerciseAnswers = Record<string, string | string[]>;
+
+/**
+ * Starting answers, keyed by step id, from values keyed by input field
+ * (e.g. the thought a chat action card passes to a thought record)
+ */
+export const initialExerciseAnswers = (
+  definition: ExerciseDefinition,
+  prefill: Record<string, string | undefined> | undefined,
+): ExerciseAnswers => {
+  const answers: ExerciseAnswers = {};
+  for (const step of definition.steps) {
+    const value = 'field' in step && step.field ? prefill?.[step.field] : undefined;
+    if (value) answers[step.id] = step.kind === 'list' ? [value] : value;
+  }
+  return answers;
+};
+
+/**
+ * exercises.data.inputs from the answers, through each step's field
+ * ("senses.see" nests under senses). Empty answers are left out.
+ */
+export const collectExerciseInputs = (definition: ExerciseDefinition, answers: ExerciseAnswers): Record<string, any> => {
+  const inputs: Record<string, any> = {};
+  for (const step of definition.steps) {
+    if (!('field' in step) || !step.field) continue;
+    const answer = answers[step.id];
+    const value = Array.isArray(answer)
+      ? answer.map(item => item.trim()).filter(Boolean)
+      : answer?.trim();
+    if (!value || value.length === 0) continue;
+
+    const [group, key] = step.field.split('.');
+    if (key) {
+      inputs[group] = { ...inputs[group], [key]: value };
+    } else {
+      inputs[group] = value;
+    }
+  }
+  return inputs;
+};
@@ -662,4 +662,19 @@ export const timeout = <T>(promise: Promise<T>, ms: number): Promise<T> => {
       setTimeout(() => reject(new Error('Operation timed out')), ms);
     }),
   ]);
-};
\ No newline at end of file
+};
+
+// Device utilities
+
+/**
+ * Region of the device locale as an ISO country code (e.g. "ar-SA" -> "SA"),
+ * or undefined when the locale has no region
+ */
+export const getDeviceRegion = (): string | undefined => {
+  try {
+    const locale = Intl.DateTimeFormat().resolvedOptions().locale;
+    return locale.split('-').find(part => /^[A-Z]{2}$/.test(part));
+  } catch {
+    return undefined;
+  }
+};
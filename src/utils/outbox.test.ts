@@ -0,0 +1,150 @@
+/**
+ * Unit Tests for the offline outbox
+ * Tests persistence, in-order replay, retries and the failed state, scoping by
+ * user, and single-flight flushing
+ */
+
+// Outlives jest.resetModules, like the device storage does across app restarts
+const mockStore = new Map<string, string>();
+
+jest.mock('@/components/runtime/local-storage', () => {
+  (global as any).localStorage = {
+    getItem: (key: string) => mockStore.get(key) ?? null,
+    setItem: (key: string, value: string) => mockStore.set(key, value),
+    removeItem: (key: string) => mockStore.delete(key),
+    clear: () => mockStore.clear(),
+  };
+  return {};
+});
+
+jest.mock('expo-crypto', () => {
+  let counter = 0;
+  return { randomUUID: () => `uuid-${++counter}` };
+});
+
+type Outbox = typeof import('./outbox');
+
+const userId = 'user1' as any;
+
+describe('Outbox', () => {
+  let outbox: Outbox;
+
+  beforeEach(async () => {
+    jest.resetModules();
+    outbox = await import('./outbox');
+    localStorage.clear();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('should persist queued entries with their client timestamp', async () => {
+    const entry = outbox.enqueueOutboxEntry('mood', { userId, rating: 6 }, 1000);
+
+    expect(entry.createdAt).toBe(1000);
+    expect(JSON.parse(localStorage.getItem('nafsy.outbox.v1')!)).toEqual([entry]);
+
+    // A fresh module (app restart) reads the same entries back
+    jest.resetModules();
+    const restarted: Outbox = await import('./outbox');
+    expect(restarted.getOutboxEntries()).toEqual([entry]);
+  });
+
+  it('should replay entries in order and remove them once sent', async () => {
+    outbox.enqueueOutboxEntry('mood', { userId, rating: 3 });
+    outbox.enqueueOutboxEntry('exercise', { userId, type: 'breathing', data: {} });
+    const sent: string[] = [];
+
+    await outbox.flushOutbox(async entry => {
+      sent.push(entry.kind);
+    }, userId);
+
+    expect(sent).toEqual(['mood', 'exercise']);
+    expect(outbox.getOutboxEntries()).toEqual([]);
+  });
+
+  it('should keep failed entries for a later retry, then mark them failed', async () => {
+    outbox.enqueueOutboxEntry('mood', { userId, rating: 3 });
+    const failing = jest.fn().mockRejectedValue(new Error('Server error'));
+
+    await outbox.flushOutbox(failing, userId);
+    expect(outbox.getOutboxEntries()[0]).toMatchObject({ attempts: 1, lastError: 'Server error' });
+
+    for (let i = 1; i < outbox.MAX_ATTEMPTS; i++) {
+      await outbox.flushOutbox(failing, userId);
+    }
+    expect(outbox.getOutboxEntries()[0]).toMatchObject({ attempts: outbox.MAX_ATTEMPTS, failed: true });
+
+    // Failed entries wait for the user instead of being retried forever
+    await outbox.flushOutbox(failing, userId);
+    expect(failing).toHaveBeenCalledTimes(outbox.MAX_ATTEMPTS);
+  });
+
+  it('should send failed entries again once retried, or drop them when discarded', async () => {
+    outbox.enqueueOutboxEntry('mood', { userId, rating: 3 });
+    const failing = jest.fn().mockRejectedValue(new Error('Server error'));
+    for (let i = 0; i < outbox.MAX_ATTEMPTS; i++) {
+      await outbox.flushOutbox(failing, userId);
+    }
+
+    outbox.retryFailedOutboxEntries(userId);
+    expect(outbox.getOutboxEntries()[0]).toMatchObject({ attempts: 0 });
+    expect(outbox.getOutboxEntries()[0].failed).toBeUndefined();
+    const send = jest.fn().mockResolvedValue(undefined);
+    await outbox.flushOutbox(send, userId);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(outbox.getOutboxEntries()).toEqual([]);
+
+    outbox.enqueueOutboxEntry('mood', { userId, rating: 4 });
+    for (let i = 0; i < outbox.MAX_ATTEMPTS; i++) {
+      await outbox.flushOutbox(failing, userId);
+    }
+    outbox.discardFailedOutboxEntries(userId);
+    expect(outbox.getOutboxEntries()).toEqual([]);
+  });
+
+  it('should only send and clear the given user\'s entries', async () => {
+    const otherUserId = 'user2' as any;
+    outbox.enqueueOutboxEntry('mood', { userId, rating: 3 });
+    outbox.enqueueOutboxEntry('mood', { userId: otherUserId, rating: 8 });
+    const send = jest.fn().mockRejectedValue(new Error('Offline'));
+
+    await outbox.flushOutbox(send, otherUserId);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send.mock.calls[0][0].args.userId).toBe(otherUserId);
+
+    outbox.clearOutbox(userId);
+    expect(outbox.getOutboxEntries().map(entry => entry.args.userId)).toEqual([otherUserId]);
+  });
+
+  it('should not send an entry twice when flushes overlap', async () => {
+    outbox.enqueueOutboxEntry('mood', { userId, rating: 3 });
+    const send = jest.fn().mockResolvedValue(undefined);
+
+    await Promise.all([outbox.flushOutbox(send, userId), outbox.flushOutbox(send, userId)]);
+
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pick up entries queued during a flush', async () => {
+    outbox.enqueueOutboxEntry('mood', { userId, rating: 3 });
+    const sent: number[] = [];
+
+    await outbox.flushOutbox(async entry => {
+      if (entry.kind === 'mood') sent.push(entry.args.rating);
+      if (sent.length === 1) outbox.enqueueOutboxEntry('mood', { userId, rating: 8 });
+    }, userId);
+
+    expect(sent).toEqual([3, 8]);
+    expect(outbox.getOutboxEntries()).toEqual([]);
+  });
+
+  it('should notify subscribers when entries change', () => {
+    const listener = jest.fn();
+    const unsubscribe = outbox.subscribeToOutbox(listener);
+
+    outbox.enqueueOutboxEntry('mood', { userId, rating: 3 });
+    unsubscribe();
+    outbox.enqueueOutboxEntry('mood', { userId, rating: 4 });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Persistent offline outbox for mood and exercise logging
+ * Entries are written to local storage before they are sent, replayed in order once Convex
+ * reconnects, and removed only after the server confirms them. The server deduplicates
+ * replays by clientId (see convex/sync.ts). Entries belong to the user who logged them:
+ * only that user's entries are replayed, and they are cleared when that user signs out.
+ */
+
+// Polyfills localStorage on native with the expo-sqlite kv-store
+import '@/components/runtime/local-storage';
+import * as Crypto from 'expo-crypto';
+import type { Id } from '@/convex/_generated/dataModel';
+
+const STORAGE_KEY = 'nafsy.outbox.v1';
+
+// Entries the server keeps rejecting are marked failed after this many tries
+// and wait for the user to retry or discard them
+export const MAX_ATTEMPTS = 5;
+
+// Arguments of moods.recordMood / exercises.recordExerciseCompletion, minus
+// the replay fields added when an entry is sent
+export interface MoodOutboxArgs {
+  userId: Id<'users'>;
+  rating: number;
+  note?: string;
+  factors?: string[];
+  emoji?: string;
+  emotions?: string[];
+  energy?: number;
+  anxiety?: number;
+  sleepQuality?: number;
+  sleepHours?: number;
+}
+
+export interface ExerciseOutboxArgs {
+  userId: Id<'users'>;
+  type: string;
+  exerciseId?: string;
+  duration?: number;
+  conversationId?: Id<'conversations'>;
+  messageId?: Id<'messages'>;
+  data: {
+    inputs?: any;
+    outputs?: {
+      moodBefore?: number;
+      moodAfter?: number;
+      insights?: string[];
+      completionNotes?: string;
+      effectiveness?: number;
+    };
+  };
+}
+
+interface OutboxEntryBase {
+  // Also the idempotency key sent as clientId
+  id: string;
+  createdAt: number;
+  attempts: number;
+  lastError?: string;
+  // Set after MAX_ATTEMPTS; not replayed until retried
+  failed?: boolean;
+}
+
+export type OutboxEntry =
+  | (OutboxEntryBase & { kind: 'mood'; args: MoodOutboxArgs })
+  | (OutboxEntryBase & { kind: 'exercise'; args: ExerciseOutboxArgs });
+
+export type OutboxSender = (entry: OutboxEntry) => Promise<unknown>;
+
+let entries: OutboxEntry[] | null = null;
+let flushing: Promise<void> | null = null;
+const listeners = new Set<() => void>();
+
+const readStorage = (): OutboxEntry[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Outbox read error:', error);
+    return [];
+  }
+};
+
+const writeStorage = (next: OutboxEntry[]) => {
+  entries = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.error('Outbox write error:', error);
+  }
+  listeners.forEach(listener => listener());
+};
+
+// Current entries, oldest first; the same array until the outbox changes
+export const getOutboxEntries = (): OutboxEntry[] => {
+  if (entries === null) {
+    entries = readStorage();
+  }
+  return entries;
+};
+
+export const subscribeToOutbox = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export function enqueueOutboxEntry(kind: 'mood', args: MoodOutboxArgs, now?: number): OutboxEntry;
+export function enqueueOutboxEntry(kind: 'exercise', args: ExerciseOutboxArgs, now?: number): OutboxEntry;
+export function enqueueOutboxEntry(
+  kind: OutboxEntry['kind'],
+  args: MoodOutboxArgs | ExerciseOutboxArgs,
+  now: number = Date.now()
+): OutboxEntry {
+  const entry = { id: Crypto.randomUUID(), kind, args, createdAt: now, attempts: 0 } as OutboxEntry;
+  writeStorage([...getOutboxEntries(), entry]);
+  return entry;
+}
+
+const updateEntries = (ids: Set<string>, update: (entry: OutboxEntry) => OutboxEntry | null) => {
+  writeStorage(getOutboxEntries().flatMap(entry => {
+    if (!ids.has(entry.id)) return [entry];
+    const next = update(entry);
+    return next ? [next] : [];
+  }));
+};
+
+const idsOf = (userId: Id<'users'>, filter: (entry: OutboxEntry) => boolean = () => true) =>
+  new Set(getOutboxEntries().filter(entry => entry.args.userId === userId && filter(entry)).map(entry => entry.id));
+
+// Queue a user's failed entries to be sent again on the next flush
+export const retryFailedOutboxEntries = (userId: Id<'users'>) => {
+  updateEntries(idsOf(userId, entry => !!entry.failed), ({ failed: _failed, ...entry }) => ({ ...entry, attempts: 0 }));
+};
+
+export const discardFailedOutboxEntries = (userId: Id<'users'>) => {
+  updateEntries(idsOf(userId, entry => !!entry.failed), () => null);
+};
+
+// Remove everything a user has queued, e.g. on sign-out or account deletion
+export const clearOutbox = (userId: Id<'users'>) => {
+  updateEntries(idsOf(userId), () => null);
+};
+
+// Send a user's queued entries in order. Only one flush runs at a time; calls
+// made while one is in progress wait for it.
+export const flushOutbox = (send: OutboxSender, userId: Id<'users'>): Promise<void> => {
+  if (flushing) return flushing;
+
+  flushing = (async () => {
+    // Entries queued while flushing are picked up in the same run
+    const tried = new Set<string>();
+    let next: OutboxEntry | undefined;
+    while ((next = getOutboxEntries().find(e => e.args.userId === userId && !e.failed && !tried.has(e.id)))) {
+      const entry = next;
+      tried.add(entry.id);
+      try {
+        await send(entry);
+        updateEntries(new Set([entry.id]), () => null);
+      } catch (error) {
+        const attempts = entry.attempts + 1;
+        const lastError = error instanceof Error ? error.message : String(error);
+        updateEntries(new Set([entry.id]), e => ({ ...e, attempts, lastError, ...(attempts >= MAX_ATTEMPTS ? { failed: true } : {}) }));
+      }
+    }
+  })().finally(() => {
+    flushing = null;
+  });
+
+  return flushing;
+};
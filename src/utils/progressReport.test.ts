@@ -0,0 +1,96 @@
+/**
+ * Unit Tests for the progress report layout
+ * Tests right-to-left Arabic output, localized exercise names, escaping of user text and the
+ * optional conversation summaries
+ */
+
+import { buildProgressReportHtml, escapeHtml, moodChartSvg, ProgressReportData } from './progressReport';
+
+const report: ProgressReportData = {
+  userName: 'Sara <3',
+  from: Date.UTC(2025, 0, 1),
+  to: Date.UTC(2025, 0, 31),
+  generatedAt: Date.UTC(2025, 0, 31),
+  mood: {
+    entries: 3,
+    average: 6,
+    daily: [
+      { date: '2025-01-01', average: 4, entries: 1 },
+      { date: '2025-01-02', average: 6, entries: 1 },
+      { date: '2025-01-03', average: 8, entries: 1 },
+    ],
+  },
+  factors: [{
+    key: 'sleep',
+    label: { en: 'Sleep', ar: 'النوم' },
+    emoji: '😴',
+    entries: 6,
+    difference: 1.5,
+    confidenceInterval: [0.5, 2.5],
+    significant: true,
+  }],
+  exercises: [{ type: 'breathing', count: 2, totalDuration: 600, averageEffectiveness: 4, averageMoodChange: 1 }],
+  assessments: [{
+    name: 'PHQ-9',
+    totalScore: 7,
+    maxScore: 27,
+    severityLabel: { en: 'Mild', ar: 'خفيف' },
+    completedAt: Date.UTC(2025, 0, 10),
+  }],
+  conversationSummaries: null,
+};
+
+describe('Progress report', () => {
+  it('should lay out Arabic reports right to left in Arabic', () => {
+    const html = buildProgressReportHtml(report, 'ar');
+
+    expect(html).toContain('<html lang="ar" dir="rtl">');
+    expect(html).toContain('النوم');
+    expect(html).toContain('خفيف');
+    expect(html).not.toContain('Sleep');
+  });
+
+  it('should lay out English reports left to right', () => {
+    const html = buildProgressReportHtml(report, 'en');
+
+    expect(html).toContain('<html lang="en" dir="ltr">');
+    expect(html).toContain('Mild');
+    expect(html).toContain('PHQ-9');
+  });
+
+  it('should name exercise types in the report language', () => {
+    const withTypes = {
+      ...report,
+      exercises: [...report.exercises, { ...report.exercises[0], type: 'thoughtChallenge' }, { ...report.exercises[0], type: 'yoga' }],
+    };
+
+    expect(buildProgressReportHtml(withTypes, 'en')).toContain('<td>Thought challenge</td>');
+    expect(buildProgressReportHtml(withTypes, 'ar')).toContain('<td>التنفس</td>');
+    expect(buildProgressReportHtml(withTypes, 'ar')).toContain('<td>تحدي الأفكار</td>');
+    expect(buildProgressReportHtml(withTypes, 'en')).toContain('<td>yoga</td>');
+    expect(buildProgressReportHtml(withTypes, 'en')).not.toContain('thoughtChallenge');
+  });
+
+  it('should escape text the user wrote', () => {
+    expect(escapeHtml('<b>"hi" & \'bye\'</b>')).toBe('&lt;b&gt;&quot;hi&quot; &amp; &#39;bye&#39;&lt;/b&gt;');
+    expect(buildProgressReportHtml(report, 'en')).toContain('Sara &lt;3');
+  });
+
+  it('should only include conversation summaries when asked for', () => {
+    expect(buildProgressReportHtml(report, 'en')).not.toContain('Conversation summaries');
+
+    const html = buildProgressReportHtml({
+      ...report,
+      conversationSummaries: [{ summary: 'Talked about exams', keyTopics: ['study'], generatedAt: Date.UTC(2025, 0, 5) }],
+    }, 'en');
+    expect(html).toContain('Conversation summaries');
+    expect(html).toContain('Talked about exams');
+  });
+
+  it('should run the mood chart from right to left in Arabic', () => {
+    const firstX = (svg: string) => Number(svg.match(/points="([\d.]+),/)![1]);
+
+    expect(firstX(moodChartSvg(report.mood.daily, false))).toBe(0);
+    expect(firstX(moodChartSvg(report.mood.daily, true))).toBe(520);
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Progress report layout
+ * Turns the data from reports.getProgressReport into a self-contained HTML page that
+ * expo-print renders to PDF. Arabic reports are laid out right-to-left, including the mood chart.
+ */
+
+import { getTranslation, translations, type Locale } from '@/locales';
+import { formatDate } from '@/utils/helpers';
+
+interface LocalizedText {
+  en: string;
+  ar: string;
+}
+
+// Shape returned by reports.getProgressReport
+export interface ProgressReportData {
+  userName: string | null;
+  from: number;
+  to: number;
+  generatedAt: number;
+  mood: {
+    entries: number;
+    average: number | null;
+    daily: { date: string; average: number; entries: number }[];
+  };
+  factors: {
+    key: string;
+    label: LocalizedText;
+    emoji: string;
+    entries: number;
+    difference: number;
+    confidenceInterval: [number, number];
+    significant: boolean;
+  }[];
+  exercises: {
+    type: string;
+    count: number;
+    totalDuration: number;
+    averageEffectiveness: number | null;
+    averageMoodChange: number | null;
+  }[];
+  assessments: {
+    name: string;
+    totalScore: number;
+    maxScore: number;
+    severityLabel: LocalizedText;
+    completedAt: number;
+  }[];
+  conversationSummaries: {
+    summary: string;
+    keyTopics: string[];
+    generatedAt: number;
+  }[] | null;
+}
+
+const CHART_WIDTH = 520;
+const CHART_HEIGHT = 140;
+const MOOD_MIN = 1;
+const MOOD_MAX = 10;
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const signed = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)}`;
+
+// Noon UTC keeps a YYYY-MM-DD date on the same day in every timezone
+const dayTimestamp = (date: string) => Date.parse(`${date}T12:00:00Z`);
+
+// Daily mood averages as an SVG line; time runs right to left in Arabic
+export function moodChartSvg(daily: ProgressReportData['mood']['daily'], rtl: boolean): string {
+  if (daily.length === 0) return '';
+  const first = dayTimestamp(daily[0].date);
+  const span = dayTimestamp(daily[daily.length - 1].date) - first || 1;
+
+  const points = daily.map(point => {
+    const position = daily.length === 1 ? 0.5 : (dayTimestamp(point.date) - first) / span;
+    const x = (rtl ? 1 - position : position) * CHART_WIDTH;
+    const y = CHART_HEIGHT - ((point.average - MOOD_MIN) / (MOOD_MAX - MOOD_MIN)) * CHART_HEIGHT;
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+
+  return [
+    `<svg class="chart" viewBox="-6 -6 ${CHART_WIDTH + 12} ${CHART_HEIGHT + 12}" xmlns="http://www.w3.org/2000/svg">`,
+    `<line x1="0" y1="${CHART_HEIGHT}" x2="${CHART_WIDTH}" y2="${CHART_HEIGHT}" stroke="#ccc" />`,
+    `<polyline fill="none" stroke="#4A90E2" stroke-width="2" points="${points.join(' ')}" />`,
+    ...points.map(point => {
+      const [cx, cy] = point.split(',');
+      return `<circle cx="${cx}" cy="${cy}" r="3" fill="#4A90E2" />`;
+    }),
+    '</svg>',
+  ].join('');
+}
+
+function table(headers: string[], rows: string[][]): string {
+  return [
+    '<table><thead><tr>',
+    ...headers.map(header => `<th>${escapeHtml(header)}</th>`),
+    '</tr></thead><tbody>',
+    ...rows.map(row => `<tr>${row.map(cell => `<td>${cell}</td>`).join('')}</tr>`),
+    '</tbody></table>',
+  ].join('');
+}
+
+export function buildProgressReportHtml(report: ProgressReportData, locale: Locale): string {
+  const t = (key: string) => getTranslation(locale, `progressReport.${key}`);
+  const rtl = locale === 'ar';
+  const localized = (text: LocalizedText) => escapeHtml(rtl ? text.ar : text.en);
+  const date = (timestamp: number) => escapeHtml(formatDate(timestamp, locale));
+  const empty = (key: string) => `<p class="muted">${escapeHtml(t(key))}</p>`;
+  // Older entries may carry a type that no longer has a name
+  const exerciseTypeName = (type: string) =>
+    (translations[locale].exercises.types as Record<string, string>)[type] ?? type;
+
+  const sections: string[] = [];
+
+  sections.push(`<h2>${escapeHtml(t('moodTitle'))}</h2>`);
+  if (report.mood.entries === 0 || report.mood.average === null) {
+    sections.push(empty('moodEmpty'));
+  } else {
+    sections.push(`<p>${escapeHtml(
+      t('moodAverage')
+        .replace('{value}', report.mood.average.toFixed(1))
+        .replace('{count}', String(report.mood.entries))
+    )}</p>`);
+    sections.push(moodChartSvg(report.mood.daily, rtl));
+    const { daily } = report.mood;
+    sections.push(`<div class="axis"><span>${date(dayTimestamp(daily[0].date))}</span><span>${date(dayTimestamp(daily[daily.length - 1].date))}</span></div>`);
+  }
+
+  sections.push(`<h2>${escapeHtml(t('factorsTitle'))}</h2>`);
+  if (report.factors.length === 0) {
+    sections.push(empty('factorsEmpty'));
+  } else {
+    sections.push(`<p class="muted">${escapeHtml(t('factorsNote'))}</p>`);
+    sections.push(table(
+      [t('factor'), t('difference'), t('interval'), t('entries')],
+      report.factors.map(factor => [
+        `${escapeHtml(factor.emoji)} ${localized(factor.label)}${factor.significant ? ' *' : ''}`,
+        `<span dir="ltr">${signed(factor.difference)}</span>`,
+        `<span dir="ltr">${signed(factor.confidenceInterval[0])} … ${signed(factor.confidenceInterval[1])}</span>`,
+        String(factor.entries),
+      ])
+    ));
+  }
+
+  sections.push(`<h2>${escapeHtml(t('exercisesTitle'))}</h2>`);
+  if (report.exercises.length === 0) {
+    sections.push(empty('exercisesEmpty'));
+  } else {
+    sections.push(table(
+      [t('exercise'), t('sessions'), t('minutes'), t('effectiveness'), t('moodChange')],
+      report.exercises.map(exercise => [
+        escapeHtml(exerciseTypeName(exercise.type)),
+        String(exercise.count),
+        String(Math.round(exercise.totalDuration / 60)),
+        exercise.averageEffectiveness === null ? '–' : `<span dir="ltr">${exercise.averageEffectiveness.toFixed(1)} / 5</span>`,
+        exercise.averageMoodChange === null ? '–' : `<span dir="ltr">${signed(exercise.averageMoodChange)}</span>`,
+      ])
+    ));
+  }
+
+  sections.push(`<h2>${escapeHtml(t('assessmentsTitle'))}</h2>`);
+  if (report.assessments.length === 0) {
+    sections.push(empty('assessmentsEmpty'));
+  } else {
+    sections.push(table(
+      [t('date'), t('questionnaire'), t('score'), t('severity')],
+      report.assessments.map(assessment => [
+        date(assessment.completedAt),
+        escapeHtml(assessment.name),
+        `<span dir="ltr">${assessment.totalScore} / ${assessment.maxScore}</span>`,
+        localized(assessment.severityLabel),
+      ])
+    ));
+  }
+
+  if (report.conversationSummaries) {
+    sections.push(`<h2>${escapeHtml(t('summariesTitle'))}</h2>`);
+    if (report.conversationSummaries.length === 0) {
+      sections.push(empty('summariesEmpty'));
+    } else {
+      for (const summary of report.conversationSummaries) {
+        sections.push([
+          '<div class="summary">',
+          `<p class="muted">${date(summary.generatedAt)}</p>`,
+          `<p>${escapeHtml(summary.summary)}</p>`,
+          summary.keyTopics.length > 0 ? `<p class="muted">${summary.keyTopics.map(escapeHtml).join(' · ')}</p>` : '',
+          '</div>',
+        ].join(''));
+      }
+    }
+  }
+
+  const heading = report.userName
+    ? t('preparedFor').replace('{name}', report.userName)
+    : t('title');
+
+  return `<!DOCTYPE html>
+<html lang="${locale}" dir="${rtl ? 'rtl' : 'ltr'}">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(t('title'))}</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", Roboto, "Noto Naskh Arabic", "Geeza Pro", sans-serif; color: #1c1c1e; margin: 32px; font-size: 12px; line-height: 1.5; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 16px; margin: 24px 0 8px; border-bottom: 1px solid #e5e5ea; padding-bottom: 4px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: start; padding: 6px 8px; border-bottom: 1px solid #f2f2f7; }
+  th { font-weight: 600; color: #636366; }
+  .muted { color: #8e8e93; }
+  .chart { width: 100%; height: auto; }
+  .axis { display: flex; justify-content: space-between; color: #8e8e93; font-size: 10px; }
+  .summary { margin-bottom: 12px; page-break-inside: avoid; }
+  footer { margin-top: 32px; font-size: 10px; color: #8e8e93; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(heading)}</h1>
+<p class="muted">${escapeHtml(
+    t('period').replace('{from}', formatDate(report.from, locale)).replace('{to}', formatDate(report.to, locale))
+  )}</p>
+${sections.join('\n')}
+<footer>${escapeHtml(t('generated').replace('{date}', formatDate(report.generatedAt, locale)))} · ${escapeHtml(t('disclaimer'))}</footer>
+</body>
+</html>`;
+}
@@ -0,0 +1,71 @@
+/**
+ * Unit Tests for the daily check-in reminder schedule
+ * Tests time parsing, timezone conversion across DST, and skipping today's reminder
+ */
+
+import { parseReminderTime, reminderTimestamps, zonedTimeToTimestamp } from './reminders';
+
+const iso = (timestamp: number) => new Date(timestamp).toISOString();
+
+describe('Reminders', () => {
+  describe('parseReminderTime', () => {
+    it('should parse 24-hour times', () => {
+      expect(parseReminderTime('09:30')).toEqual({ hour: 9, minute: 30 });
+      expect(parseReminderTime('23:05')).toEqual({ hour: 23, minute: 5 });
+    });
+
+    it('should reject anything else', () => {
+      expect(parseReminderTime('24:00')).toBeNull();
+      expect(parseReminderTime('9:30')).toBeNull();
+      expect(parseReminderTime('evening')).toBeNull();
+    });
+  });
+
+  describe('zonedTimeToTimestamp', () => {
+    it('should convert a wall-clock time in UTC+3 and UTC-8', () => {
+      const date = { year: 2025, month: 1, day: 15 };
+
+      expect(iso(zonedTimeToTimestamp(date, 20, 0, 'Asia/Riyadh'))).toBe('2025-01-15T17:00:00.000Z');
+      expect(iso(zonedTimeToTimestamp(date, 20, 0, 'America/Los_Angeles'))).toBe('2025-01-16T04:00:00.000Z');
+    });
+
+    it('should follow DST changes', () => {
+      // Los Angeles springs forward on 9 March 2025
+      expect(iso(zonedTimeToTimestamp({ year: 2025, month: 3, day: 8 }, 20, 0, 'America/Los_Angeles')))
+        .toBe('2025-03-09T04:00:00.000Z');
+      expect(iso(zonedTimeToTimestamp({ year: 2025, month: 3, day: 9 }, 20, 0, 'America/Los_Angeles')))
+        .toBe('2025-03-10T03:00:00.000Z');
+    });
+  });
+
+  describe('reminderTimestamps', () => {
+    // 15:00 in Riyadh
+    const now = Date.UTC(2025, 0, 15, 12);
+
+    it('should remind at the same local time every day', () => {
+      const timestamps = reminderTimestamps({ time: '20:00', timezone: 'Asia/Riyadh', now, days: 3 });
+
+      expect(timestamps.map(iso)).toEqual([
+        '2025-01-15T17:00:00.000Z',
+        '2025-01-16T17:00:00.000Z',
+        '2025-01-17T17:00:00.000Z',
+      ]);
+    });
+
+    it('should skip today once the user has checked in', () => {
+      const timestamps = reminderTimestamps({ time: '20:00', timezone: 'Asia/Riyadh', now, days: 2, checkedInToday: true });
+
+      expect(timestamps.map(iso)).toEqual(['2025-01-16T17:00:00.000Z', '2025-01-17T17:00:00.000Z']);
+    });
+
+    it('should skip today when the time has already passed', () => {
+      const timestamps = reminderTimestamps({ time: '09:00', timezone: 'Asia/Riyadh', now, days: 1 });
+
+      expect(timestamps.map(iso)).toEqual(['2025-01-16T06:00:00.000Z']);
+    });
+
+    it('should schedule nothing for an invalid time', () => {
+      expect(reminderTimestamps({ time: 'soon', timezone: 'UTC', now })).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Daily check-in reminder schedule
+ * Pure helpers for turning the user's reminder time, in their timezone, into notification times
+ */
+
+export const REMINDER_TIMES = [
+  { id: 'morning', time: '09:00', labelKey: 'time.morning' },
+  { id: 'afternoon', time: '14:00', labelKey: 'time.afternoon' },
+  { id: 'evening', time: '20:00', labelKey: 'time.evening' },
+  { id: 'night', time: '22:00', labelKey: 'time.night' },
+] as const;
+
+// Notifications are scheduled this many days ahead and topped up on every launch
+export const REMINDER_DAYS_AHEAD = 7;
+
+// Marks our notifications among everything scheduled on the device
+export const REMINDER_KIND = 'daily-check-in';
+export const REMINDER_CATEGORY = 'daily-check-in';
+
+// Notification actions: snooze for a while, or open the mood tracker
+export const SNOOZE_ACTIONS = {
+  'snooze-15': 15,
+  'snooze-60': 60,
+} as const;
+export type SnoozeAction = keyof typeof SNOOZE_ACTIONS;
+export const CHECK_IN_ACTION = 'check-in';
+
+// Deep link into the mood tracker
+export const CHECK_IN_URL = '/mood?track=1';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+export function parseReminderTime(time: string): { hour: number; minute: number } | null {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(time);
+  return match ? { hour: Number(match[1]), minute: Number(match[2]) } : null;
+}
+
+function zonedParts(timestamp: number, timezone: string) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      hourCycle: 'h23',
+    })
+      .formatToParts(new Date(timestamp))
+      .map(part => [part.type, Number(part.value)])
+  );
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute };
+}
+
+// How far the timezone's wall clock is ahead of UTC at an instant
+function timezoneOffset(timestamp: number, timezone: string): number {
+  const local = zonedParts(timestamp, timezone);
+  const wallClock = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+  return wallClock - Math.floor(timestamp / MINUTE) * MINUTE;
+}
+
+/**
+ * The instant a wall-clock time occurs on a date in a timezone
+ * A time skipped by a DST change resolves to the hour before the change
+ */
+export function zonedTimeToTimestamp(
+  date: { year: number; month: number; day: number },
+  hour: number,
+  minute: number,
+  timezone: string
+): number {
+  const wallClock = Date.UTC(date.year, date.month - 1, date.day, hour, minute);
+  const guess = wallClock - timezoneOffset(wallClock, timezone);
+  // The offset may differ on the other side of a DST change
+  return wallClock - timezoneOffset(guess, timezone);
+}
+
+/**
+ * When to remind the user over the next `days` days, oldest first
+ * Today's reminder is left out once it has passed or the user already checked in
+ */
+export function reminderTimestamps({
+  time,
+  timezone,
+  now,
+  days = REMINDER_DAYS_AHEAD,
+  checkedInToday = false,
+}: {
+  time: string;
+  timezone: string;
+  now: number;
+  days?: number;
+  checkedInToday?: boolean;
+}): number[] {
+  const parsed = parseReminderTime(time);
+  if (!parsed) return [];
+
+  const today = zonedParts(now, timezone);
+  const timestamps: number[] = [];
+  for (let offset = 0; offset <= days; offset++) {
+    const date = zonedParts(Date.UTC(today.year, today.month - 1, today.day) + offset * DAY, 'UTC');
+    const timestamp = zonedTimeToTimestamp(date, parsed.hour, parsed.minute, timezone);
+
+    if (timestamp <= now) continue;
+    if (offset === 0 && checkedInToday) continue;
+    timestamps.push(timestamp);
+  }
+  return timestamps.slice(0, days);
+}
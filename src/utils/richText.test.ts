@@ -0,0 +1,53 @@
+/**
+ * Unit Tests for journal rich text
+ * Tests toggling inline and line formatting around a selection, parsing and plain-text previews
+ */
+
+import { applyFormat, parseRichText, toPlainText } from './richText';
+
+describe('Rich text', () => {
+  it('should wrap and unwrap the selection in bold markers', () => {
+    const bold = applyFormat('a long walk', { start: 2, end: 6 }, 'bold');
+    expect(bold).toEqual({ text: 'a **long** walk', selection: { start: 4, end: 8 } });
+
+    expect(applyFormat(bold.text, bold.selection, 'bold')).toEqual({ text: 'a long walk', selection: { start: 2, end: 6 } });
+  });
+
+  it('should italicise bold text instead of unwrapping it', () => {
+    expect(applyFormat('a **long** walk', { start: 4, end: 8 }, 'italic').text).toBe('a ***long*** walk');
+  });
+
+  it('should toggle a prefix on every selected line', () => {
+    const text = 'Eggs\nMilk\nBread';
+    const list = applyFormat(text, { start: 1, end: 7 }, 'bullet');
+    expect(list.text).toBe('- Eggs\n- Milk\nBread');
+
+    expect(applyFormat(list.text, { start: 3, end: 9 }, 'bullet').text).toBe(text);
+    expect(applyFormat('- Today', { start: 2, end: 2 }, 'heading').text).toBe('# Today');
+  });
+
+  it('should parse headings, lists and inline formatting', () => {
+    expect(parseRichText('# Monday\n\n- a **long** walk\nfelt *calm*')).toEqual([
+      { type: 'heading', spans: [{ text: 'Monday', bold: false, italic: false }] },
+      {
+        type: 'bullet',
+        spans: [
+          { text: 'a ', bold: false, italic: false },
+          { text: 'long', bold: true, italic: false },
+          { text: ' walk', bold: false, italic: false },
+        ],
+      },
+      {
+        type: 'paragraph',
+        spans: [
+          { text: 'felt ', bold: false, italic: false },
+          { text: 'calm', bold: false, italic: true },
+        ],
+      },
+    ]);
+  });
+
+  it('should strip formatting for previews', () => {
+    expect(toPlainText('# Monday\n- a **long** walk, 5 * 2')).toBe('Monday\na long walk, 5 * 2');
+  });
+});
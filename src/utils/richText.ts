@@ -0,0 +1,119 @@
+/**
+ * Journal rich text
+ * Entries are stored as a small Markdown subset: **bold**, *italic*, "# " headings and "- " lists.
+ * The editor toggles formatting around the selection; the viewer renders parsed blocks.
+ */
+
+export type RichTextFormat = 'bold' | 'italic' | 'heading' | 'bullet';
+
+export interface TextSelection {
+  start: number;
+  end: number;
+}
+
+export interface RichTextSpan {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+}
+
+export interface RichTextBlock {
+  type: 'paragraph' | 'heading' | 'bullet';
+  spans: RichTextSpan[];
+}
+
+const INLINE_MARKERS: Record<'bold' | 'italic', string> = { bold: '**', italic: '*' };
+const LINE_PREFIXES: Record<'heading' | 'bullet', string> = { heading: '# ', bullet: '- ' };
+
+// Wrap or unwrap the selection in ** / *, or add or remove a line prefix on every selected line
+export function applyFormat(
+  text: string,
+  selection: TextSelection,
+  format: RichTextFormat
+): { text: string; selection: TextSelection } {
+  const { start, end } = selection;
+
+  if (format === 'bold' || format === 'italic') {
+    const marker = INLINE_MARKERS[format];
+    const before = text.slice(0, start);
+    const selected = text.slice(start, end);
+    const after = text.slice(end);
+    const isWrapped = before.endsWith(marker) && after.startsWith(marker)
+      // "**x**" is bold, not italic
+      && !(format === 'italic' && before.endsWith('**') && after.startsWith('**') && !before.endsWith('***'));
+
+    if (isWrapped) {
+      return {
+        text: before.slice(0, -marker.length) + selected + after.slice(marker.length),
+        selection: { start: start - marker.length, end: end - marker.length },
+      };
+    }
+    return {
+      text: before + marker + selected + marker + after,
+      selection: { start: start + marker.length, end: end + marker.length },
+    };
+  }
+
+  const prefix = LINE_PREFIXES[format];
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  const nextBreak = text.indexOf('\n', end);
+  const lineEnd = nextBreak === -1 ? text.length : nextBreak;
+  const lines = text.slice(lineStart, lineEnd).split('\n');
+  const isPrefixed = lines.every(line => line.startsWith(prefix));
+  const updated = lines
+    .map(line => {
+      const stripped = line.replace(/^(?:# |- )/, '');
+      return isPrefixed ? stripped : prefix + stripped;
+    })
+    .join('\n');
+
+  const shift = updated.length - (lineEnd - lineStart);
+  return {
+    text: text.slice(0, lineStart) + updated + text.slice(lineEnd),
+    selection: {
+      start: Math.max(lineStart, start + (isPrefixed ? -prefix.length : prefix.length)),
+      end: end + shift,
+    },
+  };
+}
+
+function parseSpans(line: string): RichTextSpan[] {
+  const spans: RichTextSpan[] = [];
+  // **bold**, *italic*, or plain text up to the next marker
+  const pattern = /\*\*(.+?)\*\*|\*(.+?)\*|([^*]+|\*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(line)) !== null) {
+    if (match[1] !== undefined) {
+      spans.push({ text: match[1], bold: true, italic: false });
+    } else if (match[2] !== undefined) {
+      spans.push({ text: match[2], bold: false, italic: true });
+    } else {
+      const last = spans[spans.length - 1];
+      if (last && !last.bold && !last.italic) {
+        last.text += match[3];
+      } else {
+        spans.push({ text: match[3], bold: false, italic: false });
+      }
+    }
+  }
+  return spans;
+}
+
+// One block per non-empty line
+export function parseRichText(content: string): RichTextBlock[] {
+  return content
+    .split('\n')
+    .filter(line => line.trim().length > 0)
+    .map((line): RichTextBlock => {
+      if (line.startsWith('# ')) return { type: 'heading', spans: parseSpans(line.slice(2)) };
+      if (line.startsWith('- ')) return { type: 'bullet', spans: parseSpans(line.slice(2)) };
+      return { type: 'paragraph', spans: parseSpans(line) };
+    });
+}
+
+// Plain text for previews and local search
+export function toPlainText(content: string): string {
+  return parseRichText(content)
+    .map(block => block.spans.map(span => span.text).join(''))
+    .join('\n');
+}